@@ -0,0 +1,20 @@
+-- CreateTable
+CREATE TABLE "StylistSchedule" (
+    "id" TEXT NOT NULL,
+    "stylistId" TEXT NOT NULL,
+    "dayOfWeek" "DayOfWeek" NOT NULL,
+    "startTime" TEXT NOT NULL,
+    "endTime" TEXT NOT NULL,
+    "breakStartTime" TEXT,
+    "breakEndTime" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StylistSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StylistSchedule_stylistId_dayOfWeek_idx" ON "StylistSchedule"("stylistId", "dayOfWeek");
+
+-- AddForeignKey
+ALTER TABLE "StylistSchedule" ADD CONSTRAINT "StylistSchedule_stylistId_fkey" FOREIGN KEY ("stylistId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
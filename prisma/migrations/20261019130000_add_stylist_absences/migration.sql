@@ -0,0 +1,22 @@
+-- CreateEnum
+CREATE TYPE "AbsenceType" AS ENUM ('VACATION', 'SICK_LEAVE', 'PERSONAL', 'OTHER');
+
+-- CreateTable
+CREATE TABLE "StylistAbsence" (
+    "id" TEXT NOT NULL,
+    "stylistId" TEXT NOT NULL,
+    "type" "AbsenceType" NOT NULL,
+    "startDateTime" TIMESTAMP(3) NOT NULL,
+    "endDateTime" TIMESTAMP(3) NOT NULL,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "StylistAbsence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "StylistAbsence_stylistId_startDateTime_endDateTime_idx" ON "StylistAbsence"("stylistId", "startDateTime", "endDateTime");
+
+-- AddForeignKey
+ALTER TABLE "StylistAbsence" ADD CONSTRAINT "StylistAbsence_stylistId_fkey" FOREIGN KEY ("stylistId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
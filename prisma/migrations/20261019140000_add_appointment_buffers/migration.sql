@@ -0,0 +1,11 @@
+-- AlterTable
+ALTER TABLE "Service" ADD COLUMN     "bufferAfter" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bufferBefore" INTEGER NOT NULL DEFAULT 0;
+
+-- AlterTable
+ALTER TABLE "StylistService" ADD COLUMN     "customBufferAfter" INTEGER,
+ADD COLUMN     "customBufferBefore" INTEGER;
+
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "bufferAfter" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "bufferBefore" INTEGER NOT NULL DEFAULT 0;
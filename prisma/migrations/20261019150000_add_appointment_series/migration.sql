@@ -0,0 +1,31 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "seriesId" TEXT;
+
+-- CreateTable
+CREATE TABLE "AppointmentSeries" (
+    "id" TEXT NOT NULL,
+    "intervalWeeks" INTEGER NOT NULL,
+    "occurrences" INTEGER NOT NULL,
+    "startDateTime" TIMESTAMP(3) NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "AppointmentSeries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AppointmentSeries_clientId_idx" ON "AppointmentSeries"("clientId");
+
+-- CreateIndex
+CREATE INDEX "Appointment_seriesId_idx" ON "Appointment"("seriesId");
+
+-- AddForeignKey
+ALTER TABLE "Appointment" ADD CONSTRAINT "Appointment_seriesId_fkey" FOREIGN KEY ("seriesId") REFERENCES "AppointmentSeries"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentSeries" ADD CONSTRAINT "AppointmentSeries_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AppointmentSeries" ADD CONSTRAINT "AppointmentSeries_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
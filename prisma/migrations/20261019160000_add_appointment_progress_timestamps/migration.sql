@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "Appointment" ADD COLUMN     "checkedInAt" TIMESTAMP(3),
+ADD COLUMN     "completedAt" TIMESTAMP(3),
+ADD COLUMN     "startedAt" TIMESTAMP(3);
@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "AppointmentEventType" AS ENUM ('CREATED', 'STATUS_CHANGED', 'RESCHEDULED', 'STYLIST_CHANGED', 'SERVICE_ADDED', 'SERVICE_REMOVED', 'CHECKED_IN');
+
+-- CreateTable
+CREATE TABLE "AppointmentEvent" (
+    "id" TEXT NOT NULL,
+    "type" "AppointmentEventType" NOT NULL,
+    "actorId" TEXT,
+    "actorRole" TEXT NOT NULL,
+    "fromValue" TEXT,
+    "toValue" TEXT,
+    "reason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "appointmentId" TEXT NOT NULL,
+
+    CONSTRAINT "AppointmentEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AppointmentEvent_appointmentId_createdAt_idx" ON "AppointmentEvent"("appointmentId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AppointmentEvent" ADD CONSTRAINT "AppointmentEvent_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
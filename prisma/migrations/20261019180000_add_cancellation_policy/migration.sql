@@ -0,0 +1,41 @@
+-- CreateEnum
+CREATE TYPE "PaymentType" AS ENUM ('SERVICE', 'LATE_CANCELLATION_FEE', 'NO_SHOW_FEE');
+
+-- CreateEnum
+CREATE TYPE "CancellationFeeType" AS ENUM ('FIXED', 'PERCENTAGE');
+
+-- AlterTable
+ALTER TABLE "Payment" ADD COLUMN     "type" "PaymentType" NOT NULL DEFAULT 'SERVICE';
+
+-- CreateTable
+CREATE TABLE "CancellationPolicy" (
+    "id" TEXT NOT NULL DEFAULT 'default',
+    "adminNoticeHours" INTEGER NOT NULL DEFAULT 2,
+    "stylistNoticeHours" INTEGER NOT NULL DEFAULT 2,
+    "clientNoticeHours" INTEGER NOT NULL DEFAULT 2,
+    "lateFeeType" "CancellationFeeType",
+    "lateFeeValue" DECIMAL(10,2),
+    "chargeNoShowFee" BOOLEAN NOT NULL DEFAULT false,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "CancellationPolicy_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ServiceCancellationOverride" (
+    "id" TEXT NOT NULL,
+    "noticeHours" INTEGER NOT NULL,
+    "policyId" TEXT NOT NULL,
+    "serviceId" TEXT NOT NULL,
+
+    CONSTRAINT "ServiceCancellationOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ServiceCancellationOverride_serviceId_key" ON "ServiceCancellationOverride"("serviceId");
+
+-- AddForeignKey
+ALTER TABLE "ServiceCancellationOverride" ADD CONSTRAINT "ServiceCancellationOverride_policyId_fkey" FOREIGN KEY ("policyId") REFERENCES "CancellationPolicy"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ServiceCancellationOverride" ADD CONSTRAINT "ServiceCancellationOverride_serviceId_fkey" FOREIGN KEY ("serviceId") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,75 @@
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('ACTIVE', 'FULFILLED', 'CANCELLED');
+
+-- AlterEnum
+ALTER TYPE "NotificationType" ADD VALUE 'WAITLIST_SLOT_AVAILABLE';
+
+-- CreateTable
+CREATE TABLE "WaitlistEntry" (
+    "id" TEXT NOT NULL,
+    "fromDate" DATE NOT NULL,
+    "toDate" DATE NOT NULL,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'ACTIVE',
+    "lastNotifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "clientId" TEXT NOT NULL,
+    "userId" TEXT NOT NULL,
+    "stylistId" TEXT,
+    "holdId" TEXT,
+
+    CONSTRAINT "WaitlistEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "SlotHold" (
+    "id" TEXT NOT NULL,
+    "dateTime" TIMESTAMP(3) NOT NULL,
+    "duration" INTEGER NOT NULL,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "stylistId" TEXT NOT NULL,
+
+    CONSTRAINT "SlotHold_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "_ServiceToWaitlistEntry" (
+    "A" TEXT NOT NULL,
+    "B" TEXT NOT NULL,
+
+    CONSTRAINT "_ServiceToWaitlistEntry_AB_pkey" PRIMARY KEY ("A","B")
+);
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_status_fromDate_toDate_idx" ON "WaitlistEntry"("status", "fromDate", "toDate");
+
+-- CreateIndex
+CREATE INDEX "WaitlistEntry_clientId_idx" ON "WaitlistEntry"("clientId");
+
+-- CreateIndex
+CREATE INDEX "SlotHold_stylistId_dateTime_idx" ON "SlotHold"("stylistId", "dateTime");
+
+-- CreateIndex
+CREATE INDEX "_ServiceToWaitlistEntry_B_index" ON "_ServiceToWaitlistEntry"("B");
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_stylistId_fkey" FOREIGN KEY ("stylistId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "WaitlistEntry" ADD CONSTRAINT "WaitlistEntry_holdId_fkey" FOREIGN KEY ("holdId") REFERENCES "SlotHold"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "SlotHold" ADD CONSTRAINT "SlotHold_stylistId_fkey" FOREIGN KEY ("stylistId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ServiceToWaitlistEntry" ADD CONSTRAINT "_ServiceToWaitlistEntry_A_fkey" FOREIGN KEY ("A") REFERENCES "Service"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "_ServiceToWaitlistEntry" ADD CONSTRAINT "_ServiceToWaitlistEntry_B_fkey" FOREIGN KEY ("B") REFERENCES "WaitlistEntry"("id") ON DELETE CASCADE ON UPDATE CASCADE;
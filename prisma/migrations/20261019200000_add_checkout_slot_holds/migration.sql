@@ -0,0 +1,12 @@
+-- AlterTable
+ALTER TABLE "SlotHold" ADD COLUMN     "clientId" TEXT,
+ADD COLUMN     "token" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "SlotHold_token_key" ON "SlotHold"("token");
+
+-- CreateIndex
+CREATE INDEX "SlotHold_clientId_idx" ON "SlotHold"("clientId");
+
+-- AddForeignKey
+ALTER TABLE "SlotHold" ADD CONSTRAINT "SlotHold_clientId_fkey" FOREIGN KEY ("clientId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,16 @@
+-- CreateTable
+CREATE TABLE "AppointmentReminder" (
+    "id" TEXT NOT NULL,
+    "dateTime" TIMESTAMP(3) NOT NULL,
+    "offsetMinutes" INTEGER NOT NULL,
+    "sentAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "appointmentId" TEXT NOT NULL,
+
+    CONSTRAINT "AppointmentReminder_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AppointmentReminder_appointmentId_dateTime_offsetMinutes_key" ON "AppointmentReminder"("appointmentId", "dateTime", "offsetMinutes");
+
+-- AddForeignKey
+ALTER TABLE "AppointmentReminder" ADD CONSTRAINT "AppointmentReminder_appointmentId_fkey" FOREIGN KEY ("appointmentId") REFERENCES "Appointment"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -70,7 +70,7 @@ async function main() {
   });
   console.log(`Admin creado: ${adminUser.email}`);
 
-  // Clientes - preferences directo en User
+  // Clientes - preferences directo en User (JSON, ver UserPreferences)
   const clientPassword = await bcrypt.hash('client123', 10);
   const client1 = await prisma.user.create({
     data: {
@@ -80,7 +80,10 @@ async function main() {
       password: clientPassword,
       roleId: clientRole.id,
       profilePicture: 'https://randomuser.me/api/portraits/women/2.jpg',
-      preferences: 'Prefiere citas por la tarde, le gusta el estilo moderno',
+      preferences: JSON.stringify({
+        language: 'es',
+        notes: 'Prefiere citas por la tarde, le gusta el estilo moderno',
+      }),
     },
   });
 
@@ -92,7 +95,12 @@ async function main() {
       password: clientPassword,
       roleId: clientRole.id,
       profilePicture: 'https://randomuser.me/api/portraits/men/3.jpg',
-      preferences: 'Prefiere citas por la manana, estilo clasico',
+      preferences: JSON.stringify({
+        notificationTypes: { PROMOTIONAL: false },
+        quietHours: { start: '22:00', end: '08:00' },
+        language: 'es',
+        notes: 'Prefiere citas por la manana, estilo clasico',
+      }),
     },
   });
 
@@ -93,6 +93,7 @@ class App {
     this.app.use('/api/v1/auth', this.authContainer.authRoutes.getRouter());
     this.app.use('/api/v1', this.serviceContainer.servicesRoutes.getRouter());
     this.app.use('/api/v1/appointments', this.appointmentContainer.appointmentRoutes.getRouter());
+    this.app.use('/api/v1/schedules', this.appointmentContainer.scheduleRoutes.getRouter());
     this.app.use('/api/v1/notifications', this.notificationContainer.notificationRoutes.getRouter());
     this.app.use('/api/v1/payments', this.paymentContainer.paymentRoutes.getRouter());
     this.app.use('/api/v1/holidays', this.holidayContainer.holidayRoutes.getRouter());
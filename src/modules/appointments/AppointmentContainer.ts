@@ -1,17 +1,38 @@
 import { PrismaClient } from '@prisma/client';
+import { env } from '../../shared/config/env';
+import { eventBus } from '../../shared/events/EventBus';
 import { AppointmentController } from './presentation/controllers/AppointmentController';
 import { AppointmentRoutes } from './presentation/routes/AppointmentRoutes';
+import { ScheduleController } from './presentation/controllers/ScheduleController';
+import { ScheduleRoutes } from './presentation/routes/ScheduleRoutes';
 import { AuthMiddleware } from '../auth/presentation/middleware/AuthMiddleware';
 
 // Repositorios de dominio
 import { IAppointmentRepository } from './domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from './domain/repositories/IAppointmentStatusRepository';
 import { IScheduleRepository } from './domain/repositories/IScheduleRepository';
+import { IStylistScheduleRepository } from './domain/repositories/IStylistScheduleRepository';
+import { IStylistAbsenceRepository } from './domain/repositories/IStylistAbsenceRepository';
+import { IAppointmentSeriesRepository } from './domain/repositories/IAppointmentSeriesRepository';
+import { IAppointmentEventRepository } from './domain/repositories/IAppointmentEventRepository';
+import { ICancellationPolicyRepository } from './domain/repositories/ICancellationPolicyRepository';
+import { IWaitlistEntryRepository } from './domain/repositories/IWaitlistEntryRepository';
+import { ISlotHoldRepository } from './domain/repositories/ISlotHoldRepository';
 
 // Repositorios de infraestructura
 import { PrismaAppointmentRepository } from './infrastructure/persistence/PrismaAppointmentRepository';
 import { PrismaAppointmentStatusRepository } from './infrastructure/persistence/PrismaAppointmentStatusRepository';
 import { PrismaScheduleRepository } from './infrastructure/persistence/PrismaScheduleRepository';
+import { PrismaStylistScheduleRepository } from './infrastructure/persistence/PrismaStylistScheduleRepository';
+import { PrismaStylistAbsenceRepository } from './infrastructure/persistence/PrismaStylistAbsenceRepository';
+import { PrismaAppointmentSeriesRepository } from './infrastructure/persistence/PrismaAppointmentSeriesRepository';
+import { PrismaAppointmentEventRepository } from './infrastructure/persistence/PrismaAppointmentEventRepository';
+import { PrismaCancellationPolicyRepository } from './infrastructure/persistence/PrismaCancellationPolicyRepository';
+import { PrismaWaitlistEntryRepository } from './infrastructure/persistence/PrismaWaitlistEntryRepository';
+import { PrismaSlotHoldRepository } from './infrastructure/persistence/PrismaSlotHoldRepository';
+
+// Jobs en segundo plano
+import { IntervalJob } from '../../shared/jobs/IntervalJob';
 
 // Repositorios de módulos externos
 import { IServiceRepository } from '../services/domain/repositories/IServiceRepository';
@@ -20,6 +41,12 @@ import { PrismaServiceRepository } from '../services/infrastructure/persistence/
 import { PrismaStylistServiceRepository } from '../services/infrastructure/persistence/PrismaStylistServiceRepository';
 import { IUserRepository } from '../auth/domain/repositories/IUserRepository';
 import { PrismaUserRepository } from '../auth/infrastructure/persistence/PrismaUserRepository';
+import { IRoleRepository } from '../auth/domain/repositories/IRoleRepository';
+import { PrismaRoleRepository } from '../auth/infrastructure/persistence/PrismaRolRepository';
+import { IPaymentRepository } from '../payments/domain/repositories/IPaymentRepository';
+import { PrismaPaymentRepository } from '../payments/infrastructure/persistence/PrismaPaymentRepository';
+import { PrismaNotificationRepository } from '../notifications/infrastructure/persistence/PrismaNotificationRepository';
+import { PrismaNotificationStatusRepository } from '../notifications/infrastructure/persistence/PrismaNotificationStatusRepository';
 
 // Repositorios de módulo holidays (para integración holidays↔appointments)
 import { IHolidayRepository } from '../holidays/domain/repositories/IHolidayRepository';
@@ -29,6 +56,16 @@ import { PrismaScheduleExceptionRepository } from '../holidays/infrastructure/pe
 
 // Servicios de dominio
 import { ScheduleAvailabilityService } from './domain/services/ScheduleAvailabilityService';
+import { StylistEligibilityService } from './domain/services/StylistEligibilityService';
+import { StylistAssignmentService } from './domain/services/StylistAssignmentService';
+import { AppointmentDurationService } from './domain/services/AppointmentDurationService';
+import { AppointmentSeriesScopeService } from './domain/services/AppointmentSeriesScopeService';
+import { AppointmentLifecycleService } from './domain/services/AppointmentLifecycleService';
+import { AppointmentHistoryService } from './domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from './domain/services/CancellationFeeService';
+import { SlotHoldService } from './domain/services/SlotHoldService';
+import { BookingValidationService } from './domain/services/BookingValidationService';
+import { WaitlistService } from './domain/services/WaitlistService';
 import { UserRoleValidationService } from '../auth/domain/services/UserRoleValidationService';
 
 // Casos de uso
@@ -38,8 +75,39 @@ import { GetAppointmentsByClient } from './application/use-cases/GetAppointments
 import { GetAppointmentsByStylist } from './application/use-cases/GetAppointmentsByStylist';
 import { CancelAppointment } from './application/use-cases/CancelAppointment';
 import { GetAvailableSlots } from './application/use-cases/GetAvailableSlots';
+import { GetAvailabilityCalendar } from './application/use-cases/GetAvailabilityCalendar';
 import { ConfirmAppointment } from './application/use-cases/ConfirmAppointment';
 import { UpdateAppointment } from './application/use-cases/UpdateAppointment';
+import { GetStylistSchedule } from './application/use-cases/GetStylistSchedule';
+import { SetStylistSchedule } from './application/use-cases/SetStylistSchedule';
+import { GetStylistAbsences } from './application/use-cases/GetStylistAbsences';
+import { CreateStylistAbsence } from './application/use-cases/CreateStylistAbsence';
+import { DeleteStylistAbsence } from './application/use-cases/DeleteStylistAbsence';
+import { GetSchedules } from './application/use-cases/GetSchedules';
+import { GetScheduleById } from './application/use-cases/GetScheduleById';
+import { CreateSchedule } from './application/use-cases/CreateSchedule';
+import { UpdateSchedule } from './application/use-cases/UpdateSchedule';
+import { DeleteSchedule } from './application/use-cases/DeleteSchedule';
+import { CreateAppointmentSeries } from './application/use-cases/CreateAppointmentSeries';
+import { GetAppointmentSeries } from './application/use-cases/GetAppointmentSeries';
+import { UpdateAppointmentSeries } from './application/use-cases/UpdateAppointmentSeries';
+import { CancelAppointmentSeries } from './application/use-cases/CancelAppointmentSeries';
+import { CheckInAppointment } from './application/use-cases/CheckInAppointment';
+import { StartAppointment } from './application/use-cases/StartAppointment';
+import { CompleteAppointment } from './application/use-cases/CompleteAppointment';
+import { MarkAppointmentNoShow } from './application/use-cases/MarkAppointmentNoShow';
+import { SweepStaleAppointments } from './application/use-cases/SweepStaleAppointments';
+import { GetAppointmentHistory } from './application/use-cases/GetAppointmentHistory';
+import { GetCancellationPolicy } from './application/use-cases/GetCancellationPolicy';
+import { UpdateCancellationPolicy } from './application/use-cases/UpdateCancellationPolicy';
+import { CreateWaitlistEntry } from './application/use-cases/CreateWaitlistEntry';
+import { GetWaitlistEntriesByClient } from './application/use-cases/GetWaitlistEntriesByClient';
+import { CancelWaitlistEntry } from './application/use-cases/CancelWaitlistEntry';
+import { CreateSlotHold } from './application/use-cases/CreateSlotHold';
+import { ReleaseSlotHold } from './application/use-cases/ReleaseSlotHold';
+import { RescheduleAppointment } from './application/use-cases/RescheduleAppointment';
+import { GetAppointments } from './application/use-cases/GetAppointments';
+import { GetDailyAgenda } from './application/use-cases/GetDailyAgenda';
 
 /**
  * Contenedor de dependencias para el módulo de citas
@@ -52,6 +120,8 @@ export class AppointmentContainer {
 
   private _appointmentController: AppointmentController;
   private _appointmentRoutes: AppointmentRoutes;
+  private _scheduleController: ScheduleController;
+  private _scheduleRoutes: ScheduleRoutes;
 
   // Casos de uso
   private _createAppointment: CreateAppointment;
@@ -60,13 +130,54 @@ export class AppointmentContainer {
   private _getAppointmentsByStylist: GetAppointmentsByStylist;
   private _cancelAppointment: CancelAppointment;
   private _getAvailableSlots: GetAvailableSlots;
+  private _getAvailabilityCalendar: GetAvailabilityCalendar;
   private _confirmAppointment: ConfirmAppointment;
   private _updateAppointment: UpdateAppointment;
+  private _getStylistSchedule: GetStylistSchedule;
+  private _setStylistSchedule: SetStylistSchedule;
+  private _getStylistAbsences: GetStylistAbsences;
+  private _createStylistAbsence: CreateStylistAbsence;
+  private _deleteStylistAbsence: DeleteStylistAbsence;
+  private _getSchedules: GetSchedules;
+  private _getScheduleById: GetScheduleById;
+  private _createSchedule: CreateSchedule;
+  private _updateSchedule: UpdateSchedule;
+  private _deleteSchedule: DeleteSchedule;
+  private _createAppointmentSeries: CreateAppointmentSeries;
+  private _getAppointmentSeries: GetAppointmentSeries;
+  private _updateAppointmentSeries: UpdateAppointmentSeries;
+  private _cancelAppointmentSeries: CancelAppointmentSeries;
+  private _checkInAppointment: CheckInAppointment;
+  private _startAppointment: StartAppointment;
+  private _completeAppointment: CompleteAppointment;
+  private _markAppointmentNoShow: MarkAppointmentNoShow;
+  private _sweepStaleAppointments: SweepStaleAppointments;
+  private _getAppointmentHistory: GetAppointmentHistory;
+  private _getCancellationPolicy: GetCancellationPolicy;
+  private _updateCancellationPolicy: UpdateCancellationPolicy;
+  private _createWaitlistEntry: CreateWaitlistEntry;
+  private _getWaitlistEntriesByClient: GetWaitlistEntriesByClient;
+  private _cancelWaitlistEntry: CancelWaitlistEntry;
+  private _createSlotHold: CreateSlotHold;
+  private _releaseSlotHold: ReleaseSlotHold;
+  private _rescheduleAppointment: RescheduleAppointment;
+  private _getAppointments: GetAppointments;
+  private _getDailyAgenda: GetDailyAgenda;
+
+  // Jobs
+  private _appointmentSweeperJob: IntervalJob;
 
   // Repositorios - Módulo propio
   private _appointmentRepository: IAppointmentRepository;
   private _appointmentStatusRepository: IAppointmentStatusRepository;
   private _scheduleRepository: IScheduleRepository;
+  private _stylistScheduleRepository: IStylistScheduleRepository;
+  private _stylistAbsenceRepository: IStylistAbsenceRepository;
+  private _appointmentSeriesRepository: IAppointmentSeriesRepository;
+  private _appointmentEventRepository: IAppointmentEventRepository;
+  private _cancellationPolicyRepository: ICancellationPolicyRepository;
+  private _waitlistEntryRepository: IWaitlistEntryRepository;
+  private _slotHoldRepository: ISlotHoldRepository;
 
   // Repositorios - Módulos externos
   private _serviceRepository: IServiceRepository;
@@ -110,11 +221,20 @@ export class AppointmentContainer {
     this._appointmentRepository = new PrismaAppointmentRepository(this.prisma);
     this._appointmentStatusRepository = new PrismaAppointmentStatusRepository(this.prisma);
     this._scheduleRepository = new PrismaScheduleRepository(this.prisma);
+    this._stylistScheduleRepository = new PrismaStylistScheduleRepository(this.prisma);
+    this._stylistAbsenceRepository = new PrismaStylistAbsenceRepository(this.prisma);
+    this._appointmentSeriesRepository = new PrismaAppointmentSeriesRepository(this.prisma);
+    this._appointmentEventRepository = new PrismaAppointmentEventRepository(this.prisma);
+    this._cancellationPolicyRepository = new PrismaCancellationPolicyRepository(this.prisma);
+    this._waitlistEntryRepository = new PrismaWaitlistEntryRepository(this.prisma);
+    this._slotHoldRepository = new PrismaSlotHoldRepository(this.prisma);
 
     // Repositorios de módulos externos
     this._serviceRepository = new PrismaServiceRepository(this.prisma);
     this._userRepository = new PrismaUserRepository(this.prisma);
     this._stylistServiceRepository = new PrismaStylistServiceRepository(this.prisma);
+    const roleRepository: IRoleRepository = new PrismaRoleRepository(this.prisma);
+    const paymentRepository: IPaymentRepository = new PrismaPaymentRepository(this.prisma);
 
     // Repositorios de módulo holidays
     const holidayRepository: IHolidayRepository = new PrismaHolidayRepository(this.prisma);
@@ -125,24 +245,100 @@ export class AppointmentContainer {
       holidayRepository,
       scheduleExceptionRepository,
       this._scheduleRepository,
+      this._stylistScheduleRepository,
+      this._stylistAbsenceRepository,
     );
 
-    // Servicio de dominio de validacion de rol de usuario (compartido entre use cases)
-    const userRoleValidationService = new UserRoleValidationService(this._userRepository);
+    // Servicio de dominio de elegibilidad de estilistas por servicio
+    const stylistEligibilityService = new StylistEligibilityService(
+      this._stylistServiceRepository,
+      this._userRepository,
+      roleRepository,
+    );
 
-    // Casos de uso implementados
-    this._createAppointment = new CreateAppointment(
+    // Servicio de dominio de cálculo de duración (compartido por reserva y disponibilidad)
+    const appointmentDurationService = new AppointmentDurationService(
+      this._serviceRepository,
+      this._stylistServiceRepository,
+    );
+
+    // Servicio de dominio de reservas temporales de turnos (lista de espera)
+    const slotHoldService = new SlotHoldService(
+      this._slotHoldRepository,
+      this._waitlistEntryRepository,
+    );
+
+    // Servicio de dominio con las reglas de reserva (compartido por creación, reprogramación y
+    // actualización de citas)
+    const bookingValidationService = new BookingValidationService(
       this._appointmentRepository,
       this._appointmentStatusRepository,
       this._scheduleRepository,
       this._serviceRepository,
       this._stylistServiceRepository,
       scheduleAvailabilityService,
+      slotHoldService,
+    );
+
+    // Servicio de dominio de asignación automática de estilista
+    const stylistAssignmentService = new StylistAssignmentService(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+      scheduleAvailabilityService,
+      stylistEligibilityService,
+      appointmentDurationService,
+      slotHoldService,
+    );
+
+    // Servicio de dominio de validacion de rol de usuario (compartido entre use cases)
+    const userRoleValidationService = new UserRoleValidationService(this._userRepository);
+
+    // Servicio de dominio de historial de cambios (compartido por todos los use cases que modifican citas)
+    const appointmentHistoryService = new AppointmentHistoryService(
+      this._appointmentEventRepository,
+      this._appointmentStatusRepository,
+    );
+
+    // Servicio de dominio de la política de cancelación (genera los cargos como pagos PENDING)
+    const cancellationFeeService = new CancellationFeeService(
+      this._cancellationPolicyRepository,
+      paymentRepository,
+      this._serviceRepository,
+      this._stylistServiceRepository,
+    );
+
+    // Servicio de dominio de lista de espera (ofrece los turnos liberados por cancelaciones)
+    const waitlistService = new WaitlistService(
+      this._waitlistEntryRepository,
+      this._slotHoldRepository,
+      this._userRepository,
+      this._stylistServiceRepository,
+      appointmentDurationService,
+      stylistAssignmentService,
+      new PrismaNotificationRepository(this.prisma),
+      new PrismaNotificationStatusRepository(this.prisma),
+      env.WAITLIST_HOLD_MINUTES,
+    );
+
+    // Casos de uso implementados
+    this._createAppointment = new CreateAppointment(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
       userRoleValidationService,
+      stylistAssignmentService,
+      appointmentDurationService,
+      appointmentHistoryService,
+      slotHoldService,
+      bookingValidationService,
     );
 
     this._getAppointmentById = new GetAppointmentById(this._appointmentRepository);
 
+    this._getAppointmentHistory = new GetAppointmentHistory(
+      this._appointmentRepository,
+      appointmentHistoryService,
+    );
+
     this._getAppointmentsByClient = new GetAppointmentsByClient(this._appointmentRepository);
 
     this._getAppointmentsByStylist = new GetAppointmentsByStylist(this._appointmentRepository);
@@ -150,6 +346,17 @@ export class AppointmentContainer {
     this._cancelAppointment = new CancelAppointment(
       this._appointmentRepository,
       this._appointmentStatusRepository,
+      appointmentHistoryService,
+      cancellationFeeService,
+      waitlistService,
+      eventBus,
+    );
+
+    this._getCancellationPolicy = new GetCancellationPolicy(this._cancellationPolicyRepository);
+
+    this._updateCancellationPolicy = new UpdateCancellationPolicy(
+      this._cancellationPolicyRepository,
+      this._serviceRepository,
     );
 
     this._getAvailableSlots = new GetAvailableSlots(
@@ -158,20 +365,206 @@ export class AppointmentContainer {
       scheduleAvailabilityService,
       this._stylistServiceRepository,
       this._userRepository,
+      stylistEligibilityService,
+      appointmentDurationService,
+      slotHoldService,
     );
 
+    this._getAvailabilityCalendar = new GetAvailabilityCalendar(this._getAvailableSlots);
+
     this._confirmAppointment = new ConfirmAppointment(
       this._appointmentRepository,
       this._appointmentStatusRepository,
+      appointmentHistoryService,
+      eventBus,
     );
 
     this._updateAppointment = new UpdateAppointment(
       this._appointmentRepository,
       this._appointmentStatusRepository,
-      this._serviceRepository,
       userRoleValidationService,
+      bookingValidationService,
+      appointmentDurationService,
+      appointmentHistoryService,
+      eventBus,
+    );
+
+    this._getStylistSchedule = new GetStylistSchedule(
+      this._stylistScheduleRepository,
+      userRoleValidationService,
+    );
+
+    this._setStylistSchedule = new SetStylistSchedule(
+      this._stylistScheduleRepository,
+      userRoleValidationService,
+    );
+
+    this._getStylistAbsences = new GetStylistAbsences(
+      this._stylistAbsenceRepository,
+      userRoleValidationService,
+    );
+
+    this._createStylistAbsence = new CreateStylistAbsence(
+      this._stylistAbsenceRepository,
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+      userRoleValidationService,
+      appointmentHistoryService,
+      waitlistService,
+      eventBus,
+    );
+
+    this._deleteStylistAbsence = new DeleteStylistAbsence(this._stylistAbsenceRepository);
+
+    this._getSchedules = new GetSchedules(this._scheduleRepository);
+
+    this._getScheduleById = new GetScheduleById(this._scheduleRepository);
+
+    this._createSchedule = new CreateSchedule(this._scheduleRepository, holidayRepository);
+
+    this._updateSchedule = new UpdateSchedule(
+      this._scheduleRepository,
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+    );
+
+    this._deleteSchedule = new DeleteSchedule(this._scheduleRepository, this._appointmentRepository);
+
+    // Series recurrentes: reutilizan los casos de uso de cita individual para cada ocurrencia
+    const appointmentSeriesScopeService = new AppointmentSeriesScopeService(
+      this._appointmentSeriesRepository,
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+    );
+
+    this._createAppointmentSeries = new CreateAppointmentSeries(
+      this._appointmentSeriesRepository,
+      this._createAppointment,
       scheduleAvailabilityService,
+      holidayRepository,
+    );
+
+    this._getAppointmentSeries = new GetAppointmentSeries(
+      this._appointmentSeriesRepository,
+      this._appointmentRepository,
+    );
+
+    this._updateAppointmentSeries = new UpdateAppointmentSeries(
+      appointmentSeriesScopeService,
+      this._updateAppointment,
+    );
+
+    this._cancelAppointmentSeries = new CancelAppointmentSeries(
+      appointmentSeriesScopeService,
+      this._cancelAppointment,
+    );
+
+    // Atención en el salón: check-in, inicio, finalización y no show (ADMIN o estilista asignado)
+    const appointmentLifecycleService = new AppointmentLifecycleService(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+    );
+
+    this._checkInAppointment = new CheckInAppointment(
+      this._appointmentRepository,
+      appointmentLifecycleService,
+      appointmentHistoryService,
+    );
+
+    this._startAppointment = new StartAppointment(
+      this._appointmentRepository,
+      appointmentLifecycleService,
+      appointmentHistoryService,
+    );
+
+    this._completeAppointment = new CompleteAppointment(
+      this._appointmentRepository,
+      appointmentLifecycleService,
+      appointmentHistoryService,
+    );
+
+    this._markAppointmentNoShow = new MarkAppointmentNoShow(
+      this._appointmentRepository,
+      appointmentLifecycleService,
+      appointmentHistoryService,
+      cancellationFeeService,
+    );
+
+    // Barrido de citas vencidas: PENDING pasadas y CONFIRMED sin check-in (job + endpoint ADMIN)
+    this._sweepStaleAppointments = new SweepStaleAppointments(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+      appointmentHistoryService,
+      cancellationFeeService,
+      env.NO_SHOW_GRACE_MINUTES,
+    );
+
+    this._appointmentSweeperJob = new IntervalJob(
+      'Appointment sweep',
+      env.APPOINTMENT_SWEEP_INTERVAL_MINUTES,
+      () => this._sweepStaleAppointments.execute('scheduled'),
+    );
+
+    // Lista de espera de días completos
+    this._createWaitlistEntry = new CreateWaitlistEntry(
+      this._waitlistEntryRepository,
+      this._serviceRepository,
       this._stylistServiceRepository,
+      userRoleValidationService,
+    );
+
+    this._getWaitlistEntriesByClient = new GetWaitlistEntriesByClient(
+      this._waitlistEntryRepository,
+    );
+
+    this._cancelWaitlistEntry = new CancelWaitlistEntry(
+      this._waitlistEntryRepository,
+      this._slotHoldRepository,
+    );
+
+    // Reservas temporales durante el checkout
+    this._createSlotHold = new CreateSlotHold(
+      this._slotHoldRepository,
+      this._serviceRepository,
+      userRoleValidationService,
+      stylistAssignmentService,
+      appointmentDurationService,
+      env.CHECKOUT_HOLD_MINUTES,
+    );
+
+    this._releaseSlotHold = new ReleaseSlotHold(this._slotHoldRepository);
+
+    // Reprogramación con revalidación completa de la reserva
+    this._rescheduleAppointment = new RescheduleAppointment(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+      userRoleValidationService,
+      appointmentDurationService,
+      appointmentHistoryService,
+      slotHoldService,
+      bookingValidationService,
+      cancellationFeeService,
+      eventBus,
+    );
+
+    // Listado general de citas (recepción)
+    this._getAppointments = new GetAppointments(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+    );
+
+    // Agenda diaria por estilista o de todo el salón
+    this._getDailyAgenda = new GetDailyAgenda(
+      this._appointmentRepository,
+      this._appointmentStatusRepository,
+      scheduleAvailabilityService,
+      stylistEligibilityService,
+      userRoleValidationService,
+      this._userRepository,
+      this._serviceRepository,
+      paymentRepository,
+      holidayRepository,
+      scheduleExceptionRepository,
     );
 
     // HTTP Layer - Inyectamos los casos de uso implementados
@@ -184,12 +577,48 @@ export class AppointmentContainer {
       this._getAvailableSlots,
       this._confirmAppointment,
       this._updateAppointment,
+      this._getStylistSchedule,
+      this._setStylistSchedule,
+      this._getStylistAbsences,
+      this._createStylistAbsence,
+      this._deleteStylistAbsence,
+      this._getAvailabilityCalendar,
+      this._createAppointmentSeries,
+      this._getAppointmentSeries,
+      this._updateAppointmentSeries,
+      this._cancelAppointmentSeries,
+      this._checkInAppointment,
+      this._startAppointment,
+      this._completeAppointment,
+      this._markAppointmentNoShow,
+      this._sweepStaleAppointments,
+      this._getAppointmentHistory,
+      this._getCancellationPolicy,
+      this._updateCancellationPolicy,
+      this._createWaitlistEntry,
+      this._getWaitlistEntriesByClient,
+      this._cancelWaitlistEntry,
+      this._createSlotHold,
+      this._releaseSlotHold,
+      this._rescheduleAppointment,
+      this._getAppointments,
+      this._getDailyAgenda,
     );
 
     this._appointmentRoutes = new AppointmentRoutes(
       this._appointmentController,
       this.authMiddleware,
     );
+
+    this._scheduleController = new ScheduleController(
+      this._getSchedules,
+      this._getScheduleById,
+      this._createSchedule,
+      this._updateSchedule,
+      this._deleteSchedule,
+    );
+
+    this._scheduleRoutes = new ScheduleRoutes(this._scheduleController, this.authMiddleware);
   }
 
   // Getters para acceso externo
@@ -210,6 +639,22 @@ export class AppointmentContainer {
     return this._appointmentRoutes;
   }
 
+  /**
+   * Obtiene las rutas de horarios semanales configuradas
+   * @returns Instancia de ScheduleRoutes con controller y middleware inyectados
+   */
+  get scheduleRoutes(): ScheduleRoutes {
+    return this._scheduleRoutes;
+  }
+
+  /**
+   * Obtiene el job de barrido de citas vencidas configurado
+   * @returns Job que ejecuta SweepStaleAppointments, para iniciarlo/detenerlo desde el servidor
+   */
+  get appointmentSweeperJob(): IntervalJob {
+    return this._appointmentSweeperJob;
+  }
+
   // Getters para casos de uso (para testing o uso directo)
 
   /**
@@ -260,6 +705,14 @@ export class AppointmentContainer {
     return this._getAvailableSlots;
   }
 
+  /**
+   * Obtiene el caso de uso de búsqueda de disponibilidad por rango configurado
+   * @returns Instancia de GetAvailabilityCalendar para uso directo o testing
+   */
+  get getAvailabilityCalendar(): GetAvailabilityCalendar {
+    return this._getAvailabilityCalendar;
+  }
+
   /**
    * Obtiene el caso de uso de confirmación de citas configurado
    * @returns Instancia de ConfirmAppointment para uso directo o testing
@@ -276,6 +729,230 @@ export class AppointmentContainer {
     return this._updateAppointment;
   }
 
+  /**
+   * Obtiene el caso de uso de consulta de turnos de estilista configurado
+   * @returns Instancia de GetStylistSchedule para uso directo o testing
+   */
+  get getStylistSchedule(): GetStylistSchedule {
+    return this._getStylistSchedule;
+  }
+
+  /**
+   * Obtiene el caso de uso de configuración de turnos de estilista configurado
+   * @returns Instancia de SetStylistSchedule para uso directo o testing
+   */
+  get setStylistSchedule(): SetStylistSchedule {
+    return this._setStylistSchedule;
+  }
+
+  /**
+   * Obtiene el caso de uso de consulta de ausencias de estilista configurado
+   * @returns Instancia de GetStylistAbsences para uso directo o testing
+   */
+  get getStylistAbsences(): GetStylistAbsences {
+    return this._getStylistAbsences;
+  }
+
+  /**
+   * Obtiene el caso de uso de registro de ausencias de estilista configurado
+   * @returns Instancia de CreateStylistAbsence para uso directo o testing
+   */
+  get createStylistAbsence(): CreateStylistAbsence {
+    return this._createStylistAbsence;
+  }
+
+  /**
+   * Obtiene el caso de uso de eliminación de ausencias de estilista configurado
+   * @returns Instancia de DeleteStylistAbsence para uso directo o testing
+   */
+  get deleteStylistAbsence(): DeleteStylistAbsence {
+    return this._deleteStylistAbsence;
+  }
+
+  /**
+   * Obtiene el caso de uso de creación de horarios configurado
+   * @returns Instancia de CreateSchedule para uso directo o testing
+   */
+  get createSchedule(): CreateSchedule {
+    return this._createSchedule;
+  }
+
+  /**
+   * Obtiene el caso de uso de modificación de horarios configurado
+   * @returns Instancia de UpdateSchedule para uso directo o testing
+   */
+  get updateSchedule(): UpdateSchedule {
+    return this._updateSchedule;
+  }
+
+  /**
+   * Obtiene el caso de uso de eliminación de horarios configurado
+   * @returns Instancia de DeleteSchedule para uso directo o testing
+   */
+  get deleteSchedule(): DeleteSchedule {
+    return this._deleteSchedule;
+  }
+
+  /**
+   * Obtiene el caso de uso de creación de series de citas configurado
+   * @returns Instancia de CreateAppointmentSeries para uso directo o testing
+   */
+  get createAppointmentSeries(): CreateAppointmentSeries {
+    return this._createAppointmentSeries;
+  }
+
+  /**
+   * Obtiene el caso de uso de consulta de series de citas configurado
+   * @returns Instancia de GetAppointmentSeries para uso directo o testing
+   */
+  get getAppointmentSeries(): GetAppointmentSeries {
+    return this._getAppointmentSeries;
+  }
+
+  /**
+   * Obtiene el caso de uso de edición de citas de una serie configurado
+   * @returns Instancia de UpdateAppointmentSeries para uso directo o testing
+   */
+  get updateAppointmentSeries(): UpdateAppointmentSeries {
+    return this._updateAppointmentSeries;
+  }
+
+  /**
+   * Obtiene el caso de uso de cancelación de citas de una serie configurado
+   * @returns Instancia de CancelAppointmentSeries para uso directo o testing
+   */
+  get cancelAppointmentSeries(): CancelAppointmentSeries {
+    return this._cancelAppointmentSeries;
+  }
+
+  /**
+   * Obtiene el caso de uso de check-in de citas configurado
+   * @returns Instancia de CheckInAppointment para uso directo o testing
+   */
+  get checkInAppointment(): CheckInAppointment {
+    return this._checkInAppointment;
+  }
+
+  /**
+   * Obtiene el caso de uso de inicio de citas configurado
+   * @returns Instancia de StartAppointment para uso directo o testing
+   */
+  get startAppointment(): StartAppointment {
+    return this._startAppointment;
+  }
+
+  /**
+   * Obtiene el caso de uso de finalización de citas configurado
+   * @returns Instancia de CompleteAppointment para uso directo o testing
+   */
+  get completeAppointment(): CompleteAppointment {
+    return this._completeAppointment;
+  }
+
+  /**
+   * Obtiene el caso de uso de no show de citas configurado
+   * @returns Instancia de MarkAppointmentNoShow para uso directo o testing
+   */
+  get markAppointmentNoShow(): MarkAppointmentNoShow {
+    return this._markAppointmentNoShow;
+  }
+
+  /**
+   * Obtiene el caso de uso de barrido de citas vencidas configurado
+   * @returns Instancia de SweepStaleAppointments para uso directo o testing
+   */
+  get sweepStaleAppointments(): SweepStaleAppointments {
+    return this._sweepStaleAppointments;
+  }
+
+  /**
+   * Obtiene el caso de uso de consulta del historial de una cita configurado
+   * @returns Instancia de GetAppointmentHistory para uso directo o testing
+   */
+  get getAppointmentHistory(): GetAppointmentHistory {
+    return this._getAppointmentHistory;
+  }
+
+  /**
+   * Obtiene el caso de uso de consulta de la política de cancelación configurado
+   * @returns Instancia de GetCancellationPolicy para uso directo o testing
+   */
+  get getCancellationPolicy(): GetCancellationPolicy {
+    return this._getCancellationPolicy;
+  }
+
+  /**
+   * Obtiene el caso de uso de actualización de la política de cancelación configurado
+   * @returns Instancia de UpdateCancellationPolicy para uso directo o testing
+   */
+  get updateCancellationPolicy(): UpdateCancellationPolicy {
+    return this._updateCancellationPolicy;
+  }
+
+  /**
+   * Obtiene el caso de uso de alta en la lista de espera configurado
+   * @returns Instancia de CreateWaitlistEntry para uso directo o testing
+   */
+  get createWaitlistEntry(): CreateWaitlistEntry {
+    return this._createWaitlistEntry;
+  }
+
+  /**
+   * Obtiene el caso de uso de consulta de la lista de espera de un cliente configurado
+   * @returns Instancia de GetWaitlistEntriesByClient para uso directo o testing
+   */
+  get getWaitlistEntriesByClient(): GetWaitlistEntriesByClient {
+    return this._getWaitlistEntriesByClient;
+  }
+
+  /**
+   * Obtiene el caso de uso de baja de la lista de espera configurado
+   * @returns Instancia de CancelWaitlistEntry para uso directo o testing
+   */
+  get cancelWaitlistEntry(): CancelWaitlistEntry {
+    return this._cancelWaitlistEntry;
+  }
+
+  /**
+   * Obtiene el caso de uso de reserva temporal para checkout configurado
+   * @returns Instancia de CreateSlotHold para uso directo o testing
+   */
+  get createSlotHold(): CreateSlotHold {
+    return this._createSlotHold;
+  }
+
+  /**
+   * Obtiene el caso de uso de liberación de reservas temporales configurado
+   * @returns Instancia de ReleaseSlotHold para uso directo o testing
+   */
+  get releaseSlotHold(): ReleaseSlotHold {
+    return this._releaseSlotHold;
+  }
+
+  /**
+   * Obtiene el caso de uso de reprogramación de citas configurado
+   * @returns Instancia de RescheduleAppointment para uso directo o testing
+   */
+  get rescheduleAppointment(): RescheduleAppointment {
+    return this._rescheduleAppointment;
+  }
+
+  /**
+   * Obtiene el caso de uso del listado general de citas configurado
+   * @returns Instancia de GetAppointments para uso directo o testing
+   */
+  get getAppointments(): GetAppointments {
+    return this._getAppointments;
+  }
+
+  /**
+   * Obtiene el caso de uso de agenda diaria configurado
+   * @returns Instancia de GetDailyAgenda para uso directo o testing
+   */
+  get getDailyAgenda(): GetDailyAgenda {
+    return this._getDailyAgenda;
+  }
+
   // Getters para repositorios (para testing o uso directo)
 
   /**
@@ -302,6 +979,30 @@ export class AppointmentContainer {
     return this._scheduleRepository;
   }
 
+  /**
+   * Obtiene el repositorio de turnos de estilistas configurado
+   * @returns Instancia de IStylistScheduleRepository para uso directo o testing
+   */
+  get stylistScheduleRepository(): IStylistScheduleRepository {
+    return this._stylistScheduleRepository;
+  }
+
+  /**
+   * Obtiene el repositorio de ausencias de estilistas configurado
+   * @returns Instancia de IStylistAbsenceRepository para uso directo o testing
+   */
+  get stylistAbsenceRepository(): IStylistAbsenceRepository {
+    return this._stylistAbsenceRepository;
+  }
+
+  /**
+   * Obtiene el repositorio de series de citas configurado
+   * @returns Instancia de IAppointmentSeriesRepository para uso directo o testing
+   */
+  get appointmentSeriesRepository(): IAppointmentSeriesRepository {
+    return this._appointmentSeriesRepository;
+  }
+
   /**
    * Obtiene el repositorio de servicios configurado
    * @returns Instancia de ServiceRepository para uso directo o testing
@@ -0,0 +1,9 @@
+import { SeriesScopeEnum } from '../../../domain/entities/AppointmentSeries';
+import { CancelAppointmentDto } from './CancelAppointmentDto';
+
+/**
+ * DTO para cancelar una cita de una serie y, según el alcance, las demás
+ */
+export interface CancelAppointmentSeriesDto extends CancelAppointmentDto {
+  scope?: SeriesScopeEnum; // por defecto THIS
+}
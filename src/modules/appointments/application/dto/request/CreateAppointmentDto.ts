@@ -1,8 +1,12 @@
+import { StylistAssignmentStrategyEnum } from '../../../domain/services/StylistAssignmentService';
+
 export interface CreateAppointmentDto {
   dateTime: string; // formato de cadena ISO
   duration?: number; // opcional, se puede calcular a partir de los servicios
   clientId: string;
   stylistId?: string;
+  assignmentStrategy?: StylistAssignmentStrategyEnum; // solo se usa si no se indica stylistId
   serviceIds: string[];
   notes?: string;
+  holdToken?: string; // token de una reserva de checkout (POST /appointments/holds)
 }
@@ -0,0 +1,20 @@
+import { CreateAppointmentDto } from './CreateAppointmentDto';
+
+/**
+ * Regla de recurrencia de una serie: cada `intervalWeeks` semanas, con una cantidad fija de
+ * ocurrencias o hasta una fecha límite (uno de los dos)
+ */
+export interface AppointmentRecurrenceDto {
+  intervalWeeks: number; // 1-12 (p.ej. 2 = cada dos semanas)
+  occurrences?: number; // 2-26, incluida la primera
+  until?: string; // Formato ISO 8601, fecha límite inclusive
+}
+
+/**
+ * DTO para crear una serie de citas recurrentes
+ * @description `dateTime` es la primera ocurrencia; el resto de los campos se aplica a todas.
+ * Cada ocurrencia se reserva como una cita normal, con las mismas validaciones
+ */
+export interface CreateAppointmentSeriesDto extends CreateAppointmentDto {
+  recurrence: AppointmentRecurrenceDto;
+}
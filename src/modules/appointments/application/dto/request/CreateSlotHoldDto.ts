@@ -0,0 +1,11 @@
+/**
+ * DTO para retener un turno mientras el cliente completa la reserva
+ * @description Sin `stylistId` se retiene el turno con un estilista libre que ofrezca todos los
+ * servicios (misma asignación que al crear una cita)
+ */
+export interface CreateSlotHoldDto {
+  clientId: string;
+  dateTime: string; // formato de cadena ISO
+  serviceIds: string[];
+  stylistId?: string;
+}
@@ -0,0 +1,15 @@
+import { AbsenceTypeEnum } from '../../../domain/entities/StylistAbsence';
+
+/**
+ * DTO para registrar una ausencia de un estilista
+ * @description Para una ausencia de día completo enviar el rango 00:00 → 00:00 del día siguiente (UTC).
+ * Si `cancelAffectedAppointments` es true, las citas activas que se solapan se cancelan;
+ * si no, solo se informan en la respuesta
+ */
+export interface CreateStylistAbsenceDto {
+  type: AbsenceTypeEnum;
+  startDateTime: string; // Formato ISO 8601
+  endDateTime: string; // Formato ISO 8601
+  reason?: string;
+  cancelAffectedAppointments?: boolean;
+}
@@ -0,0 +1,12 @@
+/**
+ * DTO para anotar a un cliente en la lista de espera
+ * @description `fromDate` y `toDate` son días locales del salón (YYYY-MM-DD), ambos incluidos.
+ * Sin `stylistId` el cliente acepta un turno con cualquier estilista que ofrezca los servicios
+ */
+export interface CreateWaitlistEntryDto {
+  clientId: string;
+  serviceIds: string[];
+  fromDate: string; // Formato YYYY-MM-DD
+  toDate: string; // Formato YYYY-MM-DD
+  stylistId?: string;
+}
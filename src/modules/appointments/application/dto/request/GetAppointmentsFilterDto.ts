@@ -0,0 +1,75 @@
+import { AppointmentSortField } from '../../../domain/repositories/IAppointmentRepository';
+
+/**
+ * DTO para el listado general de citas (ADMIN / recepción)
+ * @description Todos los filtros son opcionales y se combinan entre sí
+ */
+export interface GetAppointmentsFilterDto {
+  /**
+   * Filtrar por nombre de estado
+   * @example 'CONFIRMED'
+   */
+  status?: string;
+
+  /**
+   * Primer día del rango (día local del salón, inclusive)
+   * @example '2026-10-19'
+   */
+  startDate?: string;
+
+  /**
+   * Último día del rango (día local del salón, inclusive)
+   * @example '2026-10-25'
+   */
+  endDate?: string;
+
+  /**
+   * Filtrar por estilista asignado (User.id)
+   */
+  stylistId?: string;
+
+  /**
+   * Filtrar por cliente (User.id)
+   */
+  clientId?: string;
+
+  /**
+   * Citas que incluyen este servicio
+   */
+  serviceId?: string;
+
+  /**
+   * Citas que incluyen algún servicio de esta categoría
+   */
+  categoryId?: string;
+
+  /**
+   * Texto libre sobre el nombre o email del cliente
+   * @example 'garcia'
+   */
+  search?: string;
+
+  /**
+   * Campo de orden
+   * @default 'dateTime'
+   */
+  sortBy?: AppointmentSortField;
+
+  /**
+   * Sentido del orden
+   * @default 'asc'
+   */
+  sortOrder?: 'asc' | 'desc';
+
+  /**
+   * Número de página para paginación
+   * @default 1
+   */
+  page?: number;
+
+  /**
+   * Cantidad de elementos por página
+   * @default 20
+   */
+  limit?: number;
+}
@@ -0,0 +1,8 @@
+export interface GetAvailabilityCalendarDto {
+  startDate: string; // Formato: "YYYY-MM-DD"
+  endDate?: string; // Formato: "YYYY-MM-DD" (por defecto, 30 días después de startDate)
+  stylistId?: string;
+  serviceIds?: string[];
+  duration?: number; // En minutos
+  limit?: number; // Detiene la búsqueda al encontrar N slots libres
+}
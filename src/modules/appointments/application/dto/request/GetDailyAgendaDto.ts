@@ -0,0 +1,4 @@
+export interface GetDailyAgendaDto {
+  date: string; // Formato: "YYYY-MM-DD" (día local del salón)
+  stylistId?: string; // Sin estilista: todos los estilistas activos (solo ADMIN)
+}
@@ -0,0 +1,10 @@
+/**
+ * DTO para reprogramar una cita
+ * @description Sin `stylistId` la cita sigue con su estilista actual
+ */
+export interface RescheduleAppointmentDto {
+  dateTime: string; // formato de cadena ISO
+  stylistId?: string;
+  /** Motivo de la reprogramación, queda en el historial de la cita */
+  reason?: string;
+}
@@ -0,0 +1,21 @@
+import { DayOfWeekEnum } from '../../../domain/entities/Schedule';
+
+/**
+ * Turno semanal individual de un estilista
+ */
+export interface StylistShiftDto {
+  dayOfWeek: DayOfWeekEnum;
+  startTime: string; // Formato: "HH:MM"
+  endTime: string; // Formato: "HH:MM"
+  breakStartTime?: string; // Formato: "HH:MM"
+  breakEndTime?: string; // Formato: "HH:MM"
+}
+
+/**
+ * DTO para reemplazar la semana completa de turnos de un estilista
+ * @description Varios turnos el mismo día modelan un turno partido.
+ * Una lista vacía elimina los turnos propios y el estilista vuelve a heredar el horario del salón
+ */
+export interface SetStylistScheduleDto {
+  shifts: StylistShiftDto[];
+}
@@ -0,0 +1,12 @@
+import { SeriesScopeEnum } from '../../../domain/entities/AppointmentSeries';
+import { UpdateAppointmentDto } from './UpdateAppointmentDto';
+
+/**
+ * DTO para editar una cita de una serie y, según el alcance, las demás
+ * @description Con alcance THIS_AND_FOLLOWING o ALL, un cambio de `dateTime` se aplica como
+ * desplazamiento: cada ocurrencia se mueve los mismos días y a la misma hora local que la cita
+ * indicada
+ */
+export interface UpdateAppointmentSeriesDto extends UpdateAppointmentDto {
+  scope?: SeriesScopeEnum; // por defecto THIS
+}
@@ -0,0 +1,31 @@
+import { CancellationFeeTypeEnum } from '../../../domain/entities/CancellationPolicy';
+
+/**
+ * Cargo por cancelación tardía
+ */
+export interface CancellationFeeDto {
+  type: CancellationFeeTypeEnum; // FIXED | PERCENTAGE
+  value: number; // Monto en unidad monetaria base (FIXED) o porcentaje 0-100 (PERCENTAGE)
+}
+
+/**
+ * Aviso mínimo propio de un servicio
+ */
+export interface ServiceCancellationOverrideDto {
+  serviceId: string;
+  noticeHours: number;
+}
+
+/**
+ * DTO para reemplazar la política de cancelación del salón
+ * @description Reemplaza la política completa: omitir `lateFee` la deja sin cargo y omitir
+ * `serviceOverrides` elimina los avisos por servicio
+ */
+export interface UpdateCancellationPolicyDto {
+  adminNoticeHours: number; // 0-168
+  stylistNoticeHours: number; // 0-168
+  clientNoticeHours: number; // 0-168
+  lateFee?: CancellationFeeDto | null;
+  chargeNoShowFee?: boolean; // Requiere lateFee
+  serviceOverrides?: ServiceCancellationOverrideDto[];
+}
@@ -0,0 +1,6 @@
+export interface UpdateScheduleDto {
+  startTime: string; //Formato: "HH:MM"
+  endTime: string; //Formato: "HH:MM"
+  /** Aplica el cambio aunque deje citas futuras fuera del nuevo horario */
+  force?: boolean;
+}
@@ -6,6 +6,9 @@ export interface AppointmentDto {
   cancellationReason?: string;
   cancelledBy?: string;
   confirmationNotes?: string;
+  checkedInAt?: string; // ISO string — llegada del cliente
+  startedAt?: string; // ISO string — inicio real de la atención
+  completedAt?: string; // ISO string — fin real de la atención
   createdAt: string;
   updatedAt: string;
 
@@ -16,6 +19,13 @@ export interface AppointmentDto {
   scheduleId: string;
   statusId: string;
   serviceIds: string[];
+  seriesId?: string; // serie recurrente a la que pertenece la cita
+
+  // Cargo generado al cancelar dentro del aviso mínimo (solo en la respuesta de la cancelación)
+  lateCancellationFee?: {
+    paymentId: string;
+    amount: number; // unidad monetaria base
+  };
 
   // Relaciones pobladas (opcionales — clientId/stylistId apuntan a User.id)
   client?: {
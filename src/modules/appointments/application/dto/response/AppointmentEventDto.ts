@@ -0,0 +1,18 @@
+import { AppointmentEventTypeEnum } from '../../../domain/entities/AppointmentEvent';
+
+/**
+ * Entrada del historial de una cita
+ * @description fromValue/toValue dependen del tipo: nombre del estado (STATUS_CHANGED),
+ * fecha ISO (RESCHEDULED), User.id (STYLIST_CHANGED) o Service.id (SERVICE_ADDED/REMOVED)
+ */
+export interface AppointmentEventDto {
+  id: string;
+  appointmentId: string;
+  type: AppointmentEventTypeEnum;
+  actorId?: string; // Ausente en acciones del sistema
+  actorRole: string; // ADMIN | STYLIST | CLIENT | SYSTEM
+  fromValue?: string;
+  toValue?: string;
+  reason?: string;
+  createdAt: string; // ISO string
+}
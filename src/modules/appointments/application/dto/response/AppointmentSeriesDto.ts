@@ -0,0 +1,58 @@
+import { SeriesScopeEnum } from '../../../domain/entities/AppointmentSeries';
+import { AppointmentDto } from './AppointmentDto';
+
+export interface AppointmentSeriesDto {
+  id: string;
+  intervalWeeks: number;
+  occurrences: number;
+  startDateTime: string;
+  clientId: string;
+  userId: string;
+  createdAt: string;
+}
+
+/**
+ * Serie con sus citas reservadas (incluye canceladas e históricas)
+ */
+export interface AppointmentSeriesDetailDto extends AppointmentSeriesDto {
+  appointments: AppointmentDto[];
+}
+
+/**
+ * Resultado de reservar una ocurrencia de la serie
+ * - BOOKED: cita creada
+ * - HOLIDAY: el salón cierra por feriado ese día
+ * - CLOSED: el salón no abre ese día (sin horario regular)
+ * - CONFLICT: horario ocupado o ningún estilista libre
+ * - UNAVAILABLE: otra regla de negocio impide la reserva (fuera de horario, límite diario, etc.)
+ */
+export interface SeriesOccurrenceDto {
+  dateTime: string;
+  status: 'BOOKED' | 'HOLIDAY' | 'CLOSED' | 'CONFLICT' | 'UNAVAILABLE';
+  reason?: string;
+  appointment?: AppointmentDto;
+}
+
+export interface CreateAppointmentSeriesResponseDto {
+  series: AppointmentSeriesDto;
+  occurrences: SeriesOccurrenceDto[];
+  bookedCount: number;
+  skippedCount: number;
+}
+
+/**
+ * Resultado de editar o cancelar una cita alcanzada por el scope
+ */
+export interface SeriesScopeResultDto {
+  appointmentId: string;
+  dateTime: string;
+  status: 'UPDATED' | 'CANCELLED' | 'FAILED';
+  reason?: string;
+  appointment?: AppointmentDto;
+}
+
+export interface SeriesScopeResponseDto {
+  seriesId: string;
+  scope: SeriesScopeEnum;
+  results: SeriesScopeResultDto[];
+}
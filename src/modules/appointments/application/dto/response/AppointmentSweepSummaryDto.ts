@@ -0,0 +1,29 @@
+/**
+ * Origen de una ejecución del barrido de citas
+ * - scheduled: ejecución periódica dentro del proceso del servidor
+ * - manual: disparada por un ADMIN desde la API
+ */
+export type AppointmentSweepTrigger = 'scheduled' | 'manual';
+
+/**
+ * Cita que el barrido no pudo actualizar
+ */
+export interface AppointmentSweepFailureDto {
+  appointmentId: string;
+  reason: string;
+}
+
+/**
+ * Resumen de una ejecución del barrido de citas vencidas
+ */
+export interface AppointmentSweepSummaryDto {
+  trigger: AppointmentSweepTrigger;
+  startedAt: string; // ISO string
+  finishedAt: string; // ISO string
+  /** Citas PENDING cuya hora ya pasó, canceladas por `system` */
+  expiredPendingCount: number;
+  /** Citas CONFIRMED sin check-in pasado el margen, marcadas como NO_SHOW */
+  noShowCount: number;
+  failedCount: number;
+  failures: AppointmentSweepFailureDto[];
+}
@@ -10,6 +10,12 @@ export interface AvailableSlotDto {
     name: string;
     available: boolean;
   };
+
+  // Estilistas elegibles libres en el slot (solo si no se consulta por stylistId)
+  availableStylists?: Array<{
+    id: string;
+    name: string;
+  }>;
 }
 
 export interface DayAvailabilityDto {
@@ -25,4 +31,38 @@ export interface DayAvailabilityDto {
     start: string; // Formato: "HH:MM"
     end: string; // Formato: "HH:MM"
   };
+
+  // Tramos atendidos por el estilista (solo si se consulta por stylistId), sin descansos
+  stylistShifts?: Array<{
+    start: string; // Formato: "HH:MM"
+    end: string; // Formato: "HH:MM"
+  }>;
+}
+
+/**
+ * Resumen de disponibilidad de un día dentro de una búsqueda de varios días
+ */
+export interface CalendarDayDto {
+  date: string; // Formato: "YYYY-MM-DD"
+  dayOfWeek: string;
+  isWorkingDay: boolean;
+  totalSlots: number;
+  availableSlots: number;
+  firstAvailableTime?: string; // Formato: "HH:MM"
+}
+
+export interface FreeSlotDto {
+  date: string; // Formato: "YYYY-MM-DD"
+  time: string; // Formato: "HH:MM"
+}
+
+export interface AvailabilityCalendarDto {
+  startDate: string; // Formato: "YYYY-MM-DD"
+  endDate: string; // Último día analizado (antes del solicitado si se alcanzó `limit`)
+  duration: number; // en minutos
+  days: CalendarDayDto[];
+  nextAvailable?: FreeSlotDto;
+
+  // Primeros N slots libres (solo si se indicó `limit`)
+  freeSlots?: FreeSlotDto[];
 }
@@ -0,0 +1,17 @@
+import {
+  CancellationFeeDto,
+  ServiceCancellationOverrideDto,
+} from '../request/UpdateCancellationPolicyDto';
+
+/**
+ * Política de cancelación vigente del salón
+ */
+export interface CancellationPolicyDto {
+  adminNoticeHours: number;
+  stylistNoticeHours: number;
+  clientNoticeHours: number;
+  lateFee?: CancellationFeeDto; // Ausente si no hay cargo
+  chargeNoShowFee: boolean;
+  serviceOverrides: ServiceCancellationOverrideDto[];
+  updatedAt?: string; // ISO string — ausente mientras rige la política por defecto
+}
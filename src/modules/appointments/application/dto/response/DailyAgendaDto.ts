@@ -0,0 +1,90 @@
+import { PaymentStatusEnum } from '../../../../payments/domain/entities/Payment';
+
+/**
+ * Estado de pago de una cita en la agenda: el del último pago del servicio, o UNPAID si no tiene
+ */
+export type AgendaPaymentStatus = PaymentStatusEnum | 'UNPAID';
+
+/**
+ * Horario del salón para el día de la agenda
+ */
+export interface AgendaSalonDayDto {
+  isOpen: boolean;
+
+  // Horario efectivo (solo si el salón abre)
+  workingHours?: {
+    start: string; // Formato: "HH:MM"
+    end: string; // Formato: "HH:MM"
+  };
+
+  /** Fuente del horario efectivo: excepción puntual u horario regular */
+  source?: 'exception' | 'regular';
+
+  /** Motivo de la excepción de horario, si la hay */
+  exceptionReason?: string;
+
+  /** Feriado del día, si lo hay (sin excepción, el salón está cerrado) */
+  holiday?: {
+    name: string;
+    description?: string;
+  };
+}
+
+/**
+ * Cita dentro de la línea de tiempo de un estilista
+ */
+export interface AgendaAppointmentDto {
+  id: string;
+  dateTime: string; // ISO 8601
+  duration: number; // en minutos
+  status: string;
+  paymentStatus: AgendaPaymentStatus;
+  client: {
+    id: string;
+    name: string;
+  };
+  services: Array<{
+    id: string;
+    name: string;
+  }>;
+}
+
+/**
+ * Entrada de la línea de tiempo: una cita o un hueco libre dentro de los tramos del estilista
+ */
+export interface AgendaEntryDto {
+  type: 'APPOINTMENT' | 'GAP';
+  start: string; // Formato: "HH:MM"
+  end: string; // Formato: "HH:MM"
+  duration: number; // en minutos
+  appointment?: AgendaAppointmentDto;
+}
+
+/**
+ * Agenda del día de un estilista
+ */
+export interface StylistAgendaDto {
+  stylist: {
+    id: string;
+    name: string;
+  };
+
+  // Tramos atendidos ese día (sin descansos ni ausencias); vacío si no trabaja
+  workingIntervals: Array<{
+    start: string; // Formato: "HH:MM"
+    end: string; // Formato: "HH:MM"
+  }>;
+
+  /** Citas y huecos ordenados por hora de inicio */
+  timeline: AgendaEntryDto[];
+
+  totalAppointments: number;
+  bookedMinutes: number;
+  freeMinutes: number;
+}
+
+export interface DailyAgendaDto {
+  date: string; // Formato: "YYYY-MM-DD"
+  salon: AgendaSalonDayDto;
+  stylists: StylistAgendaDto[];
+}
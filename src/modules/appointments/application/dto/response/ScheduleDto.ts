@@ -21,3 +21,19 @@ export interface ScheduleDto {
     description?: string;
   };
 }
+
+/**
+ * Cita activa futura que queda fuera del nuevo rango de un horario editado
+ */
+export interface StrandedAppointmentDto {
+  id: string;
+  dateTime: string;
+  duration: number;
+  clientId: string;
+  stylistId?: string;
+}
+
+export interface UpdateScheduleResponseDto {
+  schedule: ScheduleDto;
+  strandedAppointments: StrandedAppointmentDto[];
+}
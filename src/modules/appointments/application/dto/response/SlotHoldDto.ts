@@ -0,0 +1,9 @@
+export interface SlotHoldDto {
+  /** Token para confirmar la reserva con POST /appointments (`holdToken`) */
+  token: string;
+  clientId: string;
+  stylistId: string;
+  dateTime: string;
+  duration: number;
+  expiresAt: string;
+}
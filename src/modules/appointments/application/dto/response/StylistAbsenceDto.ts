@@ -0,0 +1,28 @@
+import { AbsenceTypeEnum } from '../../../domain/entities/StylistAbsence';
+
+export interface StylistAbsenceDto {
+  id: string;
+  stylistId: string;
+  type: AbsenceTypeEnum;
+  startDateTime: string;
+  endDateTime: string;
+  reason?: string;
+  createdAt: string;
+}
+
+/**
+ * Cita activa que se solapa con una ausencia recién creada
+ */
+export interface AffectedAppointmentDto {
+  id: string;
+  dateTime: string;
+  duration: number;
+  clientId: string;
+  /** true si la cita fue cancelada automáticamente */
+  cancelled: boolean;
+}
+
+export interface CreateStylistAbsenceResponseDto {
+  absence: StylistAbsenceDto;
+  affectedAppointments: AffectedAppointmentDto[];
+}
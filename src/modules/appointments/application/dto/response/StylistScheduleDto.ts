@@ -0,0 +1,17 @@
+import { DayOfWeekEnum } from '../../../domain/entities/Schedule';
+
+export interface StylistShiftResponseDto {
+  id: string;
+  dayOfWeek: DayOfWeekEnum;
+  startTime: string; // Formato: "HH:MM"
+  endTime: string; // Formato: "HH:MM"
+  breakStartTime?: string; // Formato: "HH:MM"
+  breakEndTime?: string; // Formato: "HH:MM"
+}
+
+export interface StylistScheduleDto {
+  stylistId: string;
+  /** false si el estilista no tiene turnos propios y hereda el horario del salón */
+  hasCustomShifts: boolean;
+  shifts: StylistShiftResponseDto[];
+}
@@ -0,0 +1,17 @@
+import { WaitlistStatusEnum } from '../../../domain/entities/WaitlistEntry';
+
+export interface WaitlistEntryDto {
+  id: string;
+  clientId: string;
+  userId: string;
+  serviceIds: string[];
+  fromDate: string; // Formato YYYY-MM-DD
+  toDate: string; // Formato YYYY-MM-DD
+  status: WaitlistStatusEnum;
+  stylistId?: string;
+  /** Reserva temporal ofrecida por última vez (si sigue activa la entrada) */
+  holdId?: string;
+  lastNotifiedAt?: string;
+  createdAt: string;
+  updatedAt: string;
+}
@@ -1,6 +1,12 @@
 import { Appointment } from '../../domain/entities/Appointment';
 import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../domain/services/CancellationFeeService';
+import { WaitlistService } from '../../domain/services/WaitlistService';
+import { AppointmentCancelledEvent } from '../../domain/events/AppointmentDomainEvents';
+import { CancellationPolicy } from '../../domain/entities/CancellationPolicy';
+import { PaymentTypeEnum } from '../../../payments/domain/entities/Payment';
 import { AppointmentDto } from '../dto/response/AppointmentDto';
 import { CancelAppointmentDto } from '../dto/request/CancelAppointmentDto';
 import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
@@ -9,15 +15,22 @@ import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleErr
 import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
 import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
 import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { EventBus } from '../../../../shared/events/EventBus';
 
 /**
  * Caso de uso para cancelar una cita existente
- * Maneja la cancelación con validaciones de reglas de negocio y estado
+ * Maneja la cancelación con validaciones de reglas de negocio y estado, aplicando la política de
+ * cancelación configurada por el ADMIN (aviso mínimo y cargo por cancelación tardía). El turno
+ * liberado se ofrece a los clientes en lista de espera
  */
 export class CancelAppointment {
   constructor(
     private appointmentRepository: IAppointmentRepository,
     private appointmentStatusRepository: IAppointmentStatusRepository,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private cancellationFeeService: CancellationFeeService,
+    private waitlistService: WaitlistService,
+    private eventBus: EventBus,
   ) {}
 
   /**
@@ -26,10 +39,11 @@ export class CancelAppointment {
    * @param cancelDto - Datos de cancelación (razón, tipo, notificaciones)
    * @param requesterId - ID del usuario que realiza la cancelación
    * @param requesterRole - Nombre del rol del usuario solicitante
-   * @returns Promise con el DTO de la cita cancelada
+   * @returns Promise con el DTO de la cita cancelada (con `lateCancellationFee` si se generó un
+   * cargo por cancelación tardía)
    * @throws ValidationError si los datos no son válidos
    * @throws NotFoundError si la cita no existe
-   * @throws BusinessRuleError si no se puede cancelar según reglas de negocio
+   * @throws BusinessRuleError si no se puede cancelar según reglas de negocio o la política
    */
   async execute(
     appointmentId: string,
@@ -49,20 +63,55 @@ export class CancelAppointment {
     // 3. Validar reglas de negocio para cancelación
     await this.validateCancellationRules(appointment, requesterId, requesterRole);
 
-    // 4. Obtener el estado "CANCELLED"
+    // 4. Aplicar la política de cancelación (aviso mínimo por rol y servicio)
+    const policy = await this.cancellationFeeService.getPolicy();
+    const isLateCancellation = this.validateCancellationPolicy(appointment, requesterRole, policy);
+
+    // 5. Obtener el estado "CANCELLED"
     const cancelledStatus = await this.getCancelledStatus();
 
-    // 5. Verificar transición de estado válida
+    // 6. Verificar transición de estado válida
     await this.validateStatusTransition(appointment, cancelledStatus.id);
 
-    // 6. Cancelar la cita con razón y tipo de cancelación
+    // 7. Cancelar la cita con razón y tipo de cancelación
+    const before = AppointmentHistoryService.snapshot(appointment);
     appointment.markAsCancelled(cancelledStatus.id, cancelDto.reason, cancelDto.cancelledBy);
 
-    // 7. Guardar los cambios
+    // 8. Guardar los cambios
     const updatedAppointment = await this.appointmentRepository.update(appointment);
 
-    // 8. Mapear a DTO de respuesta
-    return this.mapToAppointmentDto(updatedAppointment);
+    // 9. Registrar el cambio en el historial de la cita
+    const actor = { id: requesterId, role: requesterRole };
+    await this.appointmentHistoryService.recordChanges(
+      before,
+      updatedAppointment,
+      actor,
+      cancelDto.reason,
+    );
+
+    // 10. Generar el cargo por cancelación tardía (pago PENDING de la cita)
+    const fee = isLateCancellation
+      ? await this.cancellationFeeService.charge(
+          updatedAppointment,
+          policy,
+          PaymentTypeEnum.LATE_CANCELLATION_FEE,
+        )
+      : null;
+
+    // 11. Ofrecer el turno liberado a la lista de espera
+    await this.waitlistService.offerFreedSlot(updatedAppointment);
+
+    // 12. Publicar la cancelación (notifica al cliente y al estilista)
+    await this.eventBus.publish(
+      new AppointmentCancelledEvent(updatedAppointment, actor, cancelDto.reason),
+    );
+
+    // 13. Mapear a DTO de respuesta
+    const appointmentDto = this.mapToAppointmentDto(updatedAppointment);
+    if (fee) {
+      appointmentDto.lateCancellationFee = { paymentId: fee.id, amount: fee.amount };
+    }
+    return appointmentDto;
   }
 
   /**
@@ -132,9 +181,6 @@ export class CancelAppointment {
 
     // 4. Verificar permisos de cancelación
     await this.validateCancellationPermissions(appointment, requesterId, requesterRole);
-
-    // 5. Verificar política de cancelación (ej: 24 horas antes)
-    this.validateCancellationPolicy(appointment);
   }
 
   /**
@@ -165,21 +211,27 @@ export class CancelAppointment {
   }
 
   /**
-   * Valida las políticas de tiempo para cancelación
+   * Valida el aviso mínimo de la política de cancelación
    * @param appointment - Entidad de la cita
-   * @throws BusinessRuleError si viola las políticas de tiempo
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @param policy - Política de cancelación vigente
+   * @returns true si la cancelación es tardía y se acepta con cargo
+   * @throws BusinessRuleError si es tardía y la política no permite cancelarla con cargo
    */
-  private validateCancellationPolicy(appointment: Appointment): void {
-    // Política: Se puede cancelar hasta 2 horas antes de la cita
-    const twoHoursFromNow = new Date();
-    twoHoursFromNow.setHours(twoHoursFromNow.getHours() + 2);
+  private validateCancellationPolicy(
+    appointment: Appointment,
+    requesterRole: string,
+    policy: CancellationPolicy,
+  ): boolean {
+    if (!policy.isLateCancellation(appointment, requesterRole)) return false;
 
-    if (appointment.dateTime <= twoHoursFromNow) {
-      throw new BusinessRuleError(
-        'Appointments can only be cancelled at least 2 hours in advance. ' +
-          'For last-minute cancellations, please contact customer service.',
-      );
-    }
+    if (policy.allowsLateCancellationWithFee(requesterRole)) return true;
+
+    const noticeHours = policy.getNoticeHours(requesterRole, appointment.serviceIds);
+    throw new BusinessRuleError(
+      `Appointments can only be cancelled at least ${noticeHours} hours in advance. ` +
+        'For last-minute cancellations, please contact customer service.',
+    );
   }
 
   /**
@@ -237,6 +289,9 @@ export class CancelAppointment {
       cancellationReason: appointment.cancellationReason,
       cancelledBy: appointment.cancelledBy,
       confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       userId: appointment.userId,
@@ -245,6 +300,7 @@ export class CancelAppointment {
       scheduleId: appointment.scheduleId,
       statusId: appointment.statusId,
       serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
     };
   }
 }
@@ -0,0 +1,88 @@
+import { SeriesScopeEnum } from '../../domain/entities/AppointmentSeries';
+import { AppointmentSeriesScopeService } from '../../domain/services/AppointmentSeriesScopeService';
+import { CancelAppointment } from './CancelAppointment';
+import { CancelAppointmentSeriesDto } from '../dto/request/CancelAppointmentSeriesDto';
+import { SeriesScopeResponseDto, SeriesScopeResultDto } from '../dto/response/AppointmentSeriesDto';
+import { AppError } from '../../../../shared/exceptions/AppError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para cancelar una cita de una serie: solo esa, esa y las siguientes, o todas
+ * Cada cita se cancela con CancelAppointment (mismas políticas y permisos). Con scope THIS
+ * los errores se propagan; con varias citas se reportan por cita y no detienen a las demás.
+ */
+export class CancelAppointmentSeries {
+  constructor(
+    private appointmentSeriesScopeService: AppointmentSeriesScopeService,
+    private cancelAppointment: CancelAppointment,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para cancelar citas de una serie
+   * @param seriesId - ID de la serie
+   * @param appointmentId - ID de la cita de la serie sobre la que se cancela
+   * @param cancelDto - Datos de cancelación y alcance (por defecto THIS)
+   * @param requesterId - ID del usuario que realiza la cancelación
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el resultado de cada cita alcanzada
+   * @throws NotFoundError si la serie no existe o la cita no pertenece a ella
+   */
+  async execute(
+    seriesId: string,
+    appointmentId: string,
+    cancelDto: CancelAppointmentSeriesDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<SeriesScopeResponseDto> {
+    assertValidUuid(seriesId, 'Series ID');
+    assertValidUuid(appointmentId, 'Appointment ID');
+
+    const { scope = SeriesScopeEnum.THIS, ...cancellation } = cancelDto;
+    const { pivot, appointments } = await this.appointmentSeriesScopeService.resolveTargets(
+      seriesId,
+      appointmentId,
+      scope,
+    );
+
+    // Una sola cita: mismo comportamiento (y errores) que POST /appointments/:id/cancel
+    if (scope === SeriesScopeEnum.THIS) {
+      const appointment = await this.cancelAppointment.execute(
+        pivot.id,
+        cancellation,
+        requesterId,
+        requesterRole,
+      );
+      return {
+        seriesId,
+        scope,
+        results: [
+          {
+            appointmentId: pivot.id,
+            dateTime: appointment.dateTime,
+            status: 'CANCELLED',
+            appointment,
+          },
+        ],
+      };
+    }
+
+    const results: SeriesScopeResultDto[] = [];
+    for (const target of appointments) {
+      const result = { appointmentId: target.id, dateTime: target.dateTime.toISOString() };
+      try {
+        const appointment = await this.cancelAppointment.execute(
+          target.id,
+          cancellation,
+          requesterId,
+          requesterRole,
+        );
+        results.push({ ...result, status: 'CANCELLED', appointment });
+      } catch (error) {
+        if (!(error instanceof AppError)) throw error;
+        results.push({ ...result, status: 'FAILED', reason: error.message });
+      }
+    }
+
+    return { seriesId, scope, results };
+  }
+}
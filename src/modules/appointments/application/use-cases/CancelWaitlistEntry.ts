@@ -0,0 +1,96 @@
+import { WaitlistEntry } from '../../domain/entities/WaitlistEntry';
+import { IWaitlistEntryRepository } from '../../domain/repositories/IWaitlistEntryRepository';
+import { ISlotHoldRepository } from '../../domain/repositories/ISlotHoldRepository';
+import { WaitlistEntryDto } from '../dto/response/WaitlistEntryDto';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para sacar a un cliente de la lista de espera
+ * - ADMIN: puede cancelar cualquier entrada
+ * - Cualquier otro rol: solo si es el cliente o quien creó la entrada
+ * Si el cliente era el último destinatario de una reserva temporal, la reserva se elimina y el
+ * turno vuelve a estar disponible para todos
+ */
+export class CancelWaitlistEntry {
+  constructor(
+    private waitlistEntryRepository: IWaitlistEntryRepository,
+    private slotHoldRepository: ISlotHoldRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para cancelar una entrada
+   * @param entryId - ID de la entrada
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la entrada cancelada
+   * @throws ValidationError si el ID no es válido
+   * @throws NotFoundError si la entrada no existe
+   * @throws ForbiddenError si el usuario no puede cancelar la entrada
+   * @throws BusinessRuleError si la entrada ya fue cumplida o cancelada
+   */
+  async execute(
+    entryId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<WaitlistEntryDto> {
+    assertValidUuid(entryId, 'Waitlist entry ID');
+
+    const entry = await this.waitlistEntryRepository.findById(entryId);
+    if (!entry) {
+      throw new NotFoundError('WaitlistEntry', entryId);
+    }
+
+    if (
+      requesterRole !== 'ADMIN' &&
+      entry.clientId !== requesterId &&
+      entry.userId !== requesterId
+    ) {
+      throw new ForbiddenError('You do not have permission to cancel this waitlist entry');
+    }
+
+    const holdId = entry.holdId;
+    entry.cancel();
+    const updatedEntry = await this.waitlistEntryRepository.update(entry);
+
+    if (holdId) {
+      await this.releaseHoldIfUnused(holdId);
+    }
+
+    return this.mapToWaitlistEntryDto(updatedEntry);
+  }
+
+  /**
+   * Elimina una reserva temporal que ya no tiene destinatarios activos
+   * @param holdId - ID de la reserva
+   */
+  private async releaseHoldIfUnused(holdId: string): Promise<void> {
+    const remainingEntries = await this.waitlistEntryRepository.findActiveByHoldId(holdId);
+    if (remainingEntries.length === 0) {
+      await this.slotHoldRepository.delete(holdId);
+    }
+  }
+
+  /**
+   * Mapea una entidad WaitlistEntry a su DTO de respuesta
+   * @param entry - Entidad de dominio
+   * @returns DTO de la entrada
+   */
+  private mapToWaitlistEntryDto(entry: WaitlistEntry): WaitlistEntryDto {
+    return {
+      id: entry.id,
+      clientId: entry.clientId,
+      userId: entry.userId,
+      serviceIds: entry.serviceIds,
+      fromDate: entry.fromDate.toISOString().split('T')[0],
+      toDate: entry.toDate.toISOString().split('T')[0],
+      status: entry.status,
+      stylistId: entry.stylistId,
+      holdId: entry.holdId,
+      lastNotifiedAt: entry.lastNotifiedAt?.toISOString(),
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,109 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { AppointmentLifecycleService } from '../../domain/services/AppointmentLifecycleService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para registrar la llegada del cliente a una cita (check-in)
+ * No cambia el estado de la cita: solo registra `checkedInAt`, que luego impide marcarla como
+ * no show
+ */
+export class CheckInAppointment {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentLifecycleService: AppointmentLifecycleService,
+    private appointmentHistoryService: AppointmentHistoryService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para registrar la llegada del cliente
+   * @param appointmentId - ID de la cita
+   * @param requesterId - ID del usuario que registra la llegada
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la cita actualizada
+   * @throws ValidationError si algún ID no es válido
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el solicitante no es ADMIN ni el estilista asignado
+   * @throws BusinessRuleError si la cita no está confirmada, no es hoy o ya tiene check-in
+   */
+  async execute(
+    appointmentId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(appointmentId, 'Appointment ID');
+    assertValidUuid(requesterId, 'Requester ID');
+
+    // 2. Obtener la cita validando permisos
+    const { appointment, currentStatus } =
+      await this.appointmentLifecycleService.getManageableAppointment(
+        appointmentId,
+        requesterId,
+        requesterRole,
+        'check in',
+      );
+
+    // 3. Validar reglas de negocio del check-in
+    if (currentStatus.name !== AppointmentStatusEnum.CONFIRMED) {
+      throw new BusinessRuleError('Only confirmed appointments can be checked in');
+    }
+
+    if (!this.appointmentLifecycleService.isScheduledForToday(appointment)) {
+      throw new BusinessRuleError(
+        'Appointments can only be checked in on the day of the appointment',
+      );
+    }
+
+    if (appointment.isCheckedIn()) {
+      throw new BusinessRuleError('Client has already checked in for this appointment');
+    }
+
+    // 4. Registrar la llegada y guardar
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.checkIn();
+    const updatedAppointment = await this.appointmentRepository.update(appointment);
+
+    // 5. Registrar el cambio en el historial de la cita
+    await this.appointmentHistoryService.recordChanges(before, updatedAppointment, {
+      id: requesterId,
+      role: requesterRole,
+    });
+
+    // 6. Mapear a DTO de respuesta
+    return this.mapToAppointmentDto(updatedAppointment);
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   * @param appointment - Entidad de cita
+   * @returns DTO de cita para respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
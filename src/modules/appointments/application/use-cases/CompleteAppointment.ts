@@ -0,0 +1,104 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { AppointmentLifecycleService } from '../../domain/services/AppointmentLifecycleService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para finalizar la atención de una cita (IN_PROGRESS → COMPLETED)
+ * Registra en `completedAt` la hora real de fin. Una cita no puede completarse antes de su
+ * hora reservada, aunque se haya iniciado antes.
+ */
+export class CompleteAppointment {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentLifecycleService: AppointmentLifecycleService,
+    private appointmentHistoryService: AppointmentHistoryService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para completar una cita
+   * @param appointmentId - ID de la cita
+   * @param requesterId - ID del usuario que finaliza la atención
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la cita completada
+   * @throws ValidationError si algún ID no es válido
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el solicitante no es ADMIN ni el estilista asignado
+   * @throws BusinessRuleError si la transición no es válida o la cita todavía no empezó
+   */
+  async execute(
+    appointmentId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(appointmentId, 'Appointment ID');
+    assertValidUuid(requesterId, 'Requester ID');
+
+    // 2. Obtener la cita validando permisos
+    const { appointment, currentStatus } =
+      await this.appointmentLifecycleService.getManageableAppointment(
+        appointmentId,
+        requesterId,
+        requesterRole,
+        'complete',
+      );
+
+    // 3. Validar la transición y que la cita no sea futura
+    const completedStatus = await this.appointmentLifecycleService.resolveTransition(
+      currentStatus,
+      AppointmentStatusEnum.COMPLETED,
+    );
+
+    if (!appointment.isInPast()) {
+      throw new BusinessRuleError('Cannot complete an appointment before its scheduled time');
+    }
+
+    // 4. Finalizar la atención y guardar
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.markAsCompleted(completedStatus.id);
+    const updatedAppointment = await this.appointmentRepository.update(appointment);
+
+    // 5. Registrar el cambio en el historial de la cita
+    await this.appointmentHistoryService.recordChanges(before, updatedAppointment, {
+      id: requesterId,
+      role: requesterRole,
+    });
+
+    // 6. Mapear a DTO de respuesta
+    return this.mapToAppointmentDto(updatedAppointment);
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   * @param appointment - Entidad de cita
+   * @returns DTO de cita para respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
@@ -1,6 +1,8 @@
 import { Appointment } from '../../domain/entities/Appointment';
 import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { AppointmentConfirmedEvent } from '../../domain/events/AppointmentDomainEvents';
 import { AppointmentDto } from '../dto/response/AppointmentDto';
 import { ConfirmAppointmentDto } from '../dto/request/ConfirmAppointmentDto';
 import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
@@ -9,6 +11,7 @@ import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleErr
 import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
 import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
 import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { EventBus } from '../../../../shared/events/EventBus';
 
 /**
  * Caso de uso para confirmar una cita existente
@@ -18,6 +21,8 @@ export class ConfirmAppointment {
   constructor(
     private appointmentRepository: IAppointmentRepository,
     private appointmentStatusRepository: IAppointmentStatusRepository,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private eventBus: EventBus,
   ) {}
 
   /**
@@ -56,12 +61,20 @@ export class ConfirmAppointment {
     await this.validateStatusTransition(appointment, confirmedStatus.id);
 
     // 6. Confirmar la cita con notas opcionales
+    const before = AppointmentHistoryService.snapshot(appointment);
     appointment.markAsConfirmed(confirmedStatus.id, confirmDto.notes);
 
     // 7. Guardar los cambios
     const updatedAppointment = await this.appointmentRepository.update(appointment);
 
-    // 8. Mapear a DTO de respuesta
+    // 8. Registrar el cambio en el historial de la cita
+    const actor = { id: requesterId, role: requesterRole };
+    await this.appointmentHistoryService.recordChanges(before, updatedAppointment, actor);
+
+    // 9. Publicar la confirmación (notifica al cliente y al estilista)
+    await this.eventBus.publish(new AppointmentConfirmedEvent(updatedAppointment, actor));
+
+    // 10. Mapear a DTO de respuesta
     return this.mapToAppointmentDto(updatedAppointment);
   }
 
@@ -241,6 +254,9 @@ export class ConfirmAppointment {
       cancellationReason: appointment.cancellationReason,
       cancelledBy: appointment.cancelledBy,
       confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       userId: appointment.userId,
@@ -249,6 +265,7 @@ export class ConfirmAppointment {
       scheduleId: appointment.scheduleId,
       statusId: appointment.statusId,
       serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
     };
   }
 }
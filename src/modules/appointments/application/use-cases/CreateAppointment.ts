@@ -1,9 +1,6 @@
 import { Appointment } from '../../domain/entities/Appointment';
 import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
-import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
-import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
-import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
 import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
 import { RoleName } from '@prisma/client';
 import { CreateAppointmentDto } from '../dto/request/CreateAppointmentDto';
@@ -11,10 +8,12 @@ import { AppointmentDto } from '../dto/response/AppointmentDto';
 import { ValidationError } from '../../../../shared/exceptions/ValidationError';
 import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
 import { ConflictError } from '../../../../shared/exceptions/ConflictError';
-import {
-  ScheduleAvailabilityService,
-  EffectiveSchedule,
-} from '../../domain/services/ScheduleAvailabilityService';
+import { StylistAssignmentService } from '../../domain/services/StylistAssignmentService';
+import { AppointmentDurationService } from '../../domain/services/AppointmentDurationService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { SlotHoldService } from '../../domain/services/SlotHoldService';
+import { BookingValidationService } from '../../domain/services/BookingValidationService';
+import { SlotHold } from '../../domain/entities/SlotHold';
 import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
 
 /**
@@ -22,124 +21,184 @@ import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleErr
  * Maneja todas las validaciones de negocio y coordinación entre servicios
  */
 export class CreateAppointment {
-  /** Máximo de citas activas por cliente por día */
-  private static readonly MAX_DAILY_APPOINTMENTS = 3;
-
   constructor(
     private appointmentRepository: IAppointmentRepository,
     private appointmentStatusRepository: IAppointmentStatusRepository,
-    private scheduleRepository: IScheduleRepository,
-    private serviceRepository: IServiceRepository,
-    private stylistServiceRepository: IStylistServiceRepository,
-    private scheduleAvailabilityService: ScheduleAvailabilityService,
     private userRoleValidationService: UserRoleValidationService,
+    private stylistAssignmentService: StylistAssignmentService,
+    private appointmentDurationService: AppointmentDurationService,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private slotHoldService: SlotHoldService,
+    private bookingValidationService: BookingValidationService,
   ) {}
 
-  /**
-   * Valida que la cita completa (inicio + duración) esté dentro del horario laboral del día
-   * @param dateTimeStr - Fecha y hora de la cita en formato ISO string
-   * @param duration - Duración total de la cita en minutos
-   * @param schedule - Horario laboral del día
-   * @throws BusinessRuleError si la cita está fuera del horario laboral
-   */
-  private validateWorkingHours(
-    dateTimeStr: string,
-    duration: number,
-    schedule: EffectiveSchedule,
-  ): void {
-    // Se usa el eje UTC para las horas, alineado con GetAvailableSlots.createSlotDateTime
-    // (Schedule.startTime/endTime se interpretan como horas UTC del día consultado).
-    const appointmentDate = new Date(dateTimeStr);
-    const appointmentHours = appointmentDate.getUTCHours();
-    const appointmentMinutes = appointmentDate.getUTCMinutes();
-
-    // Convertir horarios a minutos desde medianoche para comparación
-    const [startH, startM] = schedule.startTime.split(':').map(Number);
-    const [endH, endM] = schedule.endTime.split(':').map(Number);
-
-    const appointmentStartInMinutes = appointmentHours * 60 + appointmentMinutes;
-    const appointmentEndInMinutes = appointmentStartInMinutes + duration;
-    const scheduleStartInMinutes = startH * 60 + startM;
-    const scheduleEndInMinutes = endH * 60 + endM;
-
-    if (appointmentStartInMinutes < scheduleStartInMinutes) {
-      throw new BusinessRuleError(
-        `Appointment starts before working hours (${schedule.startTime})`,
-      );
-    }
-
-    if (appointmentEndInMinutes > scheduleEndInMinutes) {
-      throw new BusinessRuleError(
-        `Appointment ends after working hours (${schedule.endTime})`,
-      );
-    }
-  }
-
   /**
    * Ejecuta el caso de uso para crear una nueva cita
    * @param createDto - Datos de la cita a crear
    * @param userId - ID del usuario que está creando la cita
+   * @param userRole - Rol del usuario que está creando la cita (queda en el historial)
+   * @param seriesId - ID de la serie recurrente cuando la cita es una de sus ocurrencias
    * @returns Promise con el DTO de la cita creada
    * @throws ValidationError si los datos son inválidos
-   * @throws NotFoundError si alguna entidad relacionada no existe
-   * @throws ConflictError si hay conflictos de horario
+   * @throws NotFoundError si alguna entidad relacionada o la reserva de checkout no existe
+   * @throws ForbiddenError si la reserva de checkout es de otro cliente
+   * @throws ConflictError si hay conflictos de horario, ningún estilista está libre o la reserva
+   * de checkout venció
    */
-  async execute(createDto: CreateAppointmentDto, userId: string): Promise<AppointmentDto> {
-    // 1. Validar datos básicos
+  async execute(
+    createDto: CreateAppointmentDto,
+    userId: string,
+    userRole: string,
+    seriesId?: string,
+  ): Promise<AppointmentDto> {
+    // 1. Validar datos básicos y, si se envía el token de una reserva de checkout, usar su turno
+    // y su estilista
     await this.validateBasicData(createDto, userId);
+    const checkoutHold = createDto.holdToken
+      ? await this.slotHoldService.resolveCheckoutHold(createDto.holdToken, createDto.clientId)
+      : null;
+    if (checkoutHold) {
+      createDto = this.applyCheckoutHold(createDto, checkoutHold);
+    }
 
     // 2. Validar que todas las entidades relacionadas existen
     await this.validateRelatedEntities(createDto);
 
-    // 3. Calcular duración total si no se proporciona
-    const totalDuration = await this.calculateTotalDuration(createDto);
-
-    // 4. Obtener horario efectivo del día (prioridad: Exception > Holiday > Regular)
-    const effectiveSchedule = await this.scheduleAvailabilityService.getEffectiveSchedule(
-      new Date(createDto.dateTime),
+    // 3. Calcular duración total si no se proporciona (duración máxima de cada servicio)
+    const totalDuration = await this.appointmentDurationService.calculateTotalDuration(
+      createDto.serviceIds,
+      createDto.duration,
     );
-
-    // 5. Validar que el día no esté cerrado (feriado sin excepción o sin horario)
-    if (!effectiveSchedule) {
-      throw new BusinessRuleError(
-        'The salon is closed on the selected date (holiday or no schedule available)',
-      );
+    if (checkoutHold && totalDuration > checkoutHold.duration) {
+      throw new BusinessRuleError('The appointment is longer than the held slot');
     }
 
-    // 6. Validar que la cita esté dentro del horario efectivo del día
-    this.validateWorkingHours(createDto.dateTime, totalDuration, effectiveSchedule);
-
-    // 7. Obtener schedule regular para el scheduleId de la cita
-    const schedule = await this.getAppropriateSchedule(createDto.dateTime);
+    // 4. Asignar un estilista automáticamente si no se especificó uno
+    const stylistId = createDto.stylistId ?? (await this.assignStylist(createDto, totalDuration));
 
-    // 8. Validar disponibilidad y conflictos
-    await this.validateAvailability(createDto, totalDuration);
+    // 5. Validar que la cita caiga dentro del horario efectivo del día (prioridad: Exception >
+    // Holiday > Regular) y del turno del estilista, sin cruzar descansos ni ausencias
+    const appointmentDate = new Date(createDto.dateTime);
+    await this.bookingValidationService.validateSchedule(appointmentDate, totalDuration, stylistId);
 
-    // 9. Validar límite diario de citas por cliente
-    await this.validateDailyAppointmentLimit(createDto.clientId, createDto.dateTime);
+    // 6. Obtener schedule regular para el scheduleId de la cita
+    const schedule = await this.bookingValidationService.resolveSchedule(appointmentDate);
 
-    // 10. Obtener estado inicial (pendiente)
+    // 7. Calcular los buffers (propios del estilista o del servicio) y validar conflictos y
+    // reservas temporales de otros clientes
+    const buffer = await this.appointmentDurationService.calculateBuffer(
+      createDto.serviceIds,
+      stylistId,
+    );
+    await this.bookingValidationService.validateAvailability({
+      dateTime: appointmentDate,
+      duration: totalDuration,
+      stylistId,
+      clientId: createDto.clientId,
+      buffer,
+    });
+
+    // 8. Validar límite diario de citas por cliente
+    await this.bookingValidationService.validateDailyLimit(createDto.clientId, appointmentDate);
+
+    // 9. Obtener estado inicial (pendiente)
     const pendingStatus = await this.getPendingStatus();
 
-    // 11. Crear la entidad de cita
+    // 10. Crear la entidad de cita
     const appointment = Appointment.create(
-      new Date(createDto.dateTime),
+      appointmentDate,
       totalDuration,
       userId,
       createDto.clientId,
       schedule.id,
       pendingStatus.id,
-      createDto.stylistId,
+      stylistId,
       createDto.serviceIds,
+      buffer,
+      seriesId,
     );
 
-    // 12. Guardar en repositorio
-    const savedAppointment = await this.appointmentRepository.save(appointment);
+    // 11. Guardar en repositorio, verificando de nuevo los conflictos de forma atómica: otra
+    // reserva simultánea pudo ocupar el turno después de la validación del paso 7
+    const savedAppointment = await this.appointmentRepository.saveIfNoConflicts(appointment);
+    if (!savedAppointment) {
+      throw new ConflictError('There are conflicting appointments at this time');
+    }
+
+    // 12. Registrar la creación en el historial de la cita
+    await this.appointmentHistoryService.recordCreated(savedAppointment, {
+      id: userId,
+      role: userRole,
+    });
 
-    // 13. Mapear a DTO de respuesta
+    // 13. Usar las reservas temporales del turno que estaban a nombre del cliente
+    await this.slotHoldService.claimHolds(savedAppointment);
+
+    // 14. Mapear a DTO de respuesta
     return this.mapToAppointmentDto(savedAppointment);
   }
 
+  /**
+   * Aplica a la cita el turno retenido durante el checkout
+   * @param createDto - Datos de la cita
+   * @param hold - Reserva de checkout vigente del cliente
+   * @returns Datos de la cita con el estilista de la reserva
+   * @throws ValidationError si la fecha o el estilista no coinciden con los de la reserva
+   */
+  private applyCheckoutHold(createDto: CreateAppointmentDto, hold: SlotHold): CreateAppointmentDto {
+    if (new Date(createDto.dateTime).getTime() !== hold.dateTime.getTime()) {
+      throw new ValidationError('Appointment date and time must match the slot hold');
+    }
+
+    if (createDto.stylistId && createDto.stylistId !== hold.stylistId) {
+      throw new ValidationError('Appointment stylist must match the slot hold');
+    }
+
+    return { ...createDto, stylistId: hold.stylistId };
+  }
+
+  /**
+   * Elige un estilista para una cita creada sin estilista
+   * Solo considera estilistas que ofrecen todos los servicios y están libres durante toda la
+   * cita; entre ellos aplica la estrategia solicitada (por defecto LEAST_LOADED)
+   * @param createDto - Datos de la cita
+   * @param duration - Duración total de la cita en minutos
+   * @returns Promise con el ID del estilista asignado (User.id)
+   * @throws BusinessRuleError si el salón está cerrado, la cita cae fuera del horario o ningún
+   * estilista ofrece la combinación de servicios
+   * @throws ConflictError si ningún estilista elegible está libre en ese horario
+   */
+  private async assignStylist(createDto: CreateAppointmentDto, duration: number): Promise<string> {
+    // El horario del salón se valida antes para no ocultar el motivo real del rechazo
+    const appointmentDate = new Date(createDto.dateTime);
+    await this.bookingValidationService.validateSchedule(appointmentDate, duration);
+
+    const eligibleStylists = await this.stylistAssignmentService.findEligibleStylists(
+      createDto.serviceIds,
+    );
+    if (eligibleStylists.length === 0) {
+      throw new BusinessRuleError(
+        'No stylist currently offers the requested combination of services',
+      );
+    }
+
+    const stylist = await this.stylistAssignmentService.assignStylist(
+      {
+        dateTime: appointmentDate,
+        duration,
+        serviceIds: createDto.serviceIds,
+        clientId: createDto.clientId,
+        strategy: createDto.assignmentStrategy,
+      },
+      eligibleStylists,
+    );
+    if (!stylist) {
+      throw new ConflictError('No stylist is available for the selected services at this time');
+    }
+
+    return stylist.id;
+  }
+
   /**
    * Valida los datos básicos de entrada
    * @param createDto - Datos de la cita
@@ -200,119 +259,9 @@ export class CreateAppointment {
       await this.userRoleValidationService.ensureUserHasRole(createDto.stylistId, RoleName.STYLIST);
     }
 
-    // Validar que todos los servicios existen y están activos
-    for (const serviceId of createDto.serviceIds) {
-      const service = await this.serviceRepository.findById(serviceId);
-      if (!service) {
-        throw new NotFoundError('Service', serviceId);
-      }
-      if (!service.isActive) {
-        throw new BusinessRuleError(`Service '${service.name}' is not currently active`);
-      }
-    }
-
-    // Validar que el estilista ofrezca los servicios seleccionados (si se especifica estilista)
-    // StylistService.stylistId = User.id, por lo que usamos createDto.stylistId directamente
-    if (createDto.stylistId) {
-      for (const serviceId of createDto.serviceIds) {
-        const assignment = await this.stylistServiceRepository.findByStylistAndService(
-          createDto.stylistId,
-          serviceId,
-        );
-        if (!assignment) {
-          throw new BusinessRuleError('Stylist does not offer one of the selected services');
-        }
-        if (!assignment.isOffering) {
-          throw new BusinessRuleError('Stylist is not currently offering one of the selected services');
-        }
-      }
-    }
-
-    return;
-  }
-
-  /**
-   * Calcula la duración total de la cita basada en los servicios seleccionados
-   * @param createDto - Datos de la cita
-   * @returns Promise con la duración total en minutos
-   */
-  private async calculateTotalDuration(createDto: CreateAppointmentDto): Promise<number> {
-    // Si se proporciona duración explícita, usarla
-    if (createDto.duration && createDto.duration > 0) {
-      return createDto.duration;
-    }
-
-    // Calcular duración basada en servicios
-    let totalDuration = 0;
-    for (const serviceId of createDto.serviceIds) {
-      const service = await this.serviceRepository.findById(serviceId);
-      if (service) {
-        totalDuration += service.duration;
-      }
-    }
-
-    // Asegurar duración mínima de 15 minutos
-    return Math.max(totalDuration, 15);
-  }
-
-  /**
-   * Valida la disponibilidad de horario y detecta conflictos
-   * @param createDto - Datos de la cita
-   * @param duration - Duración total de la cita
-   * @throws ConflictError si hay conflictos de horario
-   */
-  private async validateAvailability(createDto: CreateAppointmentDto, duration: number): Promise<void> {
-    const appointmentDate = new Date(createDto.dateTime);
-
-    // Verificar conflictos con otras citas
-    const conflictingAppointments = await this.appointmentRepository.findConflictingAppointments(
-      appointmentDate,
-      duration,
-      createDto.stylistId,
-    );
-
-    if (conflictingAppointments.length > 0) {
-      throw new ConflictError('There are conflicting appointments at this time');
-    }
-  }
-
-  /**
-   * Valida que el cliente no exceda el límite diario de citas activas
-   * Solo cuenta citas no canceladas (PENDING, CONFIRMED, COMPLETED)
-   * @param clientId - ID del usuario cliente (User.id)
-   * @param dateTimeStr - Fecha y hora de la cita en formato ISO string
-   * @throws BusinessRuleError si el cliente alcanzó el límite diario
-   */
-  private async validateDailyAppointmentLimit(clientId: string, dateTimeStr: string): Promise<void> {
-    const appointmentDate = new Date(dateTimeStr);
-
-    // Obtener inicio y fin del día
-    const startOfDay = new Date(appointmentDate);
-    startOfDay.setHours(0, 0, 0, 0);
-
-    const endOfDay = new Date(appointmentDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    // Buscar citas del cliente en ese día
-    const existingAppointments = await this.appointmentRepository.findByClientAndDateRange(
-      clientId,
-      startOfDay,
-      endOfDay,
-    );
-
-    // Obtener estado CANCELLED para excluirlo del conteo
-    const cancelledStatus = await this.appointmentStatusRepository.findByName('CANCELLED');
-
-    // Contar solo citas activas (no canceladas)
-    const activeAppointments = cancelledStatus
-      ? existingAppointments.filter(a => a.statusId !== cancelledStatus.id)
-      : existingAppointments;
-
-    if (activeAppointments.length >= CreateAppointment.MAX_DAILY_APPOINTMENTS) {
-      throw new BusinessRuleError(
-        `Maximum of ${CreateAppointment.MAX_DAILY_APPOINTMENTS} appointments per day has been reached`,
-      );
-    }
+    // Validar que todos los servicios existen y están activos y que el estilista los ofrezca
+    // (si se especifica estilista)
+    await this.bookingValidationService.validateServices(createDto.serviceIds, createDto.stylistId);
   }
 
   /**
@@ -330,37 +279,6 @@ export class CreateAppointment {
     return pendingStatus;
   }
 
-  /**
-   * Obtiene el horario apropiado para la fecha de la cita
-   * @param dateTimeStr - Fecha y hora de la cita en formato string
-   * @returns Promise con el horario apropiado
-   * @throws NotFoundError si no se encuentra horario apropiado
-   */
-  private async getAppropriateSchedule(dateTimeStr: string) {
-    const appointmentDate = new Date(dateTimeStr);
-    const dayOfWeek = this.getDayOfWeek(appointmentDate);
-
-    // Buscar horario para el día de la semana
-    const schedules = await this.scheduleRepository.findAll();
-    const schedule = schedules.find(s => s.dayOfWeek === dayOfWeek);
-
-    if (!schedule) {
-      throw new NotFoundError('Schedule', dayOfWeek);
-    }
-
-    return schedule;
-  }
-
-  /**
-   * Convierte una fecha a nombre del día de la semana en formato enum
-   * @param date - Fecha a convertir
-   * @returns Nombre del día de la semana
-   */
-  private getDayOfWeek(date: Date): string {
-    const days = ['SUNDAY', 'MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY'];
-    return days[date.getDay()];
-  }
-
   /**
    * Mapea una entidad Appointment a su DTO de respuesta
    * @param appointment - Entidad de cita
@@ -375,6 +293,9 @@ export class CreateAppointment {
       cancellationReason: appointment.cancellationReason,
       cancelledBy: appointment.cancelledBy,
       confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       userId: appointment.userId,
@@ -383,6 +304,7 @@ export class CreateAppointment {
       scheduleId: appointment.scheduleId,
       statusId: appointment.statusId,
       serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
     };
   }
 }
@@ -0,0 +1,226 @@
+import { AppointmentSeries } from '../../domain/entities/AppointmentSeries';
+import { IAppointmentSeriesRepository } from '../../domain/repositories/IAppointmentSeriesRepository';
+import { IHolidayRepository } from '../../../holidays/domain/repositories/IHolidayRepository';
+import { ScheduleAvailabilityService } from '../../domain/services/ScheduleAvailabilityService';
+import { CreateAppointment } from './CreateAppointment';
+import { CreateAppointmentDto } from '../dto/request/CreateAppointmentDto';
+import { CreateAppointmentSeriesDto } from '../dto/request/CreateAppointmentSeriesDto';
+import {
+  AppointmentSeriesDto,
+  CreateAppointmentSeriesResponseDto,
+  SeriesOccurrenceDto,
+} from '../dto/response/AppointmentSeriesDto';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
+
+/**
+ * Caso de uso para crear una serie de citas recurrentes (cada N semanas)
+ * Reserva cada ocurrencia con CreateAppointment y reporta, por ocurrencia, si se reservó o
+ * por qué se omitió (feriado, día cerrado, conflicto u otra regla de negocio). Una ocurrencia
+ * omitida no impide reservar las demás.
+ */
+export class CreateAppointmentSeries {
+  /** Máximo de meses de anticipación (alineado con CreateAppointment) */
+  private static readonly MAX_MONTHS_AHEAD = 6;
+
+  constructor(
+    private appointmentSeriesRepository: IAppointmentSeriesRepository,
+    private createAppointment: CreateAppointment,
+    private scheduleAvailabilityService: ScheduleAvailabilityService,
+    private holidayRepository: IHolidayRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para crear una serie de citas
+   * @param createDto - Datos de la primera cita y regla de recurrencia
+   * @param userId - ID del usuario que está creando la serie
+   * @param userRole - Rol del usuario que está creando la serie
+   * @returns Promise con la serie creada y el resultado de cada ocurrencia
+   * @throws ValidationError si la regla de recurrencia no es válida
+   * @throws NotFoundError si alguna entidad relacionada no existe
+   * @throws BusinessRuleError si no se pudo reservar ninguna ocurrencia
+   */
+  async execute(
+    createDto: CreateAppointmentSeriesDto,
+    userId: string,
+    userRole: string,
+  ): Promise<CreateAppointmentSeriesResponseDto> {
+    // 1. Construir y validar la serie a partir de la regla de recurrencia
+    const series = this.buildSeries(createDto, userId);
+
+    // 2. Validar que la última ocurrencia no supere el horizonte de reserva
+    this.validateHorizon(series);
+
+    // 3. Guardar la serie (las citas la referencian por seriesId)
+    const savedSeries = await this.appointmentSeriesRepository.save(series);
+
+    // 4. Reservar cada ocurrencia; si falla algo inesperado sin ninguna reservada, deshacer
+    const occurrences: SeriesOccurrenceDto[] = [];
+    try {
+      for (const dateTime of savedSeries.getOccurrenceDates()) {
+        occurrences.push(
+          await this.bookOccurrence(createDto, dateTime, userId, userRole, savedSeries.id),
+        );
+      }
+    } catch (error) {
+      if (!occurrences.some((occurrence) => occurrence.status === 'BOOKED')) {
+        await this.appointmentSeriesRepository.delete(savedSeries.id);
+      }
+      throw error;
+    }
+
+    // 5. Una serie sin ninguna cita no tiene sentido
+    const bookedCount = occurrences.filter((occurrence) => occurrence.status === 'BOOKED').length;
+    if (bookedCount === 0) {
+      await this.appointmentSeriesRepository.delete(savedSeries.id);
+      throw new BusinessRuleError(
+        `None of the series occurrences could be booked (first occurrence: ${occurrences[0].reason})`,
+      );
+    }
+
+    return {
+      series: this.mapToSeriesDto(savedSeries),
+      occurrences,
+      bookedCount,
+      skippedCount: occurrences.length - bookedCount,
+    };
+  }
+
+  /**
+   * Construye la serie a partir de la regla de recurrencia
+   * @param createDto - Datos de la serie
+   * @param userId - ID del usuario creador
+   * @returns Entidad AppointmentSeries validada
+   * @throws ValidationError si la regla no es válida
+   */
+  private buildSeries(createDto: CreateAppointmentSeriesDto, userId: string): AppointmentSeries {
+    const recurrence = createDto.recurrence;
+    if (!recurrence) {
+      throw new ValidationError('Recurrence rule is required');
+    }
+
+    const hasOccurrences = recurrence.occurrences !== undefined;
+    const hasUntil = recurrence.until !== undefined;
+    if (hasOccurrences === hasUntil) {
+      throw new ValidationError('Recurrence must define either occurrences or until');
+    }
+
+    const startDateTime = new Date(createDto.dateTime);
+    if (isNaN(startDateTime.getTime())) {
+      throw new ValidationError('Invalid date format');
+    }
+
+    let occurrences = recurrence.occurrences as number;
+    if (hasUntil) {
+      const until = new Date(recurrence.until as string);
+      if (isNaN(until.getTime())) {
+        throw new ValidationError('Recurrence until must be a valid ISO 8601 date');
+      }
+      occurrences = AppointmentSeries.countOccurrencesUntil(
+        recurrence.intervalWeeks,
+        startDateTime,
+        until,
+      );
+    }
+
+    return AppointmentSeries.create(
+      recurrence.intervalWeeks,
+      occurrences,
+      startDateTime,
+      createDto.clientId,
+      userId,
+    );
+  }
+
+  /**
+   * Valida que toda la serie caiga dentro del horizonte de reserva
+   * @param series - Serie a validar
+   * @throws ValidationError si la última ocurrencia supera el horizonte
+   */
+  private validateHorizon(series: AppointmentSeries): void {
+    const horizon = new Date();
+    horizon.setMonth(horizon.getMonth() + CreateAppointmentSeries.MAX_MONTHS_AHEAD);
+
+    if (series.getLastOccurrenceDate() > horizon) {
+      throw new ValidationError(
+        `Series cannot extend more than ${CreateAppointmentSeries.MAX_MONTHS_AHEAD} months in advance`,
+      );
+    }
+  }
+
+  /**
+   * Intenta reservar una ocurrencia de la serie
+   * @param createDto - Datos comunes de la serie
+   * @param dateTime - Fecha y hora de la ocurrencia
+   * @param userId - ID del usuario creador
+   * @param userRole - Rol del usuario creador
+   * @param seriesId - ID de la serie
+   * @returns Promise con el resultado de la ocurrencia
+   * @throws NotFoundError u otros errores no relacionados con la fecha (se propagan)
+   */
+  private async bookOccurrence(
+    createDto: CreateAppointmentSeriesDto,
+    dateTime: Date,
+    userId: string,
+    userRole: string,
+    seriesId: string,
+  ): Promise<SeriesOccurrenceDto> {
+    const occurrence = { dateTime: dateTime.toISOString() };
+
+    // Día cerrado: se distingue el feriado para informarlo con su nombre
+    const salonDate = toSalonDate(dateTime);
+    if (await this.scheduleAvailabilityService.isDayClosed(salonDate)) {
+      const holiday = await this.holidayRepository.findByDate(salonDate);
+      return holiday
+        ? { ...occurrence, status: 'HOLIDAY', reason: `Holiday: ${holiday.name}` }
+        : { ...occurrence, status: 'CLOSED', reason: 'The salon is closed on this date' };
+    }
+
+    const appointmentDto: CreateAppointmentDto = {
+      dateTime: occurrence.dateTime,
+      duration: createDto.duration,
+      clientId: createDto.clientId,
+      stylistId: createDto.stylistId,
+      assignmentStrategy: createDto.assignmentStrategy,
+      serviceIds: createDto.serviceIds,
+      notes: createDto.notes,
+    };
+
+    try {
+      const appointment = await this.createAppointment.execute(
+        appointmentDto,
+        userId,
+        userRole,
+        seriesId,
+      );
+      return { ...occurrence, status: 'BOOKED', appointment };
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        return { ...occurrence, status: 'CONFLICT', reason: error.message };
+      }
+      if (error instanceof BusinessRuleError || error instanceof ValidationError) {
+        return { ...occurrence, status: 'UNAVAILABLE', reason: error.message };
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Mapea una serie a su DTO de respuesta
+   * @param series - Entidad de la serie
+   * @returns DTO de la serie
+   */
+  private mapToSeriesDto(series: AppointmentSeries): AppointmentSeriesDto {
+    return {
+      id: series.id,
+      intervalWeeks: series.intervalWeeks,
+      occurrences: series.occurrences,
+      startDateTime: series.startDateTime.toISOString(),
+      clientId: series.clientId,
+      userId: series.userId,
+      createdAt: series.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { DayOfWeekEnum, Schedule } from '../../domain/entities/Schedule';
+import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
+import { IHolidayRepository } from '../../../holidays/domain/repositories/IHolidayRepository';
+import { CreateScheduleDto } from '../dto/request/CreateScheduleDto';
+import { ScheduleDto } from '../dto/response/ScheduleDto';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para crear un horario semanal de apertura del salón (solo ADMIN)
+ * Cada día admite un único horario por ámbito (horario regular o el mismo feriado): la
+ * disponibilidad y los controles de citas afectadas trabajan sobre ese único rango, por lo que
+ * para cambiarlo se modifica el existente
+ */
+export class CreateSchedule {
+  constructor(
+    private scheduleRepository: IScheduleRepository,
+    private holidayRepository: IHolidayRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para crear un horario
+   * @param dto - Datos del horario
+   * @returns Promise con el DTO del horario creado
+   * @throws ValidationError si los datos no son válidos
+   * @throws NotFoundError si el feriado indicado no existe
+   * @throws ConflictError si ya existe un horario para ese día y ámbito
+   */
+  async execute(dto: CreateScheduleDto): Promise<ScheduleDto> {
+    // 1. Validar datos de entrada
+    if (!Object.values(DayOfWeekEnum).includes(dto.dayOfWeek)) {
+      throw new ValidationError('Invalid day of week');
+    }
+
+    if (dto.holidayId) {
+      assertValidUuid(dto.holidayId, 'Holiday ID');
+      const holiday = await this.holidayRepository.findById(dto.holidayId);
+      if (!holiday) {
+        throw new NotFoundError('Holiday', dto.holidayId);
+      }
+    }
+
+    // 2. Construir la entidad (valida formato y rango de horas)
+    const schedule = Schedule.create(dto.dayOfWeek, dto.startTime, dto.endTime, dto.holidayId);
+
+    // 3. Validar que no exista otro horario del mismo día y ámbito
+    const sameDay = await this.scheduleRepository.findByDayOfWeek(schedule.dayOfWeek);
+    if (sameDay.some((existing) => existing.holidayId === schedule.holidayId)) {
+      throw new ConflictError(
+        `A schedule already exists on ${schedule.dayOfWeek}${schedule.holidayId ? ' for this holiday' : ''}; update it instead`,
+      );
+    }
+
+    // 4. Guardar el horario
+    const savedSchedule = await this.scheduleRepository.save(schedule);
+
+    return this.mapToScheduleDto(savedSchedule);
+  }
+
+  /**
+   * Mapea una entidad Schedule a su DTO de respuesta
+   * @param schedule - Entidad de horario
+   * @returns DTO del horario
+   */
+  private mapToScheduleDto(schedule: Schedule): ScheduleDto {
+    return {
+      id: schedule.id,
+      dayOfWeek: schedule.dayOfWeek,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      createdAt: schedule.createdAt.toISOString(),
+      updatedAt: schedule.updatedAt.toISOString(),
+      holidayId: schedule.holidayId,
+      durationInMinutes: schedule.getDurationInMinutes(),
+    };
+  }
+}
@@ -0,0 +1,181 @@
+import { RoleName } from '@prisma/client';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { ISlotHoldRepository } from '../../domain/repositories/ISlotHoldRepository';
+import { AppointmentDurationService } from '../../domain/services/AppointmentDurationService';
+import { StylistAssignmentService } from '../../domain/services/StylistAssignmentService';
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { CreateSlotHoldDto } from '../dto/request/CreateSlotHoldDto';
+import { SlotHoldDto } from '../dto/response/SlotHoldDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+
+/**
+ * Caso de uso para retener un turno durante el checkout
+ * - CLIENT: solo puede retener turnos para sí mismo
+ * - ADMIN / STYLIST: pueden retenerlos para cualquier cliente
+ * Mientras la reserva está vigente, el turno no figura como disponible y solo ese cliente puede
+ * reservarlo. Cada cliente tiene una sola reserva de checkout: crear otra libera la anterior.
+ */
+export class CreateSlotHold {
+  constructor(
+    private slotHoldRepository: ISlotHoldRepository,
+    private serviceRepository: IServiceRepository,
+    private userRoleValidationService: UserRoleValidationService,
+    private stylistAssignmentService: StylistAssignmentService,
+    private appointmentDurationService: AppointmentDurationService,
+    private holdMinutes: number,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para retener un turno
+   * @param createDto - Turno a retener
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con la reserva creada y su token
+   * @throws ValidationError si la fecha es inválida, pasada o a más de 6 meses
+   * @throws ForbiddenError si un cliente intenta retener un turno para otro cliente
+   * @throws NotFoundError si el cliente o algún servicio no existe
+   * @throws BusinessRuleError si un servicio está inactivo o ningún estilista (o el elegido)
+   * ofrece los servicios
+   * @throws ConflictError si el turno no está libre
+   */
+  async execute(
+    createDto: CreateSlotHoldDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<SlotHoldDto> {
+    // 1. Validar permisos: un cliente solo retiene turnos para sí mismo
+    if (requesterRole === 'CLIENT' && createDto.clientId !== requesterId) {
+      throw new ForbiddenError('You can only hold slots for yourself');
+    }
+
+    // 2. Validar la fecha y las entidades relacionadas
+    const dateTime = this.parseDateTime(createDto.dateTime);
+    await this.validateRelatedEntities(createDto);
+
+    // 3. Calcular la duración del turno a partir de los servicios
+    const duration = await this.appointmentDurationService.calculateTotalDuration(
+      createDto.serviceIds,
+    );
+
+    // 4. Obtener los estilistas que pueden atender el turno
+    const candidates = (
+      await this.stylistAssignmentService.findEligibleStylists(createDto.serviceIds)
+    ).filter((stylist) => !createDto.stylistId || stylist.id === createDto.stylistId);
+    if (candidates.length === 0) {
+      throw new BusinessRuleError(
+        createDto.stylistId
+          ? 'Stylist is not currently offering one of the selected services'
+          : 'No stylist currently offers the requested combination of services',
+      );
+    }
+
+    // 5. Liberar la reserva de checkout anterior del cliente antes de verificar el turno
+    await this.slotHoldRepository.deleteCheckoutHoldsByClient(createDto.clientId);
+
+    // 6. Elegir un estilista libre durante todo el turno
+    const stylist = await this.stylistAssignmentService.assignStylist(
+      {
+        dateTime,
+        duration,
+        serviceIds: createDto.serviceIds,
+        clientId: createDto.clientId,
+      },
+      candidates,
+    );
+    if (!stylist) {
+      throw new ConflictError('The selected time slot is not available');
+    }
+
+    // 7. Crear y guardar la reserva, verificando otra vez el turno de forma atómica por si otro
+    // cliente lo tomó mientras tanto
+    const buffer = await this.appointmentDurationService.calculateBuffer(
+      createDto.serviceIds,
+      stylist.id,
+    );
+    const hold = await this.slotHoldRepository.saveIfSlotFree(
+      SlotHold.createForCheckout(
+        stylist.id,
+        dateTime,
+        duration,
+        this.holdMinutes,
+        createDto.clientId,
+      ),
+      buffer,
+    );
+    if (!hold) {
+      throw new ConflictError('The selected time slot is not available');
+    }
+
+    return this.mapToSlotHoldDto(hold);
+  }
+
+  /**
+   * Parsea la fecha del turno y valida que esté dentro del horizonte de reservas
+   * @param dateTimeStr - Fecha y hora en formato ISO string
+   * @returns Fecha del turno
+   * @throws ValidationError si la fecha es inválida, pasada o a más de 6 meses
+   */
+  private parseDateTime(dateTimeStr: string): Date {
+    const dateTime = new Date(dateTimeStr);
+    if (isNaN(dateTime.getTime())) {
+      throw new ValidationError('Invalid date format');
+    }
+
+    if (dateTime < new Date()) {
+      throw new ValidationError('Cannot hold a slot in the past');
+    }
+
+    const sixMonthsFromNow = new Date();
+    sixMonthsFromNow.setMonth(sixMonthsFromNow.getMonth() + 6);
+    if (dateTime > sixMonthsFromNow) {
+      throw new ValidationError('Cannot hold a slot more than 6 months in advance');
+    }
+
+    return dateTime;
+  }
+
+  /**
+   * Valida que el cliente, el estilista (si se indica) y los servicios existan
+   * @param createDto - Turno a retener
+   * @throws NotFoundError si alguna entidad no existe
+   * @throws BusinessRuleError si un servicio está inactivo
+   */
+  private async validateRelatedEntities(createDto: CreateSlotHoldDto): Promise<void> {
+    await this.userRoleValidationService.ensureUserHasRole(createDto.clientId, RoleName.CLIENT);
+
+    if (createDto.stylistId) {
+      await this.userRoleValidationService.ensureUserHasRole(createDto.stylistId, RoleName.STYLIST);
+    }
+
+    for (const serviceId of createDto.serviceIds) {
+      const service = await this.serviceRepository.findById(serviceId);
+      if (!service) {
+        throw new NotFoundError('Service', serviceId);
+      }
+      if (!service.isActive) {
+        throw new BusinessRuleError(`Service '${service.name}' is not currently active`);
+      }
+    }
+  }
+
+  /**
+   * Mapea una reserva de checkout a su DTO de respuesta
+   * @param hold - Reserva creada
+   * @returns DTO de la reserva
+   */
+  private mapToSlotHoldDto(hold: SlotHold): SlotHoldDto {
+    return {
+      token: hold.token!,
+      clientId: hold.clientId!,
+      stylistId: hold.stylistId,
+      dateTime: hold.dateTime.toISOString(),
+      duration: hold.duration,
+      expiresAt: hold.expiresAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,220 @@
+import { RoleName } from '@prisma/client';
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { StylistAbsence } from '../../domain/entities/StylistAbsence';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { IStylistAbsenceRepository } from '../../domain/repositories/IStylistAbsenceRepository';
+import { AppointmentActor } from '../../domain/entities/AppointmentEvent';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { WaitlistService } from '../../domain/services/WaitlistService';
+import { AppointmentCancelledEvent } from '../../domain/events/AppointmentDomainEvents';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { CreateStylistAbsenceDto } from '../dto/request/CreateStylistAbsenceDto';
+import {
+  AffectedAppointmentDto,
+  CreateStylistAbsenceResponseDto,
+  StylistAbsenceDto,
+} from '../dto/response/StylistAbsenceDto';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { EventBus } from '../../../../shared/events/EventBus';
+
+/** Duración máxima de una cita en minutos, usada para ampliar la búsqueda de citas solapadas */
+const MAX_APPOINTMENT_DURATION_MINUTES = 480;
+
+/**
+ * Caso de uso para registrar una ausencia de un estilista (vacaciones, licencia, bloqueo parcial)
+ * - ADMIN: puede registrar ausencias de cualquier estilista
+ * - STYLIST: solo puede registrar sus propias ausencias
+ * Las citas activas (PENDING/CONFIRMED) que se solapan con la ausencia se informan en la
+ * respuesta y, si se solicita, se cancelan automáticamente: cada turno liberado se ofrece a la
+ * lista de espera y se publica la cancelación para que se notifique al cliente
+ */
+export class CreateStylistAbsence {
+  constructor(
+    private stylistAbsenceRepository: IStylistAbsenceRepository,
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private userRoleValidationService: UserRoleValidationService,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private waitlistService: WaitlistService,
+    private eventBus: EventBus,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para registrar una ausencia
+   * @param stylistId - ID del estilista (User.id)
+   * @param dto - Datos de la ausencia
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Rol del usuario que realiza la operación
+   * @returns Promise con la ausencia creada y las citas afectadas
+   * @throws ValidationError si los datos no son válidos
+   * @throws ForbiddenError si el usuario no puede gestionar las ausencias de ese estilista
+   * @throws NotFoundError si el estilista no existe
+   * @throws ConflictError si ya existe una ausencia solapada para el estilista
+   */
+  async execute(
+    stylistId: string,
+    dto: CreateStylistAbsenceDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<CreateStylistAbsenceResponseDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(stylistId, 'Stylist ID');
+    if (!dto.startDateTime || !dto.endDateTime) {
+      throw new ValidationError('Absence start and end are required');
+    }
+
+    // 2. Validar permisos: ADMIN o el propio estilista
+    if (requesterRole !== 'ADMIN' && requesterId !== stylistId) {
+      throw new ForbiddenError('You can only manage your own absences');
+    }
+
+    // 3. Validar que el usuario exista y sea estilista
+    await this.userRoleValidationService.ensureUserHasRole(stylistId, RoleName.STYLIST);
+
+    // 4. Construir la entidad (valida tipo y rango)
+    const absence = StylistAbsence.create(
+      stylistId,
+      dto.type,
+      new Date(dto.startDateTime),
+      new Date(dto.endDateTime),
+      dto.reason,
+    );
+
+    // 5. Validar que no exista otra ausencia solapada
+    const overlapping = await this.stylistAbsenceRepository.findOverlapping(
+      stylistId,
+      absence.startDateTime,
+      absence.endDateTime,
+    );
+    if (overlapping.length > 0) {
+      throw new ConflictError('The stylist already has an absence overlapping the selected range');
+    }
+
+    // 6. Guardar la ausencia
+    const savedAbsence = await this.stylistAbsenceRepository.save(absence);
+
+    // 7. Informar (y opcionalmente cancelar) las citas activas afectadas
+    const affectedAppointments = await this.findAffectedAppointments(savedAbsence);
+    if (dto.cancelAffectedAppointments && affectedAppointments.length > 0) {
+      await this.cancelAppointments(affectedAppointments, {
+        id: requesterId,
+        role: requesterRole,
+      });
+    }
+
+    return {
+      absence: this.mapToStylistAbsenceDto(savedAbsence),
+      affectedAppointments: affectedAppointments.map((appointment) =>
+        this.mapToAffectedAppointmentDto(appointment, !!dto.cancelAffectedAppointments),
+      ),
+    };
+  }
+
+  /**
+   * Busca las citas activas (PENDING/CONFIRMED) del estilista que se solapan con la ausencia
+   * @param absence - Ausencia recién creada
+   * @returns Citas activas afectadas, ordenadas por fecha
+   */
+  private async findAffectedAppointments(absence: StylistAbsence): Promise<Appointment[]> {
+    const [pendingStatus, confirmedStatus] = await Promise.all([
+      this.appointmentStatusRepository.findByName(AppointmentStatusEnum.PENDING),
+      this.appointmentStatusRepository.findByName(AppointmentStatusEnum.CONFIRMED),
+    ]);
+
+    const activeStatusIds = [pendingStatus?.id, confirmedStatus?.id].filter(Boolean) as string[];
+
+    if (activeStatusIds.length === 0) return [];
+
+    // Una cita que empezó antes de la ausencia puede terminar dentro de ella
+    const searchStart = new Date(
+      absence.startDateTime.getTime() - MAX_APPOINTMENT_DURATION_MINUTES * 60000,
+    );
+    const appointments = await this.appointmentRepository.findByStylistAndDateRange(
+      absence.stylistId,
+      searchStart,
+      absence.endDateTime,
+    );
+
+    return appointments.filter(
+      (appointment) =>
+        activeStatusIds.includes(appointment.statusId) &&
+        absence.overlaps(appointment.dateTime, appointment.getEndTime()),
+    );
+  }
+
+  /**
+   * Cancela las citas afectadas por la ausencia
+   * Usa cancelación directa vía entidad (acción de sistema, no reutiliza CancelAppointment)
+   * @param appointments - Citas a cancelar
+   * @param actor - Quién registró la ausencia (queda en el historial de cada cita)
+   */
+  private async cancelAppointments(
+    appointments: Appointment[],
+    actor: AppointmentActor,
+  ): Promise<void> {
+    const cancelledStatus = await this.appointmentStatusRepository.findByName(
+      AppointmentStatusEnum.CANCELLED,
+    );
+    if (!cancelledStatus) {
+      throw new NotFoundError('AppointmentStatus', AppointmentStatusEnum.CANCELLED);
+    }
+
+    for (const appointment of appointments) {
+      const before = AppointmentHistoryService.snapshot(appointment);
+      appointment.markAsCancelled(cancelledStatus.id, 'Stylist absence', 'system');
+      await this.appointmentRepository.update(appointment);
+      await this.appointmentHistoryService.recordChanges(
+        before,
+        appointment,
+        actor,
+        'Stylist absence',
+      );
+      await this.waitlistService.offerFreedSlot(appointment);
+      await this.eventBus.publish(
+        new AppointmentCancelledEvent(appointment, actor, 'Stylist absence'),
+      );
+    }
+  }
+
+  /**
+   * Mapea una entidad StylistAbsence a su DTO de respuesta
+   * @param absence - Entidad de dominio
+   * @returns DTO de la ausencia
+   */
+  private mapToStylistAbsenceDto(absence: StylistAbsence): StylistAbsenceDto {
+    return {
+      id: absence.id,
+      stylistId: absence.stylistId,
+      type: absence.type,
+      startDateTime: absence.startDateTime.toISOString(),
+      endDateTime: absence.endDateTime.toISOString(),
+      reason: absence.reason,
+      createdAt: absence.createdAt.toISOString(),
+    };
+  }
+
+  /**
+   * Mapea una cita afectada a su DTO de respuesta
+   * @param appointment - Cita afectada
+   * @param cancelled - Si la cita fue cancelada automáticamente
+   * @returns DTO de la cita afectada
+   */
+  private mapToAffectedAppointmentDto(
+    appointment: Appointment,
+    cancelled: boolean,
+  ): AffectedAppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      clientId: appointment.clientId,
+      cancelled,
+    };
+  }
+}
@@ -0,0 +1,163 @@
+import { RoleName } from '@prisma/client';
+import { WaitlistEntry } from '../../domain/entities/WaitlistEntry';
+import { IWaitlistEntryRepository } from '../../domain/repositories/IWaitlistEntryRepository';
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { CreateWaitlistEntryDto } from '../dto/request/CreateWaitlistEntryDto';
+import { WaitlistEntryDto } from '../dto/response/WaitlistEntryDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
+
+/**
+ * Caso de uso para anotar a un cliente en la lista de espera de días completos
+ * - CLIENT: solo puede anotarse a sí mismo
+ * - ADMIN / STYLIST: pueden anotar a cualquier cliente
+ * Cuando una cancelación libera un turno del rango, el cliente recibe una notificación y el turno
+ * queda reservado temporalmente a su nombre (ver WaitlistService)
+ */
+export class CreateWaitlistEntry {
+  constructor(
+    private waitlistEntryRepository: IWaitlistEntryRepository,
+    private serviceRepository: IServiceRepository,
+    private stylistServiceRepository: IStylistServiceRepository,
+    private userRoleValidationService: UserRoleValidationService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para crear una entrada en la lista de espera
+   * @param createDto - Datos de la entrada
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la entrada creada
+   * @throws ValidationError si los datos no son válidos
+   * @throws ForbiddenError si un cliente intenta anotar a otro cliente
+   * @throws NotFoundError si el cliente, el estilista o algún servicio no existe
+   * @throws BusinessRuleError si el rango no es reservable, un servicio está inactivo o el
+   * estilista no lo ofrece
+   */
+  async execute(
+    createDto: CreateWaitlistEntryDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<WaitlistEntryDto> {
+    // 1. Validar permisos: un cliente solo se anota a sí mismo
+    if (requesterRole === 'CLIENT' && createDto.clientId !== requesterId) {
+      throw new ForbiddenError('You can only join the waitlist for yourself');
+    }
+
+    // 2. Validar el rango de días
+    const { fromDate, toDate } = this.parseDateRange(createDto.fromDate, createDto.toDate);
+
+    // 3. Validar que cliente, estilista y servicios existan
+    await this.validateRelatedEntities(createDto);
+
+    // 4. Crear la entrada (valida servicios duplicados y largo del rango)
+    const entry = WaitlistEntry.create(
+      createDto.clientId,
+      requesterId,
+      createDto.serviceIds,
+      fromDate,
+      toDate,
+      createDto.stylistId,
+    );
+
+    // 5. Guardar y mapear a DTO de respuesta
+    const savedEntry = await this.waitlistEntryRepository.save(entry);
+
+    return this.mapToWaitlistEntryDto(savedEntry);
+  }
+
+  /**
+   * Parsea el rango de días y valida que esté dentro del horizonte de reservas
+   * @param fromDateStr - Primer día (YYYY-MM-DD)
+   * @param toDateStr - Último día (YYYY-MM-DD)
+   * @returns Días del rango (00:00 UTC)
+   * @throws ValidationError si alguna fecha es inválida
+   * @throws BusinessRuleError si el rango empieza en el pasado o termina a más de 6 meses
+   */
+  private parseDateRange(fromDateStr: string, toDateStr: string): { fromDate: Date; toDate: Date } {
+    const fromDate = new Date(fromDateStr + 'T00:00:00.000Z');
+    if (isNaN(fromDate.getTime())) {
+      throw new ValidationError('Invalid waitlist start date');
+    }
+
+    const toDate = new Date(toDateStr + 'T00:00:00.000Z');
+    if (isNaN(toDate.getTime())) {
+      throw new ValidationError('Invalid waitlist end date');
+    }
+
+    if (fromDate < toSalonDate(new Date())) {
+      throw new BusinessRuleError('Cannot join the waitlist for past dates');
+    }
+
+    const sixMonthsFromNow = new Date();
+    sixMonthsFromNow.setMonth(sixMonthsFromNow.getMonth() + 6);
+    if (toDate > toSalonDate(sixMonthsFromNow)) {
+      throw new BusinessRuleError('Cannot join the waitlist more than 6 months in advance');
+    }
+
+    return { fromDate, toDate };
+  }
+
+  /**
+   * Valida que el cliente, el estilista (si se indica) y los servicios existan
+   * @param createDto - Datos de la entrada
+   * @throws NotFoundError si alguna entidad no existe
+   * @throws BusinessRuleError si un servicio está inactivo o el estilista no lo ofrece
+   */
+  private async validateRelatedEntities(createDto: CreateWaitlistEntryDto): Promise<void> {
+    await this.userRoleValidationService.ensureUserHasRole(createDto.clientId, RoleName.CLIENT);
+
+    if (createDto.stylistId) {
+      await this.userRoleValidationService.ensureUserHasRole(createDto.stylistId, RoleName.STYLIST);
+    }
+
+    for (const serviceId of createDto.serviceIds) {
+      const service = await this.serviceRepository.findById(serviceId);
+      if (!service) {
+        throw new NotFoundError('Service', serviceId);
+      }
+      if (!service.isActive) {
+        throw new BusinessRuleError(`Service '${service.name}' is not currently active`);
+      }
+
+      if (createDto.stylistId) {
+        const assignment = await this.stylistServiceRepository.findByStylistAndService(
+          createDto.stylistId,
+          serviceId,
+        );
+        if (!assignment?.isOffering) {
+          throw new BusinessRuleError(
+            'Stylist is not currently offering one of the selected services',
+          );
+        }
+      }
+    }
+  }
+
+  /**
+   * Mapea una entidad WaitlistEntry a su DTO de respuesta
+   * @param entry - Entidad de dominio
+   * @returns DTO de la entrada
+   */
+  private mapToWaitlistEntryDto(entry: WaitlistEntry): WaitlistEntryDto {
+    return {
+      id: entry.id,
+      clientId: entry.clientId,
+      userId: entry.userId,
+      serviceIds: entry.serviceIds,
+      fromDate: entry.fromDate.toISOString().split('T')[0],
+      toDate: entry.toDate.toISOString().split('T')[0],
+      status: entry.status,
+      stylistId: entry.stylistId,
+      holdId: entry.holdId,
+      lastNotifiedAt: entry.lastNotifiedAt?.toISOString(),
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+  }
+}
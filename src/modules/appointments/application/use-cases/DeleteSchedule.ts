@@ -0,0 +1,42 @@
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para eliminar un horario semanal (solo ADMIN)
+ * Un horario referenciado por citas (pasadas o futuras) no puede eliminarse,
+ * ya que cada cita conserva el horario con el que fue reservada
+ */
+export class DeleteSchedule {
+  constructor(
+    private scheduleRepository: IScheduleRepository,
+    private appointmentRepository: IAppointmentRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para eliminar un horario
+   * @param scheduleId - ID del horario
+   * @throws ValidationError si el ID no es válido
+   * @throws NotFoundError si el horario no existe
+   * @throws ConflictError si hay citas que usan el horario
+   */
+  async execute(scheduleId: string): Promise<void> {
+    assertValidUuid(scheduleId, 'Schedule ID');
+
+    const schedule = await this.scheduleRepository.findById(scheduleId);
+    if (!schedule) {
+      throw new NotFoundError('Schedule', scheduleId);
+    }
+
+    const appointments = await this.appointmentRepository.findByScheduleId(scheduleId);
+    if (appointments.length > 0) {
+      throw new ConflictError(
+        `Cannot delete schedule: ${appointments.length} appointments are using this schedule`,
+      );
+    }
+
+    await this.scheduleRepository.delete(scheduleId);
+  }
+}
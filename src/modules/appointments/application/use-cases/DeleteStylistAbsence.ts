@@ -0,0 +1,43 @@
+import { IStylistAbsenceRepository } from '../../domain/repositories/IStylistAbsenceRepository';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para eliminar una ausencia de un estilista
+ * Las citas canceladas al crear la ausencia no se restauran
+ */
+export class DeleteStylistAbsence {
+  constructor(private stylistAbsenceRepository: IStylistAbsenceRepository) {}
+
+  /**
+   * Ejecuta el caso de uso para eliminar una ausencia
+   * @param stylistId - ID del estilista dueño de la ausencia
+   * @param absenceId - ID de la ausencia
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Rol del usuario que realiza la operación
+   * @throws ValidationError si los IDs no son válidos
+   * @throws ForbiddenError si el usuario no puede gestionar las ausencias de ese estilista
+   * @throws NotFoundError si la ausencia no existe o pertenece a otro estilista
+   */
+  async execute(
+    stylistId: string,
+    absenceId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<void> {
+    assertValidUuid(stylistId, 'Stylist ID');
+    assertValidUuid(absenceId, 'Absence ID');
+
+    if (requesterRole !== 'ADMIN' && requesterId !== stylistId) {
+      throw new ForbiddenError('You can only manage your own absences');
+    }
+
+    const absence = await this.stylistAbsenceRepository.findById(absenceId);
+    if (!absence || absence.stylistId !== stylistId) {
+      throw new NotFoundError('StylistAbsence', absenceId);
+    }
+
+    await this.stylistAbsenceRepository.delete(absenceId);
+  }
+}
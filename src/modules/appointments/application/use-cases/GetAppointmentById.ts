@@ -99,6 +99,9 @@ export class GetAppointmentById {
       cancellationReason: appointment.cancellationReason,
       cancelledBy: appointment.cancelledBy,
       confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       userId: appointment.userId,
@@ -107,6 +110,7 @@ export class GetAppointmentById {
       scheduleId: appointment.scheduleId,
       statusId: appointment.statusId,
       serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
     };
   }
 }
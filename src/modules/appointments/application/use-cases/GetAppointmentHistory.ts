@@ -0,0 +1,97 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentEvent } from '../../domain/entities/AppointmentEvent';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { AppointmentEventDto } from '../dto/response/AppointmentEventDto';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para obtener el historial de cambios de una cita
+ * Aplica el mismo ownership que GetAppointmentById:
+ * - ADMIN: puede ver el historial de cualquier cita
+ * - Cualquier otro rol: solo si es el creador (userId), el cliente (clientId)
+ *   o el estilista asignado (stylistId) de la cita
+ */
+export class GetAppointmentHistory {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentHistoryService: AppointmentHistoryService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para obtener el historial de una cita
+   * @param appointmentId - ID de la cita
+   * @param requesterId - ID del usuario que realiza la consulta
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con los eventos de la cita en orden cronológico
+   * @throws ValidationError si el ID no es válido
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el usuario no tiene permisos para ver la cita
+   */
+  async execute(
+    appointmentId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentEventDto[]> {
+    // 1. Validar datos de entrada
+    assertValidUuid(appointmentId, 'Appointment ID');
+
+    // 2. Buscar la cita
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new NotFoundError('Appointment', appointmentId);
+    }
+
+    // 3. Validar permisos de acceso
+    this.validateAccessPermissions(appointment, requesterId, requesterRole);
+
+    // 4. Obtener el historial y mapear a DTO de respuesta
+    const events = await this.appointmentHistoryService.getHistory(appointmentId);
+    return events.map((event) => this.mapToAppointmentEventDto(event));
+  }
+
+  /**
+   * Valida que el usuario tenga permisos para ver la cita
+   * @param appointment - Entidad de la cita
+   * @param requesterId - ID del usuario solicitante
+   * @param requesterRole - Nombre del rol del usuario
+   * @throws ForbiddenError si no tiene permisos
+   */
+  private validateAccessPermissions(
+    appointment: Appointment,
+    requesterId: string,
+    requesterRole: string,
+  ): void {
+    if (requesterRole === 'ADMIN') return;
+
+    const canView =
+      appointment.userId === requesterId ||
+      appointment.clientId === requesterId ||
+      appointment.stylistId === requesterId;
+
+    if (!canView) {
+      throw new ForbiddenError('You do not have permission to view this appointment');
+    }
+  }
+
+  /**
+   * Mapea una entrada del historial a su DTO de respuesta
+   * @param event - Entidad del evento
+   * @returns DTO del evento
+   */
+  private mapToAppointmentEventDto(event: AppointmentEvent): AppointmentEventDto {
+    return {
+      id: event.id,
+      appointmentId: event.appointmentId,
+      type: event.type,
+      actorId: event.actorId,
+      actorRole: event.actorRole,
+      fromValue: event.fromValue,
+      toValue: event.toValue,
+      reason: event.reason,
+      createdAt: event.createdAt.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,115 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentSeries } from '../../domain/entities/AppointmentSeries';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentSeriesRepository } from '../../domain/repositories/IAppointmentSeriesRepository';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { AppointmentSeriesDetailDto } from '../dto/response/AppointmentSeriesDto';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para obtener una serie de citas recurrentes con todas sus citas
+ * - ADMIN: puede ver cualquier serie
+ * - Cualquier otro rol: solo si es el creador o el cliente de la serie, o el estilista de
+ *   alguna de sus citas
+ */
+export class GetAppointmentSeries {
+  constructor(
+    private appointmentSeriesRepository: IAppointmentSeriesRepository,
+    private appointmentRepository: IAppointmentRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para obtener una serie por ID
+   * @param seriesId - ID de la serie
+   * @param requesterId - ID del usuario que realiza la consulta
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con la serie y sus citas ordenadas por fecha
+   * @throws ValidationError si el ID no es válido
+   * @throws NotFoundError si la serie no existe
+   * @throws ForbiddenError si el usuario no tiene permisos para ver la serie
+   */
+  async execute(
+    seriesId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentSeriesDetailDto> {
+    assertValidUuid(seriesId, 'Series ID');
+
+    const series = await this.appointmentSeriesRepository.findById(seriesId);
+    if (!series) {
+      throw new NotFoundError('AppointmentSeries', seriesId);
+    }
+
+    const appointments = await this.appointmentRepository.findBySeriesId(series.id);
+
+    this.validateAccessPermissions(series, appointments, requesterId, requesterRole);
+
+    return {
+      id: series.id,
+      intervalWeeks: series.intervalWeeks,
+      occurrences: series.occurrences,
+      startDateTime: series.startDateTime.toISOString(),
+      clientId: series.clientId,
+      userId: series.userId,
+      createdAt: series.createdAt.toISOString(),
+      appointments: appointments.map((appointment) => this.mapToAppointmentDto(appointment)),
+    };
+  }
+
+  /**
+   * Valida que el usuario tenga permisos para ver la serie
+   * @param series - Serie consultada
+   * @param appointments - Citas de la serie
+   * @param requesterId - ID del usuario solicitante
+   * @param requesterRole - Nombre del rol del usuario
+   * @throws ForbiddenError si no tiene permisos
+   */
+  private validateAccessPermissions(
+    series: AppointmentSeries,
+    appointments: Appointment[],
+    requesterId: string,
+    requesterRole: string,
+  ): void {
+    if (requesterRole === 'ADMIN') return;
+
+    const canView =
+      series.userId === requesterId ||
+      series.clientId === requesterId ||
+      appointments.some((appointment) => appointment.stylistId === requesterId);
+
+    if (!canView) {
+      throw new ForbiddenError('You do not have permission to view this appointment series');
+    }
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   * @param appointment - Entidad de cita
+   * @returns DTO de cita para respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
@@ -0,0 +1,199 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import {
+  AppointmentSearchFilters,
+  AppointmentSortField,
+  IAppointmentRepository,
+} from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { GetAppointmentsFilterDto } from '../dto/request/GetAppointmentsFilterDto';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { PaginatedAppointmentsResponseDto } from '../dto/response/PaginatedAppointmentsResponseDto';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { salonDayRange } from '../../../../shared/utils/salonTime';
+
+/** Campos de orden admitidos */
+const SORT_FIELDS: AppointmentSortField[] = ['dateTime', 'createdAt', 'clientName'];
+
+/** Largo máximo del texto de búsqueda */
+const MAX_SEARCH_LENGTH = 100;
+
+/** Máximo de citas por página (alineado con los listados por cliente y estilista) */
+const MAX_LIMIT = 100;
+
+/**
+ * Caso de uso para el listado general de citas
+ * @description Vista de recepción: lista las citas de todo el salón con filtros combinables por
+ * estado, rango de días, estilista, cliente, servicio y categoría, búsqueda libre sobre el nombre
+ * o email del cliente, orden y paginación. Solo ADMIN (la ruta lo restringe). Por defecto ordena
+ * por fecha de la cita ascendente, que es como se lee la agenda del día.
+ */
+export class GetAppointments {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso
+   * @param filters - Filtros, orden y paginación
+   * @returns Promise con la página de citas y metadata de paginación
+   * @throws ValidationError si algún filtro es inválido
+   * @throws NotFoundError si el estado pedido no existe
+   */
+  async execute(filters: GetAppointmentsFilterDto): Promise<PaginatedAppointmentsResponseDto> {
+    const { page = 1, limit = 20, sortBy = 'dateTime', sortOrder = 'asc' } = filters;
+
+    // 1. Validar filtros, orden y paginación
+    this.validateInput(filters, page, limit, sortBy, sortOrder);
+
+    // 2. Traducir los filtros de la API a los del repositorio
+    const searchFilters = await this.buildSearchFilters(filters);
+
+    // 3. Buscar la página de citas y el total con los mismos filtros
+    const offset = (page - 1) * limit;
+    const [appointments, total] = await Promise.all([
+      this.appointmentRepository.findWithFilters(
+        searchFilters,
+        { field: sortBy, direction: sortOrder },
+        limit,
+        offset,
+      ),
+      this.appointmentRepository.countWithFilters(searchFilters),
+    ]);
+
+    // 4. Mapear a DTOs de respuesta y construir metadata de paginación
+    const totalPages = Math.ceil(total / limit);
+
+    return {
+      appointments: appointments.map((appointment) => this.mapToAppointmentDto(appointment)),
+      total,
+      page,
+      limit,
+      totalPages,
+      hasNextPage: page < totalPages,
+      hasPreviousPage: page > 1,
+    };
+  }
+
+  /**
+   * Valida filtros, orden y paginación
+   * @throws ValidationError si algún valor es inválido
+   */
+  private validateInput(
+    filters: GetAppointmentsFilterDto,
+    page: number,
+    limit: number,
+    sortBy: string,
+    sortOrder: string,
+  ): void {
+    if (
+      filters.status !== undefined &&
+      !Object.values(AppointmentStatusEnum).includes(filters.status as AppointmentStatusEnum)
+    ) {
+      throw new ValidationError(
+        `Status must be one of: ${Object.values(AppointmentStatusEnum).join(', ')}`,
+      );
+    }
+
+    if (filters.stylistId) assertValidUuid(filters.stylistId, 'Stylist ID');
+    if (filters.clientId) assertValidUuid(filters.clientId, 'Client ID');
+    if (filters.serviceId) assertValidUuid(filters.serviceId, 'Service ID');
+    if (filters.categoryId) assertValidUuid(filters.categoryId, 'Category ID');
+
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+    if (filters.startDate !== undefined && !dateRegex.test(filters.startDate)) {
+      throw new ValidationError('Start date must be in YYYY-MM-DD format');
+    }
+    if (filters.endDate !== undefined && !dateRegex.test(filters.endDate)) {
+      throw new ValidationError('End date must be in YYYY-MM-DD format');
+    }
+    if (filters.startDate && filters.endDate && filters.endDate < filters.startDate) {
+      throw new ValidationError('End date cannot be before start date');
+    }
+
+    if (filters.search !== undefined && filters.search.length > MAX_SEARCH_LENGTH) {
+      throw new ValidationError(`Search cannot exceed ${MAX_SEARCH_LENGTH} characters`);
+    }
+
+    if (!SORT_FIELDS.includes(sortBy as AppointmentSortField)) {
+      throw new ValidationError(`Sort field must be one of: ${SORT_FIELDS.join(', ')}`);
+    }
+    if (sortOrder !== 'asc' && sortOrder !== 'desc') {
+      throw new ValidationError('Sort order must be asc or desc');
+    }
+
+    if (!Number.isInteger(page) || page < 1) {
+      throw new ValidationError('Page must be a positive integer');
+    }
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+      throw new ValidationError(`Limit must be between 1 and ${MAX_LIMIT}`);
+    }
+  }
+
+  /**
+   * Traduce los filtros de la API a los del repositorio
+   * @description El estado se resuelve por nombre y los días se convierten al rango de instantes
+   * que ocupan en la zona horaria del salón
+   * @throws NotFoundError si el estado pedido no existe
+   */
+  private async buildSearchFilters(
+    filters: GetAppointmentsFilterDto,
+  ): Promise<AppointmentSearchFilters> {
+    const searchFilters: AppointmentSearchFilters = {
+      stylistId: filters.stylistId,
+      clientId: filters.clientId,
+      serviceId: filters.serviceId,
+      categoryId: filters.categoryId,
+      search: filters.search?.trim() || undefined,
+    };
+
+    if (filters.status) {
+      const status = await this.appointmentStatusRepository.findByName(filters.status);
+      if (!status) {
+        throw new NotFoundError('AppointmentStatus', filters.status);
+      }
+      searchFilters.statusId = status.id;
+    }
+
+    if (filters.startDate) {
+      searchFilters.startDate = salonDayRange(new Date(`${filters.startDate}T00:00:00.000Z`)).gte;
+    }
+    if (filters.endDate) {
+      searchFilters.endDate = salonDayRange(new Date(`${filters.endDate}T00:00:00.000Z`)).lte;
+    }
+
+    return searchFilters;
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   * @param appointment - Entidad de cita
+   * @returns DTO de cita con formato de respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
@@ -113,6 +113,9 @@ export class GetAppointmentsByClient {
       cancellationReason: appointment.cancellationReason,
       cancelledBy: appointment.cancelledBy,
       confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       userId: appointment.userId,
@@ -121,6 +124,7 @@ export class GetAppointmentsByClient {
       scheduleId: appointment.scheduleId,
       statusId: appointment.statusId,
       serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
     };
   }
 }
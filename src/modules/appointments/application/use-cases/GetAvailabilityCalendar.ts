@@ -0,0 +1,206 @@
+import { GetAvailableSlots } from './GetAvailableSlots';
+import { GetAvailabilityCalendarDto } from '../dto/request/GetAvailabilityCalendarDto';
+import {
+  AvailabilityCalendarDto,
+  CalendarDayDto,
+  FreeSlotDto,
+} from '../dto/response/AvailableSlotDto';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/** Días consultados por defecto cuando no se indica endDate */
+const DEFAULT_RANGE_DAYS = 30;
+
+/** Máximo de días que puede abarcar una búsqueda */
+const MAX_RANGE_DAYS = 62;
+
+/** Máximo de slots libres que puede pedirse con `limit` */
+const MAX_LIMIT = 50;
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Caso de uso para buscar disponibilidad en un rango de días
+ * Devuelve un calendario compacto (slots libres por día) y, con `limit`, los primeros N
+ * slots libres, deteniendo la búsqueda al encontrarlos.
+ * Las citas, reservas temporales, estilistas elegibles y agendas de los estilistas del rango se
+ * cargan una sola vez (`preloadRange`) y cada día se evalúa con la misma lógica que
+ * GetAvailableSlots
+ */
+export class GetAvailabilityCalendar {
+  constructor(private getAvailableSlotsUseCase: GetAvailableSlots) {}
+
+  /**
+   * Ejecuta el caso de uso para buscar disponibilidad en un rango
+   * @param request - DTO con el rango y los filtros (estilista, servicios, duración, límite)
+   * @returns Promise con el calendario de disponibilidad del rango
+   * @throws ValidationError si los datos de entrada no son válidos
+   * @throws BusinessRuleError si el rango no es válido para agendar citas
+   */
+  async execute(request: GetAvailabilityCalendarDto): Promise<AvailabilityCalendarDto> {
+    // 1. Validar datos de entrada
+    this.validateInput(request);
+
+    // 2. Resolver y validar el rango de días
+    const { startDate, endDate } = this.resolveRange(request);
+
+    // 3. Resolver la duración una sola vez (explícita, a partir de los servicios o 30 minutos)
+    const duration = await this.getAvailableSlotsUseCase.resolveDuration(request);
+
+    // 4. Cargar una sola vez los datos del rango (días locales del salón): citas, reservas,
+    // estilistas elegibles, buffers y turnos y ausencias de cada estilista
+    const filters = {
+      stylistId: request.stylistId,
+      serviceIds: request.serviceIds,
+      duration,
+    };
+    const preloaded = await this.getAvailableSlotsUseCase.preloadRange(startDate, endDate, filters);
+
+    // 5. Evaluar cada día hasta el final del rango o hasta alcanzar el límite
+    const days: CalendarDayDto[] = [];
+    const freeSlots: FreeSlotDto[] = [];
+    let nextAvailable: FreeSlotDto | undefined;
+
+    for (let day = startDate; day <= endDate; day = new Date(day.getTime() + DAY_IN_MS)) {
+      const availability = await this.getAvailableSlotsUseCase.getDayAvailability(
+        day,
+        filters,
+        preloaded,
+      );
+      const freeTimes = availability.slots
+        .filter((slot) => slot.available)
+        .map((slot) => slot.time);
+
+      days.push({
+        date: availability.date,
+        dayOfWeek: availability.dayOfWeek,
+        isWorkingDay: availability.isWorkingDay,
+        totalSlots: availability.totalSlots,
+        availableSlots: availability.availableSlots,
+        firstAvailableTime: freeTimes[0],
+      });
+
+      if (!nextAvailable && freeTimes.length > 0) {
+        nextAvailable = { date: availability.date, time: freeTimes[0] };
+      }
+
+      if (request.limit) {
+        const remaining = request.limit - freeSlots.length;
+        freeSlots.push(
+          ...freeTimes.slice(0, remaining).map((time) => ({ date: availability.date, time })),
+        );
+
+        if (freeSlots.length >= request.limit) break;
+      }
+    }
+
+    // 6. Construir la respuesta
+    const response: AvailabilityCalendarDto = {
+      startDate: days[0].date,
+      endDate: days[days.length - 1].date,
+      duration,
+      days,
+      nextAvailable,
+    };
+
+    if (request.limit) {
+      response.freeSlots = freeSlots;
+    }
+
+    return response;
+  }
+
+  /**
+   * Valida los datos de entrada del DTO
+   * @param request - DTO de solicitud
+   * @throws ValidationError si algún dato es inválido
+   */
+  private validateInput(request: GetAvailabilityCalendarDto): void {
+    const dateRegex = /^\d{4}-\d{2}-\d{2}$/;
+
+    if (!request.startDate || !dateRegex.test(request.startDate)) {
+      throw new ValidationError('Start date must be in YYYY-MM-DD format');
+    }
+
+    if (request.endDate !== undefined && !dateRegex.test(request.endDate)) {
+      throw new ValidationError('End date must be in YYYY-MM-DD format');
+    }
+
+    if (request.stylistId) {
+      assertValidUuid(request.stylistId, 'Stylist ID');
+    }
+
+    for (const serviceId of request.serviceIds ?? []) {
+      assertValidUuid(serviceId, 'Service ID');
+    }
+
+    if (request.duration !== undefined) {
+      if (request.duration < 15 || request.duration > 480) {
+        throw new ValidationError('Duration must be between 15 and 480 minutes');
+      }
+      if (request.duration % 15 !== 0) {
+        throw new ValidationError('Duration must be in 15-minute increments');
+      }
+    }
+
+    if (
+      request.limit !== undefined &&
+      (!Number.isInteger(request.limit) || request.limit < 1 || request.limit > MAX_LIMIT)
+    ) {
+      throw new ValidationError(`Limit must be an integer between 1 and ${MAX_LIMIT}`);
+    }
+  }
+
+  /**
+   * Resuelve el rango de días a consultar aplicando valores por defecto y límites
+   * @param request - DTO de solicitud ya validado
+   * @returns Primer y último día del rango (00:00 UTC)
+   * @throws ValidationError si las fechas son inválidas o el rango está invertido
+   * @throws BusinessRuleError si el rango empieza en el pasado, supera el máximo de días
+   * o termina más allá del horizonte de reservas (6 meses)
+   */
+  private resolveRange(request: GetAvailabilityCalendarDto): { startDate: Date; endDate: Date } {
+    const startDate = new Date(request.startDate + 'T00:00:00.000Z');
+    if (isNaN(startDate.getTime())) {
+      throw new ValidationError('Invalid start date provided');
+    }
+
+    if (startDate < toSalonDate(new Date())) {
+      throw new BusinessRuleError('Cannot check availability for past dates');
+    }
+
+    const sixMonthsFromNow = new Date();
+    sixMonthsFromNow.setMonth(sixMonthsFromNow.getMonth() + 6);
+    const horizon = toSalonDate(sixMonthsFromNow);
+
+    if (startDate > horizon) {
+      throw new BusinessRuleError('Cannot check availability more than 6 months in advance');
+    }
+
+    if (request.endDate) {
+      const endDate = new Date(request.endDate + 'T00:00:00.000Z');
+      if (isNaN(endDate.getTime())) {
+        throw new ValidationError('Invalid end date provided');
+      }
+      if (endDate < startDate) {
+        throw new ValidationError('End date must be on or after start date');
+      }
+      if ((endDate.getTime() - startDate.getTime()) / DAY_IN_MS + 1 > MAX_RANGE_DAYS) {
+        throw new BusinessRuleError(`Date range cannot exceed ${MAX_RANGE_DAYS} days`);
+      }
+      if (endDate > horizon) {
+        throw new BusinessRuleError('Cannot check availability more than 6 months in advance');
+      }
+
+      return { startDate, endDate };
+    }
+
+    // Sin endDate: 30 días para el calendario, o el máximo permitido si se buscan N slots libres
+    const rangeDays = request.limit ? MAX_RANGE_DAYS : DEFAULT_RANGE_DAYS;
+    const defaultEnd = new Date(startDate.getTime() + (rangeDays - 1) * DAY_IN_MS);
+
+    return { startDate, endDate: defaultEnd > horizon ? horizon : defaultEnd };
+  }
+}
@@ -1,7 +1,19 @@
 import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
-import { Appointment } from '../../domain/entities/Appointment';
+import { Appointment, AppointmentBuffer } from '../../domain/entities/Appointment';
 import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
-import { ScheduleAvailabilityService } from '../../domain/services/ScheduleAvailabilityService';
+import {
+  EffectiveSchedule,
+  ScheduleAvailabilityService,
+  StylistAgenda,
+  StylistEffectiveSchedule,
+} from '../../domain/services/ScheduleAvailabilityService';
+import {
+  EligibleStylist,
+  StylistEligibilityService,
+} from '../../domain/services/StylistEligibilityService';
+import { AppointmentDurationService } from '../../domain/services/AppointmentDurationService';
+import { SlotHoldService } from '../../domain/services/SlotHoldService';
+import { SlotHold } from '../../domain/entities/SlotHold';
 import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
 import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
 import { GetAvailableSlotsDto } from '../dto/request/GetAvailableSlotsDto';
@@ -9,12 +21,47 @@ import { DayAvailabilityDto, AvailableSlotDto } from '../dto/response/AvailableS
 import { ValidationError } from '../../../../shared/exceptions/ValidationError';
 import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
 import { DayOfWeekEnum } from '../../domain/entities/Schedule';
-import { startOfDayUTC } from '../../../../shared/utils/dateOnly';
+import { WorkingInterval } from '../../domain/entities/StylistSchedule';
+import {
+  getSalonTimeZone,
+  salonDateTimeToUtc,
+  salonDayRange,
+  toSalonDate,
+} from '../../../../shared/utils/salonTime';
 import { assertValidUuid } from '../../../../shared/utils/validateUuid';
 
+/**
+ * Datos de disponibilidad cargados una sola vez para un rango de días
+ * Todo lo que no cambia de un día a otro del rango (GetAvailabilityCalendar)
+ */
+export interface PreloadedAvailability {
+  /** Citas del rango de todo el salón */
+  appointments: Appointment[];
+  /** Reservas temporales vigentes del rango (solo las del estilista, si se indicó uno) */
+  holds: SlotHold[];
+  /** Nombre del estilista indicado (solo con stylistId) */
+  stylistName?: string;
+  /** Estilistas elegibles para los servicios (solo sin stylistId) */
+  eligibleStylists: EligibleStylist[];
+  /** Motivo de no-disponibilidad del filtro por servicio (SCH-14), si aplica */
+  serviceFilterReason?: string;
+  /** Buffers de la cita a reservar con el estilista indicado (o sin estilista) */
+  buffer: AppointmentBuffer;
+  /** Buffers de la cita a reservar con cada estilista elegible, por User.id */
+  stylistBuffers: Map<string, AppointmentBuffer>;
+  /** Turnos y ausencias del rango de cada estilista consultado, por User.id */
+  stylistAgendas: Map<string, StylistAgenda>;
+}
+
 /**
  * Caso de uso para obtener slots de tiempo disponibles para agendar citas
  * Calcula disponibilidad basada en horarios, citas existentes y duración requerida
+ * - Con stylistId: disponibilidad del estilista indicado
+ * - Sin stylistId: disponibilidad agregada por estilista elegible; un slot está libre si al
+ *   menos un estilista elegible trabaja y no tiene citas en ese rango
+ * Los turnos reservados temporalmente (para clientes de la lista de espera o durante el checkout
+ * de otro cliente) se informan como no disponibles
+ * Las fechas y horas de los slots son locales del salón (SALON_TIMEZONE)
  */
 export class GetAvailableSlots {
   constructor(
@@ -23,6 +70,9 @@ export class GetAvailableSlots {
     private scheduleAvailabilityService: ScheduleAvailabilityService,
     private stylistServiceRepository: IStylistServiceRepository,
     private userRepository: IUserRepository,
+    private stylistEligibilityService: StylistEligibilityService,
+    private appointmentDurationService: AppointmentDurationService,
+    private slotHoldService: SlotHoldService,
   ) {}
 
   /**
@@ -39,60 +89,270 @@ export class GetAvailableSlots {
     // 2. Parsear y validar fecha
     const targetDate = this.parseAndValidateDate(request.date);
 
-    // 3. Determinar duración (por defecto 30 minutos)
-    const duration = request.duration || 30;
-
-    // 4. Obtener día de la semana
-    const dayOfWeek = this.getDayOfWeek(targetDate);
+    // 3. Resolver la duración igual que CreateAppointment
+    const duration = await this.resolveDuration(request);
 
-    // 5. Obtener horario efectivo (prioridad: Exception > Holiday > Schedule regular)
-    const effectiveSchedule =
-      await this.scheduleAvailabilityService.getEffectiveSchedule(targetDate);
+    // 4. Calcular la disponibilidad del día
+    return this.getDayAvailability(targetDate, { ...request, duration });
+  }
 
-    // 6. Si el día está cerrado (feriado sin excepción o sin horario), retornar no laboral
-    if (!effectiveSchedule) {
-      return this.createNonWorkingDayResponse(request.date, dayOfWeek);
+  /**
+   * Resuelve la duración a reservar con la misma regla que CreateAppointment
+   * @param request - Filtros de la consulta (servicios y duración explícita)
+   * @returns Promise con la duración en minutos: la explícita, la calculada a partir de los
+   * servicios (`duration + durationVariation` de cada uno) o 30 si no se indicó ninguna
+   */
+  async resolveDuration(
+    request: Pick<GetAvailableSlotsDto, 'serviceIds' | 'duration'>,
+  ): Promise<number> {
+    if (!request.duration && request.serviceIds && request.serviceIds.length > 0) {
+      return this.appointmentDurationService.calculateTotalDuration(request.serviceIds);
     }
 
-    // 7. Generar slots base usando el horario efectivo
-    const baseSlots = this.generateBaseSlotsFromTimes(
-      effectiveSchedule.startTime,
-      effectiveSchedule.endTime,
-      duration,
-    );
-
-    // 8. Obtener citas existentes para el día
-    const existingAppointments = await this.getExistingAppointments(targetDate, request.stylistId);
+    return request.duration || 30;
+  }
 
-    // 9. Resolver nombre real del estilista si se especifica (SCH-20)
+  /**
+   * Carga una sola vez los datos de disponibilidad de un rango de días
+   * @param startDate - Primer día local del salón del rango (fecha sin hora, 00:00 UTC)
+   * @param endDate - Último día local del salón del rango (incluido)
+   * @param request - Filtros de la consulta (estilista y servicios)
+   * @returns Promise con las citas, reservas, estilistas elegibles, buffers y agendas del rango
+   * @description Las búsquedas de varios días (GetAvailabilityCalendar) pasan el resultado a
+   * `getDayAvailability` para no repetir estas consultas en cada día
+   */
+  async preloadRange(
+    startDate: Date,
+    endDate: Date,
+    request: Omit<GetAvailableSlotsDto, 'date'>,
+  ): Promise<PreloadedAvailability> {
+    const rangeStart = salonDayRange(startDate).gte;
+    const rangeEnd = salonDayRange(endDate).lte;
+    const serviceIds = request.serviceIds ?? [];
+
+    const appointments = await this.appointmentRepository.findBlockingByDateRange(
+      rangeStart,
+      rangeEnd,
+    );
+    const holds = (await this.slotHoldService.findActiveHolds(rangeStart, rangeEnd)).filter(
+      (hold) => !request.stylistId || hold.stylistId === request.stylistId,
+    );
     const stylistName = request.stylistId
       ? await this.resolveStylistName(request.stylistId)
       : undefined;
-
-    // 10. Determinar si hay al menos un estilista que ofrezca todos los servicios solicitados (SCH-14)
+    const eligibleStylists = request.stylistId
+      ? []
+      : await this.stylistEligibilityService.findEligibleStylists(request.serviceIds);
     const serviceFilterReason = await this.evaluateServiceFilter(
       request.serviceIds,
       request.stylistId,
+      eligibleStylists,
     );
 
-    // 11. Calcular disponibilidad de cada slot
-    const availableSlots = await this.calculateSlotAvailability(
-      baseSlots,
-      existingAppointments,
-      targetDate,
-      duration,
-      request.stylistId,
+    const stylistIds = request.stylistId
+      ? [request.stylistId]
+      : eligibleStylists.map((stylist) => stylist.id);
+    const stylistAgendas = new Map(
+      await Promise.all(
+        stylistIds.map(
+          async (stylistId) =>
+            [
+              stylistId,
+              await this.scheduleAvailabilityService.loadStylistAgenda(
+                stylistId,
+                startDate,
+                endDate,
+              ),
+            ] as const,
+        ),
+      ),
+    );
+    const stylistBuffers = new Map(
+      await Promise.all(
+        eligibleStylists.map(
+          async (stylist) =>
+            [
+              stylist.id,
+              await this.appointmentDurationService.calculateBuffer(serviceIds, stylist.id),
+            ] as const,
+        ),
+      ),
+    );
+
+    return {
+      appointments,
+      holds,
       stylistName,
+      eligibleStylists,
       serviceFilterReason,
+      buffer: await this.appointmentDurationService.calculateBuffer(serviceIds, request.stylistId),
+      stylistBuffers,
+      stylistAgendas,
+    };
+  }
+
+  /**
+   * Calcula la disponibilidad de un día ya validado
+   * @param targetDate - Día local del salón a consultar (fecha sin hora, 00:00 UTC)
+   * @param request - Filtros de la consulta (estilista, servicios y duración ya resuelta con
+   * `resolveDuration`)
+   * @param preloaded - Datos ya cargados con `preloadRange` para un rango que incluye el día;
+   * si se omite, se consultan los datos del día a los repositorios
+   * @returns Promise con la disponibilidad del día incluyendo todos los slots
+   * @description Usado por `execute` y por búsquedas de varios días (GetAvailabilityCalendar),
+   * que cargan los datos del rango completo una sola vez. Con datos precargados solo se consulta
+   * por día el horario efectivo del salón
+   */
+  async getDayAvailability(
+    targetDate: Date,
+    request: Omit<GetAvailableSlotsDto, 'date'>,
+    preloaded?: PreloadedAvailability,
+  ): Promise<DayAvailabilityDto> {
+    const date = targetDate.toISOString().split('T')[0];
+
+    // 1. Duración resuelta por el llamador (por defecto 30 minutos)
+    const duration = request.duration || 30;
+
+    // 2. Obtener día de la semana
+    const dayOfWeek = this.getDayOfWeek(targetDate);
+
+    // 3. Obtener horario efectivo (prioridad: Exception > Holiday > Schedule regular).
+    // Con stylistId se intersecta además con los turnos y descansos del estilista
+    const salonSchedule =
+      preloaded || !request.stylistId
+        ? await this.scheduleAvailabilityService.getEffectiveSchedule(targetDate)
+        : null;
+    const stylistSchedule = request.stylistId
+      ? await this.getStylistSchedule(targetDate, request.stylistId, salonSchedule, preloaded)
+      : null;
+    const effectiveSchedule = request.stylistId ? stylistSchedule : salonSchedule;
+
+    // 4. Si el día está cerrado (feriado sin excepción o sin horario), retornar no laboral
+    if (!effectiveSchedule) {
+      return this.createNonWorkingDayResponse(date, dayOfWeek);
+    }
+
+    // 5. Si el estilista no tiene turno ese día, tampoco es laboral para él
+    const workingIntervals: WorkingInterval[] = stylistSchedule
+      ? stylistSchedule.intervals
+      : [{ startTime: effectiveSchedule.startTime, endTime: effectiveSchedule.endTime }];
+
+    if (workingIntervals.length === 0) {
+      return this.createNonWorkingDayResponse(date, dayOfWeek);
+    }
+
+    // 6. Generar slots base dentro de cada tramo laboral (un slot nunca cruza un descanso)
+    const baseSlots = workingIntervals.flatMap((interval) =>
+      this.generateBaseSlotsFromTimes(interval.startTime, interval.endTime, duration),
     );
 
+    // 7. Obtener citas existentes para el día
+    const existingAppointments = preloaded
+      ? this.filterAppointmentsForDay(preloaded.appointments, targetDate, request.stylistId)
+      : await this.getExistingAppointments(targetDate, request.stylistId);
+
+    // 7b. Obtener las reservas temporales vigentes del día
+    const { gte: dayStart, lte: dayEnd } = salonDayRange(targetDate);
+    const activeHolds = preloaded
+      ? preloaded.holds
+      : (await this.slotHoldService.findActiveHolds(dayStart, dayEnd)).filter(
+          (hold) => !request.stylistId || hold.stylistId === request.stylistId,
+        );
+
+    // 8. Resolver nombre real del estilista si se especifica (SCH-20)
+    const stylistName = preloaded
+      ? preloaded.stylistName
+      : request.stylistId
+        ? await this.resolveStylistName(request.stylistId)
+        : undefined;
+
+    // 9. Sin stylistId, obtener los estilistas elegibles para los servicios solicitados
+    const eligibleStylists = preloaded
+      ? preloaded.eligibleStylists
+      : request.stylistId
+        ? []
+        : await this.stylistEligibilityService.findEligibleStylists(request.serviceIds);
+
+    // 10. Determinar si hay al menos un estilista que ofrezca todos los servicios solicitados (SCH-14)
+    const serviceFilterReason = preloaded
+      ? preloaded.serviceFilterReason
+      : await this.evaluateServiceFilter(request.serviceIds, request.stylistId, eligibleStylists);
+
+    // 11. Calcular disponibilidad de cada slot: por estilista elegible si no se eligió uno.
+    // Si el salón no tiene estilistas registrados, se evalúa a nivel de salón.
+    // Los buffers de cada estilista (o del servicio) se respetan igual que al reservar
+    const serviceIds = request.serviceIds ?? [];
+    const availableSlots =
+      !request.stylistId && !serviceFilterReason && eligibleStylists.length > 0
+        ? await this.calculateStylistAwareAvailability(
+            baseSlots,
+            existingAppointments,
+            activeHolds,
+            targetDate,
+            duration,
+            eligibleStylists,
+            serviceIds,
+            salonSchedule,
+            preloaded,
+          )
+        : await this.calculateSlotAvailability(
+            baseSlots,
+            existingAppointments,
+            activeHolds,
+            targetDate,
+            duration,
+            preloaded
+              ? preloaded.buffer
+              : await this.appointmentDurationService.calculateBuffer(
+                  serviceIds,
+                  request.stylistId,
+                ),
+            request.stylistId,
+            stylistName,
+            serviceFilterReason,
+          );
+
     // 12. Construir y retornar respuesta con horario efectivo
-    return this.buildDayAvailabilityResponse(
-      request.date,
+    const response = this.buildDayAvailabilityResponse(
+      date,
       dayOfWeek,
       { startTime: effectiveSchedule.startTime, endTime: effectiveSchedule.endTime },
       availableSlots,
     );
+
+    if (stylistSchedule) {
+      response.stylistShifts = workingIntervals.map((interval) => ({
+        start: interval.startTime,
+        end: interval.endTime,
+      }));
+    }
+
+    return response;
+  }
+
+  /**
+   * Obtiene el horario efectivo de un estilista para un día
+   * @param targetDate - Día local del salón a consultar (fecha sin hora)
+   * @param stylistId - ID del estilista (User.id)
+   * @param salonSchedule - Horario efectivo del salón ese día (solo se usa con datos precargados)
+   * @param preloaded - Datos precargados del rango; sin ellos se consulta la agenda del estilista
+   * @returns Promise con el horario del estilista, o null si el salón está cerrado
+   */
+  private async getStylistSchedule(
+    targetDate: Date,
+    stylistId: string,
+    salonSchedule: EffectiveSchedule | null,
+    preloaded?: PreloadedAvailability,
+  ): Promise<StylistEffectiveSchedule | null> {
+    const agenda = preloaded?.stylistAgendas.get(stylistId);
+    if (!agenda) {
+      return this.scheduleAvailabilityService.getEffectiveStylistSchedule(targetDate, stylistId);
+    }
+
+    return (
+      salonSchedule &&
+      this.scheduleAvailabilityService.applyStylistAgenda(targetDate, salonSchedule, agenda)
+    );
   }
 
   /**
@@ -108,12 +368,14 @@ export class GetAvailableSlots {
    * Evalúa si los `serviceIds` solicitados son ofrecidos por al menos un estilista
    * (o por el `stylistId` específico, si se proporciona). Implementa el filtro por
    * servicio prometido en la documentación (SCH-14).
+   * @param eligibleStylists - Estilistas elegibles ya resueltos (solo sin stylistId)
    * @returns undefined si no aplica ningún filtro (no se pidieron serviceIds, o hay
    * al menos un estilista elegible); un motivo de no-disponibilidad en caso contrario
    */
   private async evaluateServiceFilter(
     serviceIds: string[] | undefined,
     stylistId: string | undefined,
+    eligibleStylists: EligibleStylist[],
   ): Promise<string | undefined> {
     if (!serviceIds || serviceIds.length === 0) {
       return undefined;
@@ -133,26 +395,9 @@ export class GetAvailableSlots {
       return undefined;
     }
 
-    // Sin stylistId: verificar que exista AL MENOS un estilista que ofrezca todos los servicios
-    let eligibleStylistIds: Set<string> | undefined;
-    for (const serviceId of serviceIds) {
-      const offerings = await this.stylistServiceRepository.findStylistsOfferingService(serviceId);
-      const offeringStylistIds: Set<string> = new Set(
-        offerings.filter((o) => o.isOffering).map((o) => o.stylistId),
-      );
-
-      if (!eligibleStylistIds) {
-        eligibleStylistIds = offeringStylistIds;
-      } else {
-        const intersection: Set<string> = new Set(
-          [...eligibleStylistIds].filter((id) => offeringStylistIds.has(id)),
-        );
-        eligibleStylistIds = intersection;
-      }
-
-      if (eligibleStylistIds.size === 0) {
-        return 'No stylist currently offers the requested combination of services';
-      }
+    // Sin stylistId: debe existir AL MENOS un estilista activo que ofrezca todos los servicios
+    if (eligibleStylists.length === 0) {
+      return 'No stylist currently offers the requested combination of services';
     }
 
     return undefined;
@@ -223,8 +468,8 @@ export class GetAvailableSlots {
       throw new ValidationError('Invalid date provided');
     }
 
-    // Verificar que no sea en el pasado (comparación en UTC)
-    const today = startOfDayUTC(new Date());
+    // Verificar que no sea en el pasado (comparado con el día actual del salón)
+    const today = toSalonDate(new Date());
 
     if (date < today) {
       throw new BusinessRuleError('Cannot check availability for past dates');
@@ -243,7 +488,7 @@ export class GetAvailableSlots {
 
   /**
    * Convierte un objeto Date al enum DayOfWeekEnum
-   * @param date - Fecha a convertir
+   * @param date - Fecha sin hora (00:00 UTC) del día local del salón
    * @returns Día de la semana como enum
    */
   private getDayOfWeek(date: Date): DayOfWeekEnum {
@@ -257,7 +502,7 @@ export class GetAvailableSlots {
       DayOfWeekEnum.SATURDAY,
     ];
 
-    return dayNames[date.getDay()];
+    return dayNames[date.getUTCDay()];
   }
 
   /**
@@ -307,13 +552,17 @@ export class GetAvailableSlots {
 
   /**
    * Obtiene citas existentes para la fecha especificada
-   * @param date - Fecha objetivo
+   * @param date - Día local del salón (fecha sin hora)
    * @param stylistId - ID del estilista (opcional)
-   * @returns Array de citas existentes
+   * @returns Array de citas que ocupan su turno (las canceladas y no show lo liberaron)
    */
   private async getExistingAppointments(date: Date, stylistId?: string) {
-    // Obtener todas las citas del día
-    const appointments = await this.appointmentRepository.findByDate(date);
+    // Obtener las citas del día que ocupan su turno
+    const { gte: startOfDay, lte: endOfDay } = salonDayRange(date);
+    const appointments = await this.appointmentRepository.findBlockingByDateRange(
+      startOfDay,
+      endOfDay,
+    );
 
     // Filtrar por estilista si se especifica
     if (stylistId) {
@@ -323,20 +572,47 @@ export class GetAvailableSlots {
     return appointments;
   }
 
+  /**
+   * Filtra las citas precargadas que pertenecen a un día local del salón y, opcionalmente, a un
+   * estilista
+   * @param appointments - Citas precargadas del rango consultado
+   * @param date - Día objetivo (fecha sin hora)
+   * @param stylistId - ID del estilista (opcional)
+   * @returns Citas del día
+   */
+  private filterAppointmentsForDay(
+    appointments: Appointment[],
+    date: Date,
+    stylistId?: string,
+  ): Appointment[] {
+    const { gte: dayStart, lte: dayEnd } = salonDayRange(date);
+
+    return appointments.filter(
+      (apt) =>
+        apt.dateTime >= dayStart &&
+        apt.dateTime <= dayEnd &&
+        (!stylistId || apt.stylistId === stylistId),
+    );
+  }
+
   /**
    * Calcula la disponibilidad de cada slot considerando citas existentes
    * @param baseSlots - Slots base generados del horario
    * @param existingAppointments - Citas ya agendadas
+   * @param activeHolds - Reservas temporales vigentes
    * @param targetDate - Fecha objetivo
    * @param duration - Duración requerida
+   * @param buffer - Buffers que reservaría la nueva cita
    * @param stylistId - ID del estilista (opcional)
    * @returns Array de AvailableSlotDto con disponibilidad calculada
    */
   private async calculateSlotAvailability(
     baseSlots: string[],
     existingAppointments: Appointment[],
+    activeHolds: SlotHold[],
     targetDate: Date,
     duration: number,
+    buffer: AppointmentBuffer,
     stylistId?: string,
     stylistName?: string,
     serviceFilterReason?: string,
@@ -348,7 +624,13 @@ export class GetAvailableSlots {
       const slotEndTime = new Date(slotDateTime.getTime() + duration * 60000);
 
       // Verificar conflictos con citas existentes
-      const conflict = this.checkForConflicts(slotDateTime, slotEndTime, existingAppointments);
+      const conflict = this.checkForConflicts(
+        slotDateTime,
+        slotEndTime,
+        existingAppointments,
+        buffer,
+        activeHolds,
+      );
 
       // El filtro por servicio (SCH-14) tiene prioridad como motivo si aplica
       const isAvailable = !conflict.hasConflict && !serviceFilterReason;
@@ -377,36 +659,141 @@ export class GetAvailableSlots {
   }
 
   /**
-   * Crea un objeto DateTime combinando fecha y hora
-   * @param date - Fecha base
+   * Calcula la disponibilidad de cada slot por estilista elegible (sin stylistId)
+   * Un slot está libre si al menos un estilista elegible lo cubre completo dentro de sus
+   * tramos del día y no tiene citas solapadas. Las citas sin estilista asignado ocupan
+   * la capacidad de un estilista libre cada una.
+   * @param baseSlots - Slots base generados del horario del salón
+   * @param existingAppointments - Citas del día de todo el salón
+   * @param activeHolds - Reservas temporales vigentes de todo el salón
+   * @param targetDate - Fecha objetivo
+   * @param duration - Duración requerida
+   * @param eligibleStylists - Estilistas que pueden atender la cita
+   * @param serviceIds - Servicios solicitados (para los buffers propios de cada estilista)
+   * @param salonSchedule - Horario efectivo del salón ese día
+   * @param preloaded - Datos precargados del rango (agendas y buffers de cada estilista)
+   * @returns Array de AvailableSlotDto con los estilistas libres de cada slot
+   */
+  private async calculateStylistAwareAvailability(
+    baseSlots: string[],
+    existingAppointments: Appointment[],
+    activeHolds: SlotHold[],
+    targetDate: Date,
+    duration: number,
+    eligibleStylists: EligibleStylist[],
+    serviceIds: string[],
+    salonSchedule: EffectiveSchedule | null,
+    preloaded?: PreloadedAvailability,
+  ): Promise<AvailableSlotDto[]> {
+    const stylistAgendas = await Promise.all(
+      eligibleStylists.map(async (stylist) => {
+        const schedule = await this.getStylistSchedule(
+          targetDate,
+          stylist.id,
+          salonSchedule,
+          preloaded,
+        );
+        return {
+          stylist,
+          intervals: schedule?.intervals ?? [],
+          appointments: existingAppointments.filter((apt) => apt.stylistId === stylist.id),
+          holds: activeHolds.filter((hold) => hold.stylistId === stylist.id),
+          buffer:
+            preloaded?.stylistBuffers.get(stylist.id) ??
+            (await this.appointmentDurationService.calculateBuffer(serviceIds, stylist.id)),
+        };
+      }),
+    );
+    const serviceBuffer = preloaded
+      ? preloaded.buffer
+      : await this.appointmentDurationService.calculateBuffer(serviceIds);
+    const unassignedAppointments = existingAppointments.filter((apt) => !apt.stylistId);
+
+    return baseSlots.map((slotTime) => {
+      const slotDateTime = this.createSlotDateTime(targetDate, slotTime);
+      const slotEndTime = new Date(slotDateTime.getTime() + duration * 60000);
+      const slotStartMinutes = this.timeToMinutes(slotTime);
+      const slotEndMinutes = slotStartMinutes + duration;
+
+      const freeStylists = stylistAgendas
+        .filter(
+          (agenda) =>
+            agenda.intervals.some(
+              (interval) =>
+                slotStartMinutes >= this.timeToMinutes(interval.startTime) &&
+                slotEndMinutes <= this.timeToMinutes(interval.endTime),
+            ) &&
+            !this.checkForConflicts(
+              slotDateTime,
+              slotEndTime,
+              agenda.appointments,
+              agenda.buffer,
+              agenda.holds,
+            ).hasConflict,
+        )
+        .map((agenda) => agenda.stylist);
+
+      const unassignedOverlaps = unassignedAppointments.filter(
+        (apt) =>
+          this.checkForConflicts(slotDateTime, slotEndTime, [apt], serviceBuffer).hasConflict,
+      ).length;
+      const isAvailable = freeStylists.length > unassignedOverlaps;
+
+      return {
+        time: slotTime,
+        available: isAvailable,
+        duration,
+        conflictReason: isAvailable ? undefined : 'No stylist available at this time',
+        availableStylists: isAvailable
+          ? freeStylists.map((stylist) => ({ id: stylist.id, name: stylist.name }))
+          : [],
+      };
+    });
+  }
+
+  /**
+   * Convierte una hora en formato HH:MM a minutos desde medianoche
    * @param time - Hora en formato HH:MM
-   * @returns Objeto Date con fecha y hora combinadas
+   * @returns Minutos desde las 00:00
    */
-  private createSlotDateTime(date: Date, time: string): Date {
+  private timeToMinutes(time: string): number {
     const [hours, minutes] = time.split(':').map(Number);
-    const slotDate = new Date(date);
-    slotDate.setUTCHours(hours, minutes, 0, 0);
-    return slotDate;
+    return hours * 60 + minutes;
   }
 
   /**
-   * Verifica si hay conflictos de horario con citas existentes
+   * Crea un objeto DateTime combinando fecha y hora locales del salón
+   * @param date - Fecha sin hora (00:00 UTC) del día local
+   * @param time - Hora local en formato HH:MM
+   * @returns Instante UTC del slot (respetando cambios de horario)
+   */
+  private createSlotDateTime(date: Date, time: string): Date {
+    return salonDateTimeToUtc(date, time);
+  }
+
+  /**
+   * Verifica si hay conflictos de horario con citas existentes o reservas temporales
    * @param slotStart - Inicio del slot a verificar
    * @param slotEnd - Fin del slot a verificar
    * @param appointments - Citas existentes
+   * @param buffer - Buffers que reservaría la nueva cita
+   * @param holds - Reservas temporales vigentes
    * @returns Objeto con información de conflicto
+   * @description Usa la misma regla que `findConflictingAppointments`: los bloques de ambas
+   * citas, ampliados con sus buffers, no pueden solaparse
    */
   private checkForConflicts(
     slotStart: Date,
     slotEnd: Date,
     appointments: Appointment[],
+    buffer: AppointmentBuffer,
+    holds: SlotHold[] = [],
   ): { hasConflict: boolean; reason?: string } {
     for (const appointment of appointments) {
       const appointmentStart = appointment.dateTime;
-      const appointmentEnd = new Date(appointmentStart.getTime() + appointment.duration * 60000);
 
-      // Verificar solapamiento
-      if (slotStart < appointmentEnd && slotEnd > appointmentStart) {
+      // Verificar solapamiento (buffers incluidos)
+      if (appointment.overlapsRange(slotStart, slotEnd, buffer)) {
         return {
           hasConflict: true,
           reason: `Conflict with existing appointment at ${appointmentStart.toLocaleTimeString(
@@ -414,12 +801,23 @@ export class GetAvailableSlots {
             {
               hour: '2-digit',
               minute: '2-digit',
+              timeZone: getSalonTimeZone(),
             },
           )}`,
         };
       }
     }
 
+    const overlappingHold = holds.find((hold) => hold.overlapsRange(slotStart, slotEnd, buffer));
+    if (overlappingHold) {
+      return {
+        hasConflict: true,
+        reason: overlappingHold.isCheckoutHold()
+          ? 'Temporarily held during checkout'
+          : 'Temporarily held for a waitlisted client',
+      };
+    }
+
     return { hasConflict: false };
   }
 
@@ -0,0 +1,39 @@
+import { CancellationPolicy } from '../../domain/entities/CancellationPolicy';
+import { ICancellationPolicyRepository } from '../../domain/repositories/ICancellationPolicyRepository';
+import { CancellationPolicyDto } from '../dto/response/CancellationPolicyDto';
+
+/**
+ * Caso de uso para consultar la política de cancelación vigente
+ * Cualquier usuario autenticado puede verla, para saber hasta cuándo puede cancelar sin cargo
+ */
+export class GetCancellationPolicy {
+  constructor(private cancellationPolicyRepository: ICancellationPolicyRepository) {}
+
+  /**
+   * Ejecuta el caso de uso para obtener la política de cancelación
+   * @returns Promise con la política vigente (la política por defecto si el ADMIN no configuró una)
+   */
+  async execute(): Promise<CancellationPolicyDto> {
+    const policy = await this.cancellationPolicyRepository.get();
+    return this.mapToCancellationPolicyDto(policy);
+  }
+
+  /**
+   * Mapea la entidad CancellationPolicy a su DTO de respuesta
+   * @param policy - Política de cancelación
+   * @returns DTO de la política para respuesta
+   */
+  private mapToCancellationPolicyDto(policy: CancellationPolicy): CancellationPolicyDto {
+    return {
+      adminNoticeHours: policy.adminNoticeHours,
+      stylistNoticeHours: policy.stylistNoticeHours,
+      clientNoticeHours: policy.clientNoticeHours,
+      lateFee: policy.hasLateFee()
+        ? { type: policy.lateFeeType!, value: policy.lateFeeValue! }
+        : undefined,
+      chargeNoShowFee: policy.chargeNoShowFee,
+      serviceOverrides: policy.serviceOverrides,
+      updatedAt: policy.updatedAt?.toISOString(),
+    };
+  }
+}
@@ -0,0 +1,395 @@
+import { RoleName } from '@prisma/client';
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { WorkingInterval } from '../../domain/entities/StylistSchedule';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import {
+  EffectiveSchedule,
+  ScheduleAvailabilityService,
+} from '../../domain/services/ScheduleAvailabilityService';
+import {
+  EligibleStylist,
+  StylistEligibilityService,
+} from '../../domain/services/StylistEligibilityService';
+import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { IPaymentRepository } from '../../../payments/domain/repositories/IPaymentRepository';
+import { PaymentTypeEnum } from '../../../payments/domain/entities/Payment';
+import { IHolidayRepository } from '../../../holidays/domain/repositories/IHolidayRepository';
+import { IScheduleExceptionRepository } from '../../../holidays/domain/repositories/IScheduleExceptionRepository';
+import { GetDailyAgendaDto } from '../dto/request/GetDailyAgendaDto';
+import {
+  AgendaAppointmentDto,
+  AgendaEntryDto,
+  AgendaPaymentStatus,
+  AgendaSalonDayDto,
+  DailyAgendaDto,
+  StylistAgendaDto,
+} from '../dto/response/DailyAgendaDto';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { getSalonMinutesOfDay, salonDayRange } from '../../../../shared/utils/salonTime';
+
+/**
+ * Datos compartidos entre las agendas de todos los estilistas de un mismo día
+ * (nombres de estados, clientes y servicios ya resueltos)
+ */
+interface AgendaLookups {
+  statusNames: Map<string, string>;
+  clientNames: Map<string, string>;
+  serviceNames: Map<string, string>;
+}
+
+/**
+ * Caso de uso para obtener la agenda de un día
+ * @description Arma una línea de tiempo por estilista con sus citas (cliente, servicios,
+ * duración, estado y estado de pago) y los huecos libres dentro de sus tramos de trabajo,
+ * junto con el horario efectivo del salón y la excepción o feriado del día. Las citas canceladas
+ * no ocupan la agenda. Un STYLIST solo ve su propia agenda; ADMIN puede pedir la de un estilista
+ * o la de todo el salón (todos los estilistas activos).
+ */
+export class GetDailyAgenda {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private scheduleAvailabilityService: ScheduleAvailabilityService,
+    private stylistEligibilityService: StylistEligibilityService,
+    private userRoleValidationService: UserRoleValidationService,
+    private userRepository: IUserRepository,
+    private serviceRepository: IServiceRepository,
+    private paymentRepository: IPaymentRepository,
+    private holidayRepository: IHolidayRepository,
+    private scheduleExceptionRepository: IScheduleExceptionRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso
+   * @param request - Día a consultar y, opcionalmente, el estilista
+   * @param requesterId - ID del usuario que realiza la consulta
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con la agenda del día
+   * @throws ValidationError si la fecha o el ID del estilista son inválidos
+   * @throws ForbiddenError si un STYLIST pide la agenda de otro estilista
+   * @throws NotFoundError si el estilista no existe
+   * @throws BusinessRuleError si el usuario indicado no es estilista
+   */
+  async execute(
+    request: GetDailyAgendaDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<DailyAgendaDto> {
+    // 1. Validar datos de entrada
+    const date = this.validateInput(request);
+
+    // 2. Resolver los estilistas según el rol del solicitante
+    const stylists = await this.resolveStylists(request.stylistId, requesterId, requesterRole);
+
+    // 3. Horario del salón, con la excepción o el feriado del día
+    const salonSchedule = await this.scheduleAvailabilityService.getEffectiveSchedule(date);
+    const salon = await this.buildSalonDay(date, salonSchedule);
+
+    // 4. Citas activas del día de cada estilista
+    const { gte: dayStart, lte: dayEnd } = salonDayRange(date);
+    const statuses = await this.appointmentStatusRepository.findAll();
+    const statusNames = new Map(statuses.map((status) => [status.id, status.name]));
+    const appointmentsByStylist = await Promise.all(
+      stylists.map(async (stylist) => {
+        const appointments = await this.appointmentRepository.findByStylistAndDateRange(
+          stylist.id,
+          dayStart,
+          dayEnd,
+        );
+        return appointments
+          .filter(
+            (appointment) =>
+              statusNames.get(appointment.statusId) !== AppointmentStatusEnum.CANCELLED,
+          )
+          .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+      }),
+    );
+
+    // 5. Resolver una sola vez los nombres de clientes y servicios de todas las citas
+    const allAppointments = appointmentsByStylist.flat();
+    const lookups: AgendaLookups = {
+      statusNames,
+      clientNames: await this.resolveClientNames(allAppointments),
+      serviceNames: await this.resolveServiceNames(allAppointments),
+    };
+
+    // 6. Armar la línea de tiempo de cada estilista
+    const agendas = await Promise.all(
+      stylists.map((stylist, index) =>
+        this.buildStylistAgenda(date, stylist, appointmentsByStylist[index], lookups),
+      ),
+    );
+
+    return {
+      date: request.date,
+      salon,
+      stylists: agendas,
+    };
+  }
+
+  /**
+   * Valida los datos de entrada
+   * @param request - Datos de la consulta
+   * @returns Día local del salón (00:00 UTC)
+   * @throws ValidationError si algún dato es inválido
+   */
+  private validateInput(request: GetDailyAgendaDto): Date {
+    if (!request.date || !/^\d{4}-\d{2}-\d{2}$/.test(request.date)) {
+      throw new ValidationError('Date must be in YYYY-MM-DD format');
+    }
+
+    const date = new Date(`${request.date}T00:00:00.000Z`);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError('Date must be a valid date');
+    }
+
+    if (request.stylistId) {
+      assertValidUuid(request.stylistId, 'Stylist ID');
+    }
+
+    return date;
+  }
+
+  /**
+   * Determina de qué estilistas se arma la agenda
+   * @description STYLIST: solo la propia. ADMIN: el estilista pedido o todos los activos
+   * @throws ForbiddenError si un STYLIST pide la agenda de otro estilista
+   * @throws NotFoundError si el estilista pedido no existe
+   */
+  private async resolveStylists(
+    stylistId: string | undefined,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<EligibleStylist[]> {
+    if (requesterRole !== 'ADMIN' && stylistId && stylistId !== requesterId) {
+      throw new ForbiddenError('You can only view your own agenda');
+    }
+
+    const targetStylistId = requesterRole === 'ADMIN' ? stylistId : requesterId;
+    if (!targetStylistId) {
+      const stylists = await this.stylistEligibilityService.findEligibleStylists();
+      return stylists.sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    await this.userRoleValidationService.ensureUserHasRole(targetStylistId, RoleName.STYLIST);
+    const user = await this.userRepository.findById(targetStylistId);
+    if (!user) {
+      throw new NotFoundError('Stylist', targetStylistId);
+    }
+
+    return [{ id: user.id, name: user.name }];
+  }
+
+  /**
+   * Arma la información del salón para el día: horario efectivo, excepción y feriado
+   * @param date - Día local del salón
+   * @param schedule - Horario efectivo del salón (null = cerrado)
+   */
+  private async buildSalonDay(
+    date: Date,
+    schedule: EffectiveSchedule | null,
+  ): Promise<AgendaSalonDayDto> {
+    const holiday = await this.holidayRepository.findByDate(date);
+    const salon: AgendaSalonDayDto = { isOpen: schedule !== null };
+
+    if (schedule) {
+      salon.workingHours = { start: schedule.startTime, end: schedule.endTime };
+      salon.source = schedule.source;
+    }
+
+    if (schedule?.source === 'exception') {
+      const exception = await this.scheduleExceptionRepository.getExceptionForDate(date);
+      salon.exceptionReason = exception?.reason ?? undefined;
+    }
+
+    if (holiday) {
+      salon.holiday = { name: holiday.name, description: holiday.description ?? undefined };
+    }
+
+    return salon;
+  }
+
+  /**
+   * Arma la agenda de un estilista: tramos de trabajo, citas y huecos ordenados
+   * @param date - Día local del salón
+   * @param stylist - Estilista
+   * @param appointments - Citas activas del estilista ese día, ordenadas por hora
+   * @param lookups - Nombres ya resueltos de estados, clientes y servicios
+   */
+  private async buildStylistAgenda(
+    date: Date,
+    stylist: EligibleStylist,
+    appointments: Appointment[],
+    lookups: AgendaLookups,
+  ): Promise<StylistAgendaDto> {
+    const stylistSchedule = await this.scheduleAvailabilityService.getEffectiveStylistSchedule(
+      date,
+      stylist.id,
+    );
+    const intervals = stylistSchedule?.intervals ?? [];
+
+    const appointmentEntries: AgendaEntryDto[] = await Promise.all(
+      appointments.map(async (appointment) => {
+        const start = getSalonMinutesOfDay(appointment.dateTime);
+        return {
+          type: 'APPOINTMENT' as const,
+          start: this.minutesToTime(start),
+          end: this.minutesToTime(start + appointment.duration),
+          duration: appointment.duration,
+          appointment: await this.mapToAgendaAppointment(appointment, lookups),
+        };
+      }),
+    );
+    const gapEntries = this.findGaps(intervals, appointments);
+
+    const timeline = [...appointmentEntries, ...gapEntries].sort(
+      (a, b) => a.start.localeCompare(b.start) || (a.type === 'APPOINTMENT' ? -1 : 1),
+    );
+
+    return {
+      stylist: { id: stylist.id, name: stylist.name },
+      workingIntervals: intervals.map((interval) => ({
+        start: interval.startTime,
+        end: interval.endTime,
+      })),
+      timeline,
+      totalAppointments: appointments.length,
+      bookedMinutes: appointments.reduce((total, appointment) => total + appointment.duration, 0),
+      freeMinutes: gapEntries.reduce((total, gap) => total + gap.duration, 0),
+    };
+  }
+
+  /**
+   * Calcula los huecos libres dentro de los tramos de trabajo
+   * @param intervals - Tramos atendidos por el estilista (HH:MM, hora local del salón)
+   * @param appointments - Citas activas del estilista, ordenadas por hora
+   * @returns Huecos sin citas, en orden
+   */
+  private findGaps(intervals: WorkingInterval[], appointments: Appointment[]): AgendaEntryDto[] {
+    const busy = appointments.map((appointment) => {
+      const start = getSalonMinutesOfDay(appointment.dateTime);
+      return { start, end: start + appointment.duration };
+    });
+    const gaps: AgendaEntryDto[] = [];
+
+    for (const interval of intervals) {
+      const intervalEnd = this.timeToMinutes(interval.endTime);
+      let cursor = this.timeToMinutes(interval.startTime);
+
+      for (const block of busy) {
+        if (block.end <= cursor || block.start >= intervalEnd) continue;
+        if (block.start > cursor) {
+          gaps.push(this.createGap(cursor, block.start));
+        }
+        cursor = Math.max(cursor, block.end);
+      }
+
+      if (cursor < intervalEnd) {
+        gaps.push(this.createGap(cursor, intervalEnd));
+      }
+    }
+
+    return gaps;
+  }
+
+  /**
+   * Crea una entrada de hueco libre
+   */
+  private createGap(start: number, end: number): AgendaEntryDto {
+    return {
+      type: 'GAP',
+      start: this.minutesToTime(start),
+      end: this.minutesToTime(end),
+      duration: end - start,
+    };
+  }
+
+  /**
+   * Resuelve los nombres de los clientes de las citas
+   */
+  private async resolveClientNames(appointments: Appointment[]): Promise<Map<string, string>> {
+    const clientIds = [...new Set(appointments.map((appointment) => appointment.clientId))];
+    const clients = await Promise.all(clientIds.map((id) => this.userRepository.findById(id)));
+
+    return new Map(
+      clients
+        .filter((client) => client !== null)
+        .map((client) => [client!.id, client!.name] as [string, string]),
+    );
+  }
+
+  /**
+   * Resuelve los nombres de los servicios de las citas
+   */
+  private async resolveServiceNames(appointments: Appointment[]): Promise<Map<string, string>> {
+    const serviceIds = [...new Set(appointments.flatMap((appointment) => appointment.serviceIds))];
+    const services = await Promise.all(serviceIds.map((id) => this.serviceRepository.findById(id)));
+
+    return new Map(
+      services
+        .filter((service) => service !== null)
+        .map((service) => [service!.id, service!.name] as [string, string]),
+    );
+  }
+
+  /**
+   * Obtiene el estado de pago de la cita: el del último pago del servicio
+   * @returns Estado del último pago de tipo SERVICE, o UNPAID si no tiene
+   */
+  private async getPaymentStatus(appointmentId: string): Promise<AgendaPaymentStatus> {
+    const payments = await this.paymentRepository.findByAppointmentId(appointmentId);
+    const latest = payments
+      .filter((payment) => payment.type === PaymentTypeEnum.SERVICE)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+
+    return latest ? latest.status : 'UNPAID';
+  }
+
+  /**
+   * Mapea una cita a su entrada de agenda
+   */
+  private async mapToAgendaAppointment(
+    appointment: Appointment,
+    lookups: AgendaLookups,
+  ): Promise<AgendaAppointmentDto> {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      status: lookups.statusNames.get(appointment.statusId) ?? appointment.statusId,
+      paymentStatus: await this.getPaymentStatus(appointment.id),
+      client: {
+        id: appointment.clientId,
+        name: lookups.clientNames.get(appointment.clientId) ?? '',
+      },
+      services: appointment.serviceIds.map((serviceId) => ({
+        id: serviceId,
+        name: lookups.serviceNames.get(serviceId) ?? '',
+      })),
+    };
+  }
+
+  /**
+   * Convierte HH:MM a minutos desde medianoche
+   */
+  private timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Convierte minutos desde medianoche a HH:MM
+   */
+  private minutesToTime(minutes: number): string {
+    const hours = Math.floor(minutes / 60);
+    const mins = minutes % 60;
+    return `${hours.toString().padStart(2, '0')}:${mins.toString().padStart(2, '0')}`;
+  }
+}
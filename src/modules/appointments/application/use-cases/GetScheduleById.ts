@@ -0,0 +1,48 @@
+import { Schedule } from '../../domain/entities/Schedule';
+import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
+import { ScheduleDto } from '../dto/response/ScheduleDto';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para obtener un horario semanal por su ID
+ */
+export class GetScheduleById {
+  constructor(private scheduleRepository: IScheduleRepository) {}
+
+  /**
+   * Ejecuta el caso de uso para obtener un horario
+   * @param scheduleId - ID del horario
+   * @returns Promise con el DTO del horario
+   * @throws ValidationError si el ID no es válido
+   * @throws NotFoundError si el horario no existe
+   */
+  async execute(scheduleId: string): Promise<ScheduleDto> {
+    assertValidUuid(scheduleId, 'Schedule ID');
+
+    const schedule = await this.scheduleRepository.findById(scheduleId);
+    if (!schedule) {
+      throw new NotFoundError('Schedule', scheduleId);
+    }
+
+    return this.mapToScheduleDto(schedule);
+  }
+
+  /**
+   * Mapea una entidad Schedule a su DTO de respuesta
+   * @param schedule - Entidad de horario
+   * @returns DTO del horario
+   */
+  private mapToScheduleDto(schedule: Schedule): ScheduleDto {
+    return {
+      id: schedule.id,
+      dayOfWeek: schedule.dayOfWeek,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      createdAt: schedule.createdAt.toISOString(),
+      updatedAt: schedule.updatedAt.toISOString(),
+      holidayId: schedule.holidayId,
+      durationInMinutes: schedule.getDurationInMinutes(),
+    };
+  }
+}
@@ -0,0 +1,48 @@
+import { DayOfWeekEnum, Schedule } from '../../domain/entities/Schedule';
+import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
+import { ScheduleDto } from '../dto/response/ScheduleDto';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+
+/**
+ * Caso de uso para listar los horarios semanales de apertura del salón
+ * Permite filtrar opcionalmente por día de la semana
+ */
+export class GetSchedules {
+  constructor(private scheduleRepository: IScheduleRepository) {}
+
+  /**
+   * Ejecuta el caso de uso para listar horarios
+   * @param dayOfWeek - Día de la semana para filtrar (opcional)
+   * @returns Promise con los horarios ordenados por día y hora de inicio
+   * @throws ValidationError si el día de la semana no es válido
+   */
+  async execute(dayOfWeek?: string): Promise<ScheduleDto[]> {
+    if (dayOfWeek && !Object.values(DayOfWeekEnum).includes(dayOfWeek as DayOfWeekEnum)) {
+      throw new ValidationError('Invalid day of week');
+    }
+
+    const schedules = dayOfWeek
+      ? await this.scheduleRepository.findByDayOfWeek(dayOfWeek as DayOfWeekEnum)
+      : await this.scheduleRepository.findAll();
+
+    return schedules.map((schedule) => this.mapToScheduleDto(schedule));
+  }
+
+  /**
+   * Mapea una entidad Schedule a su DTO de respuesta
+   * @param schedule - Entidad de horario
+   * @returns DTO del horario
+   */
+  private mapToScheduleDto(schedule: Schedule): ScheduleDto {
+    return {
+      id: schedule.id,
+      dayOfWeek: schedule.dayOfWeek,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      createdAt: schedule.createdAt.toISOString(),
+      updatedAt: schedule.updatedAt.toISOString(),
+      holidayId: schedule.holidayId,
+      durationInMinutes: schedule.getDurationInMinutes(),
+    };
+  }
+}
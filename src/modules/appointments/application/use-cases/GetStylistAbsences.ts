@@ -0,0 +1,72 @@
+import { RoleName } from '@prisma/client';
+import { StylistAbsence } from '../../domain/entities/StylistAbsence';
+import { IStylistAbsenceRepository } from '../../domain/repositories/IStylistAbsenceRepository';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { StylistAbsenceDto } from '../dto/response/StylistAbsenceDto';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para listar las ausencias de un estilista
+ * - ADMIN: puede consultar las ausencias de cualquier estilista
+ * - STYLIST: solo puede consultar sus propias ausencias
+ */
+export class GetStylistAbsences {
+  constructor(
+    private stylistAbsenceRepository: IStylistAbsenceRepository,
+    private userRoleValidationService: UserRoleValidationService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para listar las ausencias de un estilista
+   * @param stylistId - ID del estilista (User.id)
+   * @param requesterId - ID del usuario que realiza la consulta
+   * @param requesterRole - Rol del usuario que realiza la consulta
+   * @param from - Fecha ISO desde la cual listar (opcional, por defecto todas)
+   * @returns Promise con las ausencias ordenadas por fecha de inicio
+   * @throws ValidationError si los datos no son válidos
+   * @throws ForbiddenError si el usuario no puede consultar las ausencias de ese estilista
+   * @throws NotFoundError si el estilista no existe
+   */
+  async execute(
+    stylistId: string,
+    requesterId: string,
+    requesterRole: string,
+    from?: string,
+  ): Promise<StylistAbsenceDto[]> {
+    assertValidUuid(stylistId, 'Stylist ID');
+
+    const fromDate = from ? new Date(from) : undefined;
+    if (fromDate && isNaN(fromDate.getTime())) {
+      throw new ValidationError('Invalid from date');
+    }
+
+    if (requesterRole !== 'ADMIN' && requesterId !== stylistId) {
+      throw new ForbiddenError('You can only manage your own absences');
+    }
+
+    await this.userRoleValidationService.ensureUserHasRole(stylistId, RoleName.STYLIST);
+
+    const absences = await this.stylistAbsenceRepository.findByStylistId(stylistId, fromDate);
+
+    return absences.map((absence) => this.mapToStylistAbsenceDto(absence));
+  }
+
+  /**
+   * Mapea una entidad StylistAbsence a su DTO de respuesta
+   * @param absence - Entidad de dominio
+   * @returns DTO de la ausencia
+   */
+  private mapToStylistAbsenceDto(absence: StylistAbsence): StylistAbsenceDto {
+    return {
+      id: absence.id,
+      stylistId: absence.stylistId,
+      type: absence.type,
+      startDateTime: absence.startDateTime.toISOString(),
+      endDateTime: absence.endDateTime.toISOString(),
+      reason: absence.reason,
+      createdAt: absence.createdAt.toISOString(),
+    };
+  }
+}
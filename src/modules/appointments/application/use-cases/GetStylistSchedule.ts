@@ -0,0 +1,59 @@
+import { RoleName } from '@prisma/client';
+import { StylistSchedule } from '../../domain/entities/StylistSchedule';
+import { IStylistScheduleRepository } from '../../domain/repositories/IStylistScheduleRepository';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { StylistScheduleDto } from '../dto/response/StylistScheduleDto';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para consultar los turnos semanales de un estilista
+ * Un estilista sin turnos propios hereda el horario del salón (hasCustomShifts = false)
+ */
+export class GetStylistSchedule {
+  constructor(
+    private stylistScheduleRepository: IStylistScheduleRepository,
+    private userRoleValidationService: UserRoleValidationService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para obtener los turnos de un estilista
+   * @param stylistId - ID del estilista (User.id)
+   * @returns Promise con los turnos semanales del estilista
+   * @throws ValidationError si el ID no es válido
+   * @throws NotFoundError si el estilista no existe
+   * @throws BusinessRuleError si el usuario no tiene rol STYLIST
+   */
+  async execute(stylistId: string): Promise<StylistScheduleDto> {
+    assertValidUuid(stylistId, 'Stylist ID');
+
+    await this.userRoleValidationService.ensureUserHasRole(stylistId, RoleName.STYLIST);
+
+    const shifts = await this.stylistScheduleRepository.findByStylistId(stylistId);
+
+    return this.mapToStylistScheduleDto(stylistId, shifts);
+  }
+
+  /**
+   * Mapea los turnos de un estilista a su DTO de respuesta
+   * @param stylistId - ID del estilista
+   * @param shifts - Turnos del estilista
+   * @returns DTO con los turnos semanales
+   */
+  private mapToStylistScheduleDto(
+    stylistId: string,
+    shifts: StylistSchedule[],
+  ): StylistScheduleDto {
+    return {
+      stylistId,
+      hasCustomShifts: shifts.length > 0,
+      shifts: shifts.map(shift => ({
+        id: shift.id,
+        dayOfWeek: shift.dayOfWeek,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        breakStartTime: shift.breakStartTime,
+        breakEndTime: shift.breakEndTime,
+      })),
+    };
+  }
+}
@@ -0,0 +1,61 @@
+import { WaitlistEntry } from '../../domain/entities/WaitlistEntry';
+import { IWaitlistEntryRepository } from '../../domain/repositories/IWaitlistEntryRepository';
+import { WaitlistEntryDto } from '../dto/response/WaitlistEntryDto';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para obtener las entradas de la lista de espera de un cliente
+ * - ADMIN / STYLIST: pueden ver las de cualquier cliente
+ * - CLIENT: solo las propias
+ */
+export class GetWaitlistEntriesByClient {
+  constructor(private waitlistEntryRepository: IWaitlistEntryRepository) {}
+
+  /**
+   * Ejecuta el caso de uso para obtener las entradas de un cliente
+   * @param clientId - ID del cliente (User.id)
+   * @param requesterId - ID del usuario que realiza la consulta
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con las entradas, las más recientes primero
+   * @throws ValidationError si el ID del cliente no es válido
+   * @throws ForbiddenError si un cliente consulta la lista de espera de otro
+   */
+  async execute(
+    clientId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<WaitlistEntryDto[]> {
+    assertValidUuid(clientId, 'Client ID');
+
+    if (requesterRole === 'CLIENT' && clientId !== requesterId) {
+      throw new ForbiddenError('You can only view your own waitlist entries');
+    }
+
+    const entries = await this.waitlistEntryRepository.findByClientId(clientId);
+
+    return entries.map((entry) => this.mapToWaitlistEntryDto(entry));
+  }
+
+  /**
+   * Mapea una entidad WaitlistEntry a su DTO de respuesta
+   * @param entry - Entidad de dominio
+   * @returns DTO de la entrada
+   */
+  private mapToWaitlistEntryDto(entry: WaitlistEntry): WaitlistEntryDto {
+    return {
+      id: entry.id,
+      clientId: entry.clientId,
+      userId: entry.userId,
+      serviceIds: entry.serviceIds,
+      fromDate: entry.fromDate.toISOString().split('T')[0],
+      toDate: entry.toDate.toISOString().split('T')[0],
+      status: entry.status,
+      stylistId: entry.stylistId,
+      holdId: entry.holdId,
+      lastNotifiedAt: entry.lastNotifiedAt?.toISOString(),
+      createdAt: entry.createdAt.toISOString(),
+      updatedAt: entry.updatedAt.toISOString(),
+    };
+  }
+}
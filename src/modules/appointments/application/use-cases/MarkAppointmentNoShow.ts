@@ -0,0 +1,116 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { AppointmentLifecycleService } from '../../domain/services/AppointmentLifecycleService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../domain/services/CancellationFeeService';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para marcar que el cliente no se presentó a una cita (CONFIRMED → NO_SHOW)
+ * Solo se puede marcar una vez pasada la hora reservada y si no se registró su llegada. Si la
+ * política de cancelación cobra los no show, genera el cargo como pago PENDING de la cita
+ */
+export class MarkAppointmentNoShow {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentLifecycleService: AppointmentLifecycleService,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private cancellationFeeService: CancellationFeeService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para marcar una cita como no show
+   * @param appointmentId - ID de la cita
+   * @param requesterId - ID del usuario que registra la ausencia
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la cita marcada como no show
+   * @throws ValidationError si algún ID no es válido
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el solicitante no es ADMIN ni el estilista asignado
+   * @throws BusinessRuleError si la transición no es válida, la cita todavía no empezó o el
+   * cliente ya hizo check-in
+   */
+  async execute(
+    appointmentId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(appointmentId, 'Appointment ID');
+    assertValidUuid(requesterId, 'Requester ID');
+
+    // 2. Obtener la cita validando permisos
+    const { appointment, currentStatus } =
+      await this.appointmentLifecycleService.getManageableAppointment(
+        appointmentId,
+        requesterId,
+        requesterRole,
+        'mark as no-show',
+      );
+
+    // 3. Validar la transición, que la cita ya haya empezado y que el cliente no haya llegado
+    const noShowStatus = await this.appointmentLifecycleService.resolveTransition(
+      currentStatus,
+      AppointmentStatusEnum.NO_SHOW,
+    );
+
+    if (!appointment.isInPast()) {
+      throw new BusinessRuleError(
+        'Cannot mark an appointment as no-show before its scheduled time',
+      );
+    }
+
+    if (appointment.isCheckedIn()) {
+      throw new BusinessRuleError('Cannot mark a checked-in appointment as no-show');
+    }
+
+    // 4. Marcar como no show y guardar
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.markAsNoShow(noShowStatus.id);
+    const updatedAppointment = await this.appointmentRepository.update(appointment);
+
+    // 5. Registrar el cambio en el historial de la cita
+    await this.appointmentHistoryService.recordChanges(before, updatedAppointment, {
+      id: requesterId,
+      role: requesterRole,
+    });
+
+    // 6. Generar el cargo por no show si la política lo indica
+    await this.cancellationFeeService.chargeNoShow(updatedAppointment);
+
+    // 7. Mapear a DTO de respuesta
+    return this.mapToAppointmentDto(updatedAppointment);
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   * @param appointment - Entidad de cita
+   * @returns DTO de cita para respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
@@ -0,0 +1,37 @@
+import { ISlotHoldRepository } from '../../domain/repositories/ISlotHoldRepository';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para liberar una reserva de checkout antes de que venza
+ * - CLIENT: solo sus propias reservas
+ * - ADMIN / STYLIST: cualquier reserva de la que tengan el token
+ */
+export class ReleaseSlotHold {
+  constructor(private slotHoldRepository: ISlotHoldRepository) {}
+
+  /**
+   * Ejecuta el caso de uso para liberar la reserva
+   * @param token - Token de la reserva
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @throws ValidationError si el token no es válido
+   * @throws NotFoundError si no existe una reserva con ese token
+   * @throws ForbiddenError si un cliente intenta liberar la reserva de otro
+   */
+  async execute(token: string, requesterId: string, requesterRole: string): Promise<void> {
+    assertValidUuid(token, 'Hold token');
+
+    const hold = await this.slotHoldRepository.findByToken(token);
+    if (!hold) {
+      throw new NotFoundError('SlotHold', token);
+    }
+
+    if (requesterRole === 'CLIENT' && hold.clientId !== requesterId) {
+      throw new ForbiddenError('You can only release your own slot holds');
+    }
+
+    await this.slotHoldRepository.delete(hold.id);
+  }
+}
@@ -0,0 +1,331 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { AppointmentDurationService } from '../../domain/services/AppointmentDurationService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../domain/services/CancellationFeeService';
+import { SlotHoldService } from '../../domain/services/SlotHoldService';
+import { BookingValidationService } from '../../domain/services/BookingValidationService';
+import { AppointmentRescheduledEvent } from '../../domain/events/AppointmentDomainEvents';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { RoleName } from '@prisma/client';
+import { RescheduleAppointmentDto } from '../dto/request/RescheduleAppointmentDto';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { EventBus } from '../../../../shared/events/EventBus';
+
+/**
+ * Caso de uso para reprogramar una cita
+ * @description A diferencia de `PUT /appointments/:id`, vuelve a aplicar sobre el nuevo horario
+ * todas las reglas de reserva de CreateAppointment (BookingValidationService): servicios activos
+ * y ofrecidos por el estilista, horario efectivo del día, turno del estilista, límite diario,
+ * conflictos y reservas temporales. Reprogramar libera el turno original igual que cancelarlo, por lo que exige el
+ * aviso mínimo de la política de cancelación. Una cita confirmada vuelve a PENDING para que se
+ * confirme el nuevo horario; el horario original queda en el historial (RESCHEDULED).
+ */
+export class RescheduleAppointment {
+  /** Estados desde los que se puede reprogramar una cita */
+  private static readonly RESCHEDULABLE_STATUSES: string[] = [
+    AppointmentStatusEnum.PENDING,
+    AppointmentStatusEnum.CONFIRMED,
+  ];
+
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private userRoleValidationService: UserRoleValidationService,
+    private appointmentDurationService: AppointmentDurationService,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private slotHoldService: SlotHoldService,
+    private bookingValidationService: BookingValidationService,
+    private cancellationFeeService: CancellationFeeService,
+    private eventBus: EventBus,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para reprogramar una cita
+   * @param appointmentId - ID de la cita a reprogramar
+   * @param rescheduleDto - Nuevo horario y, opcionalmente, nuevo estilista y motivo
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la cita reprogramada
+   * @throws ValidationError si los datos son inválidos o el horario no cambia
+   * @throws NotFoundError si la cita, el estilista, algún servicio o el horario regular del nuevo
+   * día no existe
+   * @throws ForbiddenError si el solicitante no participa de la cita
+   * @throws BusinessRuleError si la cita no está PENDING o CONFIRMED, se reprograma dentro del
+   * aviso mínimo o el nuevo horario no cumple las reglas de reserva
+   * @throws ConflictError si el nuevo horario está ocupado o reservado para otro cliente
+   */
+  async execute(
+    appointmentId: string,
+    rescheduleDto: RescheduleAppointmentDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentDto> {
+    // 1. Validar datos de entrada
+    const newDateTime = this.validateInput(appointmentId, rescheduleDto, requesterId);
+
+    // 2. Buscar la cita
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new NotFoundError('Appointment', appointmentId);
+    }
+
+    // 3. Validar permisos: ADMIN o participante de la cita
+    this.validatePermissions(appointment, requesterId, requesterRole);
+
+    // 4. Validar el estado y el aviso mínimo de la política
+    const currentStatusName = await this.validateStatus(appointment);
+    await this.validateNoticePolicy(appointment, requesterRole);
+
+    // 5. Resolver el estilista del nuevo horario y validar que el turno cambie
+    const stylistId = rescheduleDto.stylistId ?? appointment.stylistId;
+    if (
+      newDateTime.getTime() === appointment.dateTime.getTime() &&
+      stylistId === appointment.stylistId
+    ) {
+      throw new ValidationError('The appointment is already scheduled at this date and time');
+    }
+
+    // 6. Revalidar servicios y estilista
+    if (rescheduleDto.stylistId) {
+      await this.userRoleValidationService.ensureUserHasRole(
+        rescheduleDto.stylistId,
+        RoleName.STYLIST,
+      );
+    }
+    await this.bookingValidationService.validateServices(appointment.serviceIds, stylistId);
+
+    // 7. Revalidar el nuevo horario con las mismas reglas que al reservar
+    const buffer = await this.appointmentDurationService.calculateBuffer(
+      appointment.serviceIds,
+      stylistId,
+    );
+    await this.bookingValidationService.validateSchedule(
+      newDateTime,
+      appointment.duration,
+      stylistId,
+    );
+    await this.bookingValidationService.validateDailyLimit(
+      appointment.clientId,
+      newDateTime,
+      appointment.id,
+    );
+    await this.bookingValidationService.validateAvailability({
+      dateTime: newDateTime,
+      duration: appointment.duration,
+      stylistId,
+      clientId: appointment.clientId,
+      buffer,
+      excludeAppointmentId: appointment.id,
+    });
+
+    // 8. Obtener el horario regular del nuevo día, igual que CreateAppointment
+    const schedule = await this.bookingValidationService.resolveSchedule(newDateTime);
+
+    // 9. Aplicar la reprogramación; una cita confirmada vuelve a pendiente
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.reschedule(newDateTime);
+    if (schedule.id !== appointment.scheduleId) {
+      appointment.updateSchedule(schedule.id);
+    }
+    if (stylistId && stylistId !== appointment.stylistId) {
+      appointment.updateStylist(stylistId);
+    }
+    appointment.updateBuffer(buffer);
+    if (currentStatusName === AppointmentStatusEnum.CONFIRMED) {
+      appointment.resetConfirmation((await this.getPendingStatus()).id);
+    }
+
+    // 10. Guardar verificando los conflictos de forma atómica
+    const updatedAppointment = await this.appointmentRepository.updateIfNoConflicts(appointment);
+    if (!updatedAppointment) {
+      throw new ConflictError('There are conflicting appointments at this time');
+    }
+
+    // 11. Registrar el horario original, el cambio de estilista y el de estado en el historial
+    const actor = { id: requesterId, role: requesterRole };
+    await this.appointmentHistoryService.recordChanges(
+      before,
+      updatedAppointment,
+      actor,
+      rescheduleDto.reason,
+    );
+
+    // 12. Usar las reservas temporales del nuevo turno que estaban a nombre del cliente
+    await this.slotHoldService.claimHolds(updatedAppointment);
+
+    // 13. Publicar la reprogramación (notifica al cliente y a los estilistas involucrados)
+    await this.eventBus.publish(
+      new AppointmentRescheduledEvent(
+        updatedAppointment,
+        actor,
+        before.dateTime,
+        before.stylistId,
+        rescheduleDto.reason,
+      ),
+    );
+
+    // 14. Mapear a DTO de respuesta
+    return this.mapToAppointmentDto(updatedAppointment);
+  }
+
+  /**
+   * Valida los datos de entrada de la reprogramación
+   * @param appointmentId - ID de la cita
+   * @param rescheduleDto - Datos de la reprogramación
+   * @param requesterId - ID del usuario solicitante
+   * @returns Nuevo horario de la cita
+   * @throws ValidationError si algún dato es inválido
+   */
+  private validateInput(
+    appointmentId: string,
+    rescheduleDto: RescheduleAppointmentDto,
+    requesterId: string,
+  ): Date {
+    assertValidUuid(appointmentId, 'Appointment ID');
+    assertValidUuid(requesterId, 'Requester ID');
+
+    if (rescheduleDto.stylistId) {
+      assertValidUuid(rescheduleDto.stylistId, 'Stylist ID');
+    }
+
+    if (rescheduleDto.reason !== undefined) {
+      if (rescheduleDto.reason.trim().length === 0) {
+        throw new ValidationError('Reason cannot be empty if provided');
+      }
+
+      if (rescheduleDto.reason.length > 300) {
+        throw new ValidationError('Reason cannot exceed 300 characters');
+      }
+    }
+
+    const dateTime = new Date(rescheduleDto.dateTime);
+    if (!rescheduleDto.dateTime || isNaN(dateTime.getTime())) {
+      throw new ValidationError('DateTime must be a valid ISO 8601 date');
+    }
+
+    if (dateTime <= new Date()) {
+      throw new ValidationError('Appointment cannot be rescheduled to the past');
+    }
+
+    const sixMonthsFromNow = new Date();
+    sixMonthsFromNow.setMonth(sixMonthsFromNow.getMonth() + 6);
+    if (dateTime > sixMonthsFromNow) {
+      throw new ValidationError('Appointment cannot be scheduled more than 6 months in advance');
+    }
+
+    return dateTime;
+  }
+
+  /**
+   * Valida que el solicitante pueda reprogramar la cita
+   * Aplica ownership unificado (userId || clientId || stylistId) con ADMIN override
+   * @throws ForbiddenError si el solicitante no participa de la cita
+   */
+  private validatePermissions(
+    appointment: Appointment,
+    requesterId: string,
+    requesterRole: string,
+  ): void {
+    if (requesterRole === 'ADMIN') return;
+
+    const canReschedule =
+      appointment.userId === requesterId ||
+      appointment.clientId === requesterId ||
+      appointment.stylistId === requesterId;
+
+    if (!canReschedule) {
+      throw new ForbiddenError('You do not have permission to reschedule this appointment');
+    }
+  }
+
+  /**
+   * Valida que la cita esté en un estado que se puede reprogramar
+   * @param appointment - Cita a reprogramar
+   * @returns Promise con el nombre del estado actual
+   * @throws BusinessRuleError si la cita no está PENDING o CONFIRMED
+   */
+  private async validateStatus(appointment: Appointment): Promise<string> {
+    const currentStatus = await this.appointmentStatusRepository.findById(appointment.statusId);
+
+    if (
+      !currentStatus ||
+      !RescheduleAppointment.RESCHEDULABLE_STATUSES.includes(currentStatus.name)
+    ) {
+      throw new BusinessRuleError('Only pending or confirmed appointments can be rescheduled');
+    }
+
+    return currentStatus.name;
+  }
+
+  /**
+   * Valida el aviso mínimo de la política de cancelación sobre el horario original
+   * @param appointment - Cita a reprogramar
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @throws BusinessRuleError si el horario original empieza dentro del aviso mínimo
+   */
+  private async validateNoticePolicy(
+    appointment: Appointment,
+    requesterRole: string,
+  ): Promise<void> {
+    const policy = await this.cancellationFeeService.getPolicy();
+    if (!policy.isLateCancellation(appointment, requesterRole)) return;
+
+    const noticeHours = policy.getNoticeHours(requesterRole, appointment.serviceIds);
+    throw new BusinessRuleError(
+      `Appointments can only be rescheduled at least ${noticeHours} hours in advance. ` +
+        'For last-minute changes, please contact customer service.',
+    );
+  }
+
+  /**
+   * Obtiene el estado "PENDING" al que vuelve una cita confirmada
+   * @throws NotFoundError si no existe el estado
+   */
+  private async getPendingStatus() {
+    const pendingStatus = await this.appointmentStatusRepository.findByName(
+      AppointmentStatusEnum.PENDING,
+    );
+
+    if (!pendingStatus) {
+      throw new NotFoundError('AppointmentStatus', AppointmentStatusEnum.PENDING);
+    }
+
+    return pendingStatus;
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
@@ -0,0 +1,103 @@
+import { RoleName } from '@prisma/client';
+import { StylistSchedule } from '../../domain/entities/StylistSchedule';
+import { IStylistScheduleRepository } from '../../domain/repositories/IStylistScheduleRepository';
+import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
+import { SetStylistScheduleDto } from '../dto/request/SetStylistScheduleDto';
+import { StylistScheduleDto } from '../dto/response/StylistScheduleDto';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para reemplazar la semana completa de turnos de un estilista
+ * - ADMIN: puede configurar los turnos de cualquier estilista
+ * - STYLIST: solo puede configurar sus propios turnos
+ * Los turnos del mismo día no pueden solaparse; varios turnos en un día modelan un turno partido
+ */
+export class SetStylistSchedule {
+  constructor(
+    private stylistScheduleRepository: IStylistScheduleRepository,
+    private userRoleValidationService: UserRoleValidationService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para reemplazar los turnos de un estilista
+   * @param stylistId - ID del estilista (User.id)
+   * @param dto - Nueva semana de turnos (lista vacía = heredar horario del salón)
+   * @param requesterId - ID del usuario que realiza la operación
+   * @param requesterRole - Rol del usuario que realiza la operación
+   * @returns Promise con los turnos guardados
+   * @throws ValidationError si los turnos no son válidos o se solapan
+   * @throws ForbiddenError si el usuario no puede modificar los turnos de ese estilista
+   * @throws NotFoundError si el estilista no existe
+   */
+  async execute(
+    stylistId: string,
+    dto: SetStylistScheduleDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<StylistScheduleDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(stylistId, 'Stylist ID');
+    if (!dto.shifts || !Array.isArray(dto.shifts)) {
+      throw new ValidationError('Shifts must be an array');
+    }
+
+    // 2. Validar permisos: ADMIN o el propio estilista
+    if (requesterRole !== 'ADMIN' && requesterId !== stylistId) {
+      throw new ForbiddenError('You can only manage your own working hours');
+    }
+
+    // 3. Validar que el usuario exista y sea estilista
+    await this.userRoleValidationService.ensureUserHasRole(stylistId, RoleName.STYLIST);
+
+    // 4. Construir entidades (valida formato de horas y descansos)
+    const shifts = dto.shifts.map(shift =>
+      StylistSchedule.create(
+        stylistId,
+        shift.dayOfWeek,
+        shift.startTime,
+        shift.endTime,
+        shift.breakStartTime,
+        shift.breakEndTime,
+      ),
+    );
+
+    // 5. Validar que no haya turnos solapados en el mismo día
+    this.validateNoOverlappingShifts(shifts);
+
+    // 6. Reemplazar la semana completa
+    const savedShifts = await this.stylistScheduleRepository.replaceForStylist(stylistId, shifts);
+
+    return {
+      stylistId,
+      hasCustomShifts: savedShifts.length > 0,
+      shifts: savedShifts.map(shift => ({
+        id: shift.id,
+        dayOfWeek: shift.dayOfWeek,
+        startTime: shift.startTime,
+        endTime: shift.endTime,
+        breakStartTime: shift.breakStartTime,
+        breakEndTime: shift.breakEndTime,
+      })),
+    };
+  }
+
+  /**
+   * Valida que ningún par de turnos del mismo día se solape
+   * @param shifts - Turnos a validar
+   * @throws ValidationError si hay turnos solapados
+   */
+  private validateNoOverlappingShifts(shifts: StylistSchedule[]): void {
+    for (let i = 0; i < shifts.length; i++) {
+      for (let j = i + 1; j < shifts.length; j++) {
+        if (shifts[i].overlapsWith(shifts[j])) {
+          throw new ValidationError(
+            `Overlapping shifts on ${shifts[i].dayOfWeek}: ` +
+              `${shifts[i].startTime}-${shifts[i].endTime} and ${shifts[j].startTime}-${shifts[j].endTime}`,
+          );
+        }
+      }
+    }
+  }
+}
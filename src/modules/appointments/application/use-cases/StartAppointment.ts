@@ -0,0 +1,103 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { AppointmentLifecycleService } from '../../domain/services/AppointmentLifecycleService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { AppointmentDto } from '../dto/response/AppointmentDto';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para iniciar la atención de una cita (CONFIRMED → IN_PROGRESS)
+ * Registra en `startedAt` la hora real de inicio, que puede diferir de la hora reservada
+ */
+export class StartAppointment {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentLifecycleService: AppointmentLifecycleService,
+    private appointmentHistoryService: AppointmentHistoryService,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para iniciar una cita
+   * @param appointmentId - ID de la cita
+   * @param requesterId - ID del usuario que inicia la atención
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el DTO de la cita en progreso
+   * @throws ValidationError si algún ID no es válido
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el solicitante no es ADMIN ni el estilista asignado
+   * @throws BusinessRuleError si la transición no es válida o la cita no es hoy
+   */
+  async execute(
+    appointmentId: string,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<AppointmentDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(appointmentId, 'Appointment ID');
+    assertValidUuid(requesterId, 'Requester ID');
+
+    // 2. Obtener la cita validando permisos
+    const { appointment, currentStatus } =
+      await this.appointmentLifecycleService.getManageableAppointment(
+        appointmentId,
+        requesterId,
+        requesterRole,
+        'start',
+      );
+
+    // 3. Validar la transición y que la cita sea hoy
+    const inProgressStatus = await this.appointmentLifecycleService.resolveTransition(
+      currentStatus,
+      AppointmentStatusEnum.IN_PROGRESS,
+    );
+
+    if (!this.appointmentLifecycleService.isScheduledForToday(appointment)) {
+      throw new BusinessRuleError('Appointments can only be started on the day of the appointment');
+    }
+
+    // 4. Iniciar la atención y guardar
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.markAsInProgress(inProgressStatus.id);
+    const updatedAppointment = await this.appointmentRepository.update(appointment);
+
+    // 5. Registrar el cambio en el historial de la cita
+    await this.appointmentHistoryService.recordChanges(before, updatedAppointment, {
+      id: requesterId,
+      role: requesterRole,
+    });
+
+    // 6. Mapear a DTO de respuesta
+    return this.mapToAppointmentDto(updatedAppointment);
+  }
+
+  /**
+   * Mapea una entidad Appointment a su DTO de respuesta
+   * @param appointment - Entidad de cita
+   * @returns DTO de cita para respuesta
+   */
+  private mapToAppointmentDto(appointment: Appointment): AppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      confirmedAt: appointment.confirmedAt?.toISOString(),
+      cancellationReason: appointment.cancellationReason,
+      cancelledBy: appointment.cancelledBy,
+      confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
+      createdAt: appointment.createdAt.toISOString(),
+      updatedAt: appointment.updatedAt.toISOString(),
+      userId: appointment.userId,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+      scheduleId: appointment.scheduleId,
+      statusId: appointment.statusId,
+      serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
+    };
+  }
+}
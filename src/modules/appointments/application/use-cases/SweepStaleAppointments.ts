@@ -0,0 +1,187 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatus, AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { SYSTEM_ACTOR } from '../../domain/entities/AppointmentEvent';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../domain/services/CancellationFeeService';
+import {
+  AppointmentSweepFailureDto,
+  AppointmentSweepSummaryDto,
+  AppointmentSweepTrigger,
+} from '../dto/response/AppointmentSweepSummaryDto';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { logger } from '../../../../shared/logger/logger';
+
+/**
+ * Caso de uso que barre las citas que quedaron vencidas sin que nadie las cerrara
+ * - PENDING cuya hora ya pasó: se cancelan con `cancelledBy: 'system'`
+ * - CONFIRMED sin check-in pasado el margen de espera desde su inicio: se marcan NO_SHOW (con el
+ *   cargo por no show si la política de cancelación lo indica). El cargo se genera antes de
+ *   guardar el estado: si falla, la cita sigue CONFIRMED y se reintenta completa
+ *
+ * Una cita que falla no detiene el barrido: se informa en el resumen y se reintenta en la
+ * próxima ejecución.
+ */
+export class SweepStaleAppointments {
+  /** Días hacia atrás que se revisan en busca de no shows */
+  private static readonly NO_SHOW_LOOKBACK_DAYS = 7;
+
+  /** Razón registrada en las citas PENDING canceladas por el barrido */
+  static readonly EXPIRED_PENDING_REASON = 'Not confirmed before the appointment time';
+
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private cancellationFeeService: CancellationFeeService,
+    private noShowGraceMinutes: number,
+  ) {}
+
+  /**
+   * Ejecuta el barrido de citas vencidas
+   * @param trigger - Origen de la ejecución (periódica o manual)
+   * @returns Promise con el resumen de la ejecución
+   * @throws NotFoundError si faltan los estados CANCELLED, CONFIRMED o NO_SHOW
+   */
+  async execute(trigger: AppointmentSweepTrigger): Promise<AppointmentSweepSummaryDto> {
+    const startedAt = new Date();
+
+    // 1. Obtener los estados involucrados
+    const [cancelledStatus, confirmedStatus, noShowStatus] = await Promise.all([
+      this.getStatus(AppointmentStatusEnum.CANCELLED),
+      this.getStatus(AppointmentStatusEnum.CONFIRMED),
+      this.getStatus(AppointmentStatusEnum.NO_SHOW),
+    ]);
+
+    const failures: AppointmentSweepFailureDto[] = [];
+
+    // 2. Cancelar las citas PENDING cuya hora ya pasó
+    const expiredPending = (await this.appointmentRepository.findPendingConfirmation()).filter(
+      (appointment) => appointment.isInPast(),
+    );
+    const expiredPendingCount = await this.applyToEach(
+      expiredPending,
+      failures,
+      (appointment) =>
+        appointment.markAsCancelled(
+          cancelledStatus.id,
+          SweepStaleAppointments.EXPIRED_PENDING_REASON,
+          'system',
+        ),
+      SweepStaleAppointments.EXPIRED_PENDING_REASON,
+    );
+
+    // 3. Marcar como NO_SHOW las CONFIRMED sin check-in pasado el margen de espera
+    const noShowCandidates = await this.findNoShowCandidates(startedAt, confirmedStatus);
+    const noShowCount = await this.applyToEach(
+      noShowCandidates,
+      failures,
+      (appointment) => appointment.markAsNoShow(noShowStatus.id),
+      undefined,
+      // Idempotente: si el guardado falla tras cobrar, el reintento no duplica el cargo
+      (appointment) => this.cancellationFeeService.chargeNoShow(appointment),
+    );
+
+    const summary: AppointmentSweepSummaryDto = {
+      trigger,
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      expiredPendingCount,
+      noShowCount,
+      failedCount: failures.length,
+      failures,
+    };
+
+    logger.info('Appointment sweep completed', {
+      trigger,
+      expiredPendingCount,
+      noShowCount,
+      failedCount: failures.length,
+    });
+
+    return summary;
+  }
+
+  /**
+   * Busca las citas confirmadas sin check-in cuyo margen de espera ya venció
+   * @param now - Instante de referencia del barrido
+   * @param confirmedStatus - Estado CONFIRMED
+   * @returns Promise con las citas a marcar como no show
+   */
+  private async findNoShowCandidates(
+    now: Date,
+    confirmedStatus: AppointmentStatus,
+  ): Promise<Appointment[]> {
+    const cutoff = new Date(now.getTime() - this.noShowGraceMinutes * 60000);
+    const lookbackStart = new Date(
+      cutoff.getTime() - SweepStaleAppointments.NO_SHOW_LOOKBACK_DAYS * 24 * 60 * 60000,
+    );
+
+    const appointments = await this.appointmentRepository.findByDateRange(lookbackStart, cutoff);
+
+    return appointments.filter(
+      (appointment) => appointment.statusId === confirmedStatus.id && !appointment.isCheckedIn(),
+    );
+  }
+
+  /**
+   * Aplica un cambio a cada cita, la guarda y lo registra en su historial como acción del
+   * sistema, acumulando las que fallan
+   * @param appointments - Citas a actualizar
+   * @param failures - Acumulador de fallos del barrido
+   * @param change - Cambio a aplicar sobre la entidad
+   * @param reason - Motivo que queda en el historial (opcional)
+   * @param beforeUpdate - Acción previa al cambio, p. ej. generar un cargo (opcional); si falla,
+   * la cita no se modifica y queda para la próxima ejecución
+   * @returns Promise con la cantidad de citas actualizadas
+   */
+  private async applyToEach(
+    appointments: Appointment[],
+    failures: AppointmentSweepFailureDto[],
+    change: (appointment: Appointment) => void,
+    reason?: string,
+    beforeUpdate?: (appointment: Appointment) => Promise<unknown>,
+  ): Promise<number> {
+    let updatedCount = 0;
+
+    for (const appointment of appointments) {
+      try {
+        await beforeUpdate?.(appointment);
+        const before = AppointmentHistoryService.snapshot(appointment);
+        change(appointment);
+        await this.appointmentRepository.update(appointment);
+        await this.appointmentHistoryService.recordChanges(
+          before,
+          appointment,
+          SYSTEM_ACTOR,
+          reason,
+        );
+        updatedCount++;
+      } catch (error) {
+        const reason = (error as Error).message;
+        failures.push({ appointmentId: appointment.id, reason });
+        logger.warn('Appointment sweep could not update appointment', {
+          appointmentId: appointment.id,
+          reason,
+        });
+      }
+    }
+
+    return updatedCount;
+  }
+
+  /**
+   * Obtiene un estado de cita por nombre
+   * @param name - Nombre del estado
+   * @returns Promise con el estado
+   * @throws NotFoundError si el estado no existe
+   */
+  private async getStatus(name: AppointmentStatusEnum): Promise<AppointmentStatus> {
+    const status = await this.appointmentStatusRepository.findByName(name);
+    if (!status) {
+      throw new NotFoundError('AppointmentStatus', name);
+    }
+    return status;
+  }
+}
@@ -1,8 +1,6 @@
 import { Appointment } from '../../domain/entities/Appointment';
 import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
-import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
-import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
 import { UserRoleValidationService } from '../../../auth/domain/services/UserRoleValidationService';
 import { RoleName } from '@prisma/client';
 import { AppointmentDto } from '../dto/response/AppointmentDto';
@@ -14,26 +12,25 @@ import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
 import { ConflictError } from '../../../../shared/exceptions/ConflictError';
 import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
 import { assertValidUuid } from '../../../../shared/utils/validateUuid';
-import {
-  ScheduleAvailabilityService,
-  EffectiveSchedule,
-} from '../../domain/services/ScheduleAvailabilityService';
+import { AppointmentDurationService } from '../../domain/services/AppointmentDurationService';
+import { AppointmentHistoryService } from '../../domain/services/AppointmentHistoryService';
+import { BookingValidationService } from '../../domain/services/BookingValidationService';
+import { AppointmentRescheduledEvent } from '../../domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../../shared/events/EventBus';
 
 /**
  * Caso de uso para actualizar una cita existente
  * Maneja la actualización con validaciones de reglas de negocio y detección de conflictos
  */
 export class UpdateAppointment {
-  /** Máximo de citas activas por cliente por día (alineado con CreateAppointment) */
-  private static readonly MAX_DAILY_APPOINTMENTS = 3;
-
   constructor(
     private appointmentRepository: IAppointmentRepository,
     private appointmentStatusRepository: IAppointmentStatusRepository,
-    private serviceRepository: IServiceRepository,
     private userRoleValidationService: UserRoleValidationService,
-    private scheduleAvailabilityService: ScheduleAvailabilityService,
-    private stylistServiceRepository: IStylistServiceRepository,
+    private bookingValidationService: BookingValidationService,
+    private appointmentDurationService: AppointmentDurationService,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private eventBus: EventBus,
   ) {}
 
   /**
@@ -66,6 +63,7 @@ export class UpdateAppointment {
     await this.validateUpdateRules(appointment, updateDto);
 
     // 5. Aplicar cambios paso a paso con validaciones
+    const before = AppointmentHistoryService.snapshot(appointment);
     if (updateDto.dateTime) {
       await this.updateDateTime(appointment, updateDto.dateTime);
     }
@@ -82,23 +80,94 @@ export class UpdateAppointment {
       await this.updateServices(appointment, updateDto.serviceIds);
     }
 
-    // 6. Si cambió la fecha/hora o la duración, revalidar horario efectivo (día cerrado / fuera de horario laboral)
-    if (updateDto.dateTime || updateDto.duration !== undefined) {
-      await this.validateEffectiveSchedule(appointment);
+    // 5b. Si cambió el estilista, revalidar que ofrezca los servicios de la cita; en ambos casos
+    // recalcular los buffers de la cita
+    if (updateDto.stylistId !== undefined || updateDto.serviceIds !== undefined) {
+      if (updateDto.stylistId !== undefined && updateDto.serviceIds === undefined) {
+        await this.bookingValidationService.validateServices(
+          appointment.serviceIds,
+          appointment.stylistId,
+        );
+      }
+      appointment.updateBuffer(
+        await this.appointmentDurationService.calculateBuffer(
+          appointment.serviceIds,
+          appointment.stylistId,
+        ),
+      );
     }
 
-    // 6b. Si cambió la fecha, revalidar el límite diario de citas activas del cliente sobre la nueva fecha
+    // 6. Si cambió la fecha/hora, la duración o el estilista, revalidar horario efectivo y turno del
+    // estilista (día cerrado / fuera de horario laboral / fuera de turno), igual que al reservar
+    if (
+      updateDto.dateTime ||
+      updateDto.duration !== undefined ||
+      updateDto.stylistId !== undefined
+    ) {
+      await this.bookingValidationService.validateSchedule(
+        appointment.dateTime,
+        appointment.duration,
+        appointment.stylistId,
+      );
+    }
+
+    // 6b. Si cambió la fecha, revalidar el límite diario de citas activas del cliente sobre la
+    // nueva fecha y asociar la cita al horario regular de su nuevo día
     if (updateDto.dateTime) {
-      await this.validateDailyAppointmentLimit(appointment, appointmentId);
+      await this.bookingValidationService.validateDailyLimit(
+        appointment.clientId,
+        appointment.dateTime,
+        appointmentId,
+      );
+      const schedule = await this.bookingValidationService.resolveSchedule(appointment.dateTime);
+      if (schedule.id !== appointment.scheduleId) {
+        appointment.updateSchedule(schedule.id);
+      }
     }
 
-    // 7. Validar conflictos después de todos los cambios
-    await this.validateNoConflicts(appointment, appointmentId);
+    // 7. Validar conflictos y reservas temporales de otros clientes después de todos los cambios
+    await this.bookingValidationService.validateAvailability({
+      dateTime: appointment.dateTime,
+      duration: appointment.duration,
+      stylistId: appointment.stylistId,
+      clientId: appointment.clientId,
+      buffer: { before: appointment.bufferBefore, after: appointment.bufferAfter },
+      excludeAppointmentId: appointmentId,
+    });
+
+    // 8. Guardar verificando de nuevo los conflictos y las reservas temporales de otros clientes de
+    // forma atómica: otra reserva simultánea pudo ocupar el turno después de la validación del paso 7
+    const updatedAppointment = await this.appointmentRepository.updateIfNoConflicts(appointment);
+    if (!updatedAppointment) {
+      throw new ConflictError('There are conflicting appointments at this time');
+    }
+
+    // 9. Registrar en el historial la reprogramación y los cambios de estilista o servicios
+    const actor = { id: requesterId, role: requesterRole };
+    await this.appointmentHistoryService.recordChanges(
+      before,
+      updatedAppointment,
+      actor,
+      updateDto.reason,
+    );
 
-    // 8. Guardar los cambios
-    const updatedAppointment = await this.appointmentRepository.update(appointment);
+    // 10. Si cambió el turno (fecha/hora o estilista), publicar la reprogramación
+    if (
+      before.dateTime.getTime() !== updatedAppointment.dateTime.getTime() ||
+      before.stylistId !== updatedAppointment.stylistId
+    ) {
+      await this.eventBus.publish(
+        new AppointmentRescheduledEvent(
+          updatedAppointment,
+          actor,
+          before.dateTime,
+          before.stylistId,
+          updateDto.reason,
+        ),
+      );
+    }
 
-    // 9. Mapear a DTO de respuesta
+    // 11. Mapear a DTO de respuesta
     return this.mapToAppointmentDto(updatedAppointment);
   }
 
@@ -317,32 +386,9 @@ export class UpdateAppointment {
    * siga ofreciendo activamente (misma validación que CreateAppointment — APT-29)
    */
   private async updateServices(appointment: Appointment, newServiceIds: string[]): Promise<void> {
-    // Verificar que todos los servicios existen y están activos
-    for (const serviceId of newServiceIds) {
-      const service = await this.serviceRepository.findById(serviceId);
-      if (!service) {
-        throw new NotFoundError('Service', serviceId);
-      }
-      if (!service.isActive) {
-        throw new BusinessRuleError(`Service '${service.name}' is not currently active`);
-      }
-    }
-
-    // Verificar que el estilista (final, ya aplicado el posible cambio) ofrezca los servicios seleccionados
-    if (appointment.stylistId) {
-      for (const serviceId of newServiceIds) {
-        const assignment = await this.stylistServiceRepository.findByStylistAndService(
-          appointment.stylistId,
-          serviceId,
-        );
-        if (!assignment) {
-          throw new BusinessRuleError('Stylist does not offer one of the selected services');
-        }
-        if (!assignment.isOffering) {
-          throw new BusinessRuleError('Stylist is not currently offering one of the selected services');
-        }
-      }
-    }
+    // Verificar que los servicios estén activos y que el estilista (final, ya aplicado el posible
+    // cambio) los ofrezca
+    await this.bookingValidationService.validateServices(newServiceIds, appointment.stylistId);
 
     // Limpiar servicios actuales y agregar nuevos
     appointment.serviceIds = [];
@@ -351,114 +397,6 @@ export class UpdateAppointment {
     }
   }
 
-  /**
-   * Revalida que la cita (con la fecha/duración ya aplicadas) siga dentro del
-   * horario efectivo del día (prioridad Exception > Holiday > Regular),
-   * reusando ScheduleAvailabilityService.getEffectiveSchedule (APT-39)
-   */
-  private async validateEffectiveSchedule(appointment: Appointment): Promise<void> {
-    const effectiveSchedule = await this.scheduleAvailabilityService.getEffectiveSchedule(
-      appointment.dateTime,
-    );
-
-    if (!effectiveSchedule) {
-      throw new BusinessRuleError(
-        'The salon is closed on the selected date (holiday or no schedule available)',
-      );
-    }
-
-    this.validateWorkingHours(appointment.dateTime, appointment.duration, effectiveSchedule);
-  }
-
-  /**
-   * Valida que la cita completa (inicio + duración) esté dentro del horario laboral del día
-   * Equivalente a CreateAppointment.validateWorkingHours
-   */
-  private validateWorkingHours(
-    dateTime: Date,
-    duration: number,
-    schedule: EffectiveSchedule,
-  ): void {
-    const appointmentHours = dateTime.getUTCHours();
-    const appointmentMinutes = dateTime.getUTCMinutes();
-
-    const [startH, startM] = schedule.startTime.split(':').map(Number);
-    const [endH, endM] = schedule.endTime.split(':').map(Number);
-
-    const appointmentStartInMinutes = appointmentHours * 60 + appointmentMinutes;
-    const appointmentEndInMinutes = appointmentStartInMinutes + duration;
-    const scheduleStartInMinutes = startH * 60 + startM;
-    const scheduleEndInMinutes = endH * 60 + endM;
-
-    if (appointmentStartInMinutes < scheduleStartInMinutes) {
-      throw new BusinessRuleError(
-        `Appointment starts before working hours (${schedule.startTime})`,
-      );
-    }
-
-    if (appointmentEndInMinutes > scheduleEndInMinutes) {
-      throw new BusinessRuleError(
-        `Appointment ends after working hours (${schedule.endTime})`,
-      );
-    }
-  }
-
-  /**
-   * Revalida que el cliente no exceda el límite diario de citas activas en la
-   * nueva fecha, excluyendo la propia cita que se está reprogramando (APT-39)
-   */
-  private async validateDailyAppointmentLimit(
-    appointment: Appointment,
-    appointmentId: string,
-  ): Promise<void> {
-    const appointmentDate = appointment.dateTime;
-
-    const startOfDay = new Date(appointmentDate);
-    startOfDay.setHours(0, 0, 0, 0);
-
-    const endOfDay = new Date(appointmentDate);
-    endOfDay.setHours(23, 59, 59, 999);
-
-    const existingAppointments = await this.appointmentRepository.findByClientAndDateRange(
-      appointment.clientId,
-      startOfDay,
-      endOfDay,
-    );
-
-    const cancelledStatus = await this.appointmentStatusRepository.findByName('CANCELLED');
-
-    const activeAppointments = existingAppointments.filter((a) => {
-      if (a.id === appointmentId) return false; // excluir la propia cita
-      if (cancelledStatus && a.statusId === cancelledStatus.id) return false;
-      return true;
-    });
-
-    if (activeAppointments.length >= UpdateAppointment.MAX_DAILY_APPOINTMENTS) {
-      throw new BusinessRuleError(
-        `Maximum of ${UpdateAppointment.MAX_DAILY_APPOINTMENTS} appointments per day has been reached`,
-      );
-    }
-  }
-
-  /**
-   * Valida que no haya conflictos después de los cambios
-   */
-  private async validateNoConflicts(appointment: Appointment, appointmentId: string): Promise<void> {
-    const conflictingAppointments = await this.appointmentRepository.findConflictingAppointments(
-      appointment.dateTime,
-      appointment.duration,
-      appointment.stylistId,
-      appointmentId // Excluir la cita actual
-    );
-
-    if (conflictingAppointments.length > 0) {
-      throw new ConflictError(
-        `The updated appointment conflicts with ${conflictingAppointments.length} existing appointment(s). ` +
-        'Please choose a different time or stylist.'
-      );
-    }
-  }
-
   /**
    * Mapea una entidad Appointment a su DTO de respuesta
    */
@@ -471,6 +409,9 @@ export class UpdateAppointment {
       cancellationReason: appointment.cancellationReason,
       cancelledBy: appointment.cancelledBy,
       confirmationNotes: appointment.confirmationNotes,
+      checkedInAt: appointment.checkedInAt?.toISOString(),
+      startedAt: appointment.startedAt?.toISOString(),
+      completedAt: appointment.completedAt?.toISOString(),
       createdAt: appointment.createdAt.toISOString(),
       updatedAt: appointment.updatedAt.toISOString(),
       userId: appointment.userId,
@@ -479,6 +420,7 @@ export class UpdateAppointment {
       scheduleId: appointment.scheduleId,
       statusId: appointment.statusId,
       serviceIds: appointment.serviceIds,
+      seriesId: appointment.seriesId,
     };
   }
 }
@@ -0,0 +1,149 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { SeriesScopeEnum } from '../../domain/entities/AppointmentSeries';
+import { AppointmentSeriesScopeService } from '../../domain/services/AppointmentSeriesScopeService';
+import { UpdateAppointment } from './UpdateAppointment';
+import { UpdateAppointmentDto } from '../dto/request/UpdateAppointmentDto';
+import { UpdateAppointmentSeriesDto } from '../dto/request/UpdateAppointmentSeriesDto';
+import { SeriesScopeResponseDto, SeriesScopeResultDto } from '../dto/response/AppointmentSeriesDto';
+import { AppError } from '../../../../shared/exceptions/AppError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import {
+  salonDateTimeToUtc,
+  toSalonDate,
+  toSalonTimeString,
+} from '../../../../shared/utils/salonTime';
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Caso de uso para editar una cita de una serie: solo esa, esa y las siguientes, o todas
+ * Cada cita se actualiza con UpdateAppointment (mismas validaciones y permisos). Con scope THIS
+ * los errores se propagan; con varias citas se reportan por cita y no detienen a las demás.
+ */
+export class UpdateAppointmentSeries {
+  constructor(
+    private appointmentSeriesScopeService: AppointmentSeriesScopeService,
+    private updateAppointment: UpdateAppointment,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para editar citas de una serie
+   * @param seriesId - ID de la serie
+   * @param appointmentId - ID de la cita de la serie sobre la que se edita
+   * @param updateDto - Cambios a aplicar y alcance (por defecto THIS)
+   * @param requesterId - ID del usuario que realiza la edición
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @returns Promise con el resultado de cada cita alcanzada
+   * @throws NotFoundError si la serie no existe o la cita no pertenece a ella
+   */
+  async execute(
+    seriesId: string,
+    appointmentId: string,
+    updateDto: UpdateAppointmentSeriesDto,
+    requesterId: string,
+    requesterRole: string,
+  ): Promise<SeriesScopeResponseDto> {
+    assertValidUuid(seriesId, 'Series ID');
+    assertValidUuid(appointmentId, 'Appointment ID');
+
+    const { scope = SeriesScopeEnum.THIS, ...changes } = updateDto;
+    const { pivot, appointments } = await this.appointmentSeriesScopeService.resolveTargets(
+      seriesId,
+      appointmentId,
+      scope,
+    );
+
+    // Una sola cita: mismo comportamiento (y errores) que PUT /appointments/:id
+    if (scope === SeriesScopeEnum.THIS) {
+      const appointment = await this.updateAppointment.execute(
+        pivot.id,
+        changes,
+        requesterId,
+        requesterRole,
+      );
+      return {
+        seriesId,
+        scope,
+        results: [
+          {
+            appointmentId: pivot.id,
+            dateTime: appointment.dateTime,
+            status: 'UPDATED',
+            appointment,
+          },
+        ],
+      };
+    }
+
+    const resultsById = new Map<string, SeriesScopeResultDto>();
+    for (const target of this.orderForUpdate(appointments, pivot, changes)) {
+      const result = { appointmentId: target.id, dateTime: target.dateTime.toISOString() };
+      try {
+        const appointment = await this.updateAppointment.execute(
+          target.id,
+          this.shiftChanges(changes, pivot, target),
+          requesterId,
+          requesterRole,
+        );
+        resultsById.set(target.id, { ...result, status: 'UPDATED', appointment });
+      } catch (error) {
+        if (!(error instanceof AppError)) throw error;
+        resultsById.set(target.id, { ...result, status: 'FAILED', reason: error.message });
+      }
+    }
+
+    // Los resultados se devuelven en orden cronológico, cualquiera sea el orden de edición
+    const results = appointments.map((target) => resultsById.get(target.id)!);
+    return { seriesId, scope, results };
+  }
+
+  /**
+   * Ordena las citas de la serie en el orden en que deben editarse
+   * @param appointments - Citas alcanzadas, en orden cronológico
+   * @param pivot - Cita indicada
+   * @param changes - Cambios pedidos sobre la cita indicada
+   * @returns Citas en orden de edición
+   * @description Al adelantar la serie, cada cita movida podría chocar con la siguiente, que
+   * todavía ocupa su horario original; editarlas desde la última evita ese choque. Al atrasarla
+   * el orden cronológico ya lo evita
+   */
+  private orderForUpdate(
+    appointments: Appointment[],
+    pivot: Appointment,
+    changes: UpdateAppointmentDto,
+  ): Appointment[] {
+    const movesForward =
+      changes.dateTime !== undefined &&
+      new Date(changes.dateTime).getTime() > pivot.dateTime.getTime();
+
+    return movesForward ? [...appointments].reverse() : appointments;
+  }
+
+  /**
+   * Adapta los cambios de la cita indicada a otra cita de la serie
+   * @param changes - Cambios pedidos sobre la cita indicada
+   * @param pivot - Cita indicada
+   * @param target - Cita a la que se aplican los cambios
+   * @returns Cambios para la cita destino
+   * @description Un nuevo `dateTime` se traslada como desplazamiento: la cita destino se mueve
+   * los mismos días de calendario y queda a la misma hora local que la cita indicada
+   */
+  private shiftChanges(
+    changes: UpdateAppointmentDto,
+    pivot: Appointment,
+    target: Appointment,
+  ): UpdateAppointmentDto {
+    if (!changes.dateTime || target.id === pivot.id) return changes;
+
+    const newPivotDateTime = new Date(changes.dateTime);
+    const dayShift = Math.round(
+      (toSalonDate(newPivotDateTime).getTime() - toSalonDate(pivot.dateTime).getTime()) / DAY_IN_MS,
+    );
+    const targetDate = new Date(toSalonDate(target.dateTime).getTime() + dayShift * DAY_IN_MS);
+
+    return {
+      ...changes,
+      dateTime: salonDateTimeToUtc(targetDate, toSalonTimeString(newPivotDateTime)).toISOString(),
+    };
+  }
+}
@@ -0,0 +1,68 @@
+import { CancellationPolicy } from '../../domain/entities/CancellationPolicy';
+import { ICancellationPolicyRepository } from '../../domain/repositories/ICancellationPolicyRepository';
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { UpdateCancellationPolicyDto } from '../dto/request/UpdateCancellationPolicyDto';
+import { CancellationPolicyDto } from '../dto/response/CancellationPolicyDto';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+
+/**
+ * Caso de uso para reemplazar la política de cancelación del salón (solo ADMIN, en la ruta)
+ * Rige para las cancelaciones y no show posteriores; los cargos ya generados no cambian
+ */
+export class UpdateCancellationPolicy {
+  constructor(
+    private cancellationPolicyRepository: ICancellationPolicyRepository,
+    private serviceRepository: IServiceRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para reemplazar la política de cancelación
+   * @param updateDto - Política completa a aplicar
+   * @returns Promise con la política guardada
+   * @throws ValidationError si la política no es válida
+   * @throws NotFoundError si algún servicio de los avisos por servicio no existe
+   */
+  async execute(updateDto: UpdateCancellationPolicyDto): Promise<CancellationPolicyDto> {
+    // 1. Construir la política (valida avisos, cargo y duplicados)
+    const policy = new CancellationPolicy(
+      updateDto.adminNoticeHours,
+      updateDto.stylistNoticeHours,
+      updateDto.clientNoticeHours,
+      updateDto.lateFee?.type,
+      updateDto.lateFee?.value,
+      updateDto.chargeNoShowFee ?? false,
+      updateDto.serviceOverrides ?? [],
+    );
+
+    // 2. Verificar que existan los servicios con aviso propio
+    for (const override of policy.serviceOverrides) {
+      const exists = await this.serviceRepository.existsById(override.serviceId);
+      if (!exists) {
+        throw new NotFoundError('Service', override.serviceId);
+      }
+    }
+
+    // 3. Guardar y mapear a DTO de respuesta
+    const savedPolicy = await this.cancellationPolicyRepository.save(policy);
+    return this.mapToCancellationPolicyDto(savedPolicy);
+  }
+
+  /**
+   * Mapea la entidad CancellationPolicy a su DTO de respuesta
+   * @param policy - Política de cancelación
+   * @returns DTO de la política para respuesta
+   */
+  private mapToCancellationPolicyDto(policy: CancellationPolicy): CancellationPolicyDto {
+    return {
+      adminNoticeHours: policy.adminNoticeHours,
+      stylistNoticeHours: policy.stylistNoticeHours,
+      clientNoticeHours: policy.clientNoticeHours,
+      lateFee: policy.hasLateFee()
+        ? { type: policy.lateFeeType!, value: policy.lateFeeValue! }
+        : undefined,
+      chargeNoShowFee: policy.chargeNoShowFee,
+      serviceOverrides: policy.serviceOverrides,
+      updatedAt: policy.updatedAt?.toISOString(),
+    };
+  }
+}
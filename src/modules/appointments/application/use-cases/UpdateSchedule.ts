@@ -0,0 +1,162 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { Schedule } from '../../domain/entities/Schedule';
+import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../domain/repositories/IAppointmentStatusRepository';
+import { IScheduleRepository } from '../../domain/repositories/IScheduleRepository';
+import { UpdateScheduleDto } from '../dto/request/UpdateScheduleDto';
+import {
+  ScheduleDto,
+  StrandedAppointmentDto,
+  UpdateScheduleResponseDto,
+} from '../dto/response/ScheduleDto';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { getSalonMinutesOfDay } from '../../../../shared/utils/salonTime';
+
+/**
+ * Caso de uso para modificar el rango horario de un horario semanal (solo ADMIN)
+ * - Rechaza rangos que se solapen con otro horario del mismo día y ámbito
+ * - Si el nuevo rango deja citas activas futuras (PENDING/CONFIRMED) fuera del horario,
+ *   rechaza el cambio salvo que se indique `force`; en ese caso lo aplica y devuelve
+ *   el listado de citas afectadas para que se gestionen manualmente
+ */
+export class UpdateSchedule {
+  constructor(
+    private scheduleRepository: IScheduleRepository,
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para modificar un horario
+   * @param scheduleId - ID del horario
+   * @param dto - Nuevo rango horario
+   * @returns Promise con el horario actualizado y las citas que quedan fuera del nuevo rango
+   * @throws ValidationError si los datos no son válidos
+   * @throws NotFoundError si el horario no existe
+   * @throws ConflictError si el rango se solapa con otro horario o deja citas fuera sin `force`
+   */
+  async execute(scheduleId: string, dto: UpdateScheduleDto): Promise<UpdateScheduleResponseDto> {
+    // 1. Validar datos de entrada
+    assertValidUuid(scheduleId, 'Schedule ID');
+
+    // 2. Buscar el horario
+    const schedule = await this.scheduleRepository.findById(scheduleId);
+    if (!schedule) {
+      throw new NotFoundError('Schedule', scheduleId);
+    }
+
+    // 3. Aplicar el nuevo rango (valida formato y duración mínima)
+    schedule.updateSchedule(dto.startTime, dto.endTime);
+
+    // 4. Validar que no se solape con otro horario del mismo ámbito
+    const conflicts = await this.scheduleRepository.findConflictingSchedules(
+      schedule.dayOfWeek,
+      schedule.startTime,
+      schedule.endTime,
+      schedule.id,
+    );
+    if (conflicts.some((conflict) => conflict.holidayId === schedule.holidayId)) {
+      throw new ConflictError(
+        `Schedule overlaps with an existing schedule on ${schedule.dayOfWeek}`,
+      );
+    }
+
+    // 5. Detectar citas activas futuras que quedarían fuera del nuevo rango
+    const strandedAppointments = await this.findStrandedAppointments(schedule);
+    if (strandedAppointments.length > 0 && !dto.force) {
+      throw new ConflictError(
+        `Cannot update schedule: ${strandedAppointments.length} upcoming appointments would fall outside the new hours`,
+      );
+    }
+
+    // 6. Guardar el horario
+    const updatedSchedule = await this.scheduleRepository.update(schedule);
+
+    return {
+      schedule: this.mapToScheduleDto(updatedSchedule),
+      strandedAppointments: strandedAppointments.map((appointment) =>
+        this.mapToStrandedAppointmentDto(appointment),
+      ),
+    };
+  }
+
+  /**
+   * Busca las citas activas futuras del horario que no caben en su nuevo rango
+   * @param schedule - Horario con el rango ya actualizado
+   * @returns Citas afectadas, ordenadas por fecha
+   */
+  private async findStrandedAppointments(schedule: Schedule): Promise<Appointment[]> {
+    const [pendingStatus, confirmedStatus] = await Promise.all([
+      this.appointmentStatusRepository.findByName(AppointmentStatusEnum.PENDING),
+      this.appointmentStatusRepository.findByName(AppointmentStatusEnum.CONFIRMED),
+    ]);
+
+    const activeStatusIds = [pendingStatus?.id, confirmedStatus?.id].filter(Boolean) as string[];
+
+    if (activeStatusIds.length === 0) return [];
+
+    const now = new Date();
+    const startMinutes = this.timeToMinutes(schedule.startTime);
+    const endMinutes = this.timeToMinutes(schedule.endTime);
+    const appointments = await this.appointmentRepository.findByScheduleId(schedule.id);
+
+    return appointments
+      .filter((appointment) => {
+        if (!activeStatusIds.includes(appointment.statusId) || appointment.dateTime <= now) {
+          return false;
+        }
+
+        const appointmentStart = getSalonMinutesOfDay(appointment.dateTime);
+        return (
+          appointmentStart < startMinutes || appointmentStart + appointment.duration > endMinutes
+        );
+      })
+      .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+  }
+
+  /**
+   * Convierte una hora en formato HH:MM a minutos desde medianoche
+   * @param time - Hora en formato HH:MM
+   * @returns Minutos desde las 00:00
+   */
+  private timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Mapea una entidad Schedule a su DTO de respuesta
+   * @param schedule - Entidad de horario
+   * @returns DTO del horario
+   */
+  private mapToScheduleDto(schedule: Schedule): ScheduleDto {
+    return {
+      id: schedule.id,
+      dayOfWeek: schedule.dayOfWeek,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      createdAt: schedule.createdAt.toISOString(),
+      updatedAt: schedule.updatedAt.toISOString(),
+      holidayId: schedule.holidayId,
+      durationInMinutes: schedule.getDurationInMinutes(),
+    };
+  }
+
+  /**
+   * Mapea una cita afectada a su DTO de respuesta
+   * @param appointment - Cita que queda fuera del nuevo rango
+   * @returns DTO de la cita afectada
+   */
+  private mapToStrandedAppointmentDto(appointment: Appointment): StrandedAppointmentDto {
+    return {
+      id: appointment.id,
+      dateTime: appointment.dateTime.toISOString(),
+      duration: appointment.duration,
+      clientId: appointment.clientId,
+      stylistId: appointment.stylistId,
+    };
+  }
+}
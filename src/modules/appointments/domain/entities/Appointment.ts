@@ -1,7 +1,21 @@
 import { generateUuid } from '../../../../shared/utils/uuid';
 import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { addSalonDays } from '../../../../shared/utils/salonTime';
+
+/**
+ * Tiempo de preparación y limpieza que una cita bloquea alrededor de su duración
+ */
+export interface AppointmentBuffer {
+  /** Minutos bloqueados antes del inicio */
+  before: number;
+  /** Minutos bloqueados después del fin */
+  after: number;
+}
 
 export class Appointment {
+  /** Máximo de minutos de buffer a cada lado de una cita */
+  static readonly MAX_BUFFER_MINUTES = 120;
+
   constructor(
     public id: string,
     public dateTime: Date,
@@ -18,6 +32,12 @@ export class Appointment {
     public cancellationReason?: string,
     public cancelledBy?: string,
     public confirmationNotes?: string,
+    public bufferBefore: number = 0,
+    public bufferAfter: number = 0,
+    public seriesId?: string,
+    public checkedInAt?: Date,
+    public startedAt?: Date,
+    public completedAt?: Date,
   ) {
     this.validate();
   }
@@ -32,6 +52,8 @@ export class Appointment {
    * @param statusId - ID del estado inicial de la cita
    * @param stylistId - ID del estilista asignado (opcional)
    * @param serviceIds - Lista de IDs de servicios incluidos
+   * @param buffer - Minutos bloqueados antes y después (por defecto sin buffer)
+   * @param seriesId - ID de la serie recurrente a la que pertenece (opcional)
    * @returns Nueva instancia de Appointment
    * @throws ValidationError si algún dato es inválido
    */
@@ -44,6 +66,8 @@ export class Appointment {
     statusId: string,
     stylistId?: string,
     serviceIds: string[] = [],
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+    seriesId?: string,
   ): Appointment {
     const appointment = new Appointment(
       generateUuid(),
@@ -56,6 +80,14 @@ export class Appointment {
       stylistId,
       undefined,
       serviceIds,
+      new Date(),
+      new Date(),
+      undefined,
+      undefined,
+      undefined,
+      buffer.before,
+      buffer.after,
+      seriesId,
     );
     appointment.validateDateNotInPast();
     return appointment;
@@ -75,6 +107,15 @@ export class Appointment {
    * @param serviceIds - Lista de servicios
    * @param createdAt - Fecha de creación (opcional)
    * @param updatedAt - Fecha de última actualización (opcional)
+   * @param cancellationReason - Razón de cancelación (opcional)
+   * @param cancelledBy - Tipo de cancelación (opcional)
+   * @param confirmationNotes - Notas de confirmación (opcional)
+   * @param bufferBefore - Minutos bloqueados antes del inicio (por defecto 0)
+   * @param bufferAfter - Minutos bloqueados después del fin (por defecto 0)
+   * @param seriesId - ID de la serie recurrente (opcional)
+   * @param checkedInAt - Fecha de llegada del cliente (opcional)
+   * @param startedAt - Fecha de inicio real de la atención (opcional)
+   * @param completedAt - Fecha de fin real de la atención (opcional)
    * @returns Instancia de Appointment desde persistencia
    */
   static fromPersistence(
@@ -93,6 +134,12 @@ export class Appointment {
     cancellationReason?: string,
     cancelledBy?: string,
     confirmationNotes?: string,
+    bufferBefore?: number,
+    bufferAfter?: number,
+    seriesId?: string,
+    checkedInAt?: Date,
+    startedAt?: Date,
+    completedAt?: Date,
   ): Appointment {
     return new Appointment(
       id,
@@ -110,6 +157,12 @@ export class Appointment {
       cancellationReason,
       cancelledBy,
       confirmationNotes,
+      bufferBefore,
+      bufferAfter,
+      seriesId,
+      checkedInAt,
+      startedAt,
+      completedAt,
     );
   }
 
@@ -120,6 +173,7 @@ export class Appointment {
   private validate(): void {
     this.validateDateTime();
     this.validateDuration();
+    this.validateBuffers();
     this.validateRequiredFields();
   }
 
@@ -167,6 +221,20 @@ export class Appointment {
     }
   }
 
+  /**
+   * Valida que los buffers sean enteros entre 0 y el máximo permitido
+   * @throws ValidationError si algún buffer está fuera de rango
+   */
+  private validateBuffers(): void {
+    for (const buffer of [this.bufferBefore, this.bufferAfter]) {
+      if (!Number.isInteger(buffer) || buffer < 0 || buffer > Appointment.MAX_BUFFER_MINUTES) {
+        throw new ValidationError(
+          `Buffer time must be between 0 and ${Appointment.MAX_BUFFER_MINUTES} minutes`,
+        );
+      }
+    }
+  }
+
   /**
    * Valida que todos los campos requeridos estén presentes
    * @throws ValidationError si algún campo requerido falta
@@ -200,6 +268,18 @@ export class Appointment {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Registra la llegada del cliente (check-in) sin cambiar el estado de la cita
+   * @throws ValidationError si ya se registró la llegada
+   */
+  checkIn(): void {
+    if (this.checkedInAt) {
+      throw new ValidationError('Client has already checked in for this appointment');
+    }
+    this.checkedInAt = new Date();
+    this.updatedAt = new Date();
+  }
+
   /**
    * Reprograma la cita a una nueva fecha y hora, opcionalmente cambiando la duración
    * @param newDateTime - Nueva fecha y hora para la cita
@@ -266,6 +346,32 @@ export class Appointment {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Actualiza el horario regular (Schedule) al que pertenece la cita
+   * @param scheduleId - ID del horario del nuevo día de la semana
+   * @throws ValidationError si el ID del horario es inválido
+   */
+  updateSchedule(scheduleId: string): void {
+    if (!scheduleId || scheduleId.trim().length === 0) {
+      throw new ValidationError('Schedule ID is required');
+    }
+
+    this.scheduleId = scheduleId;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Actualiza los minutos bloqueados antes y después de la cita
+   * @param buffer - Nuevos buffers
+   * @throws ValidationError si algún buffer está fuera de rango
+   */
+  updateBuffer(buffer: AppointmentBuffer): void {
+    this.bufferBefore = buffer.before;
+    this.bufferAfter = buffer.after;
+    this.updatedAt = new Date();
+    this.validateBuffers();
+  }
+
   /**
    * Actualiza la duración de la cita
    * @param newDuration - Nueva duración en minutos
@@ -279,6 +385,14 @@ export class Appointment {
 
   // Métodos de consulta
 
+  /**
+   * Verifica si el cliente ya registró su llegada
+   * @returns true si la cita tiene fecha de check-in, false en caso contrario
+   */
+  isCheckedIn(): boolean {
+    return this.checkedInAt !== undefined;
+  }
+
   /**
    * Verifica si la cita está confirmada
    * @returns true si la cita tiene fecha de confirmación, false en caso contrario
@@ -295,6 +409,44 @@ export class Appointment {
     return new Date(this.dateTime.getTime() + this.duration * 60000);
   }
 
+  /**
+   * Calcula el inicio del bloque ocupado en la agenda (inicio menos el buffer previo)
+   * @returns Fecha y hora desde la que la cita bloquea al estilista
+   */
+  getBlockedStart(): Date {
+    return new Date(this.dateTime.getTime() - this.bufferBefore * 60000);
+  }
+
+  /**
+   * Calcula el fin del bloque ocupado en la agenda (fin más el buffer posterior)
+   * @returns Fecha y hora hasta la que la cita bloquea al estilista
+   */
+  getBlockedEnd(): Date {
+    return new Date(this.getEndTime().getTime() + this.bufferAfter * 60000);
+  }
+
+  /**
+   * Verifica si la cita, con sus buffers, se solapa con un rango que también reserva buffers
+   * @param start - Inicio del rango (sin buffer)
+   * @param end - Fin del rango (sin buffer)
+   * @param buffer - Buffers del rango (por defecto sin buffer)
+   * @returns true si los bloques ocupados se solapan
+   * @description Entre dos citas debe quedar libre el buffer posterior de la primera más el
+   * buffer previo de la segunda
+   */
+  overlapsRange(
+    start: Date,
+    end: Date,
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+  ): boolean {
+    const rangeStart = start.getTime() - buffer.before * 60000;
+    const rangeEnd = end.getTime() + buffer.after * 60000;
+
+    return !(
+      rangeEnd <= this.getBlockedStart().getTime() || rangeStart >= this.getBlockedEnd().getTime()
+    );
+  }
+
   /**
    * Verifica si la cita está programada en el pasado
    * @returns true si la fecha de la cita ya pasó, false en caso contrario
@@ -304,29 +456,27 @@ export class Appointment {
   }
 
   /**
-   * Verifica si esta cita tiene conflicto de horario con otra cita
+   * Verifica si esta cita tiene conflicto de horario con otra cita, incluidos los buffers
    * @param otherAppointment - Otra cita a comparar
    * @returns true si hay conflicto de horario, false en caso contrario
    */
   hasConflictWith(otherAppointment: Appointment): boolean {
-    const thisStart = this.dateTime.getTime();
-    const thisEnd = this.getEndTime().getTime();
-    const otherStart = otherAppointment.dateTime.getTime();
-    const otherEnd = otherAppointment.getEndTime().getTime();
-
-    return !(thisEnd <= otherStart || thisStart >= otherEnd);
+    return this.overlapsRange(otherAppointment.dateTime, otherAppointment.getEndTime(), {
+      before: otherAppointment.bufferBefore,
+      after: otherAppointment.bufferAfter,
+    });
   }
 
   /**
-   * Verifica si la cita puede ser modificada (debe ser al menos 24 horas en el futuro)
+   * Verifica si la cita puede ser modificada (debe faltar al menos un día para la cita)
    * @returns true si se puede modificar, false en caso contrario
+   * @description El plazo de 24 horas se cuenta en hora local del salón: vence a la misma hora
+   * del día anterior, aunque ese día dure 23 o 25 horas por un cambio de horario
    */
   canBeModified(): boolean {
-    // Se puede modificar si son al menos 24 horas en el futuro
-    const twentyFourHoursFromNow = new Date();
-    twentyFourHoursFromNow.setHours(twentyFourHoursFromNow.getHours() + 24);
+    const deadline = addSalonDays(this.dateTime, -1);
 
-    return this.dateTime > twentyFourHoursFromNow;
+    return new Date() < deadline;
   }
 
   // Métodos de gestión de estado
@@ -356,6 +506,16 @@ export class Appointment {
     if (notes) this.confirmationNotes = notes;
   }
 
+  /**
+   * Vuelve la cita confirmada a pendiente, por ejemplo al reprogramarla
+   * @param pendingStatusId - ID del estado "pendiente"
+   */
+  resetConfirmation(pendingStatusId: string): void {
+    this.changeStatus(pendingStatusId);
+    this.confirmedAt = undefined;
+    this.confirmationNotes = undefined;
+  }
+
   /**
    * Marca la cita como cancelada, almacenando razón y tipo de cancelación
    * @param cancelledStatusId - ID del estado "cancelado"
@@ -369,19 +529,21 @@ export class Appointment {
   }
 
   /**
-   * Marca la cita como completada cambiando su estado
+   * Marca la cita como completada cambiando su estado y registrando el fin real
    * @param completedStatusId - ID del estado "completado"
    */
   markAsCompleted(completedStatusId: string): void {
     this.changeStatus(completedStatusId);
+    this.completedAt = new Date();
   }
 
   /**
-   * Marca la cita como en progreso cambiando su estado
+   * Marca la cita como en progreso cambiando su estado y registrando el inicio real
    * @param inProgressStatusId - ID del estado "en progreso"
    */
   markAsInProgress(inProgressStatusId: string): void {
     this.changeStatus(inProgressStatusId);
+    this.startedAt = new Date();
   }
 
   /**
@@ -424,6 +586,12 @@ export class Appointment {
       cancellationReason: this.cancellationReason,
       cancelledBy: this.cancelledBy,
       confirmationNotes: this.confirmationNotes,
+      bufferBefore: this.bufferBefore,
+      bufferAfter: this.bufferAfter,
+      seriesId: this.seriesId,
+      checkedInAt: this.checkedInAt,
+      startedAt: this.startedAt,
+      completedAt: this.completedAt,
     };
   }
 }
@@ -0,0 +1,159 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+
+/**
+ * Tipos de evento registrados en el historial de una cita
+ */
+export enum AppointmentEventTypeEnum {
+  /** Cita reservada */
+  CREATED = 'CREATED',
+  /** Cambio de estado (fromValue/toValue: nombre del estado) */
+  STATUS_CHANGED = 'STATUS_CHANGED',
+  /** Cambio de fecha/hora (fromValue/toValue: ISO string) */
+  RESCHEDULED = 'RESCHEDULED',
+  /** Cambio de estilista (fromValue/toValue: User.id) */
+  STYLIST_CHANGED = 'STYLIST_CHANGED',
+  /** Servicio agregado (toValue: Service.id) */
+  SERVICE_ADDED = 'SERVICE_ADDED',
+  /** Servicio quitado (fromValue: Service.id) */
+  SERVICE_REMOVED = 'SERVICE_REMOVED',
+  /** Llegada del cliente registrada */
+  CHECKED_IN = 'CHECKED_IN',
+}
+
+/**
+ * Rol registrado para las acciones automáticas (barrido, feriados, ausencias, bajas)
+ */
+export const SYSTEM_ACTOR_ROLE = 'SYSTEM';
+
+/**
+ * Quién ejecutó un cambio sobre la cita
+ * @description `id` queda indefinido para las acciones automáticas del sistema
+ */
+export interface AppointmentActor {
+  id?: string;
+  role: string;
+}
+
+/**
+ * Actor usado por los procesos automáticos
+ */
+export const SYSTEM_ACTOR: AppointmentActor = { role: SYSTEM_ACTOR_ROLE };
+
+/**
+ * Entidad de dominio que representa una entrada del historial de una cita
+ * @description El historial es append-only: las entradas se crean una vez y nunca se modifican
+ */
+export class AppointmentEvent {
+  constructor(
+    public readonly id: string,
+    public readonly appointmentId: string,
+    public readonly type: AppointmentEventTypeEnum,
+    public readonly actorId: string | undefined,
+    public readonly actorRole: string,
+    public readonly fromValue?: string,
+    public readonly toValue?: string,
+    public readonly reason?: string,
+    public readonly createdAt: Date = new Date(),
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea una nueva entrada del historial
+   * @param appointmentId - ID de la cita
+   * @param type - Tipo de evento
+   * @param actor - Quién ejecutó el cambio
+   * @param change - Valor anterior, valor nuevo y motivo (según el tipo de evento)
+   * @returns Nueva instancia de AppointmentEvent
+   */
+  static create(
+    appointmentId: string,
+    type: AppointmentEventTypeEnum,
+    actor: AppointmentActor,
+    change: { fromValue?: string; toValue?: string; reason?: string } = {},
+  ): AppointmentEvent {
+    return new AppointmentEvent(
+      generateUuid(),
+      appointmentId,
+      type,
+      actor.id,
+      actor.role,
+      change.fromValue,
+      change.toValue,
+      change.reason,
+      new Date(),
+    );
+  }
+
+  /**
+   * Reconstruye una entrada del historial desde datos de persistencia
+   * @param data - Datos del evento desde la base de datos
+   * @returns Instancia de AppointmentEvent desde persistencia
+   */
+  static fromPersistence(data: {
+    id: string;
+    appointmentId: string;
+    type: string;
+    actorId: string | null;
+    actorRole: string;
+    fromValue: string | null;
+    toValue: string | null;
+    reason: string | null;
+    createdAt: Date;
+  }): AppointmentEvent {
+    return new AppointmentEvent(
+      data.id,
+      data.appointmentId,
+      data.type as AppointmentEventTypeEnum,
+      data.actorId ?? undefined,
+      data.actorRole,
+      data.fromValue ?? undefined,
+      data.toValue ?? undefined,
+      data.reason ?? undefined,
+      data.createdAt,
+    );
+  }
+
+  /**
+   * Valida los campos obligatorios del evento
+   * @throws ValidationError si falta la cita, el tipo o el rol del actor
+   */
+  private validate(): void {
+    if (!this.appointmentId) {
+      throw new ValidationError('Appointment ID is required');
+    }
+    if (!Object.values(AppointmentEventTypeEnum).includes(this.type)) {
+      throw new ValidationError(`Invalid appointment event type: ${this.type}`);
+    }
+    if (!this.actorRole) {
+      throw new ValidationError('Actor role is required');
+    }
+  }
+
+  /**
+   * Indica si el cambio lo ejecutó un proceso automático
+   * @returns true si no hay un usuario detrás del evento
+   */
+  isSystemEvent(): boolean {
+    return this.actorRole === SYSTEM_ACTOR_ROLE;
+  }
+
+  /**
+   * Convierte la entidad a formato de persistencia
+   * @returns Objeto con los datos para la base de datos
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      appointmentId: this.appointmentId,
+      type: this.type,
+      actorId: this.actorId ?? null,
+      actorRole: this.actorRole,
+      fromValue: this.fromValue ?? null,
+      toValue: this.toValue ?? null,
+      reason: this.reason ?? null,
+      createdAt: this.createdAt,
+    };
+  }
+}
@@ -0,0 +1,190 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { addSalonDays } from '../../../../shared/utils/salonTime';
+
+/**
+ * Alcance de una edición o cancelación sobre una cita que pertenece a una serie
+ */
+export enum SeriesScopeEnum {
+  /** Solo la cita indicada */
+  THIS = 'THIS',
+  /** La cita indicada y todas las posteriores de la serie */
+  THIS_AND_FOLLOWING = 'THIS_AND_FOLLOWING',
+  /** Todas las citas de la serie */
+  ALL = 'ALL',
+}
+
+/**
+ * Entidad de dominio que representa una serie de citas recurrentes
+ * @description Guarda la regla de recurrencia (cada N semanas, M ocurrencias) a partir de la
+ * primera cita. Cada ocurrencia reservada es una Appointment normal con `seriesId`; las que no
+ * se pudieron reservar (feriado, conflicto) no existen como cita.
+ */
+export class AppointmentSeries {
+  /** Intervalo máximo entre ocurrencias (semanas) */
+  static readonly MAX_INTERVAL_WEEKS = 12;
+
+  /** Máximo de ocurrencias de una serie */
+  static readonly MAX_OCCURRENCES = 26;
+
+  constructor(
+    public id: string,
+    public intervalWeeks: number,
+    public occurrences: number,
+    public startDateTime: Date,
+    public clientId: string,
+    public userId: string,
+    public createdAt: Date = new Date(),
+    public updatedAt: Date = new Date(),
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea una nueva serie con validaciones automáticas
+   * @param intervalWeeks - Semanas entre ocurrencias (1-12)
+   * @param occurrences - Cantidad de ocurrencias, incluida la primera (2-26)
+   * @param startDateTime - Fecha y hora de la primera ocurrencia
+   * @param clientId - ID del cliente (User.id)
+   * @param userId - ID del usuario que crea la serie
+   * @returns Nueva instancia de AppointmentSeries
+   * @throws ValidationError si la regla no es válida
+   */
+  static create(
+    intervalWeeks: number,
+    occurrences: number,
+    startDateTime: Date,
+    clientId: string,
+    userId: string,
+  ): AppointmentSeries {
+    return new AppointmentSeries(
+      generateUuid(),
+      intervalWeeks,
+      occurrences,
+      startDateTime,
+      clientId,
+      userId,
+      new Date(),
+      new Date(),
+    );
+  }
+
+  /**
+   * Reconstruye una serie desde datos de persistencia
+   * @param data - Datos de la serie desde la base de datos
+   * @returns Instancia de AppointmentSeries desde persistencia
+   */
+  static fromPersistence(data: {
+    id: string;
+    intervalWeeks: number;
+    occurrences: number;
+    startDateTime: Date;
+    clientId: string;
+    userId: string;
+    createdAt: Date;
+    updatedAt: Date;
+  }): AppointmentSeries {
+    return new AppointmentSeries(
+      data.id,
+      data.intervalWeeks,
+      data.occurrences,
+      data.startDateTime,
+      data.clientId,
+      data.userId,
+      data.createdAt,
+      data.updatedAt,
+    );
+  }
+
+  /**
+   * Cuenta las ocurrencias que caen hasta una fecha límite (inclusive)
+   * @param intervalWeeks - Semanas entre ocurrencias
+   * @param startDateTime - Fecha y hora de la primera ocurrencia
+   * @param until - Fecha límite
+   * @returns Cantidad de ocurrencias desde la primera hasta la fecha límite
+   */
+  static countOccurrencesUntil(intervalWeeks: number, startDateTime: Date, until: Date): number {
+    let count = 0;
+    while (
+      count <= AppointmentSeries.MAX_OCCURRENCES &&
+      addSalonDays(startDateTime, count * intervalWeeks * 7) <= until
+    ) {
+      count++;
+    }
+    return count;
+  }
+
+  /**
+   * Ejecuta todas las validaciones necesarias para la serie
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    if (!this.clientId || this.clientId.trim().length === 0) {
+      throw new ValidationError('Client ID is required');
+    }
+
+    if (!this.userId || this.userId.trim().length === 0) {
+      throw new ValidationError('User ID is required');
+    }
+
+    if (!(this.startDateTime instanceof Date) || isNaN(this.startDateTime.getTime())) {
+      throw new ValidationError('Invalid series start date');
+    }
+
+    if (
+      !Number.isInteger(this.intervalWeeks) ||
+      this.intervalWeeks < 1 ||
+      this.intervalWeeks > AppointmentSeries.MAX_INTERVAL_WEEKS
+    ) {
+      throw new ValidationError(
+        `Series interval must be between 1 and ${AppointmentSeries.MAX_INTERVAL_WEEKS} weeks`,
+      );
+    }
+
+    if (
+      !Number.isInteger(this.occurrences) ||
+      this.occurrences < 2 ||
+      this.occurrences > AppointmentSeries.MAX_OCCURRENCES
+    ) {
+      throw new ValidationError(
+        `Series must have between 2 and ${AppointmentSeries.MAX_OCCURRENCES} occurrences`,
+      );
+    }
+  }
+
+  /**
+   * Calcula la fecha y hora de cada ocurrencia de la serie
+   * @returns Instantes de todas las ocurrencias, en orden
+   * @description Las ocurrencias conservan la hora local del salón de la primera cita aunque
+   * entre medio haya un cambio de horario
+   */
+  getOccurrenceDates(): Date[] {
+    return Array.from({ length: this.occurrences }, (_, index) =>
+      addSalonDays(this.startDateTime, index * this.intervalWeeks * 7),
+    );
+  }
+
+  /**
+   * Fecha y hora de la última ocurrencia de la serie
+   */
+  getLastOccurrenceDate(): Date {
+    return addSalonDays(this.startDateTime, (this.occurrences - 1) * this.intervalWeeks * 7);
+  }
+
+  /**
+   * Convierte la entidad a formato de persistencia para guardar en base de datos
+   * @returns Objeto plano con todas las propiedades de la serie
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      intervalWeeks: this.intervalWeeks,
+      occurrences: this.occurrences,
+      startDateTime: this.startDateTime,
+      clientId: this.clientId,
+      userId: this.userId,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
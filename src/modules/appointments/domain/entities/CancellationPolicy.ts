@@ -0,0 +1,210 @@
+import { Appointment } from './Appointment';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+
+/**
+ * Forma de calcular el cargo por cancelación tardía
+ */
+export enum CancellationFeeTypeEnum {
+  /** Monto fijo en la unidad monetaria base */
+  FIXED = 'FIXED',
+  /** Porcentaje del precio de los servicios de la cita */
+  PERCENTAGE = 'PERCENTAGE',
+}
+
+/**
+ * Aviso mínimo propio de un servicio, que se suma a la política por rol
+ */
+export interface ServiceCancellationOverride {
+  serviceId: string;
+  noticeHours: number;
+}
+
+/**
+ * Entidad de dominio con la política de cancelación del salón
+ * @description Define con cuántas horas de anticipación puede cancelar cada rol, avisos más
+ * largos para servicios puntuales y un cargo opcional. Dentro del aviso mínimo la cancelación se
+ * rechaza, salvo que la pida un CLIENT y haya cargo configurado: en ese caso se acepta y se genera
+ * un pago PENDING. El mismo cargo puede aplicarse a los no show.
+ */
+export class CancellationPolicy {
+  /** Aviso mínimo por defecto para todos los roles (horas) */
+  static readonly DEFAULT_NOTICE_HOURS = 2;
+
+  /** Aviso mínimo máximo configurable (horas): una semana */
+  static readonly MAX_NOTICE_HOURS = 168;
+
+  constructor(
+    public adminNoticeHours: number,
+    public stylistNoticeHours: number,
+    public clientNoticeHours: number,
+    public lateFeeType: CancellationFeeTypeEnum | undefined,
+    public lateFeeValue: number | undefined,
+    public chargeNoShowFee: boolean,
+    public serviceOverrides: ServiceCancellationOverride[] = [],
+    public updatedAt?: Date,
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea la política que rige mientras el ADMIN no configure una
+   * @returns Política con 2 horas de aviso para todos los roles y sin cargo
+   */
+  static createDefault(): CancellationPolicy {
+    return new CancellationPolicy(
+      CancellationPolicy.DEFAULT_NOTICE_HOURS,
+      CancellationPolicy.DEFAULT_NOTICE_HOURS,
+      CancellationPolicy.DEFAULT_NOTICE_HOURS,
+      undefined,
+      undefined,
+      false,
+    );
+  }
+
+  /**
+   * Reconstruye la política desde datos de persistencia
+   * @param data - Datos de la política desde la base de datos
+   * @returns Instancia de CancellationPolicy desde persistencia
+   */
+  static fromPersistence(data: {
+    adminNoticeHours: number;
+    stylistNoticeHours: number;
+    clientNoticeHours: number;
+    lateFeeType: string | null;
+    lateFeeValue: number | null;
+    chargeNoShowFee: boolean;
+    serviceOverrides: ServiceCancellationOverride[];
+    updatedAt: Date;
+  }): CancellationPolicy {
+    return new CancellationPolicy(
+      data.adminNoticeHours,
+      data.stylistNoticeHours,
+      data.clientNoticeHours,
+      (data.lateFeeType as CancellationFeeTypeEnum) ?? undefined,
+      data.lateFeeValue ?? undefined,
+      data.chargeNoShowFee,
+      data.serviceOverrides.map(({ serviceId, noticeHours }) => ({ serviceId, noticeHours })),
+      data.updatedAt,
+    );
+  }
+
+  /**
+   * Calcula el aviso mínimo que rige para una cancelación
+   * @description ADMIN usa solo su aviso por rol. Para STYLIST y CLIENT rige el mayor entre su
+   * aviso por rol y el de los servicios de la cita que tengan uno propio.
+   * @param requesterRole - Rol de quien cancela
+   * @param serviceIds - Servicios de la cita
+   * @returns Horas de anticipación exigidas
+   */
+  getNoticeHours(requesterRole: string, serviceIds: string[]): number {
+    if (requesterRole === 'ADMIN') return this.adminNoticeHours;
+
+    const roleNoticeHours =
+      requesterRole === 'STYLIST' ? this.stylistNoticeHours : this.clientNoticeHours;
+
+    return this.serviceOverrides
+      .filter((override) => serviceIds.includes(override.serviceId))
+      .reduce((hours, override) => Math.max(hours, override.noticeHours), roleNoticeHours);
+  }
+
+  /**
+   * Indica si cancelar la cita ahora queda dentro del aviso mínimo
+   * @param appointment - Cita a cancelar
+   * @param requesterRole - Rol de quien cancela
+   * @param now - Instante de referencia
+   * @returns true si la cancelación es tardía
+   */
+  isLateCancellation(appointment: Appointment, requesterRole: string, now = new Date()): boolean {
+    const noticeHours = this.getNoticeHours(requesterRole, appointment.serviceIds);
+    return appointment.dateTime.getTime() <= now.getTime() + noticeHours * 60 * 60 * 1000;
+  }
+
+  /**
+   * Indica si la política tiene un cargo configurado
+   */
+  hasLateFee(): boolean {
+    return this.lateFeeType !== undefined && (this.lateFeeValue ?? 0) > 0;
+  }
+
+  /**
+   * Indica si una cancelación tardía se acepta con cargo en lugar de rechazarse
+   * @param requesterRole - Rol de quien cancela
+   * @returns true si quien cancela es el cliente y hay cargo configurado
+   */
+  allowsLateCancellationWithFee(requesterRole: string): boolean {
+    return requesterRole === 'CLIENT' && this.hasLateFee();
+  }
+
+  /**
+   * Indica si los no show generan el cargo
+   */
+  chargesNoShows(): boolean {
+    return this.chargeNoShowFee && this.hasLateFee();
+  }
+
+  /**
+   * Calcula el monto del cargo
+   * @param servicesTotal - Precio total de los servicios de la cita, en la unidad monetaria base
+   * @returns Monto del cargo en la unidad monetaria base (0 si no hay cargo)
+   */
+  calculateFee(servicesTotal: number): number {
+    if (!this.hasLateFee()) return 0;
+
+    if (this.lateFeeType === CancellationFeeTypeEnum.FIXED) {
+      return this.lateFeeValue!;
+    }
+
+    return Math.round(servicesTotal * this.lateFeeValue!) / 100;
+  }
+
+  /**
+   * Ejecuta todas las validaciones de la política
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    this.validateNoticeHours(this.adminNoticeHours, 'Admin notice hours');
+    this.validateNoticeHours(this.stylistNoticeHours, 'Stylist notice hours');
+    this.validateNoticeHours(this.clientNoticeHours, 'Client notice hours');
+
+    if ((this.lateFeeType === undefined) !== (this.lateFeeValue === undefined)) {
+      throw new ValidationError('Late fee type and value must be provided together');
+    }
+
+    if (this.lateFeeValue !== undefined) {
+      if (!Number.isFinite(this.lateFeeValue) || this.lateFeeValue <= 0) {
+        throw new ValidationError('Late fee value must be greater than 0');
+      }
+
+      if (this.lateFeeType === CancellationFeeTypeEnum.PERCENTAGE && this.lateFeeValue > 100) {
+        throw new ValidationError('Late fee percentage cannot exceed 100');
+      }
+    }
+
+    if (this.chargeNoShowFee && !this.hasLateFee()) {
+      throw new ValidationError('Charging no-shows requires a late fee');
+    }
+
+    const serviceIds = new Set<string>();
+    for (const override of this.serviceOverrides) {
+      if (serviceIds.has(override.serviceId)) {
+        throw new ValidationError(`Service ${override.serviceId} has more than one override`);
+      }
+      serviceIds.add(override.serviceId);
+      this.validateNoticeHours(override.noticeHours, 'Service notice hours');
+    }
+  }
+
+  /**
+   * Valida un aviso mínimo en horas
+   * @param hours - Horas a validar
+   * @param field - Nombre del campo para el mensaje de error
+   * @throws ValidationError si no es un entero entre 0 y MAX_NOTICE_HOURS
+   */
+  private validateNoticeHours(hours: number, field: string): void {
+    if (!Number.isInteger(hours) || hours < 0 || hours > CancellationPolicy.MAX_NOTICE_HOURS) {
+      throw new ValidationError(
+        `${field} must be an integer between 0 and ${CancellationPolicy.MAX_NOTICE_HOURS}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,239 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { AppointmentBuffer } from './Appointment';
+
+/**
+ * Entidad de dominio que representa la reserva temporal de un turno
+ * @description Bloquea la agenda de un estilista en [dateTime, dateTime + duration) hasta
+ * `expiresAt`. Mientras está vigente, solo los clientes en `clientIds` pueden reservar ese turno.
+ * Una reserva vencida no bloquea nada; no hace falta borrarla.
+ * - Turno liberado: los clientes son los de la lista de espera avisados
+ * - Checkout: un solo cliente (`clientId`) que confirma la reserva de la cita con `token`
+ */
+export class SlotHold {
+  /** Máximo de minutos que puede durar una reserva */
+  static readonly MAX_HOLD_MINUTES = 1440;
+
+  constructor(
+    public id: string,
+    public stylistId: string,
+    public dateTime: Date,
+    public duration: number, // en minutos
+    public expiresAt: Date,
+    public clientIds: string[] = [],
+    public createdAt: Date = new Date(),
+    public clientId?: string,
+    public token?: string,
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea una nueva reserva que vence dentro de `holdMinutes`
+   * @param stylistId - Estilista cuyo turno se reserva (User.id)
+   * @param dateTime - Inicio del turno
+   * @param duration - Duración del turno en minutos
+   * @param holdMinutes - Minutos que dura la reserva
+   * @param clientIds - Clientes que pueden reservar el turno mientras la reserva está vigente
+   * @param now - Momento de creación
+   * @returns Nueva instancia de SlotHold
+   * @throws ValidationError si los datos no son válidos
+   */
+  static create(
+    stylistId: string,
+    dateTime: Date,
+    duration: number,
+    holdMinutes: number,
+    clientIds: string[],
+    now: Date = new Date(),
+  ): SlotHold {
+    SlotHold.validateHoldMinutes(holdMinutes);
+
+    return new SlotHold(
+      generateUuid(),
+      stylistId,
+      dateTime,
+      duration,
+      new Date(now.getTime() + holdMinutes * 60000),
+      clientIds,
+      now,
+    );
+  }
+
+  /**
+   * Crea la reserva de checkout de un cliente, con un token nuevo para confirmar la cita
+   * @param stylistId - Estilista cuyo turno se reserva (User.id)
+   * @param dateTime - Inicio del turno
+   * @param duration - Duración del turno en minutos
+   * @param holdMinutes - Minutos que dura la reserva
+   * @param clientId - Cliente que retiene el turno (User.id)
+   * @param now - Momento de creación
+   * @returns Nueva instancia de SlotHold
+   * @throws ValidationError si los datos no son válidos
+   */
+  static createForCheckout(
+    stylistId: string,
+    dateTime: Date,
+    duration: number,
+    holdMinutes: number,
+    clientId: string,
+    now: Date = new Date(),
+  ): SlotHold {
+    SlotHold.validateHoldMinutes(holdMinutes);
+
+    return new SlotHold(
+      generateUuid(),
+      stylistId,
+      dateTime,
+      duration,
+      new Date(now.getTime() + holdMinutes * 60000),
+      [clientId],
+      now,
+      clientId,
+      generateUuid(),
+    );
+  }
+
+  /**
+   * Reconstruye una reserva desde datos de persistencia
+   * @param data - Datos de la reserva y los clientes que la pueden usar
+   * @returns Instancia de SlotHold desde persistencia
+   */
+  static fromPersistence(data: {
+    id: string;
+    stylistId: string;
+    dateTime: Date;
+    duration: number;
+    expiresAt: Date;
+    clientIds: string[];
+    createdAt: Date;
+    clientId?: string | null;
+    token?: string | null;
+  }): SlotHold {
+    return new SlotHold(
+      data.id,
+      data.stylistId,
+      data.dateTime,
+      data.duration,
+      data.expiresAt,
+      data.clientIds,
+      data.createdAt,
+      data.clientId ?? undefined,
+      data.token ?? undefined,
+    );
+  }
+
+  /**
+   * Valida los minutos que dura una reserva nueva
+   * @param holdMinutes - Minutos que dura la reserva
+   * @throws ValidationError si no es un entero entre 1 y MAX_HOLD_MINUTES
+   */
+  private static validateHoldMinutes(holdMinutes: number): void {
+    if (
+      !Number.isInteger(holdMinutes) ||
+      holdMinutes < 1 ||
+      holdMinutes > SlotHold.MAX_HOLD_MINUTES
+    ) {
+      throw new ValidationError(
+        `Hold duration must be between 1 and ${SlotHold.MAX_HOLD_MINUTES} minutes`,
+      );
+    }
+  }
+
+  /**
+   * Ejecuta todas las validaciones necesarias para la reserva
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    if (!this.stylistId || this.stylistId.trim().length === 0) {
+      throw new ValidationError('Stylist ID is required');
+    }
+
+    if (!(this.dateTime instanceof Date) || isNaN(this.dateTime.getTime())) {
+      throw new ValidationError('Invalid hold start date');
+    }
+
+    if (!Number.isInteger(this.duration) || this.duration <= 0) {
+      throw new ValidationError('Hold duration must be a positive number of minutes');
+    }
+
+    if (!(this.expiresAt instanceof Date) || isNaN(this.expiresAt.getTime())) {
+      throw new ValidationError('Invalid hold expiration date');
+    }
+
+    if (this.token && !this.clientId) {
+      throw new ValidationError('A checkout hold requires a client');
+    }
+  }
+
+  /**
+   * Verifica si la reserva sigue vigente
+   * @param now - Instante de referencia
+   * @returns true si todavía no venció
+   */
+  isActive(now: Date = new Date()): boolean {
+    return this.expiresAt > now;
+  }
+
+  /**
+   * Verifica si es una reserva de checkout (y no de un turno liberado)
+   * @returns true si la reserva tiene token de checkout
+   */
+  isCheckoutHold(): boolean {
+    return this.token !== undefined;
+  }
+
+  /**
+   * Verifica si un cliente puede reservar el turno retenido
+   * @param clientId - Cliente (User.id)
+   * @returns true si el cliente es uno de los destinatarios de la reserva
+   */
+  isHeldFor(clientId: string): boolean {
+    return this.clientIds.includes(clientId);
+  }
+
+  /**
+   * Obtiene el fin del turno retenido
+   * @returns Fecha y hora de fin
+   */
+  getEndTime(): Date {
+    return new Date(this.dateTime.getTime() + this.duration * 60000);
+  }
+
+  /**
+   * Verifica si el turno retenido se solapa con un rango, ampliado con los buffers de la cita que
+   * se quiere reservar (misma regla que `Appointment.overlapsRange`)
+   * @param start - Inicio del rango
+   * @param end - Fin del rango
+   * @param buffer - Buffers de la nueva cita
+   * @returns true si ambos rangos se solapan
+   */
+  overlapsRange(
+    start: Date,
+    end: Date,
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+  ): boolean {
+    const rangeStart = start.getTime() - buffer.before * 60000;
+    const rangeEnd = end.getTime() + buffer.after * 60000;
+
+    return this.dateTime.getTime() < rangeEnd && this.getEndTime().getTime() > rangeStart;
+  }
+
+  /**
+   * Convierte la entidad a formato de persistencia (en las reservas de turnos liberados, los
+   * clientes se vinculan por su entrada en la lista de espera)
+   * @returns Objeto plano con las columnas de la reserva
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      stylistId: this.stylistId,
+      dateTime: this.dateTime,
+      duration: this.duration,
+      expiresAt: this.expiresAt,
+      createdAt: this.createdAt,
+      clientId: this.clientId ?? null,
+      token: this.token ?? null,
+    };
+  }
+}
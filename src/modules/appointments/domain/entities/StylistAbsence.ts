@@ -0,0 +1,159 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+
+/**
+ * Enumeración de tipos de ausencia de un estilista
+ */
+export enum AbsenceTypeEnum {
+  /** Vacaciones */
+  VACATION = 'VACATION',
+  /** Licencia médica */
+  SICK_LEAVE = 'SICK_LEAVE',
+  /** Asunto personal (ej: bloqueo de unas horas) */
+  PERSONAL = 'PERSONAL',
+  /** Otro motivo */
+  OTHER = 'OTHER',
+}
+
+/**
+ * Entidad de dominio que representa una ausencia de un estilista
+ * @description Bloquea la agenda de un único estilista en el rango [startDateTime, endDateTime).
+ * Puede abarcar varios días (vacaciones) o solo unas horas de un día (bloqueo parcial).
+ */
+export class StylistAbsence {
+  /** Duración máxima de una ausencia (1 año) */
+  static readonly MAX_DURATION_DAYS = 365;
+
+  constructor(
+    public id: string,
+    public stylistId: string,
+    public type: AbsenceTypeEnum,
+    public startDateTime: Date,
+    public endDateTime: Date,
+    public reason?: string,
+    public createdAt: Date = new Date(),
+    public updatedAt: Date = new Date(),
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea una nueva ausencia con validaciones automáticas
+   * @param stylistId - ID del estilista (User.id con rol STYLIST)
+   * @param type - Tipo de ausencia
+   * @param startDateTime - Inicio de la ausencia (inclusive)
+   * @param endDateTime - Fin de la ausencia (exclusive)
+   * @param reason - Motivo opcional
+   * @returns Nueva instancia de StylistAbsence
+   * @throws ValidationError si los datos no son válidos
+   */
+  static create(
+    stylistId: string,
+    type: AbsenceTypeEnum,
+    startDateTime: Date,
+    endDateTime: Date,
+    reason?: string,
+  ): StylistAbsence {
+    return new StylistAbsence(
+      generateUuid(),
+      stylistId,
+      type,
+      startDateTime,
+      endDateTime,
+      reason,
+      new Date(),
+      new Date(),
+    );
+  }
+
+  /**
+   * Reconstruye una ausencia desde datos de persistencia
+   * @param data - Datos de la ausencia desde la base de datos
+   * @returns Instancia de StylistAbsence desde persistencia
+   */
+  static fromPersistence(data: {
+    id: string;
+    stylistId: string;
+    type: AbsenceTypeEnum;
+    startDateTime: Date;
+    endDateTime: Date;
+    reason: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): StylistAbsence {
+    return new StylistAbsence(
+      data.id,
+      data.stylistId,
+      data.type,
+      data.startDateTime,
+      data.endDateTime,
+      data.reason || undefined,
+      data.createdAt,
+      data.updatedAt,
+    );
+  }
+
+  /**
+   * Ejecuta todas las validaciones necesarias para la ausencia
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    if (!this.stylistId || this.stylistId.trim().length === 0) {
+      throw new ValidationError('Stylist ID is required');
+    }
+
+    if (!Object.values(AbsenceTypeEnum).includes(this.type)) {
+      throw new ValidationError('Invalid absence type');
+    }
+
+    if (!(this.startDateTime instanceof Date) || isNaN(this.startDateTime.getTime())) {
+      throw new ValidationError('Invalid absence start date');
+    }
+
+    if (!(this.endDateTime instanceof Date) || isNaN(this.endDateTime.getTime())) {
+      throw new ValidationError('Invalid absence end date');
+    }
+
+    if (this.startDateTime >= this.endDateTime) {
+      throw new ValidationError('Absence start must be before absence end');
+    }
+
+    const maxDurationMs = StylistAbsence.MAX_DURATION_DAYS * 24 * 60 * 60 * 1000;
+    if (this.endDateTime.getTime() - this.startDateTime.getTime() > maxDurationMs) {
+      throw new ValidationError(
+        `Absence cannot last more than ${StylistAbsence.MAX_DURATION_DAYS} days`,
+      );
+    }
+
+    if (this.reason && this.reason.length > 500) {
+      throw new ValidationError('Absence reason cannot exceed 500 characters');
+    }
+  }
+
+  /**
+   * Verifica si la ausencia se solapa con un rango de tiempo
+   * @param start - Inicio del rango
+   * @param end - Fin del rango
+   * @returns true si ambos rangos se solapan
+   */
+  overlaps(start: Date, end: Date): boolean {
+    return this.startDateTime < end && this.endDateTime > start;
+  }
+
+  /**
+   * Convierte la entidad a formato de persistencia para guardar en base de datos
+   * @returns Objeto plano con todas las propiedades de la ausencia
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      stylistId: this.stylistId,
+      type: this.type,
+      startDateTime: this.startDateTime,
+      endDateTime: this.endDateTime,
+      reason: this.reason ?? null,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
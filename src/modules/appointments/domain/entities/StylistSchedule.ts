@@ -0,0 +1,230 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { DayOfWeekEnum } from './Schedule';
+
+/**
+ * Tramo horario continuo dentro de un día (formato HH:MM)
+ */
+export interface WorkingInterval {
+  /** Hora de inicio del tramo (formato HH:MM) */
+  startTime: string;
+  /** Hora de fin del tramo (formato HH:MM) */
+  endTime: string;
+}
+
+/**
+ * Entidad de dominio que representa un turno semanal de un estilista
+ * @description Un estilista puede tener varios turnos el mismo día (turno partido)
+ * y cada turno puede incluir un descanso (ej: almuerzo). Si un estilista no tiene
+ * ningún turno configurado, se asume que trabaja el horario completo del salón.
+ */
+export class StylistSchedule {
+  constructor(
+    public id: string,
+    public stylistId: string,
+    public dayOfWeek: DayOfWeekEnum,
+    public startTime: string, // Formato: "HH:MM"
+    public endTime: string, // Formato: "HH:MM"
+    public breakStartTime?: string, // Formato: "HH:MM"
+    public breakEndTime?: string, // Formato: "HH:MM"
+    public createdAt: Date = new Date(),
+    public updatedAt: Date = new Date(),
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea un nuevo turno de estilista con validaciones automáticas
+   * @param stylistId - ID del estilista (User.id con rol STYLIST)
+   * @param dayOfWeek - Día de la semana del turno
+   * @param startTime - Hora de inicio en formato HH:MM
+   * @param endTime - Hora de fin en formato HH:MM
+   * @param breakStartTime - Inicio del descanso en formato HH:MM (opcional)
+   * @param breakEndTime - Fin del descanso en formato HH:MM (opcional)
+   * @returns Nueva instancia de StylistSchedule
+   * @throws ValidationError si los datos no son válidos
+   */
+  static create(
+    stylistId: string,
+    dayOfWeek: DayOfWeekEnum,
+    startTime: string,
+    endTime: string,
+    breakStartTime?: string,
+    breakEndTime?: string,
+  ): StylistSchedule {
+    return new StylistSchedule(
+      generateUuid(),
+      stylistId,
+      dayOfWeek,
+      startTime,
+      endTime,
+      breakStartTime,
+      breakEndTime,
+      new Date(),
+      new Date(),
+    );
+  }
+
+  /**
+   * Reconstruye un turno de estilista desde datos de persistencia
+   * @param data - Datos del turno desde la base de datos
+   * @returns Instancia de StylistSchedule desde persistencia
+   */
+  static fromPersistence(data: {
+    id: string;
+    stylistId: string;
+    dayOfWeek: DayOfWeekEnum;
+    startTime: string;
+    endTime: string;
+    breakStartTime: string | null;
+    breakEndTime: string | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): StylistSchedule {
+    return new StylistSchedule(
+      data.id,
+      data.stylistId,
+      data.dayOfWeek,
+      data.startTime,
+      data.endTime,
+      data.breakStartTime || undefined,
+      data.breakEndTime || undefined,
+      data.createdAt,
+      data.updatedAt,
+    );
+  }
+
+  /**
+   * Ejecuta todas las validaciones necesarias para el turno
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    if (!this.stylistId || this.stylistId.trim().length === 0) {
+      throw new ValidationError('Stylist ID is required');
+    }
+
+    if (!Object.values(DayOfWeekEnum).includes(this.dayOfWeek)) {
+      throw new ValidationError('Invalid day of week');
+    }
+
+    this.validateTimeFormat(this.startTime, 'Start time');
+    this.validateTimeFormat(this.endTime, 'End time');
+
+    if (this.timeToMinutes(this.startTime) >= this.timeToMinutes(this.endTime)) {
+      throw new ValidationError('Start time must be before end time');
+    }
+
+    this.validateBreak();
+  }
+
+  /**
+   * Valida que el descanso (si existe) esté completo y dentro del turno
+   * @throws ValidationError si el descanso no es válido
+   */
+  private validateBreak(): void {
+    if (!this.breakStartTime && !this.breakEndTime) {
+      return;
+    }
+
+    if (!this.breakStartTime || !this.breakEndTime) {
+      throw new ValidationError('Break start time and break end time must be provided together');
+    }
+
+    this.validateTimeFormat(this.breakStartTime, 'Break start time');
+    this.validateTimeFormat(this.breakEndTime, 'Break end time');
+
+    const breakStart = this.timeToMinutes(this.breakStartTime);
+    const breakEnd = this.timeToMinutes(this.breakEndTime);
+
+    if (breakStart >= breakEnd) {
+      throw new ValidationError('Break start time must be before break end time');
+    }
+
+    if (
+      breakStart <= this.timeToMinutes(this.startTime) ||
+      breakEnd >= this.timeToMinutes(this.endTime)
+    ) {
+      throw new ValidationError('Break must fall strictly within the shift');
+    }
+  }
+
+  /**
+   * Valida que el formato de hora sea correcto (HH:MM)
+   * @param time - Hora a validar
+   * @param fieldName - Nombre del campo para mensajes de error
+   * @throws ValidationError si el formato no es válido
+   */
+  private validateTimeFormat(time: string, fieldName: string): void {
+    const timeRegex = /^([0-1]?[0-9]|2[0-3]):[0-5][0-9]$/;
+    if (!timeRegex.test(time)) {
+      throw new ValidationError(`${fieldName} must be in HH:mm format`);
+    }
+  }
+
+  /**
+   * Convierte una hora en formato HH:MM a minutos desde medianoche
+   * @param time - Hora en formato HH:MM
+   * @returns Número de minutos desde las 00:00
+   */
+  private timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
+  /**
+   * Indica si el turno tiene un descanso configurado
+   * @returns true si el turno incluye descanso
+   */
+  hasBreak(): boolean {
+    return !!this.breakStartTime && !!this.breakEndTime;
+  }
+
+  /**
+   * Obtiene los tramos efectivamente trabajados del turno (descontando el descanso)
+   * @returns Uno o dos tramos continuos según si el turno tiene descanso
+   */
+  getWorkingIntervals(): WorkingInterval[] {
+    if (!this.hasBreak()) {
+      return [{ startTime: this.startTime, endTime: this.endTime }];
+    }
+
+    return [
+      { startTime: this.startTime, endTime: this.breakStartTime! },
+      { startTime: this.breakEndTime!, endTime: this.endTime },
+    ];
+  }
+
+  /**
+   * Verifica si este turno se solapa con otro turno del mismo día
+   * @param other - Otro turno del estilista
+   * @returns true si ambos turnos caen el mismo día y sus rangos se solapan
+   */
+  overlapsWith(other: StylistSchedule): boolean {
+    if (this.dayOfWeek !== other.dayOfWeek) {
+      return false;
+    }
+
+    return (
+      this.timeToMinutes(this.startTime) < this.timeToMinutes(other.endTime) &&
+      this.timeToMinutes(this.endTime) > this.timeToMinutes(other.startTime)
+    );
+  }
+
+  /**
+   * Convierte la entidad a formato de persistencia para guardar en base de datos
+   * @returns Objeto plano con todas las propiedades del turno
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      stylistId: this.stylistId,
+      dayOfWeek: this.dayOfWeek,
+      startTime: this.startTime,
+      endTime: this.endTime,
+      breakStartTime: this.breakStartTime ?? null,
+      breakEndTime: this.breakEndTime ?? null,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,249 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+
+/**
+ * Estados de una entrada de la lista de espera
+ * @description Corresponde al enum WaitlistStatus de Prisma
+ */
+export enum WaitlistStatusEnum {
+  /** Esperando que se libere un turno */
+  ACTIVE = 'ACTIVE',
+  /** El cliente reservó el turno que se le ofreció */
+  FULFILLED = 'FULFILLED',
+  /** El cliente salió de la lista de espera */
+  CANCELLED = 'CANCELLED',
+}
+
+/**
+ * Entidad de dominio que representa el pedido de un cliente para que le avisen si se libera un
+ * turno
+ * @description Cubre un rango de días locales del salón [fromDate, toDate] (fechas sin hora,
+ * 00:00 UTC), los servicios que quiere reservar y, opcionalmente, un estilista. `holdId` apunta a
+ * la reserva temporal que se le ofreció por última vez.
+ */
+export class WaitlistEntry {
+  /** Máximo de días que puede abarcar una entrada */
+  static readonly MAX_RANGE_DAYS = 31;
+
+  constructor(
+    public id: string,
+    public clientId: string,
+    public userId: string,
+    public serviceIds: string[],
+    public fromDate: Date,
+    public toDate: Date,
+    public status: WaitlistStatusEnum = WaitlistStatusEnum.ACTIVE,
+    public stylistId?: string,
+    public holdId?: string,
+    public lastNotifiedAt?: Date,
+    public createdAt: Date = new Date(),
+    public updatedAt: Date = new Date(),
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea una nueva entrada activa con validaciones automáticas
+   * @param clientId - Cliente que espera el turno (User.id)
+   * @param userId - Usuario que creó la entrada (User.id)
+   * @param serviceIds - Servicios que el cliente quiere reservar
+   * @param fromDate - Primer día aceptable (día local del salón, sin hora)
+   * @param toDate - Último día aceptable (día local del salón, sin hora)
+   * @param stylistId - Estilista preferido (opcional; sin él sirve cualquiera)
+   * @returns Nueva instancia de WaitlistEntry
+   * @throws ValidationError si los datos no son válidos
+   */
+  static create(
+    clientId: string,
+    userId: string,
+    serviceIds: string[],
+    fromDate: Date,
+    toDate: Date,
+    stylistId?: string,
+  ): WaitlistEntry {
+    return new WaitlistEntry(
+      generateUuid(),
+      clientId,
+      userId,
+      serviceIds,
+      fromDate,
+      toDate,
+      WaitlistStatusEnum.ACTIVE,
+      stylistId,
+      undefined,
+      undefined,
+      new Date(),
+      new Date(),
+    );
+  }
+
+  /**
+   * Reconstruye una entrada desde datos de persistencia
+   * @param data - Datos de la entrada desde la base de datos
+   * @returns Instancia de WaitlistEntry desde persistencia
+   */
+  static fromPersistence(data: {
+    id: string;
+    clientId: string;
+    userId: string;
+    serviceIds: string[];
+    fromDate: Date;
+    toDate: Date;
+    status: string;
+    stylistId: string | null;
+    holdId: string | null;
+    lastNotifiedAt: Date | null;
+    createdAt: Date;
+    updatedAt: Date;
+  }): WaitlistEntry {
+    return new WaitlistEntry(
+      data.id,
+      data.clientId,
+      data.userId,
+      data.serviceIds,
+      data.fromDate,
+      data.toDate,
+      data.status as WaitlistStatusEnum,
+      data.stylistId ?? undefined,
+      data.holdId ?? undefined,
+      data.lastNotifiedAt ?? undefined,
+      data.createdAt,
+      data.updatedAt,
+    );
+  }
+
+  /**
+   * Ejecuta todas las validaciones necesarias para la entrada
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    if (!this.clientId || this.clientId.trim().length === 0) {
+      throw new ValidationError('Client ID is required');
+    }
+
+    if (!this.userId || this.userId.trim().length === 0) {
+      throw new ValidationError('User ID is required');
+    }
+
+    if (!this.serviceIds || this.serviceIds.length === 0) {
+      throw new ValidationError('At least one service must be selected');
+    }
+
+    if (new Set(this.serviceIds).size !== this.serviceIds.length) {
+      throw new ValidationError('Duplicate services are not allowed');
+    }
+
+    if (!(this.fromDate instanceof Date) || isNaN(this.fromDate.getTime())) {
+      throw new ValidationError('Invalid waitlist start date');
+    }
+
+    if (!(this.toDate instanceof Date) || isNaN(this.toDate.getTime())) {
+      throw new ValidationError('Invalid waitlist end date');
+    }
+
+    if (this.fromDate > this.toDate) {
+      throw new ValidationError('Waitlist start date must be on or before the end date');
+    }
+
+    const rangeDays = (this.toDate.getTime() - this.fromDate.getTime()) / (24 * 60 * 60 * 1000);
+    if (rangeDays >= WaitlistEntry.MAX_RANGE_DAYS) {
+      throw new ValidationError(
+        `A waitlist entry cannot cover more than ${WaitlistEntry.MAX_RANGE_DAYS} days`,
+      );
+    }
+
+    if (!Object.values(WaitlistStatusEnum).includes(this.status)) {
+      throw new ValidationError('Invalid waitlist status');
+    }
+  }
+
+  /**
+   * Verifica si la entrada sigue esperando un turno
+   * @returns true si está ACTIVE
+   */
+  isActive(): boolean {
+    return this.status === WaitlistStatusEnum.ACTIVE;
+  }
+
+  /**
+   * Verifica si un día cae dentro del rango de la entrada
+   * @param salonDate - Día local del salón (fecha sin hora)
+   * @returns true si fromDate <= salonDate <= toDate
+   */
+  coversDate(salonDate: Date): boolean {
+    return salonDate >= this.fromDate && salonDate <= this.toDate;
+  }
+
+  /**
+   * Verifica si la entrada acepta un turno con un estilista
+   * @param stylistId - Estilista del turno (User.id)
+   * @returns true si la entrada no tiene estilista preferido o es el mismo
+   */
+  acceptsStylist(stylistId: string): boolean {
+    return !this.stylistId || this.stylistId === stylistId;
+  }
+
+  /**
+   * Registra que se le ofreció al cliente un turno reservado temporalmente
+   * @param holdId - ID de la reserva temporal
+   * @param notifiedAt - Momento del aviso
+   */
+  offerHold(holdId: string, notifiedAt: Date = new Date()): void {
+    this.holdId = holdId;
+    this.lastNotifiedAt = notifiedAt;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Marca la entrada como cumplida (el cliente reservó el turno ofrecido)
+   * @throws BusinessRuleError si la entrada no está activa
+   */
+  markAsFulfilled(): void {
+    this.ensureActive();
+    this.status = WaitlistStatusEnum.FULFILLED;
+    this.holdId = undefined;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Saca al cliente de la lista de espera
+   * @throws BusinessRuleError si la entrada no está activa
+   */
+  cancel(): void {
+    this.ensureActive();
+    this.status = WaitlistStatusEnum.CANCELLED;
+    this.holdId = undefined;
+    this.updatedAt = new Date();
+  }
+
+  /**
+   * Verifica que la entrada siga activa antes de cambiar su estado
+   * @throws BusinessRuleError si la entrada ya fue cumplida o cancelada
+   */
+  private ensureActive(): void {
+    if (!this.isActive()) {
+      throw new BusinessRuleError(`Waitlist entry is already ${this.status.toLowerCase()}`);
+    }
+  }
+
+  /**
+   * Convierte la entidad a formato de persistencia (sin la relación con servicios)
+   * @returns Objeto plano con las columnas de la entrada
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      clientId: this.clientId,
+      userId: this.userId,
+      fromDate: this.fromDate,
+      toDate: this.toDate,
+      status: this.status,
+      stylistId: this.stylistId ?? null,
+      holdId: this.holdId ?? null,
+      lastNotifiedAt: this.lastNotifiedAt ?? null,
+      createdAt: this.createdAt,
+      updatedAt: this.updatedAt,
+    };
+  }
+}
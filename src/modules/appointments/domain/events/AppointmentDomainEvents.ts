@@ -0,0 +1,68 @@
+import { Appointment } from '../entities/Appointment';
+import { AppointmentActor } from '../entities/AppointmentEvent';
+import { DomainEvent } from '../../../../shared/events/DomainEvent';
+
+/**
+ * Datos comunes de los eventos de dominio de una cita
+ * @description Copia los datos de la cita al publicarse: los suscriptores no reciben la entidad
+ */
+abstract class AppointmentDomainEvent implements DomainEvent {
+  abstract readonly eventName: string;
+  readonly occurredAt = new Date();
+  readonly appointmentId: string;
+  readonly clientId: string;
+  readonly stylistId?: string;
+  readonly dateTime: Date;
+
+  constructor(
+    appointment: Appointment,
+    readonly actor: AppointmentActor,
+  ) {
+    this.appointmentId = appointment.id;
+    this.clientId = appointment.clientId;
+    this.stylistId = appointment.stylistId;
+    this.dateTime = appointment.dateTime;
+  }
+}
+
+/**
+ * Una cita pasó a CONFIRMED
+ */
+export class AppointmentConfirmedEvent extends AppointmentDomainEvent {
+  static readonly EVENT_NAME = 'appointment.confirmed';
+  readonly eventName = AppointmentConfirmedEvent.EVENT_NAME;
+}
+
+/**
+ * Una cita pasó a CANCELLED (por un usuario o por el sistema)
+ */
+export class AppointmentCancelledEvent extends AppointmentDomainEvent {
+  static readonly EVENT_NAME = 'appointment.cancelled';
+  readonly eventName = AppointmentCancelledEvent.EVENT_NAME;
+
+  constructor(
+    appointment: Appointment,
+    actor: AppointmentActor,
+    readonly reason?: string,
+  ) {
+    super(appointment, actor);
+  }
+}
+
+/**
+ * Una cita cambió de fecha/hora o de estilista
+ */
+export class AppointmentRescheduledEvent extends AppointmentDomainEvent {
+  static readonly EVENT_NAME = 'appointment.rescheduled';
+  readonly eventName = AppointmentRescheduledEvent.EVENT_NAME;
+
+  constructor(
+    appointment: Appointment,
+    actor: AppointmentActor,
+    readonly previousDateTime: Date,
+    readonly previousStylistId?: string,
+    readonly reason?: string,
+  ) {
+    super(appointment, actor);
+  }
+}
@@ -0,0 +1,20 @@
+import { AppointmentEvent } from '../entities/AppointmentEvent';
+
+/**
+ * Interfaz del repositorio para el historial de cambios de las citas
+ * @description Append-only: no expone operaciones de modificación ni de borrado
+ */
+export interface IAppointmentEventRepository {
+  /**
+   * Agrega entradas al historial
+   * @param events - Eventos a guardar
+   */
+  saveMany(events: AppointmentEvent[]): Promise<void>;
+
+  /**
+   * Obtiene el historial de una cita en orden cronológico
+   * @param appointmentId - ID de la cita
+   * @returns Promise con los eventos de la cita, del más antiguo al más reciente
+   */
+  findByAppointmentId(appointmentId: string): Promise<AppointmentEvent[]>;
+}
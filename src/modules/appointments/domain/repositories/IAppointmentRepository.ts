@@ -1,4 +1,34 @@
-import { Appointment } from '../entities/Appointment';
+import { Appointment, AppointmentBuffer } from '../entities/Appointment';
+
+/**
+ * Filtros del listado general de citas (todos opcionales y combinables)
+ */
+export interface AppointmentSearchFilters {
+  statusId?: string;
+  /** Inicio del rango de fecha de la cita (inclusive) */
+  startDate?: Date;
+  /** Fin del rango de fecha de la cita (inclusive) */
+  endDate?: Date;
+  stylistId?: string;
+  clientId?: string;
+  /** Citas que incluyen este servicio */
+  serviceId?: string;
+  /** Citas que incluyen algún servicio de esta categoría */
+  categoryId?: string;
+  /** Texto a buscar (sin distinguir mayúsculas) en el nombre o email del cliente */
+  search?: string;
+}
+
+/** Campos por los que se puede ordenar el listado general de citas */
+export type AppointmentSortField = 'dateTime' | 'createdAt' | 'clientName';
+
+/**
+ * Orden del listado general de citas
+ */
+export interface AppointmentSearchSort {
+  field: AppointmentSortField;
+  direction: 'asc' | 'desc';
+}
 
 /**
  * Interfaz del repositorio para la gestión de persistencia de citas
@@ -49,14 +79,58 @@ export interface IAppointmentRepository {
     stylistId: string,
     ownershipFilter?: { userId?: string; clientId?: string },
   ): Promise<number>;
+  /**
+   * Busca citas de forma paginada aplicando los filtros del listado general (ADMIN)
+   * @param filters - Filtros combinados con AND
+   * @param sort - Campo y sentido del orden; a igual valor se desempata por ID
+   */
+  findWithFilters(
+    filters: AppointmentSearchFilters,
+    sort: AppointmentSearchSort,
+    limit: number,
+    offset: number,
+  ): Promise<Appointment[]>;
+  /** Cuenta las citas que cumplen los mismos filtros que findWithFilters */
+  countWithFilters(filters: AppointmentSearchFilters): Promise<number>;
   findByUserId(userId: string): Promise<Appointment[]>;
   findByStatusId(statusId: string): Promise<Appointment[]>;
   findByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]>;
   findByClientAndDateRange(clientId: string, startDate: Date, endDate: Date): Promise<Appointment[]>;
   findByStylistAndDateRange(stylistId: string, startDate: Date, endDate: Date): Promise<Appointment[]>;
-  findConflictingAppointments(dateTime: Date, duration: number, stylistId?: string, excludeAppointmentId?: string): Promise<Appointment[]>;
+  /**
+   * Busca citas cuyo bloque ocupado (duración más buffers) se solapa con el de la nueva cita
+   * @description Las citas CANCELLED y NO_SHOW ya liberaron su turno y no cuentan como conflicto
+   * @param buffer - Buffers de la nueva cita (por defecto sin buffer)
+   */
+  findConflictingAppointments(
+    dateTime: Date,
+    duration: number,
+    stylistId?: string,
+    excludeAppointmentId?: string,
+    buffer?: AppointmentBuffer,
+  ): Promise<Appointment[]>;
+  /**
+   * Guarda una nueva cita solo si su estilista sigue libre en ese horario
+   * @description La verificación de conflictos (misma regla que findConflictingAppointments, más
+   * las reservas temporales vigentes de otros clientes) y el guardado se hacen de forma atómica y
+   * serializada por estilista, junto con ISlotHoldRepository.saveIfSlotFree, de modo que dos
+   * reservas simultáneas del mismo turno no puedan guardarse ambas
+   * @returns La cita guardada, o null si otra cita o una reserva de otro cliente ocupa el horario
+   */
+  saveIfNoConflicts(appointment: Appointment): Promise<Appointment | null>;
+  /**
+   * Actualiza una cita solo si su estilista sigue libre en el nuevo horario (sin contar la propia
+   * cita), con la misma verificación atómica que saveIfNoConflicts
+   * @returns La cita actualizada, o null si otra cita o una reserva de otro cliente ocupa el
+   * horario
+   */
+  updateIfNoConflicts(appointment: Appointment): Promise<Appointment | null>;
   findByScheduleId(scheduleId: string): Promise<Appointment[]>;
   findByDate(date: Date): Promise<Appointment[]>;
+  /** Busca las citas de un rango que ocupan su turno: excluye las CANCELLED y NO_SHOW */
+  findBlockingByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]>;
+  /** Busca las citas de una serie recurrente ordenadas por fecha */
+  findBySeriesId(seriesId: string): Promise<Appointment[]>;
   countByStatus(statusId: string): Promise<number>;
   countByDateRange(startDate: Date, endDate: Date): Promise<number>;
   findUpcomingAppointments(limit?: number): Promise<Appointment[]>;
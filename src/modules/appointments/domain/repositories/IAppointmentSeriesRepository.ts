@@ -0,0 +1,26 @@
+import { AppointmentSeries } from '../entities/AppointmentSeries';
+
+/**
+ * Interfaz del repositorio para la gestión de series de citas recurrentes
+ */
+export interface IAppointmentSeriesRepository {
+  /**
+   * Guarda una nueva serie
+   * @param series - Serie a guardar
+   * @returns Promise con la serie guardada
+   */
+  save(series: AppointmentSeries): Promise<AppointmentSeries>;
+
+  /**
+   * Busca una serie por su ID
+   * @param id - ID de la serie
+   * @returns Promise con la serie o null si no existe
+   */
+  findById(id: string): Promise<AppointmentSeries | null>;
+
+  /**
+   * Elimina una serie (sus citas se conservan como citas sueltas)
+   * @param id - ID de la serie
+   */
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { CancellationPolicy } from '../entities/CancellationPolicy';
+
+/**
+ * Interfaz del repositorio de la política de cancelación del salón (única)
+ */
+export interface ICancellationPolicyRepository {
+  /**
+   * Obtiene la política vigente
+   * @returns Promise con la política guardada, o la política por defecto si no hay ninguna
+   */
+  get(): Promise<CancellationPolicy>;
+
+  /**
+   * Reemplaza la política vigente, incluidos los avisos por servicio
+   * @param policy - Política a guardar
+   * @returns Promise con la política guardada
+   */
+  save(policy: CancellationPolicy): Promise<CancellationPolicy>;
+}
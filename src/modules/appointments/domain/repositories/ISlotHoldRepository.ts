@@ -0,0 +1,59 @@
+import { AppointmentBuffer } from '../entities/Appointment';
+import { SlotHold } from '../entities/SlotHold';
+
+/**
+ * Interfaz del repositorio para las reservas temporales de turnos
+ */
+export interface ISlotHoldRepository {
+  /**
+   * Guarda una nueva reserva
+   * @param hold - Reserva a guardar
+   * @returns Promise con la reserva guardada
+   */
+  save(hold: SlotHold): Promise<SlotHold>;
+
+  /**
+   * Guarda una nueva reserva solo si su turno sigue libre
+   * @description La verificación (sin citas del estilista ni reservas vigentes de otros clientes
+   * en el turno) y el guardado se hacen de forma atómica y serializada por estilista, junto con
+   * las reservas de citas, de modo que dos clientes no puedan retener el mismo turno
+   * @param hold - Reserva a guardar
+   * @param buffer - Buffers de la cita que se reservaría en el turno
+   * @returns Promise con la reserva guardada, o null si el turno ya no está libre
+   */
+  saveIfSlotFree(hold: SlotHold, buffer?: AppointmentBuffer): Promise<SlotHold | null>;
+
+  /**
+   * Obtiene las reservas vigentes cuyo turno empieza dentro de un rango
+   * @param startDate - Inicio del rango
+   * @param endDate - Fin del rango
+   * @param stylistId - ID del estilista (opcional, por defecto todos)
+   * @param now - Instante de referencia para descartar las vencidas
+   * @returns Promise con las reservas ordenadas por inicio, con los clientes que las pueden usar
+   */
+  findActiveByDateRange(
+    startDate: Date,
+    endDate: Date,
+    stylistId?: string,
+    now?: Date,
+  ): Promise<SlotHold[]>;
+
+  /**
+   * Busca una reserva de checkout por su token (vigente o no)
+   * @param token - Token de la reserva
+   * @returns Promise con la reserva o null si no existe
+   */
+  findByToken(token: string): Promise<SlotHold | null>;
+
+  /**
+   * Elimina las reservas de checkout de un cliente
+   * @param clientId - Cliente (User.id)
+   */
+  deleteCheckoutHoldsByClient(clientId: string): Promise<void>;
+
+  /**
+   * Elimina una reserva (las entradas de la lista de espera que la apuntaban quedan sin reserva)
+   * @param id - ID de la reserva
+   */
+  delete(id: string): Promise<void>;
+}
@@ -0,0 +1,43 @@
+import { StylistAbsence } from '../entities/StylistAbsence';
+
+/**
+ * Interfaz del repositorio para la gestión de ausencias de estilistas
+ */
+export interface IStylistAbsenceRepository {
+  /**
+   * Guarda una nueva ausencia
+   * @param absence - Ausencia a guardar
+   * @returns Promise con la ausencia guardada
+   */
+  save(absence: StylistAbsence): Promise<StylistAbsence>;
+
+  /**
+   * Busca una ausencia por su ID
+   * @param id - ID de la ausencia
+   * @returns Promise con la ausencia o null si no existe
+   */
+  findById(id: string): Promise<StylistAbsence | null>;
+
+  /**
+   * Obtiene las ausencias de un estilista que se solapan con un rango de fechas
+   * @param stylistId - ID del estilista (User.id)
+   * @param startDate - Inicio del rango
+   * @param endDate - Fin del rango
+   * @returns Promise con las ausencias ordenadas por fecha de inicio
+   */
+  findOverlapping(stylistId: string, startDate: Date, endDate: Date): Promise<StylistAbsence[]>;
+
+  /**
+   * Obtiene las ausencias de un estilista que terminan a partir de una fecha
+   * @param stylistId - ID del estilista (User.id)
+   * @param from - Fecha desde la cual listar (por defecto, todas)
+   * @returns Promise con las ausencias ordenadas por fecha de inicio
+   */
+  findByStylistId(stylistId: string, from?: Date): Promise<StylistAbsence[]>;
+
+  /**
+   * Elimina una ausencia
+   * @param id - ID de la ausencia
+   */
+  delete(id: string): Promise<void>;
+}
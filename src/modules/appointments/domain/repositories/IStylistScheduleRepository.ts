@@ -0,0 +1,30 @@
+import { StylistSchedule } from '../entities/StylistSchedule';
+import { DayOfWeekEnum } from '../entities/Schedule';
+
+/**
+ * Interfaz del repositorio para la gestión de turnos semanales de estilistas
+ */
+export interface IStylistScheduleRepository {
+  /**
+   * Obtiene todos los turnos semanales de un estilista
+   * @param stylistId - ID del estilista (User.id)
+   * @returns Promise con los turnos ordenados por día y hora de inicio
+   */
+  findByStylistId(stylistId: string): Promise<StylistSchedule[]>;
+
+  /**
+   * Obtiene los turnos de un estilista para un día de la semana
+   * @param stylistId - ID del estilista (User.id)
+   * @param dayOfWeek - Día de la semana
+   * @returns Promise con los turnos del día ordenados por hora de inicio
+   */
+  findByStylistAndDay(stylistId: string, dayOfWeek: DayOfWeekEnum): Promise<StylistSchedule[]>;
+
+  /**
+   * Reemplaza por completo la semana de turnos de un estilista en una transacción
+   * @param stylistId - ID del estilista (User.id)
+   * @param schedules - Nuevos turnos (lista vacía = volver a heredar el horario del salón)
+   * @returns Promise con los turnos guardados
+   */
+  replaceForStylist(stylistId: string, schedules: StylistSchedule[]): Promise<StylistSchedule[]>;
+}
@@ -0,0 +1,48 @@
+import { WaitlistEntry } from '../entities/WaitlistEntry';
+
+/**
+ * Interfaz del repositorio para la gestión de la lista de espera
+ */
+export interface IWaitlistEntryRepository {
+  /**
+   * Guarda una nueva entrada con sus servicios
+   * @param entry - Entrada a guardar
+   * @returns Promise con la entrada guardada
+   */
+  save(entry: WaitlistEntry): Promise<WaitlistEntry>;
+
+  /**
+   * Actualiza el estado y la reserva ofrecida de una entrada existente
+   * @param entry - Entrada con los cambios
+   * @returns Promise con la entrada actualizada
+   */
+  update(entry: WaitlistEntry): Promise<WaitlistEntry>;
+
+  /**
+   * Busca una entrada por su ID
+   * @param id - ID de la entrada
+   * @returns Promise con la entrada o null si no existe
+   */
+  findById(id: string): Promise<WaitlistEntry | null>;
+
+  /**
+   * Obtiene todas las entradas de un cliente
+   * @param clientId - ID del cliente (User.id)
+   * @returns Promise con las entradas, las más recientes primero
+   */
+  findByClientId(clientId: string): Promise<WaitlistEntry[]>;
+
+  /**
+   * Obtiene las entradas activas cuyo rango incluye un día
+   * @param salonDate - Día local del salón (fecha sin hora)
+   * @returns Promise con las entradas en orden de llegada (las más antiguas primero)
+   */
+  findActiveForDate(salonDate: Date): Promise<WaitlistEntry[]>;
+
+  /**
+   * Obtiene las entradas activas a las que se ofreció una reserva
+   * @param holdId - ID de la reserva temporal
+   * @returns Promise con las entradas
+   */
+  findActiveByHoldId(holdId: string): Promise<WaitlistEntry[]>;
+}
@@ -0,0 +1,77 @@
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
+import { AppointmentBuffer } from '../entities/Appointment';
+
+/**
+ * Servicio de dominio para calcular la duración que ocupa una cita en la agenda
+ *
+ * Es la única fuente de verdad de la duración: la usan tanto CreateAppointment como
+ * GetAvailableSlots, de modo que los slots mostrados son exactamente los que se aceptan al
+ * reservar. Cada servicio reserva su duración máxima (`duration + durationVariation`).
+ *
+ * También calcula los buffers de preparación y limpieza: por cada servicio se usa el buffer
+ * propio del estilista si lo tiene (`StylistService.customBuffer*`) o el del servicio, y la cita
+ * bloquea el mayor de ellos a cada lado.
+ */
+export class AppointmentDurationService {
+  /** Duración mínima de una cita en minutos */
+  static readonly MIN_DURATION = 15;
+
+  constructor(
+    private serviceRepository: IServiceRepository,
+    private stylistServiceRepository: IStylistServiceRepository,
+  ) {}
+
+  /**
+   * Calcula la duración total de una cita
+   * @param serviceIds - IDs de los servicios de la cita
+   * @param explicitDuration - Duración indicada por quien reserva (tiene prioridad si es > 0)
+   * @returns Promise con la duración en minutos (mínimo 15)
+   * @description Los servicios inexistentes se ignoran: su existencia se valida en cada caso de uso
+   */
+  async calculateTotalDuration(serviceIds: string[], explicitDuration?: number): Promise<number> {
+    if (explicitDuration && explicitDuration > 0) {
+      return explicitDuration;
+    }
+
+    let totalDuration = 0;
+    for (const serviceId of serviceIds) {
+      const service = await this.serviceRepository.findById(serviceId);
+      if (service) {
+        totalDuration += service.calculateMaxDuration();
+      }
+    }
+
+    return Math.max(totalDuration, AppointmentDurationService.MIN_DURATION);
+  }
+
+  /**
+   * Calcula los minutos que la cita bloquea antes y después de su duración
+   * @param serviceIds - IDs de los servicios de la cita
+   * @param stylistId - Estilista que atiende la cita (opcional, para aplicar sus buffers propios)
+   * @returns Promise con el mayor buffer previo y posterior entre los servicios
+   */
+  async calculateBuffer(serviceIds: string[], stylistId?: string): Promise<AppointmentBuffer> {
+    const buffer: AppointmentBuffer = { before: 0, after: 0 };
+
+    for (const serviceId of serviceIds) {
+      const service = await this.serviceRepository.findById(serviceId);
+      if (!service) continue;
+
+      const stylistService = stylistId
+        ? await this.stylistServiceRepository.findByStylistAndService(stylistId, serviceId)
+        : null;
+
+      buffer.before = Math.max(
+        buffer.before,
+        stylistService?.getEffectiveBufferBefore(service) ?? service.bufferBefore,
+      );
+      buffer.after = Math.max(
+        buffer.after,
+        stylistService?.getEffectiveBufferAfter(service) ?? service.bufferAfter,
+      );
+    }
+
+    return buffer;
+  }
+}
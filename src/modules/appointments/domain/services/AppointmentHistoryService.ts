@@ -0,0 +1,147 @@
+import { Appointment } from '../entities/Appointment';
+import {
+  AppointmentActor,
+  AppointmentEvent,
+  AppointmentEventTypeEnum,
+} from '../entities/AppointmentEvent';
+import { IAppointmentEventRepository } from '../repositories/IAppointmentEventRepository';
+import { IAppointmentStatusRepository } from '../repositories/IAppointmentStatusRepository';
+
+/**
+ * Estado de una cita antes de un cambio, contra el que se calcula qué se registra
+ */
+export interface AppointmentSnapshot {
+  statusId: string;
+  dateTime: Date;
+  stylistId?: string;
+  serviceIds: string[];
+  checkedIn: boolean;
+}
+
+/**
+ * Servicio de dominio que registra el historial de cambios de las citas
+ * @description Cada caso de uso que modifica una cita toma un snapshot antes del cambio y,
+ * después de guardarla, registra la diferencia: estado, fecha/hora, estilista, servicios y
+ * check-in. Los estados se guardan por nombre para que el historial sea legible.
+ */
+export class AppointmentHistoryService {
+  constructor(
+    private appointmentEventRepository: IAppointmentEventRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+  ) {}
+
+  /**
+   * Toma el estado actual de una cita, antes de modificarla
+   * @param appointment - Cita a modificar
+   * @returns Snapshot con los campos que se auditan
+   */
+  static snapshot(appointment: Appointment): AppointmentSnapshot {
+    return {
+      statusId: appointment.statusId,
+      dateTime: new Date(appointment.dateTime),
+      stylistId: appointment.stylistId,
+      serviceIds: [...appointment.serviceIds],
+      checkedIn: appointment.isCheckedIn(),
+    };
+  }
+
+  /**
+   * Registra la creación de una cita
+   * @param appointment - Cita creada
+   * @param actor - Quién la creó
+   */
+  async recordCreated(appointment: Appointment, actor: AppointmentActor): Promise<void> {
+    const statusName = await this.getStatusName(appointment.statusId);
+
+    await this.appointmentEventRepository.saveMany([
+      AppointmentEvent.create(appointment.id, AppointmentEventTypeEnum.CREATED, actor, {
+        toValue: statusName,
+      }),
+    ]);
+  }
+
+  /**
+   * Registra los cambios entre el snapshot previo y el estado actual de la cita
+   * @param before - Snapshot tomado antes del cambio
+   * @param appointment - Cita ya modificada
+   * @param actor - Quién ejecutó el cambio
+   * @param reason - Motivo informado (cancelación, reprogramación), si lo hay
+   * @returns Promise con los eventos registrados (vacío si no hubo cambios auditables)
+   */
+  async recordChanges(
+    before: AppointmentSnapshot,
+    appointment: Appointment,
+    actor: AppointmentActor,
+    reason?: string,
+  ): Promise<AppointmentEvent[]> {
+    const events: AppointmentEvent[] = [];
+    const record = (
+      type: AppointmentEventTypeEnum,
+      change: { fromValue?: string; toValue?: string; reason?: string } = {},
+    ) => events.push(AppointmentEvent.create(appointment.id, type, actor, change));
+
+    if (before.dateTime.getTime() !== appointment.dateTime.getTime()) {
+      record(AppointmentEventTypeEnum.RESCHEDULED, {
+        fromValue: before.dateTime.toISOString(),
+        toValue: appointment.dateTime.toISOString(),
+        reason,
+      });
+    }
+
+    if (before.stylistId !== appointment.stylistId) {
+      record(AppointmentEventTypeEnum.STYLIST_CHANGED, {
+        fromValue: before.stylistId,
+        toValue: appointment.stylistId,
+      });
+    }
+
+    for (const serviceId of appointment.serviceIds) {
+      if (!before.serviceIds.includes(serviceId)) {
+        record(AppointmentEventTypeEnum.SERVICE_ADDED, { toValue: serviceId });
+      }
+    }
+    for (const serviceId of before.serviceIds) {
+      if (!appointment.serviceIds.includes(serviceId)) {
+        record(AppointmentEventTypeEnum.SERVICE_REMOVED, { fromValue: serviceId });
+      }
+    }
+
+    if (!before.checkedIn && appointment.isCheckedIn()) {
+      record(AppointmentEventTypeEnum.CHECKED_IN);
+    }
+
+    if (before.statusId !== appointment.statusId) {
+      const [fromStatus, toStatus] = await Promise.all([
+        this.getStatusName(before.statusId),
+        this.getStatusName(appointment.statusId),
+      ]);
+      record(AppointmentEventTypeEnum.STATUS_CHANGED, {
+        fromValue: fromStatus,
+        toValue: toStatus,
+        reason,
+      });
+    }
+
+    await this.appointmentEventRepository.saveMany(events);
+    return events;
+  }
+
+  /**
+   * Obtiene el historial de una cita en orden cronológico
+   * @param appointmentId - ID de la cita
+   * @returns Promise con los eventos de la cita
+   */
+  async getHistory(appointmentId: string): Promise<AppointmentEvent[]> {
+    return this.appointmentEventRepository.findByAppointmentId(appointmentId);
+  }
+
+  /**
+   * Resuelve el nombre de un estado para guardarlo en el historial
+   * @param statusId - ID del estado
+   * @returns Nombre del estado, o el ID si el estado ya no existe
+   */
+  private async getStatusName(statusId: string): Promise<string> {
+    const status = await this.appointmentStatusRepository.findById(statusId);
+    return status?.name ?? statusId;
+  }
+}
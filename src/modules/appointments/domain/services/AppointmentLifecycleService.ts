@@ -0,0 +1,99 @@
+import { Appointment } from '../entities/Appointment';
+import { AppointmentStatus, AppointmentStatusEnum } from '../entities/AppointmentStatus';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../repositories/IAppointmentStatusRepository';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { toSalonDateString } from '../../../../shared/utils/salonTime';
+
+/**
+ * Cita sobre la que se va a registrar un avance de la atención, con su estado actual
+ */
+export interface ManageableAppointment {
+  appointment: Appointment;
+  currentStatus: AppointmentStatus;
+}
+
+/**
+ * Servicio de dominio compartido por los casos de uso de atención en el salón
+ * (check-in, inicio, finalización y no show)
+ *
+ * Estas acciones las registra el personal, no el cliente: solo ADMIN o el estilista asignado a
+ * la cita pueden ejecutarlas.
+ */
+export class AppointmentLifecycleService {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+  ) {}
+
+  /**
+   * Obtiene la cita y su estado actual validando que el solicitante pueda gestionarla
+   * @param appointmentId - ID de la cita
+   * @param requesterId - ID del usuario solicitante
+   * @param requesterRole - Nombre del rol del usuario solicitante
+   * @param action - Acción solicitada, para el mensaje de error (ej. 'check in')
+   * @returns Promise con la cita y su estado actual
+   * @throws NotFoundError si la cita o su estado no existen
+   * @throws ForbiddenError si el solicitante no es ADMIN ni el estilista asignado
+   */
+  async getManageableAppointment(
+    appointmentId: string,
+    requesterId: string,
+    requesterRole: string,
+    action: string,
+  ): Promise<ManageableAppointment> {
+    const appointment = await this.appointmentRepository.findById(appointmentId);
+    if (!appointment) {
+      throw new NotFoundError('Appointment', appointmentId);
+    }
+
+    // ADMIN puede gestionar cualquier cita; un estilista solo las que tiene asignadas
+    if (requesterRole !== 'ADMIN' && appointment.stylistId !== requesterId) {
+      throw new ForbiddenError(`You do not have permission to ${action} this appointment`);
+    }
+
+    const currentStatus = await this.appointmentStatusRepository.findById(appointment.statusId);
+    if (!currentStatus) {
+      throw new NotFoundError('AppointmentStatus', appointment.statusId);
+    }
+
+    return { appointment, currentStatus };
+  }
+
+  /**
+   * Obtiene el estado destino validando que la transición sea permitida
+   * @param currentStatus - Estado actual de la cita
+   * @param targetStatusName - Estado al que se quiere pasar
+   * @returns Promise con el estado destino
+   * @throws NotFoundError si el estado destino no existe
+   * @throws BusinessRuleError si la transición no es válida
+   */
+  async resolveTransition(
+    currentStatus: AppointmentStatus,
+    targetStatusName: AppointmentStatusEnum,
+  ): Promise<AppointmentStatus> {
+    const targetStatus = await this.appointmentStatusRepository.findByName(targetStatusName);
+    if (!targetStatus) {
+      throw new NotFoundError('AppointmentStatus', targetStatusName);
+    }
+
+    if (!currentStatus.canTransitionTo(targetStatus.name)) {
+      throw new BusinessRuleError(
+        `Cannot transition from ${currentStatus.name} to ${targetStatus.name}`,
+      );
+    }
+
+    return targetStatus;
+  }
+
+  /**
+   * Verifica si la cita es hoy, en hora local del salón
+   * @param appointment - Cita a verificar
+   * @returns true si la cita cae en el día de calendario actual del salón
+   */
+  isScheduledForToday(appointment: Appointment): boolean {
+    return toSalonDateString(appointment.dateTime) === toSalonDateString(new Date());
+  }
+}
@@ -0,0 +1,79 @@
+import { Appointment } from '../entities/Appointment';
+import { AppointmentSeries, SeriesScopeEnum } from '../entities/AppointmentSeries';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IAppointmentSeriesRepository } from '../repositories/IAppointmentSeriesRepository';
+import { IAppointmentStatusRepository } from '../repositories/IAppointmentStatusRepository';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+
+/**
+ * Citas alcanzadas por una edición o cancelación sobre una serie
+ */
+export interface SeriesScopeTargets {
+  series: AppointmentSeries;
+  /** Cita sobre la que se pidió la operación */
+  pivot: Appointment;
+  /** Citas a modificar, en orden cronológico (la primera del scope THIS es siempre `pivot`) */
+  appointments: Appointment[];
+}
+
+/**
+ * Servicio de dominio que resuelve qué citas de una serie alcanza cada scope
+ *
+ * THIS devuelve solo la cita indicada, para que los errores del caso de uso subyacente
+ * lleguen tal cual al cliente. THIS_AND_FOLLOWING y ALL devuelven además las demás citas
+ * vigentes de la serie (futuras y no terminadas): las históricas o canceladas no se tocan.
+ */
+export class AppointmentSeriesScopeService {
+  constructor(
+    private appointmentSeriesRepository: IAppointmentSeriesRepository,
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+  ) {}
+
+  /**
+   * Obtiene la serie, la cita indicada y las citas alcanzadas por el scope
+   * @param seriesId - ID de la serie
+   * @param appointmentId - ID de la cita sobre la que se opera
+   * @param scope - Alcance de la operación
+   * @returns Promise con la serie, la cita indicada y las citas alcanzadas
+   * @throws NotFoundError si la serie no existe o la cita no pertenece a ella
+   */
+  async resolveTargets(
+    seriesId: string,
+    appointmentId: string,
+    scope: SeriesScopeEnum,
+  ): Promise<SeriesScopeTargets> {
+    const series = await this.appointmentSeriesRepository.findById(seriesId);
+    if (!series) {
+      throw new NotFoundError('AppointmentSeries', seriesId);
+    }
+
+    const pivot = await this.appointmentRepository.findById(appointmentId);
+    if (!pivot || pivot.seriesId !== series.id) {
+      throw new NotFoundError('Appointment', appointmentId);
+    }
+
+    if (scope === SeriesScopeEnum.THIS) {
+      return { series, pivot, appointments: [pivot] };
+    }
+
+    const [seriesAppointments, terminalStatuses] = await Promise.all([
+      this.appointmentRepository.findBySeriesId(series.id),
+      this.appointmentStatusRepository.findTerminalStatuses(),
+    ]);
+    const terminalStatusIds = new Set(terminalStatuses.map((status) => status.id));
+
+    const appointments = seriesAppointments
+      .filter(
+        (appointment) =>
+          appointment.id === pivot.id ||
+          (!appointment.isInPast() && !terminalStatusIds.has(appointment.statusId)),
+      )
+      .filter(
+        (appointment) => scope === SeriesScopeEnum.ALL || appointment.dateTime >= pivot.dateTime,
+      )
+      .sort((a, b) => a.dateTime.getTime() - b.dateTime.getTime());
+
+    return { series, pivot, appointments };
+  }
+}
@@ -0,0 +1,244 @@
+import { AppointmentBuffer } from '../entities/Appointment';
+import { AppointmentStatusEnum } from '../entities/AppointmentStatus';
+import { Schedule } from '../entities/Schedule';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../repositories/IAppointmentStatusRepository';
+import { IScheduleRepository } from '../repositories/IScheduleRepository';
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
+import { ScheduleAvailabilityService, EffectiveSchedule } from './ScheduleAvailabilityService';
+import { SlotHoldService } from './SlotHoldService';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { DayOfWeekUtils } from '../../../../shared/utils/dayOfWeek';
+import {
+  getSalonMinutesOfDay,
+  salonDayRange,
+  toSalonDate,
+} from '../../../../shared/utils/salonTime';
+
+/**
+ * Turno que se quiere reservar para una cita
+ */
+export interface BookingSlot {
+  /** Inicio de la cita */
+  dateTime: Date;
+  /** Duración total de la cita en minutos */
+  duration: number;
+  /** Estilista que atiende la cita (User.id), si tiene uno */
+  stylistId?: string;
+  /** Cliente de la cita: las reservas temporales a su nombre no lo bloquean */
+  clientId: string;
+  /** Minutos que la cita bloquea antes y después */
+  buffer: AppointmentBuffer;
+  /** Cita que se está modificando: no cuenta como conflicto ni para el límite diario */
+  excludeAppointmentId?: string;
+}
+
+/**
+ * Servicio de dominio con las reglas de reserva de un turno
+ * @description Lo usan la creación (CreateAppointment), la reprogramación (RescheduleAppointment)
+ * y la actualización (UpdateAppointment) de citas, para que un turno nuevo o modificado pase por
+ * las mismas validaciones: servicios activos y ofrecidos por el estilista, horario efectivo del
+ * día, turno del estilista, conflictos, reservas temporales y límite diario del cliente.
+ */
+export class BookingValidationService {
+  /** Máximo de citas activas por cliente por día */
+  static readonly MAX_DAILY_APPOINTMENTS = 3;
+
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private scheduleRepository: IScheduleRepository,
+    private serviceRepository: IServiceRepository,
+    private stylistServiceRepository: IStylistServiceRepository,
+    private scheduleAvailabilityService: ScheduleAvailabilityService,
+    private slotHoldService: SlotHoldService,
+  ) {}
+
+  /**
+   * Valida que los servicios existan y estén activos y, si hay estilista, que los ofrezca
+   * @param serviceIds - Servicios de la cita
+   * @param stylistId - Estilista de la cita (User.id); StylistService.stylistId también es User.id
+   * @throws NotFoundError si algún servicio no existe
+   * @throws BusinessRuleError si un servicio está inactivo o el estilista no lo ofrece
+   */
+  async validateServices(serviceIds: string[], stylistId?: string): Promise<void> {
+    for (const serviceId of serviceIds) {
+      const service = await this.serviceRepository.findById(serviceId);
+      if (!service) {
+        throw new NotFoundError('Service', serviceId);
+      }
+      if (!service.isActive) {
+        throw new BusinessRuleError(`Service '${service.name}' is not currently active`);
+      }
+    }
+
+    if (!stylistId) return;
+
+    for (const serviceId of serviceIds) {
+      const assignment = await this.stylistServiceRepository.findByStylistAndService(
+        stylistId,
+        serviceId,
+      );
+      if (!assignment) {
+        throw new BusinessRuleError('Stylist does not offer one of the selected services');
+      }
+      if (!assignment.isOffering) {
+        throw new BusinessRuleError(
+          'Stylist is not currently offering one of the selected services',
+        );
+      }
+    }
+  }
+
+  /**
+   * Valida que la cita caiga dentro del horario efectivo del día (prioridad: Exception > Holiday >
+   * Regular) y, si tiene estilista, dentro de sus turnos y sin ausencias
+   * @param dateTime - Inicio de la cita
+   * @param duration - Duración total de la cita en minutos
+   * @param stylistId - Estilista de la cita (User.id); sin estilista se usa el horario del salón
+   * @throws BusinessRuleError si el día está cerrado o la cita cae fuera del horario
+   */
+  async validateSchedule(dateTime: Date, duration: number, stylistId?: string): Promise<void> {
+    const salonDate = toSalonDate(dateTime);
+    const stylistSchedule = stylistId
+      ? await this.scheduleAvailabilityService.getEffectiveStylistSchedule(salonDate, stylistId)
+      : null;
+    const effectiveSchedule = stylistId
+      ? stylistSchedule
+      : await this.scheduleAvailabilityService.getEffectiveSchedule(salonDate);
+
+    if (!effectiveSchedule) {
+      throw new BusinessRuleError(
+        'The salon is closed on the selected date (holiday or no schedule available)',
+      );
+    }
+
+    this.validateWorkingHours(dateTime, duration, effectiveSchedule);
+
+    if (stylistSchedule) {
+      ScheduleAvailabilityService.validateStylistShift(dateTime, duration, stylistSchedule);
+    }
+  }
+
+  /**
+   * Valida que el turno no choque con otras citas (buffers incluidos) ni con reservas temporales
+   * de otros clientes
+   * @param slot - Turno a reservar
+   * @throws ConflictError si hay conflictos o el turno está reservado para otro cliente
+   */
+  async validateAvailability(slot: BookingSlot): Promise<void> {
+    const conflictingAppointments = await this.appointmentRepository.findConflictingAppointments(
+      slot.dateTime,
+      slot.duration,
+      slot.stylistId,
+      slot.excludeAppointmentId,
+      slot.buffer,
+    );
+
+    if (conflictingAppointments.length > 0) {
+      throw new ConflictError('There are conflicting appointments at this time');
+    }
+
+    if (!slot.stylistId) return;
+
+    const blockingHolds = await this.slotHoldService.findBlockingHolds(
+      slot.stylistId,
+      slot.dateTime,
+      new Date(slot.dateTime.getTime() + slot.duration * 60000),
+      slot.clientId,
+      slot.buffer,
+    );
+
+    if (blockingHolds.length > 0) {
+      throw new ConflictError('This time slot is temporarily held for another client');
+    }
+  }
+
+  /**
+   * Valida que el cliente no exceda el límite diario de citas activas (no canceladas) en el día
+   * local del salón de la cita
+   * @param clientId - ID del usuario cliente (User.id)
+   * @param dateTime - Inicio de la cita
+   * @param excludeAppointmentId - Cita que se está modificando, que no se cuenta
+   * @throws BusinessRuleError si el cliente alcanzó el límite diario
+   */
+  async validateDailyLimit(
+    clientId: string,
+    dateTime: Date,
+    excludeAppointmentId?: string,
+  ): Promise<void> {
+    const { gte: startOfDay, lte: endOfDay } = salonDayRange(toSalonDate(dateTime));
+
+    const existingAppointments = await this.appointmentRepository.findByClientAndDateRange(
+      clientId,
+      startOfDay,
+      endOfDay,
+    );
+
+    const cancelledStatus = await this.appointmentStatusRepository.findByName(
+      AppointmentStatusEnum.CANCELLED,
+    );
+
+    const activeAppointments = existingAppointments.filter(
+      (existing) =>
+        existing.id !== excludeAppointmentId &&
+        (!cancelledStatus || existing.statusId !== cancelledStatus.id),
+    );
+
+    if (activeAppointments.length >= BookingValidationService.MAX_DAILY_APPOINTMENTS) {
+      throw new BusinessRuleError(
+        `Maximum of ${BookingValidationService.MAX_DAILY_APPOINTMENTS} appointments per day has been reached`,
+      );
+    }
+  }
+
+  /**
+   * Obtiene el horario regular del día de la semana de la cita, al que se asocia su scheduleId
+   * @param dateTime - Inicio de la cita (se evalúa en el día local del salón)
+   * @returns Promise con el horario regular del día
+   * @throws NotFoundError si no hay horario regular para ese día
+   */
+  async resolveSchedule(dateTime: Date): Promise<Schedule> {
+    const dayOfWeek = DayOfWeekUtils.fromDate(dateTime);
+
+    const schedules = await this.scheduleRepository.findAll();
+    const schedule = schedules.find((s) => s.dayOfWeek === dayOfWeek);
+
+    if (!schedule) {
+      throw new NotFoundError('Schedule', dayOfWeek);
+    }
+
+    return schedule;
+  }
+
+  /**
+   * Valida que la cita completa (inicio + duración) esté dentro del horario laboral del día
+   * @description Schedule.startTime/endTime son horas locales del salón (SALON_TIMEZONE),
+   * alineado con GetAvailableSlots.createSlotDateTime
+   * @throws BusinessRuleError si la cita está fuera del horario laboral
+   */
+  private validateWorkingHours(
+    dateTime: Date,
+    duration: number,
+    schedule: EffectiveSchedule,
+  ): void {
+    const [startH, startM] = schedule.startTime.split(':').map(Number);
+    const [endH, endM] = schedule.endTime.split(':').map(Number);
+
+    const appointmentStartInMinutes = getSalonMinutesOfDay(dateTime);
+    const appointmentEndInMinutes = appointmentStartInMinutes + duration;
+
+    if (appointmentStartInMinutes < startH * 60 + startM) {
+      throw new BusinessRuleError(
+        `Appointment starts before working hours (${schedule.startTime})`,
+      );
+    }
+
+    if (appointmentEndInMinutes > endH * 60 + endM) {
+      throw new BusinessRuleError(`Appointment ends after working hours (${schedule.endTime})`);
+    }
+  }
+}
@@ -0,0 +1,97 @@
+import { Appointment } from '../entities/Appointment';
+import { CancellationPolicy } from '../entities/CancellationPolicy';
+import { ICancellationPolicyRepository } from '../repositories/ICancellationPolicyRepository';
+import { Payment, PaymentTypeEnum } from '../../../payments/domain/entities/Payment';
+import { IPaymentRepository } from '../../../payments/domain/repositories/IPaymentRepository';
+import { IServiceRepository } from '../../../services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
+import { generateUuid } from '../../../../shared/utils/uuid';
+
+/**
+ * Servicio de dominio que aplica la política de cancelación y genera sus cargos
+ * @description El cargo se registra como un pago PENDING de la cita (LATE_CANCELLATION_FEE o
+ * NO_SHOW_FEE) que luego se cobra con el flujo normal de pagos. Con cargo porcentual se toma el
+ * precio que cobra el estilista asignado por cada servicio (o el precio base si no tiene uno).
+ */
+export class CancellationFeeService {
+  constructor(
+    private cancellationPolicyRepository: ICancellationPolicyRepository,
+    private paymentRepository: IPaymentRepository,
+    private serviceRepository: IServiceRepository,
+    private stylistServiceRepository: IStylistServiceRepository,
+  ) {}
+
+  /**
+   * Obtiene la política de cancelación vigente
+   * @returns Promise con la política
+   */
+  async getPolicy(): Promise<CancellationPolicy> {
+    return this.cancellationPolicyRepository.get();
+  }
+
+  /**
+   * Genera el cargo por no show si la política lo indica
+   * @param appointment - Cita marcada (o por marcar) como NO_SHOW
+   * @returns Promise con el pago generado (o el ya existente), o null si la política no cobra los
+   * no show
+   * @description Es idempotente: si la cita ya tiene un cargo NO_SHOW_FEE lo devuelve sin generar
+   * otro, de modo que un reintento tras un fallo no cobra dos veces
+   */
+  async chargeNoShow(appointment: Appointment): Promise<Payment | null> {
+    const policy = await this.getPolicy();
+    if (!policy.chargesNoShows()) return null;
+
+    const existing = (await this.paymentRepository.findByAppointmentId(appointment.id)).find(
+      (payment) => payment.type === PaymentTypeEnum.NO_SHOW_FEE,
+    );
+    if (existing) return existing;
+
+    return this.charge(appointment, policy, PaymentTypeEnum.NO_SHOW_FEE);
+  }
+
+  /**
+   * Genera un cargo de la política para una cita
+   * @param appointment - Cita a la que se asocia el cargo
+   * @param policy - Política vigente
+   * @param type - Tipo de cargo
+   * @returns Promise con el pago generado, o null si el monto resultante es 0
+   */
+  async charge(
+    appointment: Appointment,
+    policy: CancellationPolicy,
+    type: PaymentTypeEnum,
+  ): Promise<Payment | null> {
+    const servicesTotal = await this.getServicesTotal(appointment);
+    const amount = policy.calculateFee(servicesTotal);
+    if (amount <= 0) return null;
+
+    return this.paymentRepository.save(
+      Payment.create(generateUuid(), amount, appointment.id, type),
+    );
+  }
+
+  /**
+   * Calcula el precio total de los servicios de la cita
+   * @param appointment - Cita
+   * @returns Promise con el total en la unidad monetaria base (los precios se guardan en centavos)
+   */
+  private async getServicesTotal(appointment: Appointment): Promise<number> {
+    let totalCents = 0;
+
+    for (const serviceId of appointment.serviceIds) {
+      const service = await this.serviceRepository.findById(serviceId);
+      if (!service) continue;
+
+      const stylistService = appointment.stylistId
+        ? await this.stylistServiceRepository.findByStylistAndService(
+            appointment.stylistId,
+            serviceId,
+          )
+        : null;
+
+      totalCents += stylistService?.getEffectivePrice(service.price) ?? service.price;
+    }
+
+    return totalCents / 100;
+  }
+}
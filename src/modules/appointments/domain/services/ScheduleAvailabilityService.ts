@@ -1,7 +1,13 @@
 import { IScheduleRepository } from '../repositories/IScheduleRepository';
+import { IStylistScheduleRepository } from '../repositories/IStylistScheduleRepository';
+import { IStylistAbsenceRepository } from '../repositories/IStylistAbsenceRepository';
 import { IHolidayRepository } from '../../../holidays/domain/repositories/IHolidayRepository';
 import { IScheduleExceptionRepository } from '../../../holidays/domain/repositories/IScheduleExceptionRepository';
 import { DayOfWeekEnum } from '../entities/Schedule';
+import { StylistSchedule, WorkingInterval } from '../entities/StylistSchedule';
+import { StylistAbsence } from '../entities/StylistAbsence';
+import { getSalonMinutesOfDay, salonDayRange } from '../../../../shared/utils/salonTime';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
 
 /**
  * Resultado del cálculo de disponibilidad horaria para un día específico
@@ -16,6 +22,32 @@ export interface EffectiveSchedule {
   source: 'exception' | 'regular';
 }
 
+/**
+ * Horario efectivo de un estilista para un día específico
+ * Extiende el horario del salón con los tramos en los que el estilista realmente atiende
+ */
+export interface StylistEffectiveSchedule extends EffectiveSchedule {
+  /**
+   * Tramos atendidos por el estilista: intersección del horario del salón con sus turnos,
+   * ya descontados los descansos. Lista vacía = el estilista no trabaja ese día
+   */
+  intervals: WorkingInterval[];
+  /** true si el estilista tiene turnos propios; false si hereda el horario del salón */
+  hasCustomShifts: boolean;
+  /** Ausencias del estilista que afectan a ese día (ya descontadas de `intervals`) */
+  absences: StylistAbsence[];
+}
+
+/**
+ * Turnos semanales y ausencias de un estilista, cargados una vez para un rango de días
+ */
+export interface StylistAgenda {
+  /** Turnos semanales del estilista (vacío = hereda el horario del salón) */
+  shifts: StylistSchedule[];
+  /** Ausencias que se solapan con el rango cargado */
+  absences: StylistAbsence[];
+}
+
 /**
  * Servicio de dominio para determinar el horario efectivo de un día
  *
@@ -25,17 +57,26 @@ export interface EffectiveSchedule {
  * - Si hay una ScheduleException para la fecha, usa su horario especial
  * - Si es Holiday sin excepción, el día está cerrado (retorna null)
  * - Si no hay ni excepción ni feriado, usa el horario regular del día de la semana
+ *
+ * Sobre ese horario del salón, `getEffectiveStylistSchedule` intersecta los turnos
+ * semanales del estilista (StylistSchedule), descuenta sus descansos y sus ausencias
+ * (StylistAbsence).
+ *
+ * Las fechas recibidas son días de calendario del salón (fechas sin hora, 00:00 UTC; ver
+ * `toSalonDate`) y los horarios HH:MM resultantes son horas locales del salón.
  */
 export class ScheduleAvailabilityService {
   constructor(
     private holidayRepository: IHolidayRepository,
     private scheduleExceptionRepository: IScheduleExceptionRepository,
     private scheduleRepository: IScheduleRepository,
+    private stylistScheduleRepository: IStylistScheduleRepository,
+    private stylistAbsenceRepository: IStylistAbsenceRepository,
   ) {}
 
   /**
    * Determina el horario efectivo para una fecha específica
-   * @param date - Fecha a consultar
+   * @param date - Día local del salón a consultar (fecha sin hora)
    * @returns EffectiveSchedule con el horario efectivo, o null si el día está cerrado
    */
   async getEffectiveSchedule(date: Date): Promise<EffectiveSchedule | null> {
@@ -74,9 +115,102 @@ export class ScheduleAvailabilityService {
     };
   }
 
+  /**
+   * Determina el horario efectivo de un estilista para una fecha específica
+   * @param date - Día local del salón a consultar (fecha sin hora)
+   * @param stylistId - ID del estilista (User.id)
+   * @returns StylistEffectiveSchedule con los tramos atendidos, o null si el salón está cerrado
+   * @description Un estilista sin turnos configurados hereda el horario completo del salón.
+   * Si tiene turnos pero ninguno para ese día de la semana, `intervals` queda vacío.
+   * Las ausencias del estilista se descuentan de los tramos (ausencia de día completo = sin tramos).
+   */
+  async getEffectiveStylistSchedule(
+    date: Date,
+    stylistId: string,
+  ): Promise<StylistEffectiveSchedule | null> {
+    const salonSchedule = await this.getEffectiveSchedule(date);
+
+    if (!salonSchedule) {
+      return null;
+    }
+
+    const agenda = await this.loadStylistAgenda(stylistId, date, date);
+
+    return this.applyStylistAgenda(date, salonSchedule, agenda);
+  }
+
+  /**
+   * Carga los turnos y las ausencias de un estilista para un rango de días
+   * @param stylistId - ID del estilista (User.id)
+   * @param startDate - Primer día local del salón del rango (fecha sin hora)
+   * @param endDate - Último día local del salón del rango (fecha sin hora, incluido)
+   * @returns Promise con los turnos del estilista y las ausencias que se solapan con el rango
+   */
+  async loadStylistAgenda(
+    stylistId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<StylistAgenda> {
+    const shifts = await this.stylistScheduleRepository.findByStylistId(stylistId);
+    const absences = await this.stylistAbsenceRepository.findOverlapping(
+      stylistId,
+      salonDayRange(startDate).gte,
+      new Date(salonDayRange(endDate).lte.getTime() + 1),
+    );
+
+    return { shifts, absences };
+  }
+
+  /**
+   * Calcula el horario efectivo de un estilista a partir de datos ya cargados
+   * @param date - Día local del salón a consultar (fecha sin hora)
+   * @param salonSchedule - Horario efectivo del salón para ese día
+   * @param agenda - Turnos y ausencias del estilista para un rango que incluye el día
+   * @returns StylistEffectiveSchedule con los tramos atendidos ese día
+   * @description Permite a las búsquedas de varios días (GetAvailabilityCalendar) cargar la
+   * agenda de cada estilista una sola vez con `loadStylistAgenda`
+   */
+  applyStylistAgenda(
+    date: Date,
+    salonSchedule: EffectiveSchedule,
+    agenda: StylistAgenda,
+  ): StylistEffectiveSchedule {
+    const hasCustomShifts = agenda.shifts.length > 0;
+
+    const dayOfWeek = this.getDayOfWeek(date);
+    const shiftIntervals = hasCustomShifts
+      ? agenda.shifts
+          .filter(shift => shift.dayOfWeek === dayOfWeek)
+          .flatMap(shift => shift.getWorkingIntervals())
+          .map(interval => this.intersectIntervals(interval, salonSchedule))
+          .filter((interval): interval is WorkingInterval => interval !== null)
+          .sort((a, b) => this.timeToMinutes(a.startTime) - this.timeToMinutes(b.startTime))
+      : [{ startTime: salonSchedule.startTime, endTime: salonSchedule.endTime }];
+
+    // Descontar las ausencias del estilista que caen en ese día (puede durar 23 o 25 horas)
+    const { gte: dayStart, lte: lastInstant } = salonDayRange(date);
+    const dayEnd = new Date(lastInstant.getTime() + 1);
+    const absences = agenda.absences.filter(
+      absence => absence.startDateTime < dayEnd && absence.endDateTime > dayStart,
+    );
+
+    const intervals = absences.reduce(
+      (remaining, absence) =>
+        remaining.flatMap(interval => this.subtractAbsence(interval, absence, dayStart, dayEnd)),
+      shiftIntervals,
+    );
+
+    return {
+      ...salonSchedule,
+      intervals,
+      hasCustomShifts,
+      absences,
+    };
+  }
+
   /**
    * Verifica si un día está cerrado (feriado sin excepción o sin horario regular)
-   * @param date - Fecha a consultar
+   * @param date - Día local del salón a consultar (fecha sin hora)
    * @returns true si el día está cerrado
    */
   async isDayClosed(date: Date): Promise<boolean> {
@@ -84,9 +218,138 @@ export class ScheduleAvailabilityService {
     return effectiveSchedule === null;
   }
 
+  /**
+   * Valida que una cita completa caiga dentro de uno de los tramos atendidos por el estilista
+   * (turnos propios intersectados con el horario del salón, sin descansos ni ausencias)
+   * @param dateTime - Inicio de la cita
+   * @param duration - Duración total de la cita en minutos
+   * @param schedule - Horario efectivo del estilista para el día de la cita
+   * @throws BusinessRuleError si el estilista está ausente, no trabaja ese día o la cita cae
+   * fuera de su turno
+   */
+  static validateStylistShift(
+    dateTime: Date,
+    duration: number,
+    schedule: StylistEffectiveSchedule,
+  ): void {
+    const appointmentEnd = new Date(dateTime.getTime() + duration * 60000);
+    if (schedule.absences.some((absence) => absence.overlaps(dateTime, appointmentEnd))) {
+      throw new BusinessRuleError('The selected stylist is absent at the selected time');
+    }
+
+    if (schedule.intervals.length === 0) {
+      throw new BusinessRuleError('The selected stylist does not work on the selected date');
+    }
+
+    const appointmentStartInMinutes = getSalonMinutesOfDay(dateTime);
+    const appointmentEndInMinutes = appointmentStartInMinutes + duration;
+
+    const fitsInShift = schedule.intervals.some((interval) => {
+      const [startH, startM] = interval.startTime.split(':').map(Number);
+      const [endH, endM] = interval.endTime.split(':').map(Number);
+      return (
+        appointmentStartInMinutes >= startH * 60 + startM &&
+        appointmentEndInMinutes <= endH * 60 + endM
+      );
+    });
+
+    if (!fitsInShift) {
+      const shifts = schedule.intervals
+        .map((interval) => `${interval.startTime}-${interval.endTime}`)
+        .join(', ');
+      throw new BusinessRuleError(
+        `Appointment falls outside the stylist's working hours (${shifts})`,
+      );
+    }
+  }
+
+  /**
+   * Intersecta un tramo del estilista con el horario del salón
+   * @param interval - Tramo del turno del estilista
+   * @param salonSchedule - Horario efectivo del salón
+   * @returns Tramo resultante, o null si no hay solapamiento
+   */
+  private intersectIntervals(
+    interval: WorkingInterval,
+    salonSchedule: WorkingInterval,
+  ): WorkingInterval | null {
+    const startTime =
+      this.timeToMinutes(interval.startTime) > this.timeToMinutes(salonSchedule.startTime)
+        ? interval.startTime
+        : salonSchedule.startTime;
+    const endTime =
+      this.timeToMinutes(interval.endTime) < this.timeToMinutes(salonSchedule.endTime)
+        ? interval.endTime
+        : salonSchedule.endTime;
+
+    return this.timeToMinutes(startTime) < this.timeToMinutes(endTime)
+      ? { startTime, endTime }
+      : null;
+  }
+
+  /**
+   * Resta una ausencia a un tramo del estilista
+   * @param interval - Tramo del estilista (HH:MM, hora local del salón)
+   * @param absence - Ausencia del estilista
+   * @param dayStart - Primer instante del día local consultado
+   * @param dayEnd - Primer instante del día local siguiente
+   * @returns Cero, uno o dos tramos resultantes
+   */
+  private subtractAbsence(
+    interval: WorkingInterval,
+    absence: StylistAbsence,
+    dayStart: Date,
+    dayEnd: Date,
+  ): WorkingInterval[] {
+    const intervalStart = this.timeToMinutes(interval.startTime);
+    const intervalEnd = this.timeToMinutes(interval.endTime);
+    const absenceStart =
+      absence.startDateTime <= dayStart ? 0 : getSalonMinutesOfDay(absence.startDateTime);
+    const absenceEnd =
+      absence.endDateTime >= dayEnd
+        ? 24 * 60
+        : getSalonMinutesOfDay(absence.endDateTime) +
+          (absence.endDateTime.getTime() % 60000 > 0 ? 1 : 0);
+
+    if (absenceStart >= intervalEnd || absenceEnd <= intervalStart) {
+      return [interval];
+    }
+
+    const remaining: WorkingInterval[] = [];
+    if (absenceStart > intervalStart) {
+      remaining.push({ startTime: interval.startTime, endTime: this.minutesToTime(absenceStart) });
+    }
+    if (absenceEnd < intervalEnd) {
+      remaining.push({ startTime: this.minutesToTime(absenceEnd), endTime: interval.endTime });
+    }
+
+    return remaining;
+  }
+
+  /**
+   * Convierte minutos desde medianoche a una hora en formato HH:MM
+   * @param totalMinutes - Minutos desde las 00:00
+   * @returns Hora en formato HH:MM
+   */
+  private minutesToTime(totalMinutes: number): string {
+    const hours = Math.floor(totalMinutes / 60);
+    const minutes = totalMinutes % 60;
+    return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}`;
+  }
+
+  /**
+   * Convierte una hora en formato HH:MM a minutos desde medianoche
+   * @param time - Hora en formato HH:MM
+   * @returns Número de minutos desde las 00:00
+   */
+  private timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+
   /**
    * Convierte una fecha al enum DayOfWeekEnum
-   * @param date - Fecha a convertir
+   * @param date - Fecha sin hora (00:00 UTC) del día local del salón
    * @returns Día de la semana como enum
    */
   private getDayOfWeek(date: Date): DayOfWeekEnum {
@@ -100,6 +363,6 @@ export class ScheduleAvailabilityService {
       DayOfWeekEnum.SATURDAY,
     ];
 
-    return dayNames[date.getDay()];
+    return dayNames[date.getUTCDay()];
   }
 }
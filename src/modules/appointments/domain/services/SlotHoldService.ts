@@ -0,0 +1,141 @@
+import { Appointment, AppointmentBuffer } from '../entities/Appointment';
+import { SlotHold } from '../entities/SlotHold';
+import { ISlotHoldRepository } from '../repositories/ISlotHoldRepository';
+import { IWaitlistEntryRepository } from '../repositories/IWaitlistEntryRepository';
+import { ConflictError } from '../../../../shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+
+/**
+ * Servicio de dominio que aplica las reservas temporales de turnos
+ * @description Una reserva vigente bloquea el turno del estilista para todos salvo sus
+ * destinatarios. Lo usan la reserva de citas, la asignación automática de estilista y el cálculo
+ * de slots disponibles. Las reservas son de turnos liberados para la lista de espera o de
+ * checkout (un cliente que retiene el turno mientras completa la reserva).
+ */
+export class SlotHoldService {
+  /** Duración máxima de un turno, usada para ampliar la búsqueda de reservas solapadas */
+  private static readonly MAX_HOLD_DURATION_MINUTES = 480;
+
+  constructor(
+    private slotHoldRepository: ISlotHoldRepository,
+    private waitlistEntryRepository: IWaitlistEntryRepository,
+  ) {}
+
+  /**
+   * Obtiene las reservas vigentes que impiden reservar un rango con un estilista
+   * @param stylistId - Estilista (User.id)
+   * @param start - Inicio de la cita a reservar
+   * @param end - Fin de la cita a reservar
+   * @param clientId - Cliente que reserva: las reservas a su nombre no lo bloquean
+   * @param buffer - Buffers de la cita a reservar
+   * @returns Promise con las reservas que bloquean el rango
+   */
+  async findBlockingHolds(
+    stylistId: string,
+    start: Date,
+    end: Date,
+    clientId?: string,
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+  ): Promise<SlotHold[]> {
+    const holds = await this.findOverlappingHolds(stylistId, start, end, buffer);
+
+    return holds.filter((hold) => !clientId || !hold.isHeldFor(clientId));
+  }
+
+  /**
+   * Obtiene las reservas vigentes que pueden solaparse con un rango, de todos los estilistas
+   * @param startDate - Inicio del rango
+   * @param endDate - Fin del rango
+   * @returns Promise con las reservas ordenadas por inicio
+   */
+  async findActiveHolds(startDate: Date, endDate: Date): Promise<SlotHold[]> {
+    return this.slotHoldRepository.findActiveByDateRange(
+      new Date(startDate.getTime() - SlotHoldService.MAX_HOLD_DURATION_MINUTES * 60000),
+      endDate,
+    );
+  }
+
+  /**
+   * Obtiene la reserva de checkout con la que un cliente confirma su cita
+   * @param token - Token de la reserva
+   * @param clientId - Cliente de la cita (User.id)
+   * @param now - Instante de referencia
+   * @returns Promise con la reserva vigente del cliente
+   * @throws NotFoundError si no existe una reserva de checkout con ese token
+   * @throws ConflictError si la reserva ya venció
+   * @throws ForbiddenError si la reserva es de otro cliente
+   */
+  async resolveCheckoutHold(
+    token: string,
+    clientId: string,
+    now: Date = new Date(),
+  ): Promise<SlotHold> {
+    const hold = await this.slotHoldRepository.findByToken(token);
+    if (!hold || !hold.isCheckoutHold()) {
+      throw new NotFoundError('SlotHold', token);
+    }
+
+    if (!hold.isActive(now)) {
+      throw new ConflictError('The slot hold has expired');
+    }
+
+    if (hold.clientId !== clientId) {
+      throw new ForbiddenError('The slot hold belongs to another client');
+    }
+
+    return hold;
+  }
+
+  /**
+   * Libera las reservas que el cliente usó al reservar una cita
+   * @description Cada reserva vigente a nombre del cliente que se solapa con la cita se elimina
+   * y, si era de un turno liberado, la entrada de la lista de espera del cliente queda FULFILLED
+   * @param appointment - Cita recién reservada
+   */
+  async claimHolds(appointment: Appointment): Promise<void> {
+    if (!appointment.stylistId) return;
+
+    const holds = await this.findOverlappingHolds(
+      appointment.stylistId,
+      appointment.dateTime,
+      appointment.getEndTime(),
+    );
+
+    for (const hold of holds.filter((hold) => hold.isHeldFor(appointment.clientId))) {
+      const entries = await this.waitlistEntryRepository.findActiveByHoldId(hold.id);
+      for (const entry of entries.filter((entry) => entry.clientId === appointment.clientId)) {
+        entry.markAsFulfilled();
+        await this.waitlistEntryRepository.update(entry);
+      }
+      await this.slotHoldRepository.delete(hold.id);
+    }
+  }
+
+  /**
+   * Obtiene las reservas vigentes del estilista que se solapan con un rango
+   * @param stylistId - Estilista (User.id)
+   * @param start - Inicio del rango
+   * @param end - Fin del rango
+   * @param buffer - Buffers del rango
+   * @returns Promise con las reservas solapadas
+   */
+  private async findOverlappingHolds(
+    stylistId: string,
+    start: Date,
+    end: Date,
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+  ): Promise<SlotHold[]> {
+    const searchStart = new Date(
+      start.getTime() - (SlotHoldService.MAX_HOLD_DURATION_MINUTES + buffer.before) * 60000,
+    );
+    const searchEnd = new Date(end.getTime() + buffer.after * 60000);
+    const holds = await this.slotHoldRepository.findActiveByDateRange(
+      searchStart,
+      searchEnd,
+      stylistId,
+    );
+
+    return holds.filter((hold) => hold.overlapsRange(start, end, buffer));
+  }
+}
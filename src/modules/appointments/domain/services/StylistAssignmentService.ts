@@ -0,0 +1,269 @@
+import { Appointment } from '../entities/Appointment';
+import { AppointmentStatusEnum } from '../entities/AppointmentStatus';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../repositories/IAppointmentStatusRepository';
+import { ScheduleAvailabilityService } from './ScheduleAvailabilityService';
+import { EligibleStylist, StylistEligibilityService } from './StylistEligibilityService';
+import { AppointmentDurationService } from './AppointmentDurationService';
+import { SlotHoldService } from './SlotHoldService';
+import {
+  getSalonMinutesOfDay,
+  salonDayRange,
+  toSalonDate,
+} from '../../../../shared/utils/salonTime';
+
+/**
+ * Estrategias disponibles para asignar automáticamente un estilista a una cita
+ */
+export enum StylistAssignmentStrategyEnum {
+  /** Estilista con menos citas activas en el día */
+  LEAST_LOADED = 'LEAST_LOADED',
+  /** Rotación entre estilistas: el siguiente al último que recibió una cita en el día */
+  ROUND_ROBIN = 'ROUND_ROBIN',
+  /** Estilista con el que el cliente se atendió más veces (si no está libre, LEAST_LOADED) */
+  PREFERRED_STYLIST = 'PREFERRED_STYLIST',
+}
+
+/**
+ * Datos de la cita para la que se busca estilista
+ */
+export interface StylistAssignmentRequest {
+  /** Inicio de la cita */
+  dateTime: Date;
+  /** Duración total en minutos */
+  duration: number;
+  /** Servicios solicitados: el estilista debe ofrecerlos todos */
+  serviceIds: string[];
+  /** Cliente de la cita (User.id), usado por PREFERRED_STYLIST */
+  clientId: string;
+  /** Estrategia de selección (por defecto LEAST_LOADED) */
+  strategy?: StylistAssignmentStrategyEnum;
+}
+
+/**
+ * Servicio de dominio para elegir un estilista cuando la cita se crea sin uno
+ *
+ * Solo considera estilistas que ofrecen todos los servicios solicitados y que están libres
+ * durante toda la cita: dentro de uno de sus tramos de trabajo, sin ausencias, sin citas
+ * que se solapen (considerando los buffers propios de cada estilista) y sin turnos reservados
+ * temporalmente para otros clientes. Entre ellos aplica la estrategia indicada; los empates se resuelven por
+ * nombre para que el resultado sea determinista.
+ */
+export class StylistAssignmentService {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private scheduleAvailabilityService: ScheduleAvailabilityService,
+    private stylistEligibilityService: StylistEligibilityService,
+    private appointmentDurationService: AppointmentDurationService,
+    private slotHoldService: SlotHoldService,
+  ) {}
+
+  /**
+   * Obtiene los estilistas elegibles para los servicios (sin considerar disponibilidad)
+   * @param serviceIds - IDs de los servicios solicitados
+   * @returns Promise con los estilistas que ofrecen todos los servicios
+   */
+  async findEligibleStylists(serviceIds: string[]): Promise<EligibleStylist[]> {
+    return this.stylistEligibilityService.findEligibleStylists(serviceIds);
+  }
+
+  /**
+   * Elige un estilista libre para la cita aplicando la estrategia indicada
+   * @param request - Datos de la cita y estrategia
+   * @param candidates - Estilistas elegibles (por defecto se calculan a partir de los servicios)
+   * @returns Promise con el estilista elegido o null si ninguno está libre
+   */
+  async assignStylist(
+    request: StylistAssignmentRequest,
+    candidates?: EligibleStylist[],
+  ): Promise<EligibleStylist | null> {
+    const eligibleStylists = [
+      ...(candidates ?? (await this.findEligibleStylists(request.serviceIds))),
+    ].sort((a, b) => a.name.localeCompare(b.name));
+
+    const freeStylists: EligibleStylist[] = [];
+    for (const stylist of eligibleStylists) {
+      if (await this.isStylistFree(stylist.id, request)) {
+        freeStylists.push(stylist);
+      }
+    }
+
+    if (freeStylists.length === 0) return null;
+    if (freeStylists.length === 1) return freeStylists[0];
+
+    const dayAppointments = await this.findActiveAppointmentsOfDay(request.dateTime);
+
+    switch (request.strategy ?? StylistAssignmentStrategyEnum.LEAST_LOADED) {
+      case StylistAssignmentStrategyEnum.ROUND_ROBIN:
+        return this.selectRoundRobin(eligibleStylists, freeStylists, dayAppointments);
+      case StylistAssignmentStrategyEnum.PREFERRED_STYLIST:
+        return (
+          (await this.selectPreferred(freeStylists, request.clientId)) ??
+          this.selectLeastLoaded(freeStylists, dayAppointments)
+        );
+      case StylistAssignmentStrategyEnum.LEAST_LOADED:
+      default:
+        return this.selectLeastLoaded(freeStylists, dayAppointments);
+    }
+  }
+
+  /**
+   * Verifica que el estilista pueda atender la cita completa
+   * @param stylistId - ID del estilista (User.id)
+   * @param request - Datos de la cita (inicio, duración y servicios)
+   * @returns Promise con true si la cita cae en un tramo de trabajo, sin ausencias, conflictos ni
+   * reservas temporales de otros clientes
+   */
+  private async isStylistFree(
+    stylistId: string,
+    request: StylistAssignmentRequest,
+  ): Promise<boolean> {
+    const { dateTime, duration } = request;
+    const schedule = await this.scheduleAvailabilityService.getEffectiveStylistSchedule(
+      toSalonDate(dateTime),
+      stylistId,
+    );
+    if (!schedule) return false;
+
+    const end = new Date(dateTime.getTime() + duration * 60000);
+    if (schedule.absences.some((absence) => absence.overlaps(dateTime, end))) {
+      return false;
+    }
+
+    const startInMinutes = getSalonMinutesOfDay(dateTime);
+    const endInMinutes = startInMinutes + duration;
+    const fitsInShift = schedule.intervals.some(
+      (interval) =>
+        startInMinutes >= this.timeToMinutes(interval.startTime) &&
+        endInMinutes <= this.timeToMinutes(interval.endTime),
+    );
+    if (!fitsInShift) return false;
+
+    const buffer = await this.appointmentDurationService.calculateBuffer(
+      request.serviceIds,
+      stylistId,
+    );
+    const conflicts = await this.appointmentRepository.findConflictingAppointments(
+      dateTime,
+      duration,
+      stylistId,
+      undefined,
+      buffer,
+    );
+    if (conflicts.length > 0) return false;
+
+    const holds = await this.slotHoldService.findBlockingHolds(
+      stylistId,
+      dateTime,
+      end,
+      request.clientId,
+      buffer,
+    );
+
+    return holds.length === 0;
+  }
+
+  /**
+   * Obtiene las citas no canceladas del día de la cita
+   * @param dateTime - Fecha de la cita
+   * @returns Promise con las citas activas del día local del salón
+   */
+  private async findActiveAppointmentsOfDay(dateTime: Date): Promise<Appointment[]> {
+    const { gte: dayStart, lte: dayEnd } = salonDayRange(toSalonDate(dateTime));
+    const [appointments, cancelledStatus] = await Promise.all([
+      this.appointmentRepository.findByDateRange(dayStart, dayEnd),
+      this.appointmentStatusRepository.findByName(AppointmentStatusEnum.CANCELLED),
+    ]);
+
+    return cancelledStatus
+      ? appointments.filter((appointment) => appointment.statusId !== cancelledStatus.id)
+      : appointments;
+  }
+
+  /**
+   * LEAST_LOADED: estilista con menos citas activas en el día
+   * @param stylists - Estilistas libres ordenados por nombre
+   * @param dayAppointments - Citas activas del día
+   * @returns Estilista elegido
+   */
+  private selectLeastLoaded(
+    stylists: EligibleStylist[],
+    dayAppointments: Appointment[],
+  ): EligibleStylist {
+    const load = (stylistId: string): number =>
+      dayAppointments.filter((appointment) => appointment.stylistId === stylistId).length;
+
+    return stylists.reduce((best, stylist) => (load(stylist.id) < load(best.id) ? stylist : best));
+  }
+
+  /**
+   * ROUND_ROBIN: siguiente estilista libre (en orden por nombre) después del que recibió la
+   * última cita creada en el día
+   * @param eligibleStylists - Todos los estilistas elegibles ordenados por nombre
+   * @param freeStylists - Estilistas libres para la cita
+   * @param dayAppointments - Citas activas del día
+   * @returns Estilista elegido
+   */
+  private selectRoundRobin(
+    eligibleStylists: EligibleStylist[],
+    freeStylists: EligibleStylist[],
+    dayAppointments: Appointment[],
+  ): EligibleStylist {
+    const lastAssigned = dayAppointments
+      .filter((appointment) => appointment.stylistId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime())[0];
+    const lastIndex = eligibleStylists.findIndex(
+      (stylist) => stylist.id === lastAssigned?.stylistId,
+    );
+
+    for (let offset = 1; offset <= eligibleStylists.length; offset++) {
+      const candidate = eligibleStylists[(lastIndex + offset) % eligibleStylists.length];
+      if (freeStylists.includes(candidate)) return candidate;
+    }
+
+    return freeStylists[0];
+  }
+
+  /**
+   * PREFERRED_STYLIST: estilista con el que el cliente tiene más citas no canceladas
+   * @param stylists - Estilistas libres
+   * @param clientId - ID del cliente (User.id)
+   * @returns Promise con el estilista preferido o null si no está entre los libres
+   */
+  private async selectPreferred(
+    stylists: EligibleStylist[],
+    clientId: string,
+  ): Promise<EligibleStylist | null> {
+    const [history, cancelledStatus] = await Promise.all([
+      this.appointmentRepository.findByClientId(clientId),
+      this.appointmentStatusRepository.findByName(AppointmentStatusEnum.CANCELLED),
+    ]);
+
+    const visits = new Map<string, number>();
+    for (const appointment of history) {
+      if (!appointment.stylistId || appointment.statusId === cancelledStatus?.id) continue;
+      visits.set(appointment.stylistId, (visits.get(appointment.stylistId) ?? 0) + 1);
+    }
+
+    let preferred: EligibleStylist | null = null;
+    for (const stylist of stylists) {
+      const count = visits.get(stylist.id) ?? 0;
+      if (count > 0 && (!preferred || count > (visits.get(preferred.id) ?? 0))) {
+        preferred = stylist;
+      }
+    }
+
+    return preferred;
+  }
+
+  /**
+   * Convierte una hora HH:MM a minutos desde medianoche
+   * @param time - Hora en formato HH:MM
+   * @returns Minutos desde medianoche
+   */
+  private timeToMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -0,0 +1,87 @@
+import { RoleName } from '@prisma/client';
+import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
+import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
+import { IRoleRepository } from '../../../auth/domain/repositories/IRoleRepository';
+
+/**
+ * Estilista candidato para atender una cita
+ */
+export interface EligibleStylist {
+  /** User.id del estilista */
+  id: string;
+  /** Nombre real del estilista */
+  name: string;
+}
+
+/**
+ * Servicio de dominio para determinar qué estilistas pueden atender una cita
+ *
+ * - Con `serviceIds`: estilistas activos que ofrecen (`isOffering = true`) TODOS los servicios
+ * - Sin `serviceIds`: todos los usuarios activos con rol STYLIST
+ *
+ * No considera horarios ni citas: solo la elegibilidad por servicio y estado de la cuenta.
+ */
+export class StylistEligibilityService {
+  constructor(
+    private stylistServiceRepository: IStylistServiceRepository,
+    private userRepository: IUserRepository,
+    private roleRepository: IRoleRepository,
+  ) {}
+
+  /**
+   * Obtiene los estilistas elegibles para una combinación de servicios
+   * @param serviceIds - IDs de los servicios solicitados (opcional)
+   * @returns Promise con los estilistas elegibles (lista vacía si ninguno cumple)
+   */
+  async findEligibleStylists(serviceIds?: string[]): Promise<EligibleStylist[]> {
+    if (!serviceIds || serviceIds.length === 0) {
+      return this.findActiveStylists();
+    }
+
+    const stylistIds = await this.findStylistsOfferingAll(serviceIds);
+    const users = await Promise.all(
+      [...stylistIds].map((stylistId) => this.userRepository.findById(stylistId)),
+    );
+
+    return users
+      .filter((user) => user?.isActive)
+      .map((user) => ({ id: user!.id, name: user!.name }));
+  }
+
+  /**
+   * Obtiene los IDs de los estilistas que ofrecen todos los servicios indicados
+   * @param serviceIds - IDs de los servicios solicitados (al menos uno)
+   * @returns Promise con el conjunto de IDs (vacío si ningún estilista ofrece la combinación)
+   */
+  async findStylistsOfferingAll(serviceIds: string[]): Promise<Set<string>> {
+    let eligibleStylistIds: Set<string> | undefined;
+
+    for (const serviceId of serviceIds) {
+      const offerings = await this.stylistServiceRepository.findStylistsOfferingService(serviceId);
+      const offeringStylistIds: Set<string> = new Set(
+        offerings.filter((o) => o.isOffering).map((o) => o.stylistId),
+      );
+
+      eligibleStylistIds = eligibleStylistIds
+        ? new Set([...eligibleStylistIds].filter((id) => offeringStylistIds.has(id)))
+        : offeringStylistIds;
+
+      if (eligibleStylistIds.size === 0) break;
+    }
+
+    return eligibleStylistIds ?? new Set();
+  }
+
+  /**
+   * Obtiene todos los usuarios activos con rol STYLIST
+   * @returns Promise con los estilistas activos
+   */
+  private async findActiveStylists(): Promise<EligibleStylist[]> {
+    const stylistRole = await this.roleRepository.findByName(RoleName.STYLIST);
+    if (!stylistRole) return [];
+
+    const users = await this.userRepository.findByRole(stylistRole.id);
+
+    return users.filter((user) => user.isActive).map((user) => ({ id: user.id, name: user.name }));
+  }
+}
@@ -0,0 +1,185 @@
+import { Appointment } from '../entities/Appointment';
+import { SlotHold } from '../entities/SlotHold';
+import { WaitlistEntry } from '../entities/WaitlistEntry';
+import { ISlotHoldRepository } from '../repositories/ISlotHoldRepository';
+import { IWaitlistEntryRepository } from '../repositories/IWaitlistEntryRepository';
+import { AppointmentDurationService } from './AppointmentDurationService';
+import { StylistAssignmentService } from './StylistAssignmentService';
+import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
+import { IStylistServiceRepository } from '../../../services/domain/repositories/IStylistServiceRepository';
+import {
+  Notification,
+  NotificationTypeEnum,
+} from '../../../notifications/domain/entities/Notification';
+import { NotificationStatusEnum } from '../../../notifications/domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../../notifications/domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../../notifications/domain/repositories/INotificationStatusRepository';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import {
+  toSalonDate,
+  toSalonDateString,
+  toSalonTimeString,
+} from '../../../../shared/utils/salonTime';
+
+/**
+ * Servicio de dominio que ofrece los turnos liberados a la lista de espera
+ * @description Cuando una cita se cancela, busca las entradas activas que aceptan ese turno,
+ * lo reserva temporalmente a su nombre y les envía una notificación in-app (salvo a quienes la
+ * desactivaron en sus preferencias: igual quedan incluidos en la reserva). Si el estilista de la
+ * cita ya no está activo (por ejemplo, fue desactivado), el turno se ofrece con otro estilista
+ * libre que haga los mismos servicios.
+ */
+export class WaitlistService {
+  constructor(
+    private waitlistEntryRepository: IWaitlistEntryRepository,
+    private slotHoldRepository: ISlotHoldRepository,
+    private userRepository: IUserRepository,
+    private stylistServiceRepository: IStylistServiceRepository,
+    private appointmentDurationService: AppointmentDurationService,
+    private stylistAssignmentService: StylistAssignmentService,
+    private notificationRepository: INotificationRepository,
+    private notificationStatusRepository: INotificationStatusRepository,
+    private holdMinutes: number,
+  ) {}
+
+  /**
+   * Ofrece el turno de una cita cancelada a los clientes en lista de espera
+   * @param appointment - Cita cancelada
+   * @param now - Instante de referencia
+   * @returns Promise con la reserva creada, o null si el turno ya pasó, no hay estilista que lo
+   * pueda atender o ninguna entrada lo acepta
+   * @throws NotFoundError si no existe el estado PENDING de notificaciones
+   */
+  async offerFreedSlot(appointment: Appointment, now: Date = new Date()): Promise<SlotHold | null> {
+    if (appointment.dateTime <= now) return null;
+
+    const stylistId = await this.resolveStylist(appointment);
+    if (!stylistId) return null;
+
+    const candidates = await this.waitlistEntryRepository.findActiveForDate(
+      toSalonDate(appointment.dateTime),
+    );
+    const matchingEntries: WaitlistEntry[] = [];
+    for (const entry of candidates) {
+      if (await this.acceptsSlot(entry, appointment, stylistId)) {
+        matchingEntries.push(entry);
+      }
+    }
+    if (matchingEntries.length === 0) return null;
+
+    const pendingStatus = await this.notificationStatusRepository.findByName(
+      NotificationStatusEnum.PENDING,
+    );
+    if (!pendingStatus) {
+      throw new NotFoundError('NotificationStatus', NotificationStatusEnum.PENDING);
+    }
+
+    const hold = await this.slotHoldRepository.save(
+      SlotHold.create(
+        stylistId,
+        appointment.dateTime,
+        appointment.duration,
+        this.holdMinutes,
+        matchingEntries.map((entry) => entry.clientId),
+        now,
+      ),
+    );
+
+    for (const entry of matchingEntries) {
+      entry.offerHold(hold.id, now);
+      await this.waitlistEntryRepository.update(entry);
+      if (!(await this.wantsNotification(entry.clientId))) continue;
+      await this.notificationRepository.save(
+        Notification.create(
+          NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE,
+          this.buildMessage(hold),
+          entry.clientId,
+          pendingStatus.id,
+        ),
+      );
+    }
+
+    return hold;
+  }
+
+  /**
+   * Determina con qué estilista se ofrece el turno
+   * @param appointment - Cita cancelada
+   * @returns Promise con el estilista de la cita si sigue activo; si no, otro estilista libre
+   * que ofrezca los mismos servicios, o null si no hay ninguno
+   */
+  private async resolveStylist(appointment: Appointment): Promise<string | null> {
+    if (appointment.stylistId) {
+      const stylist = await this.userRepository.findById(appointment.stylistId);
+      if (stylist?.isActive) return appointment.stylistId;
+    }
+
+    const replacement = await this.stylistAssignmentService.assignStylist({
+      dateTime: appointment.dateTime,
+      duration: appointment.duration,
+      serviceIds: appointment.serviceIds,
+      clientId: appointment.clientId,
+    });
+
+    return replacement?.id ?? null;
+  }
+
+  /**
+   * Verifica si una entrada acepta el turno liberado
+   * @param entry - Entrada activa cuyo rango incluye el día del turno
+   * @param appointment - Cita cancelada
+   * @param stylistId - Estilista con el que se ofrece el turno
+   * @returns Promise con true si no es el cliente de la cita cancelada, el estilista le sirve,
+   * ofrece todos sus servicios y el turno alcanza para la duración que necesitan
+   */
+  private async acceptsSlot(
+    entry: WaitlistEntry,
+    appointment: Appointment,
+    stylistId: string,
+  ): Promise<boolean> {
+    if (entry.clientId === appointment.clientId || !entry.acceptsStylist(stylistId)) {
+      return false;
+    }
+
+    const requiredDuration = await this.appointmentDurationService.calculateTotalDuration(
+      entry.serviceIds,
+    );
+    if (requiredDuration > appointment.duration) return false;
+
+    for (const serviceId of entry.serviceIds) {
+      const assignment = await this.stylistServiceRepository.findByStylistAndService(
+        stylistId,
+        serviceId,
+      );
+      if (!assignment?.isOffering) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Verifica si se le debe notificar el turno a un cliente de la lista de espera
+   * @param clientId - ID del usuario cliente (User.id)
+   * @returns Promise con true si el cliente está activo y no desactivó las notificaciones
+   * WAITLIST_SLOT_AVAILABLE en sus preferencias
+   */
+  private async wantsNotification(clientId: string): Promise<boolean> {
+    const client = await this.userRepository.findById(clientId);
+    if (!client?.isActive) return false;
+
+    return client.getPreferences().allowsType(NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE);
+  }
+
+  /**
+   * Arma el mensaje de la notificación con fechas y horas locales del salón
+   * @param hold - Reserva creada para el turno
+   * @returns Mensaje de la notificación
+   */
+  private buildMessage(hold: SlotHold): string {
+    return (
+      `A slot opened up on ${toSalonDateString(hold.dateTime)} at ` +
+      `${toSalonTimeString(hold.dateTime)}. It is held for waitlisted clients until ` +
+      `${toSalonTimeString(hold.expiresAt)}; book it before then to keep it.`
+    );
+  }
+}
@@ -0,0 +1,57 @@
+import {
+  PrismaClient,
+  AppointmentEvent as PrismaAppointmentEvent,
+  AppointmentEventType,
+} from '@prisma/client';
+import { AppointmentEvent } from '../../domain/entities/AppointmentEvent';
+import { IAppointmentEventRepository } from '../../domain/repositories/IAppointmentEventRepository';
+
+/**
+ * Implementación de IAppointmentEventRepository usando Prisma ORM
+ * Persiste el historial append-only de cambios de cada cita
+ */
+export class PrismaAppointmentEventRepository implements IAppointmentEventRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Agrega entradas al historial
+   * @param events - Eventos a guardar
+   */
+  async saveMany(events: AppointmentEvent[]): Promise<void> {
+    if (events.length === 0) return;
+
+    await this.prisma.appointmentEvent.createMany({
+      data: events.map((event) => ({
+        ...event.toPersistence(),
+        type: event.type as AppointmentEventType,
+      })),
+    });
+  }
+
+  /**
+   * Obtiene el historial de una cita en orden cronológico
+   * @param appointmentId - ID de la cita
+   * @returns Promise con los eventos de la cita, del más antiguo al más reciente
+   */
+  async findByAppointmentId(appointmentId: string): Promise<AppointmentEvent[]> {
+    const events = await this.prisma.appointmentEvent.findMany({
+      where: { appointmentId },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return events.map((event) => this.mapToEntity(event));
+  }
+
+  /**
+   * Mapea un registro de Prisma a la entidad de dominio
+   * @param eventData - Registro de Prisma
+   * @returns Entidad de dominio AppointmentEvent
+   */
+  private mapToEntity(eventData: PrismaAppointmentEvent): AppointmentEvent {
+    return AppointmentEvent.fromPersistence(eventData);
+  }
+}
@@ -1,6 +1,13 @@
 import { Prisma, PrismaClient } from '@prisma/client';
-import { Appointment } from '../../domain/entities/Appointment';
-import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
+import { Appointment, AppointmentBuffer } from '../../domain/entities/Appointment';
+import {
+  AppointmentSearchFilters,
+  AppointmentSearchSort,
+  IAppointmentRepository,
+} from '../../domain/repositories/IAppointmentRepository';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { salonDayRange } from '../../../../shared/utils/salonTime';
+import { findBlockingHoldsWith, lockStylistBookings } from './stylistBookingLock';
 
 /**
  * Payload de Prisma para una cita con sus servicios asociados incluidos
@@ -10,6 +17,11 @@ type AppointmentWithServices = Prisma.AppointmentGetPayload<{
   include: { services: true };
 }>;
 
+/**
+ * Cliente Prisma sobre el que se ejecutan las consultas: el cliente normal o el de una transacción
+ */
+type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
+
 /**
  * ID imposible usado para forzar un WHERE que no matchea ninguna fila.
  * Se usa cuando se pasó un ownershipFilter pero ninguno de sus campos
@@ -18,6 +30,15 @@ type AppointmentWithServices = Prisma.AppointmentGetPayload<{
  */
 const NO_OWNERSHIP_MATCH_ID = '__no_ownership_filter_match__';
 
+/**
+ * Estados de las citas que ya no ocupan su turno: no generan conflictos ni cuentan como turno
+ * ocupado en la disponibilidad, de modo que el turno liberado se puede volver a reservar
+ */
+const NON_BLOCKING_STATUSES: string[] = [
+  AppointmentStatusEnum.CANCELLED,
+  AppointmentStatusEnum.NO_SHOW,
+];
+
 /**
  * Implementación de AppointmentRepository usando Prisma ORM
  * Proporciona persistencia de datos de citas en base de datos relacional
@@ -68,7 +89,89 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
    * @returns Promise que resuelve con la cita guardada
    */
   async save(appointment: Appointment): Promise<Appointment> {
-    const appointmentData = await this.prisma.appointment.create({
+    return this.createWith(this.prisma, appointment);
+  }
+
+  /**
+   * Guarda una nueva cita solo si su estilista sigue libre en ese horario
+   * @description Dentro de una transacción toma un advisory lock de PostgreSQL por estilista
+   * (liberado al terminar la transacción), verifica los conflictos con otras citas y con las
+   * reservas temporales vigentes de otros clientes y guarda la cita. Las reservas simultáneas
+   * del mismo estilista (de citas o de turnos) esperan el lock, por lo que la segunda ya ve la
+   * escritura de la primera y no se guarda
+   * @param appointment - Entidad de cita a guardar
+   * @returns Promise con la cita guardada, o null si otra cita ocupa el horario
+   */
+  async saveIfNoConflicts(appointment: Appointment): Promise<Appointment | null> {
+    return this.writeIfNoConflicts(appointment, undefined, (tx) =>
+      this.createWith(tx, appointment),
+    );
+  }
+
+  /**
+   * Actualiza una cita solo si su estilista sigue libre en el nuevo horario
+   * @description Misma transacción serializada por estilista que saveIfNoConflicts, excluyendo la
+   * propia cita de la búsqueda de conflictos
+   * @param appointment - Entidad de cita con datos actualizados
+   * @returns Promise con la cita actualizada, o null si otra cita ocupa el horario
+   */
+  async updateIfNoConflicts(appointment: Appointment): Promise<Appointment | null> {
+    return this.writeIfNoConflicts(appointment, appointment.id, (tx) =>
+      this.updateWith(tx, appointment),
+    );
+  }
+
+  /**
+   * Escribe la cita dentro de una transacción que toma el advisory lock de su estilista y
+   * verifica antes que no haya conflictos con otras citas ni reservas de otros clientes
+   * @param appointment - Cita a escribir
+   * @param excludeAppointmentId - Cita a excluir de la búsqueda de conflictos
+   * @param write - Escritura a ejecutar con el cliente de la transacción
+   * @returns Promise con la cita escrita, o null si hay conflictos
+   */
+  private async writeIfNoConflicts(
+    appointment: Appointment,
+    excludeAppointmentId: string | undefined,
+    write: (tx: Prisma.TransactionClient) => Promise<Appointment>,
+  ): Promise<Appointment | null> {
+    return this.prisma.$transaction(async (tx) => {
+      await lockStylistBookings(tx, appointment.stylistId);
+
+      const buffer = { before: appointment.bufferBefore, after: appointment.bufferAfter };
+      const conflicts = await this.queryConflictingAppointments(
+        tx,
+        appointment.dateTime,
+        appointment.duration,
+        appointment.stylistId,
+        excludeAppointmentId,
+        buffer,
+      );
+      if (conflicts.length > 0) return null;
+
+      if (appointment.stylistId) {
+        const blockingHolds = await findBlockingHoldsWith(
+          tx,
+          appointment.stylistId,
+          appointment.dateTime,
+          appointment.getEndTime(),
+          buffer,
+          appointment.clientId,
+        );
+        if (blockingHolds.length > 0) return null;
+      }
+
+      return write(tx);
+    });
+  }
+
+  /**
+   * Inserta una cita con sus servicios
+   * @param client - Cliente Prisma (normal o de transacción)
+   * @param appointment - Entidad de cita a guardar
+   * @returns Promise que resuelve con la cita guardada
+   */
+  private async createWith(client: PrismaExecutor, appointment: Appointment): Promise<Appointment> {
+    const appointmentData = await client.appointment.create({
       data: {
         id: appointment.id,
         dateTime: appointment.dateTime,
@@ -79,6 +182,9 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
         statusId: appointment.statusId,
         stylistId: appointment.stylistId,
         confirmedAt: appointment.confirmedAt,
+        bufferBefore: appointment.bufferBefore,
+        bufferAfter: appointment.bufferAfter,
+        seriesId: appointment.seriesId,
         createdAt: appointment.createdAt,
         updatedAt: appointment.updatedAt,
         services: {
@@ -99,17 +205,35 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
    * @returns Promise que resuelve con la cita actualizada
    */
   async update(appointment: Appointment): Promise<Appointment> {
-    const appointmentData = await this.prisma.appointment.update({
+    return this.updateWith(this.prisma, appointment);
+  }
+
+  /**
+   * Actualiza una cita con sus servicios
+   * @param client - Cliente Prisma (normal o de transacción)
+   * @param appointment - Entidad de cita con datos actualizados
+   * @returns Promise que resuelve con la cita actualizada
+   */
+  private async updateWith(client: PrismaExecutor, appointment: Appointment): Promise<Appointment> {
+    const appointmentData = await client.appointment.update({
       where: { id: appointment.id },
       data: {
         dateTime: appointment.dateTime,
         duration: appointment.duration,
+        scheduleId: appointment.scheduleId,
         statusId: appointment.statusId,
         stylistId: appointment.stylistId,
-        confirmedAt: appointment.confirmedAt,
+        // `undefined` no modifica la columna en Prisma: los datos que la entidad limpió (p. ej. la
+        // confirmación al reprogramar) se escriben como null
+        confirmedAt: appointment.confirmedAt ?? null,
         cancellationReason: appointment.cancellationReason,
         cancelledBy: appointment.cancelledBy,
-        confirmationNotes: appointment.confirmationNotes,
+        confirmationNotes: appointment.confirmationNotes ?? null,
+        checkedInAt: appointment.checkedInAt ?? null,
+        startedAt: appointment.startedAt ?? null,
+        completedAt: appointment.completedAt ?? null,
+        bufferBefore: appointment.bufferBefore,
+        bufferAfter: appointment.bufferAfter,
         updatedAt: appointment.updatedAt,
         services: {
           set: appointment.serviceIds.map((id) => ({ id })),
@@ -329,6 +453,87 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
     return { stylistId, OR: or };
   }
 
+  /**
+   * Busca citas de forma paginada aplicando los filtros del listado general
+   * @param filters - Filtros combinados con AND
+   * @param sort - Campo y sentido del orden; a igual valor se desempata por ID para que la
+   * paginación sea estable
+   * @param limit - Cantidad máxima de resultados
+   * @param offset - Cantidad de resultados a saltar
+   * @returns Promise que resuelve con la página de citas
+   */
+  async findWithFilters(
+    filters: AppointmentSearchFilters,
+    sort: AppointmentSearchSort,
+    limit: number,
+    offset: number,
+  ): Promise<Appointment[]> {
+    const orderBy: Prisma.AppointmentOrderByWithRelationInput =
+      sort.field === 'clientName'
+        ? { client: { name: sort.direction } }
+        : { [sort.field]: sort.direction };
+
+    const appointmentsData = await this.prisma.appointment.findMany({
+      where: this.buildSearchWhere(filters),
+      include: {
+        services: true,
+      },
+      orderBy: [orderBy, { id: 'asc' }],
+      skip: offset,
+      take: limit,
+    });
+
+    return appointmentsData.map((data) => this.mapToEntity(data));
+  }
+
+  /**
+   * Cuenta las citas que cumplen los mismos filtros que findWithFilters
+   */
+  async countWithFilters(filters: AppointmentSearchFilters): Promise<number> {
+    return this.prisma.appointment.count({ where: this.buildSearchWhere(filters) });
+  }
+
+  /**
+   * Construye el WHERE compartido entre findWithFilters y countWithFilters
+   */
+  private buildSearchWhere(filters: AppointmentSearchFilters): Prisma.AppointmentWhereInput {
+    const conditions: Prisma.AppointmentWhereInput[] = [];
+
+    if (filters.statusId) {
+      conditions.push({ statusId: filters.statusId });
+    }
+    if (filters.stylistId) {
+      conditions.push({ stylistId: filters.stylistId });
+    }
+    if (filters.clientId) {
+      conditions.push({ clientId: filters.clientId });
+    }
+    if (filters.startDate) {
+      conditions.push({ dateTime: { gte: filters.startDate } });
+    }
+    if (filters.endDate) {
+      conditions.push({ dateTime: { lte: filters.endDate } });
+    }
+    if (filters.serviceId) {
+      conditions.push({ services: { some: { id: filters.serviceId } } });
+    }
+    if (filters.categoryId) {
+      conditions.push({ services: { some: { categoryId: filters.categoryId } } });
+    }
+    if (filters.search) {
+      conditions.push({
+        client: {
+          OR: [
+            { name: { contains: filters.search, mode: 'insensitive' } },
+            { email: { contains: filters.search, mode: 'insensitive' } },
+          ],
+        },
+      });
+    }
+
+    return conditions.length > 0 ? { AND: conditions } : {};
+  }
+
   /**
    * Busca todas las citas creadas por un usuario específico
    * @param userId - ID único del usuario creador
@@ -457,14 +662,46 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
     duration: number,
     stylistId?: string,
     excludeAppointmentId?: string,
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+  ): Promise<Appointment[]> {
+    return this.queryConflictingAppointments(
+      this.prisma,
+      dateTime,
+      duration,
+      stylistId,
+      excludeAppointmentId,
+      buffer,
+    );
+  }
+
+  /**
+   * Consulta las citas en conflicto con el cliente indicado
+   * @param client - Cliente Prisma (normal o de transacción)
+   * @returns Promise que resuelve con un array de citas en conflicto
+   * @description También la usa PrismaSlotHoldRepository dentro de su propia transacción
+   * @see findConflictingAppointments
+   */
+  async queryConflictingAppointments(
+    client: PrismaExecutor,
+    dateTime: Date,
+    duration: number,
+    stylistId: string | undefined,
+    excludeAppointmentId: string | undefined,
+    buffer: AppointmentBuffer,
   ): Promise<Appointment[]> {
     const endTime = new Date(dateTime.getTime() + duration * 60000);
+    // Una cita que empieza después del fin puede chocar por su propio buffer previo
+    const latestConflictingStart = new Date(
+      endTime.getTime() + (buffer.after + Appointment.MAX_BUFFER_MINUTES) * 60000,
+    );
 
+    // Las citas canceladas o no show liberaron su turno y no generan conflicto
     const whereClause: Prisma.AppointmentWhereInput = {
+      status: { name: { notIn: NON_BLOCKING_STATUSES } },
       AND: [
         {
           dateTime: {
-            lt: endTime,
+            lt: latestConflictingStart,
           },
         },
         {
@@ -494,7 +731,7 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
       };
     }
 
-    const appointmentsData = await this.prisma.appointment.findMany({
+    const appointmentsData = await client.appointment.findMany({
       where: whereClause,
       include: {
         services: true,
@@ -503,13 +740,10 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
 
     const appointments = appointmentsData.map((data) => this.mapToEntity(data));
 
-    // Filtrar manualmente los conflictos reales
-    return appointments.filter((appointment) => {
-      const appointmentEndTime = new Date(
-        appointment.dateTime.getTime() + appointment.duration * 60000,
-      );
-      return !(endTime <= appointment.dateTime || dateTime >= appointmentEndTime);
-    });
+    // Filtrar manualmente los conflictos reales (bloques con buffers incluidos)
+    return appointments.filter((appointment) =>
+      appointment.overlapsRange(dateTime, endTime, buffer),
+    );
   }
 
   /**
@@ -529,21 +763,58 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
     return appointmentsData.map((data) => this.mapToEntity(data));
   }
 
+  /**
+   * Busca las citas de una serie recurrente
+   * @param seriesId - ID de la serie
+   * @returns Promise que resuelve con las citas de la serie ordenadas por fecha
+   */
+  async findBySeriesId(seriesId: string): Promise<Appointment[]> {
+    const appointmentsData = await this.prisma.appointment.findMany({
+      where: { seriesId },
+      include: {
+        services: true,
+      },
+      orderBy: { dateTime: 'asc' },
+    });
+
+    return appointmentsData.map((data) => this.mapToEntity(data));
+  }
+
   /**
    * Busca citas para una fecha específica
-   * @param date - Fecha para buscar citas
+   * @param date - Día local del salón (fecha sin hora, 00:00 UTC)
    * @returns Promise que resuelve con un array de citas del día
    */
   async findByDate(date: Date): Promise<Appointment[]> {
-    const startOfDay = new Date(date);
-    startOfDay.setHours(0, 0, 0, 0);
-
-    const endOfDay = new Date(date);
-    endOfDay.setHours(23, 59, 59, 999);
+    const { gte: startOfDay, lte: endOfDay } = salonDayRange(date);
 
     return this.findByDateRange(startOfDay, endOfDay);
   }
 
+  /**
+   * Busca las citas de un rango de fechas que ocupan su turno (sin CANCELLED ni NO_SHOW)
+   * @param startDate - Fecha de inicio del rango
+   * @param endDate - Fecha de fin del rango
+   * @returns Promise que resuelve con un array de citas en el rango, ordenadas por fecha
+   */
+  async findBlockingByDateRange(startDate: Date, endDate: Date): Promise<Appointment[]> {
+    const appointmentsData = await this.prisma.appointment.findMany({
+      where: {
+        dateTime: {
+          gte: startDate,
+          lte: endDate,
+        },
+        status: { name: { notIn: NON_BLOCKING_STATUSES } },
+      },
+      include: {
+        services: true,
+      },
+      orderBy: { dateTime: 'asc' },
+    });
+
+    return appointmentsData.map((data) => this.mapToEntity(data));
+  }
+
   /**
    * Cuenta citas con un estado específico
    * @param statusId - ID único del estado
@@ -603,7 +874,7 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
       where: {
         confirmedAt: null,
         status: {
-          name: 'Pendiente',
+          name: AppointmentStatusEnum.PENDING,
         },
       },
       include: {
@@ -657,6 +928,12 @@ export class PrismaAppointmentRepository implements IAppointmentRepository {
       appointmentData.cancellationReason ?? undefined,
       appointmentData.cancelledBy ?? undefined,
       appointmentData.confirmationNotes ?? undefined,
+      appointmentData.bufferBefore,
+      appointmentData.bufferAfter,
+      appointmentData.seriesId ?? undefined,
+      appointmentData.checkedInAt ?? undefined,
+      appointmentData.startedAt ?? undefined,
+      appointmentData.completedAt ?? undefined,
     );
   }
 }
@@ -0,0 +1,69 @@
+import { PrismaClient, AppointmentSeries as PrismaAppointmentSeries } from '@prisma/client';
+import { AppointmentSeries } from '../../domain/entities/AppointmentSeries';
+import { IAppointmentSeriesRepository } from '../../domain/repositories/IAppointmentSeriesRepository';
+
+/**
+ * Implementación de IAppointmentSeriesRepository usando Prisma ORM
+ * Persiste la regla de recurrencia de cada serie; las ocurrencias viven en Appointment
+ */
+export class PrismaAppointmentSeriesRepository implements IAppointmentSeriesRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Guarda una nueva serie
+   * @param series - Serie a guardar
+   * @returns Promise con la serie guardada
+   */
+  async save(series: AppointmentSeries): Promise<AppointmentSeries> {
+    const seriesData = await this.prisma.appointmentSeries.create({
+      data: series.toPersistence(),
+    });
+
+    return this.mapToEntity(seriesData);
+  }
+
+  /**
+   * Busca una serie por su ID
+   * @param id - ID de la serie
+   * @returns Promise con la serie o null si no existe
+   */
+  async findById(id: string): Promise<AppointmentSeries | null> {
+    const seriesData = await this.prisma.appointmentSeries.findUnique({
+      where: { id },
+    });
+
+    return seriesData ? this.mapToEntity(seriesData) : null;
+  }
+
+  /**
+   * Elimina una serie (sus citas quedan con seriesId = null)
+   * @param id - ID de la serie
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.appointmentSeries.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Mapea un registro de Prisma a la entidad de dominio
+   * @param seriesData - Registro de Prisma
+   * @returns Entidad de dominio AppointmentSeries
+   */
+  private mapToEntity(seriesData: PrismaAppointmentSeries): AppointmentSeries {
+    return AppointmentSeries.fromPersistence({
+      id: seriesData.id,
+      intervalWeeks: seriesData.intervalWeeks,
+      occurrences: seriesData.occurrences,
+      startDateTime: seriesData.startDateTime,
+      clientId: seriesData.clientId,
+      userId: seriesData.userId,
+      createdAt: seriesData.createdAt,
+      updatedAt: seriesData.updatedAt,
+    });
+  }
+}
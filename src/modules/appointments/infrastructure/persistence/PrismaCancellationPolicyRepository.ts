@@ -0,0 +1,84 @@
+import { CancellationFeeType, Prisma, PrismaClient } from '@prisma/client';
+import { CancellationPolicy } from '../../domain/entities/CancellationPolicy';
+import { ICancellationPolicyRepository } from '../../domain/repositories/ICancellationPolicyRepository';
+import { generateUuid } from '../../../../shared/utils/uuid';
+
+type PrismaCancellationPolicy = Prisma.CancellationPolicyGetPayload<{
+  include: { serviceOverrides: true };
+}>;
+
+/**
+ * Implementación de ICancellationPolicyRepository usando Prisma ORM
+ * La política es una sola fila con id fijo; sus avisos por servicio se reemplazan completos
+ */
+export class PrismaCancellationPolicyRepository implements ICancellationPolicyRepository {
+  /** ID de la única fila de la política */
+  private static readonly POLICY_ID = 'default';
+
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Obtiene la política vigente
+   * @returns Promise con la política guardada, o la política por defecto si no hay ninguna
+   */
+  async get(): Promise<CancellationPolicy> {
+    const policyData = await this.prisma.cancellationPolicy.findUnique({
+      where: { id: PrismaCancellationPolicyRepository.POLICY_ID },
+      include: { serviceOverrides: true },
+    });
+
+    return policyData ? this.mapToEntity(policyData) : CancellationPolicy.createDefault();
+  }
+
+  /**
+   * Reemplaza la política vigente y sus avisos por servicio en una transacción
+   * @param policy - Política a guardar
+   * @returns Promise con la política guardada
+   */
+  async save(policy: CancellationPolicy): Promise<CancellationPolicy> {
+    const policyId = PrismaCancellationPolicyRepository.POLICY_ID;
+    const data = {
+      adminNoticeHours: policy.adminNoticeHours,
+      stylistNoticeHours: policy.stylistNoticeHours,
+      clientNoticeHours: policy.clientNoticeHours,
+      lateFeeType: (policy.lateFeeType as CancellationFeeType) ?? null,
+      lateFeeValue: policy.lateFeeValue ?? null,
+      chargeNoShowFee: policy.chargeNoShowFee,
+    };
+
+    await this.prisma.$transaction([
+      this.prisma.cancellationPolicy.upsert({
+        where: { id: policyId },
+        create: { id: policyId, ...data },
+        update: data,
+      }),
+      this.prisma.serviceCancellationOverride.deleteMany({ where: { policyId } }),
+      this.prisma.serviceCancellationOverride.createMany({
+        data: policy.serviceOverrides.map((override) => ({
+          id: generateUuid(),
+          policyId,
+          serviceId: override.serviceId,
+          noticeHours: override.noticeHours,
+        })),
+      }),
+    ]);
+
+    return this.get();
+  }
+
+  /**
+   * Mapea un registro de Prisma a la entidad de dominio
+   * @param policyData - Registro de Prisma con sus avisos por servicio
+   * @returns Entidad de dominio CancellationPolicy
+   */
+  private mapToEntity(policyData: PrismaCancellationPolicy): CancellationPolicy {
+    return CancellationPolicy.fromPersistence({
+      ...policyData,
+      lateFeeValue: policyData.lateFeeValue === null ? null : Number(policyData.lateFeeValue),
+    });
+  }
+}
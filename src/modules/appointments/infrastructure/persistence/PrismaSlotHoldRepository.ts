@@ -0,0 +1,152 @@
+import { PrismaClient } from '@prisma/client';
+import { AppointmentBuffer } from '../../domain/entities/Appointment';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { ISlotHoldRepository } from '../../domain/repositories/ISlotHoldRepository';
+import { PrismaAppointmentRepository } from './PrismaAppointmentRepository';
+import {
+  SLOT_HOLD_WITH_CLIENT_IDS as WITH_CLIENT_IDS,
+  findBlockingHoldsWith,
+  lockStylistBookings,
+  mapToSlotHold,
+} from './stylistBookingLock';
+
+/**
+ * Implementación de ISlotHoldRepository usando Prisma ORM
+ * Persiste las reservas temporales de turnos liberados y de checkout
+ */
+export class PrismaSlotHoldRepository implements ISlotHoldRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   * @param appointmentRepository - Repositorio de citas, para verificar el turno dentro de la
+   * transacción de saveIfSlotFree
+   */
+  constructor(
+    private prisma: PrismaClient,
+    private appointmentRepository: PrismaAppointmentRepository = new PrismaAppointmentRepository(
+      prisma,
+    ),
+  ) {}
+
+  /**
+   * Guarda una nueva reserva
+   * @param hold - Reserva a guardar
+   * @returns Promise con la reserva guardada (los clientes se conservan de la entidad, ya que
+   * las entradas se vinculan después)
+   */
+  async save(hold: SlotHold): Promise<SlotHold> {
+    const holdData = await this.prisma.slotHold.create({
+      data: hold.toPersistence(),
+      include: WITH_CLIENT_IDS,
+    });
+
+    return SlotHold.fromPersistence({ ...holdData, clientIds: hold.clientIds });
+  }
+
+  /**
+   * Guarda una nueva reserva solo si su turno sigue libre
+   * @description Dentro de una transacción toma el mismo advisory lock por estilista que las
+   * reservas de citas (PrismaAppointmentRepository.saveIfNoConflicts), verifica que no haya citas
+   * ni reservas vigentes de otros clientes en el turno y guarda la reserva. Dos reservas
+   * simultáneas del mismo turno esperan el lock, por lo que la segunda ya ve la primera
+   * @param hold - Reserva a guardar
+   * @param buffer - Buffers de la cita que se reservaría en el turno
+   * @returns Promise con la reserva guardada, o null si el turno ya no está libre
+   */
+  async saveIfSlotFree(
+    hold: SlotHold,
+    buffer: AppointmentBuffer = { before: 0, after: 0 },
+  ): Promise<SlotHold | null> {
+    return this.prisma.$transaction(async (tx) => {
+      await lockStylistBookings(tx, hold.stylistId);
+
+      const conflicts = await this.appointmentRepository.queryConflictingAppointments(
+        tx,
+        hold.dateTime,
+        hold.duration,
+        hold.stylistId,
+        undefined,
+        buffer,
+      );
+      if (conflicts.length > 0) return null;
+
+      const blockingHolds = await findBlockingHoldsWith(
+        tx,
+        hold.stylistId,
+        hold.dateTime,
+        hold.getEndTime(),
+        buffer,
+        hold.clientId,
+      );
+      if (blockingHolds.length > 0) return null;
+
+      const holdData = await tx.slotHold.create({
+        data: hold.toPersistence(),
+        include: WITH_CLIENT_IDS,
+      });
+
+      return SlotHold.fromPersistence({ ...holdData, clientIds: hold.clientIds });
+    });
+  }
+
+  /**
+   * Obtiene las reservas vigentes cuyo turno empieza dentro de un rango
+   * @param startDate - Inicio del rango
+   * @param endDate - Fin del rango
+   * @param stylistId - ID del estilista (opcional, por defecto todos)
+   * @param now - Instante de referencia para descartar las vencidas
+   * @returns Promise con las reservas ordenadas por inicio, con los clientes que las pueden usar
+   */
+  async findActiveByDateRange(
+    startDate: Date,
+    endDate: Date,
+    stylistId?: string,
+    now: Date = new Date(),
+  ): Promise<SlotHold[]> {
+    const holdsData = await this.prisma.slotHold.findMany({
+      where: {
+        dateTime: { gte: startDate, lte: endDate },
+        expiresAt: { gt: now },
+        ...(stylistId && { stylistId }),
+      },
+      include: WITH_CLIENT_IDS,
+      orderBy: { dateTime: 'asc' },
+    });
+
+    return holdsData.map((holdData) => mapToSlotHold(holdData));
+  }
+
+  /**
+   * Busca una reserva de checkout por su token (vigente o no)
+   * @param token - Token de la reserva
+   * @returns Promise con la reserva o null si no existe
+   */
+  async findByToken(token: string): Promise<SlotHold | null> {
+    const holdData = await this.prisma.slotHold.findUnique({
+      where: { token },
+      include: WITH_CLIENT_IDS,
+    });
+
+    return holdData ? mapToSlotHold(holdData) : null;
+  }
+
+  /**
+   * Elimina las reservas de checkout de un cliente
+   * @param clientId - Cliente (User.id)
+   */
+  async deleteCheckoutHoldsByClient(clientId: string): Promise<void> {
+    await this.prisma.slotHold.deleteMany({
+      where: { clientId },
+    });
+  }
+
+  /**
+   * Elimina una reserva (las entradas de la lista de espera que la apuntaban quedan sin reserva)
+   * @param id - ID de la reserva
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.slotHold.delete({
+      where: { id },
+    });
+  }
+}
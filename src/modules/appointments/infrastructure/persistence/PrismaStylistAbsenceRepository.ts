@@ -0,0 +1,111 @@
+import { PrismaClient, StylistAbsence as PrismaStylistAbsence } from '@prisma/client';
+import { AbsenceTypeEnum, StylistAbsence } from '../../domain/entities/StylistAbsence';
+import { IStylistAbsenceRepository } from '../../domain/repositories/IStylistAbsenceRepository';
+
+/**
+ * Implementación de IStylistAbsenceRepository usando Prisma ORM
+ * Persiste las ausencias (vacaciones, licencias, bloqueos parciales) de cada estilista
+ */
+export class PrismaStylistAbsenceRepository implements IStylistAbsenceRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Guarda una nueva ausencia
+   * @param absence - Ausencia a guardar
+   * @returns Promise con la ausencia guardada
+   */
+  async save(absence: StylistAbsence): Promise<StylistAbsence> {
+    const absenceData = await this.prisma.stylistAbsence.create({
+      data: absence.toPersistence(),
+    });
+
+    return this.mapToEntity(absenceData);
+  }
+
+  /**
+   * Busca una ausencia por su ID
+   * @param id - ID de la ausencia
+   * @returns Promise con la ausencia o null si no existe
+   */
+  async findById(id: string): Promise<StylistAbsence | null> {
+    const absenceData = await this.prisma.stylistAbsence.findUnique({
+      where: { id },
+    });
+
+    return absenceData ? this.mapToEntity(absenceData) : null;
+  }
+
+  /**
+   * Obtiene las ausencias de un estilista que se solapan con un rango de fechas
+   * @param stylistId - ID del estilista (User.id)
+   * @param startDate - Inicio del rango
+   * @param endDate - Fin del rango
+   * @returns Promise con las ausencias ordenadas por fecha de inicio
+   */
+  async findOverlapping(
+    stylistId: string,
+    startDate: Date,
+    endDate: Date,
+  ): Promise<StylistAbsence[]> {
+    const absencesData = await this.prisma.stylistAbsence.findMany({
+      where: {
+        stylistId,
+        startDateTime: { lt: endDate },
+        endDateTime: { gt: startDate },
+      },
+      orderBy: { startDateTime: 'asc' },
+    });
+
+    return absencesData.map((absenceData) => this.mapToEntity(absenceData));
+  }
+
+  /**
+   * Obtiene las ausencias de un estilista que terminan a partir de una fecha
+   * @param stylistId - ID del estilista (User.id)
+   * @param from - Fecha desde la cual listar (por defecto, todas)
+   * @returns Promise con las ausencias ordenadas por fecha de inicio
+   */
+  async findByStylistId(stylistId: string, from?: Date): Promise<StylistAbsence[]> {
+    const absencesData = await this.prisma.stylistAbsence.findMany({
+      where: {
+        stylistId,
+        ...(from && { endDateTime: { gt: from } }),
+      },
+      orderBy: { startDateTime: 'asc' },
+    });
+
+    return absencesData.map((absenceData) => this.mapToEntity(absenceData));
+  }
+
+  /**
+   * Elimina una ausencia
+   * @param id - ID de la ausencia
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.stylistAbsence.delete({
+      where: { id },
+    });
+  }
+
+  /**
+   * Mapea un registro de Prisma a la entidad de dominio
+   * @param absenceData - Registro de Prisma
+   * @returns Entidad de dominio StylistAbsence
+   */
+  private mapToEntity(absenceData: PrismaStylistAbsence): StylistAbsence {
+    return StylistAbsence.fromPersistence({
+      id: absenceData.id,
+      stylistId: absenceData.stylistId,
+      type: absenceData.type as AbsenceTypeEnum,
+      startDateTime: absenceData.startDateTime,
+      endDateTime: absenceData.endDateTime,
+      reason: absenceData.reason,
+      createdAt: absenceData.createdAt,
+      updatedAt: absenceData.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,87 @@
+import { PrismaClient, StylistSchedule as PrismaStylistSchedule } from '@prisma/client';
+import { StylistSchedule } from '../../domain/entities/StylistSchedule';
+import { DayOfWeekEnum } from '../../domain/entities/Schedule';
+import { IStylistScheduleRepository } from '../../domain/repositories/IStylistScheduleRepository';
+
+/**
+ * Implementación de IStylistScheduleRepository usando Prisma ORM
+ * Persiste los turnos semanales (y descansos) de cada estilista
+ */
+export class PrismaStylistScheduleRepository implements IStylistScheduleRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Obtiene todos los turnos semanales de un estilista
+   * @param stylistId - ID del estilista (User.id)
+   * @returns Promise con los turnos ordenados por día y hora de inicio
+   */
+  async findByStylistId(stylistId: string): Promise<StylistSchedule[]> {
+    const schedulesData = await this.prisma.stylistSchedule.findMany({
+      where: { stylistId },
+      orderBy: [{ dayOfWeek: 'asc' }, { startTime: 'asc' }],
+    });
+
+    return schedulesData.map(scheduleData => this.mapToEntity(scheduleData));
+  }
+
+  /**
+   * Obtiene los turnos de un estilista para un día de la semana
+   * @param stylistId - ID del estilista (User.id)
+   * @param dayOfWeek - Día de la semana
+   * @returns Promise con los turnos del día ordenados por hora de inicio
+   */
+  async findByStylistAndDay(
+    stylistId: string,
+    dayOfWeek: DayOfWeekEnum,
+  ): Promise<StylistSchedule[]> {
+    const schedulesData = await this.prisma.stylistSchedule.findMany({
+      where: { stylistId, dayOfWeek },
+      orderBy: { startTime: 'asc' },
+    });
+
+    return schedulesData.map(scheduleData => this.mapToEntity(scheduleData));
+  }
+
+  /**
+   * Reemplaza por completo la semana de turnos de un estilista en una transacción
+   * @param stylistId - ID del estilista (User.id)
+   * @param schedules - Nuevos turnos (lista vacía = volver a heredar el horario del salón)
+   * @returns Promise con los turnos guardados
+   */
+  async replaceForStylist(
+    stylistId: string,
+    schedules: StylistSchedule[],
+  ): Promise<StylistSchedule[]> {
+    await this.prisma.$transaction([
+      this.prisma.stylistSchedule.deleteMany({ where: { stylistId } }),
+      this.prisma.stylistSchedule.createMany({
+        data: schedules.map(schedule => schedule.toPersistence()),
+      }),
+    ]);
+
+    return this.findByStylistId(stylistId);
+  }
+
+  /**
+   * Mapea un registro de Prisma a la entidad de dominio
+   * @param scheduleData - Registro de Prisma
+   * @returns Entidad de dominio StylistSchedule
+   */
+  private mapToEntity(scheduleData: PrismaStylistSchedule): StylistSchedule {
+    return StylistSchedule.fromPersistence({
+      id: scheduleData.id,
+      stylistId: scheduleData.stylistId,
+      dayOfWeek: scheduleData.dayOfWeek as DayOfWeekEnum,
+      startTime: scheduleData.startTime,
+      endTime: scheduleData.endTime,
+      breakStartTime: scheduleData.breakStartTime,
+      breakEndTime: scheduleData.breakEndTime,
+      createdAt: scheduleData.createdAt,
+      updatedAt: scheduleData.updatedAt,
+    });
+  }
+}
@@ -0,0 +1,150 @@
+import { Prisma, PrismaClient, WaitlistStatus } from '@prisma/client';
+import { WaitlistEntry, WaitlistStatusEnum } from '../../domain/entities/WaitlistEntry';
+import { IWaitlistEntryRepository } from '../../domain/repositories/IWaitlistEntryRepository';
+
+/**
+ * Payload de Prisma para una entrada con sus servicios incluidos
+ */
+type WaitlistEntryWithServices = Prisma.WaitlistEntryGetPayload<{
+  include: { services: { select: { id: true } } };
+}>;
+
+/**
+ * Include usado en todas las consultas de este repositorio
+ */
+const WITH_SERVICE_IDS = { services: { select: { id: true } } } as const;
+
+/**
+ * Implementación de IWaitlistEntryRepository usando Prisma ORM
+ * Persiste las entradas de la lista de espera y su relación con los servicios pedidos
+ */
+export class PrismaWaitlistEntryRepository implements IWaitlistEntryRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Guarda una nueva entrada con sus servicios
+   * @param entry - Entrada a guardar
+   * @returns Promise con la entrada guardada
+   */
+  async save(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const entryData = await this.prisma.waitlistEntry.create({
+      data: {
+        ...entry.toPersistence(),
+        status: entry.status as WaitlistStatus,
+        services: {
+          connect: entry.serviceIds.map((id) => ({ id })),
+        },
+      },
+      include: WITH_SERVICE_IDS,
+    });
+
+    return this.mapToEntity(entryData);
+  }
+
+  /**
+   * Actualiza el estado y la reserva ofrecida de una entrada existente
+   * @param entry - Entrada con los cambios
+   * @returns Promise con la entrada actualizada
+   */
+  async update(entry: WaitlistEntry): Promise<WaitlistEntry> {
+    const entryData = await this.prisma.waitlistEntry.update({
+      where: { id: entry.id },
+      data: {
+        status: entry.status as WaitlistStatus,
+        holdId: entry.holdId ?? null,
+        lastNotifiedAt: entry.lastNotifiedAt ?? null,
+      },
+      include: WITH_SERVICE_IDS,
+    });
+
+    return this.mapToEntity(entryData);
+  }
+
+  /**
+   * Busca una entrada por su ID
+   * @param id - ID de la entrada
+   * @returns Promise con la entrada o null si no existe
+   */
+  async findById(id: string): Promise<WaitlistEntry | null> {
+    const entryData = await this.prisma.waitlistEntry.findUnique({
+      where: { id },
+      include: WITH_SERVICE_IDS,
+    });
+
+    return entryData ? this.mapToEntity(entryData) : null;
+  }
+
+  /**
+   * Obtiene todas las entradas de un cliente
+   * @param clientId - ID del cliente (User.id)
+   * @returns Promise con las entradas, las más recientes primero
+   */
+  async findByClientId(clientId: string): Promise<WaitlistEntry[]> {
+    const entriesData = await this.prisma.waitlistEntry.findMany({
+      where: { clientId },
+      include: WITH_SERVICE_IDS,
+      orderBy: { createdAt: 'desc' },
+    });
+
+    return entriesData.map((entryData) => this.mapToEntity(entryData));
+  }
+
+  /**
+   * Obtiene las entradas activas cuyo rango incluye un día
+   * @param salonDate - Día local del salón (fecha sin hora)
+   * @returns Promise con las entradas en orden de llegada (las más antiguas primero)
+   */
+  async findActiveForDate(salonDate: Date): Promise<WaitlistEntry[]> {
+    const entriesData = await this.prisma.waitlistEntry.findMany({
+      where: {
+        status: WaitlistStatus.ACTIVE,
+        fromDate: { lte: salonDate },
+        toDate: { gte: salonDate },
+      },
+      include: WITH_SERVICE_IDS,
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return entriesData.map((entryData) => this.mapToEntity(entryData));
+  }
+
+  /**
+   * Obtiene las entradas activas a las que se ofreció una reserva
+   * @param holdId - ID de la reserva temporal
+   * @returns Promise con las entradas
+   */
+  async findActiveByHoldId(holdId: string): Promise<WaitlistEntry[]> {
+    const entriesData = await this.prisma.waitlistEntry.findMany({
+      where: { holdId, status: WaitlistStatus.ACTIVE },
+      include: WITH_SERVICE_IDS,
+    });
+
+    return entriesData.map((entryData) => this.mapToEntity(entryData));
+  }
+
+  /**
+   * Mapea un registro de Prisma a la entidad de dominio
+   * @param entryData - Registro de Prisma con los IDs de sus servicios
+   * @returns Entidad de dominio WaitlistEntry
+   */
+  private mapToEntity(entryData: WaitlistEntryWithServices): WaitlistEntry {
+    return WaitlistEntry.fromPersistence({
+      id: entryData.id,
+      clientId: entryData.clientId,
+      userId: entryData.userId,
+      serviceIds: entryData.services.map((service) => service.id),
+      fromDate: entryData.fromDate,
+      toDate: entryData.toDate,
+      status: entryData.status as WaitlistStatusEnum,
+      stylistId: entryData.stylistId,
+      holdId: entryData.holdId,
+      lastNotifiedAt: entryData.lastNotifiedAt,
+      createdAt: entryData.createdAt,
+      updatedAt: entryData.updatedAt,
+    });
+  }
+}
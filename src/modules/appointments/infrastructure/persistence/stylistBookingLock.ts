@@ -0,0 +1,115 @@
+import { Prisma, PrismaClient, WaitlistStatus } from '@prisma/client';
+import { AppointmentBuffer } from '../../domain/entities/Appointment';
+import { SlotHold } from '../../domain/entities/SlotHold';
+
+/**
+ * Cliente Prisma sobre el que se ejecutan las consultas: el cliente normal o el de una transacción
+ */
+type PrismaExecutor = PrismaClient | Prisma.TransactionClient;
+
+/**
+ * Prefijo de la clave del advisory lock que serializa las reservas de un mismo estilista
+ */
+const STYLIST_BOOKING_LOCK_PREFIX = 'appointment-booking:';
+
+/**
+ * Máximo de minutos que puede durar el turno de una reserva (el de una cita), usado para ampliar
+ * la búsqueda de reservas solapadas
+ */
+const MAX_HOLD_DURATION_MINUTES = 480;
+
+/**
+ * Include de las reservas: en las de turnos liberados, los clientes que pueden usar la reserva
+ * son los de las entradas activas de la lista de espera que la apuntan
+ */
+export const SLOT_HOLD_WITH_CLIENT_IDS = {
+  waitlistEntries: {
+    where: { status: WaitlistStatus.ACTIVE },
+    select: { clientId: true },
+  },
+} as const;
+
+/**
+ * Payload de Prisma para una reserva con sus clientes incluidos
+ */
+export type SlotHoldWithClients = Prisma.SlotHoldGetPayload<{
+  include: typeof SLOT_HOLD_WITH_CLIENT_IDS;
+}>;
+
+/**
+ * Toma el advisory lock de PostgreSQL que serializa las reservas de citas y de turnos de un
+ * estilista (se libera al terminar la transacción)
+ * @param tx - Cliente de la transacción
+ * @param stylistId - Estilista (User.id); las citas sin estilista comparten una misma clave
+ * @description Lo toman PrismaAppointmentRepository (citas) y PrismaSlotHoldRepository (reservas
+ * de checkout) antes de verificar el turno y escribir, de modo que dos escrituras simultáneas
+ * sobre la agenda del mismo estilista no puedan tomar ambas el mismo turno
+ */
+export async function lockStylistBookings(
+  tx: Prisma.TransactionClient,
+  stylistId?: string,
+): Promise<void> {
+  const lockKey = STYLIST_BOOKING_LOCK_PREFIX + (stylistId ?? '');
+  await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext(${lockKey}))`;
+}
+
+/**
+ * Obtiene las reservas vigentes del estilista que impiden reservar un rango
+ * @param client - Cliente Prisma (normal o de transacción)
+ * @param stylistId - Estilista (User.id)
+ * @param start - Inicio del rango
+ * @param end - Fin del rango
+ * @param buffer - Buffers del rango
+ * @param clientId - Cliente que reserva: las reservas a su nombre no lo bloquean
+ * @param now - Instante de referencia para descartar las vencidas
+ * @returns Promise con las reservas que bloquean el rango (misma regla que
+ * `SlotHoldService.findBlockingHolds`)
+ */
+export async function findBlockingHoldsWith(
+  client: PrismaExecutor,
+  stylistId: string,
+  start: Date,
+  end: Date,
+  buffer: AppointmentBuffer,
+  clientId?: string,
+  now: Date = new Date(),
+): Promise<SlotHold[]> {
+  const holdsData = await client.slotHold.findMany({
+    where: {
+      stylistId,
+      dateTime: {
+        gte: new Date(start.getTime() - (MAX_HOLD_DURATION_MINUTES + buffer.before) * 60000),
+        lte: new Date(end.getTime() + buffer.after * 60000),
+      },
+      expiresAt: { gt: now },
+    },
+    include: SLOT_HOLD_WITH_CLIENT_IDS,
+  });
+
+  return holdsData
+    .map((holdData) => mapToSlotHold(holdData))
+    .filter(
+      (hold) => hold.overlapsRange(start, end, buffer) && (!clientId || !hold.isHeldFor(clientId)),
+    );
+}
+
+/**
+ * Mapea un registro de Prisma a la entidad de dominio
+ * @param holdData - Registro de Prisma con los clientes de sus entradas activas
+ * @returns Entidad de dominio SlotHold (una reserva de checkout es solo de su cliente)
+ */
+export function mapToSlotHold(holdData: SlotHoldWithClients): SlotHold {
+  return SlotHold.fromPersistence({
+    id: holdData.id,
+    stylistId: holdData.stylistId,
+    dateTime: holdData.dateTime,
+    duration: holdData.duration,
+    expiresAt: holdData.expiresAt,
+    clientIds: holdData.clientId
+      ? [holdData.clientId]
+      : holdData.waitlistEntries.map((entry) => entry.clientId),
+    createdAt: holdData.createdAt,
+    clientId: holdData.clientId,
+    token: holdData.token,
+  });
+}
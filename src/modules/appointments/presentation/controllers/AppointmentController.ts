@@ -5,14 +5,52 @@ import { GetAppointmentsByClient } from '../../application/use-cases/GetAppointm
 import { GetAppointmentsByStylist } from '../../application/use-cases/GetAppointmentsByStylist';
 import { CancelAppointment } from '../../application/use-cases/CancelAppointment';
 import { GetAvailableSlots } from '../../application/use-cases/GetAvailableSlots';
+import { GetAvailabilityCalendar } from '../../application/use-cases/GetAvailabilityCalendar';
 import { ConfirmAppointment } from '../../application/use-cases/ConfirmAppointment';
 import { UpdateAppointment } from '../../application/use-cases/UpdateAppointment';
+import { GetStylistSchedule } from '../../application/use-cases/GetStylistSchedule';
+import { SetStylistSchedule } from '../../application/use-cases/SetStylistSchedule';
+import { GetStylistAbsences } from '../../application/use-cases/GetStylistAbsences';
+import { CreateStylistAbsence } from '../../application/use-cases/CreateStylistAbsence';
+import { DeleteStylistAbsence } from '../../application/use-cases/DeleteStylistAbsence';
+import { CreateAppointmentSeries } from '../../application/use-cases/CreateAppointmentSeries';
+import { GetAppointmentSeries } from '../../application/use-cases/GetAppointmentSeries';
+import { UpdateAppointmentSeries } from '../../application/use-cases/UpdateAppointmentSeries';
+import { CancelAppointmentSeries } from '../../application/use-cases/CancelAppointmentSeries';
+import { CheckInAppointment } from '../../application/use-cases/CheckInAppointment';
+import { StartAppointment } from '../../application/use-cases/StartAppointment';
+import { CompleteAppointment } from '../../application/use-cases/CompleteAppointment';
+import { MarkAppointmentNoShow } from '../../application/use-cases/MarkAppointmentNoShow';
+import { SweepStaleAppointments } from '../../application/use-cases/SweepStaleAppointments';
+import { GetAppointmentHistory } from '../../application/use-cases/GetAppointmentHistory';
+import { GetCancellationPolicy } from '../../application/use-cases/GetCancellationPolicy';
+import { UpdateCancellationPolicy } from '../../application/use-cases/UpdateCancellationPolicy';
+import { CreateWaitlistEntry } from '../../application/use-cases/CreateWaitlistEntry';
+import { GetWaitlistEntriesByClient } from '../../application/use-cases/GetWaitlistEntriesByClient';
+import { CancelWaitlistEntry } from '../../application/use-cases/CancelWaitlistEntry';
+import { CreateSlotHold } from '../../application/use-cases/CreateSlotHold';
+import { ReleaseSlotHold } from '../../application/use-cases/ReleaseSlotHold';
+import { RescheduleAppointment } from '../../application/use-cases/RescheduleAppointment';
+import { GetAppointments } from '../../application/use-cases/GetAppointments';
+import { GetDailyAgenda } from '../../application/use-cases/GetDailyAgenda';
 import { AuthenticatedRequest } from '../../../auth/presentation/middleware/AuthMiddleware';
 import { CreateAppointmentDto } from '../../application/dto/request/CreateAppointmentDto';
 import { UpdateAppointmentDto } from '../../application/dto/request/UpdateAppointmentDto';
 import { CancelAppointmentDto } from '../../application/dto/request/CancelAppointmentDto';
 import { ConfirmAppointmentDto } from '../../application/dto/request/ConfirmAppointmentDto';
 import { GetAvailableSlotsDto } from '../../application/dto/request/GetAvailableSlotsDto';
+import { GetAvailabilityCalendarDto } from '../../application/dto/request/GetAvailabilityCalendarDto';
+import { SetStylistScheduleDto } from '../../application/dto/request/SetStylistScheduleDto';
+import { CreateStylistAbsenceDto } from '../../application/dto/request/CreateStylistAbsenceDto';
+import { CreateAppointmentSeriesDto } from '../../application/dto/request/CreateAppointmentSeriesDto';
+import { UpdateAppointmentSeriesDto } from '../../application/dto/request/UpdateAppointmentSeriesDto';
+import { CancelAppointmentSeriesDto } from '../../application/dto/request/CancelAppointmentSeriesDto';
+import { UpdateCancellationPolicyDto } from '../../application/dto/request/UpdateCancellationPolicyDto';
+import { CreateWaitlistEntryDto } from '../../application/dto/request/CreateWaitlistEntryDto';
+import { CreateSlotHoldDto } from '../../application/dto/request/CreateSlotHoldDto';
+import { RescheduleAppointmentDto } from '../../application/dto/request/RescheduleAppointmentDto';
+import { GetAppointmentsFilterDto } from '../../application/dto/request/GetAppointmentsFilterDto';
+import { GetDailyAgendaDto } from '../../application/dto/request/GetDailyAgendaDto';
 import { UnauthorizedError } from '../../../../shared/exceptions/UnauthorizedError';
 
 /**
@@ -30,6 +68,32 @@ export class AppointmentController {
     private getAvailableSlotsUseCase: GetAvailableSlots,
     private confirmAppointmentUseCase: ConfirmAppointment,
     private updateAppointmentUseCase: UpdateAppointment,
+    private getStylistScheduleUseCase: GetStylistSchedule,
+    private setStylistScheduleUseCase: SetStylistSchedule,
+    private getStylistAbsencesUseCase: GetStylistAbsences,
+    private createStylistAbsenceUseCase: CreateStylistAbsence,
+    private deleteStylistAbsenceUseCase: DeleteStylistAbsence,
+    private getAvailabilityCalendarUseCase: GetAvailabilityCalendar,
+    private createAppointmentSeriesUseCase: CreateAppointmentSeries,
+    private getAppointmentSeriesUseCase: GetAppointmentSeries,
+    private updateAppointmentSeriesUseCase: UpdateAppointmentSeries,
+    private cancelAppointmentSeriesUseCase: CancelAppointmentSeries,
+    private checkInAppointmentUseCase: CheckInAppointment,
+    private startAppointmentUseCase: StartAppointment,
+    private completeAppointmentUseCase: CompleteAppointment,
+    private markAppointmentNoShowUseCase: MarkAppointmentNoShow,
+    private sweepStaleAppointmentsUseCase: SweepStaleAppointments,
+    private getAppointmentHistoryUseCase: GetAppointmentHistory,
+    private getCancellationPolicyUseCase: GetCancellationPolicy,
+    private updateCancellationPolicyUseCase: UpdateCancellationPolicy,
+    private createWaitlistEntryUseCase: CreateWaitlistEntry,
+    private getWaitlistEntriesByClientUseCase: GetWaitlistEntriesByClient,
+    private cancelWaitlistEntryUseCase: CancelWaitlistEntry,
+    private createSlotHoldUseCase: CreateSlotHold,
+    private releaseSlotHoldUseCase: ReleaseSlotHold,
+    private rescheduleAppointmentUseCase: RescheduleAppointment,
+    private getAppointmentsUseCase: GetAppointments,
+    private getDailyAgendaUseCase: GetDailyAgenda,
   ) {}
 
   /**
@@ -41,8 +105,8 @@ export class AppointmentController {
    * @responseStatus 201 - Cita creada exitosamente
    * @throws UnauthorizedError si no hay autenticación
    * @throws ValidationError si los datos no son válidos
-   * @throws NotFoundError si alguna entidad relacionada no existe
-   * @throws ConflictError si hay conflictos de horario
+   * @throws NotFoundError si alguna entidad relacionada o la reserva de checkout no existe
+   * @throws ConflictError si hay conflictos de horario o la reserva de checkout venció
    */
   async createAppointment(req: AuthenticatedRequest, res: Response): Promise<Response> {
     if (!req.user?.userId) {
@@ -50,7 +114,11 @@ export class AppointmentController {
     }
 
     const createDto: CreateAppointmentDto = req.body;
-    const result = await this.createAppointmentUseCase.execute(createDto, req.user.userId);
+    const result = await this.createAppointmentUseCase.execute(
+      createDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
 
     return res.status(201).json({
       success: true,
@@ -88,6 +156,119 @@ export class AppointmentController {
     });
   }
 
+  /**
+   * Obtiene el historial de cambios de una cita
+   * @route GET /appointments/:id/history
+   * @param req - Request de Express con ID de cita en los parámetros
+   * @param res - Response de Express
+   * @returns Promise<Response> con los eventos en orden cronológico
+   * @responseStatus 200 - Historial obtenido exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el usuario no participa de la cita
+   */
+  async getAppointmentHistory(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const result = await this.getAppointmentHistoryUseCase.execute(
+      id,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment history retrieved successfully',
+    });
+  }
+
+  /**
+   * Lista las citas de todo el salón con filtros, orden y paginación (vista de recepción)
+   * @route GET /appointments?status=&startDate=&endDate=&stylistId=&clientId=&serviceId=&categoryId=&search=&sortBy=&sortOrder=&page=&limit=
+   * @param req - Request de Express con los filtros en query
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Citas obtenidas exitosamente
+   * @throws ValidationError si algún filtro es inválido
+   */
+  async getAppointments(req: Request, res: Response): Promise<Response> {
+    const {
+      status,
+      startDate,
+      endDate,
+      stylistId,
+      clientId,
+      serviceId,
+      categoryId,
+      search,
+      sortBy,
+      sortOrder,
+      page,
+      limit,
+    } = req.query;
+
+    const filters: GetAppointmentsFilterDto = {
+      status: status as string | undefined,
+      startDate: startDate as string | undefined,
+      endDate: endDate as string | undefined,
+      stylistId: stylistId as string | undefined,
+      clientId: clientId as string | undefined,
+      serviceId: serviceId as string | undefined,
+      categoryId: categoryId as string | undefined,
+      search: search as string | undefined,
+      sortBy: sortBy as GetAppointmentsFilterDto['sortBy'],
+      sortOrder: sortOrder as GetAppointmentsFilterDto['sortOrder'],
+      page: page ? parseInt(page as string, 10) : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+    };
+
+    const result = await this.getAppointmentsUseCase.execute(filters);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointments retrieved successfully',
+    });
+  }
+
+  /**
+   * Obtiene la agenda de un día: citas y huecos por estilista
+   * @route GET /appointments/agenda?date=&stylistId=
+   * @param req - Request de Express con el día y el estilista opcional en query
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Agenda obtenida exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si un estilista pide la agenda de otro
+   */
+  async getDailyAgenda(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { date, stylistId } = req.query;
+    const request: GetDailyAgendaDto = {
+      date: date as string,
+      stylistId: stylistId as string | undefined,
+    };
+
+    const result = await this.getDailyAgendaUseCase.execute(
+      request,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Daily agenda retrieved successfully',
+    });
+  }
+
   /**
    * Obtiene todas las citas de un cliente específico, paginadas
    * @route GET /appointments/client/:clientId?page=&limit=
@@ -217,6 +398,40 @@ export class AppointmentController {
     });
   }
 
+  /**
+   * Reprograma una cita revalidando todas las reglas de reserva
+   * @route POST /appointments/:id/reschedule
+   * @param req - Request de Express con ID de cita y el nuevo horario
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Cita reprogramada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws NotFoundError si la cita no existe
+   * @throws ForbiddenError si el solicitante no participa de la cita
+   * @throws BusinessRuleError si el nuevo horario no cumple las reglas de reserva o el aviso mínimo
+   * @throws ConflictError si el nuevo horario está ocupado
+   */
+  async rescheduleAppointment(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const rescheduleDto: RescheduleAppointmentDto = req.body;
+    const result = await this.rescheduleAppointmentUseCase.execute(
+      id,
+      rescheduleDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment rescheduled successfully',
+    });
+  }
+
   /**
    * Cancela una cita existente
    * @route POST /appointments/:id/cancel
@@ -282,4 +497,647 @@ export class AppointmentController {
       message: 'Available slots retrieved successfully',
     });
   }
+
+  /**
+   * Busca disponibilidad en un rango de días (calendario compacto o primeros N slots libres)
+   * @route GET /appointments/available-slots/calendar?startDate=&endDate=&limit=&duration=&stylistId=&serviceIds=
+   * @param req - Request de Express con parámetros de consulta
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Calendario de disponibilidad obtenido exitosamente
+   * @throws ValidationError si los parámetros no son válidos
+   * @throws BusinessRuleError si el rango no es válido para agendar
+   */
+  async getAvailabilityCalendar(req: Request, res: Response): Promise<Response> {
+    const { startDate, endDate, duration, limit, stylistId, serviceIds } = req.query;
+
+    const getAvailabilityCalendarDto: GetAvailabilityCalendarDto = {
+      startDate: startDate as string,
+      endDate: endDate as string | undefined,
+      duration: duration ? parseInt(duration as string, 10) : undefined,
+      limit: limit ? parseInt(limit as string, 10) : undefined,
+      stylistId: stylistId as string | undefined,
+      serviceIds: serviceIds
+        ? Array.isArray(serviceIds)
+          ? (serviceIds as string[])
+          : [serviceIds as string]
+        : undefined,
+    };
+
+    const result = await this.getAvailabilityCalendarUseCase.execute(getAvailabilityCalendarDto);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Availability calendar retrieved successfully',
+    });
+  }
+
+  /**
+   * Obtiene los turnos semanales (y descansos) de un estilista
+   * @route GET /appointments/stylist/:stylistId/schedule
+   * @param req - Request de Express con ID de estilista en los parámetros
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Turnos obtenidos exitosamente
+   * @throws NotFoundError si el estilista no existe
+   */
+  async getStylistSchedule(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { stylistId } = req.params;
+    const result = await this.getStylistScheduleUseCase.execute(stylistId);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Stylist schedule retrieved successfully',
+    });
+  }
+
+  /**
+   * Reemplaza la semana completa de turnos de un estilista
+   * @route PUT /appointments/stylist/:stylistId/schedule
+   * @param req - Request de Express con SetStylistScheduleDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Turnos actualizados exitosamente
+   * @throws ForbiddenError si un estilista intenta modificar turnos ajenos
+   * @throws ValidationError si los turnos no son válidos o se solapan
+   */
+  async setStylistSchedule(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { stylistId } = req.params;
+    const setDto: SetStylistScheduleDto = req.body;
+    const result = await this.setStylistScheduleUseCase.execute(
+      stylistId,
+      setDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Stylist schedule updated successfully',
+    });
+  }
+
+  /**
+   * Lista las ausencias de un estilista
+   * @route GET /appointments/stylist/:stylistId/absences
+   * @param req - Request de Express con stylistId en params y from opcional en query
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Ausencias obtenidas exitosamente
+   * @throws ForbiddenError si un estilista intenta consultar ausencias ajenas
+   */
+  async getStylistAbsences(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { stylistId } = req.params;
+    const from = req.query.from as string | undefined;
+    const result = await this.getStylistAbsencesUseCase.execute(
+      stylistId,
+      req.user.userId,
+      req.user.roleName!,
+      from,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Stylist absences retrieved successfully',
+    });
+  }
+
+  /**
+   * Registra una ausencia de un estilista
+   * @route POST /appointments/stylist/:stylistId/absences
+   * @param req - Request de Express con CreateStylistAbsenceDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 201 - Ausencia registrada (incluye citas afectadas)
+   * @throws ForbiddenError si un estilista intenta registrar ausencias ajenas
+   * @throws ConflictError si ya existe una ausencia solapada
+   */
+  async createStylistAbsence(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { stylistId } = req.params;
+    const createDto: CreateStylistAbsenceDto = req.body;
+    const result = await this.createStylistAbsenceUseCase.execute(
+      stylistId,
+      createDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Stylist absence created successfully',
+    });
+  }
+
+  /**
+   * Elimina una ausencia de un estilista
+   * @route DELETE /appointments/stylist/:stylistId/absences/:absenceId
+   * @param req - Request de Express con stylistId y absenceId en params
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Ausencia eliminada exitosamente
+   * @throws NotFoundError si la ausencia no existe
+   */
+  async deleteStylistAbsence(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { stylistId, absenceId } = req.params;
+    await this.deleteStylistAbsenceUseCase.execute(
+      stylistId,
+      absenceId,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: 'Stylist absence deleted successfully',
+    });
+  }
+
+  /**
+   * Crea una serie de citas recurrentes (cada N semanas)
+   * @route POST /appointments/series
+   * @param req - Request de Express con CreateAppointmentSeriesDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 201 - Serie creada (incluye el resultado de cada ocurrencia)
+   * @throws ValidationError si la regla de recurrencia no es válida
+   * @throws BusinessRuleError si no se pudo reservar ninguna ocurrencia
+   */
+  async createAppointmentSeries(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const createDto: CreateAppointmentSeriesDto = req.body;
+    const result = await this.createAppointmentSeriesUseCase.execute(
+      createDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Appointment series created successfully',
+    });
+  }
+
+  /**
+   * Obtiene una serie de citas con todas sus citas
+   * @route GET /appointments/series/:seriesId
+   * @param req - Request de Express con ID de serie en los parámetros
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Serie obtenida exitosamente
+   * @throws NotFoundError si la serie no existe
+   * @throws ForbiddenError si el usuario no participa de la serie
+   */
+  async getAppointmentSeries(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { seriesId } = req.params;
+    const result = await this.getAppointmentSeriesUseCase.execute(
+      seriesId,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment series retrieved successfully',
+    });
+  }
+
+  /**
+   * Edita una cita de una serie y, según el scope, las siguientes o todas
+   * @route PUT /appointments/series/:seriesId/appointments/:appointmentId
+   * @param req - Request de Express con UpdateAppointmentSeriesDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Edición aplicada (incluye el resultado de cada cita)
+   * @throws NotFoundError si la serie no existe o la cita no pertenece a ella
+   */
+  async updateAppointmentSeries(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { seriesId, appointmentId } = req.params;
+    const updateDto: UpdateAppointmentSeriesDto = req.body;
+    const result = await this.updateAppointmentSeriesUseCase.execute(
+      seriesId,
+      appointmentId,
+      updateDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment series updated successfully',
+    });
+  }
+
+  /**
+   * Cancela una cita de una serie y, según el scope, las siguientes o todas
+   * @route POST /appointments/series/:seriesId/appointments/:appointmentId/cancel
+   * @param req - Request de Express con CancelAppointmentSeriesDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Cancelación aplicada (incluye el resultado de cada cita)
+   * @throws NotFoundError si la serie no existe o la cita no pertenece a ella
+   */
+  async cancelAppointmentSeries(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { seriesId, appointmentId } = req.params;
+    const cancelDto: CancelAppointmentSeriesDto = req.body;
+    const result = await this.cancelAppointmentSeriesUseCase.execute(
+      seriesId,
+      appointmentId,
+      cancelDto,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment series cancelled successfully',
+    });
+  }
+
+  /**
+   * Registra la llegada del cliente a una cita
+   * @route POST /appointments/:id/check-in
+   * @param req - Request de Express con ID de cita y usuario autenticado (ADMIN o STYLIST)
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Llegada registrada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si no es ADMIN ni el estilista asignado
+   * @throws NotFoundError si la cita no existe
+   * @throws BusinessRuleError si la cita no está confirmada, no es hoy o ya tiene check-in
+   */
+  async checkInAppointment(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const result = await this.checkInAppointmentUseCase.execute(
+      id,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Client checked in successfully',
+    });
+  }
+
+  /**
+   * Inicia la atención de una cita
+   * @route POST /appointments/:id/start
+   * @param req - Request de Express con ID de cita y usuario autenticado (ADMIN o STYLIST)
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Cita iniciada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si no es ADMIN ni el estilista asignado
+   * @throws NotFoundError si la cita no existe
+   * @throws BusinessRuleError si la transición no es válida o la cita no es hoy
+   */
+  async startAppointment(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const result = await this.startAppointmentUseCase.execute(
+      id,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment started successfully',
+    });
+  }
+
+  /**
+   * Finaliza la atención de una cita
+   * @route POST /appointments/:id/complete
+   * @param req - Request de Express con ID de cita y usuario autenticado (ADMIN o STYLIST)
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Cita completada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si no es ADMIN ni el estilista asignado
+   * @throws NotFoundError si la cita no existe
+   * @throws BusinessRuleError si la transición no es válida o la cita todavía no empezó
+   */
+  async completeAppointment(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const result = await this.completeAppointmentUseCase.execute(
+      id,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment completed successfully',
+    });
+  }
+
+  /**
+   * Marca que el cliente no se presentó a una cita
+   * @route POST /appointments/:id/no-show
+   * @param req - Request de Express con ID de cita y usuario autenticado (ADMIN o STYLIST)
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Cita marcada como no show exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si no es ADMIN ni el estilista asignado
+   * @throws NotFoundError si la cita no existe
+   * @throws BusinessRuleError si la transición no es válida, la cita todavía no empezó o el cliente hizo check-in
+   */
+  async markAppointmentNoShow(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { id } = req.params;
+    const result = await this.markAppointmentNoShowUseCase.execute(
+      id,
+      req.user.userId,
+      req.user.roleName!,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment marked as no-show successfully',
+    });
+  }
+
+  /**
+   * Ejecuta manualmente el barrido de citas vencidas (solo ADMIN)
+   * @route POST /appointments/maintenance/sweep
+   * @param req - Request de Express con usuario autenticado
+   * @param res - Response de Express
+   * @returns Promise<Response> con el resumen del barrido
+   * @responseStatus 200 - Barrido ejecutado exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   */
+  async sweepStaleAppointments(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const result = await this.sweepStaleAppointmentsUseCase.execute('manual');
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Appointment sweep completed successfully',
+    });
+  }
+
+  /**
+   * Obtiene la política de cancelación vigente
+   * @route GET /appointments/cancellation-policy
+   * @param req - Request de Express con usuario autenticado
+   * @param res - Response de Express
+   * @returns Promise<Response> con la política
+   * @responseStatus 200 - Política obtenida exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   */
+  async getCancellationPolicy(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const result = await this.getCancellationPolicyUseCase.execute();
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Cancellation policy retrieved successfully',
+    });
+  }
+
+  /**
+   * Reemplaza la política de cancelación del salón (solo ADMIN)
+   * @route PUT /appointments/cancellation-policy
+   * @param req - Request de Express con UpdateCancellationPolicyDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response> con la política guardada
+   * @responseStatus 200 - Política actualizada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ValidationError si la política no es válida
+   * @throws NotFoundError si algún servicio de los avisos por servicio no existe
+   */
+  async updateCancellationPolicy(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const updateDto: UpdateCancellationPolicyDto = req.body;
+    const result = await this.updateCancellationPolicyUseCase.execute(updateDto);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Cancellation policy updated successfully',
+    });
+  }
+
+  /**
+   * Anota a un cliente en la lista de espera de días completos
+   * @route POST /appointments/waitlist
+   * @param req - Request de Express con CreateWaitlistEntryDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response> con la entrada creada
+   * @responseStatus 201 - Entrada creada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si un cliente intenta anotar a otro cliente
+   * @throws BusinessRuleError si el rango no es reservable o algún servicio no está disponible
+   */
+  async createWaitlistEntry(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const createDto: CreateWaitlistEntryDto = req.body;
+    const result = await this.createWaitlistEntryUseCase.execute(
+      createDto,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Waitlist entry created successfully',
+    });
+  }
+
+  /**
+   * Obtiene las entradas de la lista de espera de un cliente
+   * @route GET /appointments/waitlist/client/:clientId
+   * @param req - Request de Express con ID de cliente en los parámetros
+   * @param res - Response de Express
+   * @returns Promise<Response> con las entradas del cliente
+   * @responseStatus 200 - Entradas obtenidas exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si un cliente consulta la lista de espera de otro
+   */
+  async getWaitlistEntriesByClient(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { clientId } = req.params;
+    const result = await this.getWaitlistEntriesByClientUseCase.execute(
+      clientId,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Waitlist entries retrieved successfully',
+    });
+  }
+
+  /**
+   * Saca a un cliente de la lista de espera
+   * @route POST /appointments/waitlist/:entryId/cancel
+   * @param req - Request de Express con ID de la entrada en los parámetros
+   * @param res - Response de Express
+   * @returns Promise<Response> con la entrada cancelada
+   * @responseStatus 200 - Entrada cancelada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws NotFoundError si la entrada no existe
+   * @throws ForbiddenError si no es ADMIN, el cliente ni quien creó la entrada
+   * @throws BusinessRuleError si la entrada ya fue cumplida o cancelada
+   */
+  async cancelWaitlistEntry(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const { entryId } = req.params;
+    const result = await this.cancelWaitlistEntryUseCase.execute(
+      entryId,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Waitlist entry cancelled successfully',
+    });
+  }
+
+  /**
+   * Retiene un turno mientras el cliente completa la reserva
+   * @route POST /appointments/holds
+   * @param req - Request de Express con CreateSlotHoldDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response> con la reserva y su token
+   * @responseStatus 201 - Turno retenido exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws ForbiddenError si un cliente intenta retener un turno para otro cliente
+   * @throws ConflictError si el turno no está libre
+   */
+  async createSlotHold(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const createDto: CreateSlotHoldDto = req.body;
+    const result = await this.createSlotHoldUseCase.execute(
+      createDto,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Slot held successfully',
+    });
+  }
+
+  /**
+   * Libera una reserva de checkout antes de que venza
+   * @route DELETE /appointments/holds/:token
+   * @param req - Request de Express con el token de la reserva en los parámetros
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Reserva liberada exitosamente
+   * @throws UnauthorizedError si no hay autenticación
+   * @throws NotFoundError si la reserva no existe
+   * @throws ForbiddenError si un cliente intenta liberar la reserva de otro
+   */
+  async releaseSlotHold(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId || !req.user?.roleName) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    await this.releaseSlotHoldUseCase.execute(
+      req.params.token,
+      req.user.userId,
+      req.user.roleName,
+    );
+
+    return res.status(200).json({
+      success: true,
+      message: 'Slot hold released successfully',
+    });
+  }
 }
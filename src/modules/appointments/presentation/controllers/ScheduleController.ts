@@ -0,0 +1,121 @@
+import { Request, Response } from 'express';
+import { GetSchedules } from '../../application/use-cases/GetSchedules';
+import { GetScheduleById } from '../../application/use-cases/GetScheduleById';
+import { CreateSchedule } from '../../application/use-cases/CreateSchedule';
+import { UpdateSchedule } from '../../application/use-cases/UpdateSchedule';
+import { DeleteSchedule } from '../../application/use-cases/DeleteSchedule';
+import { CreateScheduleDto } from '../../application/dto/request/CreateScheduleDto';
+import { UpdateScheduleDto } from '../../application/dto/request/UpdateScheduleDto';
+
+/**
+ * Controlador de horarios semanales de apertura del salón
+ * Los errores burbujean al errorHandler global via .catch(next) en ScheduleRoutes
+ */
+export class ScheduleController {
+  constructor(
+    private getSchedulesUseCase: GetSchedules,
+    private getScheduleByIdUseCase: GetScheduleById,
+    private createScheduleUseCase: CreateSchedule,
+    private updateScheduleUseCase: UpdateSchedule,
+    private deleteScheduleUseCase: DeleteSchedule,
+  ) {}
+
+  /**
+   * Lista los horarios semanales, opcionalmente filtrados por día
+   * @route GET /schedules
+   * @param req - Request de Express con dayOfWeek opcional en query
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Horarios obtenidos exitosamente
+   */
+  async getSchedules(req: Request, res: Response): Promise<Response> {
+    const { dayOfWeek } = req.query;
+
+    const result = await this.getSchedulesUseCase.execute(dayOfWeek as string | undefined);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Schedules retrieved successfully',
+    });
+  }
+
+  /**
+   * Obtiene un horario por su ID
+   * @route GET /schedules/:id
+   * @param req - Request de Express con id en params
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Horario encontrado
+   * @throws NotFoundError si el horario no existe
+   */
+  async getScheduleById(req: Request, res: Response): Promise<Response> {
+    const result = await this.getScheduleByIdUseCase.execute(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Schedule retrieved successfully',
+    });
+  }
+
+  /**
+   * Crea un horario semanal
+   * @route POST /schedules
+   * @param req - Request de Express con CreateScheduleDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 201 - Horario creado exitosamente
+   * @throws ConflictError si se solapa con otro horario del mismo día
+   */
+  async createSchedule(req: Request, res: Response): Promise<Response> {
+    const createDto: CreateScheduleDto = req.body;
+    const result = await this.createScheduleUseCase.execute(createDto);
+
+    return res.status(201).json({
+      success: true,
+      data: result,
+      message: 'Schedule created successfully',
+    });
+  }
+
+  /**
+   * Modifica el rango horario de un horario semanal
+   * @route PUT /schedules/:id
+   * @param req - Request de Express con id en params y UpdateScheduleDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Horario actualizado (incluye citas fuera del nuevo rango si se forzó)
+   * @throws NotFoundError si el horario no existe
+   * @throws ConflictError si se solapa con otro horario o deja citas fuera sin `force`
+   */
+  async updateSchedule(req: Request, res: Response): Promise<Response> {
+    const updateDto: UpdateScheduleDto = req.body;
+    const result = await this.updateScheduleUseCase.execute(req.params.id, updateDto);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Schedule updated successfully',
+    });
+  }
+
+  /**
+   * Elimina un horario semanal
+   * @route DELETE /schedules/:id
+   * @param req - Request de Express con id en params
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @responseStatus 200 - Horario eliminado exitosamente
+   * @throws NotFoundError si el horario no existe
+   * @throws ConflictError si hay citas que usan el horario
+   */
+  async deleteSchedule(req: Request, res: Response): Promise<Response> {
+    await this.deleteScheduleUseCase.execute(req.params.id);
+
+    return res.status(200).json({
+      success: true,
+      message: 'Schedule deleted successfully',
+    });
+  }
+}
@@ -23,14 +23,40 @@ export class AppointmentRoutes {
    * Configura todas las rutas del módulo de citas
    * @description Define rutas públicas y protegidas con sus respectivos middlewares y validaciones
    * @routes
+   * - GET /appointments - Listado general con filtros, búsqueda y orden (solo ADMIN)
    * - POST /appointments - Crear nueva cita (requiere autenticación)
+   * - GET /appointments/agenda - Agenda del día por estilista o de todo el salón (ADMIN; STYLIST solo la propia)
+   * - POST /appointments/series - Crear serie de citas recurrentes (requiere autenticación)
+   * - GET /appointments/series/:seriesId - Obtener serie con sus citas (requiere autenticación)
+   * - PUT /appointments/series/:seriesId/appointments/:appointmentId - Editar cita(s) de la serie según scope
+   * - POST /appointments/series/:seriesId/appointments/:appointmentId/cancel - Cancelar cita(s) de la serie según scope
+   * - POST /appointments/maintenance/sweep - Ejecutar el barrido de citas vencidas (solo ADMIN)
+   * - GET /appointments/cancellation-policy - Política de cancelación vigente (requiere autenticación)
+   * - PUT /appointments/cancellation-policy - Reemplazar la política de cancelación (solo ADMIN)
+   * - POST /appointments/waitlist - Anotar a un cliente en la lista de espera (CLIENT solo a sí mismo)
+   * - GET /appointments/waitlist/client/:clientId - Lista de espera de un cliente (CLIENT solo la propia)
+   * - POST /appointments/waitlist/:entryId/cancel - Salir de la lista de espera (ADMIN, el cliente o quien la creó)
+   * - POST /appointments/holds - Retener un turno durante el checkout (CLIENT solo para sí mismo)
+   * - DELETE /appointments/holds/:token - Liberar una reserva de checkout (CLIENT solo las propias)
    * - GET /appointments/:id - Obtener cita por ID (requiere autenticación)
+   * - GET /appointments/:id/history - Historial de cambios de la cita (mismos permisos que ver la cita)
    * - PUT /appointments/:id - Actualizar cita (requiere autenticación)
    * - POST /appointments/:id/confirm - Confirmar cita (requiere autenticación)
+   * - POST /appointments/:id/reschedule - Reprogramar cita con revalidación completa (requiere autenticación)
    * - POST /appointments/:id/cancel - Cancelar cita (requiere autenticación)
+   * - POST /appointments/:id/check-in - Registrar llegada del cliente (ADMIN o estilista asignado)
+   * - POST /appointments/:id/start - Iniciar atención (ADMIN o estilista asignado)
+   * - POST /appointments/:id/complete - Finalizar atención (ADMIN o estilista asignado)
+   * - POST /appointments/:id/no-show - Marcar como no show (ADMIN o estilista asignado)
    * - GET /appointments/client/:clientId - Obtener citas de cliente (requiere autenticación)
    * - GET /appointments/stylist/:stylistId - Obtener citas de estilista (requiere autenticación)
+   * - GET /appointments/stylist/:stylistId/schedule - Turnos semanales del estilista (requiere autenticación)
+   * - PUT /appointments/stylist/:stylistId/schedule - Reemplazar turnos del estilista (ADMIN o el propio estilista)
+   * - GET /appointments/stylist/:stylistId/absences - Ausencias del estilista (ADMIN o el propio estilista)
+   * - POST /appointments/stylist/:stylistId/absences - Registrar ausencia (ADMIN o el propio estilista)
+   * - DELETE /appointments/stylist/:stylistId/absences/:absenceId - Eliminar ausencia (ADMIN o el propio estilista)
    * - GET /appointments/available-slots - Obtener slots disponibles (público)
+   * - GET /appointments/available-slots/calendar - Disponibilidad de un rango de días (público)
    */
   private setupRoutes(): void {
     // Ruta pública para consultar disponibilidad
@@ -43,7 +69,38 @@ export class AppointmentRoutes {
       },
     );
 
+    this.router.get(
+      '/available-slots/calendar',
+      AppointmentValidations.getAvailabilityCalendar,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getAvailabilityCalendar(req, res).catch(next);
+      },
+    );
+
     // Rutas protegidas que requieren autenticación y autorización por rol
+    this.router.get(
+      '/',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      AppointmentValidations.getAppointments,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getAppointments(req, res).catch(next);
+      },
+    );
+
+    this.router.get(
+      '/agenda',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.getDailyAgenda,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getDailyAgenda(req, res).catch(next);
+      },
+    );
+
     this.router.post(
       '/',
       this.authMiddleware.authenticate.bind(this.authMiddleware),
@@ -55,6 +112,134 @@ export class AppointmentRoutes {
       },
     );
 
+    this.router.post(
+      '/series',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.createAppointmentSeries,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.createAppointmentSeries(req, res).catch(next);
+      },
+    );
+
+    this.router.get(
+      '/series/:seriesId',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.appointmentSeriesById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getAppointmentSeries(req, res).catch(next);
+      },
+    );
+
+    this.router.put(
+      '/series/:seriesId/appointments/:appointmentId',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.updateAppointmentSeries,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.updateAppointmentSeries(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/series/:seriesId/appointments/:appointmentId/cancel',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.cancelAppointmentSeries,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.cancelAppointmentSeries(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/maintenance/sweep',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.sweepStaleAppointments(req, res).catch(next);
+      },
+    );
+
+    this.router.get(
+      '/cancellation-policy',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getCancellationPolicy(req, res).catch(next);
+      },
+    );
+
+    this.router.put(
+      '/cancellation-policy',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      AppointmentValidations.updateCancellationPolicy,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.updateCancellationPolicy(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/waitlist',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.createWaitlistEntry,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.createWaitlistEntry(req, res).catch(next);
+      },
+    );
+
+    this.router.get(
+      '/waitlist/client/:clientId',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.waitlistEntriesByClient,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getWaitlistEntriesByClient(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/waitlist/:entryId/cancel',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.waitlistEntryById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.cancelWaitlistEntry(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/holds',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.createSlotHold,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.createSlotHold(req, res).catch(next);
+      },
+    );
+
+    this.router.delete(
+      '/holds/:token',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.slotHoldByToken,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.releaseSlotHold(req, res).catch(next);
+      },
+    );
+
     this.router.get(
       '/client/:clientId',
       this.authMiddleware.authenticate.bind(this.authMiddleware),
@@ -77,6 +262,61 @@ export class AppointmentRoutes {
       },
     );
 
+    this.router.get(
+      '/stylist/:stylistId/schedule',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.getStylistSchedule,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getStylistSchedule(req, res).catch(next);
+      },
+    );
+
+    this.router.put(
+      '/stylist/:stylistId/schedule',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.setStylistSchedule,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.setStylistSchedule(req, res).catch(next);
+      },
+    );
+
+    this.router.get(
+      '/stylist/:stylistId/absences',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.getStylistAbsences,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getStylistAbsences(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/stylist/:stylistId/absences',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.createStylistAbsence,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.createStylistAbsence(req, res).catch(next);
+      },
+    );
+
+    this.router.delete(
+      '/stylist/:stylistId/absences/:absenceId',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.deleteStylistAbsence,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.deleteStylistAbsence(req, res).catch(next);
+      },
+    );
+
     this.router.get(
       '/:id',
       this.authMiddleware.authenticate.bind(this.authMiddleware),
@@ -88,6 +328,17 @@ export class AppointmentRoutes {
       },
     );
 
+    this.router.get(
+      '/:id/history',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.appointmentById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.getAppointmentHistory(req, res).catch(next);
+      },
+    );
+
     this.router.put(
       '/:id',
       this.authMiddleware.authenticate.bind(this.authMiddleware),
@@ -110,6 +361,17 @@ export class AppointmentRoutes {
       },
     );
 
+    this.router.post(
+      '/:id/reschedule',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      AppointmentValidations.rescheduleAppointment,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.rescheduleAppointment(req, res).catch(next);
+      },
+    );
+
     this.router.post(
       '/:id/cancel',
       this.authMiddleware.authenticate.bind(this.authMiddleware),
@@ -120,6 +382,50 @@ export class AppointmentRoutes {
         this.appointmentController.cancelAppointment(req, res).catch(next);
       },
     );
+
+    this.router.post(
+      '/:id/check-in',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.appointmentById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.checkInAppointment(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/:id/start',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.appointmentById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.startAppointment(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/:id/complete',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.appointmentById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.completeAppointment(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/:id/no-show',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST']),
+      AppointmentValidations.appointmentById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.appointmentController.markAppointmentNoShow(req, res).catch(next);
+      },
+    );
   }
 
   /**
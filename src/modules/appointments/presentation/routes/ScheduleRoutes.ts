@@ -0,0 +1,94 @@
+import { Router, Request, Response, NextFunction } from 'express';
+import { ScheduleController } from '../controllers/ScheduleController';
+import { AuthMiddleware } from '../../../auth/presentation/middleware/AuthMiddleware';
+import { ScheduleValidations } from '../validations/ScheduleValidations';
+import { ValidationMiddleware } from '../../../../shared/middleware/ValidationMiddleware';
+
+/**
+ * Configurador de rutas para los horarios semanales de apertura del salón
+ */
+export class ScheduleRoutes {
+  private router: Router;
+
+  constructor(
+    private scheduleController: ScheduleController,
+    private authMiddleware: AuthMiddleware,
+  ) {
+    this.router = Router();
+    this.setupRoutes();
+  }
+
+  /**
+   * Configura todas las rutas de horarios
+   * @routes
+   * - GET /schedules - Listar horarios (requiere autenticación)
+   * - GET /schedules/:id - Obtener horario por ID (requiere autenticación)
+   * - POST /schedules - Crear horario (solo ADMIN)
+   * - PUT /schedules/:id - Modificar rango horario (solo ADMIN)
+   * - DELETE /schedules/:id - Eliminar horario (solo ADMIN)
+   */
+  private setupRoutes(): void {
+    this.router.get(
+      '/',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      ScheduleValidations.getSchedules,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.scheduleController.getSchedules(req, res).catch(next);
+      },
+    );
+
+    this.router.get(
+      '/:id',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN', 'STYLIST', 'CLIENT']),
+      ScheduleValidations.scheduleById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.scheduleController.getScheduleById(req, res).catch(next);
+      },
+    );
+
+    this.router.post(
+      '/',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      ScheduleValidations.createSchedule,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.scheduleController.createSchedule(req, res).catch(next);
+      },
+    );
+
+    this.router.put(
+      '/:id',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      ScheduleValidations.updateSchedule,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.scheduleController.updateSchedule(req, res).catch(next);
+      },
+    );
+
+    this.router.delete(
+      '/:id',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      ScheduleValidations.scheduleById,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.scheduleController.deleteSchedule(req, res).catch(next);
+      },
+    );
+  }
+
+  /**
+   * Obtiene el router configurado
+   * @returns Router de Express con todas las rutas de horarios
+   */
+  getRouter(): Router {
+    return this.router;
+  }
+}
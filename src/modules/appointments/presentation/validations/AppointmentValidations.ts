@@ -1,4 +1,28 @@
 import { body, param, query } from 'express-validator';
+import { StylistAssignmentStrategyEnum } from '../../domain/services/StylistAssignmentService';
+import { SeriesScopeEnum } from '../../domain/entities/AppointmentSeries';
+import {
+  CancellationFeeTypeEnum,
+  CancellationPolicy,
+} from '../../domain/entities/CancellationPolicy';
+import { WaitlistEntry } from '../../domain/entities/WaitlistEntry';
+import { AppointmentStatusEnum } from '../../domain/entities/AppointmentStatus';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
+
+/** Estrategias válidas de asignación automática de estilista */
+const ASSIGNMENT_STRATEGIES = Object.values(StylistAssignmentStrategyEnum);
+
+/** Alcances válidos para editar o cancelar citas de una serie */
+const SERIES_SCOPES = Object.values(SeriesScopeEnum);
+
+/** Tipos válidos de cargo por cancelación tardía */
+const CANCELLATION_FEE_TYPES = Object.values(CancellationFeeTypeEnum);
+
+/** Rango válido de un aviso mínimo de cancelación (horas) */
+const NOTICE_HOURS_RANGE = { min: 0, max: CancellationPolicy.MAX_NOTICE_HOURS };
+
+/** Estados por los que se puede filtrar el listado general */
+const APPOINTMENT_STATUSES = Object.values(AppointmentStatusEnum);
 
 /**
  * Validaciones para operaciones relacionadas con citas del sistema
@@ -12,6 +36,7 @@ export class AppointmentValidations {
    * - dateTime: fecha ISO válida en el futuro
    * - clientId: UUID válido requerido
    * - stylistId: UUID válido opcional
+   * - assignmentStrategy: estrategia de asignación opcional (solo sin stylistId)
    * - serviceIds: array de UUIDs válidos, mínimo 1
    * - duration: entero positivo opcional en minutos
    */
@@ -42,6 +67,11 @@ export class AppointmentValidations {
 
     body('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
 
+    body('assignmentStrategy')
+      .optional()
+      .isIn(ASSIGNMENT_STRATEGIES)
+      .withMessage(`Assignment strategy must be one of ${ASSIGNMENT_STRATEGIES.join(', ')}`),
+
     body('serviceIds')
       .isArray({ min: 1 })
       .withMessage('At least one service must be selected'),
@@ -58,20 +88,15 @@ export class AppointmentValidations {
         }
         return true;
       }),
+
+    body('holdToken').optional().isUUID().withMessage('Hold token must be a valid UUID'),
   ];
 
   /**
-   * Validaciones para actualizar una cita existente
-   * @description Valida UUID del parámetro y campos opcionales de actualización
-   * @rules
-   * - id: UUID válido requerido en parámetros
-   * - Todos los campos de creación pero opcionales
-   * - Mantiene todas las validaciones de negocio
-   * - Incluye validaciones para nuevos campos como notes y reason
+   * Reglas del body de actualización de una cita
+   * @description Compartidas por la edición de una cita suelta y la de una cita de una serie
    */
-  static updateAppointment = [
-    param('id').isUUID().withMessage('Appointment ID must be a valid UUID'),
-
+  private static updateAppointmentBody = [
     body('dateTime')
       .optional()
       .isISO8601()
@@ -163,6 +188,21 @@ export class AppointmentValidations {
     }),
   ];
 
+  /**
+   * Validaciones para actualizar una cita existente
+   * @description Valida UUID del parámetro y campos opcionales de actualización
+   * @rules
+   * - id: UUID válido requerido en parámetros
+   * - Todos los campos de creación pero opcionales
+   * - Mantiene todas las validaciones de negocio
+   * - Incluye validaciones para nuevos campos como notes y reason
+   */
+  static updateAppointment = [
+    param('id').isUUID().withMessage('Appointment ID must be a valid UUID'),
+
+    ...AppointmentValidations.updateAppointmentBody,
+  ];
+
   /**
    * Validación para operaciones que requieren ID de cita
    * @description Valida que el parámetro ID sea un UUID válido
@@ -171,6 +211,76 @@ export class AppointmentValidations {
     param('id').isUUID().withMessage('Appointment ID must be a valid UUID'),
   ];
 
+  /**
+   * Validaciones para el listado general de citas
+   * @description Valida los filtros opcionales (estado, rango de días, IDs, búsqueda), el orden
+   * y la paginación
+   */
+  static getAppointments = [
+    query('status')
+      .optional()
+      .isIn(APPOINTMENT_STATUSES)
+      .withMessage(`Status must be one of: ${APPOINTMENT_STATUSES.join(', ')}`),
+
+    query('startDate')
+      .optional()
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('Start date must be in YYYY-MM-DD format'),
+
+    query('endDate')
+      .optional()
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('End date must be in YYYY-MM-DD format')
+      .custom((endDate, { req }) => {
+        const startDate = req.query?.startDate as string | undefined;
+        if (startDate && endDate < startDate) {
+          throw new Error('End date cannot be before start date');
+        }
+        return true;
+      }),
+
+    query('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
+    query('clientId').optional().isUUID().withMessage('Client ID must be a valid UUID'),
+    query('serviceId').optional().isUUID().withMessage('Service ID must be a valid UUID'),
+    query('categoryId').optional().isUUID().withMessage('Category ID must be a valid UUID'),
+
+    query('search')
+      .optional()
+      .isString()
+      .isLength({ max: 100 })
+      .withMessage('Search cannot exceed 100 characters'),
+
+    query('sortBy')
+      .optional()
+      .isIn(['dateTime', 'createdAt', 'clientName'])
+      .withMessage('Sort field must be one of: dateTime, createdAt, clientName'),
+
+    query('sortOrder')
+      .optional()
+      .isIn(['asc', 'desc'])
+      .withMessage('Sort order must be asc or desc'),
+
+    query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100'),
+  ];
+
+  /**
+   * Validaciones para la agenda diaria
+   * @description Valida el día (YYYY-MM-DD) y el estilista opcional
+   */
+  static getDailyAgenda = [
+    query('date')
+      .notEmpty()
+      .withMessage('Date is required')
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('Date must be in YYYY-MM-DD format'),
+
+    query('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
+  ];
+
   /**
    * Validaciones para buscar citas por cliente
    * @description Valida que el parámetro clientId sea un UUID válido y los
@@ -258,12 +368,10 @@ export class AppointmentValidations {
   ];
 
   /**
-   * Validaciones para cancelar una cita
-   * @description Valida UUID del parámetro y datos opcionales de cancelación
+   * Reglas del body de cancelación de una cita
+   * @description Compartidas por la cancelación de una cita suelta y la de una cita de una serie
    */
-  static cancelAppointment = [
-    param('id').isUUID().withMessage('Appointment ID must be a valid UUID'),
-
+  private static cancelAppointmentBody = [
     body('reason')
       .optional()
       .isString()
@@ -283,6 +391,55 @@ export class AppointmentValidations {
       .withMessage('Notify client must be a boolean value'),
   ];
 
+  /**
+   * Validaciones para cancelar una cita
+   * @description Valida UUID del parámetro y datos opcionales de cancelación
+   */
+  static cancelAppointment = [
+    param('id').isUUID().withMessage('Appointment ID must be a valid UUID'),
+
+    ...AppointmentValidations.cancelAppointmentBody,
+  ];
+
+  /**
+   * Validaciones para reprogramar una cita
+   * @description Valida UUID del parámetro, la nueva fecha (futura y a menos de 6 meses), el
+   * estilista opcional y el motivo opcional
+   */
+  static rescheduleAppointment = [
+    param('id').isUUID().withMessage('Appointment ID must be a valid UUID'),
+
+    body('dateTime')
+      .isISO8601()
+      .withMessage('DateTime must be a valid ISO 8601 date')
+      .custom((value) => {
+        const appointmentDate = new Date(value);
+
+        if (appointmentDate <= new Date()) {
+          throw new Error('Appointment cannot be rescheduled to the past');
+        }
+
+        const sixMonthsFromNow = new Date();
+        sixMonthsFromNow.setMonth(sixMonthsFromNow.getMonth() + 6);
+
+        if (appointmentDate > sixMonthsFromNow) {
+          throw new Error('Appointment cannot be scheduled more than 6 months in advance');
+        }
+
+        return true;
+      }),
+
+    body('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
+
+    body('reason')
+      .optional()
+      .isString()
+      .withMessage('Reason must be a string')
+      .trim()
+      .isLength({ min: 1, max: 300 })
+      .withMessage('Reason must be between 1 and 300 characters'),
+  ];
+
   /**
    * Validaciones para obtener slots disponibles
    * @description Valida fecha y parámetros opcionales para disponibilidad
@@ -293,10 +450,9 @@ export class AppointmentValidations {
       .withMessage('Date must be a valid ISO 8601 date')
       .custom((value) => {
         const date = new Date(value);
-        const now = new Date();
-        now.setHours(0, 0, 0, 0);
 
-        if (date < now) {
+        // Se compara con el día actual del salón (SALON_TIMEZONE)
+        if (date < toSalonDate(new Date())) {
           throw new Error('Cannot check availability for past dates');
         }
 
@@ -316,4 +472,366 @@ export class AppointmentValidations {
 
     query('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
   ];
+
+  /**
+   * Validaciones para buscar disponibilidad en un rango de días
+   * @rules
+   * - startDate: fecha YYYY-MM-DD requerida
+   * - endDate: fecha YYYY-MM-DD opcional (máximo 62 días de rango)
+   * - limit: entero entre 1 y 50 opcional (primeros N slots libres)
+   * - duration: múltiplo de 15 entre 15 y 480 minutos opcional
+   * - stylistId: UUID válido opcional
+   */
+  static getAvailabilityCalendar = [
+    query('startDate').isISO8601().withMessage('Start date must be a valid ISO 8601 date'),
+
+    query('endDate').optional().isISO8601().withMessage('End date must be a valid ISO 8601 date'),
+
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 50 })
+      .withMessage('Limit must be between 1 and 50'),
+
+    query('duration')
+      .optional()
+      .isInt({ min: 15, max: 480 })
+      .withMessage('Duration must be between 15 and 480 minutes')
+      .custom((value) => {
+        if (value && value % 15 !== 0) {
+          throw new Error('Duration must be in 15-minute increments');
+        }
+        return true;
+      }),
+
+    query('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validaciones para consultar los turnos de un estilista
+   * @description Valida el ID del estilista en los parámetros
+   */
+  static getStylistSchedule = [
+    param('stylistId').isUUID().withMessage('Stylist ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validaciones para reemplazar los turnos semanales de un estilista
+   * @description Valida la lista de turnos (puede ser vacía) y el formato de cada uno
+   * @rules
+   * - shifts: array (vacío = heredar el horario del salón)
+   * - shifts.*.dayOfWeek: día de la semana válido
+   * - shifts.*.startTime / endTime: formato HH:MM requerido
+   * - shifts.*.breakStartTime / breakEndTime: formato HH:MM opcional
+   */
+  static setStylistSchedule = [
+    param('stylistId').isUUID().withMessage('Stylist ID must be a valid UUID'),
+
+    body('shifts').isArray({ max: 28 }).withMessage('Shifts must be an array of at most 28 items'),
+
+    body('shifts.*.dayOfWeek')
+      .isIn(['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'])
+      .withMessage('Day of week must be a valid day (MONDAY..SUNDAY)'),
+
+    body('shifts.*.startTime')
+      .matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Start time must be in HH:MM format'),
+
+    body('shifts.*.endTime')
+      .matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('End time must be in HH:MM format'),
+
+    body('shifts.*.breakStartTime')
+      .optional()
+      .matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Break start time must be in HH:MM format'),
+
+    body('shifts.*.breakEndTime')
+      .optional()
+      .matches(/^([01]?[0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Break end time must be in HH:MM format'),
+  ];
+
+  /**
+   * Validaciones para listar las ausencias de un estilista
+   * @rules
+   * - stylistId: UUID válido
+   * - from: fecha ISO opcional (solo ausencias que terminan después)
+   */
+  static getStylistAbsences = [
+    param('stylistId').isUUID().withMessage('Stylist ID must be a valid UUID'),
+
+    query('from').optional().isISO8601().withMessage('From must be a valid ISO 8601 date'),
+  ];
+
+  /**
+   * Validaciones para registrar una ausencia de un estilista
+   * @rules
+   * - type: VACATION, SICK_LEAVE, PERSONAL u OTHER
+   * - startDateTime / endDateTime: fechas ISO requeridas
+   * - reason: texto opcional de hasta 500 caracteres
+   * - cancelAffectedAppointments: booleano opcional
+   */
+  static createStylistAbsence = [
+    param('stylistId').isUUID().withMessage('Stylist ID must be a valid UUID'),
+
+    body('type')
+      .isIn(['VACATION', 'SICK_LEAVE', 'PERSONAL', 'OTHER'])
+      .withMessage('Type must be one of VACATION, SICK_LEAVE, PERSONAL, OTHER'),
+
+    body('startDateTime')
+      .isISO8601()
+      .withMessage('Start date time must be a valid ISO 8601 date'),
+
+    body('endDateTime').isISO8601().withMessage('End date time must be a valid ISO 8601 date'),
+
+    body('reason')
+      .optional()
+      .isString()
+      .isLength({ max: 500 })
+      .withMessage('Reason cannot exceed 500 characters'),
+
+    body('cancelAffectedAppointments')
+      .optional()
+      .isBoolean()
+      .withMessage('cancelAffectedAppointments must be a boolean'),
+  ];
+
+  /**
+   * Validaciones para eliminar una ausencia de un estilista
+   * @rules
+   * - stylistId / absenceId: UUID válidos
+   */
+  static deleteStylistAbsence = [
+    param('stylistId').isUUID().withMessage('Stylist ID must be a valid UUID'),
+    param('absenceId').isUUID().withMessage('Absence ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validaciones para crear una serie de citas recurrentes
+   * @rules
+   * - Mismos campos que createAppointment (dateTime es la primera ocurrencia)
+   * - recurrence.intervalWeeks: entero entre 1 y 12
+   * - recurrence.occurrences: entero entre 2 y 26, o bien
+   * - recurrence.until: fecha ISO (exactamente uno de los dos)
+   */
+  static createAppointmentSeries = [
+    ...AppointmentValidations.createAppointment,
+
+    body('recurrence').isObject().withMessage('Recurrence rule is required'),
+
+    body('recurrence.intervalWeeks')
+      .isInt({ min: 1, max: 12 })
+      .withMessage('Recurrence interval must be between 1 and 12 weeks'),
+
+    body('recurrence.occurrences')
+      .optional()
+      .isInt({ min: 2, max: 26 })
+      .withMessage('Recurrence occurrences must be between 2 and 26'),
+
+    body('recurrence.until')
+      .optional()
+      .isISO8601()
+      .withMessage('Recurrence until must be a valid ISO 8601 date'),
+
+    body('recurrence').custom((recurrence) => {
+      const hasOccurrences = recurrence?.occurrences !== undefined;
+      const hasUntil = recurrence?.until !== undefined;
+
+      if (hasOccurrences === hasUntil) {
+        throw new Error('Recurrence must define either occurrences or until');
+      }
+
+      return true;
+    }),
+  ];
+
+  /**
+   * Validación para operaciones que requieren ID de serie
+   * @description Valida que el parámetro seriesId sea un UUID válido
+   */
+  static appointmentSeriesById = [
+    param('seriesId').isUUID().withMessage('Series ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validaciones para editar una cita de una serie
+   * @rules
+   * - seriesId / appointmentId: UUID válidos
+   * - scope: THIS, THIS_AND_FOLLOWING o ALL (opcional, por defecto THIS)
+   * - Mismos campos que updateAppointment
+   */
+  static updateAppointmentSeries = [
+    param('seriesId').isUUID().withMessage('Series ID must be a valid UUID'),
+    param('appointmentId').isUUID().withMessage('Appointment ID must be a valid UUID'),
+
+    body('scope')
+      .optional()
+      .isIn(SERIES_SCOPES)
+      .withMessage(`Scope must be one of ${SERIES_SCOPES.join(', ')}`),
+
+    ...AppointmentValidations.updateAppointmentBody,
+  ];
+
+  /**
+   * Validaciones para cancelar una cita de una serie
+   * @rules
+   * - seriesId / appointmentId: UUID válidos
+   * - scope: THIS, THIS_AND_FOLLOWING o ALL (opcional, por defecto THIS)
+   * - Mismos campos que cancelAppointment
+   */
+  static cancelAppointmentSeries = [
+    param('seriesId').isUUID().withMessage('Series ID must be a valid UUID'),
+    param('appointmentId').isUUID().withMessage('Appointment ID must be a valid UUID'),
+
+    body('scope')
+      .optional()
+      .isIn(SERIES_SCOPES)
+      .withMessage(`Scope must be one of ${SERIES_SCOPES.join(', ')}`),
+
+    ...AppointmentValidations.cancelAppointmentBody,
+  ];
+
+  /**
+   * Validaciones para reemplazar la política de cancelación
+   * @rules
+   * - adminNoticeHours / stylistNoticeHours / clientNoticeHours: enteros entre 0 y 168
+   * - lateFee: objeto opcional (null = sin cargo) con type FIXED o PERCENTAGE y value > 0
+   * - chargeNoShowFee: booleano opcional
+   * - serviceOverrides: array opcional de { serviceId: UUID, noticeHours: 0-168 }
+   */
+  static updateCancellationPolicy = [
+    body(['adminNoticeHours', 'stylistNoticeHours', 'clientNoticeHours'])
+      .isInt(NOTICE_HOURS_RANGE)
+      .withMessage(`Notice hours must be integers between 0 and ${NOTICE_HOURS_RANGE.max}`)
+      .toInt(),
+
+    body('lateFee').optional({ values: 'null' }).isObject().withMessage('Late fee must be an object'),
+
+    body('lateFee.type')
+      .if(body('lateFee').exists({ values: 'null' }))
+      .isIn(CANCELLATION_FEE_TYPES)
+      .withMessage(`Late fee type must be one of ${CANCELLATION_FEE_TYPES.join(', ')}`),
+
+    body('lateFee.value')
+      .if(body('lateFee').exists({ values: 'null' }))
+      .isFloat({ gt: 0 })
+      .withMessage('Late fee value must be greater than 0')
+      .toFloat(),
+
+    body('chargeNoShowFee')
+      .optional()
+      .isBoolean()
+      .withMessage('chargeNoShowFee must be a boolean')
+      .toBoolean(),
+
+    body('serviceOverrides')
+      .optional()
+      .isArray({ max: 100 })
+      .withMessage('Service overrides must be an array of at most 100 items'),
+
+    body('serviceOverrides.*.serviceId')
+      .isUUID()
+      .withMessage('Service override service ID must be a valid UUID'),
+
+    body('serviceOverrides.*.noticeHours')
+      .isInt(NOTICE_HOURS_RANGE)
+      .withMessage(
+        `Service override notice hours must be an integer between 0 and ${NOTICE_HOURS_RANGE.max}`,
+      )
+      .toInt(),
+  ];
+
+  /**
+   * Validaciones para anotar a un cliente en la lista de espera
+   * @rules
+   * - clientId: UUID válido requerido
+   * - stylistId: UUID válido opcional
+   * - serviceIds: array de UUIDs válidos, mínimo 1
+   * - fromDate / toDate: fechas YYYY-MM-DD, fromDate <= toDate y como máximo 31 días
+   */
+  static createWaitlistEntry = [
+    body('clientId').isUUID().withMessage('Client ID must be a valid UUID'),
+
+    body('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
+
+    body('serviceIds')
+      .isArray({ min: 1 })
+      .withMessage('At least one service must be selected'),
+
+    body('serviceIds.*').isUUID().withMessage('All service IDs must be valid UUIDs'),
+
+    body(['fromDate', 'toDate'])
+      .matches(/^\d{4}-\d{2}-\d{2}$/)
+      .withMessage('Waitlist dates must be in YYYY-MM-DD format')
+      .bail()
+      .isISO8601({ strict: true })
+      .withMessage('Waitlist dates must be valid dates'),
+
+    body('toDate').custom((toDate, { req }) => {
+      const fromTime = new Date(req.body.fromDate + 'T00:00:00.000Z').getTime();
+      const toTime = new Date(toDate + 'T00:00:00.000Z').getTime();
+
+      if (toTime < fromTime) {
+        throw new Error('Waitlist end date must be on or after the start date');
+      }
+
+      if ((toTime - fromTime) / (24 * 60 * 60 * 1000) >= WaitlistEntry.MAX_RANGE_DAYS) {
+        throw new Error(
+          `A waitlist entry cannot cover more than ${WaitlistEntry.MAX_RANGE_DAYS} days`,
+        );
+      }
+
+      return true;
+    }),
+  ];
+
+  /**
+   * Validación para consultar la lista de espera de un cliente
+   * @description Valida que el parámetro clientId sea un UUID válido
+   */
+  static waitlistEntriesByClient = [
+    param('clientId').isUUID().withMessage('Client ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validación para operaciones que requieren ID de entrada de la lista de espera
+   * @description Valida que el parámetro entryId sea un UUID válido
+   */
+  static waitlistEntryById = [
+    param('entryId').isUUID().withMessage('Waitlist entry ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validación para retener un turno durante el checkout
+   * @description Mismas reglas de fecha, cliente, estilista y servicios que al crear una cita
+   */
+  static createSlotHold = [
+    body('dateTime')
+      .isISO8601()
+      .withMessage('DateTime must be a valid ISO 8601 date')
+      .custom((value) => {
+        if (new Date(value) <= new Date()) {
+          throw new Error('Cannot hold a slot in the past');
+        }
+        return true;
+      }),
+
+    body('clientId').isUUID().withMessage('Client ID must be a valid UUID'),
+
+    body('stylistId').optional().isUUID().withMessage('Stylist ID must be a valid UUID'),
+
+    body('serviceIds')
+      .isArray({ min: 1 })
+      .withMessage('At least one service must be selected'),
+
+    body('serviceIds.*').isUUID().withMessage('All service IDs must be valid UUIDs'),
+  ];
+
+  /**
+   * Validación para liberar una reserva de checkout
+   * @description Valida que el parámetro token sea un UUID válido
+   */
+  static slotHoldByToken = [
+    param('token').isUUID().withMessage('Hold token must be a valid UUID'),
+  ];
 }
@@ -0,0 +1,66 @@
+import { body, param, query } from 'express-validator';
+
+const DAYS_OF_WEEK = ['MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY'];
+
+/** Hora HH:MM con dos dígitos: los horarios se comparan como texto en la base de datos */
+const TIME_REGEX = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+/**
+ * Validaciones para la gestión de horarios semanales de apertura del salón
+ */
+export class ScheduleValidations {
+  /**
+   * Validaciones para listar horarios
+   * @rules
+   * - dayOfWeek: día de la semana opcional
+   */
+  static getSchedules = [
+    query('dayOfWeek')
+      .optional()
+      .isIn(DAYS_OF_WEEK)
+      .withMessage(`Day of week must be one of ${DAYS_OF_WEEK.join(', ')}`),
+  ];
+
+  /**
+   * Validaciones para operaciones sobre un horario por ID
+   * @rules
+   * - id: UUID válido
+   */
+  static scheduleById = [param('id').isUUID().withMessage('Schedule ID must be a valid UUID')];
+
+  /**
+   * Validaciones para crear un horario
+   * @rules
+   * - dayOfWeek: día de la semana requerido
+   * - startTime / endTime: hora en formato HH:MM
+   * - holidayId: UUID opcional del feriado asociado
+   */
+  static createSchedule = [
+    body('dayOfWeek')
+      .isIn(DAYS_OF_WEEK)
+      .withMessage(`Day of week must be one of ${DAYS_OF_WEEK.join(', ')}`),
+
+    body('startTime').matches(TIME_REGEX).withMessage('Start time must be in HH:MM format'),
+
+    body('endTime').matches(TIME_REGEX).withMessage('End time must be in HH:MM format'),
+
+    body('holidayId').optional().isUUID().withMessage('Holiday ID must be a valid UUID'),
+  ];
+
+  /**
+   * Validaciones para modificar el rango de un horario
+   * @rules
+   * - id: UUID válido
+   * - startTime / endTime: hora en formato HH:MM
+   * - force: booleano opcional para aplicar el cambio aunque deje citas fuera
+   */
+  static updateSchedule = [
+    param('id').isUUID().withMessage('Schedule ID must be a valid UUID'),
+
+    body('startTime').matches(TIME_REGEX).withMessage('Start time must be in HH:MM format'),
+
+    body('endTime').matches(TIME_REGEX).withMessage('End time must be in HH:MM format'),
+
+    body('force').optional().isBoolean().withMessage('force must be a boolean'),
+  ];
+}
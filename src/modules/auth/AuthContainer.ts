@@ -1,4 +1,6 @@
 import { PrismaClient } from '@prisma/client';
+import { env } from '../../shared/config/env';
+import { eventBus } from '../../shared/events/EventBus';
 import { AuthController } from './presentation/controllers/AuthController';
 import { AuthMiddleware } from './presentation/middleware/AuthMiddleware';
 import { AuthRoutes } from './presentation/routes/AuthRoutes';
@@ -7,6 +9,8 @@ import { RegisterUser } from './application/use-cases/RegisterUser';
 import { RefreshToken } from './application/use-cases/RefreshToken';
 import { GetUserProfile } from './application/use-cases/GetUserProfile';
 import { UpdateUserProfile } from './application/use-cases/UpdateUserProfile';
+import { GetUserPreferences } from './application/use-cases/GetUserPreferences';
+import { UpdateUserPreferences } from './application/use-cases/UpdateUserPreferences';
 import { ChangeUserPassword } from './application/use-cases/ChangeUserPassword';
 import { DeactivateUser } from './application/use-cases/DeactivateUser';
 import { PrismaUserRepository } from './infrastructure/persistence/PrismaUserRepository';
@@ -14,6 +18,24 @@ import { PrismaRoleRepository } from './infrastructure/persistence/PrismaRolRepo
 import { PrismaStylistServiceRepository } from '../services/infrastructure/persistence/PrismaStylistServiceRepository';
 import { PrismaAppointmentRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentRepository';
 import { PrismaAppointmentStatusRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentStatusRepository';
+import { PrismaAppointmentEventRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentEventRepository';
+import { AppointmentHistoryService } from '../appointments/domain/services/AppointmentHistoryService';
+import { PrismaScheduleRepository } from '../appointments/infrastructure/persistence/PrismaScheduleRepository';
+import { PrismaStylistScheduleRepository } from '../appointments/infrastructure/persistence/PrismaStylistScheduleRepository';
+import { PrismaStylistAbsenceRepository } from '../appointments/infrastructure/persistence/PrismaStylistAbsenceRepository';
+import { PrismaWaitlistEntryRepository } from '../appointments/infrastructure/persistence/PrismaWaitlistEntryRepository';
+import { PrismaSlotHoldRepository } from '../appointments/infrastructure/persistence/PrismaSlotHoldRepository';
+import { ScheduleAvailabilityService } from '../appointments/domain/services/ScheduleAvailabilityService';
+import { StylistEligibilityService } from '../appointments/domain/services/StylistEligibilityService';
+import { AppointmentDurationService } from '../appointments/domain/services/AppointmentDurationService';
+import { SlotHoldService } from '../appointments/domain/services/SlotHoldService';
+import { StylistAssignmentService } from '../appointments/domain/services/StylistAssignmentService';
+import { WaitlistService } from '../appointments/domain/services/WaitlistService';
+import { PrismaServiceRepository } from '../services/infrastructure/persistence/PrismaServiceRepository';
+import { PrismaHolidayRepository } from '../holidays/infrastructure/persistence/PrismaHolidayRepository';
+import { PrismaScheduleExceptionRepository } from '../holidays/infrastructure/persistence/PrismaScheduleExceptionRepository';
+import { PrismaNotificationRepository } from '../notifications/infrastructure/persistence/PrismaNotificationRepository';
+import { PrismaNotificationStatusRepository } from '../notifications/infrastructure/persistence/PrismaNotificationStatusRepository';
 import { IUserRepository } from './domain/repositories/IUserRepository';
 import { IRoleRepository } from './domain/repositories/IRoleRepository';
 import { IStylistServiceRepository } from '../services/domain/repositories/IStylistServiceRepository';
@@ -41,6 +63,8 @@ export class AuthContainer {
   private _refreshToken: RefreshToken;
   private _getUserProfile: GetUserProfile;
   private _updateUserProfile: UpdateUserProfile;
+  private _getUserPreferences: GetUserPreferences;
+  private _updateUserPreferences: UpdateUserPreferences;
   private _changeUserPassword: ChangeUserPassword;
   private _deactivateUser: DeactivateUser;
 
@@ -80,6 +104,43 @@ export class AuthContainer {
     const stylistServiceRepository: IStylistServiceRepository = new PrismaStylistServiceRepository(this.prisma);
     const appointmentRepository: IAppointmentRepository = new PrismaAppointmentRepository(this.prisma);
     const appointmentStatusRepository: IAppointmentStatusRepository = new PrismaAppointmentStatusRepository(this.prisma);
+    const appointmentHistoryService = new AppointmentHistoryService(
+      new PrismaAppointmentEventRepository(this.prisma),
+      appointmentStatusRepository,
+    );
+
+    // Lista de espera: los turnos liberados por la cascada se ofrecen con otro estilista libre
+    const waitlistEntryRepository = new PrismaWaitlistEntryRepository(this.prisma);
+    const slotHoldRepository = new PrismaSlotHoldRepository(this.prisma);
+    const appointmentDurationService = new AppointmentDurationService(
+      new PrismaServiceRepository(this.prisma),
+      stylistServiceRepository,
+    );
+    const stylistAssignmentService = new StylistAssignmentService(
+      appointmentRepository,
+      appointmentStatusRepository,
+      new ScheduleAvailabilityService(
+        new PrismaHolidayRepository(this.prisma),
+        new PrismaScheduleExceptionRepository(this.prisma),
+        new PrismaScheduleRepository(this.prisma),
+        new PrismaStylistScheduleRepository(this.prisma),
+        new PrismaStylistAbsenceRepository(this.prisma),
+      ),
+      new StylistEligibilityService(stylistServiceRepository, userRepository, roleRepository),
+      appointmentDurationService,
+      new SlotHoldService(slotHoldRepository, waitlistEntryRepository),
+    );
+    const waitlistService = new WaitlistService(
+      waitlistEntryRepository,
+      slotHoldRepository,
+      userRepository,
+      stylistServiceRepository,
+      appointmentDurationService,
+      stylistAssignmentService,
+      new PrismaNotificationRepository(this.prisma),
+      new PrismaNotificationStatusRepository(this.prisma),
+      env.WAITLIST_HOLD_MINUTES,
+    );
 
     // Services
     const hashService: HashService = new BcryptHashService();
@@ -91,6 +152,8 @@ export class AuthContainer {
     this._refreshToken = new RefreshToken(userRepository, roleRepository, jwtService);
     this._getUserProfile = new GetUserProfile(userRepository, roleRepository);
     this._updateUserProfile = new UpdateUserProfile(userRepository, roleRepository);
+    this._getUserPreferences = new GetUserPreferences(userRepository);
+    this._updateUserPreferences = new UpdateUserPreferences(userRepository);
     this._changeUserPassword = new ChangeUserPassword(userRepository, hashService);
     this._deactivateUser = new DeactivateUser(
       userRepository,
@@ -98,6 +161,9 @@ export class AuthContainer {
       stylistServiceRepository,
       appointmentRepository,
       appointmentStatusRepository,
+      appointmentHistoryService,
+      waitlistService,
+      eventBus,
     );
 
     // HTTP Layer - Inyectamos los casos de uso directamente
@@ -109,6 +175,8 @@ export class AuthContainer {
       this._updateUserProfile,
       this._changeUserPassword,
       this._deactivateUser,
+      this._getUserPreferences,
+      this._updateUserPreferences,
     );
 
     this._authMiddleware = new AuthMiddleware(jwtService, roleRepository);
@@ -181,6 +249,22 @@ export class AuthContainer {
     return this._updateUserProfile;
   }
 
+  /**
+   * Obtiene el caso de uso de consulta de preferencias configurado
+   * @returns Instancia de GetUserPreferences para uso directo o testing
+   */
+  get getUserPreferences(): GetUserPreferences {
+    return this._getUserPreferences;
+  }
+
+  /**
+   * Obtiene el caso de uso de actualización de preferencias configurado
+   * @returns Instancia de UpdateUserPreferences para uso directo o testing
+   */
+  get updateUserPreferences(): UpdateUserPreferences {
+    return this._updateUserPreferences;
+  }
+
   /**
    * Obtiene el caso de uso de cambio de contraseña configurado
    * @returns Instancia de ChangeUserPassword para uso directo o testing
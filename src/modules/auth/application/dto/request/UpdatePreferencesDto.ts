@@ -0,0 +1,22 @@
+import {
+  NotificationChannelEnum,
+  NotificationTypeEnum,
+} from '../../../../notifications/domain/entities/Notification';
+import { PreferredLanguageEnum } from '../../../domain/entities/UserPreferences';
+
+/**
+ * DTO para actualización parcial de las preferencias de usuario
+ * Lo que no se indica se conserva
+ */
+export interface UpdatePreferencesDto {
+  /** Opt-in por tipo de notificación (opcional, solo los tipos a cambiar) */
+  notificationTypes?: Partial<Record<NotificationTypeEnum, boolean>>;
+  /** Opt-in por canal de entrega (opcional, solo los canales a cambiar) */
+  notificationChannels?: Partial<Record<NotificationChannelEnum, boolean>>;
+  /** Franja sin entregas externas en hora local del salón; null la elimina (opcional) */
+  quietHours?: { start: string; end: string } | null;
+  /** Idioma de las notificaciones (opcional) */
+  language?: PreferredLanguageEnum;
+  /** Notas libres; null las elimina (opcional) */
+  notes?: string | null;
+}
@@ -1,4 +1,5 @@
 import { RoleDto } from './RoleDto';
+import { UserPreferencesDto } from './UserPreferencesDto';
 
 /**
  * DTO para datos completos de usuario en respuestas
@@ -17,8 +18,8 @@ export interface UserDto {
   isActive: boolean;
   /** URL de la foto de perfil del usuario (opcional) */
   profilePicture?: string | null;
-  /** Preferencias del usuario (opcional, relevante para clientes) */
-  preferences?: string | null;
+  /** Preferencias del usuario (null si nunca las configuró) */
+  preferences?: UserPreferencesDto | null;
   /** Información del rol asignado al usuario */
   role: RoleDto;
   /** Fecha de creación de la cuenta */
@@ -0,0 +1,16 @@
+/**
+ * DTO con las preferencias de un usuario en respuestas
+ * Incluye todos los valores, completados con los valores por defecto
+ */
+export interface UserPreferencesDto {
+  /** Opt-in por tipo de notificación (p. ej. { PROMOTIONAL: false, ... }) */
+  notificationTypes: Record<string, boolean>;
+  /** Opt-in por canal de entrega externo (p. ej. { EMAIL: true }) */
+  notificationChannels: Record<string, boolean>;
+  /** Franja sin entregas externas en hora local del salón (HH:MM), o null */
+  quietHours: { start: string; end: string } | null;
+  /** Idioma de las notificaciones ('en' | 'es') */
+  language: string;
+  /** Notas libres del cliente */
+  notes: string | null;
+}
@@ -4,15 +4,22 @@ import { IStylistServiceRepository } from '../../../services/domain/repositories
 import { IAppointmentRepository } from '../../../appointments/domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../../appointments/domain/repositories/IAppointmentStatusRepository';
 import { AppointmentStatusEnum } from '../../../appointments/domain/entities/AppointmentStatus';
+import { SYSTEM_ACTOR } from '../../../appointments/domain/entities/AppointmentEvent';
+import { AppointmentHistoryService } from '../../../appointments/domain/services/AppointmentHistoryService';
+import { WaitlistService } from '../../../appointments/domain/services/WaitlistService';
+import { AppointmentCancelledEvent } from '../../../appointments/domain/events/AppointmentDomainEvents';
 import { DeactivateUserResponseDto } from '../dto/response/DeactivateUserResponseDto';
 import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
 import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
 import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+import { EventBus } from '../../../../shared/events/EventBus';
 
 /**
  * Caso de uso para desactivar un usuario del sistema
  * Si el usuario es STYLIST, ejecuta acciones en cascada:
- * - Cancela citas activas (PENDING/CONFIRMED) con razón "Stylist deactivated"
+ * - Cancela citas activas (PENDING/CONFIRMED) con razón "Stylist deactivated", ofrece cada
+ *   turno liberado a la lista de espera (con otro estilista libre) y publica la cancelación
+ *   para que se notifique al cliente
  * - Desactiva asignaciones StylistService (isOffering = false)
  */
 export class DeactivateUser {
@@ -22,6 +29,9 @@ export class DeactivateUser {
     private stylistServiceRepository: IStylistServiceRepository,
     private appointmentRepository: IAppointmentRepository,
     private appointmentStatusRepository: IAppointmentStatusRepository,
+    private appointmentHistoryService: AppointmentHistoryService,
+    private waitlistService: WaitlistService,
+    private eventBus: EventBus,
   ) {}
 
   /**
@@ -137,12 +147,23 @@ export class DeactivateUser {
 
     // Cancelar cada cita activa
     for (const appointment of activeAppointments) {
+      const before = AppointmentHistoryService.snapshot(appointment);
       appointment.markAsCancelled(
         cancelledStatus.id,
         'Stylist deactivated',
         'system',
       );
       await this.appointmentRepository.update(appointment);
+      await this.appointmentHistoryService.recordChanges(
+        before,
+        appointment,
+        SYSTEM_ACTOR,
+        'Stylist deactivated',
+      );
+      await this.waitlistService.offerFreedSlot(appointment);
+      await this.eventBus.publish(
+        new AppointmentCancelledEvent(appointment, SYSTEM_ACTOR, 'Stylist deactivated'),
+      );
     }
 
     return activeAppointments.length;
@@ -0,0 +1,26 @@
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { UserPreferencesDto } from '../dto/response/UserPreferencesDto';
+
+/**
+ * Caso de uso para obtener las preferencias de un usuario
+ * Devuelve todas las preferencias, completadas con los valores por defecto
+ */
+export class GetUserPreferences {
+  constructor(private userRepository: IUserRepository) {}
+
+  /**
+   * Ejecuta la obtención de las preferencias
+   * @param userId - ID único del usuario a consultar
+   * @returns Promise con las preferencias del usuario
+   * @throws NotFoundError si el usuario no existe
+   */
+  async execute(userId: string): Promise<UserPreferencesDto> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    return user.getPreferences().toJSON();
+  }
+}
@@ -38,7 +38,7 @@ export class GetUserProfile {
       phone: user.phone,
       isActive: user.isActive,
       profilePicture: user.profilePicture,
-      preferences: user.preferences,
+      preferences: user.preferences ? user.getPreferences().toJSON() : null,
       role: {
         id: role.id,
         name: role.name,
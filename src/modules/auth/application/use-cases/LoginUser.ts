@@ -1,4 +1,5 @@
 import { IUserRepository, UserWithRole } from '../../domain/repositories/IUserRepository';
+import { UserPreferences } from '../../domain/entities/UserPreferences';
 import { HashService } from '../services/HashService';
 import { JwtPayload, JwtService } from '../services/JwtService';
 import { LoginDto } from '../dto/request/LoginDto';
@@ -90,7 +91,7 @@ export class LoginUser {
       phone: user.phone,
       isActive: user.isActive,
       profilePicture: user.profilePicture,
-      preferences: user.preferences,
+      preferences: user.preferences ? UserPreferences.fromJson(user.preferences).toJSON() : null,
       role: {
         id: role.id,
         name: role.name,
@@ -138,7 +138,7 @@ export class RegisterUser {
       phone: user.phone,
       isActive: user.isActive,
       profilePicture: user.profilePicture,
-      preferences: user.preferences,
+      preferences: user.preferences ? user.getPreferences().toJSON() : null,
       role: {
         id: role.id,
         name: role.name,
@@ -0,0 +1,32 @@
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { UpdatePreferencesDto } from '../dto/request/UpdatePreferencesDto';
+import { UserPreferencesDto } from '../dto/response/UserPreferencesDto';
+
+/**
+ * Caso de uso para actualizar las preferencias de un usuario
+ * Aplica cambios parciales: lo que no se indica se conserva
+ */
+export class UpdateUserPreferences {
+  constructor(private userRepository: IUserRepository) {}
+
+  /**
+   * Ejecuta la actualización de las preferencias
+   * @param userId - ID único del usuario a actualizar
+   * @param updateDto - Preferencias a cambiar
+   * @returns Promise con las preferencias resultantes
+   * @throws NotFoundError si el usuario no existe
+   * @throws ValidationError si alguna preferencia no es válida
+   */
+  async execute(userId: string, updateDto: UpdatePreferencesDto): Promise<UserPreferencesDto> {
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new NotFoundError('User', userId);
+    }
+
+    user.updatePreferences(user.getPreferences().merge(updateDto));
+    const updatedUser = await this.userRepository.update(user);
+
+    return updatedUser.getPreferences().toJSON();
+  }
+}
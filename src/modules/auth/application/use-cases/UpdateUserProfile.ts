@@ -54,7 +54,7 @@ export class UpdateUserProfile {
       phone: updatedUser.phone,
       isActive: updatedUser.isActive,
       profilePicture: updatedUser.profilePicture,
-      preferences: updatedUser.preferences,
+      preferences: updatedUser.preferences ? updatedUser.getPreferences().toJSON() : null,
       role: {
         id: role!.id,
         name: role!.name,
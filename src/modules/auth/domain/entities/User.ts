@@ -1,5 +1,6 @@
 import { generateUuid } from '../../../../shared/utils/uuid';
 import { isValidPhone, isValidUrl } from '../../../../shared/utils/validation';
+import { UserPreferences } from './UserPreferences';
 
 /**
  * Entidad de dominio User que representa un usuario del sistema
@@ -28,7 +29,7 @@ export class User {
    * @param password - Contraseña hasheada del usuario
    * @param isActive - Estado de activación de la cuenta
    * @param profilePicture - URL de foto de perfil (opcional)
-   * @param preferences - Preferencias del usuario (opcional, solo para clientes)
+   * @param preferences - Preferencias del usuario serializadas como JSON (opcional, ver UserPreferences)
    * @param createdAt - Fecha de creación (opcional, default: now)
    * @param updatedAt - Fecha de actualización (opcional, default: now)
    * @throws Error si los datos no cumplen las validaciones de negocio
@@ -171,6 +172,24 @@ export class User {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Obtiene las preferencias tipadas del usuario
+   * @returns Preferencias guardadas, completadas con los valores por defecto
+   */
+  getPreferences(): UserPreferences {
+    return UserPreferences.fromJson(this.preferences);
+  }
+
+  /**
+   * Reemplaza las preferencias del usuario
+   * @param preferences - Nuevas preferencias
+   * @description Las guarda serializadas y actualiza la fecha de modificación
+   */
+  updatePreferences(preferences: UserPreferences): void {
+    this.preferences = preferences.serialize();
+    this.updatedAt = new Date();
+  }
+
   /**
    * Actualiza la contraseña del usuario
    * @param hashedPassword - Nueva contraseña ya hasheada
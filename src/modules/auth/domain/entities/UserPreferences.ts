@@ -0,0 +1,353 @@
+import {
+  NotificationChannelEnum,
+  NotificationTypeEnum,
+} from '../../../notifications/domain/entities/Notification';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { logger } from '../../../../shared/logger/logger';
+import {
+  addSalonDays,
+  getSalonMinutesOfDay,
+  salonDateTimeToUtc,
+  toSalonDate,
+} from '../../../../shared/utils/salonTime';
+
+/**
+ * Idiomas en los que se pueden recibir las notificaciones
+ */
+export enum PreferredLanguageEnum {
+  /** Inglés (por defecto) */
+  EN = 'en',
+  /** Español */
+  ES = 'es',
+}
+
+/**
+ * Texto con una variante por idioma
+ */
+export type LocalizedText = Record<PreferredLanguageEnum, string>;
+
+/**
+ * Franja horaria (hora local del salón, HH:MM) en la que no se entregan notificaciones por
+ * canales externos. Si `start` es mayor que `end`, la franja cruza la medianoche
+ */
+export interface QuietHours {
+  start: string;
+  end: string;
+}
+
+/**
+ * Preferencias completas de un usuario
+ */
+export interface UserPreferencesProps {
+  /** Tipos de notificación que el usuario quiere recibir */
+  notificationTypes: Record<NotificationTypeEnum, boolean>;
+  /** Canales externos por los que el usuario quiere recibir las notificaciones */
+  notificationChannels: Record<NotificationChannelEnum, boolean>;
+  /** Franja sin entregas externas, o null si no tiene */
+  quietHours: QuietHours | null;
+  /** Idioma de las notificaciones */
+  language: PreferredLanguageEnum;
+  /** Notas libres del cliente (p. ej. "prefiere turnos por la tarde") */
+  notes: string | null;
+}
+
+/**
+ * Cambios parciales sobre las preferencias: lo que no se indica se conserva
+ */
+export interface UserPreferencesUpdate {
+  notificationTypes?: Partial<Record<NotificationTypeEnum, boolean>>;
+  notificationChannels?: Partial<Record<NotificationChannelEnum, boolean>>;
+  quietHours?: QuietHours | null;
+  language?: PreferredLanguageEnum;
+  notes?: string | null;
+}
+
+const TIME_REGEX = /^([01][0-9]|2[0-3]):[0-5][0-9]$/;
+
+/**
+ * Preferencias tipadas de un usuario, guardadas como JSON en `User.preferences`
+ * @description Por defecto el usuario recibe todos los tipos de notificación por todos los
+ * canales, sin franja de silencio y en inglés. Un valor guardado que no es JSON (las notas de
+ * texto libre anteriores a este modelo) se conserva como `notes`. Un valor guardado inválido para
+ * el modelo solo descarta ese valor: el resto de las preferencias guardadas se conserva.
+ */
+export class UserPreferences {
+  /** Largo máximo de las notas libres */
+  static readonly MAX_NOTES_LENGTH = 500;
+
+  private constructor(private readonly props: UserPreferencesProps) {}
+
+  /**
+   * Crea las preferencias por defecto
+   * @returns Preferencias con todo habilitado, sin franja de silencio y en inglés
+   */
+  static defaults(): UserPreferences {
+    return new UserPreferences({
+      notificationTypes: UserPreferences.allEnabled(Object.values(NotificationTypeEnum)),
+      notificationChannels: UserPreferences.allEnabled(Object.values(NotificationChannelEnum)),
+      quietHours: null,
+      language: PreferredLanguageEnum.EN,
+      notes: null,
+    });
+  }
+
+  /**
+   * Reconstruye las preferencias desde el valor guardado en `User.preferences`
+   * @param raw - JSON guardado, texto libre anterior o null
+   * @returns Preferencias guardadas completadas con los valores por defecto. Los valores
+   * inválidos para el modelo se descartan (y se registran en el log) sin perder los válidos; un
+   * texto libre se conserva como `notes`
+   */
+  static fromJson(raw?: string | null): UserPreferences {
+    if (!raw || raw.trim().length === 0) {
+      return UserPreferences.defaults();
+    }
+
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      return UserPreferences.defaults().merge({
+        notes: raw.slice(0, UserPreferences.MAX_NOTES_LENGTH),
+      });
+    }
+
+    if (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed)) {
+      logger.warn('Stored user preferences ignored: not a JSON object');
+      return UserPreferences.defaults();
+    }
+
+    // Cada valor guardado se aplica por separado para que uno inválido no descarte a los demás
+    let preferences = UserPreferences.defaults();
+    const dropped: string[] = [];
+    for (const [field, update] of UserPreferences.splitStored(parsed as Record<string, unknown>)) {
+      try {
+        preferences = preferences.merge(update);
+      } catch (error) {
+        dropped.push(`${field} (${(error as Error).message})`);
+      }
+    }
+
+    if (dropped.length > 0) {
+      logger.warn('Invalid stored user preferences dropped', { fields: dropped });
+    }
+
+    return preferences;
+  }
+
+  /**
+   * Aplica cambios parciales y devuelve las preferencias resultantes
+   * @param update - Cambios a aplicar; lo que no se indica se conserva
+   * @returns Nuevas preferencias
+   * @throws ValidationError si algún valor no es válido
+   */
+  merge(update: UserPreferencesUpdate): UserPreferences {
+    const next: UserPreferencesProps = {
+      notificationTypes: {
+        ...this.props.notificationTypes,
+        ...UserPreferences.validateToggles(
+          update.notificationTypes,
+          Object.values(NotificationTypeEnum),
+          'notification type',
+        ),
+      },
+      notificationChannels: {
+        ...this.props.notificationChannels,
+        ...UserPreferences.validateToggles(
+          update.notificationChannels,
+          Object.values(NotificationChannelEnum),
+          'notification channel',
+        ),
+      },
+      quietHours:
+        update.quietHours === undefined
+          ? this.props.quietHours
+          : update.quietHours && { start: update.quietHours.start, end: update.quietHours.end },
+      language: update.language ?? this.props.language,
+      notes: update.notes !== undefined ? update.notes : this.props.notes,
+    };
+
+    UserPreferences.validate(next);
+    return new UserPreferences(next);
+  }
+
+  /**
+   * Idioma de las notificaciones
+   */
+  get language(): PreferredLanguageEnum {
+    return this.props.language;
+  }
+
+  /**
+   * Verifica si el usuario quiere recibir un tipo de notificación
+   * @param type - Tipo de notificación
+   */
+  allowsType(type: NotificationTypeEnum): boolean {
+    return this.props.notificationTypes[type] !== false;
+  }
+
+  /**
+   * Verifica si el usuario quiere recibir notificaciones por un canal
+   * @param channel - Canal de entrega
+   */
+  allowsChannel(channel: NotificationChannelEnum): boolean {
+    return this.props.notificationChannels[channel] !== false;
+  }
+
+  /**
+   * Calcula cuándo termina la franja de silencio en curso
+   * @param now - Instante de referencia
+   * @returns Fin de la franja si `now` cae dentro de ella; null si no hay franja o está fuera
+   */
+  quietHoursEndAfter(now: Date): Date | null {
+    const quietHours = this.props.quietHours;
+    if (!quietHours) return null;
+
+    const minutes = getSalonMinutesOfDay(now);
+    const start = UserPreferences.toMinutes(quietHours.start);
+    const end = UserPreferences.toMinutes(quietHours.end);
+    const inside =
+      start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+    if (!inside) return null;
+
+    const endToday = salonDateTimeToUtc(toSalonDate(now), quietHours.end);
+    return endToday > now ? endToday : addSalonDays(endToday, 1);
+  }
+
+  /**
+   * Convierte las preferencias a un objeto plano
+   * @returns Copia de todas las preferencias
+   */
+  toJSON(): UserPreferencesProps {
+    return {
+      notificationTypes: { ...this.props.notificationTypes },
+      notificationChannels: { ...this.props.notificationChannels },
+      quietHours: this.props.quietHours ? { ...this.props.quietHours } : null,
+      language: this.props.language,
+      notes: this.props.notes,
+    };
+  }
+
+  /**
+   * Serializa las preferencias para guardarlas en `User.preferences`
+   * @returns JSON de las preferencias
+   */
+  serialize(): string {
+    return JSON.stringify(this.toJSON());
+  }
+
+  /**
+   * Valida un conjunto de preferencias completo
+   * @param props - Preferencias a validar
+   * @throws ValidationError si algún valor no es válido
+   */
+  private static validate(props: UserPreferencesProps): void {
+    if (props.quietHours !== null) {
+      const { start, end } = props.quietHours;
+      if (typeof start !== 'string' || !TIME_REGEX.test(start)) {
+        throw new ValidationError('Quiet hours start must be in HH:MM format');
+      }
+      if (typeof end !== 'string' || !TIME_REGEX.test(end)) {
+        throw new ValidationError('Quiet hours end must be in HH:MM format');
+      }
+      if (start === end) {
+        throw new ValidationError('Quiet hours start and end cannot be the same');
+      }
+    }
+
+    if (!Object.values(PreferredLanguageEnum).includes(props.language)) {
+      throw new ValidationError(
+        `Invalid language. Must be one of: ${Object.values(PreferredLanguageEnum).join(', ')}`,
+      );
+    }
+
+    if (props.notes !== null) {
+      if (typeof props.notes !== 'string') {
+        throw new ValidationError('Notes must be a string');
+      }
+      if (props.notes.length > UserPreferences.MAX_NOTES_LENGTH) {
+        throw new ValidationError(
+          `Notes cannot exceed ${UserPreferences.MAX_NOTES_LENGTH} characters`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Valida los interruptores (opt-in) de tipos o canales
+   * @param toggles - Interruptores indicados
+   * @param allowed - Claves válidas
+   * @param label - Nombre de la clave para el mensaje de error
+   * @returns Los interruptores validados (vacío si no se indicaron)
+   * @throws ValidationError si hay claves desconocidas o valores no booleanos
+   */
+  private static validateToggles<K extends string>(
+    toggles: Partial<Record<K, boolean>> | undefined,
+    allowed: K[],
+    label: string,
+  ): Partial<Record<K, boolean>> {
+    if (toggles === undefined) return {};
+    if (typeof toggles !== 'object' || toggles === null || Array.isArray(toggles)) {
+      throw new ValidationError(`Invalid ${label} preferences`);
+    }
+
+    for (const [key, value] of Object.entries(toggles)) {
+      if (!allowed.includes(key as K)) {
+        throw new ValidationError(`Unknown ${label}: ${key}`);
+      }
+      if (typeof value !== 'boolean') {
+        throw new ValidationError(`Preference for ${label} ${key} must be a boolean`);
+      }
+    }
+
+    return toggles;
+  }
+
+  /**
+   * Separa las preferencias guardadas en cambios de un único valor cada uno
+   * @param stored - Objeto guardado en `User.preferences`
+   * @returns Pares [campo, cambio]; los interruptores de tipos y canales van de a uno
+   */
+  private static splitStored(
+    stored: Record<string, unknown>,
+  ): Array<[string, UserPreferencesUpdate]> {
+    const updates: Array<[string, UserPreferencesUpdate]> = [];
+
+    for (const field of ['notificationTypes', 'notificationChannels'] as const) {
+      const toggles = stored[field];
+      if (toggles === undefined) continue;
+      if (typeof toggles !== 'object' || toggles === null || Array.isArray(toggles)) {
+        updates.push([field, { [field]: toggles } as UserPreferencesUpdate]);
+        continue;
+      }
+      for (const [key, value] of Object.entries(toggles)) {
+        updates.push([`${field}.${key}`, { [field]: { [key]: value } } as UserPreferencesUpdate]);
+      }
+    }
+
+    for (const field of ['quietHours', 'language', 'notes'] as const) {
+      if (stored[field] !== undefined) {
+        updates.push([field, { [field]: stored[field] } as UserPreferencesUpdate]);
+      }
+    }
+
+    return updates;
+  }
+
+  /**
+   * Construye un registro con todas las claves habilitadas
+   * @param keys - Claves del registro
+   */
+  private static allEnabled<K extends string>(keys: K[]): Record<K, boolean> {
+    return Object.fromEntries(keys.map((key) => [key, true])) as Record<K, boolean>;
+  }
+
+  /**
+   * Convierte una hora HH:MM a minutos desde medianoche
+   * @param time - Hora en formato HH:MM
+   */
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -7,11 +7,14 @@ import { GetUserProfile } from '../../application/use-cases/GetUserProfile';
 import { UpdateUserProfile } from '../../application/use-cases/UpdateUserProfile';
 import { ChangeUserPassword } from '../../application/use-cases/ChangeUserPassword';
 import { DeactivateUser } from '../../application/use-cases/DeactivateUser';
+import { GetUserPreferences } from '../../application/use-cases/GetUserPreferences';
+import { UpdateUserPreferences } from '../../application/use-cases/UpdateUserPreferences';
 import { AuthenticatedRequest } from '../middleware/AuthMiddleware';
 import { RegisterDto } from '../../application/dto/request/RegisterDto';
 import { LoginDto } from '../../application/dto/request/LoginDto';
 import { UpdateProfileDto } from '../../application/dto/request/UpdateProfileDto';
 import { ChangePasswordDto } from '../../application/dto/request/ChangePasswordDto';
+import { UpdatePreferencesDto } from '../../application/dto/request/UpdatePreferencesDto';
 import { UnauthorizedError } from '../../../../shared/exceptions/UnauthorizedError';
 
 /**
@@ -29,6 +32,8 @@ export class AuthController {
     private updateUserProfile: UpdateUserProfile,
     private changeUserPassword: ChangeUserPassword,
     private deactivateUserUseCase: DeactivateUser,
+    private getUserPreferences: GetUserPreferences,
+    private updateUserPreferences: UpdateUserPreferences,
   ) {}
 
   /**
@@ -150,6 +155,59 @@ export class AuthController {
     });
   }
 
+  /**
+   * Obtiene las preferencias del usuario autenticado
+   * @route GET /auth/profile/preferences
+   * @param req - Request de Express autenticado con userId en req.user
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @description Retorna todas las preferencias, completadas con los valores por defecto
+   * @responseStatus 200 - Preferencias obtenidas exitosamente
+   * @throws UnauthorizedError si el request no está autenticado
+   * @throws NotFoundError si el usuario no existe
+   */
+  async getPreferences(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const result = await this.getUserPreferences.execute(req.user.userId);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Preferences retrieved successfully',
+    });
+  }
+
+  /**
+   * Actualiza las preferencias del usuario autenticado
+   * @route PUT /auth/profile/preferences
+   * @param req - Request de Express con UpdatePreferencesDto en el body
+   * @param res - Response de Express
+   * @returns Promise<Response>
+   * @description Aplica cambios parciales a tipos y canales de notificación, franja de silencio,
+   * idioma y notas
+   * @responseStatus 200 - Preferencias actualizadas exitosamente
+   * @throws UnauthorizedError si el request no está autenticado
+   * @throws ValidationError si alguna preferencia no es válida
+   * @throws NotFoundError si el usuario no existe
+   */
+  async updatePreferences(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    if (!req.user?.userId) {
+      throw new UnauthorizedError('Authentication required');
+    }
+
+    const updateDto: UpdatePreferencesDto = req.body;
+    const result = await this.updateUserPreferences.execute(req.user.userId, updateDto);
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Preferences updated successfully',
+    });
+  }
+
   /**
    * Cambia la contraseña del usuario autenticado
    * @route PUT /auth/change-password
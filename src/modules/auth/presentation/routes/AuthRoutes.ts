@@ -33,6 +33,8 @@ export class AuthRoutes {
    * - POST /auth/refresh-token - Renovar tokens
    * - GET /auth/profile - Obtener perfil (requiere autenticación)
    * - PUT /auth/profile - Actualizar perfil (requiere autenticación)
+   * - GET /auth/profile/preferences - Obtener preferencias (requiere autenticación)
+   * - PUT /auth/profile/preferences - Actualizar preferencias (requiere autenticación)
    * - PUT /auth/change-password - Cambiar contraseña (requiere autenticación)
    * - PATCH /auth/users/:id/deactivate - Desactivar usuario (solo ADMIN)
    */
@@ -90,6 +92,26 @@ export class AuthRoutes {
       },
     );
 
+    // GET /profile/preferences - Obtener preferencias (requiere autenticación)
+    this.router.get(
+      '/profile/preferences',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      (req: Request, res: Response, next: NextFunction) => {
+        this.authController.getPreferences(req, res).catch(next);
+      },
+    );
+
+    // PUT /profile/preferences - Actualizar preferencias (requiere autenticación)
+    this.router.put(
+      '/profile/preferences',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      AuthValidations.updatePreferences,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.authController.updatePreferences(req, res).catch(next);
+      },
+    );
+
     // PUT /change-password - Cambiar contraseña (requiere autenticación)
     this.router.put(
       '/change-password',
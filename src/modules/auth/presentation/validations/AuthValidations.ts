@@ -1,4 +1,30 @@
 import { body, param } from 'express-validator';
+import {
+  NotificationChannelEnum,
+  NotificationTypeEnum,
+} from '../../../notifications/domain/entities/Notification';
+import { PreferredLanguageEnum } from '../../domain/entities/UserPreferences';
+
+/**
+ * Verifica que un objeto de interruptores (opt-in) solo tenga claves válidas con valores booleanos
+ * @param value - Objeto recibido
+ * @param allowed - Claves válidas
+ * @param label - Nombre de la clave para el mensaje de error
+ */
+const validateToggles = (value: unknown, allowed: string[], label: string): boolean => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new Error(`${label} preferences must be an object`);
+  }
+  for (const [key, enabled] of Object.entries(value)) {
+    if (!allowed.includes(key)) {
+      throw new Error(`Unknown ${label.toLowerCase()}: ${key}`);
+    }
+    if (typeof enabled !== 'boolean') {
+      throw new Error(`Preference for ${label.toLowerCase()} ${key} must be a boolean`);
+    }
+  }
+  return true;
+};
 
 /**
  * Validaciones para el módulo de autenticación
@@ -99,6 +125,50 @@ export class AuthValidations {
       .withMessage('Profile picture must be a valid URL'),
   ];
 
+  /**
+   * Validación para actualizar las preferencias del usuario autenticado
+   */
+  static updatePreferences = [
+    body('notificationTypes')
+      .optional()
+      .custom((value) =>
+        validateToggles(value, Object.values(NotificationTypeEnum), 'Notification type'),
+      ),
+
+    body('notificationChannels')
+      .optional()
+      .custom((value) =>
+        validateToggles(value, Object.values(NotificationChannelEnum), 'Notification channel'),
+      ),
+
+    body('quietHours')
+      .optional({ nullable: true })
+      .isObject()
+      .withMessage('Quiet hours must be an object with start and end'),
+
+    body('quietHours.start')
+      .if(body('quietHours').exists({ checkNull: true }))
+      .matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Quiet hours start must be in HH:MM format'),
+
+    body('quietHours.end')
+      .if(body('quietHours').exists({ checkNull: true }))
+      .matches(/^([01][0-9]|2[0-3]):[0-5][0-9]$/)
+      .withMessage('Quiet hours end must be in HH:MM format'),
+
+    body('language')
+      .optional()
+      .isIn(Object.values(PreferredLanguageEnum))
+      .withMessage(`Language must be one of: ${Object.values(PreferredLanguageEnum).join(', ')}`),
+
+    body('notes')
+      .optional({ nullable: true })
+      .isString()
+      .withMessage('Notes must be a string')
+      .isLength({ max: 500 })
+      .withMessage('Notes cannot exceed 500 characters'),
+  ];
+
   /**
    * Validación para cambiar la contraseña
    */
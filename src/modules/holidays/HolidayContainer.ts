@@ -11,6 +11,8 @@ import { IAppointmentRepository } from '../appointments/domain/repositories/IApp
 import { IAppointmentStatusRepository } from '../appointments/domain/repositories/IAppointmentStatusRepository';
 import { PrismaAppointmentRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentRepository';
 import { PrismaAppointmentStatusRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentStatusRepository';
+import { PrismaAppointmentEventRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentEventRepository';
+import { AppointmentHistoryService } from '../appointments/domain/services/AppointmentHistoryService';
 
 // Holiday Use Cases
 import { CreateHoliday } from './application/use-cases/CreateHoliday';
@@ -109,12 +111,17 @@ export class HolidayContainer {
     // 2. Repositorios cross-module
     const appointmentRepository: IAppointmentRepository = new PrismaAppointmentRepository(this.prisma);
     const appointmentStatusRepository: IAppointmentStatusRepository = new PrismaAppointmentStatusRepository(this.prisma);
+    const appointmentHistoryService = new AppointmentHistoryService(
+      new PrismaAppointmentEventRepository(this.prisma),
+      appointmentStatusRepository,
+    );
 
     // 3. Inicializar Holiday use cases
     this._createHoliday = new CreateHoliday(
       this._holidayRepository,
       appointmentRepository,
       appointmentStatusRepository,
+      appointmentHistoryService,
     );
     this._getHolidayById = new GetHolidayById(this._holidayRepository);
     this._getHolidays = new GetHolidays(this._holidayRepository);
@@ -1,5 +1,6 @@
 import { IHolidayRepository } from '../../domain/repositories/IHolidayRepository';
 import { parseDateOnlyUTC } from '../../../../shared/utils/dateOnly';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
 
 /**
  * Caso de uso: Verificar si una fecha es feriado
@@ -10,11 +11,12 @@ export class CheckIsHoliday {
 
   /**
    * Ejecuta el caso de uso
-   * @param date - Fecha a verificar (string ISO o Date)
+   * @param date - Fecha a verificar (string YYYY-MM-DD o instante, que se evalúa en el día
+   * local del salón)
    * @returns Objeto con el resultado y datos del feriado si existe
    */
   async execute(date: string | Date): Promise<{ isHoliday: boolean; holidayName?: string }> {
-    const dateToCheck = typeof date === 'string' ? parseDateOnlyUTC(date) : date;
+    const dateToCheck = typeof date === 'string' ? parseDateOnlyUTC(date) : toSalonDate(date);
     
     const holiday = await this.holidayRepository.findByDate(dateToCheck);
 
@@ -4,6 +4,8 @@ import { IHolidayRepository } from '../../domain/repositories/IHolidayRepository
 import { IAppointmentRepository } from '../../../appointments/domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../../appointments/domain/repositories/IAppointmentStatusRepository';
 import { AppointmentStatusEnum } from '../../../appointments/domain/entities/AppointmentStatus';
+import { SYSTEM_ACTOR } from '../../../appointments/domain/entities/AppointmentEvent';
+import { AppointmentHistoryService } from '../../../appointments/domain/services/AppointmentHistoryService';
 import { CreateHolidayDto } from '../dto/request/CreateHolidayDto';
 import { HolidayResponseDto, HolidayResponseMapper } from '../dto/response/HolidayResponseDto';
 import { ConflictError } from '../../../../shared/exceptions/ConflictError';
@@ -20,6 +22,7 @@ export class CreateHoliday {
     private readonly holidayRepository: IHolidayRepository,
     private readonly appointmentRepository: IAppointmentRepository,
     private readonly appointmentStatusRepository: IAppointmentStatusRepository,
+    private readonly appointmentHistoryService: AppointmentHistoryService,
   ) {}
 
   /**
@@ -88,8 +91,15 @@ export class CreateHoliday {
     const activeAppointments = appointments.filter(a => activeStatusIds.includes(a.statusId));
 
     for (const appointment of activeAppointments) {
+      const before = AppointmentHistoryService.snapshot(appointment);
       appointment.markAsCancelled(cancelledStatus.id, 'Holiday created', 'system');
       await this.appointmentRepository.update(appointment);
+      await this.appointmentHistoryService.recordChanges(
+        before,
+        appointment,
+        SYSTEM_ACTOR,
+        'Holiday created',
+      );
     }
   }
 }
@@ -1,4 +1,5 @@
 import { startOfDayUTC } from '../../../../shared/utils/dateOnly';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
 
 /**
  * Interface para las propiedades del feriado
@@ -95,24 +96,23 @@ export class Holiday {
    * Verifica si el feriado ya pasó
    */
   get isPast(): boolean {
-    const today = startOfDayUTC(new Date());
+    const today = toSalonDate(new Date());
     const holidayDate = startOfDayUTC(this._date);
     return holidayDate < today;
   }
 
   /**
-   * Verifica si el feriado es hoy
+   * Verifica si el feriado es hoy (día local del salón)
    */
   get isToday(): boolean {
-    const today = new Date();
-    return this.isOnDate(today);
+    return this.isOnDate(toSalonDate(new Date()));
   }
 
   /**
    * Verifica si el feriado es futuro
    */
   get isFuture(): boolean {
-    const today = startOfDayUTC(new Date());
+    const today = toSalonDate(new Date());
     const holidayDate = startOfDayUTC(this._date);
     return holidayDate > today;
   }
@@ -1,4 +1,5 @@
 import { startOfDayUTC } from '../../../../shared/utils/dateOnly';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
 
 /**
  * Interface para las propiedades de la excepción de horario
@@ -96,24 +97,23 @@ export class ScheduleException {
    * Verifica si la excepción ya pasó
    */
   get isPast(): boolean {
-    const today = startOfDayUTC(new Date());
+    const today = toSalonDate(new Date());
     const exceptionDate = startOfDayUTC(this._exceptionDate);
     return exceptionDate < today;
   }
 
   /**
-   * Verifica si la excepción es hoy
+   * Verifica si la excepción es hoy (día local del salón)
    */
   get isToday(): boolean {
-    const today = new Date();
-    return this.isOnDate(today);
+    return this.isOnDate(toSalonDate(new Date()));
   }
 
   /**
    * Verifica si la excepción es futura
    */
   get isFuture(): boolean {
-    const today = startOfDayUTC(new Date());
+    const today = toSalonDate(new Date());
     const exceptionDate = startOfDayUTC(this._exceptionDate);
     return exceptionDate > today;
   }
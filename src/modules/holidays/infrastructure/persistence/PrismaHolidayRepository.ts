@@ -7,6 +7,7 @@ import {
   PaginatedResult,
 } from '../../domain/repositories/IHolidayRepository';
 import { startOfDayUTC, endOfDayUTC, yearRangeUTC, monthRangeUTC } from '../../../../shared/utils/dateOnly';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
 
 /**
  * Implementación del repositorio de feriados con Prisma
@@ -189,7 +190,7 @@ export class PrismaHolidayRepository implements IHolidayRepository {
    * Busca feriados próximos (futuros)
    */
   async findUpcoming(limit: number = 5): Promise<Holiday[]> {
-    const today = startOfDayUTC(new Date());
+    const today = toSalonDate(new Date());
 
     const holidays = await this.prisma.holiday.findMany({
       where: {
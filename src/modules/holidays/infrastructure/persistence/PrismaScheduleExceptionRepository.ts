@@ -11,6 +11,7 @@ import {
   PaginatedResult,
 } from '../../domain/repositories/IScheduleExceptionRepository';
 import { startOfDayUTC, endOfDayUTC } from '../../../../shared/utils/dateOnly';
+import { toSalonDate } from '../../../../shared/utils/salonTime';
 
 /**
  * Implementación del repositorio de excepciones de horario con Prisma
@@ -182,7 +183,7 @@ export class PrismaScheduleExceptionRepository implements IScheduleExceptionRepo
    * Busca excepciones próximas (futuras)
    */
   async findUpcoming(limit: number = 5): Promise<ScheduleException[]> {
-    const today = startOfDayUTC(new Date());
+    const today = toSalonDate(new Date());
 
     const exceptions = await this.prisma.scheduleException.findMany({
       where: {
@@ -1,14 +1,21 @@
 import { PrismaClient } from '@prisma/client';
+import { env } from '../../shared/config/env';
 
 // Repositories
 import { INotificationRepository } from './domain/repositories/INotificationRepository';
 import { INotificationStatusRepository } from './domain/repositories/INotificationStatusRepository';
+import { IAppointmentReminderRepository } from './domain/repositories/IAppointmentReminderRepository';
 import { PrismaNotificationRepository } from './infrastructure/persistence/PrismaNotificationRepository';
 import { PrismaNotificationStatusRepository } from './infrastructure/persistence/PrismaNotificationStatusRepository';
+import { PrismaAppointmentReminderRepository } from './infrastructure/persistence/PrismaAppointmentReminderRepository';
 
-// Repositorio externo
+// Repositorios externos
 import { IUserRepository } from '../auth/domain/repositories/IUserRepository';
 import { PrismaUserRepository } from '../auth/infrastructure/persistence/PrismaUserRepository';
+import { IAppointmentRepository } from '../appointments/domain/repositories/IAppointmentRepository';
+import { PrismaAppointmentRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentRepository';
+import { IAppointmentStatusRepository } from '../appointments/domain/repositories/IAppointmentStatusRepository';
+import { PrismaAppointmentStatusRepository } from '../appointments/infrastructure/persistence/PrismaAppointmentStatusRepository';
 
 // Use Cases
 import { CreateNotification } from './application/use-cases/CreateNotification';
@@ -17,6 +24,23 @@ import { GetNotificationById } from './application/use-cases/GetNotificationById
 import { MarkNotificationAsRead } from './application/use-cases/MarkNotificationAsRead';
 import { MarkAllNotificationsAsRead } from './application/use-cases/MarkAllNotificationsAsRead';
 import { GetUnreadCount } from './application/use-cases/GetUnreadCount';
+import { SendAppointmentReminders } from './application/use-cases/SendAppointmentReminders';
+import { DispatchPendingNotifications } from './application/use-cases/DispatchPendingNotifications';
+import { GetFailedNotifications } from './application/use-cases/GetFailedNotifications';
+import { RequeueFailedNotifications } from './application/use-cases/RequeueFailedNotifications';
+
+// Canales de entrega
+import { NotificationChannel } from './application/services/NotificationChannel';
+import { NotificationChannelEnum } from './domain/entities/Notification';
+import { SmtpEmailChannel } from './infrastructure/services/SmtpEmailChannel';
+import { FileNotificationChannel } from './infrastructure/services/FileNotificationChannel';
+
+// Jobs
+import { IntervalJob } from '../../shared/jobs/IntervalJob';
+
+// Subscribers
+import { NotificationEventSubscriber } from './application/subscribers/NotificationEventSubscriber';
+import { eventBus } from '../../shared/events/EventBus';
 
 // Presentation
 import { NotificationController } from './presentation/controllers/NotificationController';
@@ -35,6 +59,7 @@ export class NotificationContainer {
   // Repositorios
   private _notificationRepository: INotificationRepository;
   private _notificationStatusRepository: INotificationStatusRepository;
+  private _appointmentReminderRepository: IAppointmentReminderRepository;
 
   // Use Cases
   private _createNotification: CreateNotification;
@@ -43,6 +68,17 @@ export class NotificationContainer {
   private _markNotificationAsRead: MarkNotificationAsRead;
   private _getUnreadCount: GetUnreadCount;
   private _markAllNotificationsAsRead: MarkAllNotificationsAsRead;
+  private _sendAppointmentReminders: SendAppointmentReminders;
+  private _dispatchPendingNotifications: DispatchPendingNotifications;
+  private _getFailedNotifications: GetFailedNotifications;
+  private _requeueFailedNotifications: RequeueFailedNotifications;
+
+  // Jobs
+  private _appointmentReminderJob: IntervalJob;
+  private _notificationDispatchJob: IntervalJob;
+
+  // Subscribers
+  private _notificationEventSubscriber: NotificationEventSubscriber;
 
   // Presentation
   private _notificationController: NotificationController;
@@ -78,15 +114,24 @@ export class NotificationContainer {
   /**
    * Configura todas las dependencias del módulo de notificaciones
    * @private
-   * @description Inyecta dependencias siguiendo el orden: repositories -> use cases -> controllers -> routes
+   * @description Inyecta dependencias siguiendo el orden: repositories -> channels -> use cases -> jobs -> subscribers -> controllers -> routes
    */
   private setupDependencies(): void {
     // 1. Inicializar repositorios
     this._notificationRepository = new PrismaNotificationRepository(this.prisma);
     this._notificationStatusRepository = new PrismaNotificationStatusRepository(this.prisma);
+    this._appointmentReminderRepository = new PrismaAppointmentReminderRepository(this.prisma);
     const userRepository: IUserRepository = new PrismaUserRepository(this.prisma);
+    const appointmentRepository: IAppointmentRepository = new PrismaAppointmentRepository(
+      this.prisma,
+    );
+    const appointmentStatusRepository: IAppointmentStatusRepository =
+      new PrismaAppointmentStatusRepository(this.prisma);
+
+    // 2. Inicializar canales de entrega
+    const channels: NotificationChannel[] = [this.createEmailChannel()];
 
-    // 2. Inicializar use cases
+    // 3. Inicializar use cases
     this._createNotification = new CreateNotification(
       this._notificationRepository,
       this._notificationStatusRepository,
@@ -115,7 +160,56 @@ export class NotificationContainer {
       this._notificationStatusRepository,
     );
 
-    // 3. Inicializar controller
+    this._sendAppointmentReminders = new SendAppointmentReminders(
+      appointmentRepository,
+      appointmentStatusRepository,
+      this._appointmentReminderRepository,
+      userRepository,
+      this._createNotification,
+      env.APPOINTMENT_REMINDER_OFFSETS_MINUTES,
+    );
+
+    this._dispatchPendingNotifications = new DispatchPendingNotifications(
+      this._notificationRepository,
+      this._notificationStatusRepository,
+      userRepository,
+      channels,
+      env.NOTIFICATION_MAX_ATTEMPTS,
+      env.NOTIFICATION_RETRY_BASE_MINUTES,
+    );
+
+    this._getFailedNotifications = new GetFailedNotifications(
+      this._notificationRepository,
+      this._notificationStatusRepository,
+    );
+
+    this._requeueFailedNotifications = new RequeueFailedNotifications(
+      this._notificationRepository,
+      this._notificationStatusRepository,
+    );
+
+    // 4. Inicializar los jobs de recordatorios y de entrega (los inicia el servidor)
+    this._appointmentReminderJob = new IntervalJob(
+      'Appointment reminders',
+      env.APPOINTMENT_REMINDER_INTERVAL_MINUTES,
+      () => this._sendAppointmentReminders.execute(),
+    );
+
+    this._notificationDispatchJob = new IntervalJob(
+      'Notification dispatch',
+      env.NOTIFICATION_DISPATCH_INTERVAL_MINUTES,
+      () => this._dispatchPendingNotifications.execute(),
+    );
+
+    // 5. Suscribir la generación de notificaciones a los eventos de dominio
+    this._notificationEventSubscriber = new NotificationEventSubscriber(
+      this._createNotification,
+      userRepository,
+      appointmentRepository,
+    );
+    this._notificationEventSubscriber.register(eventBus);
+
+    // 6. Inicializar controller
     this._notificationController = new NotificationController(
       this._createNotification,
       this._getUserNotifications,
@@ -123,15 +217,39 @@ export class NotificationContainer {
       this._markNotificationAsRead,
       this._getUnreadCount,
       this._markAllNotificationsAsRead,
+      this._getFailedNotifications,
+      this._requeueFailedNotifications,
     );
 
-    // 4. Inicializar routes
+    // 7. Inicializar routes
     this._notificationRoutes = new NotificationRoutes(
       this._notificationController,
       this.authMiddleware,
     );
   }
 
+  /**
+   * Crea el adaptador del canal de email según MAIL_TRANSPORT
+   * @private
+   * @returns SMTP en producción; archivo o log en desarrollo y tests
+   */
+  private createEmailChannel(): NotificationChannel {
+    switch (env.MAIL_TRANSPORT) {
+      case 'smtp':
+        return SmtpEmailChannel.fromConfig({
+          host: env.MAIL_HOST!,
+          port: env.MAIL_PORT,
+          user: env.MAIL_USER,
+          password: env.MAIL_PASSWORD,
+          from: env.MAIL_FROM,
+        });
+      case 'file':
+        return new FileNotificationChannel(NotificationChannelEnum.EMAIL, env.MAIL_FILE_PATH);
+      default:
+        return new FileNotificationChannel(NotificationChannelEnum.EMAIL);
+    }
+  }
+
   // =====================
   // GETTERS - PRESENTATION
   // =====================
@@ -152,6 +270,23 @@ export class NotificationContainer {
     return this._notificationController;
   }
 
+  /**
+   * Obtiene el job de recordatorios de citas configurado
+   * @returns Job que ejecuta SendAppointmentReminders, para iniciarlo/detenerlo desde el servidor
+   */
+  get appointmentReminderJob(): IntervalJob {
+    return this._appointmentReminderJob;
+  }
+
+  /**
+   * Obtiene el job de entrega de notificaciones configurado
+   * @returns Job que ejecuta DispatchPendingNotifications, para iniciarlo/detenerlo desde el
+   * servidor
+   */
+  get notificationDispatchJob(): IntervalJob {
+    return this._notificationDispatchJob;
+  }
+
   // =====================
   // GETTERS - USE CASES
   // =====================
@@ -204,6 +339,46 @@ export class NotificationContainer {
     return this._markAllNotificationsAsRead;
   }
 
+  /**
+   * Obtiene el caso de uso que envía los recordatorios de citas
+   * @returns Instancia del use case SendAppointmentReminders
+   */
+  get sendAppointmentReminders(): SendAppointmentReminders {
+    return this._sendAppointmentReminders;
+  }
+
+  /**
+   * Obtiene el caso de uso que entrega las notificaciones pendientes
+   * @returns Instancia del use case DispatchPendingNotifications
+   */
+  get dispatchPendingNotifications(): DispatchPendingNotifications {
+    return this._dispatchPendingNotifications;
+  }
+
+  /**
+   * Obtiene el caso de uso que lista las notificaciones FAILED
+   * @returns Instancia del use case GetFailedNotifications
+   */
+  get getFailedNotifications(): GetFailedNotifications {
+    return this._getFailedNotifications;
+  }
+
+  /**
+   * Obtiene el caso de uso que reencola notificaciones FAILED
+   * @returns Instancia del use case RequeueFailedNotifications
+   */
+  get requeueFailedNotifications(): RequeueFailedNotifications {
+    return this._requeueFailedNotifications;
+  }
+
+  /**
+   * Obtiene el suscriptor que genera notificaciones a partir de eventos de dominio
+   * @returns Instancia de NotificationEventSubscriber
+   */
+  get notificationEventSubscriber(): NotificationEventSubscriber {
+    return this._notificationEventSubscriber;
+  }
+
   // =====================
   // GETTERS - REPOSITORIES
   // =====================
@@ -223,4 +398,12 @@ export class NotificationContainer {
   get notificationStatusRepository(): INotificationStatusRepository {
     return this._notificationStatusRepository;
   }
+
+  /**
+   * Obtiene el repositorio de recordatorios de citas enviados
+   * @returns Instancia del repositorio de recordatorios
+   */
+  get appointmentReminderRepository(): IAppointmentReminderRepository {
+    return this._appointmentReminderRepository;
+  }
 }
@@ -0,0 +1,16 @@
+/**
+ * DTO para listar las notificaciones que agotaron sus intentos de entrega
+ * @description Filtros de la cola de notificaciones FAILED (solo administradores)
+ */
+export interface GetFailedNotificationsFilterDto {
+  /**
+   * ID del usuario destinatario para filtrar notificaciones
+   */
+  userId?: string;
+
+  /**
+   * Cantidad máxima de notificaciones a devolver
+   * @default 50
+   */
+  limit?: number;
+}
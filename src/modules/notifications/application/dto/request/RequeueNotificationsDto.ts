@@ -0,0 +1,15 @@
+/**
+ * DTO para volver a encolar notificaciones FAILED
+ * @description Se reencolan las notificaciones indicadas y/o todas las FAILED de un usuario
+ */
+export interface RequeueNotificationsDto {
+  /**
+   * IDs de las notificaciones FAILED a reencolar
+   */
+  notificationIds?: string[];
+
+  /**
+   * ID del usuario cuyas notificaciones FAILED se reencolan
+   */
+  userId?: string;
+}
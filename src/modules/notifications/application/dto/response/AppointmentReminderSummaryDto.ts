@@ -0,0 +1,11 @@
+/**
+ * Resumen de una ejecución del envío de recordatorios de citas
+ */
+export interface AppointmentReminderSummaryDto {
+  startedAt: string; // ISO string
+  finishedAt: string; // ISO string
+  /** Recordatorios enviados (uno por cita, aunque se hayan cumplido varias anticipaciones) */
+  sentCount: number;
+  /** Recordatorios cuyo envío falló; se reintentan en la próxima ejecución */
+  failedCount: number;
+}
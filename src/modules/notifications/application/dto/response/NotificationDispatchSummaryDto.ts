@@ -0,0 +1,17 @@
+/**
+ * Resumen de una ejecución de la entrega de notificaciones pendientes
+ */
+export interface NotificationDispatchSummaryDto {
+  startedAt: string; // ISO string
+  finishedAt: string; // ISO string
+  /** Notificaciones entregadas por al menos un canal, ahora SENT */
+  sentCount: number;
+  /** Notificaciones que fallaron y siguen PENDING con un reintento programado */
+  retriedCount: number;
+  /** Notificaciones que agotaron sus intentos (o no tienen a quién entregarse), ahora FAILED */
+  failedCount: number;
+  /** Notificaciones postergadas hasta el fin de la franja de silencio del destinatario */
+  deferredCount: number;
+  /** Notificaciones marcadas SENT sin entrega externa porque el destinatario no quiere ese tipo o canales */
+  skippedCount: number;
+}
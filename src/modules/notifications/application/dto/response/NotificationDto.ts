@@ -54,6 +54,22 @@ export interface NotificationDto {
   isRead?: boolean;
 }
 
+/**
+ * DTO de respuesta para una notificación que agotó sus intentos de entrega
+ */
+export interface FailedNotificationDto extends NotificationDto {
+  /**
+   * Intentos de entrega fallidos
+   */
+  attempts: number;
+
+  /**
+   * Motivo del último intento fallido
+   * @example 'EMAIL: Connection timeout'
+   */
+  lastError?: string;
+}
+
 /**
  * DTO de respuesta para lista paginada de notificaciones
  */
@@ -0,0 +1,37 @@
+import {
+  NotificationChannelEnum,
+  NotificationTypeEnum,
+} from '../../domain/entities/Notification';
+
+/**
+ * Datos de una notificación lista para entregar por un canal
+ */
+export interface NotificationDelivery {
+  notificationId: string;
+  type: NotificationTypeEnum;
+  subject: string;
+  body: string;
+  recipient: {
+    userId: string;
+    name: string;
+    email: string;
+  };
+}
+
+/**
+ * Interfaz para los adaptadores de entrega de notificaciones
+ * Cada adaptador entrega por un único canal; puede haber varios adaptadores para el mismo canal
+ * (p. ej. email por SMTP en producción y a un archivo en desarrollo)
+ */
+export interface NotificationChannel {
+  /** Canal que implementa el adaptador */
+  readonly channel: NotificationChannelEnum;
+
+  /**
+   * Entrega una notificación al destinatario
+   * @param delivery - Notificación a entregar
+   * @returns Promise que resuelve cuando el canal aceptó la notificación
+   * @throws Error si la entrega falla
+   */
+  send(delivery: NotificationDelivery): Promise<void>;
+}
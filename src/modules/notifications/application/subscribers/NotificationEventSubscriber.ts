@@ -0,0 +1,224 @@
+import { NotificationTypeEnum } from '../../domain/entities/Notification';
+import { CreateNotification } from '../use-cases/CreateNotification';
+import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
+import { LocalizedText } from '../../../auth/domain/entities/UserPreferences';
+import { IAppointmentRepository } from '../../../appointments/domain/repositories/IAppointmentRepository';
+import {
+  AppointmentCancelledEvent,
+  AppointmentConfirmedEvent,
+  AppointmentRescheduledEvent,
+} from '../../../appointments/domain/events/AppointmentDomainEvents';
+import { PaymentRefundedEvent } from '../../../payments/domain/events/PaymentRefundedEvent';
+import { EventBus } from '../../../../shared/events/EventBus';
+import { toSalonDateString, toSalonTimeString } from '../../../../shared/utils/salonTime';
+
+/**
+ * Suscriptor que genera notificaciones a partir de los eventos de dominio
+ * @description Crea las notificaciones in-app (vía `CreateNotification`) para el cliente y el
+ * estilista de la cita cuando se confirma, cancela o reprograma, y para el cliente cuando se le
+ * reembolsa un pago. No se notifica a quien ejecutó la acción, a usuarios inexistentes o
+ * desactivados, ni a quienes no quieren recibir ese tipo de notificación. El mensaje se genera en
+ * el idioma preferido del destinatario.
+ */
+export class NotificationEventSubscriber {
+  constructor(
+    private createNotification: CreateNotification,
+    private userRepository: IUserRepository,
+    private appointmentRepository: IAppointmentRepository,
+  ) {}
+
+  /**
+   * Suscribe los handlers al bus de eventos
+   * @param eventBus - Bus de eventos de dominio
+   */
+  register(eventBus: EventBus): void {
+    eventBus.subscribe<AppointmentConfirmedEvent>(AppointmentConfirmedEvent.EVENT_NAME, (event) =>
+      this.onAppointmentConfirmed(event),
+    );
+    eventBus.subscribe<AppointmentCancelledEvent>(AppointmentCancelledEvent.EVENT_NAME, (event) =>
+      this.onAppointmentCancelled(event),
+    );
+    eventBus.subscribe<AppointmentRescheduledEvent>(
+      AppointmentRescheduledEvent.EVENT_NAME,
+      (event) => this.onAppointmentRescheduled(event),
+    );
+    eventBus.subscribe<PaymentRefundedEvent>(PaymentRefundedEvent.EVENT_NAME, (event) =>
+      this.onPaymentRefunded(event),
+    );
+  }
+
+  /**
+   * Notifica la confirmación al cliente y al estilista
+   */
+  async onAppointmentConfirmed(event: AppointmentConfirmedEvent): Promise<void> {
+    const when = this.formatDateTime(event.dateTime);
+    const type = NotificationTypeEnum.APPOINTMENT_CONFIRMATION;
+
+    await this.notify(
+      event.clientId,
+      type,
+      {
+        en: `Your appointment on ${when.en} has been confirmed.`,
+        es: `Tu cita del ${when.es} fue confirmada.`,
+      },
+      event.actor.id,
+    );
+    await this.notify(
+      event.stylistId,
+      type,
+      {
+        en: `The appointment on ${when.en} assigned to you has been confirmed.`,
+        es: `La cita del ${when.es} a tu cargo fue confirmada.`,
+      },
+      event.actor.id,
+    );
+  }
+
+  /**
+   * Notifica la cancelación al cliente y al estilista, con el motivo si lo hay
+   */
+  async onAppointmentCancelled(event: AppointmentCancelledEvent): Promise<void> {
+    const when = this.formatDateTime(event.dateTime);
+    const reason = this.formatReason(event.reason);
+    const type = NotificationTypeEnum.APPOINTMENT_CANCELLATION;
+
+    await this.notify(
+      event.clientId,
+      type,
+      {
+        en: `Your appointment on ${when.en} has been cancelled.${reason.en}`,
+        es: `Tu cita del ${when.es} fue cancelada.${reason.es}`,
+      },
+      event.actor.id,
+    );
+    await this.notify(
+      event.stylistId,
+      type,
+      {
+        en: `The appointment on ${when.en} assigned to you has been cancelled.${reason.en}`,
+        es: `La cita del ${when.es} a tu cargo fue cancelada.${reason.es}`,
+      },
+      event.actor.id,
+    );
+  }
+
+  /**
+   * Notifica la reprogramación al cliente y al estilista; si cambió el estilista, también avisa
+   * al anterior que la cita ya no está a su cargo
+   */
+  async onAppointmentRescheduled(event: AppointmentRescheduledEvent): Promise<void> {
+    const previous = this.formatDateTime(event.previousDateTime);
+    const current = this.formatDateTime(event.dateTime);
+    const type = NotificationTypeEnum.APPOINTMENT_RESCHEDULED;
+    const stylistChanged = event.previousStylistId !== event.stylistId;
+
+    await this.notify(
+      event.clientId,
+      type,
+      previous.en === current.en
+        ? {
+            en: `Your appointment on ${current.en} was reassigned to a different stylist.`,
+            es: `Tu cita del ${current.es} fue reasignada a otro estilista.`,
+          }
+        : {
+            en:
+              `Your appointment on ${previous.en} was moved to ${current.en}` +
+              (stylistChanged ? ' with a different stylist.' : '.'),
+            es:
+              `Tu cita del ${previous.es} fue movida al ${current.es}` +
+              (stylistChanged ? ' con otro estilista.' : '.'),
+          },
+      event.actor.id,
+    );
+
+    if (stylistChanged) {
+      await this.notify(
+        event.previousStylistId,
+        type,
+        {
+          en: `The appointment on ${previous.en} was reassigned to another stylist.`,
+          es: `La cita del ${previous.es} fue reasignada a otro estilista.`,
+        },
+        event.actor.id,
+      );
+      await this.notify(
+        event.stylistId,
+        type,
+        {
+          en: `An appointment on ${current.en} has been assigned to you.`,
+          es: `Se te asignó una cita el ${current.es}.`,
+        },
+        event.actor.id,
+      );
+    } else {
+      await this.notify(
+        event.stylistId,
+        type,
+        {
+          en: `The appointment on ${previous.en} assigned to you was moved to ${current.en}.`,
+          es: `La cita del ${previous.es} a tu cargo fue movida al ${current.es}.`,
+        },
+        event.actor.id,
+      );
+    }
+  }
+
+  /**
+   * Notifica el reembolso al cliente de la cita
+   */
+  async onPaymentRefunded(event: PaymentRefundedEvent): Promise<void> {
+    const appointment = await this.appointmentRepository.findById(event.appointmentId);
+    const reason = this.formatReason(event.reason);
+    const amount = event.amount.toFixed(2);
+
+    await this.notify(appointment?.clientId, NotificationTypeEnum.SYSTEM, {
+      en: `Your payment of ${amount} has been refunded.${reason.en}`,
+      es: `Se te reembolsó el pago de ${amount}.${reason.es}`,
+    });
+  }
+
+  /**
+   * Crea una notificación para un usuario activo que quiere recibir ese tipo
+   * @param userId - Destinatario (se ignora si no hay)
+   * @param type - Tipo de notificación
+   * @param message - Mensaje en cada idioma; se usa el preferido por el destinatario
+   * @param actorId - Quién ejecutó la acción (no se le notifica)
+   */
+  private async notify(
+    userId: string | undefined,
+    type: NotificationTypeEnum,
+    message: LocalizedText,
+    actorId?: string,
+  ): Promise<void> {
+    if (!userId || userId === actorId) return;
+
+    const user = await this.userRepository.findById(userId);
+    if (!user?.isActive) return;
+
+    const preferences = user.getPreferences();
+    if (!preferences.allowsType(type)) return;
+
+    await this.createNotification.execute({
+      type,
+      message: message[preferences.language],
+      userId,
+    });
+  }
+
+  /**
+   * Formatea un instante en la hora local del salón ("YYYY-MM-DD at HH:MM" en inglés,
+   * "YYYY-MM-DD a las HH:MM" en español)
+   */
+  private formatDateTime(dateTime: Date): LocalizedText {
+    const date = toSalonDateString(dateTime);
+    const time = toSalonTimeString(dateTime);
+    return { en: `${date} at ${time}`, es: `${date} a las ${time}` };
+  }
+
+  /**
+   * Formatea el motivo opcional que se agrega al final del mensaje
+   */
+  private formatReason(reason?: string): LocalizedText {
+    return reason ? { en: ` Reason: ${reason}`, es: ` Motivo: ${reason}` } : { en: '', es: '' };
+  }
+}
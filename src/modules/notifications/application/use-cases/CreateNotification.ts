@@ -7,6 +7,7 @@ import { CreateNotificationDto } from '../dto/request/CreateNotificationDto';
 import { NotificationDto } from '../dto/response/NotificationDto';
 import { ValidationError } from '../../../../shared/exceptions/ValidationError';
 import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
 import { assertValidUuid } from '../../../../shared/utils/validateUuid';
 
 /**
@@ -26,16 +27,20 @@ export class CreateNotification {
    * @returns Promise con el DTO de la notificación creada
    * @throws ValidationError si los datos no son válidos
    * @throws NotFoundError si el estado inicial no existe
+   * @throws BusinessRuleError si el destinatario no quiere recibir ese tipo de notificación
    */
   async execute(dto: CreateNotificationDto): Promise<NotificationDto> {
     // 1. Validar datos de entrada
     this.validateInput(dto);
 
-    // 2. Verificar que el usuario destinatario existe
-    const userExists = await this.userRepository.findById(dto.userId);
-    if (!userExists) {
+    // 2. Verificar que el usuario destinatario existe y quiere recibir ese tipo
+    const user = await this.userRepository.findById(dto.userId);
+    if (!user) {
       throw new NotFoundError('User', dto.userId);
     }
+    if (!user.getPreferences().allowsType(dto.type)) {
+      throw new BusinessRuleError(`User has opted out of ${dto.type} notifications`);
+    }
 
     // 3. Obtener el estado inicial (PENDING)
     const pendingStatus = await this.getPendingStatus();
@@ -0,0 +1,268 @@
+import { Notification, NotificationTypeEnum } from '../../domain/entities/Notification';
+import {
+  NotificationStatus,
+  NotificationStatusEnum,
+} from '../../domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../domain/repositories/INotificationStatusRepository';
+import { NotificationChannel } from '../services/NotificationChannel';
+import { NotificationDispatchSummaryDto } from '../dto/response/NotificationDispatchSummaryDto';
+import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
+import { User } from '../../../auth/domain/entities/User';
+import { PreferredLanguageEnum } from '../../../auth/domain/entities/UserPreferences';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { logger } from '../../../../shared/logger/logger';
+
+/**
+ * Asunto con el que se entrega cada tipo de notificación, según el idioma del destinatario
+ */
+const SUBJECTS: Record<PreferredLanguageEnum, Record<NotificationTypeEnum, string>> = {
+  [PreferredLanguageEnum.EN]: {
+    [NotificationTypeEnum.APPOINTMENT_CONFIRMATION]: 'Your appointment is confirmed',
+    [NotificationTypeEnum.APPOINTMENT_REMINDER]: 'Appointment reminder',
+    [NotificationTypeEnum.APPOINTMENT_CANCELLATION]: 'Your appointment was cancelled',
+    [NotificationTypeEnum.APPOINTMENT_RESCHEDULED]: 'Your appointment was rescheduled',
+    [NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE]: 'A slot is available',
+    [NotificationTypeEnum.PROMOTIONAL]: 'News from Turnity',
+    [NotificationTypeEnum.SYSTEM]: 'Turnity notice',
+  },
+  [PreferredLanguageEnum.ES]: {
+    [NotificationTypeEnum.APPOINTMENT_CONFIRMATION]: 'Tu cita está confirmada',
+    [NotificationTypeEnum.APPOINTMENT_REMINDER]: 'Recordatorio de cita',
+    [NotificationTypeEnum.APPOINTMENT_CANCELLATION]: 'Tu cita fue cancelada',
+    [NotificationTypeEnum.APPOINTMENT_RESCHEDULED]: 'Tu cita fue reprogramada',
+    [NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE]: 'Hay un turno disponible',
+    [NotificationTypeEnum.PROMOTIONAL]: 'Novedades de Turnity',
+    [NotificationTypeEnum.SYSTEM]: 'Aviso de Turnity',
+  },
+};
+
+/**
+ * Resultado del procesamiento de una notificación en una ejecución
+ */
+type DispatchOutcome = 'sent' | 'skipped' | 'deferred' | 'retried' | 'failed';
+
+/**
+ * Caso de uso que entrega las notificaciones PENDING por los canales configurados
+ * - Se procesan en orden de creación, hasta `batchSize` por ejecución, salteando las que tienen
+ *   un reintento programado para más adelante
+ * - Pasa a SENT (con `sentAt`) si al menos un canal la entregó
+ * - Si fallaron todos los canales, suma un intento y guarda el error: sigue PENDING con el
+ *   reintento programado con backoff exponencial (`retryBaseMinutes`, el doble, el cuádruple...)
+ *   hasta llegar a `maxAttempts`, donde pasa a FAILED. Si el destinatario no existe o está
+ *   desactivado pasa a FAILED sin reintentos
+ * - Respeta las preferencias del destinatario: solo usa los canales que habilitó, la omite si no
+ *   quiere ese tipo o no tiene canales habilitados (pasa a SENT sin `sentAt`: sale de la cola sin
+ *   entrega externa y sigue visible en la app), posterga la entrega hasta el
+ *   fin de su franja de silencio sin contar un intento y usa el asunto en su idioma
+ *
+ * Una notificación que falla no detiene la ejecución. Las FAILED solo vuelven a la cola si un
+ * administrador las reencola.
+ */
+export class DispatchPendingNotifications {
+  /** Máximo de notificaciones procesadas por ejecución */
+  static readonly DEFAULT_BATCH_SIZE = 50;
+  /** Intentos de entrega antes de dar una notificación por FAILED */
+  static readonly DEFAULT_MAX_ATTEMPTS = 5;
+  /** Espera antes del primer reintento; se duplica en cada uno de los siguientes */
+  static readonly DEFAULT_RETRY_BASE_MINUTES = 1;
+
+  constructor(
+    private notificationRepository: INotificationRepository,
+    private notificationStatusRepository: INotificationStatusRepository,
+    private userRepository: IUserRepository,
+    private channels: NotificationChannel[],
+    private maxAttempts: number = DispatchPendingNotifications.DEFAULT_MAX_ATTEMPTS,
+    private retryBaseMinutes: number = DispatchPendingNotifications.DEFAULT_RETRY_BASE_MINUTES,
+    private batchSize: number = DispatchPendingNotifications.DEFAULT_BATCH_SIZE,
+  ) {}
+
+  /**
+   * Ejecuta la entrega de las notificaciones pendientes
+   * @param now - Instante de referencia (por defecto, el actual)
+   * @returns Promise con el resumen de la ejecución
+   * @throws NotFoundError si faltan los estados PENDING, SENT o FAILED
+   */
+  async execute(now: Date = new Date()): Promise<NotificationDispatchSummaryDto> {
+    const startedAt = new Date();
+
+    // 1. Obtener los estados involucrados
+    const [pendingStatus, sentStatus, failedStatus] = await Promise.all([
+      this.getStatus(NotificationStatusEnum.PENDING),
+      this.getStatus(NotificationStatusEnum.SENT),
+      this.getStatus(NotificationStatusEnum.FAILED),
+    ]);
+
+    // 2. Obtener las notificaciones pendientes más antiguas que ya se pueden intentar
+    const pending = await this.notificationRepository.findByStatusId(
+      pendingStatus.id,
+      this.batchSize,
+      now,
+    );
+
+    // 3. Procesar cada una y registrar el resultado
+    const counts: Record<DispatchOutcome, number> = {
+      sent: 0,
+      skipped: 0,
+      deferred: 0,
+      retried: 0,
+      failed: 0,
+    };
+    for (const notification of pending) {
+      // Un error al procesar o guardar una notificación (p. ej. al leer su destinatario) no detiene
+      // la ejecución: la notificación sigue PENDING y se vuelve a intentar en la siguiente
+      try {
+        const outcome = await this.dispatch(notification, now, sentStatus.id, failedStatus.id);
+        await this.notificationRepository.update(notification);
+        counts[outcome]++;
+      } catch (error) {
+        logger.error('Notification could not be dispatched', {
+          notificationId: notification.id,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (pending.length > 0) {
+      logger.info('Notifications dispatched', counts);
+    }
+
+    return {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      sentCount: counts.sent,
+      retriedCount: counts.retried,
+      failedCount: counts.failed,
+      deferredCount: counts.deferred,
+      skippedCount: counts.skipped,
+    };
+  }
+
+  /**
+   * Procesa una notificación pendiente según las preferencias de su destinatario
+   * @param notification - Notificación a procesar (se modifica en memoria)
+   * @param now - Instante de referencia
+   * @param sentStatusId - ID del estado SENT
+   * @param failedStatusId - ID del estado FAILED
+   * @returns Promise con el resultado del procesamiento
+   */
+  private async dispatch(
+    notification: Notification,
+    now: Date,
+    sentStatusId: string,
+    failedStatusId: string,
+  ): Promise<DispatchOutcome> {
+    const recipient = await this.userRepository.findById(notification.userId);
+    if (!recipient?.isActive) {
+      logger.warn('Notification not delivered: recipient not found or inactive', {
+        notificationId: notification.id,
+        userId: notification.userId,
+      });
+      notification.recordFailedAttempt('Recipient not found or inactive');
+      notification.updateStatus(failedStatusId);
+      return 'failed';
+    }
+
+    const preferences = recipient.getPreferences();
+    const channels = this.channels.filter((channel) => preferences.allowsChannel(channel.channel));
+    if (
+      !preferences.allowsType(notification.type) ||
+      (this.channels.length > 0 && channels.length === 0)
+    ) {
+      notification.markAsSkipped();
+      notification.updateStatus(sentStatusId);
+      return 'skipped';
+    }
+
+    const quietHoursEnd = preferences.quietHoursEndAfter(now);
+    if (quietHoursEnd) {
+      notification.deferUntil(quietHoursEnd);
+      return 'deferred';
+    }
+
+    const failure = await this.deliver(notification, recipient, channels, preferences.language);
+    if (!failure) {
+      notification.markAsSent();
+      notification.updateStatus(sentStatusId);
+      return 'sent';
+    }
+
+    if (notification.attempts + 1 < this.maxAttempts) {
+      notification.recordFailedAttempt(
+        failure,
+        this.getNextAttemptAt(notification.attempts + 1, now),
+      );
+      return 'retried';
+    }
+
+    notification.recordFailedAttempt(failure);
+    notification.updateStatus(failedStatusId);
+    return 'failed';
+  }
+
+  /**
+   * Entrega una notificación por los canales indicados
+   * @param notification - Notificación a entregar
+   * @param recipient - Destinatario activo
+   * @param channels - Canales habilitados por el destinatario
+   * @param language - Idioma del asunto
+   * @returns Promise con null si al menos un canal la entregó, o el motivo del fallo
+   */
+  private async deliver(
+    notification: Notification,
+    recipient: User,
+    channels: NotificationChannel[],
+    language: PreferredLanguageEnum,
+  ): Promise<string | null> {
+    let delivered = false;
+    const errors: string[] = [];
+    for (const channel of channels) {
+      try {
+        await channel.send({
+          notificationId: notification.id,
+          type: notification.type,
+          subject: SUBJECTS[language][notification.type],
+          body: notification.message,
+          recipient: { userId: recipient.id, name: recipient.name, email: recipient.email },
+        });
+        delivered = true;
+      } catch (error) {
+        errors.push(`${channel.channel}: ${(error as Error).message}`);
+        logger.warn('Notification channel failed', {
+          notificationId: notification.id,
+          channel: channel.channel,
+          error: (error as Error).message,
+        });
+      }
+    }
+
+    if (delivered) return null;
+
+    return errors.join('; ') || 'No delivery channel configured';
+  }
+
+  /**
+   * Calcula cuándo reintentar una entrega con backoff exponencial
+   * @param attempts - Intentos fallidos contando el actual
+   * @param now - Instante de referencia
+   * @returns Fecha del próximo intento
+   */
+  private getNextAttemptAt(attempts: number, now: Date): Date {
+    const delayMinutes = this.retryBaseMinutes * 2 ** (attempts - 1);
+    return new Date(now.getTime() + delayMinutes * 60000);
+  }
+
+  /**
+   * Obtiene un estado de notificación por nombre
+   * @param name - Nombre del estado
+   * @returns Promise con el estado
+   * @throws NotFoundError si el estado no existe
+   */
+  private async getStatus(name: NotificationStatusEnum): Promise<NotificationStatus> {
+    const status = await this.notificationStatusRepository.findByName(name);
+    if (!status) {
+      throw new NotFoundError('NotificationStatus', name);
+    }
+    return status;
+  }
+}
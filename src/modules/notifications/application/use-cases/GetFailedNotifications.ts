@@ -0,0 +1,89 @@
+import { Notification } from '../../domain/entities/Notification';
+import { NotificationStatusEnum } from '../../domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../domain/repositories/INotificationStatusRepository';
+import { GetFailedNotificationsFilterDto } from '../dto/request/GetFailedNotificationsFilterDto';
+import { FailedNotificationDto } from '../dto/response/NotificationDto';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para listar las notificaciones que agotaron sus intentos de entrega (solo admin)
+ * @description Devuelve las notificaciones FAILED, de la más antigua a la más nueva, con la
+ * cantidad de intentos y el último error, para decidir cuáles reencolar
+ */
+export class GetFailedNotifications {
+  /** Cantidad de notificaciones devueltas si no se indica un límite */
+  static readonly DEFAULT_LIMIT = 50;
+
+  constructor(
+    private notificationRepository: INotificationRepository,
+    private notificationStatusRepository: INotificationStatusRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para listar las notificaciones FAILED
+   * @param filters - Filtros opcionales: destinatario y límite
+   * @returns Promise con las notificaciones FAILED
+   * @throws ValidationError si los filtros no son válidos
+   * @throws NotFoundError si no existe el estado FAILED
+   */
+  async execute(filters: GetFailedNotificationsFilterDto = {}): Promise<FailedNotificationDto[]> {
+    // 1. Validar filtros
+    const limit = filters.limit ?? GetFailedNotifications.DEFAULT_LIMIT;
+    this.validateFilters(filters.userId, limit);
+
+    // 2. Obtener el estado FAILED
+    const failedStatus = await this.notificationStatusRepository.findByName(
+      NotificationStatusEnum.FAILED,
+    );
+    if (!failedStatus) {
+      throw new NotFoundError('NotificationStatus', NotificationStatusEnum.FAILED);
+    }
+
+    // 3. Buscar las notificaciones FAILED, de un usuario o de todos
+    const notifications = filters.userId
+      ? (await this.notificationRepository.findByUserIdAndStatus(filters.userId, failedStatus.id))
+          .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+          .slice(0, limit)
+      : await this.notificationRepository.findByStatusId(failedStatus.id, limit);
+
+    return notifications.map((notification) => this.mapToDto(notification));
+  }
+
+  /**
+   * Valida los filtros de la consulta
+   * @param userId - ID del destinatario (opcional)
+   * @param limit - Cantidad máxima de resultados
+   * @throws ValidationError si algún filtro no es válido
+   */
+  private validateFilters(userId: string | undefined, limit: number): void {
+    if (userId !== undefined) {
+      assertValidUuid(userId, 'User ID');
+    }
+
+    if (!Number.isInteger(limit) || limit < 1 || limit > 100) {
+      throw new ValidationError('Limit must be between 1 and 100');
+    }
+  }
+
+  /**
+   * Mapea una entidad Notification a su DTO de respuesta
+   * @param notification - Entidad de notificación
+   * @returns DTO de notificación FAILED
+   */
+  private mapToDto(notification: Notification): FailedNotificationDto {
+    return {
+      id: notification.id,
+      type: notification.type,
+      message: notification.message,
+      userId: notification.userId,
+      statusId: notification.statusId,
+      sentAt: notification.sentAt?.toISOString(),
+      createdAt: notification.createdAt.toISOString(),
+      attempts: notification.attempts,
+      lastError: notification.lastError,
+    };
+  }
+}
@@ -0,0 +1,107 @@
+import { NotificationStatusEnum } from '../../domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../domain/repositories/INotificationStatusRepository';
+import { RequeueNotificationsDto } from '../dto/request/RequeueNotificationsDto';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
+import { assertValidUuid } from '../../../../shared/utils/validateUuid';
+
+/**
+ * Caso de uso para volver a encolar notificaciones FAILED (solo admin)
+ * @description Las notificaciones vuelven a PENDING con los intentos reiniciados, así la
+ * entrega periódica las retoma en su próxima ejecución como si fueran nuevas
+ */
+export class RequeueFailedNotifications {
+  constructor(
+    private notificationRepository: INotificationRepository,
+    private notificationStatusRepository: INotificationStatusRepository,
+  ) {}
+
+  /**
+   * Ejecuta el caso de uso para reencolar notificaciones FAILED
+   * @param dto - IDs de notificaciones y/o usuario cuyas notificaciones FAILED se reencolan
+   * @returns Promise con el número de notificaciones reencoladas
+   * @throws ValidationError si los datos no son válidos
+   * @throws NotFoundError si alguna notificación o estado no existe
+   * @throws BusinessRuleError si alguna notificación indicada no está FAILED
+   */
+  async execute(dto: RequeueNotificationsDto): Promise<{ requeuedCount: number }> {
+    // 1. Validar datos de entrada
+    this.validateInput(dto);
+
+    // 2. Obtener los estados FAILED y PENDING
+    const failedStatusId = await this.getStatusId(NotificationStatusEnum.FAILED);
+    const pendingStatusId = await this.getStatusId(NotificationStatusEnum.PENDING);
+
+    // 3. Reunir las notificaciones a reencolar
+    const ids = new Set<string>();
+    for (const id of dto.notificationIds ?? []) {
+      const notification = await this.notificationRepository.findById(id);
+      if (!notification) {
+        throw new NotFoundError('Notification', id);
+      }
+      if (notification.statusId !== failedStatusId) {
+        throw new BusinessRuleError(`Notification ${id} is not FAILED and cannot be requeued`);
+      }
+      ids.add(id);
+    }
+    if (dto.userId) {
+      const failed = await this.notificationRepository.findByUserIdAndStatus(
+        dto.userId,
+        failedStatusId,
+      );
+      failed.forEach((notification) => ids.add(notification.id));
+    }
+
+    if (ids.size === 0) {
+      return { requeuedCount: 0 };
+    }
+
+    // 4. Reiniciar los intentos y devolverlas a PENDING. Los intentos se reinician antes del
+    // cambio de estado para que la entrega nunca tome una notificación con intentos agotados
+    await this.notificationRepository.resetDeliveryAttempts([...ids]);
+    const requeuedCount = await this.notificationRepository.updateManyStatus(
+      [...ids],
+      pendingStatusId,
+    );
+
+    return { requeuedCount };
+  }
+
+  /**
+   * Valida los datos de entrada
+   * @param dto - DTO a validar
+   * @throws ValidationError si los datos son inválidos
+   */
+  private validateInput(dto: RequeueNotificationsDto): void {
+    const hasNotificationIds = dto.notificationIds && dto.notificationIds.length > 0;
+    if (!hasNotificationIds && !dto.userId) {
+      throw new ValidationError(
+        'At least one notification ID or a user ID is required (use notificationIds or userId)',
+      );
+    }
+
+    dto.notificationIds?.forEach((id, index) => {
+      assertValidUuid(id, `Notification ID at index ${index}`);
+    });
+
+    if (dto.userId) {
+      assertValidUuid(dto.userId, 'User ID');
+    }
+  }
+
+  /**
+   * Obtiene el ID de un estado de notificación por nombre
+   * @param name - Nombre del estado
+   * @returns Promise con el ID del estado
+   * @throws NotFoundError si el estado no existe
+   */
+  private async getStatusId(name: NotificationStatusEnum): Promise<string> {
+    const status = await this.notificationStatusRepository.findByName(name);
+    if (!status) {
+      throw new NotFoundError('NotificationStatus', name);
+    }
+    return status.id;
+  }
+}
@@ -0,0 +1,202 @@
+import { NotificationTypeEnum } from '../../domain/entities/Notification';
+import { AppointmentReminder } from '../../domain/entities/AppointmentReminder';
+import { IAppointmentReminderRepository } from '../../domain/repositories/IAppointmentReminderRepository';
+import { CreateNotification } from './CreateNotification';
+import { AppointmentReminderSummaryDto } from '../dto/response/AppointmentReminderSummaryDto';
+import { IUserRepository } from '../../../auth/domain/repositories/IUserRepository';
+import { PreferredLanguageEnum } from '../../../auth/domain/entities/UserPreferences';
+import { Appointment } from '../../../appointments/domain/entities/Appointment';
+import { AppointmentStatusEnum } from '../../../appointments/domain/entities/AppointmentStatus';
+import { IAppointmentRepository } from '../../../appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../appointments/domain/repositories/IAppointmentStatusRepository';
+import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
+import { logger } from '../../../../shared/logger/logger';
+import { toSalonDateString, toSalonTimeString } from '../../../../shared/utils/salonTime';
+
+/**
+ * Caso de uso que envía los recordatorios de las próximas citas a sus clientes
+ * - Solo citas PENDING o CONFIRMED que todavía no empezaron
+ * - Un recordatorio se cumple cuando faltan `offsetMinutes` o menos para la cita. Si la cita se
+ *   reservó cuando ya faltaba menos que eso, ese recordatorio no aplica
+ * - Cada recordatorio enviado se registra en `AppointmentReminder`, así no se repite entre
+ *   ejecuciones ni tras reiniciar el servidor. Si se cumplieron varios a la vez (p. ej. el
+ *   servidor estuvo detenido), se envía una sola notificación y se registran todos
+ * - No se envían a clientes que desactivaron los recordatorios; el mensaje va en su idioma
+ *
+ * Un recordatorio que falla no detiene la ejecución: se libera su registro y se reintenta en la
+ * próxima.
+ */
+export class SendAppointmentReminders {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private appointmentStatusRepository: IAppointmentStatusRepository,
+    private appointmentReminderRepository: IAppointmentReminderRepository,
+    private userRepository: IUserRepository,
+    private createNotification: CreateNotification,
+    private offsetsMinutes: number[],
+  ) {}
+
+  /**
+   * Ejecuta el envío de los recordatorios cumplidos
+   * @param now - Instante de referencia (por defecto, el actual)
+   * @returns Promise con el resumen de la ejecución
+   * @throws NotFoundError si faltan los estados PENDING o CONFIRMED
+   */
+  async execute(now: Date = new Date()): Promise<AppointmentReminderSummaryDto> {
+    const startedAt = new Date();
+    let sentCount = 0;
+    let failedCount = 0;
+
+    // 1. Citas activas que empiezan dentro de la mayor anticipación configurada
+    const appointments = await this.findUpcomingAppointments(now);
+
+    // 2. Recordatorios ya enviados de esas citas
+    const sent = await this.appointmentReminderRepository.findByAppointmentIds(
+      appointments.map((appointment) => appointment.id),
+    );
+
+    // 3. Enviar el recordatorio de cada cita que tenga alguno cumplido y sin enviar
+    for (const appointment of appointments) {
+      const dueOffsets = this.getDueOffsets(appointment, sent, now);
+      if (dueOffsets.length === 0) continue;
+
+      try {
+        if (await this.sendReminder(appointment, dueOffsets, now)) {
+          sentCount++;
+        }
+      } catch (error) {
+        failedCount++;
+        logger.warn('Appointment reminder could not be sent', {
+          appointmentId: appointment.id,
+          reason: (error as Error).message,
+        });
+      }
+    }
+
+    if (sentCount > 0 || failedCount > 0) {
+      logger.info('Appointment reminders sent', { sentCount, failedCount });
+    }
+
+    return {
+      startedAt: startedAt.toISOString(),
+      finishedAt: new Date().toISOString(),
+      sentCount,
+      failedCount,
+    };
+  }
+
+  /**
+   * Busca las citas PENDING o CONFIRMED que empiezan entre ahora y la mayor anticipación
+   * @param now - Instante de referencia
+   * @returns Promise con las citas candidatas
+   */
+  private async findUpcomingAppointments(now: Date): Promise<Appointment[]> {
+    if (this.offsetsMinutes.length === 0) return [];
+
+    const activeStatusIds = await Promise.all([
+      this.getStatusId(AppointmentStatusEnum.PENDING),
+      this.getStatusId(AppointmentStatusEnum.CONFIRMED),
+    ]);
+
+    const windowEnd = new Date(now.getTime() + Math.max(...this.offsetsMinutes) * 60000);
+    const appointments = await this.appointmentRepository.findByDateRange(now, windowEnd);
+
+    return appointments.filter(
+      (appointment) => activeStatusIds.includes(appointment.statusId) && appointment.dateTime > now,
+    );
+  }
+
+  /**
+   * Calcula las anticipaciones cumplidas de una cita que todavía no se enviaron
+   * @param appointment - Cita
+   * @param sent - Recordatorios ya registrados
+   * @param now - Instante de referencia
+   * @returns Anticipaciones pendientes de enviar, de menor a mayor
+   */
+  private getDueOffsets(
+    appointment: Appointment,
+    sent: AppointmentReminder[],
+    now: Date,
+  ): number[] {
+    return this.offsetsMinutes
+      .filter((offset) => {
+        const remindAt = appointment.dateTime.getTime() - offset * 60000;
+        return (
+          remindAt <= now.getTime() &&
+          remindAt >= appointment.createdAt.getTime() &&
+          !sent.some((reminder) => reminder.matches(appointment.id, appointment.dateTime, offset))
+        );
+      })
+      .sort((a, b) => a - b);
+  }
+
+  /**
+   * Registra los recordatorios cumplidos de una cita y notifica a su cliente
+   * @param appointment - Cita
+   * @param dueOffsets - Anticipaciones cumplidas y sin enviar, de menor a mayor
+   * @param now - Instante de referencia
+   * @returns Promise con true si se envió la notificación, false si no correspondía (cliente
+   * inactivo, sin recordatorios habilitados u otra ejecución ya lo registró)
+   */
+  private async sendReminder(
+    appointment: Appointment,
+    dueOffsets: number[],
+    now: Date,
+  ): Promise<boolean> {
+    const client = await this.userRepository.findById(appointment.clientId);
+    if (!client?.isActive) return false;
+
+    const preferences = client.getPreferences();
+    if (!preferences.allowsType(NotificationTypeEnum.APPOINTMENT_REMINDER)) return false;
+
+    // El recordatorio más cercano a la cita decide quién envía: si otra ejecución ya lo
+    // registró, esa se encarga
+    const reminders = dueOffsets.map((offset) =>
+      AppointmentReminder.create(appointment.id, appointment.dateTime, offset, now),
+    );
+    if (!(await this.appointmentReminderRepository.claim(reminders[0]))) return false;
+
+    const date = toSalonDateString(appointment.dateTime);
+    const time = toSalonTimeString(appointment.dateTime);
+    const message =
+      preferences.language === PreferredLanguageEnum.ES
+        ? `Recordatorio: tienes una cita el ${date} a las ${time}.`
+        : `Reminder: you have an appointment on ${date} at ${time}.`;
+    const claimed = [reminders[0]];
+    try {
+      for (const reminder of reminders.slice(1)) {
+        if (await this.appointmentReminderRepository.claim(reminder)) {
+          claimed.push(reminder);
+        }
+      }
+
+      await this.createNotification.execute({
+        type: NotificationTypeEnum.APPOINTMENT_REMINDER,
+        message,
+        userId: appointment.clientId,
+      });
+    } catch (error) {
+      // Liberar los registros para reintentar el recordatorio en la próxima ejecución
+      for (const reminder of claimed) {
+        await this.appointmentReminderRepository.delete(reminder.id);
+      }
+      throw error;
+    }
+
+    return true;
+  }
+
+  /**
+   * Obtiene el ID de un estado de cita por nombre
+   * @param name - Nombre del estado
+   * @returns Promise con el ID del estado
+   * @throws NotFoundError si el estado no existe
+   */
+  private async getStatusId(name: AppointmentStatusEnum): Promise<string> {
+    const status = await this.appointmentStatusRepository.findByName(name);
+    if (!status) {
+      throw new NotFoundError('AppointmentStatus', name);
+    }
+    return status.id;
+  }
+}
@@ -0,0 +1,104 @@
+import { generateUuid } from '../../../../shared/utils/uuid';
+import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+
+/**
+ * Entidad de dominio que registra un recordatorio ya enviado de una cita
+ * @description Hay uno por cita, horario de la cita y anticipación (`offsetMinutes`). Guarda el
+ * horario de la cita al momento del envío: si la cita se reprograma, los recordatorios del nuevo
+ * horario son registros distintos y se vuelven a enviar.
+ */
+export class AppointmentReminder {
+  constructor(
+    public id: string,
+    public appointmentId: string,
+    public dateTime: Date,
+    public offsetMinutes: number,
+    public sentAt: Date = new Date(),
+  ) {
+    this.validate();
+  }
+
+  /**
+   * Crea el registro de un recordatorio enviado
+   * @param appointmentId - ID de la cita
+   * @param dateTime - Horario de la cita
+   * @param offsetMinutes - Anticipación del recordatorio en minutos
+   * @param now - Momento del envío
+   * @returns Nueva instancia de AppointmentReminder
+   * @throws ValidationError si los datos no son válidos
+   */
+  static create(
+    appointmentId: string,
+    dateTime: Date,
+    offsetMinutes: number,
+    now: Date = new Date(),
+  ): AppointmentReminder {
+    return new AppointmentReminder(generateUuid(), appointmentId, dateTime, offsetMinutes, now);
+  }
+
+  /**
+   * Reconstruye la entidad desde la base de datos
+   * @param data - Datos persistidos
+   * @returns Instancia de AppointmentReminder
+   */
+  static fromPersistence(data: {
+    id: string;
+    appointmentId: string;
+    dateTime: Date;
+    offsetMinutes: number;
+    sentAt: Date;
+  }): AppointmentReminder {
+    return new AppointmentReminder(
+      data.id,
+      data.appointmentId,
+      data.dateTime,
+      data.offsetMinutes,
+      data.sentAt,
+    );
+  }
+
+  /**
+   * Indica si este registro corresponde a un recordatorio de la cita en su horario actual
+   * @param appointmentId - ID de la cita
+   * @param dateTime - Horario actual de la cita
+   * @param offsetMinutes - Anticipación del recordatorio
+   */
+  matches(appointmentId: string, dateTime: Date, offsetMinutes: number): boolean {
+    return (
+      this.appointmentId === appointmentId &&
+      this.dateTime.getTime() === dateTime.getTime() &&
+      this.offsetMinutes === offsetMinutes
+    );
+  }
+
+  /**
+   * Ejecuta todas las validaciones necesarias para el registro
+   * @throws ValidationError si alguna validación falla
+   */
+  private validate(): void {
+    if (!this.appointmentId || this.appointmentId.trim().length === 0) {
+      throw new ValidationError('Appointment ID is required');
+    }
+
+    if (!(this.dateTime instanceof Date) || isNaN(this.dateTime.getTime())) {
+      throw new ValidationError('Invalid appointment date');
+    }
+
+    if (!Number.isInteger(this.offsetMinutes) || this.offsetMinutes <= 0) {
+      throw new ValidationError('Reminder offset must be a positive number of minutes');
+    }
+  }
+
+  /**
+   * Convierte la entidad al formato de persistencia
+   */
+  toPersistence() {
+    return {
+      id: this.id,
+      appointmentId: this.appointmentId,
+      dateTime: this.dateTime,
+      offsetMinutes: this.offsetMinutes,
+      sentAt: this.sentAt,
+    };
+  }
+}
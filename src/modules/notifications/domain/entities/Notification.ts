@@ -12,12 +12,24 @@ export enum NotificationTypeEnum {
   APPOINTMENT_REMINDER = 'APPOINTMENT_REMINDER',
   /** Notificación de cancelación de cita */
   APPOINTMENT_CANCELLATION = 'APPOINTMENT_CANCELLATION',
+  /** Aviso de cambio de fecha/hora o de estilista de una cita */
+  APPOINTMENT_RESCHEDULED = 'APPOINTMENT_RESCHEDULED',
+  /** Aviso a un cliente en lista de espera de que se liberó un turno */
+  WAITLIST_SLOT_AVAILABLE = 'WAITLIST_SLOT_AVAILABLE',
   /** Notificación promocional */
   PROMOTIONAL = 'PROMOTIONAL',
   /** Notificación del sistema */
   SYSTEM = 'SYSTEM',
 }
 
+/**
+ * Canales por los que se puede entregar una notificación fuera de la aplicación
+ */
+export enum NotificationChannelEnum {
+  /** Correo electrónico al email del usuario */
+  EMAIL = 'EMAIL',
+}
+
 /**
  * Propiedades requeridas para crear una notificación
  */
@@ -29,6 +41,9 @@ interface NotificationProps {
   statusId: string;
   sentAt?: Date;
   createdAt?: Date;
+  attempts?: number;
+  lastError?: string;
+  nextAttemptAt?: Date;
 }
 
 /**
@@ -37,6 +52,9 @@ interface NotificationProps {
  * confirmaciones de citas, recordatorios, cancelaciones y mensajes promocionales
  */
 export class Notification {
+  /** Largo máximo guardado del motivo de un fallo de entrega */
+  static readonly MAX_ERROR_LENGTH = 1000;
+
   public readonly id: string;
   public type: NotificationTypeEnum;
   public message: string;
@@ -44,6 +62,12 @@ export class Notification {
   public statusId: string;
   public sentAt?: Date;
   public readonly createdAt: Date;
+  /** Intentos de entrega fallidos */
+  public attempts: number;
+  /** Motivo del último intento de entrega fallido */
+  public lastError?: string;
+  /** A partir de cuándo se puede reintentar la entrega (sin valor: de inmediato) */
+  public nextAttemptAt?: Date;
 
   constructor(props: NotificationProps) {
     this.id = props.id || generateUuid();
@@ -53,6 +77,9 @@ export class Notification {
     this.statusId = props.statusId;
     this.sentAt = props.sentAt;
     this.createdAt = props.createdAt || new Date();
+    this.attempts = props.attempts ?? 0;
+    this.lastError = props.lastError;
+    this.nextAttemptAt = props.nextAttemptAt;
 
     this.validate();
   }
@@ -93,6 +120,9 @@ export class Notification {
     statusId: string;
     sentAt: Date | null;
     createdAt: Date;
+    attempts?: number;
+    lastError?: string | null;
+    nextAttemptAt?: Date | null;
   }): Notification {
     return new Notification({
       id: data.id,
@@ -102,6 +132,9 @@ export class Notification {
       statusId: data.statusId,
       sentAt: data.sentAt || undefined,
       createdAt: data.createdAt,
+      attempts: data.attempts,
+      lastError: data.lastError || undefined,
+      nextAttemptAt: data.nextAttemptAt || undefined,
     });
   }
 
@@ -135,14 +168,47 @@ export class Notification {
     if (!this.statusId || this.statusId.trim().length === 0) {
       throw new ValidationError('Status ID is required for notification');
     }
+
+    if (!Number.isInteger(this.attempts) || this.attempts < 0) {
+      throw new ValidationError('Notification attempts must be a non-negative integer');
+    }
   }
 
   /**
    * Marca la notificación como enviada
-   * @description Establece la fecha de envío al momento actual
+   * @description Establece la fecha de envío al momento actual y descarta el reintento programado
    */
   markAsSent(): void {
     this.sentAt = new Date();
+    this.nextAttemptAt = undefined;
+  }
+
+  /**
+   * Marca la notificación como omitida: sale de la cola sin entrega externa
+   * @description No establece la fecha de envío (`sentAt` sigue en null) y descarta el reintento
+   * programado
+   */
+  markAsSkipped(): void {
+    this.nextAttemptAt = undefined;
+  }
+
+  /**
+   * Registra un intento de entrega fallido
+   * @param error - Motivo del fallo
+   * @param nextAttemptAt - Cuándo reintentar; sin valor si no se va a reintentar
+   */
+  recordFailedAttempt(error: string, nextAttemptAt?: Date): void {
+    this.attempts++;
+    this.lastError = error.slice(0, Notification.MAX_ERROR_LENGTH);
+    this.nextAttemptAt = nextAttemptAt;
+  }
+
+  /**
+   * Posterga la entrega sin contar un intento (p. ej. por la franja de silencio del destinatario)
+   * @param nextAttemptAt - Desde cuándo se puede volver a intentar
+   */
+  deferUntil(nextAttemptAt: Date): void {
+    this.nextAttemptAt = nextAttemptAt;
   }
 
   /**
@@ -166,13 +232,16 @@ export class Notification {
 
   /**
    * Verifica si la notificación es de tipo relacionado con citas
-   * @returns true si es una notificación de cita (confirmación, recordatorio, cancelación)
+   * @returns true si es una notificación de cita (confirmación, recordatorio, cancelación,
+   * reprogramación o turno liberado para la lista de espera)
    */
   isAppointmentRelated(): boolean {
     return [
       NotificationTypeEnum.APPOINTMENT_CONFIRMATION,
       NotificationTypeEnum.APPOINTMENT_REMINDER,
       NotificationTypeEnum.APPOINTMENT_CANCELLATION,
+      NotificationTypeEnum.APPOINTMENT_RESCHEDULED,
+      NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE,
     ].includes(this.type);
   }
 
@@ -189,6 +258,9 @@ export class Notification {
       statusId: this.statusId,
       sentAt: this.sentAt || null,
       createdAt: this.createdAt,
+      attempts: this.attempts,
+      lastError: this.lastError || null,
+      nextAttemptAt: this.nextAttemptAt || null,
     };
   }
 }
@@ -0,0 +1,28 @@
+import { AppointmentReminder } from '../entities/AppointmentReminder';
+
+/**
+ * Interfaz del repositorio de recordatorios de citas ya enviados
+ */
+export interface IAppointmentReminderRepository {
+  /**
+   * Obtiene los recordatorios enviados de un conjunto de citas
+   * @param appointmentIds - IDs de las citas
+   * @returns Promise con los recordatorios registrados (de cualquier horario de esas citas)
+   */
+  findByAppointmentIds(appointmentIds: string[]): Promise<AppointmentReminder[]>;
+
+  /**
+   * Registra un recordatorio como enviado si todavía no lo estaba
+   * @description Es atómico: de dos ejecuciones que registran el mismo recordatorio a la vez, solo
+   * una lo consigue, así que solo esa debe enviarlo
+   * @param reminder - Recordatorio a registrar
+   * @returns Promise con true si se registró, false si ya estaba registrado
+   */
+  claim(reminder: AppointmentReminder): Promise<boolean>;
+
+  /**
+   * Elimina el registro de un recordatorio (p. ej. si su envío falló, para reintentarlo)
+   * @param id - ID del registro
+   */
+  delete(id: string): Promise<void>;
+}
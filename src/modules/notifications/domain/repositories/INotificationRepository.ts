@@ -53,6 +53,15 @@ export interface INotificationRepository {
    */
   countUnreadByUserId(userId: string, unreadStatusId: string): Promise<number>;
 
+  /**
+   * Obtiene las notificaciones de todos los usuarios con un estado, de la más antigua a la más nueva
+   * @param statusId - ID del estado
+   * @param limit - Cantidad máxima de resultados
+   * @param dueAt - Si se indica, solo las que no tienen un reintento programado después de ese instante
+   * @returns Promise con array de notificaciones en ese estado
+   */
+  findByStatusId(statusId: string, limit: number, dueAt?: Date): Promise<Notification[]>;
+
   /**
    * Obtiene todas las notificaciones del sistema
    * @returns Promise con array de todas las notificaciones
@@ -88,6 +97,14 @@ export interface INotificationRepository {
    */
   updateManyStatus(ids: string[], newStatusId: string): Promise<number>;
 
+  /**
+   * Reinicia los intentos de entrega de múltiples notificaciones (contador, último error y
+   * reintento programado)
+   * @param ids - Array de IDs de notificaciones a reiniciar
+   * @returns Promise con el número de notificaciones actualizadas
+   */
+  resetDeliveryAttempts(ids: string[]): Promise<number>;
+
   /**
    * Elimina una notificación por su ID
    * @param id - ID único de la notificación a eliminar
@@ -0,0 +1,53 @@
+import { PrismaClient } from '@prisma/client';
+import { AppointmentReminder } from '../../domain/entities/AppointmentReminder';
+import { IAppointmentReminderRepository } from '../../domain/repositories/IAppointmentReminderRepository';
+
+/**
+ * Implementación de IAppointmentReminderRepository usando Prisma ORM
+ * @description La unicidad (cita, horario, anticipación) la garantiza el índice único de la tabla
+ */
+export class PrismaAppointmentReminderRepository implements IAppointmentReminderRepository {
+  /**
+   * Constructor que inyecta el cliente Prisma
+   * @param prisma - Cliente Prisma para acceso a base de datos
+   */
+  constructor(private prisma: PrismaClient) {}
+
+  /**
+   * Obtiene los recordatorios enviados de un conjunto de citas
+   * @param appointmentIds - IDs de las citas
+   * @returns Promise con los recordatorios registrados
+   */
+  async findByAppointmentIds(appointmentIds: string[]): Promise<AppointmentReminder[]> {
+    if (appointmentIds.length === 0) return [];
+
+    const reminders = await this.prisma.appointmentReminder.findMany({
+      where: { appointmentId: { in: appointmentIds } },
+    });
+
+    return reminders.map((reminder) => AppointmentReminder.fromPersistence(reminder));
+  }
+
+  /**
+   * Registra un recordatorio como enviado si todavía no lo estaba
+   * @param reminder - Recordatorio a registrar
+   * @returns Promise con true si se registró, false si ya estaba registrado
+   */
+  async claim(reminder: AppointmentReminder): Promise<boolean> {
+    // skipDuplicates convierte la violación del índice único en un insert vacío
+    const { count } = await this.prisma.appointmentReminder.createMany({
+      data: [reminder.toPersistence()],
+      skipDuplicates: true,
+    });
+
+    return count === 1;
+  }
+
+  /**
+   * Elimina el registro de un recordatorio
+   * @param id - ID del registro
+   */
+  async delete(id: string): Promise<void> {
+    await this.prisma.appointmentReminder.deleteMany({ where: { id } });
+  }
+}
@@ -111,6 +111,26 @@ export class PrismaNotificationRepository implements INotificationRepository {
     });
   }
 
+  /**
+   * Obtiene las notificaciones de todos los usuarios con un estado, de la más antigua a la más nueva
+   * @param statusId - ID del estado
+   * @param limit - Cantidad máxima de resultados
+   * @param dueAt - Si se indica, solo las que no tienen un reintento programado después de ese instante
+   * @returns Promise con array de notificaciones en ese estado
+   */
+  async findByStatusId(statusId: string, limit: number, dueAt?: Date): Promise<Notification[]> {
+    const notifications = await this.prisma.notification.findMany({
+      where: {
+        statusId,
+        ...(dueAt && { OR: [{ nextAttemptAt: null }, { nextAttemptAt: { lte: dueAt } }] }),
+      },
+      orderBy: { createdAt: 'asc' },
+      take: limit,
+    });
+
+    return notifications.map(n => this.mapToDomain(n));
+  }
+
   /**
    * Obtiene todas las notificaciones del sistema
    * @returns Promise con array de todas las notificaciones
@@ -140,6 +160,9 @@ export class PrismaNotificationRepository implements INotificationRepository {
         statusId: data.statusId,
         sentAt: data.sentAt,
         createdAt: data.createdAt,
+        attempts: data.attempts,
+        lastError: data.lastError,
+        nextAttemptAt: data.nextAttemptAt,
       },
     });
 
@@ -162,6 +185,9 @@ export class PrismaNotificationRepository implements INotificationRepository {
         statusId: persistence.statusId,
         sentAt: persistence.sentAt,
         createdAt: persistence.createdAt,
+        attempts: persistence.attempts,
+        lastError: persistence.lastError,
+        nextAttemptAt: persistence.nextAttemptAt,
       };
     });
 
@@ -192,6 +218,9 @@ export class PrismaNotificationRepository implements INotificationRepository {
         message: data.message,
         statusId: data.statusId,
         sentAt: data.sentAt,
+        attempts: data.attempts,
+        lastError: data.lastError,
+        nextAttemptAt: data.nextAttemptAt,
       },
     });
 
@@ -217,6 +246,26 @@ export class PrismaNotificationRepository implements INotificationRepository {
     return result.count;
   }
 
+  /**
+   * Reinicia los intentos de entrega de múltiples notificaciones
+   * @param ids - Array de IDs de notificaciones a reiniciar
+   * @returns Promise con el número de notificaciones actualizadas
+   */
+  async resetDeliveryAttempts(ids: string[]): Promise<number> {
+    const result = await this.prisma.notification.updateMany({
+      where: {
+        id: { in: ids },
+      },
+      data: {
+        attempts: 0,
+        lastError: null,
+        nextAttemptAt: null,
+      },
+    });
+
+    return result.count;
+  }
+
   /**
    * Elimina una notificación por su ID
    * @param id - ID único de la notificación a eliminar
@@ -350,6 +399,9 @@ export class PrismaNotificationRepository implements INotificationRepository {
     statusId: string;
     sentAt: Date | null;
     createdAt: Date;
+    attempts: number;
+    lastError: string | null;
+    nextAttemptAt: Date | null;
   }): Notification {
     return Notification.fromPersistence({
       id: prismaNotification.id,
@@ -359,6 +411,9 @@ export class PrismaNotificationRepository implements INotificationRepository {
       statusId: prismaNotification.statusId,
       sentAt: prismaNotification.sentAt,
       createdAt: prismaNotification.createdAt,
+      attempts: prismaNotification.attempts,
+      lastError: prismaNotification.lastError,
+      nextAttemptAt: prismaNotification.nextAttemptAt,
     });
   }
 }
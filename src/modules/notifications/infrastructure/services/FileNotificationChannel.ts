@@ -0,0 +1,40 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  NotificationChannel,
+  NotificationDelivery,
+} from '../../application/services/NotificationChannel';
+import { NotificationChannelEnum } from '../../domain/entities/Notification';
+import { logger } from '../../../../shared/logger/logger';
+
+/**
+ * Implementación de un canal que no entrega nada: registra cada notificación en un archivo
+ * (una línea JSON por notificación) o, sin archivo, en el log de la aplicación
+ * @description Para desarrollo local y tests, en lugar de un proveedor real
+ */
+export class FileNotificationChannel implements NotificationChannel {
+  /**
+   * @param channel - Canal al que reemplaza
+   * @param filePath - Archivo donde se agregan las notificaciones (opcional; sin él, se usa el log)
+   */
+  constructor(
+    readonly channel: NotificationChannelEnum,
+    private filePath?: string,
+  ) {}
+
+  /**
+   * Registra la notificación en el archivo o en el log
+   * @param delivery - Notificación a entregar
+   */
+  async send(delivery: NotificationDelivery): Promise<void> {
+    const entry = { channel: this.channel, deliveredAt: new Date().toISOString(), ...delivery };
+
+    if (!this.filePath) {
+      logger.info('Notification delivered', entry);
+      return;
+    }
+
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(entry)}\n`);
+  }
+}
@@ -0,0 +1,64 @@
+import nodemailer, { Transporter } from 'nodemailer';
+import {
+  NotificationChannel,
+  NotificationDelivery,
+} from '../../application/services/NotificationChannel';
+import { NotificationChannelEnum } from '../../domain/entities/Notification';
+
+/**
+ * Configuración del servidor SMTP
+ */
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+/**
+ * Implementación del canal de email usando un servidor SMTP (nodemailer)
+ */
+export class SmtpEmailChannel implements NotificationChannel {
+  readonly channel = NotificationChannelEnum.EMAIL;
+
+  /**
+   * @param transporter - Transporte de nodemailer ya configurado
+   * @param from - Remitente de los emails
+   */
+  constructor(
+    private transporter: Transporter,
+    private from: string,
+  ) {}
+
+  /**
+   * Crea el canal a partir de la configuración SMTP
+   * @param config - Configuración del servidor SMTP
+   * @returns Instancia de SmtpEmailChannel
+   * @description El puerto 465 usa TLS implícito; el resto negocia STARTTLS si el servidor lo ofrece
+   */
+  static fromConfig(config: SmtpConfig): SmtpEmailChannel {
+    const transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.port === 465,
+      auth: config.user ? { user: config.user, pass: config.password } : undefined,
+    });
+
+    return new SmtpEmailChannel(transporter, config.from);
+  }
+
+  /**
+   * Envía la notificación como email de texto plano
+   * @param delivery - Notificación a entregar
+   * @throws Error si el servidor SMTP rechaza el envío
+   */
+  async send(delivery: NotificationDelivery): Promise<void> {
+    await this.transporter.sendMail({
+      from: this.from,
+      to: { name: delivery.recipient.name, address: delivery.recipient.email },
+      subject: delivery.subject,
+      text: delivery.body,
+    });
+  }
+}
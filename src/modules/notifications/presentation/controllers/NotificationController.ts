@@ -5,6 +5,8 @@ import { GetNotificationById } from '../../application/use-cases/GetNotification
 import { MarkNotificationAsRead } from '../../application/use-cases/MarkNotificationAsRead';
 import { MarkAllNotificationsAsRead } from '../../application/use-cases/MarkAllNotificationsAsRead';
 import { GetUnreadCount } from '../../application/use-cases/GetUnreadCount';
+import { GetFailedNotifications } from '../../application/use-cases/GetFailedNotifications';
+import { RequeueFailedNotifications } from '../../application/use-cases/RequeueFailedNotifications';
 import { NotificationTypeEnum } from '../../domain/entities/Notification';
 import { AuthenticatedRequest } from '../../../auth/presentation/middleware/AuthMiddleware';
 import { UnauthorizedError } from '../../../../shared/exceptions/UnauthorizedError';
@@ -22,6 +24,8 @@ export class NotificationController {
     private _markNotificationAsRead: MarkNotificationAsRead,
     private _getUnreadCount: GetUnreadCount,
     private _markAllNotificationsAsRead: MarkAllNotificationsAsRead,
+    private _getFailedNotifications: GetFailedNotifications,
+    private _requeueFailedNotifications: RequeueFailedNotifications,
   ) {}
 
   /**
@@ -211,4 +215,49 @@ export class NotificationController {
       message: 'Unread count retrieved successfully',
     });
   }
+
+  /**
+   * Lista las notificaciones que agotaron sus intentos de entrega (solo admin)
+   * @route GET /notifications/failed
+   * @param req - Request autenticado con filtros opcionales (userId, limit) en query params
+   * @param res - Response de Express
+   * @returns Promise con las notificaciones FAILED, con intentos y último error
+   * @responseStatus 200 - Notificaciones obtenidas exitosamente
+   * @throws ValidationError si los filtros no son válidos
+   */
+  async getFailed(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    const userId = req.query.userId as string | undefined;
+    const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+    const notifications = await this._getFailedNotifications.execute({ userId, limit });
+
+    return res.status(200).json({
+      success: true,
+      data: notifications,
+      message: 'Failed notifications retrieved successfully',
+    });
+  }
+
+  /**
+   * Vuelve a encolar notificaciones FAILED para un nuevo ciclo de entrega (solo admin)
+   * @route POST /notifications/failed/requeue
+   * @param req - Request autenticado con notificationIds y/o userId en el body
+   * @param res - Response de Express
+   * @returns Promise con el conteo de notificaciones reencoladas
+   * @responseStatus 200 - Notificaciones reencoladas exitosamente
+   * @throws ValidationError si los datos no son válidos
+   * @throws NotFoundError si alguna notificación no existe
+   * @throws BusinessRuleError si alguna notificación indicada no está FAILED
+   */
+  async requeueFailed(req: AuthenticatedRequest, res: Response): Promise<Response> {
+    const { notificationIds, userId } = req.body;
+
+    const result = await this._requeueFailedNotifications.execute({ notificationIds, userId });
+
+    return res.status(200).json({
+      success: true,
+      data: result,
+      message: 'Notifications requeued successfully',
+    });
+  }
 }
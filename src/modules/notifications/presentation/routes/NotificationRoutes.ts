@@ -29,6 +29,8 @@ export class NotificationRoutes {
    * - POST /notifications/mark-read - Marcar como leídas (autenticado)
    * - POST /notifications/mark-all-read - Marcar todas como leídas (autenticado)
    * - PATCH /notifications/:id/read - Marcar una como leída (autenticado)
+   * - GET /notifications/failed - Listar las que agotaron sus intentos de entrega (admin only)
+   * - POST /notifications/failed/requeue - Reencolar notificaciones FAILED (admin only)
    */
   private setupRoutes(): void {
     // ==========================================
@@ -91,6 +93,30 @@ export class NotificationRoutes {
       },
     );
 
+    // GET /failed - Notificaciones que agotaron sus intentos de entrega (solo admin)
+    this.router.get(
+      '/failed',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      NotificationValidations.getFailedNotifications,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.notificationController.getFailed(req, res).catch(next);
+      },
+    );
+
+    // POST /failed/requeue - Reencolar notificaciones FAILED (solo admin)
+    this.router.post(
+      '/failed/requeue',
+      this.authMiddleware.authenticate.bind(this.authMiddleware),
+      this.authMiddleware.authorize(['ADMIN']),
+      NotificationValidations.requeueFailedNotifications,
+      ValidationMiddleware.handleValidationErrors,
+      (req: Request, res: Response, next: NextFunction) => {
+        this.notificationController.requeueFailed(req, res).catch(next);
+      },
+    );
+
     // ==========================================
     // RUTAS CON PARÁMETROS DINÁMICOS - AL FINAL
     // ==========================================
@@ -94,4 +94,39 @@ export class NotificationValidations {
         `Invalid notification type. Must be one of: ${Object.values(NotificationTypeEnum).join(', ')}`,
       ),
   ];
+
+  /**
+   * Validación para listar las notificaciones FAILED
+   */
+  static getFailedNotifications = [
+    query('userId').optional().isUUID().withMessage('User ID must be a valid UUID'),
+    query('limit')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('Limit must be between 1 and 100')
+      .toInt(),
+  ];
+
+  /**
+   * Validación para reencolar notificaciones FAILED
+   */
+  static requeueFailedNotifications = [
+    body('notificationIds')
+      .optional()
+      .isArray()
+      .withMessage('Notification IDs must be an array'),
+    body('notificationIds.*')
+      .optional()
+      .isUUID()
+      .withMessage('Each notification ID must be a valid UUID'),
+    body('userId').optional().isUUID().withMessage('User ID must be a valid UUID'),
+    body()
+      .custom((value) => {
+        const hasNotificationIds = value.notificationIds && value.notificationIds.length > 0;
+        if (!hasNotificationIds && !value.userId) {
+          throw new Error('At least one notification ID or a user ID is required (use notificationIds or userId)');
+        }
+        return true;
+      }),
+  ];
 }
@@ -1,4 +1,5 @@
 import { PrismaClient } from '@prisma/client';
+import { eventBus } from '../../shared/events/EventBus';
 
 // Repository
 import { IPaymentRepository } from './domain/repositories/IPaymentRepository';
@@ -108,7 +109,11 @@ export class PaymentContainer {
     );
     this._getPayments = new GetPayments(this._paymentRepository);
     this._processPayment = new ProcessPayment(this._paymentRepository, this._appointmentRepository);
-    this._refundPayment = new RefundPayment(this._paymentRepository, this._appointmentRepository);
+    this._refundPayment = new RefundPayment(
+      this._paymentRepository,
+      this._appointmentRepository,
+      eventBus,
+    );
     this._cancelPayment = new CancelPayment(this._paymentRepository, this._appointmentRepository);
     this._getPaymentStatistics = new GetPaymentStatistics(this._paymentRepository);
     this._updatePayment = new UpdatePayment(this._paymentRepository);
@@ -1,4 +1,8 @@
-import { PaymentStatusEnum, PaymentMethodEnum } from '../../../domain/entities/Payment';
+import {
+  PaymentStatusEnum,
+  PaymentMethodEnum,
+  PaymentTypeEnum,
+} from '../../../domain/entities/Payment';
 
 /**
  * DTO de respuesta para un pago
@@ -35,6 +39,11 @@ export interface PaymentResponseDto {
    */
   appointmentId: string;
 
+  /**
+   * Tipo de pago (SERVICE, LATE_CANCELLATION_FEE o NO_SHOW_FEE)
+   */
+  type: PaymentTypeEnum;
+
   /**
    * Razón del reembolso (disponible si el pago fue reembolsado)
    */
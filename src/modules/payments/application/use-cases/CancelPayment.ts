@@ -94,6 +94,7 @@ export class CancelPayment {
       method: payment.method,
       paymentDate: payment.paymentDate,
       appointmentId: payment.appointmentId,
+      type: payment.type,
       refundReason: payment.refundReason,
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
@@ -104,6 +104,7 @@ export class CreatePayment {
       method: payment.method,
       paymentDate: payment.paymentDate,
       appointmentId: payment.appointmentId,
+      type: payment.type,
       refundReason: payment.refundReason,
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
@@ -86,6 +86,7 @@ export class GetPaymentsByAppointment {
       method: payment.method,
       paymentDate: payment.paymentDate,
       appointmentId: payment.appointmentId,
+      type: payment.type,
       refundReason: payment.refundReason,
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
@@ -1,23 +1,27 @@
 import { Payment } from '../../domain/entities/Payment';
 import { IPaymentRepository } from '../../domain/repositories/IPaymentRepository';
+import { PaymentRefundedEvent } from '../../domain/events/PaymentRefundedEvent';
 import { IAppointmentRepository } from '../../../appointments/domain/repositories/IAppointmentRepository';
 import { RefundPaymentDto } from '../dto/request/RefundPaymentDto';
 import { PaymentResponseDto } from '../dto/response/PaymentResponseDto';
 import { NotFoundError } from '../../../../shared/exceptions/NotFoundError';
 import { BusinessRuleError } from '../../../../shared/exceptions/BusinessRuleError';
 import { ForbiddenError } from '../../../../shared/exceptions/ForbiddenError';
+import { EventBus } from '../../../../shared/events/EventBus';
 
 /**
  * Caso de uso para reembolsar un pago
  * @description Marca un pago completado como reembolsado. Aplica control de
  * acceso por ownership: ADMIN sin restricción, STYLIST solo si es el
  * estilista asignado a la cita del pago; CLIENT no tiene acceso a esta
- * operación (fuera del alcance aprobado, ver F18)
+ * operación (fuera del alcance aprobado, ver F18). El reembolso se publica para que se notifique
+ * al cliente de la cita
  */
 export class RefundPayment {
   constructor(
     private paymentRepository: IPaymentRepository,
     private appointmentRepository: IAppointmentRepository,
+    private eventBus: EventBus,
   ) {}
 
   /**
@@ -53,6 +57,16 @@ export class RefundPayment {
     // Guardar cambios
     const updatedPayment = await this.paymentRepository.update(payment);
 
+    // Publicar el reembolso (notifica al cliente de la cita)
+    await this.eventBus.publish(
+      new PaymentRefundedEvent(
+        updatedPayment.id,
+        updatedPayment.appointmentId,
+        updatedPayment.amount,
+        updatedPayment.refundReason,
+      ),
+    );
+
     return this.toResponseDto(updatedPayment);
   }
 
@@ -95,6 +109,7 @@ export class RefundPayment {
       method: payment.method,
       paymentDate: payment.paymentDate,
       appointmentId: payment.appointmentId,
+      type: payment.type,
       refundReason: payment.refundReason,
       createdAt: payment.createdAt,
       updatedAt: payment.updatedAt,
@@ -21,6 +21,17 @@ export enum PaymentMethodEnum {
   ONLINE = 'ONLINE',
 }
 
+/**
+ * Enum para los tipos de pago
+ * @description Distingue el pago de los servicios de los cargos generados por la política de
+ * cancelación
+ */
+export enum PaymentTypeEnum {
+  SERVICE = 'SERVICE',
+  LATE_CANCELLATION_FEE = 'LATE_CANCELLATION_FEE',
+  NO_SHOW_FEE = 'NO_SHOW_FEE',
+}
+
 /**
  * Interface para las propiedades del pago
  */
@@ -31,6 +42,7 @@ export interface PaymentProps {
   method: PaymentMethodEnum | null;
   paymentDate: Date | null;
   appointmentId: string;
+  type?: PaymentTypeEnum; // SERVICE si se omite
   refundReason?: string;
   createdAt: Date;
   updatedAt: Date;
@@ -47,6 +59,7 @@ export class Payment {
   private _method: PaymentMethodEnum | null;
   private _paymentDate: Date | null;
   private readonly _appointmentId: string;
+  private readonly _type: PaymentTypeEnum;
   private _refundReason?: string;
   private readonly _createdAt: Date;
   private _updatedAt: Date;
@@ -58,6 +71,7 @@ export class Payment {
     this._method = props.method;
     this._paymentDate = props.paymentDate;
     this._appointmentId = props.appointmentId;
+    this._type = props.type ?? PaymentTypeEnum.SERVICE;
     this._refundReason = props.refundReason;
     this._createdAt = props.createdAt;
     this._updatedAt = props.updatedAt;
@@ -88,6 +102,13 @@ export class Payment {
     return this._appointmentId;
   }
 
+  /**
+   * Tipo de pago (servicio o cargo por cancelación tardía / no show)
+   */
+  get type(): PaymentTypeEnum {
+    return this._type;
+  }
+
   /**
    * Razón del reembolso (disponible solo si el pago fue reembolsado)
    */
@@ -195,6 +216,7 @@ export class Payment {
       method: this._method,
       paymentDate: this._paymentDate,
       appointmentId: this._appointmentId,
+      type: this._type,
       refundReason: this._refundReason,
       createdAt: this._createdAt,
       updatedAt: this._updatedAt,
@@ -203,11 +225,13 @@ export class Payment {
 
   /**
    * Factory method para crear un nuevo pago
+   * @param type - Tipo de pago (SERVICE por defecto)
    */
   static create(
     id: string,
     amount: number,
     appointmentId: string,
+    type: PaymentTypeEnum = PaymentTypeEnum.SERVICE,
   ): Payment {
     if (amount <= 0) {
       throw new Error('Amount must be greater than 0');
@@ -220,6 +244,7 @@ export class Payment {
       method: null,
       paymentDate: null,
       appointmentId,
+      type,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
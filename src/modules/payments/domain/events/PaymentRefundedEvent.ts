@@ -0,0 +1,17 @@
+import { DomainEvent } from '../../../../shared/events/DomainEvent';
+
+/**
+ * Un pago completado fue reembolsado
+ */
+export class PaymentRefundedEvent implements DomainEvent {
+  static readonly EVENT_NAME = 'payment.refunded';
+  readonly eventName = PaymentRefundedEvent.EVENT_NAME;
+  readonly occurredAt = new Date();
+
+  constructor(
+    readonly paymentId: string,
+    readonly appointmentId: string,
+    readonly amount: number,
+    readonly reason?: string,
+  ) {}
+}
@@ -1,5 +1,10 @@
-import { Prisma, PrismaClient, PaymentStatus, PaymentMethod } from '@prisma/client';
-import { Payment, PaymentStatusEnum, PaymentMethodEnum } from '../../domain/entities/Payment';
+import { Prisma, PrismaClient, PaymentStatus, PaymentMethod, PaymentType } from '@prisma/client';
+import {
+  Payment,
+  PaymentStatusEnum,
+  PaymentMethodEnum,
+  PaymentTypeEnum,
+} from '../../domain/entities/Payment';
 import {
   IPaymentRepository,
   PaymentFilters,
@@ -25,6 +30,7 @@ export class PrismaPaymentRepository implements IPaymentRepository {
         method: payment.method as PaymentMethod | null,
         paymentDate: payment.paymentDate,
         appointmentId: payment.appointmentId,
+        type: payment.type as PaymentType,
       },
     });
 
@@ -234,6 +240,7 @@ export class PrismaPaymentRepository implements IPaymentRepository {
       method: data.method as PaymentMethodEnum | null,
       paymentDate: data.paymentDate,
       appointmentId: data.appointmentId,
+      type: data.type as PaymentTypeEnum,
       refundReason: data.refundReason ?? undefined,
       createdAt: data.createdAt,
       updatedAt: data.updatedAt,
@@ -10,4 +10,16 @@ export interface AssignServiceDto {
    * Si no se especifica, se usa el precio base del servicio
    */
   customPrice?: number | null;
+
+  /**
+   * Minutos de preparación propios del estilista (opcional, 0-120)
+   * Si no se especifica, se usa el buffer del servicio
+   */
+  customBufferBefore?: number | null;
+
+  /**
+   * Minutos de limpieza propios del estilista (opcional, 0-120)
+   * Si no se especifica, se usa el buffer del servicio
+   */
+  customBufferAfter?: number | null;
 }
@@ -22,4 +22,10 @@ export interface CreateServiceDto {
   
   /** Precio del servicio (no puede ser negativo) */
   price: number;
+
+  /** Minutos de preparación antes de cada cita (0-120, por defecto 0) */
+  bufferBefore?: number;
+
+  /** Minutos de limpieza/procesado después de cada cita (0-120, por defecto 0) */
+  bufferAfter?: number;
 }
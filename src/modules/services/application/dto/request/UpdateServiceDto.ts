@@ -23,4 +23,10 @@ export interface UpdateServiceDto {
   
   /** Nuevo precio del servicio (no puede ser negativo) */
   price?: number;
+
+  /** Nuevos minutos de preparación antes de cada cita (0-120) */
+  bufferBefore?: number;
+
+  /** Nuevos minutos de limpieza/procesado después de cada cita (0-120) */
+  bufferAfter?: number;
 }
@@ -9,6 +9,18 @@ export interface UpdateStylistServiceDto {
    * No puede ser negativo
    */
   customPrice?: number | null;
+
+  /**
+   * Nuevos minutos de preparación propios del estilista (opcional, 0-120)
+   * Si es null, se usa el buffer del servicio
+   */
+  customBufferBefore?: number | null;
+
+  /**
+   * Nuevos minutos de limpieza propios del estilista (opcional, 0-120)
+   * Si es null, se usa el buffer del servicio
+   */
+  customBufferAfter?: number | null;
   
   /** 
    * Indica si el estilista está ofreciendo activamente este servicio
@@ -26,6 +26,12 @@ export interface ServiceDto {
   
   /** Duración máxima calculada (duration + durationVariation) */
   maxDuration: number;
+
+  /** Minutos de preparación reservados antes de cada cita */
+  bufferBefore: number;
+
+  /** Minutos de limpieza/procesado reservados después de cada cita */
+  bufferAfter: number;
   
   /** Precio base del servicio */
   price: number;
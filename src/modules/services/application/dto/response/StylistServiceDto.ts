@@ -35,6 +35,12 @@ export interface StylistServiceDto {
   
   /** Indica si el estilista tiene un precio personalizado para este servicio */
   hasCustomPrice: boolean;
+
+  /** Minutos de preparación propios del estilista (null = los del servicio) */
+  customBufferBefore: number | null;
+
+  /** Minutos de limpieza propios del estilista (null = los del servicio) */
+  customBufferAfter: number | null;
   
   /** Fecha de creación de la asignación */
   createdAt: Date;
@@ -74,6 +74,8 @@ export class AssignServiceToStylist {
       stylistId,
       assignDto.serviceId,
       assignDto.customPrice ?? null,
+      assignDto.customBufferBefore ?? null,
+      assignDto.customBufferAfter ?? null,
     );
     const savedAssignment = await this.stylistServiceRepository.save(stylistService);
 
@@ -108,6 +110,8 @@ export class AssignServiceToStylist {
       formattedEffectivePrice: stylistService.getFormattedPrice(basePrice),
       isOffering: stylistService.isOffering,
       hasCustomPrice: stylistService.hasCustomPrice(),
+      customBufferBefore: stylistService.customBufferBefore,
+      customBufferAfter: stylistService.customBufferAfter,
       createdAt: stylistService.createdAt,
       updatedAt: stylistService.updatedAt,
     };
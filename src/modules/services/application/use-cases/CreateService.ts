@@ -84,6 +84,8 @@ export class CreateService {
       createDto.duration,
       createDto.durationVariation,
       createDto.price,
+      createDto.bufferBefore ?? 0,
+      createDto.bufferAfter ?? 0,
     );
 
     const savedService = await this.serviceRepository.save(service);
@@ -106,6 +108,8 @@ export class CreateService {
       durationVariation: service.durationVariation,
       minDuration: service.calculateMinDuration(),
       maxDuration: service.calculateMaxDuration(),
+      bufferBefore: service.bufferBefore,
+      bufferAfter: service.bufferAfter,
       price: service.price,
       formattedPrice: service.getFormattedPrice(),
       isActive: service.isActive,
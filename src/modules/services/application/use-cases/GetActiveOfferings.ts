@@ -76,6 +76,8 @@ export class GetActiveOfferings {
       formattedEffectivePrice: stylistService.getFormattedPrice(basePrice),
       isOffering: stylistService.isOffering,
       hasCustomPrice: stylistService.hasCustomPrice(),
+      customBufferBefore: stylistService.customBufferBefore,
+      customBufferAfter: stylistService.customBufferAfter,
       createdAt: stylistService.createdAt,
       updatedAt: stylistService.updatedAt,
     };
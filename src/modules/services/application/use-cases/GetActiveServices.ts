@@ -59,6 +59,8 @@ export class GetActiveServices {
       durationVariation: service.durationVariation,
       minDuration: service.calculateMinDuration(),
       maxDuration: service.calculateMaxDuration(),
+      bufferBefore: service.bufferBefore,
+      bufferAfter: service.bufferAfter,
       price: service.price,
       formattedPrice: service.getFormattedPrice(),
       isActive: service.isActive,
@@ -45,6 +45,8 @@ export class GetActiveServicesByCategory {
       durationVariation: service.durationVariation,
       minDuration: service.calculateMinDuration(),
       maxDuration: service.calculateMaxDuration(),
+      bufferBefore: service.bufferBefore,
+      bufferAfter: service.bufferAfter,
       price: service.price,
       formattedPrice: service.getFormattedPrice(),
       isActive: service.isActive,
@@ -47,6 +47,8 @@ export class GetServiceStylists {
       formattedEffectivePrice: stylistService.getFormattedPrice(basePrice),
       isOffering: stylistService.isOffering,
       hasCustomPrice: stylistService.hasCustomPrice(),
+      customBufferBefore: stylistService.customBufferBefore,
+      customBufferAfter: stylistService.customBufferAfter,
       createdAt: stylistService.createdAt,
       updatedAt: stylistService.updatedAt,
     };
@@ -58,6 +58,8 @@ export class GetServiceWithStylists {
       formattedEffectivePrice: stylistService.getFormattedPrice(basePrice),
       isOffering: stylistService.isOffering,
       hasCustomPrice: stylistService.hasCustomPrice(),
+      customBufferBefore: stylistService.customBufferBefore,
+      customBufferAfter: stylistService.customBufferAfter,
       createdAt: stylistService.createdAt,
       updatedAt: stylistService.updatedAt,
     };
@@ -62,6 +62,8 @@ export class GetStylistServices {
       formattedEffectivePrice: stylistService.getFormattedPrice(basePrice),
       isOffering: stylistService.isOffering,
       hasCustomPrice: stylistService.hasCustomPrice(),
+      customBufferBefore: stylistService.customBufferBefore,
+      customBufferAfter: stylistService.customBufferAfter,
       createdAt: stylistService.createdAt,
       updatedAt: stylistService.updatedAt,
     };
@@ -119,6 +119,13 @@ export class UpdateService {
       );
     }
 
+    if (updateDto.bufferBefore !== undefined || updateDto.bufferAfter !== undefined) {
+      service.updateBuffers(
+        updateDto.bufferBefore ?? service.bufferBefore,
+        updateDto.bufferAfter ?? service.bufferAfter,
+      );
+    }
+
     const updatedService = await this.serviceRepository.update(service);
 
     return this.mapToDto(updatedService, category!);
@@ -139,6 +146,8 @@ export class UpdateService {
       durationVariation: service.durationVariation,
       minDuration: service.calculateMinDuration(),
       maxDuration: service.calculateMaxDuration(),
+      bufferBefore: service.bufferBefore,
+      bufferAfter: service.bufferAfter,
       price: service.price,
       formattedPrice: service.getFormattedPrice(),
       isActive: service.isActive,
@@ -63,6 +63,17 @@ export class UpdateStylistService {
       stylistService.updatePrice(updateDto.customPrice);
     }
 
+    if (updateDto.customBufferBefore !== undefined || updateDto.customBufferAfter !== undefined) {
+      stylistService.updateBuffers(
+        updateDto.customBufferBefore !== undefined
+          ? updateDto.customBufferBefore
+          : stylistService.customBufferBefore,
+        updateDto.customBufferAfter !== undefined
+          ? updateDto.customBufferAfter
+          : stylistService.customBufferAfter,
+      );
+    }
+
     if (updateDto.isOffering !== undefined) {
       if (updateDto.isOffering) {
         stylistService.startOffering();
@@ -110,6 +121,8 @@ export class UpdateStylistService {
       formattedEffectivePrice: stylistService.getFormattedPrice(basePrice),
       isOffering: stylistService.isOffering,
       hasCustomPrice: stylistService.hasCustomPrice(),
+      customBufferBefore: stylistService.customBufferBefore,
+      customBufferAfter: stylistService.customBufferAfter,
       createdAt: stylistService.createdAt,
       updatedAt: stylistService.updatedAt,
     };
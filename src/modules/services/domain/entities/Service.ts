@@ -2,6 +2,9 @@ import { generateUuid } from '../../../../shared/utils/uuid';
 import { ValidationError } from '../../../../shared/exceptions/ValidationError';
 
 export class Service {
+  /** Máximo de minutos de buffer antes o después (alineado con Appointment.MAX_BUFFER_MINUTES) */
+  static readonly MAX_BUFFER_MINUTES = 120;
+
   constructor(
     public id: string,
     public categoryId: string,
@@ -13,6 +16,8 @@ export class Service {
     public isActive: boolean = true,
     public createdAt: Date = new Date(),
     public updatedAt: Date = new Date(),
+    public bufferBefore: number = 0,
+    public bufferAfter: number = 0,
   ) {
     this.validate();
   }
@@ -25,6 +30,8 @@ export class Service {
    * @param duration - Duración base en minutos (positivo, máximo 480 minutos / 8 horas)
    * @param durationVariation - Variación de duración permitida en minutos
    * @param price - Precio del servicio (no puede ser negativo)
+   * @param bufferBefore - Minutos de preparación antes de la cita (0-120, por defecto 0)
+   * @param bufferAfter - Minutos de limpieza/procesado después de la cita (0-120, por defecto 0)
    * @returns Nueva instancia de Service con ID generado automáticamente
    * @throws ValidationError si los datos no son válidos
    */
@@ -35,6 +42,8 @@ export class Service {
     duration: number,
     durationVariation: number,
     price: number,
+    bufferBefore: number = 0,
+    bufferAfter: number = 0,
   ): Service {
     return new Service(
       generateUuid(),
@@ -44,6 +53,11 @@ export class Service {
       duration,
       durationVariation,
       price,
+      true,
+      new Date(),
+      new Date(),
+      bufferBefore,
+      bufferAfter,
     );
   }
 
@@ -59,6 +73,8 @@ export class Service {
    * @param isActive - Estado activo/inactivo (por defecto true)
    * @param createdAt - Fecha de creación (opcional)
    * @param updatedAt - Fecha de última actualización (opcional)
+   * @param bufferBefore - Minutos de buffer antes de la cita (opcional)
+   * @param bufferAfter - Minutos de buffer después de la cita (opcional)
    * @returns Instancia de Service desde persistencia
    */
   static fromPersistence(
@@ -72,6 +88,8 @@ export class Service {
     isActive?: boolean,
     createdAt?: Date,
     updatedAt?: Date,
+    bufferBefore?: number,
+    bufferAfter?: number,
   ): Service {
     return new Service(
       id,
@@ -84,6 +102,8 @@ export class Service {
       isActive,
       createdAt,
       updatedAt,
+      bufferBefore,
+      bufferAfter,
     );
   }
 
@@ -129,6 +149,14 @@ export class Service {
       throw new ValidationError('Service price cannot be negative');
     }
 
+    for (const buffer of [this.bufferBefore, this.bufferAfter]) {
+      if (!Number.isInteger(buffer) || buffer < 0 || buffer > Service.MAX_BUFFER_MINUTES) {
+        throw new ValidationError(
+          `Buffer time must be between 0 and ${Service.MAX_BUFFER_MINUTES} minutes`,
+        );
+      }
+    }
+
     if (!this.categoryId || this.categoryId.trim().length === 0) {
       throw new ValidationError('Service must have a category');
     }
@@ -159,6 +187,19 @@ export class Service {
     this.validate();
   }
 
+  /**
+   * Actualiza los minutos de buffer antes y después de las citas del servicio
+   * @param bufferBefore - Minutos de preparación antes de la cita
+   * @param bufferAfter - Minutos de limpieza/procesado después de la cita
+   * @throws ValidationError si algún buffer está fuera de rango
+   */
+  updateBuffers(bufferBefore: number, bufferAfter: number): void {
+    this.bufferBefore = bufferBefore;
+    this.bufferAfter = bufferAfter;
+    this.updatedAt = new Date();
+    this.validate();
+  }
+
   /**
    * Cambia el servicio a una categoría diferente
    * @param categoryId - ID de la nueva categoría
@@ -224,6 +265,8 @@ export class Service {
       description: this.description,
       duration: this.duration,
       durationVariation: this.durationVariation,
+      bufferBefore: this.bufferBefore,
+      bufferAfter: this.bufferAfter,
       price: this.price,
       isActive: this.isActive,
       createdAt: this.createdAt,
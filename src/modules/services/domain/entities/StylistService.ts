@@ -1,4 +1,5 @@
 import { ValidationError } from '../../../../shared/exceptions/ValidationError';
+import { Service } from './Service';
 
 export class StylistService {
   constructor(
@@ -8,6 +9,8 @@ export class StylistService {
     public isOffering: boolean = true,
     public createdAt: Date = new Date(),
     public updatedAt: Date = new Date(),
+    public customBufferBefore: number | null = null,
+    public customBufferAfter: number | null = null,
   ) {
     this.validate();
   }
@@ -17,11 +20,28 @@ export class StylistService {
    * @param stylistId - ID único del estilista
    * @param serviceId - ID único del servicio
    * @param customPrice - Precio personalizado para este estilista (null = sin precio personalizado)
+   * @param customBufferBefore - Minutos de preparación propios del estilista (null = los del servicio)
+   * @param customBufferAfter - Minutos de limpieza propios del estilista (null = los del servicio)
    * @returns Nueva instancia de StylistService
    * @throws ValidationError si los datos no son válidos
    */
-  static create(stylistId: string, serviceId: string, customPrice: number | null = null): StylistService {
-    return new StylistService(stylistId, serviceId, customPrice);
+  static create(
+    stylistId: string,
+    serviceId: string,
+    customPrice: number | null = null,
+    customBufferBefore: number | null = null,
+    customBufferAfter: number | null = null,
+  ): StylistService {
+    return new StylistService(
+      stylistId,
+      serviceId,
+      customPrice,
+      true,
+      new Date(),
+      new Date(),
+      customBufferBefore,
+      customBufferAfter,
+    );
   }
 
   /**
@@ -32,6 +52,8 @@ export class StylistService {
    * @param isOffering - Estado de oferta (por defecto true)
    * @param createdAt - Fecha de creación (opcional)
    * @param updatedAt - Fecha de última actualización (opcional)
+   * @param customBufferBefore - Minutos de preparación propios (null = los del servicio)
+   * @param customBufferAfter - Minutos de limpieza propios (null = los del servicio)
    * @returns Instancia de StylistService desde persistencia
    */
   static fromPersistence(
@@ -41,8 +63,19 @@ export class StylistService {
     isOffering?: boolean,
     createdAt?: Date,
     updatedAt?: Date,
+    customBufferBefore: number | null = null,
+    customBufferAfter: number | null = null,
   ): StylistService {
-    return new StylistService(stylistId, serviceId, customPrice, isOffering, createdAt, updatedAt);
+    return new StylistService(
+      stylistId,
+      serviceId,
+      customPrice,
+      isOffering,
+      createdAt,
+      updatedAt,
+      customBufferBefore,
+      customBufferAfter,
+    );
   }
 
   /**
@@ -61,6 +94,25 @@ export class StylistService {
     if (this.customPrice !== null && this.customPrice < 0) {
       throw new ValidationError('Custom price cannot be negative');
     }
+
+    this.validateBuffer(this.customBufferBefore);
+    this.validateBuffer(this.customBufferAfter);
+  }
+
+  /**
+   * Valida un buffer personalizado (null = sin personalizar)
+   * @param buffer - Minutos de buffer
+   * @throws ValidationError si no es un entero entre 0 y el máximo permitido
+   */
+  private validateBuffer(buffer: number | null): void {
+    if (
+      buffer !== null &&
+      (!Number.isInteger(buffer) || buffer < 0 || buffer > Service.MAX_BUFFER_MINUTES)
+    ) {
+      throw new ValidationError(
+        `Buffer time must be between 0 and ${Service.MAX_BUFFER_MINUTES} minutes`,
+      );
+    }
   }
 
   /**
@@ -76,6 +128,20 @@ export class StylistService {
     this.updatedAt = new Date();
   }
 
+  /**
+   * Actualiza los buffers personalizados del estilista para este servicio
+   * @param bufferBefore - Minutos antes de la cita (null para usar los del servicio)
+   * @param bufferAfter - Minutos después de la cita (null para usar los del servicio)
+   * @throws ValidationError si algún buffer está fuera de rango
+   */
+  updateBuffers(bufferBefore: number | null, bufferAfter: number | null): void {
+    this.validateBuffer(bufferBefore);
+    this.validateBuffer(bufferAfter);
+    this.customBufferBefore = bufferBefore;
+    this.customBufferAfter = bufferAfter;
+    this.updatedAt = new Date();
+  }
+
   /**
    * Marca que el estilista está ofreciendo activamente este servicio
    */
@@ -112,6 +178,24 @@ export class StylistService {
     return (this.getEffectivePrice(basePrice) / 100).toFixed(2);
   }
 
+  /**
+   * Calcula los minutos reservados antes de la cita para este estilista
+   * @param service - Servicio asociado
+   * @returns customBufferBefore si existe, sino el buffer del servicio
+   */
+  getEffectiveBufferBefore(service: Service): number {
+    return this.customBufferBefore ?? service.bufferBefore;
+  }
+
+  /**
+   * Calcula los minutos reservados después de la cita para este estilista
+   * @param service - Servicio asociado
+   * @returns customBufferAfter si existe, sino el buffer del servicio
+   */
+  getEffectiveBufferAfter(service: Service): number {
+    return this.customBufferAfter ?? service.bufferAfter;
+  }
+
   /**
    * Verifica si el estilista tiene un precio personalizado para este servicio
    * @returns true si tiene precio personalizado, false si usa el precio base
@@ -132,6 +216,8 @@ export class StylistService {
       isOffering: this.isOffering,
       createdAt: this.createdAt,
       updatedAt: this.updatedAt,
+      customBufferBefore: this.customBufferBefore,
+      customBufferAfter: this.customBufferAfter,
     };
   }
 }
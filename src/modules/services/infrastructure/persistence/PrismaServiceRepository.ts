@@ -33,6 +33,8 @@ export class PrismaServiceRepository implements IServiceRepository {
       serviceData.isActive,
       serviceData.createdAt,
       serviceData.updatedAt,
+      serviceData.bufferBefore,
+      serviceData.bufferAfter,
     );
   }
 
@@ -64,6 +66,8 @@ export class PrismaServiceRepository implements IServiceRepository {
       serviceData.isActive,
       serviceData.createdAt,
       serviceData.updatedAt,
+      serviceData.bufferBefore,
+      serviceData.bufferAfter,
     );
   }
 
@@ -88,6 +92,8 @@ export class PrismaServiceRepository implements IServiceRepository {
         data.isActive,
         data.createdAt,
         data.updatedAt,
+        data.bufferBefore,
+        data.bufferAfter,
       ),
     );
   }
@@ -114,6 +120,8 @@ export class PrismaServiceRepository implements IServiceRepository {
         data.isActive,
         data.createdAt,
         data.updatedAt,
+        data.bufferBefore,
+        data.bufferAfter,
       ),
     );
   }
@@ -141,6 +149,8 @@ export class PrismaServiceRepository implements IServiceRepository {
         data.isActive,
         data.createdAt,
         data.updatedAt,
+        data.bufferBefore,
+        data.bufferAfter,
       ),
     );
   }
@@ -171,6 +181,8 @@ export class PrismaServiceRepository implements IServiceRepository {
         data.isActive,
         data.createdAt,
         data.updatedAt,
+        data.bufferBefore,
+        data.bufferAfter,
       ),
     );
   }
@@ -189,6 +201,8 @@ export class PrismaServiceRepository implements IServiceRepository {
         description: service.description,
         duration: service.duration,
         durationVariation: service.durationVariation,
+        bufferBefore: service.bufferBefore,
+        bufferAfter: service.bufferAfter,
         price: service.price,
         isActive: service.isActive,
         createdAt: service.createdAt,
@@ -207,6 +221,8 @@ export class PrismaServiceRepository implements IServiceRepository {
       serviceData.isActive,
       serviceData.createdAt,
       serviceData.updatedAt,
+      serviceData.bufferBefore,
+      serviceData.bufferAfter,
     );
   }
 
@@ -224,6 +240,8 @@ export class PrismaServiceRepository implements IServiceRepository {
         description: service.description,
         duration: service.duration,
         durationVariation: service.durationVariation,
+        bufferBefore: service.bufferBefore,
+        bufferAfter: service.bufferAfter,
         price: service.price,
         isActive: service.isActive,
         updatedAt: service.updatedAt,
@@ -241,6 +259,8 @@ export class PrismaServiceRepository implements IServiceRepository {
       serviceData.isActive,
       serviceData.createdAt,
       serviceData.updatedAt,
+      serviceData.bufferBefore,
+      serviceData.bufferAfter,
     );
   }
 
@@ -38,6 +38,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
       stylistServiceData.isOffering ?? true,
       stylistServiceData.createdAt,
       stylistServiceData.updatedAt,
+      stylistServiceData.customBufferBefore,
+      stylistServiceData.customBufferAfter,
     );
   }
 
@@ -61,6 +63,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
         data.isOffering ?? true,
         data.createdAt,
         data.updatedAt,
+        data.customBufferBefore,
+        data.customBufferAfter,
       ),
     );
   }
@@ -85,6 +89,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
         data.isOffering ?? true,
         data.createdAt,
         data.updatedAt,
+        data.customBufferBefore,
+        data.customBufferAfter,
       ),
     );
   }
@@ -111,6 +117,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
         data.isOffering ?? true,
         data.createdAt,
         data.updatedAt,
+        data.customBufferBefore,
+        data.customBufferAfter,
       ),
     );
   }
@@ -137,6 +145,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
         data.isOffering ?? true,
         data.createdAt,
         data.updatedAt,
+        data.customBufferBefore,
+        data.customBufferAfter,
       ),
     );
   }
@@ -155,6 +165,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
         isOffering: stylistService.isOffering,
         createdAt: stylistService.createdAt,
         updatedAt: stylistService.updatedAt,
+        customBufferBefore: stylistService.customBufferBefore,
+        customBufferAfter: stylistService.customBufferAfter,
       },
     });
 
@@ -165,6 +177,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
       stylistServiceData.isOffering ?? true,
       stylistServiceData.createdAt,
       stylistServiceData.updatedAt,
+      stylistServiceData.customBufferBefore,
+      stylistServiceData.customBufferAfter,
     );
   }
 
@@ -185,6 +199,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
         customPrice: stylistService.customPrice,
         isOffering: stylistService.isOffering,
         updatedAt: stylistService.updatedAt,
+        customBufferBefore: stylistService.customBufferBefore,
+        customBufferAfter: stylistService.customBufferAfter,
       },
     });
 
@@ -195,6 +211,8 @@ export class PrismaStylistServiceRepository implements IStylistServiceRepository
       stylistServiceData.isOffering ?? true,
       stylistServiceData.createdAt,
       stylistServiceData.updatedAt,
+      stylistServiceData.customBufferBefore,
+      stylistServiceData.customBufferAfter,
     );
   }
 
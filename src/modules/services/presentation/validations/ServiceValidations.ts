@@ -15,6 +15,7 @@ export class ServiceValidations {
    * - duration: entero 1-480 minutos
    * - durationVariation: entero no negativo, no mayor que duration
    * - price: float no negativo (en la unidad monetaria base del cliente), convertido a centavos para persistencia
+   * - bufferBefore / bufferAfter: enteros opcionales 0-120 minutos
    */
   static createService = [
     body('categoryId').isUUID().withMessage('Category ID must be a valid UUID'),
@@ -51,6 +52,16 @@ export class ServiceValidations {
       .isFloat({ min: 0 })
       .withMessage('Price must be a non-negative number')
       .customSanitizer((value) => Math.round(value * 100)), // Convertir a centavos (patron Stripe, ver F2)
+
+    body('bufferBefore')
+      .optional()
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Buffer before must be an integer between 0 and 120 minutes'),
+
+    body('bufferAfter')
+      .optional()
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Buffer after must be an integer between 0 and 120 minutes'),
   ];
 
   /**
@@ -97,6 +108,16 @@ export class ServiceValidations {
       .isFloat({ min: 0 })
       .withMessage('Price must be a non-negative number')
       .customSanitizer((value) => (value !== undefined ? Math.round(value * 100) : value)), // Convertir a centavos (patron Stripe, ver F2)
+
+    body('bufferBefore')
+      .optional()
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Buffer before must be an integer between 0 and 120 minutes'),
+
+    body('bufferAfter')
+      .optional()
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Buffer after must be an integer between 0 and 120 minutes'),
   ];
 
   /**
@@ -12,6 +12,7 @@ export class StylistServiceValidations {
    * - stylistId: UUID válido en parámetros
    * - serviceId: UUID válido en body
    * - customPrice: número opcional no negativo (o null explícito para "sin precio personalizado"), convertido a centavos
+   * - customBufferBefore / customBufferAfter: enteros opcionales 0-120 (o null para usar los del servicio)
    */
   static assignService = [
     param('stylistId').isUUID().withMessage('Stylist ID must be a valid UUID'),
@@ -33,6 +34,16 @@ export class StylistServiceValidations {
       .customSanitizer((value) =>
         value === null || value === undefined ? value : Math.round(value * 100),
       ), // Convertir a centavos preservando null (patron Stripe, ver F2/F5)
+
+    body('customBufferBefore')
+      .optional({ nullable: true })
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Custom buffer before must be an integer between 0 and 120 minutes'),
+
+    body('customBufferAfter')
+      .optional({ nullable: true })
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Custom buffer after must be an integer between 0 and 120 minutes'),
   ];
 
   /**
@@ -42,6 +53,7 @@ export class StylistServiceValidations {
    * - stylistId: UUID válido en parámetros
    * - serviceId: UUID válido en parámetros
    * - customPrice: número opcional no negativo (o null explícito para limpiar el precio personalizado), convertido a centavos
+   * - customBufferBefore / customBufferAfter: enteros opcionales 0-120 (o null para usar los del servicio)
    * - isOffering: boolean opcional para estado de oferta
    */
   static updateStylistService = [
@@ -65,6 +77,16 @@ export class StylistServiceValidations {
         value === null || value === undefined ? value : Math.round(value * 100),
       ), // Convertir a centavos preservando null (patron Stripe, ver F2/F5)
 
+    body('customBufferBefore')
+      .optional({ nullable: true })
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Custom buffer before must be an integer between 0 and 120 minutes'),
+
+    body('customBufferAfter')
+      .optional({ nullable: true })
+      .isInt({ min: 0, max: 120 })
+      .withMessage('Custom buffer after must be an integer between 0 and 120 minutes'),
+
     body('isOffering').optional().isBoolean().withMessage('isOffering must be a boolean value'),
   ];
 
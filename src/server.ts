@@ -4,9 +4,23 @@ import { env } from './shared/config/env';
 import app from './app';
 import { prisma } from './shared/config/Prisma';
 import { logger } from './shared/logger/logger';
+import { AuthContainer } from './modules/auth/AuthContainer';
+import { AppointmentContainer } from './modules/appointments/AppointmentContainer';
+import { NotificationContainer } from './modules/notifications/NotificationContainer';
 
 const PORT = env.PORT;
 
+const authMiddleware = AuthContainer.getInstance(prisma).authMiddleware;
+
+// Jobs en segundo plano; usan las mismas instancias singleton que registró app.ts
+const appointmentSweeperJob = AppointmentContainer.getInstance(
+  prisma,
+  authMiddleware,
+).appointmentSweeperJob;
+const notificationContainer = NotificationContainer.getInstance(prisma, authMiddleware);
+const appointmentReminderJob = notificationContainer.appointmentReminderJob;
+const notificationDispatchJob = notificationContainer.notificationDispatchJob;
+
 const startServer = async (): Promise<void> => {
   try {
     await prisma.$connect();
@@ -18,6 +32,9 @@ const startServer = async (): Promise<void> => {
       });
       logger.info(`Health check available at http://localhost:${PORT}/health`);
       logger.info(`API documentation available at http://localhost:${PORT}/api/docs`);
+      appointmentSweeperJob.start();
+      appointmentReminderJob.start();
+      notificationDispatchJob.start();
     });
   } catch (error) {
     logger.error('Failed to start server', {
@@ -30,12 +47,18 @@ const startServer = async (): Promise<void> => {
 
 process.on('SIGTERM', async () => {
   logger.warn('SIGTERM received, shutting down gracefully');
+  appointmentSweeperJob.stop();
+  appointmentReminderJob.stop();
+  notificationDispatchJob.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
 
 process.on('SIGINT', async () => {
   logger.warn('SIGINT received, shutting down gracefully');
+  appointmentSweeperJob.stop();
+  appointmentReminderJob.stop();
+  notificationDispatchJob.stop();
   await prisma.$disconnect();
   process.exit(0);
 });
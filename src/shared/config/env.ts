@@ -3,13 +3,23 @@ import dotenv from 'dotenv';
 
 dotenv.config();
 
+/**
+ * Verifica que un string sea una zona horaria IANA reconocida por el runtime (Intl)
+ */
+function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
 /**
  * Schema de validacion de variables de entorno
  *
  * Solo incluye variables que el proceso Node realmente consume hoy --
- * deliberadamente excluidas: MAIL_* (nodemailer esta instalado pero no hay
- * ningun servicio de mail implementado en src/modules/notifications/, cero
- * codigo las lee), DB_HOST/DB_PORT/DB_USERNAME/DB_PASSWORD/DB_DATABASE
+ * deliberadamente excluidas: DB_HOST/DB_PORT/DB_USERNAME/DB_PASSWORD/DB_DATABASE
  * (Prisma solo lee DATABASE_URL, esas 5 solo las usa docker-compose.dev.yml
  * para configurar el contenedor de Postgres) y PGADMIN_* (config del
  * contenedor de pgAdmin, no de la app).
@@ -35,6 +45,67 @@ const envSchema = z.object({
     .default('7d'),
 
   FRONTEND_URL: z.url().default('http://localhost:3000'),
+
+  // Zona horaria IANA del salon: horarios, feriados y politicas se calculan en hora local
+  SALON_TIMEZONE: z
+    .string()
+    .refine(
+      isValidTimeZone,
+      "SALON_TIMEZONE debe ser una zona horaria IANA valida (ej. 'America/Argentina/Buenos_Aires')",
+    )
+    .default('UTC'),
+
+  // Barrido automático de citas vencidas (PENDING pasadas y no shows): cada cuántos minutos
+  // corre dentro del proceso del servidor (0 = deshabilitado) y cuánto se espera el check-in
+  APPOINTMENT_SWEEP_INTERVAL_MINUTES: z.coerce.number().int().min(0).max(1440).default(15),
+  NO_SHOW_GRACE_MINUTES: z.coerce.number().int().min(0).max(1440).default(30),
+
+  // Lista de espera: minutos que un turno liberado queda reservado para los clientes avisados
+  WAITLIST_HOLD_MINUTES: z.coerce.number().int().min(1).max(1440).default(15),
+
+  // Checkout: minutos que un cliente retiene un turno mientras completa la reserva
+  CHECKOUT_HOLD_MINUTES: z.coerce.number().int().min(1).max(60).default(5),
+
+  // Recordatorios de citas: cada cuántos minutos se buscan recordatorios pendientes (0 =
+  // deshabilitado) y con cuántos minutos de anticipación se envían, separados por coma
+  APPOINTMENT_REMINDER_INTERVAL_MINUTES: z.coerce.number().int().min(0).max(1440).default(5),
+  APPOINTMENT_REMINDER_OFFSETS_MINUTES: z
+    .string()
+    .regex(
+      /^\s*\d+\s*(,\s*\d+\s*)*$/,
+      "APPOINTMENT_REMINDER_OFFSETS_MINUTES debe ser una lista de minutos separados por coma (ej. '1440,120')",
+    )
+    .default('1440,120')
+    .transform((value) => [...new Set(value.split(',').map((offset) => Number(offset.trim())))])
+    .refine(
+      (offsets) => offsets.every((offset) => offset >= 1 && offset <= 10080),
+      'APPOINTMENT_REMINDER_OFFSETS_MINUTES: cada anticipacion debe estar entre 1 y 10080 minutos (7 dias)',
+    ),
+
+  // Entrega de notificaciones: cada cuántos minutos se entregan las PENDING (0 = deshabilitado)
+  NOTIFICATION_DISPATCH_INTERVAL_MINUTES: z.coerce.number().int().min(0).max(1440).default(1),
+  // Reintentos de entrega: intentos antes de dar una notificación por FAILED y espera antes del
+  // primer reintento (se duplica en cada uno de los siguientes)
+  NOTIFICATION_MAX_ATTEMPTS: z.coerce.number().int().min(1).max(20).default(5),
+  NOTIFICATION_RETRY_BASE_MINUTES: z.coerce.number().int().min(1).max(1440).default(1),
+
+  // Email: 'smtp' envía por el servidor MAIL_HOST; 'file' agrega cada email a MAIL_FILE_PATH y
+  // 'console' lo escribe en el log (desarrollo y tests)
+  MAIL_TRANSPORT: z.enum(['smtp', 'file', 'console']).default('console'),
+  MAIL_FILE_PATH: z.string().min(1).default('logs/mail.log'),
+  MAIL_HOST: z.string().min(1).optional(),
+  MAIL_PORT: z.coerce.number().int().min(1).max(65535).default(587),
+  MAIL_USER: z.string().optional(),
+  MAIL_PASSWORD: z.string().optional(),
+  MAIL_FROM: z.string().min(1).default('noreply@turnity.local'),
+});
+
+/**
+ * Reglas que combinan varias variables; se validan después de las individuales
+ */
+const envRules = envSchema.refine((env) => env.MAIL_TRANSPORT !== 'smtp' || !!env.MAIL_HOST, {
+  message: "MAIL_HOST es requerido cuando MAIL_TRANSPORT es 'smtp'",
+  path: ['MAIL_HOST'],
 });
 
 export type Env = z.infer<typeof envSchema>;
@@ -53,7 +124,7 @@ export type Env = z.infer<typeof envSchema>;
  * otra cosa de la app este garantizado que funcione.
  */
 export const validateEnv = (source: Record<string, string | undefined> = process.env): Env => {
-  const result = envSchema.safeParse(source);
+  const result = envRules.safeParse(source);
 
   if (!result.success) {
     console.error('\n❌ Error de configuración: variables de entorno inválidas o faltantes\n');
@@ -0,0 +1,17 @@
+/**
+ * Evento de dominio publicado en el bus de eventos en proceso
+ * @description Cada módulo define sus eventos en `domain/events` como clases inmutables que copian
+ * los datos relevantes al momento de publicarse (nunca referencias a entidades mutables)
+ */
+export interface DomainEvent {
+  /** Nombre del evento, con formato `<módulo>.<hecho>` (p. ej. "appointment.confirmed") */
+  readonly eventName: string;
+
+  /** Instante en que ocurrió el hecho */
+  readonly occurredAt: Date;
+}
+
+/**
+ * Suscriptor de un evento de dominio
+ */
+export type DomainEventHandler<T extends DomainEvent = DomainEvent> = (event: T) => Promise<void>;
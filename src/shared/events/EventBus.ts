@@ -0,0 +1,54 @@
+import { DomainEvent, DomainEventHandler } from './DomainEvent';
+import { logger } from '../logger/logger';
+
+/**
+ * Bus de eventos de dominio en proceso
+ * @description Desacopla los casos de uso que producen un hecho (cita confirmada, pago
+ * reembolsado, ...) de los módulos que reaccionan a él. Los suscriptores se ejecutan en orden de
+ * suscripción y se esperan antes de devolver el control, pero un suscriptor que falla no afecta
+ * al publicador ni a los demás suscriptores: la operación que originó el evento ya se guardó, así
+ * que el error solo se registra en el log.
+ */
+export class EventBus {
+  private handlers = new Map<string, DomainEventHandler[]>();
+
+  /**
+   * Suscribe un handler a un evento
+   * @param eventName - Nombre del evento
+   * @param handler - Función a ejecutar con cada evento publicado con ese nombre
+   */
+  subscribe<T extends DomainEvent>(eventName: string, handler: DomainEventHandler<T>): void {
+    const handlers = this.handlers.get(eventName) ?? [];
+    handlers.push(handler as DomainEventHandler);
+    this.handlers.set(eventName, handlers);
+  }
+
+  /**
+   * Publica un evento a todos sus suscriptores
+   * @param event - Evento a publicar
+   */
+  async publish(event: DomainEvent): Promise<void> {
+    for (const handler of this.handlers.get(event.eventName) ?? []) {
+      try {
+        await handler(event);
+      } catch (error) {
+        logger.error('Domain event handler failed', {
+          eventName: event.eventName,
+          error: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+  }
+
+  /**
+   * Elimina todas las suscripciones (para tests)
+   */
+  clear(): void {
+    this.handlers.clear();
+  }
+}
+
+/**
+ * Bus compartido por todos los contenedores de la aplicación
+ */
+export const eventBus = new EventBus();
@@ -0,0 +1,75 @@
+import { logger } from '../logger/logger';
+
+/**
+ * Job en segundo plano que ejecuta periódicamente una tarea dentro del proceso del servidor
+ * @description Lo usan el barrido de citas vencidas, los recordatorios y la entrega de
+ * notificaciones. Si una ejecución sigue en curso cuando vence el siguiente intervalo, ese
+ * intervalo se omite para no procesar dos veces los mismos registros. Los errores de la tarea se
+ * registran en el log: una ejecución fallida no detiene el job.
+ */
+export class IntervalJob {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  /**
+   * @param name - Nombre del job en los mensajes del log (p. ej. "Appointment sweep")
+   * @param intervalMinutes - Minutos entre ejecuciones (0 = job deshabilitado)
+   * @param task - Tarea a ejecutar en cada intervalo
+   */
+  constructor(
+    private name: string,
+    private intervalMinutes: number,
+    private task: () => Promise<unknown>,
+  ) {}
+
+  /**
+   * Inicia la ejecución periódica de la tarea
+   * @description No hace nada si el intervalo es 0 (job deshabilitado) o si ya fue iniciado
+   */
+  start(): void {
+    if (this.intervalMinutes <= 0) {
+      logger.info(`${this.name} disabled`);
+      return;
+    }
+    if (this.timer) return;
+
+    this.timer = setInterval(() => {
+      void this.run();
+    }, this.intervalMinutes * 60000);
+    // El job no debe mantener vivo el proceso por sí solo
+    this.timer.unref();
+
+    logger.info(`${this.name} scheduled every ${this.intervalMinutes} minutes`);
+  }
+
+  /**
+   * Detiene la ejecución periódica de la tarea
+   */
+  stop(): void {
+    if (!this.timer) return;
+    clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  /**
+   * Ejecuta la tarea una vez, omitiéndola si la anterior sigue en curso
+   */
+  async run(): Promise<void> {
+    if (this.running) {
+      logger.warn(`${this.name} skipped: previous run still in progress`);
+      return;
+    }
+
+    this.running = true;
+    try {
+      await this.task();
+    } catch (error) {
+      logger.error(`${this.name} failed`, {
+        error: (error as Error).message,
+        stack: (error as Error).stack,
+      });
+    } finally {
+      this.running = false;
+    }
+  }
+}
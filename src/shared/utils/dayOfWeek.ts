@@ -1,5 +1,6 @@
 import { DayOfWeekEnum } from '../../modules/appointments/domain/entities/Schedule';
 import { ValidationError } from '../exceptions/ValidationError';
+import { toSalonDate } from './salonTime';
 
 export class DayOfWeekUtils {
   private static readonly DAY_MAPPING: Record<number, DayOfWeekEnum> = {
@@ -24,7 +25,7 @@ export class DayOfWeekUtils {
 
   /**
    * Convierte una fecha de JavaScript en Dayofweek Enum
-   * @param date - La fecha para convertir
+   * @param date - La fecha para convertir (se evalúa en el día local del salón)
    * @returns El dayofweekenum correspondiente
    * @throws ValidationError si la fecha no es válida
    */
@@ -33,7 +34,7 @@ export class DayOfWeekUtils {
       throw new ValidationError('Invalid date provided');
     }
 
-    const dayNumber = date.getDay();
+    const dayNumber = toSalonDate(date).getUTCDay();
     const dayEnum = this.DAY_MAPPING[dayNumber];
 
     if (!dayEnum) {
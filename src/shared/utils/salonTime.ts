@@ -0,0 +1,201 @@
+import { env } from '../config/env';
+
+/**
+ * Helpers puros para operar en la hora local del salón (`SALON_TIMEZONE`, zona IANA).
+ * @description Los horarios del salón y de los estilistas (HH:MM), los feriados y las políticas
+ * de anticipación se expresan en hora local del salón, mientras que las citas se guardan como
+ * instantes UTC. Estos helpers hacen la conversión entre ambos ejes con `Intl`, respetando los
+ * cambios de horario (DST).
+ *
+ * Las "fechas sin hora" siguen la convención de `dateOnly.ts`: medianoche UTC del día de
+ * calendario (p.ej. `2026-03-08T00:00:00.000Z` representa el 8 de marzo en el salón).
+ */
+
+const DAY_IN_MS = 24 * 60 * 60 * 1000;
+
+/** Componentes de fecha y hora de un instante en una zona horaria */
+interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+/**
+ * Obtiene (y cachea) el formateador de componentes numéricos para una zona horaria
+ * @param timeZone - Zona horaria IANA
+ */
+function getFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+/**
+ * Descompone un instante en fecha y hora local de la zona indicada
+ * @param instant - Instante a descomponer
+ * @param timeZone - Zona horaria IANA
+ */
+function getZonedParts(instant: Date, timeZone: string): ZonedParts {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(instant)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+  };
+}
+
+/**
+ * Calcula el desfase de la zona respecto de UTC en un instante (en ms, positivo al este)
+ * @param instant - Instante de referencia
+ * @param timeZone - Zona horaria IANA
+ */
+function getOffset(instant: Date, timeZone: string): number {
+  const { year, month, day, hour, minute } = getZonedParts(instant, timeZone);
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+  return wallClock - (instant.getTime() - (instant.getTime() % 60000));
+}
+
+/**
+ * Zona horaria configurada del salón
+ * @returns Zona horaria IANA (`SALON_TIMEZONE`, por defecto UTC)
+ */
+export function getSalonTimeZone(): string {
+  return env.SALON_TIMEZONE;
+}
+
+/**
+ * Obtiene el día de calendario del salón en el que cae un instante
+ * @param instant - Instante a convertir
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ * @returns Fecha sin hora (00:00 UTC) del día local
+ */
+export function toSalonDate(instant: Date, timeZone: string = getSalonTimeZone()): Date {
+  const { year, month, day } = getZonedParts(instant, timeZone);
+  return new Date(Date.UTC(year, month - 1, day));
+}
+
+/**
+ * Obtiene el día de calendario del salón en formato `YYYY-MM-DD`
+ * @param instant - Instante a convertir
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ */
+export function toSalonDateString(instant: Date, timeZone: string = getSalonTimeZone()): string {
+  return toSalonDate(instant, timeZone).toISOString().split('T')[0];
+}
+
+/**
+ * Obtiene la hora local del salón de un instante en minutos desde medianoche
+ * @param instant - Instante a convertir
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ * @returns Minutos desde las 00:00 locales (0-1439)
+ */
+export function getSalonMinutesOfDay(instant: Date, timeZone: string = getSalonTimeZone()): number {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return hour * 60 + minute;
+}
+
+/**
+ * Obtiene la hora local del salón de un instante en formato HH:MM
+ * @param instant - Instante a convertir
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ */
+export function toSalonTimeString(instant: Date, timeZone: string = getSalonTimeZone()): string {
+  const { hour, minute } = getZonedParts(instant, timeZone);
+  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+}
+
+/**
+ * Convierte una fecha y hora local del salón al instante UTC correspondiente
+ * @param date - Fecha sin hora (00:00 UTC) del día local
+ * @param time - Hora local en formato HH:MM
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ * @returns Instante UTC
+ * @description Si la hora se repite (fin del horario de verano) se toma la primera ocurrencia;
+ * si no existe (inicio del horario de verano) se desplaza hacia adelante el tamaño del salto
+ * (p.ej. 02:30 → 03:30)
+ */
+export function salonDateTimeToUtc(
+  date: Date,
+  time: string,
+  timeZone: string = getSalonTimeZone(),
+): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const wallClock = Date.UTC(
+    date.getUTCFullYear(),
+    date.getUTCMonth(),
+    date.getUTCDate(),
+    hours,
+    minutes,
+  );
+
+  // Como mucho hay un cambio de horario entre el día anterior y el siguiente
+  const candidates = [
+    wallClock - getOffset(new Date(wallClock - DAY_IN_MS), timeZone),
+    wallClock - getOffset(new Date(wallClock + DAY_IN_MS), timeZone),
+  ];
+  const matching = candidates.filter(
+    (candidate) => candidate + getOffset(new Date(candidate), timeZone) === wallClock,
+  );
+
+  return new Date(matching.length > 0 ? Math.min(...matching) : Math.max(...candidates));
+}
+
+/**
+ * Calcula el rango de instantes [inicio, fin] que ocupa un día local del salón
+ * @param date - Fecha sin hora (00:00 UTC) del día local
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ * @description El día puede durar 23 o 25 horas en los cambios de horario
+ */
+export function salonDayRange(
+  date: Date,
+  timeZone: string = getSalonTimeZone(),
+): { gte: Date; lte: Date } {
+  const nextDay = new Date(date.getTime() + DAY_IN_MS);
+
+  return {
+    gte: salonDateTimeToUtc(date, '00:00', timeZone),
+    lte: new Date(salonDateTimeToUtc(nextDay, '00:00', timeZone).getTime() - 1),
+  };
+}
+
+/**
+ * Desplaza un instante N días de calendario del salón conservando la hora local
+ * @param instant - Instante de referencia
+ * @param days - Días a desplazar (negativo hacia atrás)
+ * @param timeZone - Zona horaria IANA (por defecto la del salón)
+ * @description A diferencia de sumar múltiplos de 24 horas, respeta los cambios de horario:
+ * "un día antes de las 10:00" sigue siendo a las 10:00 aunque ese día dure 23 o 25 horas
+ */
+export function addSalonDays(
+  instant: Date,
+  days: number,
+  timeZone: string = getSalonTimeZone(),
+): Date {
+  const date = new Date(toSalonDate(instant, timeZone).getTime() + days * DAY_IN_MS);
+  const shifted = salonDateTimeToUtc(date, toSalonTimeString(instant, timeZone), timeZone);
+
+  return new Date(shifted.getTime() + (instant.getTime() % 60000));
+}
@@ -314,6 +314,8 @@ describe('Notifications Complete Flow E2E Tests', () => {
       'APPOINTMENT_CONFIRMATION',
       'APPOINTMENT_REMINDER',
       'APPOINTMENT_CANCELLATION',
+      'APPOINTMENT_RESCHEDULED',
+      'WAITLIST_SLOT_AVAILABLE',
       'PROMOTIONAL',
       'SYSTEM',
     ];
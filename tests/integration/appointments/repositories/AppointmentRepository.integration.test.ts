@@ -1,8 +1,27 @@
 import { PrismaAppointmentRepository } from '../../../../src/modules/appointments/infrastructure/persistence/PrismaAppointmentRepository';
+import { PrismaSlotHoldRepository } from '../../../../src/modules/appointments/infrastructure/persistence/PrismaSlotHoldRepository';
+import { PrismaWaitlistEntryRepository } from '../../../../src/modules/appointments/infrastructure/persistence/PrismaWaitlistEntryRepository';
+import { PrismaUserRepository } from '../../../../src/modules/auth/infrastructure/persistence/PrismaUserRepository';
+import { PrismaServiceRepository } from '../../../../src/modules/services/infrastructure/persistence/PrismaServiceRepository';
+import { PrismaStylistServiceRepository } from '../../../../src/modules/services/infrastructure/persistence/PrismaStylistServiceRepository';
+import { PrismaNotificationRepository } from '../../../../src/modules/notifications/infrastructure/persistence/PrismaNotificationRepository';
+import { PrismaNotificationStatusRepository } from '../../../../src/modules/notifications/infrastructure/persistence/PrismaNotificationStatusRepository';
 import { Appointment } from '../../../../src/modules/appointments/domain/entities/Appointment';
+import { SlotHold } from '../../../../src/modules/appointments/domain/entities/SlotHold';
+import { WaitlistEntry } from '../../../../src/modules/appointments/domain/entities/WaitlistEntry';
+import { WaitlistService } from '../../../../src/modules/appointments/domain/services/WaitlistService';
+import { AppointmentDurationService } from '../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { StylistAssignmentService } from '../../../../src/modules/appointments/domain/services/StylistAssignmentService';
 import { testPrisma, cleanupTestUsers } from '../../../setup/database';
-import { createTestUser } from '../../../setup/helpers';
+import {
+  assignServiceToStylist,
+  createTestCategory,
+  createTestService,
+  createTestUser,
+  loginAsAdmin,
+} from '../../../setup/helpers';
 import { generateUuid } from '../../../../src/shared/utils/uuid';
+import { salonDayRange, toSalonDate } from '../../../../src/shared/utils/salonTime';
 
 describe('AppointmentRepository Integration Tests', () => {
   let repository: PrismaAppointmentRepository;
@@ -291,6 +310,47 @@ describe('AppointmentRepository Integration Tests', () => {
       expect(result.updatedAt.getTime()).toBeGreaterThan(savedAppointment.updatedAt.getTime());
     });
 
+    // Los datos que la entidad limpia (confirmación al reprogramar) deben quedar en null
+    it('should clear a rescheduled confirmation so it can be confirmed again', async () => {
+      const confirmedStatus = await testPrisma.appointmentStatus.findFirst({
+        where: { name: 'CONFIRMED' },
+      });
+      const futureDate = new Date();
+      futureDate.setDate(futureDate.getDate() + 7);
+      const appointment = await repository.save(
+        Appointment.create(
+          futureDate,
+          60,
+          testUserId,
+          testClientId,
+          testScheduleId,
+          testStatusId,
+          testStylistId,
+          [],
+        ),
+      );
+
+      appointment.markAsConfirmed(confirmedStatus!.id, 'See you there');
+      await repository.update(appointment);
+
+      const rescheduledDate = new Date(futureDate);
+      rescheduledDate.setDate(rescheduledDate.getDate() + 1);
+      appointment.resetConfirmation(testStatusId);
+      appointment.reschedule(rescheduledDate);
+      await repository.update(appointment);
+
+      const rescheduled = await repository.findById(appointment.id);
+      expect(rescheduled!.confirmedAt).toBeUndefined();
+      expect(rescheduled!.confirmationNotes).toBeUndefined();
+
+      rescheduled!.markAsConfirmed(confirmedStatus!.id);
+      const reconfirmed = await repository.update(rescheduled!);
+
+      expect(reconfirmed.statusId).toBe(confirmedStatus!.id);
+      expect(reconfirmed.confirmedAt).toBeDefined();
+      expect(reconfirmed.confirmationNotes).toBeUndefined();
+    });
+
     it('should throw error for non-existing id', async () => {
       const nonExistingId = '00000000-0000-0000-0000-000000000000';
       const futureDate = new Date();
@@ -924,4 +984,242 @@ describe('AppointmentRepository Integration Tests', () => {
       expect(conflicts).toEqual([]);
     });
   });
+
+  describe('saveIfNoConflicts', () => {
+    const createAppointmentAt = (dateTime: Date): Appointment =>
+      Appointment.create(
+        dateTime,
+        60,
+        testUserId,
+        testClientId,
+        testScheduleId,
+        testStatusId,
+        testStylistId,
+        [],
+      );
+
+    it('should save the appointment when the stylist is free', async () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 8);
+      date.setHours(10, 0, 0, 0);
+
+      const savedAppointment = await repository.saveIfNoConflicts(createAppointmentAt(date));
+
+      expect(savedAppointment).not.toBeNull();
+      expect(await repository.findById(savedAppointment!.id)).not.toBeNull();
+    });
+
+    it('should not save the appointment when it overlaps another one', async () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 8);
+      date.setHours(12, 0, 0, 0);
+      await repository.save(createAppointmentAt(date));
+
+      const overlapping = new Date(date);
+      overlapping.setMinutes(30);
+      const result = await repository.saveIfNoConflicts(createAppointmentAt(overlapping));
+
+      expect(result).toBeNull();
+    });
+
+    // Las reservas temporales de otros clientes se verifican dentro de la misma transacción
+    it('should not save the appointment over an active hold of another client', async () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 8);
+      date.setHours(13, 0, 0, 0);
+      const otherClient = await createTestUser('CLIENT');
+      await testPrisma.slotHold.create({
+        data: SlotHold.createForCheckout(
+          testStylistId,
+          date,
+          60,
+          10,
+          otherClient.user?.id || otherClient.id,
+        ).toPersistence(),
+      });
+
+      const result = await repository.saveIfNoConflicts(createAppointmentAt(date));
+
+      expect(result).toBeNull();
+      await testPrisma.slotHold.deleteMany({ where: { stylistId: testStylistId } });
+    });
+
+    // Reservas simultáneas del mismo turno: el advisory lock por estilista deja pasar solo una
+    it('should save only one of several parallel bookings for the same slot', async () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 8);
+      date.setHours(15, 0, 0, 0);
+
+      const results = await Promise.all(
+        Array.from({ length: 5 }, () => repository.saveIfNoConflicts(createAppointmentAt(date))),
+      );
+
+      expect(results.filter((result) => result !== null)).toHaveLength(1);
+      const stored = await testPrisma.appointment.count({
+        where: { stylistId: testStylistId, dateTime: date },
+      });
+      expect(stored).toBe(1);
+    });
+  });
+
+  describe('findWithFilters / countWithFilters', () => {
+    const createAppointmentOn = (daysFromNow: number, hour: number): Appointment => {
+      const date = new Date();
+      date.setDate(date.getDate() + daysFromNow);
+      date.setHours(hour, 0, 0, 0);
+      return Appointment.create(
+        date,
+        60,
+        testUserId,
+        testClientId,
+        testScheduleId,
+        testStatusId,
+        testStylistId,
+        [],
+      );
+    };
+
+    it('should combine filters and sort by dateTime', async () => {
+      const later = await repository.save(createAppointmentOn(9, 16));
+      const earlier = await repository.save(createAppointmentOn(9, 10));
+      await repository.save(createAppointmentOn(20, 10));
+
+      const startDate = new Date(earlier.dateTime);
+      startDate.setHours(0, 0, 0, 0);
+      const endDate = new Date(startDate);
+      endDate.setDate(endDate.getDate() + 1);
+      const filters = { clientId: testClientId, statusId: testStatusId, startDate, endDate };
+
+      const page = await repository.findWithFilters(
+        filters,
+        { field: 'dateTime', direction: 'asc' },
+        10,
+        0,
+      );
+
+      expect(page.map((appointment) => appointment.id)).toEqual([earlier.id, later.id]);
+      expect(await repository.countWithFilters(filters)).toBe(2);
+    });
+
+    it('should search the client email without case sensitivity', async () => {
+      await repository.save(createAppointmentOn(9, 11));
+      const client = await testPrisma.user.findUnique({ where: { id: testClientId } });
+
+      const search = client!.email.slice(0, 6).toUpperCase();
+      const matching = await repository.countWithFilters({ clientId: testClientId, search });
+      const notMatching = await repository.countWithFilters({
+        clientId: testClientId,
+        search: 'no-such-client-text',
+      });
+
+      expect(matching).toBe(1);
+      expect(notMatching).toBe(0);
+    });
+  });
+
+  describe('freed slots', () => {
+    let waitlistService: WaitlistService;
+    let waitlistEntryRepository: PrismaWaitlistEntryRepository;
+    let waitlistedClientId: string;
+    let serviceId: string;
+    let cancelledStatusId: string;
+
+    beforeAll(async () => {
+      const adminToken = await loginAsAdmin();
+      const category = await createTestCategory(adminToken);
+      const service = await createTestService(adminToken, category.id);
+      serviceId = service.id;
+      await assignServiceToStylist(adminToken, testStylistId, serviceId);
+
+      const waitlistedClient = await createTestUser('CLIENT');
+      waitlistedClientId = waitlistedClient.user?.id || waitlistedClient.id;
+
+      const cancelledStatus = await testPrisma.appointmentStatus.findFirst({
+        where: { name: 'CANCELLED' },
+      });
+      if (!cancelledStatus) {
+        throw new Error('Status "CANCELLED" not found in seed data');
+      }
+      cancelledStatusId = cancelledStatus.id;
+
+      const stylistServiceRepository = new PrismaStylistServiceRepository(testPrisma);
+      waitlistEntryRepository = new PrismaWaitlistEntryRepository(testPrisma);
+      waitlistService = new WaitlistService(
+        waitlistEntryRepository,
+        new PrismaSlotHoldRepository(testPrisma),
+        new PrismaUserRepository(testPrisma),
+        stylistServiceRepository,
+        new AppointmentDurationService(
+          new PrismaServiceRepository(testPrisma),
+          stylistServiceRepository,
+        ),
+        // El estilista de la cita sigue activo: no se busca un reemplazo
+        {} as unknown as StylistAssignmentService,
+        new PrismaNotificationRepository(testPrisma),
+        new PrismaNotificationStatusRepository(testPrisma),
+        15,
+      );
+    });
+
+    afterAll(async () => {
+      await testPrisma.appointment.deleteMany({ where: { clientId: waitlistedClientId } });
+      await testPrisma.waitlistEntry.deleteMany({ where: { clientId: waitlistedClientId } });
+      await testPrisma.slotHold.deleteMany({ where: { stylistId: testStylistId } });
+      await testPrisma.notification.deleteMany({ where: { userId: waitlistedClientId } });
+    });
+
+    // Una cita cancelada libera su turno: el cliente de la lista de espera al que se le ofrece
+    // puede reservarlo
+    it('should let the waitlisted client book a cancelled slot offered to them', async () => {
+      const date = new Date();
+      date.setDate(date.getDate() + 9);
+      date.setHours(16, 0, 0, 0);
+      const cancelled = await repository.save(
+        Appointment.create(
+          date,
+          90,
+          testUserId,
+          testClientId,
+          testScheduleId,
+          testStatusId,
+          testStylistId,
+          [serviceId],
+        ),
+      );
+      cancelled.markAsCancelled(cancelledStatusId, 'Client cancelled', 'CLIENT');
+      await repository.update(cancelled);
+      await waitlistEntryRepository.save(
+        WaitlistEntry.create(
+          waitlistedClientId,
+          waitlistedClientId,
+          [serviceId],
+          toSalonDate(date),
+          toSalonDate(date),
+        ),
+      );
+
+      const hold = await waitlistService.offerFreedSlot(cancelled);
+
+      expect(hold).not.toBeNull();
+      expect(hold!.isHeldFor(waitlistedClientId)).toBe(true);
+      const { gte, lte } = salonDayRange(toSalonDate(date));
+      const blocking = await repository.findBlockingByDateRange(gte, lte);
+      expect(blocking.some((appointment) => appointment.id === cancelled.id)).toBe(false);
+
+      const booking = await repository.saveIfNoConflicts(
+        Appointment.create(
+          date,
+          90,
+          waitlistedClientId,
+          waitlistedClientId,
+          testScheduleId,
+          testStatusId,
+          testStylistId,
+          [serviceId],
+        ),
+      );
+
+      expect(booking).not.toBeNull();
+    });
+  });
 });
@@ -0,0 +1,141 @@
+import { PrismaSlotHoldRepository } from '../../../../src/modules/appointments/infrastructure/persistence/PrismaSlotHoldRepository';
+import { PrismaAppointmentRepository } from '../../../../src/modules/appointments/infrastructure/persistence/PrismaAppointmentRepository';
+import { SlotHold } from '../../../../src/modules/appointments/domain/entities/SlotHold';
+import { Appointment } from '../../../../src/modules/appointments/domain/entities/Appointment';
+import { testPrisma, cleanupTestUsers } from '../../../setup/database';
+import { createTestUser } from '../../../setup/helpers';
+
+describe('SlotHoldRepository Integration Tests', () => {
+  let repository: PrismaSlotHoldRepository;
+  let appointmentRepository: PrismaAppointmentRepository;
+  let testUserId: string;
+  let testStylistId: string;
+  let testClientIds: string[];
+  let testScheduleId: string;
+  let testStatusId: string;
+
+  /** Turno de 60 minutos dentro de 8 días a la hora indicada */
+  const slotAt = (hour: number): Date => {
+    const date = new Date();
+    date.setDate(date.getDate() + 8);
+    date.setHours(hour, 0, 0, 0);
+    return date;
+  };
+
+  const createHoldAt = (dateTime: Date, clientId: string): SlotHold =>
+    SlotHold.createForCheckout(testStylistId, dateTime, 60, 10, clientId);
+
+  beforeAll(async () => {
+    repository = new PrismaSlotHoldRepository(testPrisma);
+    appointmentRepository = new PrismaAppointmentRepository(testPrisma);
+
+    const adminUser = await createTestUser('ADMIN');
+    testUserId = adminUser.user?.id || adminUser.id;
+
+    const stylistUser = await createTestUser('STYLIST');
+    testStylistId = stylistUser.user?.id || stylistUser.id;
+
+    testClientIds = [];
+    for (let i = 0; i < 3; i++) {
+      const clientUser = await createTestUser('CLIENT');
+      testClientIds.push(clientUser.user?.id || clientUser.id);
+    }
+
+    const schedule = await testPrisma.schedule.findFirst();
+    if (!schedule) {
+      throw new Error('No se encontró ningún schedule en el seed');
+    }
+    testScheduleId = schedule.id;
+
+    const status = await testPrisma.appointmentStatus.findFirst({
+      where: { name: 'PENDING' },
+    });
+    if (!status) {
+      throw new Error('Status "PENDING" not found in seed data');
+    }
+    testStatusId = status.id;
+  });
+
+  afterAll(async () => {
+    await cleanupTestUsers();
+  });
+
+  beforeEach(async () => {
+    await testPrisma.slotHold.deleteMany({ where: { stylistId: testStylistId } });
+    await testPrisma.appointment.deleteMany({ where: { stylistId: testStylistId } });
+  });
+
+  describe('saveIfSlotFree', () => {
+    it('should save the hold when the slot is free', async () => {
+      const saved = await repository.saveIfSlotFree(createHoldAt(slotAt(10), testClientIds[0]));
+
+      expect(saved).not.toBeNull();
+      expect(await repository.findByToken(saved!.token!)).not.toBeNull();
+    });
+
+    it('should not save the hold when another client holds the slot', async () => {
+      await repository.save(createHoldAt(slotAt(11), testClientIds[0]));
+
+      const result = await repository.saveIfSlotFree(createHoldAt(slotAt(11), testClientIds[1]));
+
+      expect(result).toBeNull();
+    });
+
+    it('should not save the hold when an appointment takes the slot', async () => {
+      await appointmentRepository.save(
+        Appointment.create(
+          slotAt(12),
+          60,
+          testUserId,
+          testClientIds[0],
+          testScheduleId,
+          testStatusId,
+          testStylistId,
+          [],
+        ),
+      );
+
+      const result = await repository.saveIfSlotFree(createHoldAt(slotAt(12), testClientIds[1]));
+
+      expect(result).toBeNull();
+    });
+
+    // Reservas simultáneas del mismo turno: el advisory lock por estilista deja pasar solo una
+    it('should save only one of several parallel holds for the same slot', async () => {
+      const date = slotAt(15);
+
+      const results = await Promise.all(
+        testClientIds.map((clientId) => repository.saveIfSlotFree(createHoldAt(date, clientId))),
+      );
+
+      expect(results.filter((result) => result !== null)).toHaveLength(1);
+      const stored = await testPrisma.slotHold.count({
+        where: { stylistId: testStylistId, dateTime: date },
+      });
+      expect(stored).toBe(1);
+    });
+
+    // Una reserva y una cita simultáneas del mismo turno comparten el lock: solo una se guarda
+    it('should not let a hold and a booking for the same slot both succeed', async () => {
+      const date = slotAt(17);
+
+      const [hold, appointment] = await Promise.all([
+        repository.saveIfSlotFree(createHoldAt(date, testClientIds[0])),
+        appointmentRepository.saveIfNoConflicts(
+          Appointment.create(
+            date,
+            60,
+            testUserId,
+            testClientIds[1],
+            testScheduleId,
+            testStatusId,
+            testStylistId,
+            [],
+          ),
+        ),
+      ]);
+
+      expect([hold, appointment].filter((result) => result !== null)).toHaveLength(1);
+    });
+  });
+});
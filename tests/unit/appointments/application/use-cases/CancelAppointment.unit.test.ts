@@ -12,9 +12,26 @@ import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundErro
 import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
 import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../../../../src/modules/appointments/domain/services/CancellationFeeService';
+import { WaitlistService } from '../../../../../src/modules/appointments/domain/services/WaitlistService';
+import {
+  CancellationFeeTypeEnum,
+  CancellationPolicy,
+} from '../../../../../src/modules/appointments/domain/entities/CancellationPolicy';
+import {
+  Payment,
+  PaymentTypeEnum,
+} from '../../../../../src/modules/payments/domain/entities/Payment';
+import { AppointmentCancelledEvent } from '../../../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
 
 describe('CancelAppointment Use Case', () => {
+  let mockEventBus: jest.Mocked<EventBus>;
   let useCase: CancelAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockCancellationFeeService: jest.Mocked<CancellationFeeService>;
+  let mockWaitlistService: jest.Mocked<WaitlistService>;
   let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
   let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
 
@@ -118,6 +135,8 @@ describe('CancelAppointment Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -127,6 +146,8 @@ describe('CancelAppointment Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
       findByDateRange: jest.fn(),
@@ -135,6 +156,8 @@ describe('CancelAppointment Use Case', () => {
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
@@ -155,7 +178,32 @@ describe('CancelAppointment Use Case', () => {
       findActiveStatuses: jest.fn(),
     };
 
-    useCase = new CancelAppointment(mockAppointmentRepository, mockAppointmentStatusRepository);
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockCancellationFeeService = {
+      getPolicy: jest.fn().mockResolvedValue(CancellationPolicy.createDefault()),
+      charge: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<CancellationFeeService>;
+
+    mockWaitlistService = {
+      offerFreedSlot: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<WaitlistService>;
+
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
+    useCase = new CancelAppointment(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockAppointmentHistoryService,
+      mockCancellationFeeService,
+      mockWaitlistService,
+      mockEventBus,
+    );
   });
 
   afterEach(() => {
@@ -182,6 +230,12 @@ describe('CancelAppointment Use Case', () => {
         AppointmentStatusEnum.CANCELLED,
       );
       expect(mockAppointmentRepository.update).toHaveBeenCalledWith(appointment);
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledWith(appointment);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(AppointmentCancelledEvent));
+      expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+        appointmentId: appointment.id,
+        reason: validCancelDto.reason,
+      });
       expect(result.id).toBe(appointment.id);
     });
 
@@ -315,6 +369,7 @@ describe('CancelAppointment Use Case', () => {
       await expect(
         useCase.execute(validAppointmentId, validCancelDto, validRequesterId, adminRole),
       ).rejects.toThrow(new BusinessRuleError('Appointment is already cancelled'));
+      expect(mockWaitlistService.offerFreedSlot).not.toHaveBeenCalled();
     });
 
     it('should throw BusinessRuleError for completed appointment', async () => {
@@ -367,6 +422,106 @@ describe('CancelAppointment Use Case', () => {
         useCase.execute(validAppointmentId, validCancelDto, validRequesterId, adminRole),
       ).rejects.toThrow(BusinessRuleError);
     });
+  });
+
+  describe('Cancellation Policy', () => {
+    const policyWithFee = new CancellationPolicy(
+      2,
+      2,
+      24,
+      CancellationFeeTypeEnum.FIXED,
+      15,
+      false,
+    );
+
+    // Debería aceptar la cancelación tardía del cliente y generar el cargo
+    it('should accept a late cancellation by the client and charge the fee', async () => {
+      const appointment = createMockAppointment({
+        clientId: validRequesterId,
+        dateTime: getFutureDate(12),
+      });
+      setupSuccessfulMocks(appointment);
+      mockCancellationFeeService.getPolicy.mockResolvedValue(policyWithFee);
+      const fee = Payment.create(
+        generateUuid(),
+        15,
+        appointment.id,
+        PaymentTypeEnum.LATE_CANCELLATION_FEE,
+      );
+      mockCancellationFeeService.charge.mockResolvedValue(fee);
+
+      const result = await useCase.execute(
+        validAppointmentId,
+        validCancelDto,
+        validRequesterId,
+        'CLIENT',
+      );
+
+      expect(mockCancellationFeeService.charge).toHaveBeenCalledWith(
+        appointment,
+        policyWithFee,
+        PaymentTypeEnum.LATE_CANCELLATION_FEE,
+      );
+      expect(result.lateCancellationFee).toEqual({ paymentId: fee.id, amount: 15 });
+    });
+
+    // No debería generar cargo si la cancelación respeta el aviso mínimo
+    it('should not charge a fee when the notice window is respected', async () => {
+      const appointment = createMockAppointment({
+        clientId: validRequesterId,
+        dateTime: getFutureDate(48),
+      });
+      setupSuccessfulMocks(appointment);
+      mockCancellationFeeService.getPolicy.mockResolvedValue(policyWithFee);
+
+      const result = await useCase.execute(
+        validAppointmentId,
+        validCancelDto,
+        validRequesterId,
+        'CLIENT',
+      );
+
+      expect(mockCancellationFeeService.charge).not.toHaveBeenCalled();
+      expect(result.lateCancellationFee).toBeUndefined();
+    });
+
+    // Debería rechazar la cancelación tardía de un estilista aunque haya cargo
+    it('should reject a late cancellation by a stylist even when a fee is configured', async () => {
+      const appointment = createMockAppointment({
+        stylistId: validRequesterId,
+        dateTime: getFutureDate(1),
+      });
+      setupSuccessfulMocks(appointment);
+      mockCancellationFeeService.getPolicy.mockResolvedValue(policyWithFee);
+
+      await expect(
+        useCase.execute(validAppointmentId, validCancelDto, validRequesterId, 'STYLIST'),
+      ).rejects.toThrow(
+        new BusinessRuleError(
+          'Appointments can only be cancelled at least 2 hours in advance. ' +
+            'For last-minute cancellations, please contact customer service.',
+        ),
+      );
+      expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+    });
+
+    // Debería exigir el aviso propio de un servicio de la cita
+    it('should require the notice window of a service override', async () => {
+      const appointment = createMockAppointment({
+        clientId: validRequesterId,
+        dateTime: getFutureDate(72),
+      });
+      setupSuccessfulMocks(appointment);
+      mockCancellationFeeService.getPolicy.mockResolvedValue(
+        new CancellationPolicy(2, 2, 24, undefined, undefined, false, [
+          { serviceId: validServiceIds[0], noticeHours: 96 },
+        ]),
+      );
+
+      await expect(
+        useCase.execute(validAppointmentId, validCancelDto, validRequesterId, 'CLIENT'),
+      ).rejects.toThrow(/at least 96 hours in advance/);
+    });
 
     it('should throw BusinessRuleError for past appointment', async () => {
       const appointment = createMockAppointment({
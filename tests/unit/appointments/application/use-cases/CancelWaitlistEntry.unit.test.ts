@@ -0,0 +1,94 @@
+import { CancelWaitlistEntry } from '../../../../../src/modules/appointments/application/use-cases/CancelWaitlistEntry';
+import { IWaitlistEntryRepository } from '../../../../../src/modules/appointments/domain/repositories/IWaitlistEntryRepository';
+import { ISlotHoldRepository } from '../../../../../src/modules/appointments/domain/repositories/ISlotHoldRepository';
+import { WaitlistEntry } from '../../../../../src/modules/appointments/domain/entities/WaitlistEntry';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CancelWaitlistEntry Use Case', () => {
+  let useCase: CancelWaitlistEntry;
+  let mockWaitlistEntryRepository: jest.Mocked<IWaitlistEntryRepository>;
+  let mockSlotHoldRepository: jest.Mocked<ISlotHoldRepository>;
+
+  const clientId = generateUuid();
+
+  const createEntry = (): WaitlistEntry =>
+    WaitlistEntry.create(
+      clientId,
+      clientId,
+      [generateUuid()],
+      new Date('2026-07-01T00:00:00.000Z'),
+      new Date('2026-07-03T00:00:00.000Z'),
+    );
+
+  beforeEach(() => {
+    mockWaitlistEntryRepository = {
+      findById: jest.fn(),
+      findActiveByHoldId: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation(async (entry: WaitlistEntry) => entry),
+    } as unknown as jest.Mocked<IWaitlistEntryRepository>;
+
+    mockSlotHoldRepository = {
+      delete: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ISlotHoldRepository>;
+
+    useCase = new CancelWaitlistEntry(mockWaitlistEntryRepository, mockSlotHoldRepository);
+  });
+
+  // Debería cancelar la entrada propia del cliente
+  it('should cancel the client own entry', async () => {
+    const entry = createEntry();
+    mockWaitlistEntryRepository.findById.mockResolvedValue(entry);
+
+    const result = await useCase.execute(entry.id, clientId, 'CLIENT');
+
+    expect(result.status).toBe('CANCELLED');
+    expect(mockSlotHoldRepository.delete).not.toHaveBeenCalled();
+  });
+
+  // Debería eliminar la reserva cuando el cliente era su último destinatario
+  it('should delete the hold when no other entry uses it', async () => {
+    const entry = createEntry();
+    const holdId = generateUuid();
+    entry.offerHold(holdId);
+    mockWaitlistEntryRepository.findById.mockResolvedValue(entry);
+
+    await useCase.execute(entry.id, generateUuid(), 'ADMIN');
+
+    expect(mockWaitlistEntryRepository.findActiveByHoldId).toHaveBeenCalledWith(holdId);
+    expect(mockSlotHoldRepository.delete).toHaveBeenCalledWith(holdId);
+  });
+
+  // Debería conservar la reserva si otros clientes todavía la pueden usar
+  it('should keep the hold while other entries still use it', async () => {
+    const entry = createEntry();
+    entry.offerHold(generateUuid());
+    mockWaitlistEntryRepository.findById.mockResolvedValue(entry);
+    mockWaitlistEntryRepository.findActiveByHoldId.mockResolvedValue([createEntry()]);
+
+    await useCase.execute(entry.id, clientId, 'CLIENT');
+
+    expect(mockSlotHoldRepository.delete).not.toHaveBeenCalled();
+  });
+
+  // Debería fallar si la entrada no existe
+  it('should throw NotFoundError when the entry does not exist', async () => {
+    mockWaitlistEntryRepository.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute(generateUuid(), clientId, 'CLIENT')).rejects.toThrow(
+      NotFoundError,
+    );
+  });
+
+  // Otro cliente no puede cancelar la entrada
+  it('should forbid other clients from cancelling the entry', async () => {
+    const entry = createEntry();
+    mockWaitlistEntryRepository.findById.mockResolvedValue(entry);
+
+    await expect(useCase.execute(entry.id, generateUuid(), 'CLIENT')).rejects.toThrow(
+      new ForbiddenError('You do not have permission to cancel this waitlist entry'),
+    );
+    expect(mockWaitlistEntryRepository.update).not.toHaveBeenCalled();
+  });
+});
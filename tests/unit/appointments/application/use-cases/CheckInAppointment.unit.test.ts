@@ -0,0 +1,156 @@
+import { CheckInAppointment } from '../../../../../src/modules/appointments/application/use-cases/CheckInAppointment';
+import { AppointmentLifecycleService } from '../../../../../src/modules/appointments/domain/services/AppointmentLifecycleService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+
+describe('CheckInAppointment Use Case', () => {
+  let useCase: CheckInAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const appointmentId = generateUuid();
+  const stylistId = generateUuid();
+  const otherStylistId = generateUuid();
+  const adminId = generateUuid();
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const createMockAppointment = (
+    overrides: Partial<{ dateTime: Date; statusId: string }> = {},
+  ): Appointment =>
+    new Appointment(
+      appointmentId,
+      overrides.dateTime ?? new Date(Date.now() + 10 * 60 * 1000),
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      overrides.statusId ?? statusId(AppointmentStatusEnum.CONFIRMED),
+      stylistId,
+    );
+
+  beforeAll(() => {
+    // Mediodía UTC: la cita de prueba (10 minutos después) cae el mismo día del salón
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00.000Z') });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findById: jest.fn(),
+      update: jest.fn().mockImplementation(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(async (id: string) => statuses.find((s) => s.id === id) ?? null),
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    useCase = new CheckInAppointment(
+      mockAppointmentRepository,
+      new AppointmentLifecycleService(mockAppointmentRepository, mockAppointmentStatusRepository),
+      mockAppointmentHistoryService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería registrar la llegada sin cambiar el estado
+  it('should check in a confirmed appointment for today', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    const result = await useCase.execute(appointmentId, stylistId, 'STYLIST');
+
+    expect(result.checkedInAt).toBe('2026-10-19T12:00:00.000Z');
+    expect(result.statusId).toBe(statusId(AppointmentStatusEnum.CONFIRMED));
+    expect(mockAppointmentRepository.update).toHaveBeenCalledTimes(1);
+  });
+
+  // Debería permitir a ADMIN registrar la llegada de cualquier cita
+  it('should allow ADMIN to check in any appointment', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    const result = await useCase.execute(appointmentId, adminId, 'ADMIN');
+
+    expect(result.checkedInAt).toBeDefined();
+  });
+
+  // Debería rechazar a un estilista que no está asignado a la cita
+  it('should throw ForbiddenError for a stylist not assigned to the appointment', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    await expect(useCase.execute(appointmentId, otherStylistId, 'STYLIST')).rejects.toThrow(
+      new ForbiddenError('You do not have permission to check in this appointment'),
+    );
+    expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+  });
+
+  // Debería lanzar NotFoundError si la cita no existe
+  it('should throw NotFoundError when appointment does not exist', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute(appointmentId, adminId, 'ADMIN')).rejects.toThrow(NotFoundError);
+  });
+
+  // Debería rechazar citas no confirmadas
+  it('should reject appointments that are not confirmed', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment({ statusId: statusId(AppointmentStatusEnum.PENDING) }),
+    );
+
+    await expect(useCase.execute(appointmentId, adminId, 'ADMIN')).rejects.toThrow(
+      new BusinessRuleError('Only confirmed appointments can be checked in'),
+    );
+  });
+
+  // Debería rechazar citas de otro día
+  it('should reject appointments that are not scheduled for today', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment({ dateTime: new Date('2026-10-20T12:00:00.000Z') }),
+    );
+
+    await expect(useCase.execute(appointmentId, adminId, 'ADMIN')).rejects.toThrow(
+      new BusinessRuleError('Appointments can only be checked in on the day of the appointment'),
+    );
+  });
+
+  // Debería rechazar un segundo check-in
+  it('should reject a second check-in', async () => {
+    const appointment = createMockAppointment();
+    appointment.checkIn();
+    mockAppointmentRepository.findById.mockResolvedValue(appointment);
+
+    await expect(useCase.execute(appointmentId, adminId, 'ADMIN')).rejects.toThrow(
+      new BusinessRuleError('Client has already checked in for this appointment'),
+    );
+  });
+});
@@ -0,0 +1,106 @@
+import { CompleteAppointment } from '../../../../../src/modules/appointments/application/use-cases/CompleteAppointment';
+import { AppointmentLifecycleService } from '../../../../../src/modules/appointments/domain/services/AppointmentLifecycleService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+
+describe('CompleteAppointment Use Case', () => {
+  let useCase: CompleteAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const appointmentId = generateUuid();
+  const stylistId = generateUuid();
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const createMockAppointment = (
+    overrides: Partial<{ dateTime: Date; statusId: string }> = {},
+  ): Appointment =>
+    new Appointment(
+      appointmentId,
+      overrides.dateTime ?? new Date(Date.now() - 60 * 60 * 1000),
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      overrides.statusId ?? statusId(AppointmentStatusEnum.IN_PROGRESS),
+      stylistId,
+    );
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findById: jest.fn(),
+      update: jest.fn().mockImplementation(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(async (id: string) => statuses.find((s) => s.id === id) ?? null),
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    useCase = new CompleteAppointment(
+      mockAppointmentRepository,
+      new AppointmentLifecycleService(mockAppointmentRepository, mockAppointmentStatusRepository),
+      mockAppointmentHistoryService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería completar una cita en progreso registrando el fin real
+  it('should complete an in-progress appointment and record the end time', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    const result = await useCase.execute(appointmentId, stylistId, 'STYLIST');
+
+    expect(result.statusId).toBe(statusId(AppointmentStatusEnum.COMPLETED));
+    expect(result.completedAt).toBeDefined();
+  });
+
+  // Debería rechazar completar una cita que no se inició
+  it('should reject completing an appointment that was not started', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment({ statusId: statusId(AppointmentStatusEnum.CONFIRMED) }),
+    );
+
+    await expect(useCase.execute(appointmentId, stylistId, 'STYLIST')).rejects.toThrow(
+      new BusinessRuleError('Cannot transition from CONFIRMED to COMPLETED'),
+    );
+  });
+
+  // Debería rechazar completar una cita futura aunque se haya iniciado antes
+  it('should reject completing an appointment before its scheduled time', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment({ dateTime: new Date(Date.now() + 2 * 60 * 60 * 1000) }),
+    );
+
+    await expect(useCase.execute(appointmentId, stylistId, 'STYLIST')).rejects.toThrow(
+      new BusinessRuleError('Cannot complete an appointment before its scheduled time'),
+    );
+    expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+  });
+});
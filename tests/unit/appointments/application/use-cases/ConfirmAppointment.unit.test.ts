@@ -11,9 +11,14 @@ import { ValidationError } from '../../../../../src/shared/exceptions/Validation
 import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
 import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { AppointmentConfirmedEvent } from '../../../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
 
 describe('ConfirmAppointment Use Case', () => {
+  let mockEventBus: jest.Mocked<EventBus>;
   let useCase: ConfirmAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
   let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
   let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
 
@@ -123,6 +128,8 @@ describe('ConfirmAppointment Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -132,6 +139,8 @@ describe('ConfirmAppointment Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
       findByDateRange: jest.fn(),
@@ -140,6 +149,8 @@ describe('ConfirmAppointment Use Case', () => {
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
@@ -160,7 +171,21 @@ describe('ConfirmAppointment Use Case', () => {
       findActiveStatuses: jest.fn(),
     };
 
-    useCase = new ConfirmAppointment(mockAppointmentRepository, mockAppointmentStatusRepository);
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
+    useCase = new ConfirmAppointment(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockAppointmentHistoryService,
+      mockEventBus,
+    );
   });
 
   afterEach(() => {
@@ -185,6 +210,12 @@ describe('ConfirmAppointment Use Case', () => {
         AppointmentStatusEnum.CONFIRMED,
       );
       expect(mockAppointmentRepository.update).toHaveBeenCalledWith(appointment);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(AppointmentConfirmedEvent));
+      expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+        appointmentId: appointment.id,
+        clientId: appointment.clientId,
+        actor: { id: validRequesterId, role: adminRole },
+      });
       expect(result.id).toBe(appointment.id);
     });
 
@@ -15,11 +15,27 @@ import { ValidationError } from '../../../../../src/shared/exceptions/Validation
 import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
 import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
 import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import {
+  StylistAbsence,
+  AbsenceTypeEnum,
+} from '../../../../../src/modules/appointments/domain/entities/StylistAbsence';
 import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import {
+  StylistAssignmentService,
+  StylistAssignmentStrategyEnum,
+} from '../../../../../src/modules/appointments/domain/services/StylistAssignmentService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { toSalonDate } from '../../../../../src/shared/utils/salonTime';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { BookingValidationService } from '../../../../../src/modules/appointments/domain/services/BookingValidationService';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
 
 describe('CreateAppointment Use Case', () => {
   let useCase: CreateAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
   let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
   let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
   let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
@@ -27,6 +43,8 @@ describe('CreateAppointment Use Case', () => {
   let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
   let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
   let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+  let mockStylistAssignmentService: jest.Mocked<StylistAssignmentService>;
+  let appointmentDurationService: AppointmentDurationService;
 
   // Utilidades de fecha dinámicas y mantenibles
   const getNextMonday = (hoursFromNow: number = 48): Date => {
@@ -189,7 +207,7 @@ describe('CreateAppointment Use Case', () => {
     mockScheduleRepository.findAll.mockResolvedValue([schedule]);
     mockAppointmentRepository.findConflictingAppointments.mockResolvedValue([]);
     mockAppointmentRepository.findByClientAndDateRange.mockResolvedValue([]);
-    mockAppointmentRepository.save.mockResolvedValue(appointment);
+    mockAppointmentRepository.saveIfNoConflicts.mockResolvedValue(appointment);
 
     // Mock del servicio de disponibilidad — retorna horario regular por defecto
     mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue({
@@ -205,6 +223,8 @@ describe('CreateAppointment Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -283,6 +303,18 @@ describe('CreateAppointment Use Case', () => {
         endTime: '18:00',
         source: 'regular',
       }),
+      // Por defecto el estilista no tiene turnos propios y hereda el horario del salón
+      getEffectiveStylistSchedule: jest.fn(async (date: Date) => {
+        const salon = await mockScheduleAvailabilityService.getEffectiveSchedule(date);
+        return (
+          salon && {
+            ...salon,
+            intervals: [{ startTime: salon.startTime, endTime: salon.endTime }],
+            hasCustomShifts: false,
+            absences: [],
+          }
+        );
+      }),
       isDayClosed: jest.fn().mockResolvedValue(false),
     } as unknown as jest.Mocked<ScheduleAvailabilityService>;
 
@@ -293,14 +325,50 @@ describe('CreateAppointment Use Case', () => {
       ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
     } as unknown as jest.Mocked<UserRoleValidationService>;
 
+    // Mock de StylistAssignmentService — por defecto asigna validStylistId
+    const assignedStylist = { id: validStylistId, name: 'Jane Stylist' };
+    mockStylistAssignmentService = {
+      findEligibleStylists: jest.fn().mockResolvedValue([assignedStylist]),
+      assignStylist: jest.fn().mockResolvedValue(assignedStylist),
+    } as unknown as jest.Mocked<StylistAssignmentService>;
+
+    // AppointmentDurationService real para la duración; por defecto los servicios no reservan buffers
+    appointmentDurationService = new AppointmentDurationService(
+      mockServiceRepository,
+      mockStylistServiceRepository,
+    );
+    jest
+      .spyOn(appointmentDurationService, 'calculateBuffer')
+      .mockResolvedValue({ before: 0, after: 0 });
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockSlotHoldService = {
+      findBlockingHolds: jest.fn().mockResolvedValue([]),
+      claimHolds: jest.fn().mockResolvedValue(undefined),
+      resolveCheckoutHold: jest.fn(),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
     useCase = new CreateAppointment(
       mockAppointmentRepository,
       mockAppointmentStatusRepository,
-      mockScheduleRepository,
-      mockServiceRepository,
-      mockStylistServiceRepository,
-      mockScheduleAvailabilityService,
       mockUserRoleValidationService,
+      mockStylistAssignmentService,
+      appointmentDurationService,
+      mockAppointmentHistoryService,
+      mockSlotHoldService,
+      new BookingValidationService(
+        mockAppointmentRepository,
+        mockAppointmentStatusRepository,
+        mockScheduleRepository,
+        mockServiceRepository,
+        mockStylistServiceRepository,
+        mockScheduleAvailabilityService,
+        mockSlotHoldService,
+      ),
     );
   });
 
@@ -319,9 +387,9 @@ describe('CreateAppointment Use Case', () => {
 
       setupBasicSuccessfulMocks(appointment);
 
-      const result = await useCase.execute(validCreateDto, validUserId);
+      const result = await useCase.execute(validCreateDto, validUserId, 'CLIENT');
 
-      expect(mockAppointmentRepository.save).toHaveBeenCalled();
+      expect(mockAppointmentRepository.saveIfNoConflicts).toHaveBeenCalled();
       expect(result.id).toBe(appointment.id);
       expect(result.clientId).toBe(validClientId);
       expect(result.stylistId).toBe(validStylistId);
@@ -337,9 +405,9 @@ describe('CreateAppointment Use Case', () => {
 
       setupBasicSuccessfulMocks(appointment);
 
-      const result = await useCase.execute(minimalCreateDto, validUserId);
+      const result = await useCase.execute(minimalCreateDto, validUserId, 'CLIENT');
 
-      expect(mockAppointmentRepository.save).toHaveBeenCalled();
+      expect(mockAppointmentRepository.saveIfNoConflicts).toHaveBeenCalled();
       expect(result.id).toBe(appointment.id);
       expect(result.clientId).toBe(validClientId);
     });
@@ -349,7 +417,7 @@ describe('CreateAppointment Use Case', () => {
       const appointment = createMockAppointment();
       setupBasicSuccessfulMocks(appointment);
 
-      const result = await useCase.execute(validCreateDto, validUserId);
+      const result = await useCase.execute(validCreateDto, validUserId, 'CLIENT');
 
       expect(result.dateTime).toBe(appointment.dateTime.toISOString());
       expect(result.createdAt).toBe(appointment.createdAt.toISOString());
@@ -361,7 +429,7 @@ describe('CreateAppointment Use Case', () => {
   describe('Input Validation', () => {
     // Debería lanzar error para userId vacío
     it('should throw error for empty userId', async () => {
-      await expect(useCase.execute(validCreateDto, '')).rejects.toThrow(
+      await expect(useCase.execute(validCreateDto, '', 'CLIENT')).rejects.toThrow(
         new ValidationError('User ID is required'),
       );
     });
@@ -373,7 +441,7 @@ describe('CreateAppointment Use Case', () => {
         clientId: '',
       };
 
-      await expect(useCase.execute(invalidDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(invalidDto, validUserId, 'CLIENT')).rejects.toThrow(
         new ValidationError('Client ID is required'),
       );
     });
@@ -385,7 +453,7 @@ describe('CreateAppointment Use Case', () => {
         dateTime: '',
       };
 
-      await expect(useCase.execute(invalidDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(invalidDto, validUserId, 'CLIENT')).rejects.toThrow(
         new ValidationError('Appointment date and time is required'),
       );
     });
@@ -397,7 +465,7 @@ describe('CreateAppointment Use Case', () => {
         serviceIds: [],
       };
 
-      await expect(useCase.execute(invalidDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(invalidDto, validUserId, 'CLIENT')).rejects.toThrow(
         new ValidationError('At least one service must be selected'),
       );
     });
@@ -409,7 +477,7 @@ describe('CreateAppointment Use Case', () => {
         dateTime: 'invalid-date-format',
       };
 
-      await expect(useCase.execute(invalidDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(invalidDto, validUserId, 'CLIENT')).rejects.toThrow(
         new ValidationError('Invalid date format'),
       );
     });
@@ -421,7 +489,7 @@ describe('CreateAppointment Use Case', () => {
         dateTime: getPastDate(1).toISOString(),
       };
 
-      await expect(useCase.execute(pastDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(pastDto, validUserId, 'CLIENT')).rejects.toThrow(
         new ValidationError('Appointment cannot be scheduled in the past'),
       );
     });
@@ -437,7 +505,7 @@ describe('CreateAppointment Use Case', () => {
         }
       });
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
         new NotFoundError('Client', validClientId),
       );
     });
@@ -450,7 +518,7 @@ describe('CreateAppointment Use Case', () => {
         }
       });
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
         new BusinessRuleError('The specified user is not a client'),
       );
     });
@@ -463,7 +531,7 @@ describe('CreateAppointment Use Case', () => {
         }
       });
 
-      await expect(useCase.execute(minimalCreateDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(minimalCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
         new NotFoundError('Client', validClientId),
       );
     });
@@ -478,7 +546,7 @@ describe('CreateAppointment Use Case', () => {
         }
       });
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
         new NotFoundError('Stylist', validStylistId),
       );
     });
@@ -487,7 +555,7 @@ describe('CreateAppointment Use Case', () => {
     it('should throw NotFoundError when service does not exist', async () => {
       mockServiceRepository.findById.mockResolvedValue(null);
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
         new NotFoundError('Service', validServiceId1),
       );
     });
@@ -499,7 +567,7 @@ describe('CreateAppointment Use Case', () => {
 
       mockServiceRepository.findById.mockResolvedValue(inactiveService);
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(BusinessRuleError);
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(BusinessRuleError);
     });
 
     // Debería lanzar BusinessRuleError cuando el estilista no tiene asignado el servicio
@@ -509,7 +577,7 @@ describe('CreateAppointment Use Case', () => {
       mockServiceRepository.findById.mockResolvedValue(service);
       mockStylistServiceRepository.findByStylistAndService.mockResolvedValue(null);
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(BusinessRuleError);
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(BusinessRuleError);
     });
 
     // Debería lanzar BusinessRuleError cuando el estilista no está ofreciendo el servicio actualmente
@@ -526,7 +594,7 @@ describe('CreateAppointment Use Case', () => {
         notOfferingAssignment as any,
       );
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(BusinessRuleError);
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(BusinessRuleError);
     });
   });
 
@@ -544,7 +612,7 @@ describe('CreateAppointment Use Case', () => {
       const appointment = createMockAppointment();
       setupBasicSuccessfulMocks(appointment);
 
-      await expect(useCase.execute(earlyDto, validUserId)).rejects.toThrow(BusinessRuleError);
+      await expect(useCase.execute(earlyDto, validUserId, 'CLIENT')).rejects.toThrow(BusinessRuleError);
     });
 
     // Debería lanzar BusinessRuleError cuando la cita termina después del horario laboral
@@ -561,7 +629,233 @@ describe('CreateAppointment Use Case', () => {
       const appointment = createMockAppointment();
       setupBasicSuccessfulMocks(appointment);
 
-      await expect(useCase.execute(lateDto, validUserId)).rejects.toThrow(BusinessRuleError);
+      await expect(useCase.execute(lateDto, validUserId, 'CLIENT')).rejects.toThrow(BusinessRuleError);
+    });
+  });
+
+  describe('Stylist Shift Validation', () => {
+    // Debería rechazar la cita si el estilista no trabaja ese día
+    it('should throw BusinessRuleError when the stylist does not work on the selected date', async () => {
+      setupBasicSuccessfulMocks();
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError('The selected stylist does not work on the selected date'),
+      );
+      expect(mockAppointmentRepository.saveIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // Debería rechazar la cita si cruza el descanso del estilista
+    it('should throw BusinessRuleError when the appointment overlaps the stylist break', async () => {
+      const date = getNextMonday(48);
+      date.setUTCHours(12, 30, 0, 0); // 12:30-13:30 cruza el descanso de 13:00
+
+      setupBasicSuccessfulMocks();
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [
+          { startTime: '09:00', endTime: '13:00' },
+          { startTime: '14:00', endTime: '18:00' },
+        ],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      await expect(
+        useCase.execute({ ...validCreateDto, dateTime: date.toISOString() }, validUserId, 'CLIENT'),
+      ).rejects.toThrow(/outside the stylist's working hours \(09:00-13:00, 14:00-18:00\)/);
+    });
+
+    // Debería aceptar la cita si cabe en uno de los tramos del estilista
+    it('should create appointment when it fits within a stylist shift interval', async () => {
+      const date = getNextMonday(48);
+      date.setUTCHours(14, 0, 0, 0);
+
+      setupBasicSuccessfulMocks();
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [
+          { startTime: '09:00', endTime: '13:00' },
+          { startTime: '14:00', endTime: '18:00' },
+        ],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      await useCase.execute({ ...validCreateDto, dateTime: date.toISOString() }, validUserId, 'CLIENT');
+
+      expect(mockAppointmentRepository.saveIfNoConflicts).toHaveBeenCalled();
+    });
+
+    // Debería rechazar la cita si el estilista está ausente en ese horario
+    it('should throw BusinessRuleError when the stylist is absent at the selected time', async () => {
+      const date = getNextMonday(48);
+      date.setUTCHours(10, 0, 0, 0);
+      const absenceStart = new Date(date);
+      absenceStart.setUTCHours(10, 30, 0, 0);
+      const absenceEnd = new Date(date);
+      absenceEnd.setUTCHours(12, 0, 0, 0);
+
+      setupBasicSuccessfulMocks();
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [
+          { startTime: '09:00', endTime: '10:30' },
+          { startTime: '12:00', endTime: '18:00' },
+        ],
+        hasCustomShifts: false,
+        absences: [
+          StylistAbsence.create(validStylistId, AbsenceTypeEnum.PERSONAL, absenceStart, absenceEnd),
+        ],
+      });
+
+      await expect(
+        useCase.execute({ ...validCreateDto, dateTime: date.toISOString() }, validUserId, 'CLIENT'),
+      ).rejects.toThrow(new BusinessRuleError('The selected stylist is absent at the selected time'));
+    });
+  });
+
+  describe('Duration Calculation', () => {
+    // Debería reservar la duración máxima de cada servicio (duración + variación)
+    it('should reserve the maximum duration of each service', async () => {
+      setupBasicSuccessfulMocks();
+
+      await useCase.execute(validCreateDto, validUserId, 'CLIENT');
+
+      expect(mockAppointmentRepository.saveIfNoConflicts.mock.calls[0][0].duration).toBe(75);
+    });
+
+    // La duración explícita tiene prioridad sobre la de los servicios
+    it('should prefer an explicit duration over the services duration', async () => {
+      setupBasicSuccessfulMocks();
+
+      await useCase.execute({ ...validCreateDto, duration: 45 }, validUserId, 'CLIENT');
+
+      expect(mockAppointmentRepository.saveIfNoConflicts.mock.calls[0][0].duration).toBe(45);
+    });
+
+    // Debería buscar conflictos con los buffers del estilista y guardarlos en la cita
+    it('should check conflicts with the stylist buffers and store them on the appointment', async () => {
+      setupBasicSuccessfulMocks();
+      jest
+        .spyOn(appointmentDurationService, 'calculateBuffer')
+        .mockResolvedValue({ before: 10, after: 20 });
+
+      await useCase.execute(validCreateDto, validUserId, 'CLIENT');
+
+      expect(appointmentDurationService.calculateBuffer).toHaveBeenCalledWith(
+        [validServiceId1],
+        validStylistId,
+      );
+      expect(mockAppointmentRepository.findConflictingAppointments).toHaveBeenCalledWith(
+        new Date(validCreateDto.dateTime),
+        75,
+        validStylistId,
+        undefined,
+        { before: 10, after: 20 },
+      );
+      const savedAppointment = mockAppointmentRepository.saveIfNoConflicts.mock.calls[0][0];
+      expect(savedAppointment.bufferBefore).toBe(10);
+      expect(savedAppointment.bufferAfter).toBe(20);
+    });
+  });
+
+  describe('Automatic Stylist Assignment', () => {
+    // Sin estilista debería asignar uno con la estrategia solicitada
+    it('should assign a stylist using the requested strategy when none is provided', async () => {
+      setupBasicSuccessfulMocks();
+
+      await useCase.execute(
+        { ...minimalCreateDto, assignmentStrategy: StylistAssignmentStrategyEnum.ROUND_ROBIN },
+        validUserId,
+        'CLIENT',
+      );
+
+      expect(mockStylistAssignmentService.findEligibleStylists).toHaveBeenCalledWith([
+        validServiceId1,
+      ]);
+      expect(mockStylistAssignmentService.assignStylist).toHaveBeenCalledWith(
+        {
+          dateTime: new Date(minimalCreateDto.dateTime),
+          duration: 75,
+          serviceIds: [validServiceId1],
+          clientId: validClientId,
+          strategy: StylistAssignmentStrategyEnum.ROUND_ROBIN,
+        },
+        [{ id: validStylistId, name: 'Jane Stylist' }],
+      );
+      expect(mockScheduleAvailabilityService.getEffectiveStylistSchedule).toHaveBeenCalledWith(
+        toSalonDate(new Date(minimalCreateDto.dateTime)),
+        validStylistId,
+      );
+      expect(mockAppointmentRepository.findConflictingAppointments).toHaveBeenCalledWith(
+        new Date(minimalCreateDto.dateTime),
+        75,
+        validStylistId,
+        undefined,
+        { before: 0, after: 0 },
+      );
+      expect(mockAppointmentRepository.saveIfNoConflicts.mock.calls[0][0].stylistId).toBe(
+        validStylistId,
+      );
+    });
+
+    // Con estilista explícito no debería ejecutarse la asignación
+    it('should not run the assignment when a stylist is provided', async () => {
+      setupBasicSuccessfulMocks();
+
+      await useCase.execute(validCreateDto, validUserId, 'CLIENT');
+
+      expect(mockStylistAssignmentService.findEligibleStylists).not.toHaveBeenCalled();
+      expect(mockStylistAssignmentService.assignStylist).not.toHaveBeenCalled();
+    });
+
+    // Debería lanzar BusinessRuleError si ningún estilista ofrece los servicios
+    it('should throw BusinessRuleError when no stylist offers the services', async () => {
+      setupBasicSuccessfulMocks();
+      mockStylistAssignmentService.findEligibleStylists.mockResolvedValue([]);
+
+      await expect(useCase.execute(minimalCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError('No stylist currently offers the requested combination of services'),
+      );
+      expect(mockAppointmentRepository.saveIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // Debería lanzar ConflictError si ningún estilista elegible está libre
+    it('should throw ConflictError when no eligible stylist is free', async () => {
+      setupBasicSuccessfulMocks();
+      mockStylistAssignmentService.assignStylist.mockResolvedValue(null);
+
+      await expect(useCase.execute(minimalCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('No stylist is available for the selected services at this time'),
+      );
+      expect(mockAppointmentRepository.saveIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // El cierre del salón se informa antes de buscar estilistas
+    it('should report a closed salon before looking for stylists', async () => {
+      setupBasicSuccessfulMocks();
+      mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue(null);
+
+      await expect(useCase.execute(minimalCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError(
+          'The salon is closed on the selected date (holiday or no schedule available)',
+        ),
+      );
+      expect(mockStylistAssignmentService.findEligibleStylists).not.toHaveBeenCalled();
     });
   });
 
@@ -585,10 +879,161 @@ describe('CreateAppointment Use Case', () => {
         conflictingAppointment,
       ]);
 
-      await expect(useCase.execute(validCreateDto, validUserId)).rejects.toThrow(
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
         new ConflictError('There are conflicting appointments at this time'),
       );
     });
+
+    // Debería lanzar ConflictError cuando el turno está reservado para otro cliente
+    it('should throw ConflictError when the slot is held for another client', async () => {
+      const appointment = createMockAppointment();
+      setupBasicSuccessfulMocks(appointment);
+      const appointmentDate = new Date(validCreateDto.dateTime);
+      mockSlotHoldService.findBlockingHolds.mockResolvedValue([
+        SlotHold.create(validStylistId, appointmentDate, 60, 15, [generateUuid()]),
+      ]);
+
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('This time slot is temporarily held for another client'),
+      );
+      expect(mockSlotHoldService.findBlockingHolds).toHaveBeenCalledWith(
+        validStylistId,
+        appointmentDate,
+        expect.any(Date),
+        validClientId,
+        { before: 0, after: 0 },
+      );
+      expect(mockAppointmentRepository.saveIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // Debería lanzar ConflictError si otra reserva ocupó el turno antes de guardar
+    it('should throw ConflictError when the slot is taken between validation and save', async () => {
+      setupBasicSuccessfulMocks();
+      mockAppointmentRepository.saveIfNoConflicts.mockResolvedValue(null);
+
+      await expect(useCase.execute(validCreateDto, validUserId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('There are conflicting appointments at this time'),
+      );
+      expect(mockAppointmentHistoryService.recordCreated).not.toHaveBeenCalled();
+      expect(mockSlotHoldService.claimHolds).not.toHaveBeenCalled();
+    });
+
+    // Entre varias reservas simultáneas del mismo turno, solo una debería guardarse
+    it('should let only one of several parallel bookings succeed', async () => {
+      setupBasicSuccessfulMocks();
+      // El repositorio serializa los guardados: solo el primero encuentra el turno libre
+      let booked = false;
+      mockAppointmentRepository.saveIfNoConflicts.mockImplementation(async (appointment) => {
+        if (booked) return null;
+        booked = true;
+        return appointment;
+      });
+
+      const results = await Promise.allSettled(
+        Array.from({ length: 5 }, () => useCase.execute(validCreateDto, validUserId, 'CLIENT')),
+      );
+
+      expect(results.filter((result) => result.status === 'fulfilled')).toHaveLength(1);
+      const rejected = results.filter(
+        (result): result is PromiseRejectedResult => result.status === 'rejected',
+      );
+      expect(rejected).toHaveLength(4);
+      rejected.forEach((result) => expect(result.reason).toBeInstanceOf(ConflictError));
+    });
+
+    // Debería usar las reservas a nombre del cliente al crear la cita
+    it('should claim the client holds after saving the appointment', async () => {
+      const appointment = createMockAppointment();
+      setupBasicSuccessfulMocks(appointment);
+
+      await useCase.execute(validCreateDto, validUserId, 'CLIENT');
+
+      expect(mockSlotHoldService.claimHolds).toHaveBeenCalledWith(appointment);
+    });
+  });
+
+  describe('Checkout Hold', () => {
+    const holdToken = generateUuid();
+    const createCheckoutHold = (duration: number = 75): SlotHold =>
+      SlotHold.createForCheckout(
+        validStylistId,
+        new Date(minimalCreateDto.dateTime),
+        duration,
+        5,
+        validClientId,
+      );
+
+    // Con token, la cita usa el estilista de la reserva sin asignación automática
+    it('should book the held slot with its stylist', async () => {
+      setupBasicSuccessfulMocks();
+      mockSlotHoldService.resolveCheckoutHold.mockResolvedValue(createCheckoutHold());
+
+      await useCase.execute({ ...minimalCreateDto, holdToken }, validUserId, 'CLIENT');
+
+      expect(mockSlotHoldService.resolveCheckoutHold).toHaveBeenCalledWith(
+        holdToken,
+        validClientId,
+      );
+      expect(mockStylistAssignmentService.assignStylist).not.toHaveBeenCalled();
+      expect(mockAppointmentRepository.saveIfNoConflicts.mock.calls[0][0].stylistId).toBe(
+        validStylistId,
+      );
+    });
+
+    // Debería rechazar una cita en otro horario que el retenido
+    it('should reject an appointment at a different time than the hold', async () => {
+      setupBasicSuccessfulMocks();
+      const laterStart = new Date(new Date(minimalCreateDto.dateTime).getTime() + 60 * 60000);
+      mockSlotHoldService.resolveCheckoutHold.mockResolvedValue(
+        SlotHold.createForCheckout(validStylistId, laterStart, 75, 5, validClientId),
+      );
+
+      await expect(
+        useCase.execute(
+          { ...minimalCreateDto, holdToken },
+          validUserId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(new ValidationError('Appointment date and time must match the slot hold'));
+    });
+
+    // Debería rechazar otro estilista que el de la reserva
+    it('should reject a different stylist than the hold', async () => {
+      setupBasicSuccessfulMocks();
+      mockSlotHoldService.resolveCheckoutHold.mockResolvedValue(createCheckoutHold());
+
+      await expect(
+        useCase.execute(
+          { ...minimalCreateDto, stylistId: generateUuid(), holdToken },
+          validUserId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(new ValidationError('Appointment stylist must match the slot hold'));
+    });
+
+    // Debería rechazar una cita más larga que el turno retenido
+    it('should reject an appointment longer than the held slot', async () => {
+      setupBasicSuccessfulMocks();
+      mockSlotHoldService.resolveCheckoutHold.mockResolvedValue(createCheckoutHold(30));
+
+      await expect(
+        useCase.execute({ ...minimalCreateDto, holdToken }, validUserId, 'CLIENT'),
+      ).rejects.toThrow(new BusinessRuleError('The appointment is longer than the held slot'));
+      expect(mockAppointmentRepository.saveIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // Debería propagar el vencimiento de la reserva
+    it('should propagate an expired hold', async () => {
+      setupBasicSuccessfulMocks();
+      mockSlotHoldService.resolveCheckoutHold.mockRejectedValue(
+        new ConflictError('The slot hold has expired'),
+      );
+
+      await expect(
+        useCase.execute({ ...minimalCreateDto, holdToken }, validUserId, 'CLIENT'),
+      ).rejects.toThrow(new ConflictError('The slot hold has expired'));
+      expect(mockAppointmentRepository.saveIfNoConflicts).not.toHaveBeenCalled();
+    });
   });
 
   describe('Repository Integration', () => {
@@ -597,7 +1042,7 @@ describe('CreateAppointment Use Case', () => {
       const appointment = createMockAppointment();
       setupBasicSuccessfulMocks(appointment);
 
-      await useCase.execute(validCreateDto, validUserId);
+      await useCase.execute(validCreateDto, validUserId, 'CLIENT');
 
       expect(mockUserRoleValidationService.ensureUserHasRole).toHaveBeenCalledWith(
         validClientId,
@@ -610,7 +1055,7 @@ describe('CreateAppointment Use Case', () => {
       expect(mockServiceRepository.findById).toHaveBeenCalledWith(validServiceId1);
       expect(mockAppointmentStatusRepository.findByName).toHaveBeenCalledWith('PENDING');
       expect(mockScheduleRepository.findAll).toHaveBeenCalled();
-      expect(mockAppointmentRepository.save).toHaveBeenCalled();
+      expect(mockAppointmentRepository.saveIfNoConflicts).toHaveBeenCalled();
     });
   });
 });
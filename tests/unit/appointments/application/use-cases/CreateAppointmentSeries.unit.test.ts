@@ -0,0 +1,200 @@
+import { CreateAppointmentSeries } from '../../../../../src/modules/appointments/application/use-cases/CreateAppointmentSeries';
+import { CreateAppointment } from '../../../../../src/modules/appointments/application/use-cases/CreateAppointment';
+import { IAppointmentSeriesRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentSeriesRepository';
+import { IHolidayRepository } from '../../../../../src/modules/holidays/domain/repositories/IHolidayRepository';
+import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { AppointmentSeries } from '../../../../../src/modules/appointments/domain/entities/AppointmentSeries';
+import { Holiday } from '../../../../../src/modules/holidays/domain/entities/Holiday';
+import { CreateAppointmentSeriesDto } from '../../../../../src/modules/appointments/application/dto/request/CreateAppointmentSeriesDto';
+import { AppointmentDto } from '../../../../../src/modules/appointments/application/dto/response/AppointmentDto';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CreateAppointmentSeries Use Case', () => {
+  let useCase: CreateAppointmentSeries;
+  let mockAppointmentSeriesRepository: jest.Mocked<IAppointmentSeriesRepository>;
+  let mockCreateAppointment: jest.Mocked<CreateAppointment>;
+  let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
+  let mockHolidayRepository: jest.Mocked<IHolidayRepository>;
+
+  const userId = generateUuid();
+  const clientId = generateUuid();
+  const stylistId = generateUuid();
+  const serviceIds = [generateUuid()];
+
+  // Primera ocurrencia dentro de una semana, a las 10:00 UTC
+  const firstOccurrence = new Date();
+  firstOccurrence.setUTCDate(firstOccurrence.getUTCDate() + 7);
+  firstOccurrence.setUTCHours(10, 0, 0, 0);
+
+  const weeksAfterFirst = (weeks: number): string =>
+    new Date(firstOccurrence.getTime() + weeks * 7 * 24 * 60 * 60 * 1000).toISOString();
+
+  const buildDto = (
+    overrides: Partial<CreateAppointmentSeriesDto> = {},
+  ): CreateAppointmentSeriesDto => ({
+    dateTime: firstOccurrence.toISOString(),
+    clientId,
+    stylistId,
+    serviceIds,
+    recurrence: { intervalWeeks: 1, occurrences: 3 },
+    ...overrides,
+  });
+
+  const bookedAppointment = (dateTime: string): AppointmentDto =>
+    ({ id: generateUuid(), dateTime }) as AppointmentDto;
+
+  beforeEach(() => {
+    mockAppointmentSeriesRepository = {
+      save: jest.fn().mockImplementation(async (series: AppointmentSeries) => series),
+      findById: jest.fn(),
+      delete: jest.fn(),
+    } as unknown as jest.Mocked<IAppointmentSeriesRepository>;
+
+    mockCreateAppointment = {
+      execute: jest.fn().mockImplementation(async (dto) => bookedAppointment(dto.dateTime)),
+    } as unknown as jest.Mocked<CreateAppointment>;
+
+    mockScheduleAvailabilityService = {
+      isDayClosed: jest.fn().mockResolvedValue(false),
+    } as unknown as jest.Mocked<ScheduleAvailabilityService>;
+
+    mockHolidayRepository = {
+      findByDate: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IHolidayRepository>;
+
+    useCase = new CreateAppointmentSeries(
+      mockAppointmentSeriesRepository,
+      mockCreateAppointment,
+      mockScheduleAvailabilityService,
+      mockHolidayRepository,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Successful creation', () => {
+    // Debería reservar todas las ocurrencias con el seriesId
+    it('should book every occurrence linked to the series', async () => {
+      const result = await useCase.execute(buildDto(), userId, 'CLIENT');
+
+      expect(result.bookedCount).toBe(3);
+      expect(result.skippedCount).toBe(0);
+      expect(result.occurrences.map((occurrence) => occurrence.dateTime)).toEqual([
+        weeksAfterFirst(0),
+        weeksAfterFirst(1),
+        weeksAfterFirst(2),
+      ]);
+      expect(mockCreateAppointment.execute).toHaveBeenCalledTimes(3);
+      expect(mockCreateAppointment.execute).toHaveBeenCalledWith(
+        expect.objectContaining({ dateTime: weeksAfterFirst(1), clientId, stylistId, serviceIds }),
+        userId,
+        'CLIENT',
+        result.series.id,
+      );
+    });
+
+    // Debería calcular las ocurrencias a partir de una fecha límite
+    it('should derive the occurrences from an until date', async () => {
+      const result = await useCase.execute(
+        buildDto({ recurrence: { intervalWeeks: 2, until: weeksAfterFirst(4) } }),
+        userId,
+        'CLIENT',
+      );
+
+      expect(result.series.occurrences).toBe(3);
+      expect(result.occurrences.map((occurrence) => occurrence.dateTime)).toEqual([
+        weeksAfterFirst(0),
+        weeksAfterFirst(2),
+        weeksAfterFirst(4),
+      ]);
+    });
+
+    // Debería reportar feriados y conflictos sin detener el resto de la serie
+    it('should report holidays and conflicts per occurrence', async () => {
+      mockScheduleAvailabilityService.isDayClosed.mockImplementation(
+        async (date: Date) => date.getUTCDate() === new Date(weeksAfterFirst(1)).getUTCDate(),
+      );
+      mockHolidayRepository.findByDate.mockResolvedValue(
+        Holiday.create(generateUuid(), 'Día de la Independencia', new Date(weeksAfterFirst(1))),
+      );
+      mockCreateAppointment.execute.mockImplementation(async (dto) => {
+        if (dto.dateTime === weeksAfterFirst(2)) {
+          throw new ConflictError('Stylist already has an appointment at this time');
+        }
+        return bookedAppointment(dto.dateTime);
+      });
+
+      const result = await useCase.execute(buildDto(), userId, 'CLIENT');
+
+      expect(result.bookedCount).toBe(1);
+      expect(result.skippedCount).toBe(2);
+      expect(result.occurrences.map((occurrence) => occurrence.status)).toEqual([
+        'BOOKED',
+        'HOLIDAY',
+        'CONFLICT',
+      ]);
+      expect(result.occurrences[1].reason).toBe('Holiday: Día de la Independencia');
+      expect(result.occurrences[2].reason).toBe('Stylist already has an appointment at this time');
+      expect(mockAppointmentSeriesRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería exigir exactamente una de occurrences o until
+    it('should require either occurrences or until', async () => {
+      await expect(
+        useCase.execute(
+          buildDto({
+            recurrence: { intervalWeeks: 1, occurrences: 3, until: weeksAfterFirst(2) },
+          }),
+          userId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(new ValidationError('Recurrence must define either occurrences or until'));
+      expect(mockAppointmentSeriesRepository.save).not.toHaveBeenCalled();
+    });
+
+    // Debería rechazar series que superen el horizonte de reserva
+    it('should reject series beyond the booking horizon', async () => {
+      await expect(
+        useCase.execute(
+          buildDto({ recurrence: { intervalWeeks: 4, occurrences: 8 } }),
+          userId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(new ValidationError('Series cannot extend more than 6 months in advance'));
+      expect(mockAppointmentSeriesRepository.save).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Rollback', () => {
+    // Debería eliminar la serie si no se reservó ninguna ocurrencia
+    it('should delete the series when no occurrence could be booked', async () => {
+      mockCreateAppointment.execute.mockRejectedValue(
+        new BusinessRuleError('Stylist is not available at this time'),
+      );
+
+      await expect(useCase.execute(buildDto(), userId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError(
+          'None of the series occurrences could be booked (first occurrence: Stylist is not available at this time)',
+        ),
+      );
+      expect(mockAppointmentSeriesRepository.delete).toHaveBeenCalledTimes(1);
+    });
+
+    // Debería propagar errores no relacionados con la fecha y deshacer la serie
+    it('should propagate unexpected errors and delete the empty series', async () => {
+      mockCreateAppointment.execute.mockRejectedValue(new NotFoundError('Client', clientId));
+
+      await expect(useCase.execute(buildDto(), userId, 'CLIENT')).rejects.toThrow(NotFoundError);
+      expect(mockCreateAppointment.execute).toHaveBeenCalledTimes(1);
+      expect(mockAppointmentSeriesRepository.delete).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,111 @@
+import { CreateSchedule } from '../../../../../src/modules/appointments/application/use-cases/CreateSchedule';
+import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
+import { IHolidayRepository } from '../../../../../src/modules/holidays/domain/repositories/IHolidayRepository';
+import {
+  DayOfWeekEnum,
+  Schedule,
+} from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { CreateScheduleDto } from '../../../../../src/modules/appointments/application/dto/request/CreateScheduleDto';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CreateSchedule Use Case', () => {
+  let useCase: CreateSchedule;
+  let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
+  let mockHolidayRepository: jest.Mocked<IHolidayRepository>;
+
+  const validDto: CreateScheduleDto = {
+    dayOfWeek: DayOfWeekEnum.MONDAY,
+    startTime: '09:00',
+    endTime: '18:00',
+  };
+
+  beforeEach(() => {
+    mockScheduleRepository = {
+      save: jest.fn(async (schedule: Schedule) => schedule),
+      findByDayOfWeek: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IScheduleRepository>;
+
+    mockHolidayRepository = {
+      findById: jest.fn(),
+    } as unknown as jest.Mocked<IHolidayRepository>;
+
+    useCase = new CreateSchedule(mockScheduleRepository, mockHolidayRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Successful Execution', () => {
+    // Debería crear un horario regular válido
+    it('should create a regular schedule', async () => {
+      const result = await useCase.execute(validDto);
+
+      expect(mockScheduleRepository.findByDayOfWeek).toHaveBeenCalledWith(DayOfWeekEnum.MONDAY);
+      expect(mockScheduleRepository.save).toHaveBeenCalled();
+      expect(result).toMatchObject({
+        dayOfWeek: DayOfWeekEnum.MONDAY,
+        startTime: '09:00',
+        endTime: '18:00',
+        durationInMinutes: 540,
+      });
+    });
+
+    // Un horario de feriado no choca con el horario regular del mismo día
+    it('should ignore schedules of a different scope', async () => {
+      const holidayId = generateUuid();
+      mockHolidayRepository.findById.mockResolvedValue({ id: holidayId } as never);
+      mockScheduleRepository.findByDayOfWeek.mockResolvedValue([
+        Schedule.create(DayOfWeekEnum.MONDAY, '09:00', '18:00'),
+      ]);
+
+      const result = await useCase.execute({ ...validDto, startTime: '10:00', holidayId });
+
+      expect(result.holidayId).toBe(holidayId);
+      expect(mockScheduleRepository.save).toHaveBeenCalled();
+    });
+  });
+
+  describe('Validation', () => {
+    // Horario solapado con otro del mismo día
+    it('should throw ConflictError when overlapping another regular schedule', async () => {
+      mockScheduleRepository.findByDayOfWeek.mockResolvedValue([
+        Schedule.create(DayOfWeekEnum.MONDAY, '08:00', '10:00'),
+      ]);
+
+      await expect(useCase.execute(validDto)).rejects.toThrow(ConflictError);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    // Un segundo horario regular del mismo día, aunque no se solape, quedaría sin efecto
+    it('should throw ConflictError for a second non-overlapping regular schedule on the same day', async () => {
+      mockScheduleRepository.findByDayOfWeek.mockResolvedValue([
+        Schedule.create(DayOfWeekEnum.MONDAY, '09:00', '13:00'),
+      ]);
+
+      await expect(
+        useCase.execute({ ...validDto, startTime: '16:00', endTime: '20:00' }),
+      ).rejects.toThrow(ConflictError);
+      expect(mockScheduleRepository.save).not.toHaveBeenCalled();
+    });
+
+    // Rango horario inválido
+    it('should throw ValidationError when the end time is before the start time', async () => {
+      await expect(
+        useCase.execute({ ...validDto, startTime: '18:00', endTime: '09:00' }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    // Feriado inexistente
+    it('should throw NotFoundError when the holiday does not exist', async () => {
+      mockHolidayRepository.findById.mockResolvedValue(null);
+
+      await expect(useCase.execute({ ...validDto, holidayId: generateUuid() })).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+});
@@ -0,0 +1,168 @@
+import { CreateSlotHold } from '../../../../../src/modules/appointments/application/use-cases/CreateSlotHold';
+import { CreateSlotHoldDto } from '../../../../../src/modules/appointments/application/dto/request/CreateSlotHoldDto';
+import { ISlotHoldRepository } from '../../../../../src/modules/appointments/domain/repositories/ISlotHoldRepository';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { StylistAssignmentService } from '../../../../../src/modules/appointments/domain/services/StylistAssignmentService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CreateSlotHold Use Case', () => {
+  let useCase: CreateSlotHold;
+  let mockSlotHoldRepository: jest.Mocked<ISlotHoldRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+  let mockStylistAssignmentService: jest.Mocked<StylistAssignmentService>;
+  let mockAppointmentDurationService: jest.Mocked<AppointmentDurationService>;
+
+  const clientId = generateUuid();
+  const serviceId = generateUuid();
+  const ana = { id: generateUuid(), name: 'Ana' };
+  const bruno = { id: generateUuid(), name: 'Bruno' };
+
+  const hoursFromNow = (hours: number): string =>
+    new Date(Date.now() + hours * 3600000).toISOString();
+
+  const createDto = (overrides: Partial<CreateSlotHoldDto> = {}): CreateSlotHoldDto => ({
+    clientId,
+    dateTime: hoursFromNow(48),
+    serviceIds: [serviceId],
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockSlotHoldRepository = {
+      saveIfSlotFree: jest.fn().mockImplementation(async (hold: SlotHold) => hold),
+      deleteCheckoutHoldsByClient: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ISlotHoldRepository>;
+
+    mockServiceRepository = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ id: serviceId, name: 'Corte', isActive: true } as Service),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    mockUserRoleValidationService = {
+      ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<UserRoleValidationService>;
+
+    mockStylistAssignmentService = {
+      findEligibleStylists: jest.fn().mockResolvedValue([ana, bruno]),
+      assignStylist: jest.fn().mockResolvedValue(ana),
+    } as unknown as jest.Mocked<StylistAssignmentService>;
+
+    mockAppointmentDurationService = {
+      calculateTotalDuration: jest.fn().mockResolvedValue(45),
+      calculateBuffer: jest.fn().mockResolvedValue({ before: 5, after: 10 }),
+    } as unknown as jest.Mocked<AppointmentDurationService>;
+
+    useCase = new CreateSlotHold(
+      mockSlotHoldRepository,
+      mockServiceRepository,
+      mockUserRoleValidationService,
+      mockStylistAssignmentService,
+      mockAppointmentDurationService,
+      5,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería retener el turno con el estilista asignado y devolver el token
+    it('should hold the slot with the assigned stylist and return its token', async () => {
+      const dto = createDto();
+      const before = Date.now();
+
+      const result = await useCase.execute(dto, clientId, 'CLIENT');
+
+      expect(mockSlotHoldRepository.deleteCheckoutHoldsByClient).toHaveBeenCalledWith(clientId);
+      expect(mockStylistAssignmentService.assignStylist).toHaveBeenCalledWith(
+        { dateTime: new Date(dto.dateTime), duration: 45, serviceIds: [serviceId], clientId },
+        [ana, bruno],
+      );
+      expect(result).toMatchObject({
+        clientId,
+        stylistId: ana.id,
+        dateTime: new Date(dto.dateTime).toISOString(),
+        duration: 45,
+      });
+      expect(result.token).toEqual(expect.any(String));
+      expect(mockAppointmentDurationService.calculateBuffer).toHaveBeenCalledWith(
+        [serviceId],
+        ana.id,
+      );
+      expect(mockSlotHoldRepository.saveIfSlotFree).toHaveBeenCalledWith(expect.any(SlotHold), {
+        before: 5,
+        after: 10,
+      });
+      expect(new Date(result.expiresAt).getTime()).toBeGreaterThanOrEqual(before + 5 * 60000);
+    });
+
+    // Con estilista elegido, solo se considera a ese estilista
+    it('should only consider the chosen stylist', async () => {
+      mockStylistAssignmentService.assignStylist.mockResolvedValue(bruno);
+
+      const result = await useCase.execute(
+        createDto({ stylistId: bruno.id }),
+        generateUuid(),
+        'ADMIN',
+      );
+
+      expect(mockStylistAssignmentService.assignStylist).toHaveBeenCalledWith(expect.anything(), [
+        bruno,
+      ]);
+      expect(result.stylistId).toBe(bruno.id);
+    });
+  });
+
+  describe('Validation', () => {
+    // Un cliente no puede retener turnos para otro cliente
+    it('should forbid a client from holding a slot for another client', async () => {
+      await expect(useCase.execute(createDto(), generateUuid(), 'CLIENT')).rejects.toThrow(
+        new ForbiddenError('You can only hold slots for yourself'),
+      );
+      expect(mockSlotHoldRepository.saveIfSlotFree).not.toHaveBeenCalled();
+    });
+
+    // Debería rechazar turnos en el pasado
+    it('should reject slots in the past', async () => {
+      await expect(
+        useCase.execute(createDto({ dateTime: hoursFromNow(-1) }), clientId, 'CLIENT'),
+      ).rejects.toThrow(new ValidationError('Cannot hold a slot in the past'));
+    });
+
+    // Debería fallar si el estilista elegido no ofrece los servicios
+    it('should reject a stylist who does not offer the services', async () => {
+      await expect(
+        useCase.execute(createDto({ stylistId: generateUuid() }), clientId, 'CLIENT'),
+      ).rejects.toThrow(
+        new BusinessRuleError('Stylist is not currently offering one of the selected services'),
+      );
+      expect(mockSlotHoldRepository.deleteCheckoutHoldsByClient).not.toHaveBeenCalled();
+    });
+
+    // Debería fallar si ningún estilista está libre en el turno
+    it('should throw ConflictError when the slot is not available', async () => {
+      mockStylistAssignmentService.assignStylist.mockResolvedValue(null);
+
+      await expect(useCase.execute(createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('The selected time slot is not available'),
+      );
+      expect(mockSlotHoldRepository.saveIfSlotFree).not.toHaveBeenCalled();
+    });
+
+    // Debería fallar si otro cliente tomó el turno mientras se verificaba (verificación atómica)
+    it('should throw ConflictError when the slot is taken before the hold is saved', async () => {
+      mockSlotHoldRepository.saveIfSlotFree.mockResolvedValue(null);
+
+      await expect(useCase.execute(createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('The selected time slot is not available'),
+      );
+    });
+  });
+});
@@ -0,0 +1,219 @@
+import { CreateStylistAbsence } from '../../../../../src/modules/appointments/application/use-cases/CreateStylistAbsence';
+import { IStylistAbsenceRepository } from '../../../../../src/modules/appointments/domain/repositories/IStylistAbsenceRepository';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
+import {
+  StylistAbsence,
+  AbsenceTypeEnum,
+} from '../../../../../src/modules/appointments/domain/entities/StylistAbsence';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { CreateStylistAbsenceDto } from '../../../../../src/modules/appointments/application/dto/request/CreateStylistAbsenceDto';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { WaitlistService } from '../../../../../src/modules/appointments/domain/services/WaitlistService';
+import { AppointmentCancelledEvent } from '../../../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
+
+describe('CreateStylistAbsence Use Case', () => {
+  let useCase: CreateStylistAbsence;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockStylistAbsenceRepository: jest.Mocked<IStylistAbsenceRepository>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+  let mockWaitlistService: jest.Mocked<WaitlistService>;
+  let mockEventBus: jest.Mocked<EventBus>;
+
+  const stylistId = generateUuid();
+  const adminId = generateUuid();
+  const pendingStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.PENDING);
+  const confirmedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CONFIRMED);
+  const cancelledStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CANCELLED);
+  const completedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.COMPLETED);
+
+  const validDto: CreateStylistAbsenceDto = {
+    type: AbsenceTypeEnum.PERSONAL,
+    startDateTime: '2026-12-01T10:00:00.000Z',
+    endDateTime: '2026-12-01T14:00:00.000Z',
+    reason: 'Doctor appointment',
+  };
+
+  const createMockAppointment = (dateTime: string, statusId: string, duration = 60) =>
+    new Appointment(
+      generateUuid(),
+      new Date(dateTime),
+      duration,
+      adminId,
+      generateUuid(),
+      generateUuid(),
+      statusId,
+      stylistId,
+      undefined,
+      [generateUuid()],
+      new Date(),
+      new Date(),
+    );
+
+  beforeEach(() => {
+    mockStylistAbsenceRepository = {
+      save: jest.fn(async (absence: StylistAbsence) => absence),
+      findById: jest.fn(),
+      findOverlapping: jest.fn().mockResolvedValue([]),
+      findByStylistId: jest.fn(),
+      delete: jest.fn(),
+    };
+
+    mockAppointmentRepository = {
+      findByStylistAndDateRange: jest.fn().mockResolvedValue([]),
+      update: jest.fn(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    const statusesByName: Record<string, AppointmentStatus> = {
+      [AppointmentStatusEnum.PENDING]: pendingStatus,
+      [AppointmentStatusEnum.CONFIRMED]: confirmedStatus,
+      [AppointmentStatusEnum.CANCELLED]: cancelledStatus,
+    };
+    mockAppointmentStatusRepository = {
+      findByName: jest.fn(async (name: string) => statusesByName[name] ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockUserRoleValidationService = {
+      ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<UserRoleValidationService>;
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockWaitlistService = {
+      offerFreedSlot: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<WaitlistService>;
+
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
+    useCase = new CreateStylistAbsence(
+      mockStylistAbsenceRepository,
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockUserRoleValidationService,
+      mockAppointmentHistoryService,
+      mockWaitlistService,
+      mockEventBus,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Successful Execution', () => {
+    // Un estilista puede registrar su propia ausencia
+    it('should let a stylist register their own absence', async () => {
+      const result = await useCase.execute(stylistId, validDto, stylistId, 'STYLIST');
+
+      expect(mockStylistAbsenceRepository.save).toHaveBeenCalled();
+      expect(result.absence.stylistId).toBe(stylistId);
+      expect(result.absence.startDateTime).toBe(validDto.startDateTime);
+      expect(result.affectedAppointments).toEqual([]);
+    });
+
+    // Informa las citas activas solapadas sin cancelarlas por defecto
+    it('should report overlapping active appointments without cancelling them', async () => {
+      const overlapping = createMockAppointment('2026-12-01T09:30:00.000Z', pendingStatus.id);
+      const outside = createMockAppointment('2026-12-01T08:00:00.000Z', confirmedStatus.id);
+      const finished = createMockAppointment('2026-12-01T11:00:00.000Z', completedStatus.id);
+      mockAppointmentRepository.findByStylistAndDateRange.mockResolvedValue([
+        overlapping,
+        outside,
+        finished,
+      ]);
+
+      const result = await useCase.execute(stylistId, validDto, adminId, 'ADMIN');
+
+      expect(result.affectedAppointments).toHaveLength(1);
+      expect(result.affectedAppointments[0]).toMatchObject({
+        id: overlapping.id,
+        cancelled: false,
+      });
+      expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+      expect(mockWaitlistService.offerFreedSlot).not.toHaveBeenCalled();
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    // Cancela las citas solapadas cuando se solicita
+    it('should cancel overlapping appointments when requested', async () => {
+      const overlapping = createMockAppointment('2026-12-01T12:00:00.000Z', confirmedStatus.id);
+      mockAppointmentRepository.findByStylistAndDateRange.mockResolvedValue([overlapping]);
+
+      const result = await useCase.execute(
+        stylistId,
+        { ...validDto, cancelAffectedAppointments: true },
+        adminId,
+        'ADMIN',
+      );
+
+      expect(result.affectedAppointments[0].cancelled).toBe(true);
+      expect(overlapping.statusId).toBe(cancelledStatus.id);
+      expect(overlapping.cancellationReason).toBe('Stylist absence');
+      expect(overlapping.cancelledBy).toBe('system');
+      expect(mockAppointmentRepository.update).toHaveBeenCalledWith(overlapping);
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledWith(overlapping);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(AppointmentCancelledEvent));
+      expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+        appointmentId: overlapping.id,
+        reason: 'Stylist absence',
+        actor: { id: adminId, role: 'ADMIN' },
+      });
+    });
+  });
+
+  describe('Validation', () => {
+    // Un estilista no puede registrar ausencias de otro
+    it('should throw ForbiddenError when a stylist registers an absence for someone else', async () => {
+      await expect(useCase.execute(stylistId, validDto, generateUuid(), 'STYLIST')).rejects.toThrow(
+        ForbiddenError,
+      );
+      expect(mockStylistAbsenceRepository.save).not.toHaveBeenCalled();
+    });
+
+    // Rango inválido
+    it('should throw ValidationError when the range is inverted', async () => {
+      await expect(
+        useCase.execute(
+          stylistId,
+          { ...validDto, startDateTime: validDto.endDateTime, endDateTime: validDto.startDateTime },
+          adminId,
+          'ADMIN',
+        ),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    // Ausencia solapada con otra existente
+    it('should throw ConflictError when the stylist already has an overlapping absence', async () => {
+      mockStylistAbsenceRepository.findOverlapping.mockResolvedValue([
+        StylistAbsence.create(
+          stylistId,
+          AbsenceTypeEnum.VACATION,
+          new Date('2026-11-30T00:00:00.000Z'),
+          new Date('2026-12-02T00:00:00.000Z'),
+        ),
+      ]);
+
+      await expect(useCase.execute(stylistId, validDto, adminId, 'ADMIN')).rejects.toThrow(
+        ConflictError,
+      );
+      expect(mockStylistAbsenceRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
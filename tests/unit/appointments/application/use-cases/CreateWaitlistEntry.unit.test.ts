@@ -0,0 +1,158 @@
+import { CreateWaitlistEntry } from '../../../../../src/modules/appointments/application/use-cases/CreateWaitlistEntry';
+import { CreateWaitlistEntryDto } from '../../../../../src/modules/appointments/application/dto/request/CreateWaitlistEntryDto';
+import { IWaitlistEntryRepository } from '../../../../../src/modules/appointments/domain/repositories/IWaitlistEntryRepository';
+import { WaitlistEntry } from '../../../../../src/modules/appointments/domain/entities/WaitlistEntry';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import { StylistService } from '../../../../../src/modules/services/domain/entities/StylistService';
+import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CreateWaitlistEntry Use Case', () => {
+  let useCase: CreateWaitlistEntry;
+  let mockWaitlistEntryRepository: jest.Mocked<IWaitlistEntryRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
+  let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+
+  const clientId = generateUuid();
+  const stylistId = generateUuid();
+  const serviceId = generateUuid();
+
+  const daysFromNow = (days: number): string => {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+  };
+
+  const createDto = (overrides: Partial<CreateWaitlistEntryDto> = {}): CreateWaitlistEntryDto => ({
+    clientId,
+    serviceIds: [serviceId],
+    fromDate: daysFromNow(2),
+    toDate: daysFromNow(5),
+    ...overrides,
+  });
+
+  beforeEach(() => {
+    mockWaitlistEntryRepository = {
+      save: jest.fn().mockImplementation(async (entry: WaitlistEntry) => entry),
+    } as unknown as jest.Mocked<IWaitlistEntryRepository>;
+
+    mockServiceRepository = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ id: serviceId, name: 'Corte', isActive: true } as Service),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    mockStylistServiceRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue({ isOffering: true } as StylistService),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    mockUserRoleValidationService = {
+      ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<UserRoleValidationService>;
+
+    useCase = new CreateWaitlistEntry(
+      mockWaitlistEntryRepository,
+      mockServiceRepository,
+      mockStylistServiceRepository,
+      mockUserRoleValidationService,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería anotar al cliente y devolver la entrada activa
+    it('should create an active waitlist entry', async () => {
+      const dto = createDto({ stylistId });
+
+      const result = await useCase.execute(dto, clientId, 'CLIENT');
+
+      expect(mockUserRoleValidationService.ensureUserHasRole).toHaveBeenCalledWith(
+        clientId,
+        'CLIENT',
+      );
+      expect(mockUserRoleValidationService.ensureUserHasRole).toHaveBeenCalledWith(
+        stylistId,
+        'STYLIST',
+      );
+      expect(mockWaitlistEntryRepository.save).toHaveBeenCalledTimes(1);
+      expect(result).toMatchObject({
+        clientId,
+        userId: clientId,
+        serviceIds: [serviceId],
+        fromDate: dto.fromDate,
+        toDate: dto.toDate,
+        status: 'ACTIVE',
+        stylistId,
+      });
+    });
+
+    // Un administrador puede anotar a cualquier cliente
+    it('should allow an admin to add any client', async () => {
+      const adminId = generateUuid();
+
+      const result = await useCase.execute(createDto(), adminId, 'ADMIN');
+
+      expect(result.clientId).toBe(clientId);
+      expect(result.userId).toBe(adminId);
+    });
+  });
+
+  describe('Validation', () => {
+    // Un cliente no puede anotar a otro cliente
+    it('should forbid a client from adding another client', async () => {
+      await expect(useCase.execute(createDto(), generateUuid(), 'CLIENT')).rejects.toThrow(
+        new ForbiddenError('You can only join the waitlist for yourself'),
+      );
+      expect(mockWaitlistEntryRepository.save).not.toHaveBeenCalled();
+    });
+
+    // Debería rechazar rangos que empiezan en el pasado
+    it('should reject ranges starting in the past', async () => {
+      await expect(
+        useCase.execute(createDto({ fromDate: daysFromNow(-2) }), clientId, 'CLIENT'),
+      ).rejects.toThrow(new BusinessRuleError('Cannot join the waitlist for past dates'));
+    });
+
+    // Debería rechazar rangos a más de 6 meses
+    it('should reject ranges beyond the six month horizon', async () => {
+      await expect(
+        useCase.execute(
+          createDto({ fromDate: daysFromNow(200), toDate: daysFromNow(201) }),
+          clientId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(
+        new BusinessRuleError('Cannot join the waitlist more than 6 months in advance'),
+      );
+    });
+
+    // Debería fallar si un servicio no existe o está inactivo
+    it('should reject missing or inactive services', async () => {
+      mockServiceRepository.findById.mockResolvedValueOnce(null);
+      await expect(useCase.execute(createDto(), clientId, 'CLIENT')).rejects.toThrow(NotFoundError);
+
+      mockServiceRepository.findById.mockResolvedValueOnce({
+        id: serviceId,
+        name: 'Corte',
+        isActive: false,
+      } as Service);
+      await expect(useCase.execute(createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError("Service 'Corte' is not currently active"),
+      );
+    });
+
+    // Debería fallar si el estilista elegido no ofrece los servicios
+    it('should reject a stylist who does not offer the services', async () => {
+      mockStylistServiceRepository.findByStylistAndService.mockResolvedValue(null);
+
+      await expect(useCase.execute(createDto({ stylistId }), clientId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError('Stylist is not currently offering one of the selected services'),
+      );
+    });
+  });
+});
@@ -77,6 +77,8 @@ describe('GetAppointmentById Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -88,6 +90,8 @@ describe('GetAppointmentById Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
 
@@ -102,6 +106,8 @@ describe('GetAppointmentById Use Case', () => {
       // Consultas basadas en programas
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
 
       // Consultas de análisis
       countByStatus: jest.fn(),
@@ -0,0 +1,97 @@
+import { GetAppointmentHistory } from '../../../../../src/modules/appointments/application/use-cases/GetAppointmentHistory';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentEvent,
+  AppointmentEventTypeEnum,
+  SYSTEM_ACTOR,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentEvent';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('GetAppointmentHistory Use Case', () => {
+  let useCase: GetAppointmentHistory;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+
+  const appointmentId = generateUuid();
+  const clientId = generateUuid();
+
+  const appointment = new Appointment(
+    appointmentId,
+    new Date(Date.now() + 24 * 60 * 60 * 1000),
+    60,
+    clientId,
+    clientId,
+    generateUuid(),
+    generateUuid(),
+    generateUuid(),
+  );
+
+  const events = [
+    AppointmentEvent.create(appointmentId, AppointmentEventTypeEnum.CREATED, {
+      id: clientId,
+      role: 'CLIENT',
+    }),
+    AppointmentEvent.create(appointmentId, AppointmentEventTypeEnum.STATUS_CHANGED, SYSTEM_ACTOR, {
+      fromValue: 'PENDING',
+      toValue: 'CANCELLED',
+      reason: 'Holiday created',
+    }),
+  ];
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findById: jest.fn().mockResolvedValue(appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentHistoryService = {
+      getHistory: jest.fn().mockResolvedValue(events),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    useCase = new GetAppointmentHistory(mockAppointmentRepository, mockAppointmentHistoryService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería devolver el historial en orden cronológico al cliente de la cita
+  it('should return the history to the client of the appointment', async () => {
+    const result = await useCase.execute(appointmentId, clientId, 'CLIENT');
+
+    expect(result).toHaveLength(2);
+    expect(result[0]).toMatchObject({ type: 'CREATED', actorId: clientId, actorRole: 'CLIENT' });
+    expect(result[1]).toMatchObject({
+      type: 'STATUS_CHANGED',
+      actorId: undefined,
+      actorRole: 'SYSTEM',
+      fromValue: 'PENDING',
+      toValue: 'CANCELLED',
+      reason: 'Holiday created',
+    });
+    expect(typeof result[1].createdAt).toBe('string');
+  });
+
+  // Debería permitir a ADMIN ver el historial de cualquier cita
+  it('should allow ADMIN to see the history of any appointment', async () => {
+    await expect(useCase.execute(appointmentId, generateUuid(), 'ADMIN')).resolves.toHaveLength(2);
+  });
+
+  // Debería rechazar a usuarios que no participan de la cita
+  it('should reject users that are not part of the appointment', async () => {
+    await expect(useCase.execute(appointmentId, generateUuid(), 'CLIENT')).rejects.toThrow(
+      ForbiddenError,
+    );
+    expect(mockAppointmentHistoryService.getHistory).not.toHaveBeenCalled();
+  });
+
+  // Debería lanzar NotFoundError si la cita no existe
+  it('should throw NotFoundError when the appointment does not exist', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(null);
+
+    await expect(useCase.execute(appointmentId, clientId, 'CLIENT')).rejects.toThrow(NotFoundError);
+  });
+});
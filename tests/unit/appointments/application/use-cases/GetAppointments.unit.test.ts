@@ -0,0 +1,163 @@
+import { GetAppointments } from '../../../../../src/modules/appointments/application/use-cases/GetAppointments';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { salonDayRange } from '../../../../../src/shared/utils/salonTime';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('GetAppointments Use Case', () => {
+  let useCase: GetAppointments;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const confirmedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CONFIRMED);
+
+  const createAppointment = (): Appointment =>
+    new Appointment(
+      generateUuid(),
+      new Date('2026-06-03T10:00:00.000Z'),
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      confirmedStatus.id,
+      generateUuid(),
+    );
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findWithFilters: jest.fn().mockResolvedValue([]),
+      countWithFilters: jest.fn().mockResolvedValue(0),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findByName: jest.fn().mockResolvedValue(confirmedStatus),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    useCase = new GetAppointments(mockAppointmentRepository, mockAppointmentStatusRepository);
+  });
+
+  describe('Successful Execution', () => {
+    // Sin filtros, lista por fecha ascendente con la paginación por defecto
+    it('should list appointments sorted by date with default pagination', async () => {
+      const appointments = [createAppointment(), createAppointment()];
+      mockAppointmentRepository.findWithFilters.mockResolvedValue(appointments);
+      mockAppointmentRepository.countWithFilters.mockResolvedValue(45);
+
+      const result = await useCase.execute({});
+
+      expect(mockAppointmentRepository.findWithFilters).toHaveBeenCalledWith(
+        {
+          stylistId: undefined,
+          clientId: undefined,
+          serviceId: undefined,
+          categoryId: undefined,
+          search: undefined,
+        },
+        { field: 'dateTime', direction: 'asc' },
+        20,
+        0,
+      );
+      expect(result.appointments.map((appointment) => appointment.id)).toEqual(
+        appointments.map((appointment) => appointment.id),
+      );
+      expect(result).toMatchObject({
+        total: 45,
+        page: 1,
+        limit: 20,
+        totalPages: 3,
+        hasNextPage: true,
+        hasPreviousPage: false,
+      });
+    });
+
+    // Debería traducir todos los filtros y aplicar los mismos al conteo
+    it('should translate every filter and count with the same filters', async () => {
+      const stylistId = generateUuid();
+      const clientId = generateUuid();
+      const serviceId = generateUuid();
+      const categoryId = generateUuid();
+
+      await useCase.execute({
+        status: AppointmentStatusEnum.CONFIRMED,
+        startDate: '2026-06-01',
+        endDate: '2026-06-07',
+        stylistId,
+        clientId,
+        serviceId,
+        categoryId,
+        search: '  garcia ',
+        sortBy: 'clientName',
+        sortOrder: 'desc',
+        page: 3,
+        limit: 10,
+      });
+
+      const expectedFilters = {
+        statusId: confirmedStatus.id,
+        startDate: salonDayRange(new Date('2026-06-01T00:00:00.000Z')).gte,
+        endDate: salonDayRange(new Date('2026-06-07T00:00:00.000Z')).lte,
+        stylistId,
+        clientId,
+        serviceId,
+        categoryId,
+        search: 'garcia',
+      };
+      expect(mockAppointmentStatusRepository.findByName).toHaveBeenCalledWith(
+        AppointmentStatusEnum.CONFIRMED,
+      );
+      expect(mockAppointmentRepository.findWithFilters).toHaveBeenCalledWith(
+        expectedFilters,
+        { field: 'clientName', direction: 'desc' },
+        10,
+        20,
+      );
+      expect(mockAppointmentRepository.countWithFilters).toHaveBeenCalledWith(expectedFilters);
+    });
+
+    // Una búsqueda con solo espacios no filtra
+    it('should ignore a blank search', async () => {
+      await useCase.execute({ search: '   ' });
+
+      expect(mockAppointmentRepository.countWithFilters).toHaveBeenCalledWith(
+        expect.objectContaining({ search: undefined }),
+      );
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería rechazar estados, fechas, IDs y orden inválidos
+    it('should reject invalid filters', async () => {
+      await expect(useCase.execute({ status: 'UNKNOWN' })).rejects.toThrow(ValidationError);
+      await expect(useCase.execute({ startDate: '01/06/2026' })).rejects.toThrow(
+        new ValidationError('Start date must be in YYYY-MM-DD format'),
+      );
+      await expect(
+        useCase.execute({ startDate: '2026-06-07', endDate: '2026-06-01' }),
+      ).rejects.toThrow(new ValidationError('End date cannot be before start date'));
+      await expect(useCase.execute({ stylistId: 'not-a-uuid' })).rejects.toThrow(ValidationError);
+      await expect(useCase.execute({ sortBy: 'price' as unknown as 'dateTime' })).rejects.toThrow(
+        new ValidationError('Sort field must be one of: dateTime, createdAt, clientName'),
+      );
+      await expect(useCase.execute({ limit: 101 })).rejects.toThrow(
+        new ValidationError('Limit must be between 1 and 100'),
+      );
+      expect(mockAppointmentRepository.findWithFilters).not.toHaveBeenCalled();
+    });
+
+    // Debería fallar si el estado no está cargado
+    it('should throw NotFoundError when the status is missing', async () => {
+      mockAppointmentStatusRepository.findByName.mockResolvedValue(null);
+
+      await expect(useCase.execute({ status: AppointmentStatusEnum.CONFIRMED })).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+  });
+});
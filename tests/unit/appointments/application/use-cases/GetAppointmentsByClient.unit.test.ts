@@ -80,6 +80,8 @@ describe('GetAppointmentsByClient Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -89,6 +91,8 @@ describe('GetAppointmentsByClient Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
       findByDateRange: jest.fn(),
@@ -97,6 +101,8 @@ describe('GetAppointmentsByClient Use Case', () => {
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
@@ -78,6 +78,8 @@ describe('GetAppointmentsByStylist Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -87,6 +89,8 @@ describe('GetAppointmentsByStylist Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
       findByDateRange: jest.fn(),
@@ -95,6 +99,8 @@ describe('GetAppointmentsByStylist Use Case', () => {
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
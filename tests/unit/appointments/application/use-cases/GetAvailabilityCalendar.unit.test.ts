@@ -0,0 +1,256 @@
+import { GetAvailabilityCalendar } from '../../../../../src/modules/appointments/application/use-cases/GetAvailabilityCalendar';
+import { GetAvailableSlots } from '../../../../../src/modules/appointments/application/use-cases/GetAvailableSlots';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
+import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
+import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { IRoleRepository } from '../../../../../src/modules/auth/domain/repositories/IRoleRepository';
+import { StylistEligibilityService } from '../../../../../src/modules/appointments/domain/services/StylistEligibilityService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('GetAvailabilityCalendar Use Case', () => {
+  let useCase: GetAvailabilityCalendar;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+  let stylistEligibilityService: StylistEligibilityService;
+
+  const stylistId = generateUuid();
+
+  /** Fecha YYYY-MM-DD a N días de hoy (UTC) */
+  const dateInDays = (days: number): string => {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() + days);
+    return date.toISOString().split('T')[0];
+  };
+
+  const createMockAppointment = (dateTime: string, duration = 60): Appointment =>
+    Appointment.fromPersistence(
+      generateUuid(),
+      new Date(dateTime),
+      duration,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      stylistId,
+    );
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findBlockingByDateRange: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    // Salón abierto de 09:00 a 10:00 (3 slots de 30 min cada 15 min), cerrado 2 días después de hoy
+    const closedDate = dateInDays(2);
+    mockScheduleAvailabilityService = {
+      getEffectiveSchedule: jest.fn(async (date: Date) =>
+        date.toISOString().startsWith(closedDate)
+          ? null
+          : { startTime: '09:00', endTime: '10:00', source: 'regular' },
+      ),
+      getEffectiveStylistSchedule: jest.fn(async (date: Date) => {
+        const salon = await mockScheduleAvailabilityService.getEffectiveSchedule(date);
+        return (
+          salon && {
+            ...salon,
+            intervals: [{ startTime: salon.startTime, endTime: salon.endTime }],
+            hasCustomShifts: false,
+            absences: [],
+          }
+        );
+      }),
+      loadStylistAgenda: jest.fn().mockResolvedValue({ shifts: [], absences: [] }),
+      applyStylistAgenda: jest.fn(
+        (_date: Date, salon: { startTime: string; endTime: string; source: 'regular' }) => ({
+          ...salon,
+          intervals: [{ startTime: salon.startTime, endTime: salon.endTime }],
+          hasCustomShifts: false,
+          absences: [],
+        }),
+      ),
+      isDayClosed: jest.fn().mockResolvedValue(false),
+    } as unknown as jest.Mocked<ScheduleAvailabilityService>;
+
+    const mockStylistServiceRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue({ isOffering: true }),
+      findStylistsOfferingService: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockResolvedValue({ id: stylistId, name: 'Jane Stylist' }),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    stylistEligibilityService = new StylistEligibilityService(
+      mockStylistServiceRepository,
+      mockUserRepository,
+      {
+        findByName: jest.fn().mockResolvedValue(null),
+      } as unknown as jest.Mocked<IRoleRepository>,
+    );
+
+    mockSlotHoldService = {
+      findActiveHolds: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
+    const getAvailableSlots = new GetAvailableSlots(
+      mockAppointmentRepository,
+      {} as jest.Mocked<IScheduleRepository>,
+      mockScheduleAvailabilityService,
+      mockStylistServiceRepository,
+      mockUserRepository,
+      stylistEligibilityService,
+      new AppointmentDurationService(
+        {} as jest.Mocked<IServiceRepository>,
+        mockStylistServiceRepository,
+      ),
+      mockSlotHoldService,
+    );
+
+    useCase = new GetAvailabilityCalendar(getAvailableSlots);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Calendar mode', () => {
+    // Debería cargar las citas del rango con una sola consulta y resumir cada día
+    it('should load appointments once and summarize every day of the range', async () => {
+      const result = await useCase.execute({ startDate: dateInDays(1), endDate: dateInDays(4) });
+
+      expect(mockAppointmentRepository.findBlockingByDateRange).toHaveBeenCalledTimes(1);
+      expect(result.days.map((day) => day.date)).toEqual([
+        dateInDays(1),
+        dateInDays(2),
+        dateInDays(3),
+        dateInDays(4),
+      ]);
+      expect(result.days[0]).toMatchObject({
+        isWorkingDay: true,
+        totalSlots: 3,
+        availableSlots: 3,
+        firstAvailableTime: '09:00',
+      });
+      expect(result.days[1]).toMatchObject({ isWorkingDay: false, availableSlots: 0 });
+      expect(result.days[1].firstAvailableTime).toBeUndefined();
+      expect(result.freeSlots).toBeUndefined();
+    });
+
+    // Las citas precargadas solo afectan a su propio día
+    it('should apply preloaded appointments to their own day only', async () => {
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockAppointment(`${dateInDays(1)}T09:00:00.000Z`),
+      ]);
+
+      const result = await useCase.execute({ startDate: dateInDays(1), endDate: dateInDays(3) });
+
+      expect(result.days[0].availableSlots).toBe(0);
+      expect(result.days[2].availableSlots).toBe(3);
+      expect(result.nextAvailable).toEqual({ date: dateInDays(3), time: '09:00' });
+    });
+
+    // Debería cargar una sola vez la agenda, el nombre y las reservas del estilista indicado
+    it('should preload the stylist agenda, name and holds once for the whole range', async () => {
+      const result = await useCase.execute({
+        startDate: dateInDays(1),
+        endDate: dateInDays(4),
+        stylistId,
+      });
+
+      expect(mockScheduleAvailabilityService.loadStylistAgenda).toHaveBeenCalledTimes(1);
+      expect(mockScheduleAvailabilityService.loadStylistAgenda).toHaveBeenCalledWith(
+        stylistId,
+        new Date(`${dateInDays(1)}T00:00:00.000Z`),
+        new Date(`${dateInDays(4)}T00:00:00.000Z`),
+      );
+      expect(mockScheduleAvailabilityService.getEffectiveStylistSchedule).not.toHaveBeenCalled();
+      expect(mockSlotHoldService.findActiveHolds).toHaveBeenCalledTimes(1);
+      expect(mockUserRepository.findById).toHaveBeenCalledTimes(1);
+      expect(result.days[0]).toMatchObject({ isWorkingDay: true, availableSlots: 3 });
+      expect(result.days[1]).toMatchObject({ isWorkingDay: false, availableSlots: 0 });
+    });
+
+    // Debería resolver una sola vez los estilistas elegibles y la agenda de cada uno
+    it('should resolve eligible stylists and their agendas once for the whole range', async () => {
+      const otherStylistId = generateUuid();
+      const findEligibleStylists = jest
+        .spyOn(stylistEligibilityService, 'findEligibleStylists')
+        .mockResolvedValue([
+          { id: stylistId, name: 'Jane Stylist' },
+          { id: otherStylistId, name: 'John Stylist' },
+        ]);
+
+      const result = await useCase.execute({ startDate: dateInDays(1), endDate: dateInDays(4) });
+
+      expect(findEligibleStylists).toHaveBeenCalledTimes(1);
+      expect(mockScheduleAvailabilityService.loadStylistAgenda).toHaveBeenCalledTimes(2);
+      expect(mockScheduleAvailabilityService.getEffectiveStylistSchedule).not.toHaveBeenCalled();
+      expect(mockScheduleAvailabilityService.getEffectiveSchedule).toHaveBeenCalledTimes(4);
+      expect(mockSlotHoldService.findActiveHolds).toHaveBeenCalledTimes(1);
+      expect(result.days[0].availableSlots).toBe(3);
+    });
+
+    // Por defecto se consultan 30 días
+    it('should default to a 30-day range', async () => {
+      const result = await useCase.execute({ startDate: dateInDays(1) });
+
+      expect(result.days).toHaveLength(30);
+      expect(result.endDate).toBe(dateInDays(30));
+    });
+  });
+
+  describe('First N free slots', () => {
+    // Debería detenerse al alcanzar el límite
+    it('should stop scanning once the limit is reached', async () => {
+      const result = await useCase.execute({ startDate: dateInDays(1), limit: 4 });
+
+      expect(result.freeSlots).toEqual([
+        { date: dateInDays(1), time: '09:00' },
+        { date: dateInDays(1), time: '09:15' },
+        { date: dateInDays(1), time: '09:30' },
+        { date: dateInDays(3), time: '09:00' },
+      ]);
+      expect(result.days).toHaveLength(3);
+      expect(result.endDate).toBe(dateInDays(3));
+    });
+  });
+
+  describe('Validation', () => {
+    // Rango invertido
+    it('should throw ValidationError when the end date is before the start date', async () => {
+      await expect(
+        useCase.execute({ startDate: dateInDays(5), endDate: dateInDays(3) }),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    // Rango demasiado largo
+    it('should throw BusinessRuleError when the range exceeds the maximum', async () => {
+      await expect(
+        useCase.execute({ startDate: dateInDays(1), endDate: dateInDays(70) }),
+      ).rejects.toThrow(new BusinessRuleError('Date range cannot exceed 62 days'));
+    });
+
+    // Fecha de inicio en el pasado
+    it('should throw BusinessRuleError when the start date is in the past', async () => {
+      await expect(useCase.execute({ startDate: dateInDays(-1) })).rejects.toThrow(
+        BusinessRuleError,
+      );
+    });
+
+    // Límite fuera de rango
+    it('should throw ValidationError when the limit is out of range', async () => {
+      await expect(useCase.execute({ startDate: dateInDays(1), limit: 0 })).rejects.toThrow(
+        ValidationError,
+      );
+    });
+  });
+});
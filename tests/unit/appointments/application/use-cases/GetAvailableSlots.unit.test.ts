@@ -12,7 +12,17 @@ import { BusinessRuleError } from '../../../../../src/shared/exceptions/Business
 import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
 import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
 import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { IRoleRepository } from '../../../../../src/modules/auth/domain/repositories/IRoleRepository';
+import { StylistEligibilityService } from '../../../../../src/modules/appointments/domain/services/StylistEligibilityService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import { StylistService } from '../../../../../src/modules/services/domain/entities/StylistService';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { salonDayRange } from '../../../../../src/shared/utils/salonTime';
+import { env } from '../../../../../src/shared/config/env';
 
 describe('GetAvailableSlots Use Case', () => {
   let useCase: GetAvailableSlots;
@@ -21,6 +31,10 @@ describe('GetAvailableSlots Use Case', () => {
   let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
   let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
   let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockRoleRepository: jest.Mocked<IRoleRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockStylistBufferRepository: jest.Mocked<IStylistServiceRepository>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
 
   // Utilidades de fecha dinámicas
   const getFutureDateString = (daysFromNow: number = 7): string => {
@@ -98,26 +112,33 @@ describe('GetAvailableSlots Use Case', () => {
     return schedule;
   };
 
-  // Factory para crear mock de Appointment (cita existente)
+  // Factory para crear una cita existente (entidad real: la detección de conflictos usa sus buffers)
   const createMockExistingAppointment = (
     dateTime: Date,
     duration: number = 60,
     stylistId?: string,
+    bufferBefore: number = 0,
+    bufferAfter: number = 0,
   ): Appointment => {
-    return {
-      id: generateUuid(),
+    return Appointment.fromPersistence(
+      generateUuid(),
       dateTime,
       duration,
-      userId: validUserId,
-      clientId: validClientId,
-      scheduleId: validScheduleId,
-      statusId: validStatusId,
-      stylistId: stylistId || validStylistId,
-      serviceIds: [validServiceId1],
-      confirmedAt: null,
-      createdAt: new Date(),
-      updatedAt: new Date(),
-    } as unknown as Appointment;
+      validUserId,
+      validClientId,
+      validScheduleId,
+      validStatusId,
+      stylistId || validStylistId,
+      undefined,
+      [validServiceId1],
+      new Date(),
+      new Date(),
+      undefined,
+      undefined,
+      undefined,
+      bufferBefore,
+      bufferAfter,
+    );
   };
 
   // Helper para obtener el día de la semana de una fecha
@@ -141,7 +162,7 @@ describe('GetAvailableSlots Use Case', () => {
     const schedule = createMockSchedule(dayOfWeek);
 
     mockScheduleRepository.findByDayOfWeek.mockResolvedValue([schedule]);
-    mockAppointmentRepository.findByDate.mockResolvedValue([]);
+    mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([]);
     mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue({
       startTime: '09:00',
       endTime: '18:00',
@@ -167,7 +188,7 @@ describe('GetAvailableSlots Use Case', () => {
       findByStylistAndDateRange: jest.fn(),
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
-      findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
@@ -197,6 +218,18 @@ describe('GetAvailableSlots Use Case', () => {
         endTime: '18:00',
         source: 'regular',
       }),
+      // Por defecto el estilista no tiene turnos propios y hereda el horario del salón
+      getEffectiveStylistSchedule: jest.fn(async (date: Date) => {
+        const salon = await mockScheduleAvailabilityService.getEffectiveSchedule(date);
+        return (
+          salon && {
+            ...salon,
+            intervals: [{ startTime: salon.startTime, endTime: salon.endTime }],
+            hasCustomShifts: false,
+            absences: [],
+          }
+        );
+      }),
       isDayClosed: jest.fn().mockResolvedValue(false),
     } as unknown as jest.Mocked<ScheduleAvailabilityService>;
 
@@ -229,12 +262,42 @@ describe('GetAvailableSlots Use Case', () => {
       findByRole: jest.fn(),
     } as unknown as jest.Mocked<IUserRepository>;
 
+    // Mock de IRoleRepository: por defecto el salón no tiene estilistas registrados,
+    // por lo que sin stylistId la disponibilidad se evalúa a nivel de salón
+    mockRoleRepository = {
+      findByName: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IRoleRepository>;
+
+    // Mock de IServiceRepository: por defecto cada servicio dura 30 min sin variación
+    mockServiceRepository = {
+      findById: jest.fn(async (id: string) =>
+        Service.fromPersistence(id, generateUuid(), 'Corte', 'Corte clásico', 30, 0, 10000),
+      ),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    // Asignaciones consultadas para los buffers: por defecto el estilista no personaliza ninguno
+    mockStylistBufferRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    // Reservas temporales: por defecto no hay ninguna vigente
+    mockSlotHoldService = {
+      findActiveHolds: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
     useCase = new GetAvailableSlots(
       mockAppointmentRepository,
       mockScheduleRepository,
       mockScheduleAvailabilityService,
       mockStylistServiceRepository,
       mockUserRepository,
+      new StylistEligibilityService(
+        mockStylistServiceRepository,
+        mockUserRepository,
+        mockRoleRepository,
+      ),
+      new AppointmentDurationService(mockServiceRepository, mockStylistBufferRepository),
+      mockSlotHoldService,
     );
   });
 
@@ -406,6 +469,71 @@ describe('GetAvailableSlots Use Case', () => {
     });
   });
 
+  describe('Stylist Shifts', () => {
+    // No debe generar slots durante el descanso del estilista
+    it('should not generate slots during the stylist break', async () => {
+      const dateString = getFutureDateString(7);
+      const dto = createValidDto({ date: dateString, stylistId: validStylistId, duration: 60 });
+      setupSuccessfulMocks(dateString);
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [
+          { startTime: '09:00', endTime: '13:00' },
+          { startTime: '14:00', endTime: '18:00' },
+        ],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      const result = await useCase.execute(dto);
+
+      const times = result.slots.map((slot) => slot.time);
+      expect(times).toContain('12:00');
+      expect(times).toContain('14:00');
+      expect(times).not.toContain('12:30');
+      expect(times).not.toContain('13:00');
+      expect(times).not.toContain('13:30');
+      expect(result.stylistShifts).toEqual([
+        { start: '09:00', end: '13:00' },
+        { start: '14:00', end: '18:00' },
+      ]);
+    });
+
+    // Estilista sin turno ese día = día no laboral para él
+    it('should return non-working day when the stylist has no shift that day', async () => {
+      const dateString = getFutureDateString(7);
+      const dto = createValidDto({ date: dateString, stylistId: validStylistId });
+      setupSuccessfulMocks(dateString);
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      const result = await useCase.execute(dto);
+
+      expect(result.isWorkingDay).toBe(false);
+      expect(result.slots).toEqual([]);
+    });
+
+    // Sin stylistId no se informan turnos de estilista
+    it('should not include stylist shifts when no stylist is requested', async () => {
+      const dateString = getFutureDateString(7);
+      const dto = createValidDto({ date: dateString });
+      setupSuccessfulMocks(dateString);
+
+      const result = await useCase.execute(dto);
+
+      expect(result.stylistShifts).toBeUndefined();
+      expect(mockScheduleAvailabilityService.getEffectiveStylistSchedule).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Conflict Detection', () => {
     // Debería marcar slot como no disponible cuando hay conflicto
     it('should mark slot as unavailable when there is a conflict', async () => {
@@ -419,7 +547,7 @@ describe('GetAvailableSlots Use Case', () => {
       // Crear cita existente a las 10:00
       const appointmentDate = new Date(dateString + 'T10:00:00.000Z');
       const existingAppointment = createMockExistingAppointment(appointmentDate, 60);
-      mockAppointmentRepository.findByDate.mockResolvedValue([existingAppointment]);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([existingAppointment]);
 
       const result = await useCase.execute(dto);
 
@@ -448,7 +576,7 @@ describe('GetAvailableSlots Use Case', () => {
         60,
         otherStylistId,
       );
-      mockAppointmentRepository.findByDate.mockResolvedValue([otherStylistAppointment]);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([otherStylistAppointment]);
 
       const result = await useCase.execute(dto);
 
@@ -473,7 +601,7 @@ describe('GetAvailableSlots Use Case', () => {
         createMockExistingAppointment(new Date(dateString + 'T09:00:00.000Z'), 60),
         createMockExistingAppointment(new Date(dateString + 'T14:00:00.000Z'), 90),
       ];
-      mockAppointmentRepository.findByDate.mockResolvedValue(appointments);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue(appointments);
 
       const result = await useCase.execute(dto);
 
@@ -481,6 +609,185 @@ describe('GetAvailableSlots Use Case', () => {
       const unavailableSlots = result.slots.filter((slot) => !slot.available);
       expect(unavailableSlots.length).toBeGreaterThan(0);
     });
+
+    // Debería marcar como no disponible un turno reservado para la lista de espera
+    it('should mark a slot held for waitlisted clients as unavailable', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockSlotHoldService.findActiveHolds.mockResolvedValue([
+        SlotHold.create(validStylistId, new Date(dateString + 'T10:00:00.000Z'), 60, 15, [
+          generateUuid(),
+        ]),
+      ]);
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, stylistId: validStylistId }),
+      );
+
+      const heldSlot = result.slots.find((s) => s.time === '10:00');
+      expect(heldSlot?.available).toBe(false);
+      expect(heldSlot?.conflictReason).toBe('Temporarily held for a waitlisted client');
+      expect(result.slots.find((s) => s.time === '11:00')?.available).toBe(true);
+    });
+
+    // Debería marcar como no disponible un turno retenido durante el checkout de otro cliente
+    it('should mark a slot held during checkout as unavailable', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockSlotHoldService.findActiveHolds.mockResolvedValue([
+        SlotHold.createForCheckout(
+          validStylistId,
+          new Date(dateString + 'T10:00:00.000Z'),
+          60,
+          5,
+          generateUuid(),
+        ),
+      ]);
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, stylistId: validStylistId }),
+      );
+
+      const heldSlot = result.slots.find((s) => s.time === '10:00');
+      expect(heldSlot?.available).toBe(false);
+      expect(heldSlot?.conflictReason).toBe('Temporarily held during checkout');
+    });
+
+    // Las reservas de otro estilista no afectan la disponibilidad del estilista pedido
+    it('should ignore holds of other stylists when stylistId provided', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockSlotHoldService.findActiveHolds.mockResolvedValue([
+        SlotHold.create(generateUuid(), new Date(dateString + 'T10:00:00.000Z'), 60, 15, [
+          generateUuid(),
+        ]),
+      ]);
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, stylistId: validStylistId }),
+      );
+
+      expect(result.slots.find((s) => s.time === '10:00')?.available).toBe(true);
+    });
+  });
+
+  describe('Stylist-aware Aggregation', () => {
+    const stylistA = { id: generateUuid(), name: 'Ana', isActive: true };
+    const stylistB = { id: generateUuid(), name: 'Bea', isActive: true };
+
+    beforeEach(() => {
+      mockRoleRepository.findByName.mockResolvedValue({ id: generateUuid() } as any);
+      mockUserRepository.findByRole.mockResolvedValue([stylistA, stylistB] as any);
+    });
+
+    // Una cita de un estilista no bloquea el slot si otro estilista está libre
+    it('should keep a slot available when another eligible stylist is free', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockExistingAppointment(new Date(dateString + 'T10:00:00.000Z'), 60, stylistA.id),
+      ]);
+
+      const result = await useCase.execute(createValidDto({ date: dateString }));
+
+      const slot = result.slots.find((s) => s.time === '10:00');
+      expect(slot?.available).toBe(true);
+      expect(slot?.availableStylists).toEqual([{ id: stylistB.id, name: 'Bea' }]);
+    });
+
+    // Una reserva temporal solo ocupa al estilista retenido
+    it('should keep a slot available when only another stylist is held', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockSlotHoldService.findActiveHolds.mockResolvedValue([
+        SlotHold.create(stylistA.id, new Date(dateString + 'T10:00:00.000Z'), 60, 15, [
+          generateUuid(),
+        ]),
+      ]);
+
+      const result = await useCase.execute(createValidDto({ date: dateString }));
+
+      const slot = result.slots.find((s) => s.time === '10:00');
+      expect(slot?.available).toBe(true);
+      expect(slot?.availableStylists).toEqual([{ id: stylistB.id, name: 'Bea' }]);
+    });
+
+    // El slot queda ocupado cuando todos los estilistas elegibles tienen cita
+    it('should mark a slot unavailable when every eligible stylist is booked', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockExistingAppointment(new Date(dateString + 'T10:00:00.000Z'), 60, stylistA.id),
+        createMockExistingAppointment(new Date(dateString + 'T10:00:00.000Z'), 60, stylistB.id),
+      ]);
+
+      const result = await useCase.execute(createValidDto({ date: dateString }));
+
+      const slot = result.slots.find((s) => s.time === '10:00');
+      expect(slot?.available).toBe(false);
+      expect(slot?.conflictReason).toBe('No stylist available at this time');
+      expect(slot?.availableStylists).toEqual([]);
+    });
+
+    // Respeta los turnos de cada estilista
+    it('should only list stylists whose shifts cover the whole slot', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockImplementation(
+        async (_date: Date, stylistId: string) => ({
+          startTime: '09:00',
+          endTime: '18:00',
+          source: 'regular',
+          intervals:
+            stylistId === stylistB.id
+              ? [{ startTime: '09:00', endTime: '12:00' }]
+              : [{ startTime: '09:00', endTime: '18:00' }],
+          hasCustomShifts: stylistId === stylistB.id,
+          absences: [],
+        }),
+      );
+
+      const result = await useCase.execute(createValidDto({ date: dateString }));
+
+      expect(result.slots.find((s) => s.time === '11:30')?.availableStylists).toHaveLength(2);
+      expect(result.slots.find((s) => s.time === '11:45')?.availableStylists).toEqual([
+        { id: stylistA.id, name: 'Ana' },
+      ]);
+    });
+
+    // Una cita sin estilista asignado ocupa la capacidad de un estilista libre
+    it('should count unassigned appointments against free capacity', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      const unassigned = createMockExistingAppointment(new Date(dateString + 'T10:00:00.000Z'));
+      unassigned.stylistId = undefined;
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        unassigned,
+        createMockExistingAppointment(new Date(dateString + 'T10:00:00.000Z'), 60, stylistA.id),
+      ]);
+
+      const result = await useCase.execute(createValidDto({ date: dateString }));
+
+      expect(result.slots.find((s) => s.time === '10:00')?.available).toBe(false);
+      expect(result.slots.find((s) => s.time === '11:00')?.available).toBe(true);
+    });
+
+    // Con serviceIds solo considera a los estilistas que ofrecen todos los servicios
+    it('should only consider stylists offering every requested service', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockStylistServiceRepository.findStylistsOfferingService.mockResolvedValue([
+        { stylistId: stylistB.id, isOffering: true } as any,
+      ]);
+      mockUserRepository.findById.mockResolvedValue(stylistB as any);
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, serviceIds: [validServiceId1] }),
+      );
+
+      expect(result.slots[0].availableStylists).toEqual([{ id: stylistB.id, name: 'Bea' }]);
+      expect(mockUserRepository.findByRole).not.toHaveBeenCalled();
+    });
   });
 
   describe('Input Validation - Date', () => {
@@ -724,6 +1031,142 @@ describe('GetAvailableSlots Use Case', () => {
     });
   });
 
+  describe('Service-aware Duration', () => {
+    // Debería calcular la duración a partir de los servicios (duración + variación)
+    it('should derive the duration from the services including their variation', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockServiceRepository.findById.mockImplementation(async (id: string) =>
+        id === validServiceId1
+          ? Service.fromPersistence(id, generateUuid(), 'Corte', 'Corte clásico', 45, 15, 10000)
+          : Service.fromPersistence(id, generateUuid(), 'Lavado', 'Lavado simple', 15, 0, 5000),
+      );
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, serviceIds: [validServiceId1, validServiceId2] }),
+      );
+
+      result.slots.forEach((slot) => {
+        expect(slot.duration).toBe(75);
+      });
+      // 09:00-18:00 cada 15 min, el último slot de 75 min empieza a las 16:45
+      expect(result.slots[result.slots.length - 1].time).toBe('16:45');
+    });
+
+    // La duración explícita tiene prioridad sobre la de los servicios
+    it('should prefer an explicit duration over the services duration', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, serviceIds: [validServiceId1], duration: 90 }),
+      );
+
+      expect(
+        await useCase.resolveDuration({ serviceIds: [validServiceId1], duration: 90 }),
+      ).toBe(90);
+      result.slots.forEach((slot) => {
+        expect(slot.duration).toBe(90);
+      });
+    });
+
+    // Sin servicios ni duración se mantienen los 30 minutos por defecto
+    it('should keep the 30-minute default without services or duration', async () => {
+      expect(await useCase.resolveDuration({})).toBe(30);
+      expect(mockServiceRepository.findById).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Buffers', () => {
+    // El buffer posterior de una cita existente bloquea los slots que empiezan justo después
+    it('should keep the buffer after an existing appointment blocked', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockExistingAppointment(
+          new Date(`${dateString}T10:00:00.000Z`),
+          60,
+          undefined,
+          0,
+          15,
+        ),
+      ]);
+
+      const result = await useCase.execute(
+        createValidDto({ date: dateString, stylistId: validStylistId, duration: 30 }),
+      );
+
+      const slotAt = (time: string) => result.slots.find((slot) => slot.time === time);
+      expect(slotAt('11:00')?.available).toBe(false);
+      expect(slotAt('11:15')?.available).toBe(true);
+    });
+
+    // Los buffers de los servicios solicitados también deben quedar libres
+    it('should reserve the buffers of the requested services', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockExistingAppointment(new Date(`${dateString}T10:00:00.000Z`)),
+      ]);
+      mockServiceRepository.findById.mockImplementation(async (id: string) =>
+        Service.fromPersistence(
+          id,
+          generateUuid(),
+          'Color',
+          'Coloración',
+          30,
+          0,
+          10000,
+          true,
+          new Date(),
+          new Date(),
+          0,
+          15,
+        ),
+      );
+
+      const result = await useCase.execute(
+        createValidDto({
+          date: dateString,
+          stylistId: validStylistId,
+          serviceIds: [validServiceId1],
+        }),
+      );
+
+      const slotAt = (time: string) => result.slots.find((slot) => slot.time === time);
+      expect(slotAt('09:30')?.available).toBe(false);
+      expect(slotAt('09:15')?.available).toBe(true);
+    });
+
+    // El buffer propio del estilista reemplaza al del servicio
+    it('should apply the stylist buffer override', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockExistingAppointment(new Date(`${dateString}T10:00:00.000Z`)),
+      ]);
+      mockStylistBufferRepository.findByStylistAndService.mockResolvedValue(
+        StylistService.create(validStylistId, validServiceId1, null, 30, null),
+      );
+
+      const result = await useCase.execute(
+        createValidDto({
+          date: dateString,
+          stylistId: validStylistId,
+          serviceIds: [validServiceId1],
+        }),
+      );
+
+      const slotAt = (time: string) => result.slots.find((slot) => slot.time === time);
+      expect(mockStylistBufferRepository.findByStylistAndService).toHaveBeenCalledWith(
+        validStylistId,
+        validServiceId1,
+      );
+      expect(slotAt('11:15')?.available).toBe(false);
+      expect(slotAt('11:30')?.available).toBe(true);
+    });
+  });
+
   describe('Input Validation - Duration', () => {
     // Debería lanzar error para duración menor a 15 minutos
     it('should throw error for duration less than 15 minutes', async () => {
@@ -834,15 +1277,16 @@ describe('GetAvailableSlots Use Case', () => {
       expect(mockScheduleAvailabilityService.getEffectiveSchedule).toHaveBeenCalled();
     });
 
-    // Debería llamar a appointmentRepository.findByDate con fecha correcta
-    it('should call appointmentRepository.findByDate', async () => {
+    // Debería cargar las citas del día que ocupan su turno
+    it('should load the appointments of the day that still take their slot', async () => {
       const dateString = getFutureDateString(7);
       const dto = createValidDto({ date: dateString });
       setupSuccessfulMocks(dateString);
 
       await useCase.execute(dto);
 
-      expect(mockAppointmentRepository.findByDate).toHaveBeenCalled();
+      const { gte, lte } = salonDayRange(new Date(`${dateString}T00:00:00.000Z`));
+      expect(mockAppointmentRepository.findBlockingByDateRange).toHaveBeenCalledWith(gte, lte);
     });
 
     // No debería llamar appointmentRepository si no hay horario
@@ -855,7 +1299,7 @@ describe('GetAvailableSlots Use Case', () => {
 
       await useCase.execute(dto);
 
-      expect(mockAppointmentRepository.findByDate).not.toHaveBeenCalled();
+      expect(mockAppointmentRepository.findBlockingByDateRange).not.toHaveBeenCalled();
     });
   });
 
@@ -877,11 +1321,11 @@ describe('GetAvailableSlots Use Case', () => {
       const dto = createValidDto({ date: dateString });
       const repositoryError = new Error('Query timeout');
 
-      // Configurar servicio para que pase, pero findByDate falle
+      // Configurar servicio para que pase, pero findBlockingByDateRange falle
       mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue({
         startTime: '09:00', endTime: '18:00', source: 'regular',
       });
-      mockAppointmentRepository.findByDate.mockRejectedValue(repositoryError);
+      mockAppointmentRepository.findBlockingByDateRange.mockRejectedValue(repositoryError);
 
       await expect(useCase.execute(dto)).rejects.toThrow(repositoryError);
     });
@@ -898,6 +1342,35 @@ describe('GetAvailableSlots Use Case', () => {
     });
   });
 
+  describe('Salon Timezone', () => {
+    beforeEach(() => {
+      jest.replaceProperty(env, 'SALON_TIMEZONE', 'America/Argentina/Buenos_Aires');
+    });
+
+    afterEach(() => {
+      jest.restoreAllMocks();
+    });
+
+    // Los slots se interpretan en hora local del salón (UTC-3)
+    it('should compare slots with appointments in salon-local time', async () => {
+      const dateString = getFutureDateString(7);
+      setupSuccessfulMocks(dateString);
+      // 13:00 UTC = 10:00 en Buenos Aires
+      mockAppointmentRepository.findBlockingByDateRange.mockResolvedValue([
+        createMockExistingAppointment(new Date(`${dateString}T13:00:00.000Z`), 60),
+      ]);
+
+      const result = await useCase.execute(createValidDto({ date: dateString }));
+
+      expect(result.slots.find((slot) => slot.time === '10:00')?.available).toBe(false);
+      expect(result.slots.find((slot) => slot.time === '10:00')?.conflictReason).toBe(
+        'Conflict with existing appointment at 10:00 AM',
+      );
+      expect(result.slots.find((slot) => slot.time === '13:00')?.available).toBe(true);
+      expect(result.dayOfWeek).toBe(getDayOfWeekFromDateString(dateString).toString());
+    });
+  });
+
   describe('Day of Week Mapping', () => {
     // Debería mapear correctamente todos los días de la semana
     it('should correctly map all days of the week', async () => {
@@ -0,0 +1,316 @@
+import { GetDailyAgenda } from '../../../../../src/modules/appointments/application/use-cases/GetDailyAgenda';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { StylistEligibilityService } from '../../../../../src/modules/appointments/domain/services/StylistEligibilityService';
+import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
+import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { IPaymentRepository } from '../../../../../src/modules/payments/domain/repositories/IPaymentRepository';
+import { IHolidayRepository } from '../../../../../src/modules/holidays/domain/repositories/IHolidayRepository';
+import { IScheduleExceptionRepository } from '../../../../../src/modules/holidays/domain/repositories/IScheduleExceptionRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { User } from '../../../../../src/modules/auth/domain/entities/User';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import {
+  Payment,
+  PaymentMethodEnum,
+  PaymentStatusEnum,
+  PaymentTypeEnum,
+} from '../../../../../src/modules/payments/domain/entities/Payment';
+import { Holiday } from '../../../../../src/modules/holidays/domain/entities/Holiday';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { salonDateTimeToUtc } from '../../../../../src/shared/utils/salonTime';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('GetDailyAgenda Use Case', () => {
+  let useCase: GetDailyAgenda;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
+  let mockStylistEligibilityService: jest.Mocked<StylistEligibilityService>;
+  let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockPaymentRepository: jest.Mocked<IPaymentRepository>;
+  let mockHolidayRepository: jest.Mocked<IHolidayRepository>;
+  let mockScheduleExceptionRepository: jest.Mocked<IScheduleExceptionRepository>;
+
+  const day = new Date('2026-06-03T00:00:00.000Z');
+  const adminId = generateUuid();
+  const stylistId = generateUuid();
+  const otherStylistId = generateUuid();
+  const confirmedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CONFIRMED);
+  const cancelledStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CANCELLED);
+  const client = new User(
+    generateUuid(),
+    generateUuid(),
+    'Ana García',
+    'ana@example.com',
+    '1122334455',
+    'hashed',
+    true,
+  );
+  const stylist = new User(
+    stylistId,
+    generateUuid(),
+    'Laura Pérez',
+    'laura@example.com',
+    '1199887766',
+    'hashed',
+    true,
+  );
+  const service = new Service(
+    generateUuid(),
+    generateUuid(),
+    'Corte',
+    'Corte de pelo',
+    60,
+    0,
+    5000,
+  );
+
+  const createAppointment = (time: string, duration: number, statusId = confirmedStatus.id) =>
+    new Appointment(
+      generateUuid(),
+      salonDateTimeToUtc(day, time),
+      duration,
+      client.id,
+      client.id,
+      generateUuid(),
+      statusId,
+      stylistId,
+      undefined,
+      [service.id],
+    );
+
+  const createPayment = (appointmentId: string, status: PaymentStatusEnum, createdAt: Date) =>
+    new Payment({
+      id: generateUuid(),
+      amount: 5000,
+      status,
+      method: PaymentMethodEnum.CASH,
+      paymentDate: null,
+      appointmentId,
+      type: PaymentTypeEnum.SERVICE,
+      createdAt,
+      updatedAt: createdAt,
+    });
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findByStylistAndDateRange: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findAll: jest.fn().mockResolvedValue([confirmedStatus, cancelledStatus]),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockScheduleAvailabilityService = {
+      getEffectiveSchedule: jest
+        .fn()
+        .mockResolvedValue({ startTime: '09:00', endTime: '18:00', source: 'regular' }),
+      getEffectiveStylistSchedule: jest.fn().mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [
+          { startTime: '09:00', endTime: '13:00' },
+          { startTime: '14:00', endTime: '18:00' },
+        ],
+        hasCustomShifts: true,
+        absences: [],
+      }),
+    } as unknown as jest.Mocked<ScheduleAvailabilityService>;
+
+    mockStylistEligibilityService = {
+      findEligibleStylists: jest.fn().mockResolvedValue([
+        { id: otherStylistId, name: 'Zoe Díaz' },
+        { id: stylistId, name: 'Laura Pérez' },
+      ]),
+    } as unknown as jest.Mocked<StylistEligibilityService>;
+
+    mockUserRoleValidationService = {
+      ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<UserRoleValidationService>;
+
+    mockUserRepository = {
+      findById: jest.fn(async (id: string) =>
+        id === stylistId ? stylist : id === client.id ? client : null,
+      ),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    mockServiceRepository = {
+      findById: jest.fn().mockResolvedValue(service),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    mockPaymentRepository = {
+      findByAppointmentId: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IPaymentRepository>;
+
+    mockHolidayRepository = {
+      findByDate: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IHolidayRepository>;
+
+    mockScheduleExceptionRepository = {
+      getExceptionForDate: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IScheduleExceptionRepository>;
+
+    useCase = new GetDailyAgenda(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockScheduleAvailabilityService,
+      mockStylistEligibilityService,
+      mockUserRoleValidationService,
+      mockUserRepository,
+      mockServiceRepository,
+      mockPaymentRepository,
+      mockHolidayRepository,
+      mockScheduleExceptionRepository,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería intercalar citas y huecos dentro de los tramos, sin contar las canceladas
+    it('should build an ordered timeline of appointments and gaps', async () => {
+      const morning = createAppointment('10:00', 60);
+      const afternoon = createAppointment('14:00', 90);
+      const cancelled = createAppointment('16:00', 60, cancelledStatus.id);
+      mockAppointmentRepository.findByStylistAndDateRange.mockResolvedValue([
+        afternoon,
+        cancelled,
+        morning,
+      ]);
+      mockPaymentRepository.findByAppointmentId.mockImplementation(async (appointmentId) =>
+        appointmentId === morning.id
+          ? [
+              createPayment(morning.id, PaymentStatusEnum.PENDING, new Date('2026-06-01')),
+              createPayment(morning.id, PaymentStatusEnum.COMPLETED, new Date('2026-06-02')),
+            ]
+          : [],
+      );
+
+      const result = await useCase.execute({ date: '2026-06-03' }, stylistId, 'STYLIST');
+
+      expect(mockStylistEligibilityService.findEligibleStylists).not.toHaveBeenCalled();
+      expect(result.stylists).toHaveLength(1);
+      const [agenda] = result.stylists;
+      expect(agenda.stylist).toEqual({ id: stylistId, name: 'Laura Pérez' });
+      expect(agenda.workingIntervals).toEqual([
+        { start: '09:00', end: '13:00' },
+        { start: '14:00', end: '18:00' },
+      ]);
+      expect(agenda.timeline.map((entry) => [entry.type, entry.start, entry.end])).toEqual([
+        ['GAP', '09:00', '10:00'],
+        ['APPOINTMENT', '10:00', '11:00'],
+        ['GAP', '11:00', '13:00'],
+        ['APPOINTMENT', '14:00', '15:30'],
+        ['GAP', '15:30', '18:00'],
+      ]);
+      expect(agenda.timeline[1].appointment).toMatchObject({
+        id: morning.id,
+        status: AppointmentStatusEnum.CONFIRMED,
+        paymentStatus: PaymentStatusEnum.COMPLETED,
+        client: { id: client.id, name: 'Ana García' },
+        services: [{ id: service.id, name: 'Corte' }],
+      });
+      expect(agenda.timeline[3].appointment?.paymentStatus).toBe('UNPAID');
+      expect(agenda).toMatchObject({ totalAppointments: 2, bookedMinutes: 150, freeMinutes: 330 });
+    });
+
+    // Sin estilista, ADMIN ve la agenda de todos los estilistas activos ordenados por nombre
+    it('should return every active stylist for ADMIN without stylistId', async () => {
+      const result = await useCase.execute({ date: '2026-06-03' }, adminId, 'ADMIN');
+
+      expect(result.stylists.map((agenda) => agenda.stylist.name)).toEqual([
+        'Laura Pérez',
+        'Zoe Díaz',
+      ]);
+      expect(result.stylists[0].timeline).toEqual([
+        { type: 'GAP', start: '09:00', end: '13:00', duration: 240 },
+        { type: 'GAP', start: '14:00', end: '18:00', duration: 240 },
+      ]);
+      expect(result.salon).toEqual({
+        isOpen: true,
+        workingHours: { start: '09:00', end: '18:00' },
+        source: 'regular',
+      });
+    });
+
+    // Debería informar el feriado y la excepción de horario del día
+    it('should include holiday and schedule exception info', async () => {
+      mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue({
+        startTime: '10:00',
+        endTime: '14:00',
+        source: 'exception',
+      });
+      mockScheduleExceptionRepository.getExceptionForDate.mockResolvedValue({
+        reason: 'Apertura especial',
+      } as never);
+      mockHolidayRepository.findByDate.mockResolvedValue(
+        new Holiday({
+          id: generateUuid(),
+          name: 'Feriado nacional',
+          date: day,
+          description: null,
+          createdAt: new Date(),
+          updatedAt: new Date(),
+        }),
+      );
+
+      const result = await useCase.execute({ date: '2026-06-03', stylistId }, adminId, 'ADMIN');
+
+      expect(mockUserRoleValidationService.ensureUserHasRole).toHaveBeenCalledWith(
+        stylistId,
+        'STYLIST',
+      );
+      expect(result.salon).toEqual({
+        isOpen: true,
+        workingHours: { start: '10:00', end: '14:00' },
+        source: 'exception',
+        exceptionReason: 'Apertura especial',
+        holiday: { name: 'Feriado nacional', description: undefined },
+      });
+    });
+
+    // Con el salón cerrado, el estilista no tiene tramos ni huecos
+    it('should return an empty timeline when the salon is closed', async () => {
+      mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue(null);
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue(null);
+
+      const result = await useCase.execute({ date: '2026-06-03' }, stylistId, 'STYLIST');
+
+      expect(result.salon).toEqual({ isOpen: false });
+      expect(result.stylists[0]).toMatchObject({
+        workingIntervals: [],
+        timeline: [],
+        freeMinutes: 0,
+      });
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería rechazar fechas e IDs inválidos
+    it('should reject an invalid date or stylist ID', async () => {
+      await expect(useCase.execute({ date: '03/06/2026' }, adminId, 'ADMIN')).rejects.toThrow(
+        new ValidationError('Date must be in YYYY-MM-DD format'),
+      );
+      await expect(
+        useCase.execute({ date: '2026-06-03', stylistId: 'not-a-uuid' }, adminId, 'ADMIN'),
+      ).rejects.toThrow(ValidationError);
+    });
+
+    // Un estilista no puede ver la agenda de otro
+    it('should forbid a stylist from viewing another agenda', async () => {
+      await expect(
+        useCase.execute({ date: '2026-06-03', stylistId: otherStylistId }, stylistId, 'STYLIST'),
+      ).rejects.toThrow(new ForbiddenError('You can only view your own agenda'));
+      expect(mockAppointmentRepository.findByStylistAndDateRange).not.toHaveBeenCalled();
+    });
+  });
+});
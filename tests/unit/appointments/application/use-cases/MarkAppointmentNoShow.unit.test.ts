@@ -0,0 +1,114 @@
+import { MarkAppointmentNoShow } from '../../../../../src/modules/appointments/application/use-cases/MarkAppointmentNoShow';
+import { AppointmentLifecycleService } from '../../../../../src/modules/appointments/domain/services/AppointmentLifecycleService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../../../../src/modules/appointments/domain/services/CancellationFeeService';
+
+describe('MarkAppointmentNoShow Use Case', () => {
+  let useCase: MarkAppointmentNoShow;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockCancellationFeeService: jest.Mocked<CancellationFeeService>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const appointmentId = generateUuid();
+  const adminId = generateUuid();
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const createMockAppointment = (dateTime: Date = new Date(Date.now() - 30 * 60 * 1000)) =>
+    new Appointment(
+      appointmentId,
+      dateTime,
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      statusId(AppointmentStatusEnum.CONFIRMED),
+      generateUuid(),
+    );
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findById: jest.fn(),
+      update: jest.fn().mockImplementation(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(async (id: string) => statuses.find((s) => s.id === id) ?? null),
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockCancellationFeeService = {
+      chargeNoShow: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<CancellationFeeService>;
+
+    useCase = new MarkAppointmentNoShow(
+      mockAppointmentRepository,
+      new AppointmentLifecycleService(mockAppointmentRepository, mockAppointmentStatusRepository),
+      mockAppointmentHistoryService,
+      mockCancellationFeeService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería marcar como no show una cita confirmada cuya hora ya pasó
+  it('should mark a past confirmed appointment as no-show', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    const result = await useCase.execute(appointmentId, adminId, 'ADMIN');
+
+    expect(result.statusId).toBe(statusId(AppointmentStatusEnum.NO_SHOW));
+    expect(mockAppointmentRepository.update).toHaveBeenCalledTimes(1);
+    expect(mockCancellationFeeService.chargeNoShow).toHaveBeenCalledWith(
+      expect.objectContaining({ id: appointmentId }),
+    );
+  });
+
+  // Debería rechazar marcar como no show una cita futura
+  it('should reject marking a future appointment as no-show', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment(new Date(Date.now() + 30 * 60 * 1000)),
+    );
+
+    await expect(useCase.execute(appointmentId, adminId, 'ADMIN')).rejects.toThrow(
+      new BusinessRuleError('Cannot mark an appointment as no-show before its scheduled time'),
+    );
+  });
+
+  // Debería rechazar marcar como no show si el cliente hizo check-in
+  it('should reject marking a checked-in appointment as no-show', async () => {
+    const appointment = createMockAppointment();
+    appointment.checkIn();
+    mockAppointmentRepository.findById.mockResolvedValue(appointment);
+
+    await expect(useCase.execute(appointmentId, adminId, 'ADMIN')).rejects.toThrow(
+      new BusinessRuleError('Cannot mark a checked-in appointment as no-show'),
+    );
+    expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+  });
+});
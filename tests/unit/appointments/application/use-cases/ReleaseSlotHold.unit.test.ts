@@ -0,0 +1,63 @@
+import { ReleaseSlotHold } from '../../../../../src/modules/appointments/application/use-cases/ReleaseSlotHold';
+import { ISlotHoldRepository } from '../../../../../src/modules/appointments/domain/repositories/ISlotHoldRepository';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('ReleaseSlotHold Use Case', () => {
+  let useCase: ReleaseSlotHold;
+  let mockSlotHoldRepository: jest.Mocked<ISlotHoldRepository>;
+
+  const clientId = generateUuid();
+  const hold = SlotHold.createForCheckout(
+    generateUuid(),
+    new Date('2026-06-03T10:00:00.000Z'),
+    60,
+    5,
+    clientId,
+  );
+
+  beforeEach(() => {
+    mockSlotHoldRepository = {
+      findByToken: jest.fn().mockResolvedValue(hold),
+      delete: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ISlotHoldRepository>;
+
+    useCase = new ReleaseSlotHold(mockSlotHoldRepository);
+  });
+
+  // Debería liberar la reserva propia del cliente
+  it('should release the client own hold', async () => {
+    await useCase.execute(hold.token!, clientId, 'CLIENT');
+
+    expect(mockSlotHoldRepository.findByToken).toHaveBeenCalledWith(hold.token);
+    expect(mockSlotHoldRepository.delete).toHaveBeenCalledWith(hold.id);
+  });
+
+  // Debería rechazar tokens con formato inválido
+  it('should reject malformed tokens', async () => {
+    await expect(useCase.execute('not-a-token', clientId, 'CLIENT')).rejects.toThrow(
+      ValidationError,
+    );
+    expect(mockSlotHoldRepository.findByToken).not.toHaveBeenCalled();
+  });
+
+  // Debería fallar si no existe una reserva con ese token
+  it('should throw NotFoundError when the hold does not exist', async () => {
+    mockSlotHoldRepository.findByToken.mockResolvedValue(null);
+
+    await expect(useCase.execute(generateUuid(), clientId, 'CLIENT')).rejects.toThrow(
+      NotFoundError,
+    );
+  });
+
+  // Otro cliente no puede liberar la reserva
+  it('should forbid other clients from releasing the hold', async () => {
+    await expect(useCase.execute(hold.token!, generateUuid(), 'CLIENT')).rejects.toThrow(
+      new ForbiddenError('You can only release your own slot holds'),
+    );
+    expect(mockSlotHoldRepository.delete).not.toHaveBeenCalled();
+  });
+});
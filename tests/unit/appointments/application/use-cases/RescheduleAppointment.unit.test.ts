@@ -0,0 +1,411 @@
+import { RescheduleAppointment } from '../../../../../src/modules/appointments/application/use-cases/RescheduleAppointment';
+import { RescheduleAppointmentDto } from '../../../../../src/modules/appointments/application/dto/request/RescheduleAppointmentDto';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import {
+  DayOfWeekEnum,
+  Schedule,
+} from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { CancellationPolicy } from '../../../../../src/modules/appointments/domain/entities/CancellationPolicy';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../../../../src/modules/appointments/domain/services/CancellationFeeService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { BookingValidationService } from '../../../../../src/modules/appointments/domain/services/BookingValidationService';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import { StylistService } from '../../../../../src/modules/services/domain/entities/StylistService';
+import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { DayOfWeekUtils } from '../../../../../src/shared/utils/dayOfWeek';
+import { AppointmentRescheduledEvent } from '../../../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
+
+describe('RescheduleAppointment Use Case', () => {
+  let mockEventBus: jest.Mocked<EventBus>;
+  let useCase: RescheduleAppointment;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
+  let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+  let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
+  let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
+  let mockAppointmentDurationService: jest.Mocked<AppointmentDurationService>;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
+  let mockCancellationFeeService: jest.Mocked<CancellationFeeService>;
+
+  const appointmentId = generateUuid();
+  const clientId = generateUuid();
+  const stylistId = generateUuid();
+  const serviceId = generateUuid();
+
+  const pendingStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.PENDING);
+  const confirmedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CONFIRMED);
+  const completedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.COMPLETED);
+
+  const daysFromNowAt = (days: number, hour: number = 15): Date => {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() + days);
+    date.setUTCHours(hour, 0, 0, 0);
+    return date;
+  };
+
+  const createAppointment = (
+    statusId: string = pendingStatus.id,
+    dateTime: Date = daysFromNowAt(3),
+  ): Appointment =>
+    new Appointment(
+      appointmentId,
+      dateTime,
+      60,
+      clientId,
+      clientId,
+      generateUuid(),
+      statusId,
+      stylistId,
+      statusId === confirmedStatus.id ? new Date() : undefined,
+      [serviceId],
+    );
+
+  const createDto = (
+    overrides: Partial<RescheduleAppointmentDto> = {},
+  ): RescheduleAppointmentDto => ({
+    dateTime: daysFromNowAt(5).toISOString(),
+    ...overrides,
+  });
+
+  const statuses = [pendingStatus, confirmedStatus, completedStatus];
+
+  const schedules = Object.values(DayOfWeekEnum).map((dayOfWeek) =>
+    Schedule.create(dayOfWeek, '00:00', '23:59'),
+  );
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findById: jest.fn(async () => createAppointment()),
+      findByClientAndDateRange: jest.fn().mockResolvedValue([]),
+      findConflictingAppointments: jest.fn().mockResolvedValue([]),
+      updateIfNoConflicts: jest
+        .fn()
+        .mockImplementation(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findById: jest.fn(async (id: string) => statuses.find((status) => status.id === id) ?? null),
+      findByName: jest.fn(
+        async (name: string) => statuses.find((status) => status.name === name) ?? null,
+      ),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockServiceRepository = {
+      findById: jest
+        .fn()
+        .mockResolvedValue({ id: serviceId, name: 'Corte', isActive: true } as Service),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    mockStylistServiceRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue({ isOffering: true } as StylistService),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    mockUserRoleValidationService = {
+      ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<UserRoleValidationService>;
+
+    mockScheduleAvailabilityService = {
+      getEffectiveSchedule: jest.fn().mockResolvedValue({
+        startTime: '00:00',
+        endTime: '23:59',
+        source: 'regular',
+      }),
+      getEffectiveStylistSchedule: jest.fn().mockResolvedValue({
+        startTime: '00:00',
+        endTime: '23:59',
+        source: 'regular',
+        intervals: [{ startTime: '00:00', endTime: '23:59' }],
+        hasCustomShifts: false,
+        absences: [],
+      }),
+    } as unknown as jest.Mocked<ScheduleAvailabilityService>;
+
+    mockScheduleRepository = {
+      findAll: jest.fn().mockResolvedValue(schedules),
+    } as unknown as jest.Mocked<IScheduleRepository>;
+
+    mockAppointmentDurationService = {
+      calculateBuffer: jest.fn().mockResolvedValue({ before: 0, after: 10 }),
+    } as unknown as jest.Mocked<AppointmentDurationService>;
+
+    mockAppointmentHistoryService = {
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockSlotHoldService = {
+      findBlockingHolds: jest.fn().mockResolvedValue([]),
+      claimHolds: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
+    mockCancellationFeeService = {
+      getPolicy: jest.fn().mockResolvedValue(CancellationPolicy.createDefault()),
+    } as unknown as jest.Mocked<CancellationFeeService>;
+
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
+    useCase = new RescheduleAppointment(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockUserRoleValidationService,
+      mockAppointmentDurationService,
+      mockAppointmentHistoryService,
+      mockSlotHoldService,
+      new BookingValidationService(
+        mockAppointmentRepository,
+        mockAppointmentStatusRepository,
+        mockScheduleRepository,
+        mockServiceRepository,
+        mockStylistServiceRepository,
+        mockScheduleAvailabilityService,
+        mockSlotHoldService,
+      ),
+      mockCancellationFeeService,
+      mockEventBus,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería mover la cita, registrar el historial y usar las reservas del cliente
+    it('should reschedule a pending appointment', async () => {
+      const dto = createDto({ reason: 'Client asked for another day' });
+
+      const result = await useCase.execute(appointmentId, dto, clientId, 'CLIENT');
+
+      expect(result.dateTime).toBe(dto.dateTime);
+      expect(result.statusId).toBe(pendingStatus.id);
+      expect(mockAppointmentRepository.findConflictingAppointments).toHaveBeenCalledWith(
+        new Date(dto.dateTime),
+        60,
+        stylistId,
+        appointmentId,
+        { before: 0, after: 10 },
+      );
+      expect(mockAppointmentRepository.updateIfNoConflicts).toHaveBeenCalledTimes(1);
+      expect(mockAppointmentHistoryService.recordChanges).toHaveBeenCalledWith(
+        expect.objectContaining({ dateTime: daysFromNowAt(3) }),
+        expect.objectContaining({ id: appointmentId }),
+        { id: clientId, role: 'CLIENT' },
+        'Client asked for another day',
+      );
+      expect(mockSlotHoldService.claimHolds).toHaveBeenCalled();
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(AppointmentRescheduledEvent));
+      expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+        appointmentId,
+        dateTime: new Date(dto.dateTime),
+        previousDateTime: daysFromNowAt(3),
+        previousStylistId: stylistId,
+        actor: { id: clientId, role: 'CLIENT' },
+      });
+    });
+
+    // Una cita confirmada vuelve a pendiente para confirmar el nuevo horario
+    it('should reset a confirmed appointment to pending', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(createAppointment(confirmedStatus.id));
+
+      const result = await useCase.execute(appointmentId, createDto(), clientId, 'CLIENT');
+
+      expect(result.statusId).toBe(pendingStatus.id);
+      expect(result.confirmedAt).toBeUndefined();
+    });
+
+    // Debería permitir cambiar de estilista validando que ofrezca los servicios
+    it('should move the appointment to another stylist', async () => {
+      const newStylistId = generateUuid();
+
+      const result = await useCase.execute(
+        appointmentId,
+        createDto({ stylistId: newStylistId }),
+        generateUuid(),
+        'ADMIN',
+      );
+
+      expect(result.stylistId).toBe(newStylistId);
+      expect(mockUserRoleValidationService.ensureUserHasRole).toHaveBeenCalledWith(
+        newStylistId,
+        'STYLIST',
+      );
+      expect(mockStylistServiceRepository.findByStylistAndService).toHaveBeenCalledWith(
+        newStylistId,
+        serviceId,
+      );
+    });
+
+    // Debería asignar el horario regular del día de la semana de la nueva fecha
+    it('should move the appointment to the schedule of the new weekday', async () => {
+      const dto = createDto();
+      const newSchedule = schedules.find(
+        (schedule) => schedule.dayOfWeek === DayOfWeekUtils.fromDate(new Date(dto.dateTime)),
+      );
+
+      await useCase.execute(appointmentId, dto, clientId, 'CLIENT');
+
+      expect(mockAppointmentRepository.updateIfNoConflicts).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduleId: newSchedule!.id }),
+      );
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería fallar si no hay horario regular para el día de la nueva fecha
+    it('should throw NotFoundError when the new weekday has no schedule', async () => {
+      mockScheduleRepository.findAll.mockResolvedValue([]);
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        NotFoundError,
+      );
+      expect(mockAppointmentRepository.updateIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // Solo ADMIN o los participantes de la cita pueden reprogramarla
+    it('should forbid requesters who do not take part in the appointment', async () => {
+      await expect(
+        useCase.execute(appointmentId, createDto(), generateUuid(), 'CLIENT'),
+      ).rejects.toThrow(
+        new ForbiddenError('You do not have permission to reschedule this appointment'),
+      );
+    });
+
+    // Solo se reprograman citas pendientes o confirmadas
+    it('should reject appointments that are not pending or confirmed', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(createAppointment(completedStatus.id));
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError('Only pending or confirmed appointments can be rescheduled'),
+      );
+    });
+
+    // Debería exigir el aviso mínimo de la política sobre el horario original
+    it('should enforce the cancellation policy notice on the original slot', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(
+        createAppointment(pendingStatus.id, new Date(Date.now() + 60 * 60 * 1000)),
+      );
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError(
+          'Appointments can only be rescheduled at least 2 hours in advance. ' +
+            'For last-minute changes, please contact customer service.',
+        ),
+      );
+    });
+
+    // Debería rechazar un horario igual al actual o en el pasado
+    it('should reject an unchanged or past date', async () => {
+      await expect(
+        useCase.execute(
+          appointmentId,
+          createDto({ dateTime: daysFromNowAt(3).toISOString() }),
+          clientId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(
+        new ValidationError('The appointment is already scheduled at this date and time'),
+      );
+      await expect(
+        useCase.execute(
+          appointmentId,
+          createDto({ dateTime: daysFromNowAt(-1).toISOString() }),
+          clientId,
+          'CLIENT',
+        ),
+      ).rejects.toThrow(new ValidationError('Appointment cannot be rescheduled to the past'));
+    });
+
+    // Debería revalidar el horario del estilista en el nuevo día
+    it('should reject a date outside the stylist shift', async () => {
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '00:00',
+        endTime: '23:59',
+        source: 'regular',
+        intervals: [],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError('The selected stylist does not work on the selected date'),
+      );
+      expect(mockAppointmentRepository.updateIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // El límite diario no cuenta la propia cita
+    it('should enforce the daily limit without counting the appointment itself', async () => {
+      const others = [1, 2, 3].map((hour) =>
+        createAppointment(pendingStatus.id, daysFromNowAt(5, hour)),
+      );
+      others.forEach((other) => (other.id = generateUuid()));
+      mockAppointmentRepository.findByClientAndDateRange.mockResolvedValue([
+        createAppointment(),
+        ...others.slice(0, 2),
+      ]);
+
+      await expect(
+        useCase.execute(appointmentId, createDto(), clientId, 'CLIENT'),
+      ).resolves.toBeDefined();
+
+      mockAppointmentRepository.findByClientAndDateRange.mockResolvedValue(others);
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new BusinessRuleError('Maximum of 3 appointments per day has been reached'),
+      );
+    });
+  });
+
+  describe('Availability', () => {
+    // Debería fallar si el nuevo horario choca con otra cita
+    it('should reject conflicting appointments', async () => {
+      mockAppointmentRepository.findConflictingAppointments.mockResolvedValue([
+        createAppointment(),
+      ]);
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('There are conflicting appointments at this time'),
+      );
+    });
+
+    // Debería fallar si el turno está reservado para otro cliente
+    it('should reject slots held for another client', async () => {
+      mockSlotHoldService.findBlockingHolds.mockResolvedValue([
+        SlotHold.create(stylistId, daysFromNowAt(5), 60, 15, [generateUuid()]),
+      ]);
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('This time slot is temporarily held for another client'),
+      );
+    });
+
+    // Debería fallar si otra reserva ocupó el turno entre la validación y el guardado
+    it('should throw ConflictError when the slot is taken before saving', async () => {
+      mockAppointmentRepository.updateIfNoConflicts.mockResolvedValue(null);
+
+      await expect(useCase.execute(appointmentId, createDto(), clientId, 'CLIENT')).rejects.toThrow(
+        new ConflictError('There are conflicting appointments at this time'),
+      );
+      expect(mockAppointmentHistoryService.recordChanges).not.toHaveBeenCalled();
+      expect(mockSlotHoldService.claimHolds).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,127 @@
+import { SetStylistSchedule } from '../../../../../src/modules/appointments/application/use-cases/SetStylistSchedule';
+import { IStylistScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IStylistScheduleRepository';
+import { StylistSchedule } from '../../../../../src/modules/appointments/domain/entities/StylistSchedule';
+import { DayOfWeekEnum } from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('SetStylistSchedule Use Case', () => {
+  let useCase: SetStylistSchedule;
+  let mockStylistScheduleRepository: jest.Mocked<IStylistScheduleRepository>;
+  let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
+
+  const stylistId = generateUuid();
+  const adminId = generateUuid();
+
+  beforeEach(() => {
+    mockStylistScheduleRepository = {
+      findByStylistId: jest.fn(),
+      findByStylistAndDay: jest.fn(),
+      replaceForStylist: jest.fn(async (_stylistId: string, shifts: StylistSchedule[]) => shifts),
+    };
+
+    mockUserRoleValidationService = {
+      ensureUserHasRole: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<UserRoleValidationService>;
+
+    useCase = new SetStylistSchedule(mockStylistScheduleRepository, mockUserRoleValidationService);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería reemplazar la semana completa con turno partido y descanso
+  it('should replace the weekly shifts (split shift with break)', async () => {
+    const result = await useCase.execute(
+      stylistId,
+      {
+        shifts: [
+          { dayOfWeek: DayOfWeekEnum.MONDAY, startTime: '09:00', endTime: '13:00' },
+          {
+            dayOfWeek: DayOfWeekEnum.MONDAY,
+            startTime: '15:00',
+            endTime: '20:00',
+            breakStartTime: '17:00',
+            breakEndTime: '17:30',
+          },
+        ],
+      },
+      adminId,
+      'ADMIN',
+    );
+
+    expect(mockStylistScheduleRepository.replaceForStylist).toHaveBeenCalledWith(
+      stylistId,
+      expect.any(Array),
+    );
+    expect(result.hasCustomShifts).toBe(true);
+    expect(result.shifts).toHaveLength(2);
+    expect(result.shifts[1].breakStartTime).toBe('17:00');
+  });
+
+  // Lista vacía = vuelve a heredar el horario del salón
+  it('should allow clearing shifts to inherit salon hours', async () => {
+    const result = await useCase.execute(stylistId, { shifts: [] }, stylistId, 'STYLIST');
+
+    expect(result.hasCustomShifts).toBe(false);
+    expect(result.shifts).toEqual([]);
+  });
+
+  // Un estilista no puede modificar los turnos de otro
+  it('should throw ForbiddenError when a stylist edits another stylist schedule', async () => {
+    await expect(
+      useCase.execute(stylistId, { shifts: [] }, generateUuid(), 'STYLIST'),
+    ).rejects.toThrow(ForbiddenError);
+    expect(mockStylistScheduleRepository.replaceForStylist).not.toHaveBeenCalled();
+  });
+
+  // Turnos solapados en el mismo día
+  it('should throw ValidationError for overlapping shifts on the same day', async () => {
+    await expect(
+      useCase.execute(
+        stylistId,
+        {
+          shifts: [
+            { dayOfWeek: DayOfWeekEnum.MONDAY, startTime: '09:00', endTime: '13:00' },
+            { dayOfWeek: DayOfWeekEnum.MONDAY, startTime: '12:00', endTime: '16:00' },
+          ],
+        },
+        adminId,
+        'ADMIN',
+      ),
+    ).rejects.toThrow(ValidationError);
+    expect(mockStylistScheduleRepository.replaceForStylist).not.toHaveBeenCalled();
+  });
+
+  // Descanso fuera del turno
+  it('should throw ValidationError when a break falls outside its shift', async () => {
+    await expect(
+      useCase.execute(
+        stylistId,
+        {
+          shifts: [
+            {
+              dayOfWeek: DayOfWeekEnum.MONDAY,
+              startTime: '09:00',
+              endTime: '13:00',
+              breakStartTime: '12:30',
+              breakEndTime: '13:30',
+            },
+          ],
+        },
+        adminId,
+        'ADMIN',
+      ),
+    ).rejects.toThrow(ValidationError);
+  });
+
+  // ID inválido
+  it('should throw ValidationError for invalid stylist id', async () => {
+    await expect(useCase.execute('invalid', { shifts: [] }, adminId, 'ADMIN')).rejects.toThrow(
+      ValidationError,
+    );
+  });
+});
@@ -0,0 +1,125 @@
+import { StartAppointment } from '../../../../../src/modules/appointments/application/use-cases/StartAppointment';
+import { AppointmentLifecycleService } from '../../../../../src/modules/appointments/domain/services/AppointmentLifecycleService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+
+describe('StartAppointment Use Case', () => {
+  let useCase: StartAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const appointmentId = generateUuid();
+  const stylistId = generateUuid();
+  const clientId = generateUuid();
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const createMockAppointment = (
+    overrides: Partial<{ dateTime: Date; statusId: string }> = {},
+  ): Appointment =>
+    new Appointment(
+      appointmentId,
+      overrides.dateTime ?? new Date(Date.now() + 10 * 60 * 1000),
+      60,
+      generateUuid(),
+      clientId,
+      generateUuid(),
+      overrides.statusId ?? statusId(AppointmentStatusEnum.CONFIRMED),
+      stylistId,
+    );
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now: new Date('2026-10-19T12:00:00.000Z') });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findById: jest.fn(),
+      update: jest.fn().mockImplementation(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(async (id: string) => statuses.find((s) => s.id === id) ?? null),
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    useCase = new StartAppointment(
+      mockAppointmentRepository,
+      new AppointmentLifecycleService(mockAppointmentRepository, mockAppointmentStatusRepository),
+      mockAppointmentHistoryService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería pasar la cita a IN_PROGRESS registrando el inicio real
+  it('should move a confirmed appointment to IN_PROGRESS and record the start time', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    const result = await useCase.execute(appointmentId, stylistId, 'STYLIST');
+
+    expect(result.statusId).toBe(statusId(AppointmentStatusEnum.IN_PROGRESS));
+    expect(result.startedAt).toBe('2026-10-19T12:00:00.000Z');
+  });
+
+  // Debería rechazar al cliente aunque participe de la cita
+  it('should reject the client even if they are part of the appointment', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(createMockAppointment());
+
+    await expect(useCase.execute(appointmentId, clientId, 'CLIENT')).rejects.toThrow(
+      ForbiddenError,
+    );
+  });
+
+  // Debería rechazar transiciones inválidas (PENDING → IN_PROGRESS)
+  it('should reject invalid transitions', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment({ statusId: statusId(AppointmentStatusEnum.PENDING) }),
+    );
+
+    await expect(useCase.execute(appointmentId, stylistId, 'STYLIST')).rejects.toThrow(
+      new BusinessRuleError('Cannot transition from PENDING to IN_PROGRESS'),
+    );
+    expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+  });
+
+  // Debería rechazar citas de otro día
+  it('should reject appointments that are not scheduled for today', async () => {
+    mockAppointmentRepository.findById.mockResolvedValue(
+      createMockAppointment({ dateTime: new Date('2026-10-21T12:00:00.000Z') }),
+    );
+
+    await expect(useCase.execute(appointmentId, stylistId, 'STYLIST')).rejects.toThrow(
+      new BusinessRuleError('Appointments can only be started on the day of the appointment'),
+    );
+  });
+});
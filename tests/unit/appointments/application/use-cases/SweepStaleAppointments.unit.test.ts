@@ -0,0 +1,180 @@
+import { SweepStaleAppointments } from '../../../../../src/modules/appointments/application/use-cases/SweepStaleAppointments';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { CancellationFeeService } from '../../../../../src/modules/appointments/domain/services/CancellationFeeService';
+import { SYSTEM_ACTOR } from '../../../../../src/modules/appointments/domain/entities/AppointmentEvent';
+
+describe('SweepStaleAppointments Use Case', () => {
+  let useCase: SweepStaleAppointments;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockCancellationFeeService: jest.Mocked<CancellationFeeService>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const graceMinutes = 30;
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const createMockAppointment = (dateTime: Date, status: AppointmentStatusEnum): Appointment =>
+    new Appointment(
+      generateUuid(),
+      dateTime,
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      statusId(status),
+      generateUuid(),
+    );
+
+  const minutesAgo = (minutes: number): Date => new Date(now.getTime() - minutes * 60 * 1000);
+
+  beforeAll(() => {
+    jest.useFakeTimers({ now });
+  });
+
+  afterAll(() => {
+    jest.useRealTimers();
+  });
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findPendingConfirmation: jest.fn().mockResolvedValue([]),
+      findByDateRange: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation(async (appointment: Appointment) => appointment),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockCancellationFeeService = {
+      chargeNoShow: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<CancellationFeeService>;
+
+    useCase = new SweepStaleAppointments(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockAppointmentHistoryService,
+      mockCancellationFeeService,
+      graceMinutes,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería cancelar como `system` solo las citas PENDING cuya hora ya pasó
+  it('should cancel past pending appointments on behalf of the system', async () => {
+    const expired = createMockAppointment(minutesAgo(10), AppointmentStatusEnum.PENDING);
+    const upcoming = createMockAppointment(
+      new Date(now.getTime() + 60 * 60 * 1000),
+      AppointmentStatusEnum.PENDING,
+    );
+    mockAppointmentRepository.findPendingConfirmation.mockResolvedValue([expired, upcoming]);
+
+    const result = await useCase.execute('scheduled');
+
+    expect(result.expiredPendingCount).toBe(1);
+    expect(mockCancellationFeeService.chargeNoShow).not.toHaveBeenCalled();
+    expect(mockAppointmentRepository.update).toHaveBeenCalledTimes(1);
+    expect(expired.statusId).toBe(statusId(AppointmentStatusEnum.CANCELLED));
+    expect(expired.cancelledBy).toBe('system');
+    expect(expired.cancellationReason).toBe(SweepStaleAppointments.EXPIRED_PENDING_REASON);
+    expect(upcoming.statusId).toBe(statusId(AppointmentStatusEnum.PENDING));
+    expect(mockAppointmentHistoryService.recordChanges).toHaveBeenCalledWith(
+      expect.objectContaining({ statusId: statusId(AppointmentStatusEnum.PENDING) }),
+      expired,
+      SYSTEM_ACTOR,
+      SweepStaleAppointments.EXPIRED_PENDING_REASON,
+    );
+  });
+
+  // Debería buscar no shows solo hasta el vencimiento del margen de espera
+  it('should only look for no-shows whose grace period has elapsed', async () => {
+    await useCase.execute('scheduled');
+
+    const [, to] = mockAppointmentRepository.findByDateRange.mock.calls[0];
+    expect(to).toEqual(minutesAgo(graceMinutes));
+  });
+
+  // Debería marcar NO_SHOW solo las CONFIRMED sin check-in
+  it('should mark confirmed appointments without check-in as no-show', async () => {
+    const absent = createMockAppointment(minutesAgo(90), AppointmentStatusEnum.CONFIRMED);
+    const checkedIn = createMockAppointment(minutesAgo(90), AppointmentStatusEnum.CONFIRMED);
+    checkedIn.checkIn();
+    const completed = createMockAppointment(minutesAgo(90), AppointmentStatusEnum.COMPLETED);
+    mockAppointmentRepository.findByDateRange.mockResolvedValue([absent, checkedIn, completed]);
+
+    const result = await useCase.execute('manual');
+
+    expect(result).toMatchObject({ trigger: 'manual', noShowCount: 1, failedCount: 0 });
+    expect(absent.statusId).toBe(statusId(AppointmentStatusEnum.NO_SHOW));
+    expect(checkedIn.statusId).toBe(statusId(AppointmentStatusEnum.CONFIRMED));
+    expect(mockAppointmentRepository.update).toHaveBeenCalledTimes(1);
+    expect(mockCancellationFeeService.chargeNoShow).toHaveBeenCalledTimes(1);
+    expect(mockCancellationFeeService.chargeNoShow).toHaveBeenCalledWith(absent);
+  });
+
+  // Debería seguir con el resto de las citas si una falla al guardarse
+  it('should keep sweeping and report appointments that fail to update', async () => {
+    const failing = createMockAppointment(minutesAgo(90), AppointmentStatusEnum.CONFIRMED);
+    const absent = createMockAppointment(minutesAgo(120), AppointmentStatusEnum.CONFIRMED);
+    mockAppointmentRepository.findByDateRange.mockResolvedValue([failing, absent]);
+    mockAppointmentRepository.update.mockRejectedValueOnce(new Error('Database unavailable'));
+
+    const result = await useCase.execute('scheduled');
+
+    expect(result.noShowCount).toBe(1);
+    expect(result.failedCount).toBe(1);
+    expect(result.failures).toEqual([
+      { appointmentId: failing.id, reason: 'Database unavailable' },
+    ]);
+  });
+
+  // Si el cargo falla, la cita no debería quedar NO_SHOW para reintentarla completa
+  it('should leave the appointment confirmed when the no-show fee cannot be charged', async () => {
+    const absent = createMockAppointment(minutesAgo(90), AppointmentStatusEnum.CONFIRMED);
+    mockAppointmentRepository.findByDateRange.mockResolvedValue([absent]);
+    mockCancellationFeeService.chargeNoShow.mockRejectedValueOnce(
+      new Error('Payments unavailable'),
+    );
+
+    const result = await useCase.execute('scheduled');
+
+    expect(result.noShowCount).toBe(0);
+    expect(result.failures).toEqual([{ appointmentId: absent.id, reason: 'Payments unavailable' }]);
+    expect(absent.statusId).toBe(statusId(AppointmentStatusEnum.CONFIRMED));
+    expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+    expect(mockAppointmentHistoryService.recordChanges).not.toHaveBeenCalled();
+  });
+
+  // Debería fallar si falta alguno de los estados requeridos
+  it('should throw NotFoundError when a required status is missing', async () => {
+    mockAppointmentStatusRepository.findByName.mockResolvedValue(null);
+
+    await expect(useCase.execute('scheduled')).rejects.toThrow(NotFoundError);
+    expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
+  });
+});
@@ -1,11 +1,20 @@
 import { UpdateAppointment } from '../../../../../src/modules/appointments/application/use-cases/UpdateAppointment';
 import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
 import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
 import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
 import { UserRoleValidationService } from '../../../../../src/modules/auth/domain/services/UserRoleValidationService';
 import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { BookingValidationService } from '../../../../../src/modules/appointments/domain/services/BookingValidationService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
 import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  DayOfWeekEnum,
+  Schedule,
+} from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
 import {
   AppointmentStatus,
   AppointmentStatusEnum,
@@ -18,15 +27,24 @@ import { BusinessRuleError } from '../../../../../src/shared/exceptions/Business
 import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
 import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { DayOfWeekUtils } from '../../../../../src/shared/utils/dayOfWeek';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { AppointmentRescheduledEvent } from '../../../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
 
 describe('UpdateAppointment Use Case', () => {
+  let mockEventBus: jest.Mocked<EventBus>;
   let useCase: UpdateAppointment;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
   let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
   let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
   let mockServiceRepository: jest.Mocked<IServiceRepository>;
   let mockUserRoleValidationService: jest.Mocked<UserRoleValidationService>;
   let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
   let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
+  let mockAppointmentDurationService: jest.Mocked<AppointmentDurationService>;
+  let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
 
   const getFutureDate = (hoursFromNow: number = 48): Date => {
     const future = new Date();
@@ -51,6 +69,10 @@ describe('UpdateAppointment Use Case', () => {
 
   const adminRole = 'ADMIN';
 
+  const schedules = Object.values(DayOfWeekEnum).map((dayOfWeek) =>
+    Schedule.create(dayOfWeek, '00:00', '23:59'),
+  );
+
   const minimalUpdateDto: UpdateAppointmentDto = { notes: 'Minor update' };
 
   const createMockAppointment = (overrides: any = {}): Appointment => {
@@ -125,7 +147,7 @@ describe('UpdateAppointment Use Case', () => {
     mockAppointmentRepository.findById.mockResolvedValue(appointment);
     mockAppointmentStatusRepository.findById.mockResolvedValue(confirmedStatus);
     mockAppointmentRepository.findConflictingAppointments.mockResolvedValue([]);
-    mockAppointmentRepository.update.mockResolvedValue(appointment);
+    mockAppointmentRepository.updateIfNoConflicts.mockResolvedValue(appointment);
   };
 
   beforeEach(() => {
@@ -133,6 +155,8 @@ describe('UpdateAppointment Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -142,6 +166,8 @@ describe('UpdateAppointment Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
       findByDateRange: jest.fn(),
@@ -150,6 +176,8 @@ describe('UpdateAppointment Use Case', () => {
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
@@ -194,6 +222,18 @@ describe('UpdateAppointment Use Case', () => {
         endTime: '23:59',
         source: 'regular',
       }),
+      // Por defecto el estilista no tiene turnos propios y hereda el horario del salón
+      getEffectiveStylistSchedule: jest.fn(async (date: Date) => {
+        const salon = await mockScheduleAvailabilityService.getEffectiveSchedule(date);
+        return (
+          salon && {
+            ...salon,
+            intervals: [{ startTime: salon.startTime, endTime: salon.endTime }],
+            hasCustomShifts: false,
+            absences: [],
+          }
+        );
+      }),
       isDayClosed: jest.fn().mockResolvedValue(false),
     } as unknown as jest.Mocked<ScheduleAvailabilityService>;
 
@@ -210,17 +250,50 @@ describe('UpdateAppointment Use Case', () => {
       existsAssignment: jest.fn(),
     } as unknown as jest.Mocked<IStylistServiceRepository>;
 
+    // Mock de AppointmentDurationService: por defecto los servicios no reservan buffers
+    mockAppointmentDurationService = {
+      calculateBuffer: jest.fn().mockResolvedValue({ before: 0, after: 0 }),
+    } as unknown as jest.Mocked<AppointmentDurationService>;
+
+    // Horario regular de cada día de la semana, para resolver el scheduleId al cambiar la fecha
+    mockScheduleRepository = {
+      findAll: jest.fn().mockResolvedValue(schedules),
+    } as unknown as jest.Mocked<IScheduleRepository>;
+
+    // Por defecto ningún turno está reservado temporalmente para otro cliente
+    mockSlotHoldService = {
+      findBlockingHolds: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
     // Defaults para la revalidación de límite diario al reprogramar (APT-39)
     mockAppointmentRepository.findByClientAndDateRange.mockResolvedValue([]);
     mockAppointmentStatusRepository.findByName.mockResolvedValue(null);
 
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
     useCase = new UpdateAppointment(
       mockAppointmentRepository,
       mockAppointmentStatusRepository,
-      mockServiceRepository,
       mockUserRoleValidationService,
-      mockScheduleAvailabilityService,
-      mockStylistServiceRepository,
+      new BookingValidationService(
+        mockAppointmentRepository,
+        mockAppointmentStatusRepository,
+        mockScheduleRepository,
+        mockServiceRepository,
+        mockStylistServiceRepository,
+        mockScheduleAvailabilityService,
+        mockSlotHoldService,
+      ),
+      mockAppointmentDurationService,
+      mockAppointmentHistoryService,
+      mockEventBus,
     );
   });
 
@@ -257,6 +330,12 @@ describe('UpdateAppointment Use Case', () => {
       );
 
       expect(mockAppointmentRepository.findById).toHaveBeenCalledWith(validAppointmentId);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(AppointmentRescheduledEvent));
+      expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+        appointmentId: appointment.id,
+        stylistId: validNewStylistId,
+        reason: completeUpdateDto.reason,
+      });
       expect(result.id).toBe(appointment.id);
     });
 
@@ -278,6 +357,8 @@ describe('UpdateAppointment Use Case', () => {
 
       expect(result.id).toBe(appointment.id);
       expect(mockUserRoleValidationService.ensureUserHasRole).not.toHaveBeenCalled();
+      // Sin cambio de turno no hay reprogramación que notificar
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
     });
 
     // Debería permitir la actualización por parte del estilista asignado
@@ -527,6 +608,140 @@ describe('UpdateAppointment Use Case', () => {
         useCase.execute(validAppointmentId, dateTimeUpdateDto, validRequesterId, adminRole),
       ).rejects.toThrow(ConflictError);
     });
+
+    // Debería lanzar ConflictError si el nuevo horario está reservado temporalmente para otro cliente
+    it('should throw ConflictError when the new time is held for another client', async () => {
+      const appointment = createMockAppointment({
+        userId: validRequesterId,
+        dateTime: getFutureDate(96),
+      });
+      jest.spyOn(appointment, 'canBeModified').mockReturnValue(true);
+      setupBasicSuccessfulMocks(appointment);
+      const newDateTime = getFutureDate(100);
+      mockSlotHoldService.findBlockingHolds.mockResolvedValue([
+        SlotHold.create(validStylistId, newDateTime, 60, 15, [generateUuid()]),
+      ]);
+
+      await expect(
+        useCase.execute(
+          validAppointmentId,
+          { dateTime: newDateTime.toISOString(), notes: 'Reschedule' },
+          validRequesterId,
+          adminRole,
+        ),
+      ).rejects.toThrow(new ConflictError('This time slot is temporarily held for another client'));
+      expect(mockSlotHoldService.findBlockingHolds).toHaveBeenCalledWith(
+        validStylistId,
+        newDateTime,
+        new Date(newDateTime.getTime() + 60 * 60000),
+        validClientId,
+        { before: 0, after: 0 },
+      );
+      expect(mockAppointmentRepository.updateIfNoConflicts).not.toHaveBeenCalled();
+    });
+
+    // Debería lanzar ConflictError si otra reserva ocupa el turno entre la validación y el guardado
+    it('should throw ConflictError when the slot is taken before the atomic save', async () => {
+      const appointment = createMockAppointment({
+        userId: validRequesterId,
+        dateTime: getFutureDate(96),
+      });
+      jest.spyOn(appointment, 'canBeModified').mockReturnValue(true);
+      setupBasicSuccessfulMocks(appointment);
+      mockAppointmentRepository.updateIfNoConflicts.mockResolvedValue(null);
+
+      await expect(
+        useCase.execute(
+          validAppointmentId,
+          { dateTime: getFutureISOString(100), notes: 'Reschedule' },
+          validRequesterId,
+          adminRole,
+        ),
+      ).rejects.toThrow(new ConflictError('There are conflicting appointments at this time'));
+      expect(mockAppointmentHistoryService.recordChanges).not.toHaveBeenCalled();
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
+    });
+
+    // Debería recalcular los buffers al cambiar los servicios y usarlos en la búsqueda de conflictos
+    it('should recompute buffers when services change and check conflicts with them', async () => {
+      const appointment = createMockAppointment({
+        userId: validRequesterId,
+        dateTime: getFutureDate(96),
+      });
+      jest.spyOn(appointment, 'canBeModified').mockReturnValue(true);
+      setupBasicSuccessfulMocks(appointment);
+      mockServiceRepository.findById.mockResolvedValue(createMockService(validNewServiceId));
+      mockAppointmentDurationService.calculateBuffer.mockResolvedValue({ before: 10, after: 15 });
+
+      await useCase.execute(
+        validAppointmentId,
+        { serviceIds: [validNewServiceId] },
+        validRequesterId,
+        adminRole,
+      );
+
+      expect(mockAppointmentDurationService.calculateBuffer).toHaveBeenCalledWith(
+        [validNewServiceId],
+        validStylistId,
+      );
+      expect(mockAppointmentRepository.findConflictingAppointments).toHaveBeenCalledWith(
+        appointment.dateTime,
+        appointment.duration,
+        validStylistId,
+        validAppointmentId,
+        { before: 10, after: 15 },
+      );
+      expect(appointment.bufferBefore).toBe(10);
+      expect(appointment.bufferAfter).toBe(15);
+    });
+  });
+
+  describe('Regular Schedule', () => {
+    // Debería asociar la cita al horario regular del nuevo día al cambiar la fecha
+    it('should move the appointment to the regular schedule of its new weekday', async () => {
+      const appointment = createMockAppointment({
+        userId: validRequesterId,
+        dateTime: getFutureDate(96),
+      });
+      jest.spyOn(appointment, 'canBeModified').mockReturnValue(true);
+      setupBasicSuccessfulMocks(appointment);
+      const newDateTime = getFutureDate(120);
+      const newSchedule = schedules.find(
+        (schedule) => schedule.dayOfWeek === DayOfWeekUtils.fromDate(newDateTime),
+      );
+
+      const result = await useCase.execute(
+        validAppointmentId,
+        { dateTime: newDateTime.toISOString(), notes: 'Reschedule' },
+        validRequesterId,
+        adminRole,
+      );
+
+      expect(result.scheduleId).toBe(newSchedule!.id);
+      expect(mockAppointmentRepository.updateIfNoConflicts).toHaveBeenCalledWith(
+        expect.objectContaining({ scheduleId: newSchedule!.id }),
+      );
+    });
+
+    // No debería cambiar el horario regular si no cambia la fecha
+    it('should keep the regular schedule when the date does not change', async () => {
+      const appointment = createMockAppointment({
+        userId: validRequesterId,
+        dateTime: getFutureDate(96),
+      });
+      jest.spyOn(appointment, 'canBeModified').mockReturnValue(true);
+      setupBasicSuccessfulMocks(appointment);
+
+      const result = await useCase.execute(
+        validAppointmentId,
+        minimalUpdateDto,
+        validRequesterId,
+        adminRole,
+      );
+
+      expect(result.scheduleId).toBe(validScheduleId);
+      expect(mockScheduleRepository.findAll).not.toHaveBeenCalled();
+    });
   });
 
   describe('Repository Integration', () => {
@@ -542,7 +757,8 @@ describe('UpdateAppointment Use Case', () => {
       await useCase.execute(validAppointmentId, minimalUpdateDto, validRequesterId, adminRole);
 
       expect(mockAppointmentRepository.findById).toHaveBeenCalledWith(validAppointmentId);
-      expect(mockAppointmentRepository.update).toHaveBeenCalledWith(appointment);
+      expect(mockAppointmentRepository.updateIfNoConflicts).toHaveBeenCalledWith(appointment);
+      expect(mockAppointmentRepository.update).not.toHaveBeenCalled();
     });
   });
 
@@ -598,6 +814,38 @@ describe('UpdateAppointment Use Case', () => {
       ).rejects.toThrow(BusinessRuleError);
     });
 
+    // Debería lanzar BusinessRuleError si la reprogramación cruza el descanso del estilista
+    it('should throw BusinessRuleError when the rescheduled time overlaps the stylist break', async () => {
+      const futureDate = getFutureDate(96);
+      futureDate.setUTCHours(12, 30, 0, 0);
+      const appointment = createMockAppointment({
+        userId: validRequesterId,
+        dateTime: getFutureDate(48),
+      });
+      jest.spyOn(appointment, 'canBeModified').mockReturnValue(true);
+      setupBasicSuccessfulMocks(appointment);
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [
+          { startTime: '09:00', endTime: '13:00' },
+          { startTime: '14:00', endTime: '18:00' },
+        ],
+        hasCustomShifts: true,
+        absences: [],
+      });
+
+      const rescheduleDto: UpdateAppointmentDto = {
+        dateTime: futureDate.toISOString(),
+        notes: 'Reschedule over stylist break',
+      };
+
+      await expect(
+        useCase.execute(validAppointmentId, rescheduleDto, validRequesterId, adminRole),
+      ).rejects.toThrow(/outside the stylist's working hours/);
+    });
+
     // Debería lanzar BusinessRuleError si se alcanza el límite diario de citas en la nueva fecha
     it('should throw BusinessRuleError when the daily appointment limit is reached on the new date', async () => {
       const appointment = createMockAppointment({
@@ -0,0 +1,280 @@
+import { UpdateAppointmentSeries } from '../../../../../src/modules/appointments/application/use-cases/UpdateAppointmentSeries';
+import { UpdateAppointment } from '../../../../../src/modules/appointments/application/use-cases/UpdateAppointment';
+import { AppointmentSeriesScopeService } from '../../../../../src/modules/appointments/domain/services/AppointmentSeriesScopeService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentSeriesRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentSeriesRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentSeries,
+  SeriesScopeEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentSeries';
+import { AppointmentStatus } from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { AppointmentDto } from '../../../../../src/modules/appointments/application/dto/response/AppointmentDto';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('UpdateAppointmentSeries Use Case', () => {
+  let useCase: UpdateAppointmentSeries;
+  let mockUpdateAppointment: jest.Mocked<UpdateAppointment>;
+  let mockAppointmentSeriesRepository: jest.Mocked<IAppointmentSeriesRepository>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const requesterId = generateUuid();
+  const clientId = generateUuid();
+  const statusId = generateUuid();
+  const cancelledStatusId = generateUuid();
+  const adminRole = 'ADMIN';
+  const WEEK_IN_MS = 7 * 24 * 60 * 60 * 1000;
+
+  // Primera cita dentro de una semana, a las 10:00 UTC
+  const firstDateTime = new Date();
+  firstDateTime.setUTCDate(firstDateTime.getUTCDate() + 7);
+  firstDateTime.setUTCHours(10, 0, 0, 0);
+
+  const series = AppointmentSeries.create(1, 3, firstDateTime, clientId, requesterId);
+
+  const createSeriesAppointment = (weeks: number, status: string = statusId): Appointment =>
+    Appointment.fromPersistence(
+      generateUuid(),
+      new Date(firstDateTime.getTime() + weeks * WEEK_IN_MS),
+      60,
+      requesterId,
+      clientId,
+      generateUuid(),
+      status,
+      undefined,
+      undefined,
+      [],
+      new Date(),
+      new Date(),
+      undefined,
+      undefined,
+      undefined,
+      0,
+      0,
+      series.id,
+    );
+
+  let appointments: Appointment[];
+
+  beforeEach(() => {
+    appointments = [0, 1, 2].map((weeks) => createSeriesAppointment(weeks));
+
+    mockAppointmentSeriesRepository = {
+      save: jest.fn(),
+      findById: jest.fn().mockResolvedValue(series),
+      delete: jest.fn(),
+    } as unknown as jest.Mocked<IAppointmentSeriesRepository>;
+
+    mockAppointmentRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(
+          async (id: string) => appointments.find((appointment) => appointment.id === id) ?? null,
+        ),
+      findBySeriesId: jest.fn().mockImplementation(async () => appointments),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findTerminalStatuses: jest
+        .fn()
+        .mockResolvedValue([new AppointmentStatus(cancelledStatusId, 'CANCELLED', 'Cancelled')]),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockUpdateAppointment = {
+      execute: jest
+        .fn()
+        .mockImplementation(async (id: string, dto) => ({ id, ...dto }) as AppointmentDto),
+    } as unknown as jest.Mocked<UpdateAppointment>;
+
+    useCase = new UpdateAppointmentSeries(
+      new AppointmentSeriesScopeService(
+        mockAppointmentSeriesRepository,
+        mockAppointmentRepository,
+        mockAppointmentStatusRepository,
+      ),
+      mockUpdateAppointment,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Scope selection', () => {
+    // Debería editar solo la cita indicada por defecto
+    it('should update only the given appointment by default', async () => {
+      const result = await useCase.execute(
+        series.id,
+        appointments[1].id,
+        { notes: 'Traer referencias' },
+        requesterId,
+        adminRole,
+      );
+
+      expect(result.scope).toBe(SeriesScopeEnum.THIS);
+      expect(result.results).toHaveLength(1);
+      expect(mockUpdateAppointment.execute).toHaveBeenCalledWith(
+        appointments[1].id,
+        { notes: 'Traer referencias' },
+        requesterId,
+        adminRole,
+      );
+    });
+
+    // Debería editar la cita indicada y las siguientes
+    it('should update the given appointment and the following ones', async () => {
+      const result = await useCase.execute(
+        series.id,
+        appointments[1].id,
+        { notes: 'Cambio', scope: SeriesScopeEnum.THIS_AND_FOLLOWING },
+        requesterId,
+        adminRole,
+      );
+
+      expect(result.results.map((item) => item.appointmentId)).toEqual([
+        appointments[1].id,
+        appointments[2].id,
+      ]);
+      expect(mockUpdateAppointment.execute).not.toHaveBeenCalledWith(
+        appointments[0].id,
+        expect.anything(),
+        expect.anything(),
+        expect.anything(),
+      );
+    });
+
+    // Debería omitir citas canceladas al editar todas
+    it('should skip cancelled appointments when updating all', async () => {
+      appointments[2] = createSeriesAppointment(2, cancelledStatusId);
+
+      const result = await useCase.execute(
+        series.id,
+        appointments[1].id,
+        { notes: 'Cambio', scope: SeriesScopeEnum.ALL },
+        requesterId,
+        adminRole,
+      );
+
+      expect(result.results.map((item) => item.appointmentId)).toEqual([
+        appointments[0].id,
+        appointments[1].id,
+      ]);
+    });
+
+    // Debería rechazar una cita que no pertenece a la serie
+    it('should throw NotFoundError when the appointment is not part of the series', async () => {
+      await expect(
+        useCase.execute(series.id, generateUuid(), { notes: 'Cambio' }, requesterId, adminRole),
+      ).rejects.toThrow(NotFoundError);
+      expect(mockUpdateAppointment.execute).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Date shifting', () => {
+    // Debería mover las demás citas los mismos días y a la misma hora que la indicada
+    it('should shift the other appointments by the same days and to the same time', async () => {
+      const newPivotDateTime = new Date(appointments[0].dateTime.getTime() + 24 * 60 * 60 * 1000);
+      newPivotDateTime.setUTCHours(15, 30, 0, 0);
+
+      await useCase.execute(
+        series.id,
+        appointments[0].id,
+        { dateTime: newPivotDateTime.toISOString(), scope: SeriesScopeEnum.ALL },
+        requesterId,
+        adminRole,
+      );
+
+      const expected = new Date(newPivotDateTime.getTime() + 2 * WEEK_IN_MS).toISOString();
+      expect(mockUpdateAppointment.execute).toHaveBeenCalledWith(
+        appointments[2].id,
+        { dateTime: expected },
+        requesterId,
+        adminRole,
+      );
+    });
+  });
+
+  describe('Forward shifts', () => {
+    // Debería adelantar una serie semanal una semana sin que cada cita choque con la siguiente
+    it('should shift a weekly series forward without colliding with the next occurrence', async () => {
+      // Simula UpdateAppointment: rechaza el horario ocupado por otra cita que aún no se movió
+      const occupied = new Map(
+        appointments.map((appointment) => [appointment.id, appointment.dateTime.toISOString()]),
+      );
+      mockUpdateAppointment.execute.mockImplementation(async (id: string, dto) => {
+        const taken = [...occupied].some(
+          ([otherId, dateTime]) => otherId !== id && dateTime === dto.dateTime,
+        );
+        if (taken) {
+          throw new ConflictError('There are conflicting appointments at this time');
+        }
+        occupied.set(id, dto.dateTime!);
+        return { id, ...dto } as AppointmentDto;
+      });
+      const newPivotDateTime = new Date(appointments[0].dateTime.getTime() + WEEK_IN_MS);
+
+      const result = await useCase.execute(
+        series.id,
+        appointments[0].id,
+        { dateTime: newPivotDateTime.toISOString(), scope: SeriesScopeEnum.ALL },
+        requesterId,
+        adminRole,
+      );
+
+      expect(result.results.map((item) => item.status)).toEqual(['UPDATED', 'UPDATED', 'UPDATED']);
+      expect(result.results.map((item) => item.appointmentId)).toEqual(
+        appointments.map((appointment) => appointment.id),
+      );
+      expect(mockUpdateAppointment.execute.mock.calls.map(([id]) => id)).toEqual([
+        appointments[2].id,
+        appointments[1].id,
+        appointments[0].id,
+      ]);
+    });
+
+    // Al atrasar la serie se mantiene el orden cronológico
+    it('should update in chronological order when shifting the series backwards', async () => {
+      const newPivotDateTime = new Date(appointments[1].dateTime.getTime() - 60 * 60 * 1000);
+
+      await useCase.execute(
+        series.id,
+        appointments[1].id,
+        { dateTime: newPivotDateTime.toISOString(), scope: SeriesScopeEnum.ALL },
+        requesterId,
+        adminRole,
+      );
+
+      expect(mockUpdateAppointment.execute.mock.calls.map(([id]) => id)).toEqual(
+        appointments.map((appointment) => appointment.id),
+      );
+    });
+  });
+
+  describe('Partial failures', () => {
+    // Debería reportar las citas que no se pudieron editar sin detener las demás
+    it('should report failed appointments and keep updating the rest', async () => {
+      mockUpdateAppointment.execute.mockImplementation(async (id: string, dto) => {
+        if (id === appointments[1].id) {
+          throw new BusinessRuleError('Stylist is not available at this time');
+        }
+        return { id, ...dto } as AppointmentDto;
+      });
+
+      const result = await useCase.execute(
+        series.id,
+        appointments[0].id,
+        { notes: 'Cambio', scope: SeriesScopeEnum.ALL },
+        requesterId,
+        adminRole,
+      );
+
+      expect(result.results.map((item) => item.status)).toEqual(['UPDATED', 'FAILED', 'UPDATED']);
+      expect(result.results[1].reason).toBe('Stylist is not available at this time');
+    });
+  });
+});
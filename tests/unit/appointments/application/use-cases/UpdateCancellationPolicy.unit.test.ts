@@ -0,0 +1,87 @@
+import { UpdateCancellationPolicy } from '../../../../../src/modules/appointments/application/use-cases/UpdateCancellationPolicy';
+import { ICancellationPolicyRepository } from '../../../../../src/modules/appointments/domain/repositories/ICancellationPolicyRepository';
+import {
+  CancellationFeeTypeEnum,
+  CancellationPolicy,
+} from '../../../../../src/modules/appointments/domain/entities/CancellationPolicy';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { UpdateCancellationPolicyDto } from '../../../../../src/modules/appointments/application/dto/request/UpdateCancellationPolicyDto';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('UpdateCancellationPolicy Use Case', () => {
+  let useCase: UpdateCancellationPolicy;
+  let mockCancellationPolicyRepository: jest.Mocked<ICancellationPolicyRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+
+  const serviceId = generateUuid();
+
+  const validDto: UpdateCancellationPolicyDto = {
+    adminNoticeHours: 0,
+    stylistNoticeHours: 4,
+    clientNoticeHours: 24,
+    lateFee: { type: CancellationFeeTypeEnum.PERCENTAGE, value: 50 },
+    chargeNoShowFee: true,
+    serviceOverrides: [{ serviceId, noticeHours: 48 }],
+  };
+
+  beforeEach(() => {
+    mockCancellationPolicyRepository = {
+      get: jest.fn(),
+      save: jest.fn().mockImplementation(async (policy: CancellationPolicy) => policy),
+    } as unknown as jest.Mocked<ICancellationPolicyRepository>;
+
+    mockServiceRepository = {
+      existsById: jest.fn().mockResolvedValue(true),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    useCase = new UpdateCancellationPolicy(mockCancellationPolicyRepository, mockServiceRepository);
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería guardar la política completa
+  it('should save the whole policy', async () => {
+    const result = await useCase.execute(validDto);
+
+    expect(mockCancellationPolicyRepository.save).toHaveBeenCalledTimes(1);
+    expect(result).toMatchObject({
+      adminNoticeHours: 0,
+      stylistNoticeHours: 4,
+      clientNoticeHours: 24,
+      lateFee: { type: 'PERCENTAGE', value: 50 },
+      chargeNoShowFee: true,
+      serviceOverrides: [{ serviceId, noticeHours: 48 }],
+    });
+  });
+
+  // Debería dejar la política sin cargo ni avisos por servicio si se omiten
+  it('should clear the fee and service overrides when omitted', async () => {
+    const result = await useCase.execute({
+      adminNoticeHours: 2,
+      stylistNoticeHours: 2,
+      clientNoticeHours: 2,
+      lateFee: null,
+    });
+
+    expect(result.lateFee).toBeUndefined();
+    expect(result.chargeNoShowFee).toBe(false);
+    expect(result.serviceOverrides).toEqual([]);
+  });
+
+  // Debería rechazar servicios inexistentes
+  it('should throw NotFoundError for unknown services', async () => {
+    mockServiceRepository.existsById.mockResolvedValue(false);
+
+    await expect(useCase.execute(validDto)).rejects.toThrow(NotFoundError);
+    expect(mockCancellationPolicyRepository.save).not.toHaveBeenCalled();
+  });
+
+  // Debería rechazar cobrar no show sin cargo configurado
+  it('should reject charging no-shows without a fee', async () => {
+    await expect(useCase.execute({ ...validDto, lateFee: null })).rejects.toThrow(ValidationError);
+  });
+});
@@ -0,0 +1,174 @@
+import { UpdateSchedule } from '../../../../../src/modules/appointments/application/use-cases/UpdateSchedule';
+import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import {
+  DayOfWeekEnum,
+  Schedule,
+} from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('UpdateSchedule Use Case', () => {
+  let useCase: UpdateSchedule;
+  let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let schedule: Schedule;
+
+  const pendingStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.PENDING);
+  const confirmedStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CONFIRMED);
+  const cancelledStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CANCELLED);
+
+  const createMockAppointment = (dateTime: Date, statusId: string, duration = 60) =>
+    new Appointment(
+      generateUuid(),
+      dateTime,
+      duration,
+      generateUuid(),
+      generateUuid(),
+      schedule.id,
+      statusId,
+      generateUuid(),
+      undefined,
+      [generateUuid()],
+      new Date(),
+      new Date(),
+    );
+
+  /** Fecha futura (próxima semana) a una hora UTC concreta */
+  const nextWeekAt = (hours: number, minutes = 0): Date => {
+    const date = new Date();
+    date.setUTCDate(date.getUTCDate() + 7);
+    date.setUTCHours(hours, minutes, 0, 0);
+    return date;
+  };
+
+  beforeEach(() => {
+    schedule = Schedule.create(DayOfWeekEnum.MONDAY, '09:00', '18:00');
+
+    mockScheduleRepository = {
+      findById: jest.fn().mockResolvedValue(schedule),
+      update: jest.fn(async (updated: Schedule) => updated),
+      findConflictingSchedules: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IScheduleRepository>;
+
+    mockAppointmentRepository = {
+      findByScheduleId: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    const statusesByName: Record<string, AppointmentStatus> = {
+      [AppointmentStatusEnum.PENDING]: pendingStatus,
+      [AppointmentStatusEnum.CONFIRMED]: confirmedStatus,
+    };
+    mockAppointmentStatusRepository = {
+      findByName: jest.fn(async (name: string) => statusesByName[name] ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    useCase = new UpdateSchedule(
+      mockScheduleRepository,
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Successful Execution', () => {
+    // Debería actualizar el rango cuando ninguna cita queda fuera
+    it('should update the range when no appointment is stranded', async () => {
+      mockAppointmentRepository.findByScheduleId.mockResolvedValue([
+        createMockAppointment(nextWeekAt(11), confirmedStatus.id),
+      ]);
+
+      const result = await useCase.execute(schedule.id, { startTime: '10:00', endTime: '17:00' });
+
+      expect(mockScheduleRepository.findConflictingSchedules).toHaveBeenCalledWith(
+        DayOfWeekEnum.MONDAY,
+        '10:00',
+        '17:00',
+        schedule.id,
+      );
+      expect(mockScheduleRepository.update).toHaveBeenCalled();
+      expect(result.schedule.startTime).toBe('10:00');
+      expect(result.strandedAppointments).toEqual([]);
+    });
+
+    // Ignora citas pasadas y citas canceladas
+    it('should ignore past and cancelled appointments', async () => {
+      const past = new Date();
+      past.setUTCDate(past.getUTCDate() - 7);
+      past.setUTCHours(9, 0, 0, 0);
+      mockAppointmentRepository.findByScheduleId.mockResolvedValue([
+        createMockAppointment(past, confirmedStatus.id),
+        createMockAppointment(nextWeekAt(9), cancelledStatus.id),
+      ]);
+
+      const result = await useCase.execute(schedule.id, { startTime: '10:00', endTime: '17:00' });
+
+      expect(result.strandedAppointments).toEqual([]);
+    });
+
+    // Con force aplica el cambio e informa las citas que quedan fuera
+    it('should apply the change with force and report stranded appointments', async () => {
+      const early = createMockAppointment(nextWeekAt(9), pendingStatus.id);
+      const late = createMockAppointment(nextWeekAt(16, 30), confirmedStatus.id);
+      mockAppointmentRepository.findByScheduleId.mockResolvedValue([late, early]);
+
+      const result = await useCase.execute(schedule.id, {
+        startTime: '10:00',
+        endTime: '17:00',
+        force: true,
+      });
+
+      expect(mockScheduleRepository.update).toHaveBeenCalled();
+      expect(result.strandedAppointments.map((a) => a.id)).toEqual([early.id, late.id]);
+    });
+  });
+
+  describe('Validation', () => {
+    // Sin force, rechaza cambios que dejan citas futuras fuera del horario
+    it('should throw ConflictError when appointments would be stranded without force', async () => {
+      mockAppointmentRepository.findByScheduleId.mockResolvedValue([
+        createMockAppointment(nextWeekAt(17, 30), confirmedStatus.id),
+      ]);
+
+      await expect(
+        useCase.execute(schedule.id, { startTime: '09:00', endTime: '17:00' }),
+      ).rejects.toThrow(
+        new ConflictError(
+          'Cannot update schedule: 1 upcoming appointments would fall outside the new hours',
+        ),
+      );
+      expect(mockScheduleRepository.update).not.toHaveBeenCalled();
+    });
+
+    // Rango solapado con otro horario del mismo día
+    it('should throw ConflictError when overlapping another schedule', async () => {
+      mockScheduleRepository.findConflictingSchedules.mockResolvedValue([
+        Schedule.create(DayOfWeekEnum.MONDAY, '18:00', '20:00'),
+      ]);
+
+      await expect(
+        useCase.execute(schedule.id, { startTime: '09:00', endTime: '19:00' }),
+      ).rejects.toThrow(ConflictError);
+    });
+
+    // Horario inexistente
+    it('should throw NotFoundError when the schedule does not exist', async () => {
+      mockScheduleRepository.findById.mockResolvedValue(null);
+
+      await expect(
+        useCase.execute(generateUuid(), { startTime: '09:00', endTime: '17:00' }),
+      ).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { env } from '../../../../../src/shared/config/env';
 
 describe('Appointment Entity', () => {
   // Generar fechas futuras dinámicamente para evitar problemas de tiempo
@@ -432,6 +433,33 @@ describe('Appointment Entity', () => {
 
         expect(soonAppointment.canBeModified()).toBe(false);
       });
+
+      // El plazo de 24 horas se cuenta en hora local del salón (día de 23 horas por DST)
+      it('should count the modification window in salon-local days', () => {
+        jest.replaceProperty(env, 'SALON_TIMEZONE', 'America/New_York');
+        jest.useFakeTimers({ now: new Date('2026-03-07T14:30:00.000Z') }); // sábado 09:30 EST
+
+        // Domingo 10:00 EDT: faltan 23.5 horas reales, pero más de un día local
+        const appointment = new Appointment(
+          generateUuid(),
+          new Date('2026-03-08T14:00:00.000Z'),
+          60,
+          validAppointmentData.userId,
+          validAppointmentData.clientId,
+          validAppointmentData.scheduleId,
+          validAppointmentData.statusId,
+        );
+
+        try {
+          expect(appointment.canBeModified()).toBe(true);
+
+          jest.setSystemTime(new Date('2026-03-07T15:00:00.000Z')); // sábado 10:00 EST
+          expect(appointment.canBeModified()).toBe(false);
+        } finally {
+          jest.useRealTimers();
+          jest.restoreAllMocks();
+        }
+      });
     });
 
     describe('Conflict Detection', () => {
@@ -479,6 +507,73 @@ describe('Appointment Entity', () => {
 
         expect(appointment.hasConflictWith(adjacentAppointment)).toBe(false);
       });
+
+      // Debería detectar conflicto cuando el buffer posterior invade la siguiente cita
+      it('should detect conflict when the buffer after overlaps the next appointment', () => {
+        appointment.updateBuffer({ before: 0, after: 15 });
+        const adjacentAppointment = new Appointment(
+          generateUuid(),
+          new Date(appointment.dateTime.getTime() + 60 * 60000), // Exactamente cuando termina
+          60,
+          validAppointmentData.userId,
+          validAppointmentData.clientId,
+          validAppointmentData.scheduleId,
+          validAppointmentData.statusId,
+        );
+
+        expect(appointment.hasConflictWith(adjacentAppointment)).toBe(true);
+        expect(adjacentAppointment.hasConflictWith(appointment)).toBe(true);
+      });
+
+      // Debería exigir el buffer posterior de una cita más el buffer previo de la otra
+      it('should require the buffer after of one appointment plus the buffer before of the other', () => {
+        appointment.updateBuffer({ before: 0, after: 10 });
+        const createNextAppointment = (minutesAfterEnd: number) =>
+          Appointment.fromPersistence(
+            generateUuid(),
+            new Date(appointment.getEndTime().getTime() + minutesAfterEnd * 60000),
+            60,
+            validAppointmentData.userId,
+            validAppointmentData.clientId,
+            validAppointmentData.scheduleId,
+            validAppointmentData.statusId,
+            undefined,
+            undefined,
+            [],
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            undefined,
+            5,
+            0,
+          );
+
+        expect(appointment.hasConflictWith(createNextAppointment(10))).toBe(true);
+        expect(appointment.hasConflictWith(createNextAppointment(15))).toBe(false);
+      });
+
+      // Debería calcular el bloque ocupado incluyendo los buffers
+      it('should compute the blocked range including buffers', () => {
+        appointment.updateBuffer({ before: 10, after: 20 });
+
+        expect(appointment.getBlockedStart()).toEqual(
+          new Date(appointment.dateTime.getTime() - 10 * 60000),
+        );
+        expect(appointment.getBlockedEnd()).toEqual(
+          new Date(appointment.getEndTime().getTime() + 20 * 60000),
+        );
+      });
+
+      // Debería rechazar buffers fuera de rango
+      it('should reject buffers out of range', () => {
+        expect(() => appointment.updateBuffer({ before: -5, after: 0 })).toThrow(
+          'Buffer time must be between 0 and 120 minutes',
+        );
+        expect(() => appointment.updateBuffer({ before: 0, after: 121 })).toThrow(
+          'Buffer time must be between 0 and 120 minutes',
+        );
+      });
     });
 
     describe('Status Management', () => {
@@ -508,6 +603,18 @@ describe('Appointment Entity', () => {
         expect(appointment.statusId).toBe(confirmedStatusId);
       });
 
+      // Debería volver a pendiente y descartar la confirmación
+      it('should reset confirmation back to pending', () => {
+        const pendingStatusId = generateUuid();
+        appointment.markAsConfirmed(generateUuid(), 'Confirmed by phone');
+
+        appointment.resetConfirmation(pendingStatusId);
+
+        expect(appointment.isConfirmed()).toBe(false);
+        expect(appointment.confirmationNotes).toBeUndefined();
+        expect(appointment.statusId).toBe(pendingStatusId);
+      });
+
       // Debería marcar como cancelada
       it('should mark as cancelled', () => {
         const cancelledStatusId = generateUuid();
@@ -524,6 +631,7 @@ describe('Appointment Entity', () => {
         appointment.markAsCompleted(completedStatusId);
 
         expect(appointment.statusId).toBe(completedStatusId);
+        expect(appointment.completedAt).toBeInstanceOf(Date);
       });
 
       // Debería marcar como en progreso
@@ -533,6 +641,7 @@ describe('Appointment Entity', () => {
         appointment.markAsInProgress(inProgressStatusId);
 
         expect(appointment.statusId).toBe(inProgressStatusId);
+        expect(appointment.startedAt).toBeInstanceOf(Date);
       });
 
       // Debería marcar como no show (cliente no se presentó)
@@ -543,6 +652,26 @@ describe('Appointment Entity', () => {
 
         expect(appointment.statusId).toBe(noShowStatusId);
       });
+
+      // Debería registrar la llegada sin cambiar el estado
+      it('should check in without changing status', () => {
+        const statusId = appointment.statusId;
+
+        appointment.checkIn();
+
+        expect(appointment.isCheckedIn()).toBe(true);
+        expect(appointment.checkedInAt).toBeInstanceOf(Date);
+        expect(appointment.statusId).toBe(statusId);
+      });
+
+      // Debería lanzar error al registrar la llegada dos veces
+      it('should throw error when checking in twice', () => {
+        appointment.checkIn();
+
+        expect(() => appointment.checkIn()).toThrow(
+          'Client has already checked in for this appointment',
+        );
+      });
     });
 
     describe('Persistence Conversion', () => {
@@ -563,6 +692,8 @@ describe('Appointment Entity', () => {
           serviceIds: appointment.serviceIds,
           createdAt: appointment.createdAt,
           updatedAt: appointment.updatedAt,
+          bufferBefore: 0,
+          bufferAfter: 0,
         });
       });
     });
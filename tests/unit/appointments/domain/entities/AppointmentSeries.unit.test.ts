@@ -0,0 +1,89 @@
+import { AppointmentSeries } from '../../../../../src/modules/appointments/domain/entities/AppointmentSeries';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { env } from '../../../../../src/shared/config/env';
+
+describe('AppointmentSeries Entity', () => {
+  const clientId = generateUuid();
+  const userId = generateUuid();
+  const start = new Date('2026-07-06T13:00:00.000Z');
+
+  describe('Creation', () => {
+    // Debería crear una serie válida
+    it('should create a series with valid data', () => {
+      const series = AppointmentSeries.create(2, 4, start, clientId, userId);
+
+      expect(series.id).toBeDefined();
+      expect(series.intervalWeeks).toBe(2);
+      expect(series.occurrences).toBe(4);
+      expect(series.startDateTime).toEqual(start);
+    });
+
+    // Debería rechazar intervalos fuera de rango
+    it.each([0, 13, 1.5])('should reject an interval of %p weeks', (intervalWeeks) => {
+      expect(() => AppointmentSeries.create(intervalWeeks, 4, start, clientId, userId)).toThrow(
+        new ValidationError('Series interval must be between 1 and 12 weeks'),
+      );
+    });
+
+    // Debería rechazar cantidades de ocurrencias fuera de rango
+    it.each([1, 27])('should reject %p occurrences', (occurrences) => {
+      expect(() => AppointmentSeries.create(1, occurrences, start, clientId, userId)).toThrow(
+        new ValidationError('Series must have between 2 and 26 occurrences'),
+      );
+    });
+
+    // Debería exigir cliente
+    it('should require a client', () => {
+      expect(() => AppointmentSeries.create(1, 4, start, '', userId)).toThrow(
+        new ValidationError('Client ID is required'),
+      );
+    });
+  });
+
+  describe('Occurrences', () => {
+    // Debería calcular las ocurrencias cada N semanas
+    it('should compute one occurrence every interval', () => {
+      const series = AppointmentSeries.create(2, 3, start, clientId, userId);
+
+      expect(series.getOccurrenceDates().map((date) => date.toISOString())).toEqual([
+        '2026-07-06T13:00:00.000Z',
+        '2026-07-20T13:00:00.000Z',
+        '2026-08-03T13:00:00.000Z',
+      ]);
+      expect(series.getLastOccurrenceDate().toISOString()).toBe('2026-08-03T13:00:00.000Z');
+    });
+
+    // Debería conservar la hora local del salón al cruzar un cambio de horario
+    it('should keep the salon-local time across a DST change', () => {
+      jest.replaceProperty(env, 'SALON_TIMEZONE', 'America/New_York');
+      try {
+        // Lunes 26/10 09:00 EDT y lunes 02/11 09:00 EST
+        const series = AppointmentSeries.create(
+          1,
+          2,
+          new Date('2026-10-26T13:00:00.000Z'),
+          clientId,
+          userId,
+        );
+
+        expect(series.getOccurrenceDates().map((date) => date.toISOString())).toEqual([
+          '2026-10-26T13:00:00.000Z',
+          '2026-11-02T14:00:00.000Z',
+        ]);
+      } finally {
+        jest.restoreAllMocks();
+      }
+    });
+
+    // Debería contar las ocurrencias hasta la fecha límite inclusive
+    it('should count occurrences up to and including the until date', () => {
+      expect(
+        AppointmentSeries.countOccurrencesUntil(1, start, new Date('2026-07-27T13:00:00.000Z')),
+      ).toBe(4);
+      expect(
+        AppointmentSeries.countOccurrencesUntil(2, start, new Date('2026-07-27T13:00:00.000Z')),
+      ).toBe(2);
+    });
+  });
+});
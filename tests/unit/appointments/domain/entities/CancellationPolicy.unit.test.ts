@@ -0,0 +1,184 @@
+import {
+  CancellationFeeTypeEnum,
+  CancellationPolicy,
+} from '../../../../../src/modules/appointments/domain/entities/CancellationPolicy';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CancellationPolicy Entity', () => {
+  const coloringId = generateUuid();
+  const haircutId = generateUuid();
+  const now = new Date('2026-10-19T12:00:00.000Z');
+
+  const hoursFromNow = (hours: number): Date => new Date(now.getTime() + hours * 60 * 60 * 1000);
+
+  const createAppointment = (dateTime: Date, serviceIds: string[] = [haircutId]): Appointment =>
+    new Appointment(
+      generateUuid(),
+      dateTime,
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      undefined,
+      serviceIds,
+    );
+
+  const createPolicy = (
+    overrides: Partial<{
+      lateFeeType: CancellationFeeTypeEnum;
+      lateFeeValue: number;
+      chargeNoShowFee: boolean;
+    }> = {},
+  ): CancellationPolicy =>
+    new CancellationPolicy(
+      0,
+      4,
+      24,
+      overrides.lateFeeType,
+      overrides.lateFeeValue,
+      overrides.chargeNoShowFee ?? false,
+      [{ serviceId: coloringId, noticeHours: 48 }],
+    );
+
+  // Debería usar 2 horas para todos los roles y no cobrar por defecto
+  it('should default to 2 hours for every role and no fee', () => {
+    const policy = CancellationPolicy.createDefault();
+
+    expect(policy.getNoticeHours('ADMIN', [])).toBe(2);
+    expect(policy.getNoticeHours('STYLIST', [])).toBe(2);
+    expect(policy.getNoticeHours('CLIENT', [])).toBe(2);
+    expect(policy.hasLateFee()).toBe(false);
+    expect(policy.chargesNoShows()).toBe(false);
+  });
+
+  describe('getNoticeHours', () => {
+    // Debería aplicar el aviso por rol
+    it('should apply the notice window of the role', () => {
+      const policy = createPolicy();
+
+      expect(policy.getNoticeHours('STYLIST', [haircutId])).toBe(4);
+      expect(policy.getNoticeHours('CLIENT', [haircutId])).toBe(24);
+    });
+
+    // Debería tomar el aviso mayor entre el rol y los servicios de la cita
+    it('should take the longest notice between the role and the services', () => {
+      const policy = createPolicy();
+
+      expect(policy.getNoticeHours('CLIENT', [haircutId, coloringId])).toBe(48);
+      expect(policy.getNoticeHours('STYLIST', [coloringId])).toBe(48);
+    });
+
+    // No debería aplicar los avisos por servicio a ADMIN
+    it('should not apply service overrides to ADMIN', () => {
+      expect(createPolicy().getNoticeHours('ADMIN', [coloringId])).toBe(0);
+    });
+  });
+
+  describe('isLateCancellation', () => {
+    // Debería detectar una cancelación dentro del aviso mínimo
+    it('should detect a cancellation inside the notice window', () => {
+      const policy = createPolicy();
+
+      expect(policy.isLateCancellation(createAppointment(hoursFromNow(12)), 'CLIENT', now)).toBe(
+        true,
+      );
+      expect(policy.isLateCancellation(createAppointment(hoursFromNow(30)), 'CLIENT', now)).toBe(
+        false,
+      );
+      expect(
+        policy.isLateCancellation(createAppointment(hoursFromNow(30), [coloringId]), 'CLIENT', now),
+      ).toBe(true);
+    });
+  });
+
+  describe('fees', () => {
+    // Debería aceptar la cancelación tardía con cargo solo para CLIENT
+    it('should accept late cancellations with a fee only from clients', () => {
+      const policy = createPolicy({
+        lateFeeType: CancellationFeeTypeEnum.FIXED,
+        lateFeeValue: 10,
+      });
+
+      expect(policy.allowsLateCancellationWithFee('CLIENT')).toBe(true);
+      expect(policy.allowsLateCancellationWithFee('STYLIST')).toBe(false);
+      expect(createPolicy().allowsLateCancellationWithFee('CLIENT')).toBe(false);
+    });
+
+    // Debería calcular un cargo fijo
+    it('should calculate a fixed fee', () => {
+      const policy = createPolicy({
+        lateFeeType: CancellationFeeTypeEnum.FIXED,
+        lateFeeValue: 12.5,
+      });
+
+      expect(policy.calculateFee(80)).toBe(12.5);
+    });
+
+    // Debería calcular un cargo porcentual redondeado a centavos
+    it('should calculate a percentage fee rounded to cents', () => {
+      const policy = createPolicy({
+        lateFeeType: CancellationFeeTypeEnum.PERCENTAGE,
+        lateFeeValue: 15,
+      });
+
+      expect(policy.calculateFee(33.33)).toBe(5);
+      expect(policy.calculateFee(40)).toBe(6);
+    });
+
+    // Debería cobrar los no show solo si está habilitado
+    it('should charge no-shows only when enabled', () => {
+      const fee = { lateFeeType: CancellationFeeTypeEnum.FIXED, lateFeeValue: 10 };
+
+      expect(createPolicy(fee).chargesNoShows()).toBe(false);
+      expect(createPolicy({ ...fee, chargeNoShowFee: true }).chargesNoShows()).toBe(true);
+    });
+  });
+
+  describe('validation', () => {
+    // Debería rechazar avisos fuera de rango
+    it('should reject notice windows out of range', () => {
+      expect(() => new CancellationPolicy(-1, 2, 2, undefined, undefined, false)).toThrow(
+        ValidationError,
+      );
+      expect(() => new CancellationPolicy(2, 2, 169, undefined, undefined, false)).toThrow(
+        ValidationError,
+      );
+    });
+
+    // Debería exigir tipo y valor del cargo juntos
+    it('should require the fee type and value together', () => {
+      expect(
+        () => new CancellationPolicy(2, 2, 2, CancellationFeeTypeEnum.FIXED, undefined, false),
+      ).toThrow('Late fee type and value must be provided together');
+    });
+
+    // Debería rechazar porcentajes mayores a 100
+    it('should reject percentages above 100', () => {
+      expect(
+        () => new CancellationPolicy(2, 2, 2, CancellationFeeTypeEnum.PERCENTAGE, 150, false),
+      ).toThrow('Late fee percentage cannot exceed 100');
+    });
+
+    // Debería exigir un cargo para cobrar los no show
+    it('should require a fee to charge no-shows', () => {
+      expect(() => new CancellationPolicy(2, 2, 2, undefined, undefined, true)).toThrow(
+        'Charging no-shows requires a late fee',
+      );
+    });
+
+    // Debería rechazar avisos duplicados para un servicio
+    it('should reject duplicate service overrides', () => {
+      expect(
+        () =>
+          new CancellationPolicy(2, 2, 2, undefined, undefined, false, [
+            { serviceId: coloringId, noticeHours: 24 },
+            { serviceId: coloringId, noticeHours: 48 },
+          ]),
+      ).toThrow(ValidationError);
+    });
+  });
+});
@@ -0,0 +1,110 @@
+import {
+  StylistAbsence,
+  AbsenceTypeEnum,
+} from '../../../../../src/modules/appointments/domain/entities/StylistAbsence';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('StylistAbsence Entity', () => {
+  const stylistId = generateUuid();
+  const start = new Date('2026-07-01T00:00:00.000Z');
+  const end = new Date('2026-07-08T00:00:00.000Z');
+
+  describe('Creation', () => {
+    // Debería crear una ausencia válida
+    it('should create an absence with valid data', () => {
+      const absence = StylistAbsence.create(
+        stylistId,
+        AbsenceTypeEnum.VACATION,
+        start,
+        end,
+        'Trip',
+      );
+
+      expect(absence.id).toBeDefined();
+      expect(absence.type).toBe(AbsenceTypeEnum.VACATION);
+      expect(absence.reason).toBe('Trip');
+    });
+
+    // Debería reconstruir desde persistencia convirtiendo null en undefined
+    it('should rebuild from persistence mapping null reason to undefined', () => {
+      const absence = StylistAbsence.fromPersistence({
+        id: generateUuid(),
+        stylistId,
+        type: AbsenceTypeEnum.SICK_LEAVE,
+        startDateTime: start,
+        endDateTime: end,
+        reason: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(absence.reason).toBeUndefined();
+      expect(absence.toPersistence().reason).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería rechazar rango invertido o vacío
+    it('should reject an absence whose start is not before its end', () => {
+      expect(() => StylistAbsence.create(stylistId, AbsenceTypeEnum.PERSONAL, end, start)).toThrow(
+        new ValidationError('Absence start must be before absence end'),
+      );
+      expect(() =>
+        StylistAbsence.create(stylistId, AbsenceTypeEnum.PERSONAL, start, start),
+      ).toThrow(ValidationError);
+    });
+
+    // Debería rechazar fechas inválidas
+    it('should reject invalid dates', () => {
+      expect(() =>
+        StylistAbsence.create(stylistId, AbsenceTypeEnum.PERSONAL, new Date('invalid'), end),
+      ).toThrow(new ValidationError('Invalid absence start date'));
+    });
+
+    // Debería rechazar tipo inválido
+    it('should reject an invalid absence type', () => {
+      expect(() =>
+        StylistAbsence.create(stylistId, 'HOLIDAY' as AbsenceTypeEnum, start, end),
+      ).toThrow(new ValidationError('Invalid absence type'));
+    });
+
+    // Debería rechazar ausencias de más de un año
+    it('should reject absences longer than the maximum duration', () => {
+      const tooFar = new Date('2027-07-02T00:00:00.000Z');
+
+      expect(() =>
+        StylistAbsence.create(stylistId, AbsenceTypeEnum.VACATION, start, tooFar),
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('overlaps', () => {
+    const absence = StylistAbsence.create(
+      stylistId,
+      AbsenceTypeEnum.PERSONAL,
+      new Date('2026-07-01T10:00:00.000Z'),
+      new Date('2026-07-01T12:00:00.000Z'),
+    );
+
+    // Rango que se solapa parcialmente
+    it('should detect a partially overlapping range', () => {
+      expect(
+        absence.overlaps(
+          new Date('2026-07-01T11:30:00.000Z'),
+          new Date('2026-07-01T12:30:00.000Z'),
+        ),
+      ).toBe(true);
+    });
+
+    // Rango contiguo no se solapa (fin exclusivo)
+    it('should not flag a range that starts exactly when the absence ends', () => {
+      expect(
+        absence.overlaps(
+          new Date('2026-07-01T12:00:00.000Z'),
+          new Date('2026-07-01T13:00:00.000Z'),
+        ),
+      ).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,159 @@
+import { StylistSchedule } from '../../../../../src/modules/appointments/domain/entities/StylistSchedule';
+import { DayOfWeekEnum } from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('StylistSchedule Entity', () => {
+  const stylistId = generateUuid();
+
+  describe('Creation', () => {
+    // Debería crear un turno sin descanso
+    it('should create a shift without break', () => {
+      const shift = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '17:00');
+
+      expect(shift.id).toBeDefined();
+      expect(shift.stylistId).toBe(stylistId);
+      expect(shift.dayOfWeek).toBe(DayOfWeekEnum.MONDAY);
+      expect(shift.hasBreak()).toBe(false);
+    });
+
+    // Debería crear un turno con descanso
+    it('should create a shift with break', () => {
+      const shift = StylistSchedule.create(
+        stylistId,
+        DayOfWeekEnum.MONDAY,
+        '09:00',
+        '17:00',
+        '13:00',
+        '14:00',
+      );
+
+      expect(shift.hasBreak()).toBe(true);
+      expect(shift.breakStartTime).toBe('13:00');
+      expect(shift.breakEndTime).toBe('14:00');
+    });
+
+    // Debería reconstruir desde persistencia convirtiendo null en undefined
+    it('should rebuild from persistence mapping null breaks to undefined', () => {
+      const shift = StylistSchedule.fromPersistence({
+        id: generateUuid(),
+        stylistId,
+        dayOfWeek: DayOfWeekEnum.TUESDAY,
+        startTime: '10:00',
+        endTime: '14:00',
+        breakStartTime: null,
+        breakEndTime: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(shift.breakStartTime).toBeUndefined();
+      expect(shift.toPersistence().breakStartTime).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería rechazar estilista vacío
+    it('should reject empty stylist id', () => {
+      expect(() => StylistSchedule.create('', DayOfWeekEnum.MONDAY, '09:00', '17:00')).toThrow(
+        new ValidationError('Stylist ID is required'),
+      );
+    });
+
+    // Debería rechazar formato de hora inválido
+    it('should reject invalid time format', () => {
+      expect(() => StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '9am', '17:00')).toThrow(
+        ValidationError,
+      );
+    });
+
+    // Debería rechazar inicio posterior o igual al fin
+    it('should reject start time not before end time', () => {
+      expect(() =>
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '17:00', '09:00'),
+      ).toThrow(new ValidationError('Start time must be before end time'));
+    });
+
+    // Debería comparar horas por minutos y no como texto
+    it('should compare times numerically (9:00 is before 10:00)', () => {
+      expect(() =>
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '9:00', '10:00'),
+      ).not.toThrow();
+    });
+
+    // Debería exigir ambos extremos del descanso
+    it('should reject a break with only one bound', () => {
+      expect(() =>
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '17:00', '13:00'),
+      ).toThrow(
+        new ValidationError('Break start time and break end time must be provided together'),
+      );
+    });
+
+    // Debería rechazar descanso fuera del turno
+    it('should reject a break outside the shift', () => {
+      expect(() =>
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '17:00', '08:00', '10:00'),
+      ).toThrow(new ValidationError('Break must fall strictly within the shift'));
+    });
+
+    // Debería rechazar descanso invertido
+    it('should reject a break whose start is not before its end', () => {
+      expect(() =>
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '17:00', '14:00', '13:00'),
+      ).toThrow(new ValidationError('Break start time must be before break end time'));
+    });
+  });
+
+  describe('Working intervals', () => {
+    // Sin descanso = un único tramo
+    it('should return a single interval without break', () => {
+      const shift = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '17:00');
+
+      expect(shift.getWorkingIntervals()).toEqual([{ startTime: '09:00', endTime: '17:00' }]);
+    });
+
+    // Con descanso = dos tramos
+    it('should split the shift into two intervals around the break', () => {
+      const shift = StylistSchedule.create(
+        stylistId,
+        DayOfWeekEnum.MONDAY,
+        '09:00',
+        '17:00',
+        '13:00',
+        '14:00',
+      );
+
+      expect(shift.getWorkingIntervals()).toEqual([
+        { startTime: '09:00', endTime: '13:00' },
+        { startTime: '14:00', endTime: '17:00' },
+      ]);
+    });
+  });
+
+  describe('Overlap detection', () => {
+    // Turnos del mismo día que se solapan
+    it('should detect overlapping shifts on the same day', () => {
+      const morning = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '13:00');
+      const midday = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '12:00', '16:00');
+
+      expect(morning.overlapsWith(midday)).toBe(true);
+    });
+
+    // Turno partido contiguo no se considera solapado
+    it('should not flag back-to-back shifts as overlapping', () => {
+      const morning = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '13:00');
+      const afternoon = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '13:00', '17:00');
+
+      expect(morning.overlapsWith(afternoon)).toBe(false);
+    });
+
+    // Días distintos nunca se solapan
+    it('should not flag shifts on different days as overlapping', () => {
+      const monday = StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '13:00');
+      const tuesday = StylistSchedule.create(stylistId, DayOfWeekEnum.TUESDAY, '09:00', '13:00');
+
+      expect(monday.overlapsWith(tuesday)).toBe(false);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {
+  WaitlistEntry,
+  WaitlistStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/WaitlistEntry';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('WaitlistEntry Entity', () => {
+  const clientId = generateUuid();
+  const serviceIds = [generateUuid()];
+  const fromDate = new Date('2026-07-01T00:00:00.000Z');
+  const toDate = new Date('2026-07-05T00:00:00.000Z');
+
+  const createEntry = (stylistId?: string): WaitlistEntry =>
+    WaitlistEntry.create(clientId, clientId, serviceIds, fromDate, toDate, stylistId);
+
+  describe('Creation', () => {
+    // Debería crear una entrada activa sin reserva ofrecida
+    it('should create an active entry with valid data', () => {
+      const entry = createEntry();
+
+      expect(entry.id).toBeDefined();
+      expect(entry.status).toBe(WaitlistStatusEnum.ACTIVE);
+      expect(entry.holdId).toBeUndefined();
+      expect(entry.lastNotifiedAt).toBeUndefined();
+    });
+
+    // Debería reconstruir desde persistencia convirtiendo null en undefined
+    it('should rebuild from persistence mapping nulls to undefined', () => {
+      const entry = WaitlistEntry.fromPersistence({
+        id: generateUuid(),
+        clientId,
+        userId: clientId,
+        serviceIds,
+        fromDate,
+        toDate,
+        status: 'ACTIVE',
+        stylistId: null,
+        holdId: null,
+        lastNotifiedAt: null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+      });
+
+      expect(entry.stylistId).toBeUndefined();
+      expect(entry.toPersistence().holdId).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería exigir al menos un servicio sin duplicados
+    it('should reject empty or duplicated services', () => {
+      expect(() => WaitlistEntry.create(clientId, clientId, [], fromDate, toDate)).toThrow(
+        new ValidationError('At least one service must be selected'),
+      );
+      expect(() =>
+        WaitlistEntry.create(clientId, clientId, [serviceIds[0], serviceIds[0]], fromDate, toDate),
+      ).toThrow(new ValidationError('Duplicate services are not allowed'));
+    });
+
+    // Debería rechazar un rango invertido
+    it('should reject a start date after the end date', () => {
+      expect(() => WaitlistEntry.create(clientId, clientId, serviceIds, toDate, fromDate)).toThrow(
+        new ValidationError('Waitlist start date must be on or before the end date'),
+      );
+    });
+
+    // Debería aceptar un solo día y rechazar rangos de más de 31 días
+    it('should accept a single day and reject ranges longer than 31 days', () => {
+      expect(() =>
+        WaitlistEntry.create(clientId, clientId, serviceIds, fromDate, fromDate),
+      ).not.toThrow();
+
+      const lastAllowedDay = new Date('2026-07-31T00:00:00.000Z');
+      expect(() =>
+        WaitlistEntry.create(clientId, clientId, serviceIds, fromDate, lastAllowedDay),
+      ).not.toThrow();
+
+      expect(() =>
+        WaitlistEntry.create(
+          clientId,
+          clientId,
+          serviceIds,
+          fromDate,
+          new Date('2026-08-01T00:00:00.000Z'),
+        ),
+      ).toThrow(new ValidationError('A waitlist entry cannot cover more than 31 days'));
+    });
+  });
+
+  describe('Matching', () => {
+    // Debería cubrir los días del rango, extremos incluidos
+    it('should cover the days of its range including both ends', () => {
+      const entry = createEntry();
+
+      expect(entry.coversDate(fromDate)).toBe(true);
+      expect(entry.coversDate(toDate)).toBe(true);
+      expect(entry.coversDate(new Date('2026-07-06T00:00:00.000Z'))).toBe(false);
+    });
+
+    // Sin estilista preferido acepta cualquiera; con estilista, solo ese
+    it('should accept any stylist unless one was requested', () => {
+      const stylistId = generateUuid();
+
+      expect(createEntry().acceptsStylist(generateUuid())).toBe(true);
+      expect(createEntry(stylistId).acceptsStylist(stylistId)).toBe(true);
+      expect(createEntry(stylistId).acceptsStylist(generateUuid())).toBe(false);
+    });
+  });
+
+  describe('Status transitions', () => {
+    // Debería registrar la reserva ofrecida y liberarla al cumplirse
+    it('should record the offered hold and clear it when fulfilled', () => {
+      const entry = createEntry();
+      const holdId = generateUuid();
+      const notifiedAt = new Date('2026-06-30T10:00:00.000Z');
+
+      entry.offerHold(holdId, notifiedAt);
+      expect(entry.holdId).toBe(holdId);
+      expect(entry.lastNotifiedAt).toEqual(notifiedAt);
+
+      entry.markAsFulfilled();
+      expect(entry.status).toBe(WaitlistStatusEnum.FULFILLED);
+      expect(entry.holdId).toBeUndefined();
+    });
+
+    // No debería cancelar una entrada que ya no está activa
+    it('should not cancel an entry that is no longer active', () => {
+      const entry = createEntry();
+      entry.cancel();
+
+      expect(entry.status).toBe(WaitlistStatusEnum.CANCELLED);
+      expect(() => entry.cancel()).toThrow(
+        new BusinessRuleError('Waitlist entry is already cancelled'),
+      );
+    });
+  });
+});
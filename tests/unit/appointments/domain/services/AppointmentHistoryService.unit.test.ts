@@ -0,0 +1,160 @@
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { IAppointmentEventRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentEventRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import {
+  AppointmentEventTypeEnum,
+  SYSTEM_ACTOR,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentEvent';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('AppointmentHistoryService', () => {
+  let service: AppointmentHistoryService;
+  let mockAppointmentEventRepository: jest.Mocked<IAppointmentEventRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+
+  const actor = { id: generateUuid(), role: 'STYLIST' };
+  const serviceA = generateUuid();
+  const serviceB = generateUuid();
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const createMockAppointment = (): Appointment =>
+    new Appointment(
+      generateUuid(),
+      new Date(Date.now() + 24 * 60 * 60 * 1000),
+      60,
+      generateUuid(),
+      generateUuid(),
+      generateUuid(),
+      statusId(AppointmentStatusEnum.PENDING),
+      generateUuid(),
+      undefined,
+      [serviceA],
+    );
+
+  beforeEach(() => {
+    mockAppointmentEventRepository = {
+      saveMany: jest.fn().mockResolvedValue(undefined),
+      findByAppointmentId: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentEventRepository>;
+
+    mockAppointmentStatusRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(async (id: string) => statuses.find((s) => s.id === id) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    service = new AppointmentHistoryService(
+      mockAppointmentEventRepository,
+      mockAppointmentStatusRepository,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería registrar la creación con el estado inicial y el actor
+  it('should record the creation with the initial status and the actor', async () => {
+    const appointment = createMockAppointment();
+
+    await service.recordCreated(appointment, actor);
+
+    const [events] = mockAppointmentEventRepository.saveMany.mock.calls[0];
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      appointmentId: appointment.id,
+      type: AppointmentEventTypeEnum.CREATED,
+      actorId: actor.id,
+      actorRole: 'STYLIST',
+      toValue: AppointmentStatusEnum.PENDING,
+    });
+  });
+
+  // Debería registrar los cambios de estado con nombres y motivo
+  it('should record status transitions by status name with the reason', async () => {
+    const appointment = createMockAppointment();
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.markAsCancelled(statusId(AppointmentStatusEnum.CANCELLED), 'Holiday created');
+
+    const events = await service.recordChanges(
+      before,
+      appointment,
+      SYSTEM_ACTOR,
+      'Holiday created',
+    );
+
+    expect(events).toHaveLength(1);
+    expect(events[0]).toMatchObject({
+      type: AppointmentEventTypeEnum.STATUS_CHANGED,
+      actorId: undefined,
+      actorRole: 'SYSTEM',
+      fromValue: AppointmentStatusEnum.PENDING,
+      toValue: AppointmentStatusEnum.CANCELLED,
+      reason: 'Holiday created',
+    });
+    expect(events[0].isSystemEvent()).toBe(true);
+  });
+
+  // Debería registrar reprogramación, cambio de estilista y servicios agregados/quitados
+  it('should record reschedules, stylist changes and added or removed services', async () => {
+    const appointment = createMockAppointment();
+    const before = AppointmentHistoryService.snapshot(appointment);
+    const newDateTime = new Date(appointment.dateTime.getTime() + 2 * 60 * 60 * 1000);
+    const newStylistId = generateUuid();
+
+    appointment.reschedule(newDateTime);
+    appointment.updateStylist(newStylistId);
+    appointment.addService(serviceB);
+    appointment.removeService(serviceA);
+
+    const events = await service.recordChanges(before, appointment, actor, 'Client request');
+
+    expect(events.map((event) => event.type)).toEqual([
+      AppointmentEventTypeEnum.RESCHEDULED,
+      AppointmentEventTypeEnum.STYLIST_CHANGED,
+      AppointmentEventTypeEnum.SERVICE_ADDED,
+      AppointmentEventTypeEnum.SERVICE_REMOVED,
+    ]);
+    expect(events[0]).toMatchObject({
+      fromValue: before.dateTime.toISOString(),
+      toValue: newDateTime.toISOString(),
+      reason: 'Client request',
+    });
+    expect(events[1]).toMatchObject({ fromValue: before.stylistId, toValue: newStylistId });
+    expect(events[2].toValue).toBe(serviceB);
+    expect(events[3].fromValue).toBe(serviceA);
+    expect(mockAppointmentStatusRepository.findById).not.toHaveBeenCalled();
+  });
+
+  // Debería registrar el check-in sin cambio de estado
+  it('should record a check-in without a status change', async () => {
+    const appointment = createMockAppointment();
+    const before = AppointmentHistoryService.snapshot(appointment);
+    appointment.checkIn();
+
+    const events = await service.recordChanges(before, appointment, actor);
+
+    expect(events.map((event) => event.type)).toEqual([AppointmentEventTypeEnum.CHECKED_IN]);
+  });
+
+  // No debería registrar nada si la cita no cambió
+  it('should not record anything when nothing auditable changed', async () => {
+    const appointment = createMockAppointment();
+    const before = AppointmentHistoryService.snapshot(appointment);
+
+    const events = await service.recordChanges(before, appointment, actor);
+
+    expect(events).toEqual([]);
+    expect(mockAppointmentEventRepository.saveMany).toHaveBeenCalledWith([]);
+  });
+});
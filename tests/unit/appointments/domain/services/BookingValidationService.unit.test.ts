@@ -0,0 +1,246 @@
+import { BookingValidationService } from '../../../../../src/modules/appointments/domain/services/BookingValidationService';
+import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import {
+  DayOfWeekEnum,
+  Schedule,
+} from '../../../../../src/modules/appointments/domain/entities/Schedule';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('BookingValidationService', () => {
+  let service: BookingValidationService;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
+  let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
+
+  const stylistId = generateUuid();
+  const clientId = generateUuid();
+  const serviceId = generateUuid();
+  // Miércoles 10:00 en la hora del salón (UTC en los tests)
+  const dateTime = new Date('2026-06-03T10:00:00.000Z');
+  const cancelledStatus = new AppointmentStatus(generateUuid(), AppointmentStatusEnum.CANCELLED);
+
+  const createAppointment = (statusId: string = generateUuid()): Appointment =>
+    new Appointment(
+      generateUuid(),
+      dateTime,
+      60,
+      clientId,
+      clientId,
+      generateUuid(),
+      statusId,
+      stylistId,
+    );
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findConflictingAppointments: jest.fn().mockResolvedValue([]),
+      findByClientAndDateRange: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findByName: jest.fn().mockResolvedValue(cancelledStatus),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockScheduleRepository = {
+      findAll: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IScheduleRepository>;
+
+    mockServiceRepository = {
+      findById: jest.fn().mockResolvedValue({ name: 'Haircut', isActive: true } as Service),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    mockStylistServiceRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue({ isOffering: true }),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    mockScheduleAvailabilityService = {
+      getEffectiveSchedule: jest.fn().mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+      }),
+      getEffectiveStylistSchedule: jest.fn().mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [{ startTime: '14:00', endTime: '18:00' }],
+        hasCustomShifts: true,
+        absences: [],
+      }),
+    } as unknown as jest.Mocked<ScheduleAvailabilityService>;
+
+    mockSlotHoldService = {
+      findBlockingHolds: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
+    service = new BookingValidationService(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockScheduleRepository,
+      mockServiceRepository,
+      mockStylistServiceRepository,
+      mockScheduleAvailabilityService,
+      mockSlotHoldService,
+    );
+  });
+
+  describe('validateServices', () => {
+    // Debería rechazar un servicio que el estilista tiene asignado pero no ofrece
+    it('should reject a service the stylist is not offering', async () => {
+      mockStylistServiceRepository.findByStylistAndService.mockResolvedValue({
+        isOffering: false,
+      } as never);
+
+      await expect(service.validateServices([serviceId], stylistId)).rejects.toThrow(
+        new BusinessRuleError('Stylist is not currently offering one of the selected services'),
+      );
+    });
+
+    // Sin estilista solo valida que los servicios estén activos
+    it('should only check the services when there is no stylist', async () => {
+      await service.validateServices([serviceId]);
+
+      expect(mockServiceRepository.findById).toHaveBeenCalledWith(serviceId);
+      expect(mockStylistServiceRepository.findByStylistAndService).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('validateSchedule', () => {
+    // Con estilista, la cita debe caer dentro de su turno además del horario del salón
+    it('should reject an appointment outside the stylist shift', async () => {
+      await expect(service.validateSchedule(dateTime, 60, stylistId)).rejects.toThrow(
+        new BusinessRuleError(
+          "Appointment falls outside the stylist's working hours (14:00-18:00)",
+        ),
+      );
+    });
+
+    // Sin estilista se valida contra el horario del salón
+    it('should use the salon schedule when there is no stylist', async () => {
+      await service.validateSchedule(dateTime, 60);
+
+      expect(mockScheduleAvailabilityService.getEffectiveSchedule).toHaveBeenCalled();
+      expect(mockScheduleAvailabilityService.getEffectiveStylistSchedule).not.toHaveBeenCalled();
+    });
+
+    // Debería rechazar un día cerrado
+    it('should reject a closed day', async () => {
+      mockScheduleAvailabilityService.getEffectiveSchedule.mockResolvedValue(null);
+
+      await expect(service.validateSchedule(dateTime, 60)).rejects.toThrow(
+        new BusinessRuleError(
+          'The salon is closed on the selected date (holiday or no schedule available)',
+        ),
+      );
+    });
+  });
+
+  describe('validateAvailability', () => {
+    // Debería excluir la cita que se está modificando de la búsqueda de conflictos
+    it('should exclude the appointment being modified from the conflict search', async () => {
+      const excludeAppointmentId = generateUuid();
+
+      await service.validateAvailability({
+        dateTime,
+        duration: 60,
+        stylistId,
+        clientId,
+        buffer: { before: 5, after: 10 },
+        excludeAppointmentId,
+      });
+
+      expect(mockAppointmentRepository.findConflictingAppointments).toHaveBeenCalledWith(
+        dateTime,
+        60,
+        stylistId,
+        excludeAppointmentId,
+        { before: 5, after: 10 },
+      );
+    });
+
+    // Debería rechazar un turno reservado temporalmente para otro cliente
+    it('should reject a slot held for another client', async () => {
+      mockSlotHoldService.findBlockingHolds.mockResolvedValue([
+        SlotHold.create(stylistId, dateTime, 60, 15, [generateUuid()]),
+      ]);
+
+      await expect(
+        service.validateAvailability({
+          dateTime,
+          duration: 60,
+          stylistId,
+          clientId,
+          buffer: { before: 0, after: 0 },
+        }),
+      ).rejects.toThrow(new ConflictError('This time slot is temporarily held for another client'));
+    });
+  });
+
+  describe('validateDailyLimit', () => {
+    // No debería contar las citas canceladas ni la cita que se está modificando
+    it('should not count cancelled appointments nor the appointment being modified', async () => {
+      const modified = createAppointment();
+      mockAppointmentRepository.findByClientAndDateRange.mockResolvedValue([
+        createAppointment(),
+        createAppointment(),
+        createAppointment(cancelledStatus.id),
+        modified,
+      ]);
+
+      await expect(
+        service.validateDailyLimit(clientId, dateTime, modified.id),
+      ).resolves.toBeUndefined();
+    });
+
+    // Debería rechazar la cita cuando el cliente ya tiene el máximo de citas activas ese día
+    it('should reject the appointment when the client reached the daily limit', async () => {
+      mockAppointmentRepository.findByClientAndDateRange.mockResolvedValue([
+        createAppointment(),
+        createAppointment(),
+        createAppointment(),
+      ]);
+
+      await expect(service.validateDailyLimit(clientId, dateTime)).rejects.toThrow(
+        new BusinessRuleError('Maximum of 3 appointments per day has been reached'),
+      );
+    });
+  });
+
+  describe('resolveSchedule', () => {
+    // Debería devolver el horario regular del día de la semana de la cita
+    it('should return the regular schedule of the appointment weekday', async () => {
+      const wednesday = Schedule.create(DayOfWeekEnum.WEDNESDAY, '09:00', '18:00');
+      mockScheduleRepository.findAll.mockResolvedValue([
+        Schedule.create(DayOfWeekEnum.TUESDAY, '09:00', '18:00'),
+        wednesday,
+      ]);
+
+      expect(await service.resolveSchedule(dateTime)).toBe(wednesday);
+    });
+
+    // Debería lanzar NotFoundError si no hay horario regular para ese día
+    it('should throw NotFoundError when the weekday has no regular schedule', async () => {
+      await expect(service.resolveSchedule(dateTime)).rejects.toThrow(NotFoundError);
+    });
+  });
+});
@@ -0,0 +1,156 @@
+import { CancellationFeeService } from '../../../../../src/modules/appointments/domain/services/CancellationFeeService';
+import { ICancellationPolicyRepository } from '../../../../../src/modules/appointments/domain/repositories/ICancellationPolicyRepository';
+import {
+  CancellationFeeTypeEnum,
+  CancellationPolicy,
+} from '../../../../../src/modules/appointments/domain/entities/CancellationPolicy';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import { IPaymentRepository } from '../../../../../src/modules/payments/domain/repositories/IPaymentRepository';
+import {
+  Payment,
+  PaymentStatusEnum,
+  PaymentTypeEnum,
+} from '../../../../../src/modules/payments/domain/entities/Payment';
+import { IServiceRepository } from '../../../../../src/modules/services/domain/repositories/IServiceRepository';
+import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
+import { Service } from '../../../../../src/modules/services/domain/entities/Service';
+import { StylistService } from '../../../../../src/modules/services/domain/entities/StylistService';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('CancellationFeeService', () => {
+  let service: CancellationFeeService;
+  let mockCancellationPolicyRepository: jest.Mocked<ICancellationPolicyRepository>;
+  let mockPaymentRepository: jest.Mocked<IPaymentRepository>;
+  let mockServiceRepository: jest.Mocked<IServiceRepository>;
+  let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
+
+  const stylistId = generateUuid();
+  const haircut = Service.create(generateUuid(), 'Haircut', 'Classic haircut', 30, 0, 4000);
+  const coloring = Service.create(generateUuid(), 'Coloring', 'Full coloring', 90, 0, 10000);
+
+  const appointment = new Appointment(
+    generateUuid(),
+    new Date(Date.now() + 60 * 60 * 1000),
+    120,
+    generateUuid(),
+    generateUuid(),
+    generateUuid(),
+    generateUuid(),
+    stylistId,
+    undefined,
+    [haircut.id, coloring.id],
+  );
+
+  const percentagePolicy = (chargeNoShowFee = false): CancellationPolicy =>
+    new CancellationPolicy(2, 2, 24, CancellationFeeTypeEnum.PERCENTAGE, 50, chargeNoShowFee);
+
+  beforeEach(() => {
+    mockCancellationPolicyRepository = {
+      get: jest.fn().mockResolvedValue(CancellationPolicy.createDefault()),
+    } as unknown as jest.Mocked<ICancellationPolicyRepository>;
+
+    mockPaymentRepository = {
+      save: jest.fn().mockImplementation(async (payment: Payment) => payment),
+      findByAppointmentId: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IPaymentRepository>;
+
+    mockServiceRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(
+          async (id: string) => [haircut, coloring].find((s) => s.id === id) ?? null,
+        ),
+    } as unknown as jest.Mocked<IServiceRepository>;
+
+    mockStylistServiceRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    service = new CancellationFeeService(
+      mockCancellationPolicyRepository,
+      mockPaymentRepository,
+      mockServiceRepository,
+      mockStylistServiceRepository,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  // Debería generar un pago PENDING con el porcentaje del precio de los servicios
+  it('should create a pending payment with the percentage of the services price', async () => {
+    const payment = await service.charge(
+      appointment,
+      percentagePolicy(),
+      PaymentTypeEnum.LATE_CANCELLATION_FEE,
+    );
+
+    expect(payment).toMatchObject({
+      amount: 70,
+      appointmentId: appointment.id,
+      status: PaymentStatusEnum.PENDING,
+      type: PaymentTypeEnum.LATE_CANCELLATION_FEE,
+    });
+    expect(mockPaymentRepository.save).toHaveBeenCalledTimes(1);
+  });
+
+  // Debería usar el precio personalizado del estilista asignado
+  it('should use the custom price of the assigned stylist', async () => {
+    mockStylistServiceRepository.findByStylistAndService.mockImplementation(
+      async (_stylistId: string, serviceId: string) =>
+        serviceId === coloring.id ? StylistService.create(stylistId, serviceId, 6000) : null,
+    );
+
+    const payment = await service.charge(
+      appointment,
+      percentagePolicy(),
+      PaymentTypeEnum.LATE_CANCELLATION_FEE,
+    );
+
+    expect(payment?.amount).toBe(50);
+  });
+
+  // Debería cobrar los no show solo si la política lo indica
+  it('should charge no-shows only when the policy says so', async () => {
+    await expect(service.chargeNoShow(appointment)).resolves.toBeNull();
+    expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+
+    mockCancellationPolicyRepository.get.mockResolvedValue(percentagePolicy(true));
+
+    const payment = await service.chargeNoShow(appointment);
+
+    expect(payment?.type).toBe(PaymentTypeEnum.NO_SHOW_FEE);
+  });
+
+  // No debería generar un segundo cargo por no show si la cita ya tiene uno (reintento)
+  it('should return the existing no-show fee instead of charging twice', async () => {
+    mockCancellationPolicyRepository.get.mockResolvedValue(percentagePolicy(true));
+    const existing = Payment.create(
+      generateUuid(),
+      35,
+      appointment.id,
+      PaymentTypeEnum.NO_SHOW_FEE,
+    );
+    mockPaymentRepository.findByAppointmentId.mockResolvedValue([existing]);
+
+    const payment = await service.chargeNoShow(appointment);
+
+    expect(payment).toBe(existing);
+    expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+  });
+
+  // No debería generar un pago de monto 0
+  it('should not create a zero-amount payment', async () => {
+    mockServiceRepository.findById.mockResolvedValue(null);
+
+    const payment = await service.charge(
+      appointment,
+      percentagePolicy(),
+      PaymentTypeEnum.LATE_CANCELLATION_FEE,
+    );
+
+    expect(payment).toBeNull();
+    expect(mockPaymentRepository.save).not.toHaveBeenCalled();
+  });
+});
@@ -2,18 +2,30 @@ import { ScheduleAvailabilityService } from '../../../../../src/modules/appointm
 import { IScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IScheduleRepository';
 import { IHolidayRepository } from '../../../../../src/modules/holidays/domain/repositories/IHolidayRepository';
 import { IScheduleExceptionRepository } from '../../../../../src/modules/holidays/domain/repositories/IScheduleExceptionRepository';
+import { IStylistScheduleRepository } from '../../../../../src/modules/appointments/domain/repositories/IStylistScheduleRepository';
+import { IStylistAbsenceRepository } from '../../../../../src/modules/appointments/domain/repositories/IStylistAbsenceRepository';
+import { StylistSchedule } from '../../../../../src/modules/appointments/domain/entities/StylistSchedule';
+import {
+  StylistAbsence,
+  AbsenceTypeEnum,
+} from '../../../../../src/modules/appointments/domain/entities/StylistAbsence';
 import {
   Schedule,
   DayOfWeekEnum,
 } from '../../../../../src/modules/appointments/domain/entities/Schedule';
 import { ScheduleException } from '../../../../../src/modules/holidays/domain/entities/ScheduleException';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
+import { env } from '../../../../../src/shared/config/env';
 
 describe('ScheduleAvailabilityService', () => {
   let service: ScheduleAvailabilityService;
   let mockHolidayRepository: jest.Mocked<IHolidayRepository>;
   let mockScheduleExceptionRepository: jest.Mocked<IScheduleExceptionRepository>;
   let mockScheduleRepository: jest.Mocked<IScheduleRepository>;
+  let mockStylistScheduleRepository: jest.Mocked<IStylistScheduleRepository>;
+  let mockStylistAbsenceRepository: jest.Mocked<IStylistAbsenceRepository>;
+
+  const stylistId = generateUuid();
 
   // Lunes 2026-06-01
   const mondayDate = new Date('2026-06-01T10:00:00.000Z');
@@ -89,15 +101,32 @@ describe('ScheduleAvailabilityService', () => {
       findConflictingSchedules: jest.fn(),
     };
 
+    mockStylistScheduleRepository = {
+      findByStylistId: jest.fn(),
+      findByStylistAndDay: jest.fn(),
+      replaceForStylist: jest.fn(),
+    };
+
+    mockStylistAbsenceRepository = {
+      save: jest.fn(),
+      findById: jest.fn(),
+      findOverlapping: jest.fn().mockResolvedValue([]),
+      findByStylistId: jest.fn(),
+      delete: jest.fn(),
+    };
+
     service = new ScheduleAvailabilityService(
       mockHolidayRepository,
       mockScheduleExceptionRepository,
       mockScheduleRepository,
+      mockStylistScheduleRepository,
+      mockStylistAbsenceRepository,
     );
   });
 
   afterEach(() => {
     jest.clearAllMocks();
+    jest.restoreAllMocks();
   });
 
   describe('getEffectiveSchedule', () => {
@@ -287,4 +316,307 @@ describe('ScheduleAvailabilityService', () => {
       expect(mockHolidayRepository.isHoliday).not.toHaveBeenCalled();
     });
   });
+
+  describe('getEffectiveStylistSchedule', () => {
+    const openSalonOnMonday = (startTime = '09:00', endTime = '18:00') => {
+      mockScheduleExceptionRepository.getExceptionForDate.mockResolvedValue(null);
+      mockHolidayRepository.isHoliday.mockResolvedValue(false);
+      mockScheduleRepository.findByDayOfWeek.mockResolvedValue([
+        createMockSchedule(DayOfWeekEnum.MONDAY, startTime, endTime),
+      ]);
+    };
+
+    // Salón cerrado = cerrado también para el estilista, sin consultar sus turnos
+    it('should return null when the salon is closed', async () => {
+      mockScheduleExceptionRepository.getExceptionForDate.mockResolvedValue(null);
+      mockHolidayRepository.isHoliday.mockResolvedValue(true);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result).toBeNull();
+      expect(mockStylistScheduleRepository.findByStylistId).not.toHaveBeenCalled();
+    });
+
+    // Sin turnos configurados = hereda el horario del salón
+    it('should inherit salon hours when the stylist has no shifts configured', async () => {
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.hasCustomShifts).toBe(false);
+      expect(result!.intervals).toEqual([{ startTime: '09:00', endTime: '18:00' }]);
+    });
+
+    // Turnos en otros días pero no en este = no trabaja ese día
+    it('should return no intervals when the stylist has shifts on other days only', async () => {
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([
+        StylistSchedule.create(stylistId, DayOfWeekEnum.TUESDAY, '09:00', '18:00'),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.hasCustomShifts).toBe(true);
+      expect(result!.intervals).toEqual([]);
+    });
+
+    // El descanso parte el turno en dos tramos
+    it('should split the shift around the break', async () => {
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '18:00', '13:00', '14:00'),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.intervals).toEqual([
+        { startTime: '09:00', endTime: '13:00' },
+        { startTime: '14:00', endTime: '18:00' },
+      ]);
+    });
+
+    // Turno partido que excede el horario del salón: se recorta y se ordena
+    it('should clip split shifts to salon hours and sort them', async () => {
+      openSalonOnMonday('10:00', '16:00');
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '15:00', '20:00'),
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '8:00', '12:00'),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.intervals).toEqual([
+        { startTime: '10:00', endTime: '12:00' },
+        { startTime: '15:00', endTime: '16:00' },
+      ]);
+    });
+
+    // Turno completamente fuera del horario del salón = sin tramos
+    it('should drop shifts that fall entirely outside salon hours', async () => {
+      openSalonOnMonday('09:00', '13:00');
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '14:00', '20:00'),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.intervals).toEqual([]);
+    });
+
+    // Ausencia de día completo = sin tramos
+    it('should return no intervals when a full-day absence covers the date', async () => {
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([]);
+      const absence = StylistAbsence.create(
+        stylistId,
+        AbsenceTypeEnum.VACATION,
+        new Date('2026-05-30T00:00:00.000Z'),
+        new Date('2026-06-05T00:00:00.000Z'),
+      );
+      mockStylistAbsenceRepository.findOverlapping.mockResolvedValue([absence]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.intervals).toEqual([]);
+      expect(result!.absences).toEqual([absence]);
+      expect(mockStylistAbsenceRepository.findOverlapping).toHaveBeenCalledWith(
+        stylistId,
+        new Date('2026-06-01T00:00:00.000Z'),
+        new Date('2026-06-02T00:00:00.000Z'),
+      );
+    });
+
+    // Ausencia parcial = recorta el tramo afectado
+    it('should carve a partial-day absence out of the working intervals', async () => {
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([
+        StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '18:00', '13:00', '14:00'),
+      ]);
+      mockStylistAbsenceRepository.findOverlapping.mockResolvedValue([
+        StylistAbsence.create(
+          stylistId,
+          AbsenceTypeEnum.PERSONAL,
+          new Date('2026-06-01T10:30:00.000Z'),
+          new Date('2026-06-01T11:15:00.000Z'),
+        ),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.intervals).toEqual([
+        { startTime: '09:00', endTime: '10:30' },
+        { startTime: '11:15', endTime: '13:00' },
+        { startTime: '14:00', endTime: '18:00' },
+      ]);
+    });
+
+    // Ausencia que empieza a media tarde y sigue al día siguiente
+    it('should block the rest of the day when an absence starts mid-day', async () => {
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([]);
+      mockStylistAbsenceRepository.findOverlapping.mockResolvedValue([
+        StylistAbsence.create(
+          stylistId,
+          AbsenceTypeEnum.SICK_LEAVE,
+          new Date('2026-06-01T15:00:00.000Z'),
+          new Date('2026-06-03T00:00:00.000Z'),
+        ),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(result!.intervals).toEqual([{ startTime: '09:00', endTime: '15:00' }]);
+    });
+
+    // Con zona horaria del salón, las ausencias se descuentan en hora local
+    it('should carve absences in salon-local time', async () => {
+      jest.replaceProperty(env, 'SALON_TIMEZONE', 'America/Argentina/Buenos_Aires');
+      openSalonOnMonday();
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([]);
+      mockStylistAbsenceRepository.findOverlapping.mockResolvedValue([
+        StylistAbsence.create(
+          stylistId,
+          AbsenceTypeEnum.PERSONAL,
+          new Date('2026-06-01T13:00:00.000Z'), // 10:00 en Buenos Aires
+          new Date('2026-06-01T14:30:00.000Z'), // 11:30 en Buenos Aires
+        ),
+      ]);
+
+      const result = await service.getEffectiveStylistSchedule(mondayDate, stylistId);
+
+      expect(mockStylistAbsenceRepository.findOverlapping).toHaveBeenCalledWith(
+        stylistId,
+        new Date('2026-06-01T03:00:00.000Z'),
+        new Date('2026-06-02T03:00:00.000Z'),
+      );
+      expect(result!.intervals).toEqual([
+        { startTime: '09:00', endTime: '10:00' },
+        { startTime: '11:30', endTime: '18:00' },
+      ]);
+    });
+  });
+
+  describe('validateStylistShift', () => {
+    const stylistSchedule = (
+      intervals = [
+        { startTime: '09:00', endTime: '13:00' },
+        { startTime: '14:00', endTime: '18:00' },
+      ],
+      absences: StylistAbsence[] = [],
+    ) => ({
+      startTime: '09:00',
+      endTime: '18:00',
+      source: 'regular' as const,
+      intervals,
+      hasCustomShifts: true,
+      absences,
+    });
+
+    // Una cita dentro de un tramo del estilista es válida
+    it('should accept an appointment that fits in one of the shifts', () => {
+      expect(() =>
+        ScheduleAvailabilityService.validateStylistShift(
+          new Date('2026-06-01T14:00:00.000Z'),
+          60,
+          stylistSchedule(),
+        ),
+      ).not.toThrow();
+    });
+
+    // Una cita que cruza el descanso entre tramos se rechaza
+    it('should reject an appointment that crosses a break', () => {
+      expect(() =>
+        ScheduleAvailabilityService.validateStylistShift(
+          new Date('2026-06-01T12:30:00.000Z'),
+          60,
+          stylistSchedule(),
+        ),
+      ).toThrow(/outside the stylist's working hours \(09:00-13:00, 14:00-18:00\)/);
+    });
+
+    // Sin tramos el estilista no trabaja ese día
+    it('should reject an appointment on a day the stylist does not work', () => {
+      expect(() =>
+        ScheduleAvailabilityService.validateStylistShift(
+          new Date('2026-06-01T10:00:00.000Z'),
+          60,
+          stylistSchedule([]),
+        ),
+      ).toThrow('The selected stylist does not work on the selected date');
+    });
+
+    // Una ausencia que se solapa con la cita tiene prioridad sobre los tramos
+    it('should reject an appointment that overlaps an absence', () => {
+      const absence = StylistAbsence.create(
+        stylistId,
+        AbsenceTypeEnum.PERSONAL,
+        new Date('2026-06-01T10:30:00.000Z'),
+        new Date('2026-06-01T11:30:00.000Z'),
+      );
+
+      expect(() =>
+        ScheduleAvailabilityService.validateStylistShift(
+          new Date('2026-06-01T10:00:00.000Z'),
+          60,
+          stylistSchedule(undefined, [absence]),
+        ),
+      ).toThrow('The selected stylist is absent at the selected time');
+    });
+  });
+
+  describe('loadStylistAgenda / applyStylistAgenda', () => {
+    const salonSchedule = { startTime: '09:00', endTime: '18:00', source: 'regular' as const };
+
+    // Debería cargar turnos y ausencias del rango completo con una consulta de cada uno
+    it('should load shifts and absences for the whole range at once', async () => {
+      mockStylistScheduleRepository.findByStylistId.mockResolvedValue([]);
+      mockStylistAbsenceRepository.findOverlapping.mockResolvedValue([]);
+
+      await service.loadStylistAgenda(
+        stylistId,
+        new Date('2026-06-01T00:00:00.000Z'),
+        new Date('2026-06-07T00:00:00.000Z'),
+      );
+
+      expect(mockStylistScheduleRepository.findByStylistId).toHaveBeenCalledTimes(1);
+      expect(mockStylistAbsenceRepository.findOverlapping).toHaveBeenCalledTimes(1);
+      expect(mockStylistAbsenceRepository.findOverlapping).toHaveBeenCalledWith(
+        stylistId,
+        new Date('2026-06-01T00:00:00.000Z'),
+        new Date('2026-06-08T00:00:00.000Z'),
+      );
+    });
+
+    // Debería descontar solo las ausencias del día consultado
+    it('should only carve the absences that fall on the requested day', () => {
+      const mondayAbsence = StylistAbsence.create(
+        stylistId,
+        AbsenceTypeEnum.PERSONAL,
+        new Date('2026-06-01T10:00:00.000Z'),
+        new Date('2026-06-01T11:00:00.000Z'),
+      );
+      const tuesdayAbsence = StylistAbsence.create(
+        stylistId,
+        AbsenceTypeEnum.PERSONAL,
+        new Date('2026-06-02T09:00:00.000Z'),
+        new Date('2026-06-02T18:00:00.000Z'),
+      );
+
+      const result = service.applyStylistAgenda(
+        new Date('2026-06-01T00:00:00.000Z'),
+        salonSchedule,
+        {
+          shifts: [StylistSchedule.create(stylistId, DayOfWeekEnum.MONDAY, '09:00', '18:00')],
+          absences: [mondayAbsence, tuesdayAbsence],
+        },
+      );
+
+      expect(result.absences).toEqual([mondayAbsence]);
+      expect(result.intervals).toEqual([
+        { startTime: '09:00', endTime: '10:00' },
+        { startTime: '11:00', endTime: '18:00' },
+      ]);
+    });
+  });
 });
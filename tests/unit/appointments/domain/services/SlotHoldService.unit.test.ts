@@ -0,0 +1,165 @@
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { ISlotHoldRepository } from '../../../../../src/modules/appointments/domain/repositories/ISlotHoldRepository';
+import { IWaitlistEntryRepository } from '../../../../../src/modules/appointments/domain/repositories/IWaitlistEntryRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import {
+  WaitlistEntry,
+  WaitlistStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/WaitlistEntry';
+import { ConflictError } from '../../../../../src/shared/exceptions/ConflictError';
+import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('SlotHoldService', () => {
+  let service: SlotHoldService;
+  let mockSlotHoldRepository: jest.Mocked<ISlotHoldRepository>;
+  let mockWaitlistEntryRepository: jest.Mocked<IWaitlistEntryRepository>;
+
+  const stylistId = generateUuid();
+  const clientId = generateUuid();
+  const dateTime = new Date('2026-06-03T10:00:00.000Z');
+  const end = new Date('2026-06-03T11:00:00.000Z');
+
+  const createHold = (clientIds: string[], start: Date = dateTime): SlotHold =>
+    SlotHold.create(stylistId, start, 60, 15, clientIds);
+
+  const createAppointment = (): Appointment =>
+    new Appointment(
+      generateUuid(),
+      dateTime,
+      60,
+      clientId,
+      clientId,
+      generateUuid(),
+      generateUuid(),
+      stylistId,
+    );
+
+  beforeEach(() => {
+    mockSlotHoldRepository = {
+      findActiveByDateRange: jest.fn().mockResolvedValue([]),
+      findByToken: jest.fn().mockResolvedValue(null),
+      delete: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<ISlotHoldRepository>;
+
+    mockWaitlistEntryRepository = {
+      findActiveByHoldId: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation(async (entry: WaitlistEntry) => entry),
+    } as unknown as jest.Mocked<IWaitlistEntryRepository>;
+
+    service = new SlotHoldService(mockSlotHoldRepository, mockWaitlistEntryRepository);
+  });
+
+  describe('findBlockingHolds', () => {
+    // Debería bloquear a quien no es destinatario y dejar pasar a los destinatarios
+    it('should block other clients but not the hold recipients', async () => {
+      const hold = createHold([clientId]);
+      mockSlotHoldRepository.findActiveByDateRange.mockResolvedValue([hold]);
+
+      expect(await service.findBlockingHolds(stylistId, dateTime, end, generateUuid())).toEqual([
+        hold,
+      ]);
+      expect(await service.findBlockingHolds(stylistId, dateTime, end, clientId)).toEqual([]);
+    });
+
+    // Sin cliente (consulta de disponibilidad), toda reserva solapada bloquea
+    it('should treat every overlapping hold as blocking when no client is given', async () => {
+      const hold = createHold([clientId]);
+      mockSlotHoldRepository.findActiveByDateRange.mockResolvedValue([hold]);
+
+      expect(await service.findBlockingHolds(stylistId, dateTime, end)).toEqual([hold]);
+    });
+
+    // Debería respetar los buffers de la cita a reservar
+    it('should apply the buffers of the appointment being booked', async () => {
+      const hold = createHold([clientId], new Date('2026-06-03T11:15:00.000Z'));
+      mockSlotHoldRepository.findActiveByDateRange.mockResolvedValue([hold]);
+
+      expect(await service.findBlockingHolds(stylistId, dateTime, end)).toEqual([]);
+      expect(
+        await service.findBlockingHolds(stylistId, dateTime, end, undefined, {
+          before: 0,
+          after: 15,
+        }),
+      ).toEqual([]);
+      expect(
+        await service.findBlockingHolds(stylistId, dateTime, end, undefined, {
+          before: 0,
+          after: 30,
+        }),
+      ).toEqual([hold]);
+    });
+  });
+
+  describe('resolveCheckoutHold', () => {
+    const now = new Date('2026-06-01T12:00:00.000Z');
+    const createCheckoutHold = (): SlotHold =>
+      SlotHold.createForCheckout(stylistId, dateTime, 60, 5, clientId, now);
+
+    // Debería devolver la reserva vigente del cliente
+    it('should return the active hold of the client', async () => {
+      const hold = createCheckoutHold();
+      mockSlotHoldRepository.findByToken.mockResolvedValue(hold);
+
+      expect(await service.resolveCheckoutHold(hold.token!, clientId, now)).toBe(hold);
+    });
+
+    // Las reservas de la lista de espera no sirven como reserva de checkout
+    it('should not resolve waitlist holds', async () => {
+      mockSlotHoldRepository.findByToken.mockResolvedValue(createHold([clientId]));
+
+      await expect(service.resolveCheckoutHold(generateUuid(), clientId, now)).rejects.toThrow(
+        NotFoundError,
+      );
+    });
+
+    // Debería fallar si la reserva venció o es de otro cliente
+    it('should reject expired holds and holds of other clients', async () => {
+      const hold = createCheckoutHold();
+      mockSlotHoldRepository.findByToken.mockResolvedValue(hold);
+
+      await expect(
+        service.resolveCheckoutHold(hold.token!, clientId, new Date('2026-06-01T12:06:00.000Z')),
+      ).rejects.toThrow(new ConflictError('The slot hold has expired'));
+      await expect(service.resolveCheckoutHold(hold.token!, generateUuid(), now)).rejects.toThrow(
+        new ForbiddenError('The slot hold belongs to another client'),
+      );
+    });
+  });
+
+  describe('claimHolds', () => {
+    // Debería cumplir la entrada del cliente y eliminar la reserva usada
+    it('should fulfil the client entry and delete the claimed hold', async () => {
+      const hold = createHold([clientId, generateUuid()]);
+      const clientEntry = WaitlistEntry.create(
+        clientId,
+        clientId,
+        [generateUuid()],
+        new Date('2026-06-03T00:00:00.000Z'),
+        new Date('2026-06-03T00:00:00.000Z'),
+      );
+      clientEntry.offerHold(hold.id);
+      mockSlotHoldRepository.findActiveByDateRange.mockResolvedValue([hold]);
+      mockWaitlistEntryRepository.findActiveByHoldId.mockResolvedValue([clientEntry]);
+
+      await service.claimHolds(createAppointment());
+
+      expect(clientEntry.status).toBe(WaitlistStatusEnum.FULFILLED);
+      expect(mockWaitlistEntryRepository.update).toHaveBeenCalledWith(clientEntry);
+      expect(mockSlotHoldRepository.delete).toHaveBeenCalledWith(hold.id);
+    });
+
+    // No debería tocar reservas de otros clientes
+    it('should leave holds of other clients untouched', async () => {
+      mockSlotHoldRepository.findActiveByDateRange.mockResolvedValue([
+        createHold([generateUuid()]),
+      ]);
+
+      await service.claimHolds(createAppointment());
+
+      expect(mockSlotHoldRepository.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,314 @@
+import {
+  StylistAssignmentService,
+  StylistAssignmentStrategyEnum,
+} from '../../../../../src/modules/appointments/domain/services/StylistAssignmentService';
+import { StylistEligibilityService } from '../../../../../src/modules/appointments/domain/services/StylistEligibilityService';
+import { ScheduleAvailabilityService } from '../../../../../src/modules/appointments/domain/services/ScheduleAvailabilityService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { SlotHoldService } from '../../../../../src/modules/appointments/domain/services/SlotHoldService';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import { AppointmentStatus } from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import {
+  StylistAbsence,
+  AbsenceTypeEnum,
+} from '../../../../../src/modules/appointments/domain/entities/StylistAbsence';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('StylistAssignmentService', () => {
+  let service: StylistAssignmentService;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let mockScheduleAvailabilityService: jest.Mocked<ScheduleAvailabilityService>;
+  let mockStylistEligibilityService: jest.Mocked<StylistEligibilityService>;
+  let mockAppointmentDurationService: jest.Mocked<AppointmentDurationService>;
+  let mockSlotHoldService: jest.Mocked<SlotHoldService>;
+
+  const ana = { id: generateUuid(), name: 'Ana' };
+  const bruno = { id: generateUuid(), name: 'Bruno' };
+  const carla = { id: generateUuid(), name: 'Carla' };
+  const clientId = generateUuid();
+  const cancelledStatus = new AppointmentStatus(generateUuid(), 'CANCELLED', 'Cancelada');
+
+  // Lunes 2026-06-01 a las 10:00 UTC
+  const dateTime = new Date('2026-06-01T10:00:00.000Z');
+
+  const baseRequest = {
+    dateTime,
+    duration: 60,
+    serviceIds: [generateUuid()],
+    clientId,
+  };
+
+  const createMockAppointment = (
+    stylistId: string | undefined,
+    overrides: Partial<{ statusId: string; createdAt: Date; clientId: string }> = {},
+  ): Appointment =>
+    ({
+      id: generateUuid(),
+      dateTime,
+      duration: 60,
+      stylistId,
+      clientId: overrides.clientId ?? generateUuid(),
+      statusId: overrides.statusId ?? generateUuid(),
+      createdAt: overrides.createdAt ?? new Date(),
+    }) as unknown as Appointment;
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findConflictingAppointments: jest.fn().mockResolvedValue([]),
+      findByDateRange: jest.fn().mockResolvedValue([]),
+      findByClientId: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findByName: jest.fn().mockResolvedValue(cancelledStatus),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    // Por defecto todos los estilistas trabajan de 09:00 a 18:00 sin ausencias
+    mockScheduleAvailabilityService = {
+      getEffectiveStylistSchedule: jest.fn().mockResolvedValue({
+        startTime: '09:00',
+        endTime: '18:00',
+        source: 'regular',
+        intervals: [{ startTime: '09:00', endTime: '18:00' }],
+        hasCustomShifts: false,
+        absences: [],
+      }),
+    } as unknown as jest.Mocked<ScheduleAvailabilityService>;
+
+    mockStylistEligibilityService = {
+      findEligibleStylists: jest.fn().mockResolvedValue([carla, ana, bruno]),
+    } as unknown as jest.Mocked<StylistEligibilityService>;
+
+    mockAppointmentDurationService = {
+      calculateBuffer: jest.fn().mockResolvedValue({ before: 0, after: 0 }),
+    } as unknown as jest.Mocked<AppointmentDurationService>;
+
+    mockSlotHoldService = {
+      findBlockingHolds: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<SlotHoldService>;
+
+    service = new StylistAssignmentService(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockScheduleAvailabilityService,
+      mockStylistEligibilityService,
+      mockAppointmentDurationService,
+      mockSlotHoldService,
+    );
+  });
+
+  afterEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('Availability filtering', () => {
+    // Debería descartar estilistas con citas en conflicto
+    it('should skip stylists with conflicting appointments', async () => {
+      mockAppointmentRepository.findConflictingAppointments.mockImplementation(
+        async (_date, _duration, stylistId) =>
+          stylistId === bruno.id ? [] : [createMockAppointment(stylistId)],
+      );
+
+      const result = await service.assignStylist(baseRequest);
+
+      expect(result).toEqual(bruno);
+    });
+
+    // Debería descartar estilistas ausentes o fuera de su turno
+    it('should skip stylists who are absent or off shift', async () => {
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockImplementation(
+        async (_date, stylistId) => ({
+          startTime: '09:00',
+          endTime: '18:00',
+          source: 'regular',
+          intervals:
+            stylistId === bruno.id
+              ? [{ startTime: '14:00', endTime: '18:00' }]
+              : [{ startTime: '09:00', endTime: '18:00' }],
+          hasCustomShifts: stylistId === bruno.id,
+          absences:
+            stylistId === ana.id
+              ? [
+                  StylistAbsence.create(
+                    ana.id,
+                    AbsenceTypeEnum.PERSONAL,
+                    new Date('2026-06-01T10:30:00.000Z'),
+                    new Date('2026-06-01T11:30:00.000Z'),
+                  ),
+                ]
+              : [],
+        }),
+      );
+
+      const result = await service.assignStylist(baseRequest);
+
+      expect(result).toEqual(carla);
+    });
+
+    // Debería descartar estilistas con el turno reservado temporalmente para otro cliente
+    it('should skip stylists whose slot is held for another client', async () => {
+      mockSlotHoldService.findBlockingHolds.mockImplementation(async (stylistId) =>
+        stylistId === ana.id ? [SlotHold.create(ana.id, dateTime, 60, 15, [generateUuid()])] : [],
+      );
+
+      const result = await service.assignStylist(baseRequest, [ana, bruno]);
+
+      expect(result).toEqual(bruno);
+      expect(mockSlotHoldService.findBlockingHolds).toHaveBeenCalledWith(
+        ana.id,
+        dateTime,
+        new Date(dateTime.getTime() + 60 * 60000),
+        clientId,
+        { before: 0, after: 0 },
+      );
+    });
+
+    // Debería devolver null si ningún estilista está libre
+    it('should return null when no stylist is free', async () => {
+      mockScheduleAvailabilityService.getEffectiveStylistSchedule.mockResolvedValue(null);
+
+      const result = await service.assignStylist(baseRequest);
+
+      expect(result).toBeNull();
+      expect(mockAppointmentRepository.findByDateRange).not.toHaveBeenCalled();
+    });
+
+    // Debería buscar conflictos con los buffers propios de cada estilista
+    it('should check conflicts using each stylist buffer', async () => {
+      mockAppointmentDurationService.calculateBuffer.mockImplementation(
+        async (_serviceIds, stylistId) =>
+          stylistId === ana.id ? { before: 0, after: 30 } : { before: 0, after: 0 },
+      );
+
+      await service.assignStylist(baseRequest, [ana]);
+
+      expect(mockAppointmentDurationService.calculateBuffer).toHaveBeenCalledWith(
+        baseRequest.serviceIds,
+        ana.id,
+      );
+      expect(mockAppointmentRepository.findConflictingAppointments).toHaveBeenCalledWith(
+        dateTime,
+        60,
+        ana.id,
+        undefined,
+        { before: 0, after: 30 },
+      );
+    });
+
+    // Debería usar los candidatos recibidos sin volver a calcular la elegibilidad
+    it('should use the provided candidates without recomputing eligibility', async () => {
+      const result = await service.assignStylist(baseRequest, [bruno]);
+
+      expect(result).toEqual(bruno);
+      expect(mockStylistEligibilityService.findEligibleStylists).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('LEAST_LOADED strategy', () => {
+    // Debería elegir al estilista con menos citas activas en el día (ignorando canceladas)
+    it('should pick the stylist with the fewest active appointments of the day', async () => {
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(ana.id),
+        createMockAppointment(bruno.id),
+        createMockAppointment(carla.id, { statusId: cancelledStatus.id }),
+        createMockAppointment(carla.id, { statusId: cancelledStatus.id }),
+      ]);
+
+      const result = await service.assignStylist(baseRequest);
+
+      expect(result).toEqual(carla);
+    });
+
+    // En caso de empate debería elegir por nombre
+    it('should break ties by name', async () => {
+      const result = await service.assignStylist({
+        ...baseRequest,
+        strategy: StylistAssignmentStrategyEnum.LEAST_LOADED,
+      });
+
+      expect(result).toEqual(ana);
+    });
+  });
+
+  describe('ROUND_ROBIN strategy', () => {
+    // Debería elegir al siguiente del último estilista que recibió una cita
+    it('should pick the stylist after the one who received the latest appointment', async () => {
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(carla.id, { createdAt: new Date('2026-05-20T10:00:00.000Z') }),
+        createMockAppointment(ana.id, { createdAt: new Date('2026-05-21T10:00:00.000Z') }),
+      ]);
+
+      const result = await service.assignStylist({
+        ...baseRequest,
+        strategy: StylistAssignmentStrategyEnum.ROUND_ROBIN,
+      });
+
+      expect(result).toEqual(bruno);
+    });
+
+    // Debería saltar al siguiente libre y volver al inicio de la rotación
+    it('should skip busy stylists and wrap around', async () => {
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(bruno.id, { createdAt: new Date('2026-05-21T10:00:00.000Z') }),
+      ]);
+      mockAppointmentRepository.findConflictingAppointments.mockImplementation(
+        async (_date, _duration, stylistId) =>
+          stylistId === carla.id ? [createMockAppointment(carla.id)] : [],
+      );
+
+      const result = await service.assignStylist({
+        ...baseRequest,
+        strategy: StylistAssignmentStrategyEnum.ROUND_ROBIN,
+      });
+
+      expect(result).toEqual(ana);
+    });
+  });
+
+  describe('PREFERRED_STYLIST strategy', () => {
+    // Debería elegir al estilista con el que el cliente se atendió más veces
+    it('should pick the stylist the client has visited most', async () => {
+      mockAppointmentRepository.findByClientId.mockResolvedValue([
+        createMockAppointment(bruno.id, { clientId }),
+        createMockAppointment(carla.id, { clientId }),
+        createMockAppointment(carla.id, { clientId }),
+        createMockAppointment(bruno.id, { clientId, statusId: cancelledStatus.id }),
+        createMockAppointment(bruno.id, { clientId, statusId: cancelledStatus.id }),
+      ]);
+
+      const result = await service.assignStylist({
+        ...baseRequest,
+        strategy: StylistAssignmentStrategyEnum.PREFERRED_STYLIST,
+      });
+
+      expect(mockAppointmentRepository.findByClientId).toHaveBeenCalledWith(clientId);
+      expect(result).toEqual(carla);
+    });
+
+    // Si el preferido no está libre debería aplicar LEAST_LOADED
+    it('should fall back to least loaded when the preferred stylist is busy', async () => {
+      mockAppointmentRepository.findByClientId.mockResolvedValue([
+        createMockAppointment(carla.id, { clientId }),
+      ]);
+      mockAppointmentRepository.findConflictingAppointments.mockImplementation(
+        async (_date, _duration, stylistId) =>
+          stylistId === carla.id ? [createMockAppointment(carla.id)] : [],
+      );
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(carla.id),
+        createMockAppointment(ana.id),
+      ]);
+
+      const result = await service.assignStylist({
+        ...baseRequest,
+        strategy: StylistAssignmentStrategyEnum.PREFERRED_STYLIST,
+      });
+
+      expect(result).toEqual(bruno);
+    });
+  });
+});
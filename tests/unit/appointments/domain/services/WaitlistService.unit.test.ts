@@ -0,0 +1,250 @@
+import { WaitlistService } from '../../../../../src/modules/appointments/domain/services/WaitlistService';
+import { AppointmentDurationService } from '../../../../../src/modules/appointments/domain/services/AppointmentDurationService';
+import { StylistAssignmentService } from '../../../../../src/modules/appointments/domain/services/StylistAssignmentService';
+import { IWaitlistEntryRepository } from '../../../../../src/modules/appointments/domain/repositories/IWaitlistEntryRepository';
+import { ISlotHoldRepository } from '../../../../../src/modules/appointments/domain/repositories/ISlotHoldRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import { SlotHold } from '../../../../../src/modules/appointments/domain/entities/SlotHold';
+import { WaitlistEntry } from '../../../../../src/modules/appointments/domain/entities/WaitlistEntry';
+import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { User } from '../../../../../src/modules/auth/domain/entities/User';
+import { UserPreferences } from '../../../../../src/modules/auth/domain/entities/UserPreferences';
+import { IStylistServiceRepository } from '../../../../../src/modules/services/domain/repositories/IStylistServiceRepository';
+import { StylistService } from '../../../../../src/modules/services/domain/entities/StylistService';
+import {
+  Notification,
+  NotificationTypeEnum,
+} from '../../../../../src/modules/notifications/domain/entities/Notification';
+import { NotificationStatus } from '../../../../../src/modules/notifications/domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationStatusRepository';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { toSalonDate } from '../../../../../src/shared/utils/salonTime';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('WaitlistService', () => {
+  let service: WaitlistService;
+  let mockWaitlistEntryRepository: jest.Mocked<IWaitlistEntryRepository>;
+  let mockSlotHoldRepository: jest.Mocked<ISlotHoldRepository>;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
+  let mockAppointmentDurationService: jest.Mocked<AppointmentDurationService>;
+  let mockStylistAssignmentService: jest.Mocked<StylistAssignmentService>;
+  let mockNotificationRepository: jest.Mocked<INotificationRepository>;
+  let mockNotificationStatusRepository: jest.Mocked<INotificationStatusRepository>;
+
+  const stylistId = generateUuid();
+  const serviceId = generateUuid();
+  const pendingStatus = new NotificationStatus(generateUuid(), 'PENDING');
+  const now = new Date('2026-06-01T08:00:00.000Z');
+  const dateTime = new Date('2026-06-03T10:00:00.000Z');
+
+  const appointment = new Appointment(
+    generateUuid(),
+    dateTime,
+    60,
+    generateUuid(),
+    generateUuid(),
+    generateUuid(),
+    generateUuid(),
+    stylistId,
+    undefined,
+    [serviceId],
+  );
+
+  const createEntry = (overrides: { clientId?: string; stylistId?: string } = {}) =>
+    WaitlistEntry.create(
+      overrides.clientId ?? generateUuid(),
+      generateUuid(),
+      [serviceId],
+      toSalonDate(dateTime),
+      toSalonDate(dateTime),
+      overrides.stylistId,
+    );
+
+  beforeEach(() => {
+    mockWaitlistEntryRepository = {
+      findActiveForDate: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation(async (entry: WaitlistEntry) => entry),
+    } as unknown as jest.Mocked<IWaitlistEntryRepository>;
+
+    mockSlotHoldRepository = {
+      save: jest.fn().mockImplementation(async (hold: SlotHold) => hold),
+    } as unknown as jest.Mocked<ISlotHoldRepository>;
+
+    mockUserRepository = {
+      findById: jest
+        .fn()
+        .mockImplementation(
+          async (id: string) =>
+            ({ id, isActive: true, getPreferences: () => UserPreferences.defaults() }) as User,
+        ),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    mockStylistServiceRepository = {
+      findByStylistAndService: jest.fn().mockResolvedValue({ isOffering: true } as StylistService),
+    } as unknown as jest.Mocked<IStylistServiceRepository>;
+
+    mockAppointmentDurationService = {
+      calculateTotalDuration: jest.fn().mockResolvedValue(60),
+    } as unknown as jest.Mocked<AppointmentDurationService>;
+
+    mockStylistAssignmentService = {
+      assignStylist: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<StylistAssignmentService>;
+
+    mockNotificationRepository = {
+      save: jest.fn().mockImplementation(async (notification: Notification) => notification),
+    } as unknown as jest.Mocked<INotificationRepository>;
+
+    mockNotificationStatusRepository = {
+      findByName: jest.fn().mockResolvedValue(pendingStatus),
+    } as unknown as jest.Mocked<INotificationStatusRepository>;
+
+    service = new WaitlistService(
+      mockWaitlistEntryRepository,
+      mockSlotHoldRepository,
+      mockUserRepository,
+      mockStylistServiceRepository,
+      mockAppointmentDurationService,
+      mockStylistAssignmentService,
+      mockNotificationRepository,
+      mockNotificationStatusRepository,
+      15,
+    );
+  });
+
+  describe('offerFreedSlot', () => {
+    // Debería reservar el turno para las entradas que lo aceptan y notificarlas
+    it('should hold the slot for matching entries and notify them', async () => {
+      const first = createEntry();
+      const second = createEntry({ stylistId });
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([first, second]);
+
+      const hold = await service.offerFreedSlot(appointment, now);
+
+      expect(mockWaitlistEntryRepository.findActiveForDate).toHaveBeenCalledWith(
+        toSalonDate(dateTime),
+      );
+      expect(hold).not.toBeNull();
+      expect(hold!.stylistId).toBe(stylistId);
+      expect(hold!.dateTime).toEqual(dateTime);
+      expect(hold!.duration).toBe(60);
+      expect(hold!.expiresAt).toEqual(new Date(now.getTime() + 15 * 60000));
+      expect(hold!.clientIds).toEqual([first.clientId, second.clientId]);
+
+      expect(first.holdId).toBe(hold!.id);
+      expect(first.lastNotifiedAt).toEqual(now);
+      expect(mockWaitlistEntryRepository.update).toHaveBeenCalledTimes(2);
+
+      expect(mockNotificationRepository.save).toHaveBeenCalledTimes(2);
+      const notification = mockNotificationRepository.save.mock.calls[0][0];
+      expect(notification.type).toBe(NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE);
+      expect(notification.userId).toBe(first.clientId);
+      expect(notification.statusId).toBe(pendingStatus.id);
+    });
+
+    // A quien desactivó ese tipo de notificación se le reserva el turno, pero no se le notifica
+    it('should hold the slot but not notify clients who opted out of the type', async () => {
+      const optedOut = createEntry();
+      const notified = createEntry();
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([optedOut, notified]);
+      mockUserRepository.findById.mockImplementation(
+        async (id: string) =>
+          ({
+            id,
+            isActive: true,
+            getPreferences: () =>
+              UserPreferences.fromJson(
+                id === optedOut.clientId
+                  ? JSON.stringify({ notificationTypes: { WAITLIST_SLOT_AVAILABLE: false } })
+                  : null,
+              ),
+          }) as User,
+      );
+
+      const hold = await service.offerFreedSlot(appointment, now);
+
+      expect(hold!.clientIds).toEqual([optedOut.clientId, notified.clientId]);
+      expect(optedOut.holdId).toBe(hold!.id);
+      expect(mockNotificationRepository.save).toHaveBeenCalledTimes(1);
+      expect(mockNotificationRepository.save.mock.calls[0][0].userId).toBe(notified.clientId);
+    });
+
+    // No debería ofrecer turnos que ya pasaron
+    it('should ignore appointments in the past', async () => {
+      const hold = await service.offerFreedSlot(appointment, new Date('2026-06-04T00:00:00.000Z'));
+
+      expect(hold).toBeNull();
+      expect(mockWaitlistEntryRepository.findActiveForDate).not.toHaveBeenCalled();
+    });
+
+    // Debería descartar entradas que no aceptan el turno
+    it('should skip entries that do not accept the slot', async () => {
+      const sameClient = createEntry({ clientId: appointment.clientId });
+      const otherStylist = createEntry({ stylistId: generateUuid() });
+      const tooLong = createEntry();
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([
+        sameClient,
+        otherStylist,
+        tooLong,
+      ]);
+      mockAppointmentDurationService.calculateTotalDuration.mockResolvedValue(90);
+
+      const hold = await service.offerFreedSlot(appointment, now);
+
+      expect(hold).toBeNull();
+      expect(mockSlotHoldRepository.save).not.toHaveBeenCalled();
+      expect(mockNotificationRepository.save).not.toHaveBeenCalled();
+    });
+
+    // Debería descartar entradas cuyos servicios el estilista ya no ofrece
+    it('should skip entries whose services the stylist no longer offers', async () => {
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([createEntry()]);
+      mockStylistServiceRepository.findByStylistAndService.mockResolvedValue({
+        isOffering: false,
+      } as StylistService);
+
+      expect(await service.offerFreedSlot(appointment, now)).toBeNull();
+    });
+
+    // Con el estilista desactivado, debería ofrecer el turno con otro estilista libre
+    it('should offer the slot with a replacement when the stylist is inactive', async () => {
+      const replacementId = generateUuid();
+      mockUserRepository.findById.mockResolvedValue({ id: stylistId, isActive: false } as User);
+      mockStylistAssignmentService.assignStylist.mockResolvedValue({
+        id: replacementId,
+        name: 'Bruno',
+      });
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([createEntry()]);
+
+      const hold = await service.offerFreedSlot(appointment, now);
+
+      expect(mockStylistAssignmentService.assignStylist).toHaveBeenCalledWith({
+        dateTime,
+        duration: 60,
+        serviceIds: [serviceId],
+        clientId: appointment.clientId,
+      });
+      expect(hold!.stylistId).toBe(replacementId);
+    });
+
+    // Sin estilista activo ni reemplazo libre, no hay turno que ofrecer
+    it('should return null when no stylist can take the slot', async () => {
+      mockUserRepository.findById.mockResolvedValue({ id: stylistId, isActive: false } as User);
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([createEntry()]);
+
+      expect(await service.offerFreedSlot(appointment, now)).toBeNull();
+      expect(mockWaitlistEntryRepository.findActiveForDate).not.toHaveBeenCalled();
+    });
+
+    // Debería fallar si falta el estado PENDING de notificaciones
+    it('should throw NotFoundError when the PENDING notification status is missing', async () => {
+      mockWaitlistEntryRepository.findActiveForDate.mockResolvedValue([createEntry()]);
+      mockNotificationStatusRepository.findByName.mockResolvedValue(null);
+
+      await expect(service.offerFreedSlot(appointment, now)).rejects.toThrow(NotFoundError);
+      expect(mockSlotHoldRepository.save).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -16,9 +16,16 @@ import { ValidationError } from '../../../src/shared/exceptions/ValidationError'
 import { NotFoundError } from '../../../src/shared/exceptions/NotFoundError';
 import { BusinessRuleError } from '../../../src/shared/exceptions/BusinessRuleError';
 import { generateUuid } from '../../../src/shared/utils/uuid';
+import { AppointmentHistoryService } from '../../../src/modules/appointments/domain/services/AppointmentHistoryService';
+import { WaitlistService } from '../../../src/modules/appointments/domain/services/WaitlistService';
+import { AppointmentCancelledEvent } from '../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { EventBus } from '../../../src/shared/events/EventBus';
 
 describe('DeactivateUser Use Case', () => {
+  let mockEventBus: jest.Mocked<EventBus>;
   let useCase: DeactivateUser;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
+  let mockWaitlistService: jest.Mocked<WaitlistService>;
   let mockUserRepository: jest.Mocked<IUserRepository>;
   let mockRoleRepository: jest.Mocked<IRoleRepository>;
   let mockStylistServiceRepository: jest.Mocked<IStylistServiceRepository>;
@@ -118,6 +125,8 @@ describe('DeactivateUser Use Case', () => {
       findById: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
+      saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
       existsById: jest.fn(),
@@ -127,6 +136,8 @@ describe('DeactivateUser Use Case', () => {
       countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(),
       countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(),
+      countWithFilters: jest.fn(),
       findByUserId: jest.fn(),
       findByStatusId: jest.fn(),
       findByDateRange: jest.fn(),
@@ -135,6 +146,8 @@ describe('DeactivateUser Use Case', () => {
       findConflictingAppointments: jest.fn(),
       findByScheduleId: jest.fn(),
       findByDate: jest.fn(),
+      findBlockingByDateRange: jest.fn(),
+      findBySeriesId: jest.fn(),
       countByStatus: jest.fn(),
       countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(),
@@ -155,12 +168,28 @@ describe('DeactivateUser Use Case', () => {
       findActiveStatuses: jest.fn(),
     };
 
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
+    mockWaitlistService = {
+      offerFreedSlot: jest.fn().mockResolvedValue(null),
+    } as unknown as jest.Mocked<WaitlistService>;
+
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
     useCase = new DeactivateUser(
       mockUserRepository,
       mockRoleRepository,
       mockStylistServiceRepository,
       mockAppointmentRepository,
       mockAppointmentStatusRepository,
+      mockAppointmentHistoryService,
+      mockWaitlistService,
+      mockEventBus,
     );
   });
 
@@ -310,6 +339,20 @@ describe('DeactivateUser Use Case', () => {
       expect(pendingAppointment.cancelledBy).toBe('system');
       expect(confirmedAppointment.statusId).toBe(cancelledStatusId);
 
+      // Verificar que los turnos liberados se ofrecieron a la lista de espera
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledTimes(2);
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledWith(pendingAppointment);
+      expect(mockWaitlistService.offerFreedSlot).toHaveBeenCalledWith(confirmedAppointment);
+
+      // Verificar que se publicó la cancelación de cada cita para notificar a los clientes
+      expect(mockEventBus.publish).toHaveBeenCalledTimes(2);
+      expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(AppointmentCancelledEvent));
+      expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+        appointmentId: pendingAppointment.id,
+        reason: 'Stylist deactivated',
+        actor: { role: 'SYSTEM' },
+      });
+
       // Verificar que se desactivaron los servicios activos
       expect(mockStylistServiceRepository.update).toHaveBeenCalledTimes(2);
       expect(activeService1.isOffering).toBe(false);
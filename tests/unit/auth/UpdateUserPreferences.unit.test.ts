@@ -0,0 +1,101 @@
+import { UpdateUserPreferences } from '../../../src/modules/auth/application/use-cases/UpdateUserPreferences';
+import { GetUserPreferences } from '../../../src/modules/auth/application/use-cases/GetUserPreferences';
+import { IUserRepository } from '../../../src/modules/auth/domain/repositories/IUserRepository';
+import { User } from '../../../src/modules/auth/domain/entities/User';
+import { PreferredLanguageEnum } from '../../../src/modules/auth/domain/entities/UserPreferences';
+import { NotificationTypeEnum } from '../../../src/modules/notifications/domain/entities/Notification';
+import { ValidationError } from '../../../src/shared/exceptions/ValidationError';
+import { NotFoundError } from '../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../src/shared/utils/uuid';
+
+describe('UpdateUserPreferences Use Case', () => {
+  let useCase: UpdateUserPreferences;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+
+  const userId = generateUuid();
+
+  const createUser = (preferences?: string): User =>
+    new User(
+      userId,
+      generateUuid(),
+      'Ana Client',
+      'ana@example.com',
+      '+5491155551234',
+      'hash',
+      true,
+      undefined,
+      preferences,
+    );
+
+  beforeEach(() => {
+    mockUserRepository = {
+      findById: jest.fn().mockResolvedValue(createUser()),
+      update: jest.fn().mockImplementation(async (user: User) => user),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    useCase = new UpdateUserPreferences(mockUserRepository);
+  });
+
+  describe('Successful Execution', () => {
+    // Debería aplicar los cambios parciales y guardar las preferencias como JSON
+    it('should apply partial changes and persist the preferences as JSON', async () => {
+      const result = await useCase.execute(userId, {
+        notificationTypes: { [NotificationTypeEnum.PROMOTIONAL]: false },
+        quietHours: { start: '22:00', end: '07:00' },
+        language: PreferredLanguageEnum.ES,
+      });
+
+      const savedUser = mockUserRepository.update.mock.calls[0][0];
+      expect(JSON.parse(savedUser.preferences!)).toEqual(result);
+      expect(result.notificationTypes[NotificationTypeEnum.PROMOTIONAL]).toBe(false);
+      expect(result.notificationTypes[NotificationTypeEnum.APPOINTMENT_REMINDER]).toBe(true);
+      expect(result.quietHours).toEqual({ start: '22:00', end: '07:00' });
+      expect(result.language).toBe(PreferredLanguageEnum.ES);
+    });
+
+    // Debería conservar las notas de texto libre anteriores al modelo tipado
+    it('should keep legacy free-text preferences as notes', async () => {
+      mockUserRepository.findById.mockResolvedValue(createUser('Allergic to ammonia'));
+
+      const result = await useCase.execute(userId, { language: PreferredLanguageEnum.ES });
+
+      expect(result.notes).toBe('Allergic to ammonia');
+    });
+
+    // GetUserPreferences debería devolver las preferencias completadas con los valores por defecto
+    it('should return the stored preferences filled with defaults when reading them', async () => {
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(JSON.stringify({ language: PreferredLanguageEnum.ES })),
+      );
+
+      const result = await new GetUserPreferences(mockUserRepository).execute(userId);
+
+      expect(result.language).toBe(PreferredLanguageEnum.ES);
+      expect(result.notificationTypes[NotificationTypeEnum.PROMOTIONAL]).toBe(true);
+      expect(result.quietHours).toBeNull();
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería lanzar NotFoundError si el usuario no existe
+    it('should throw NotFoundError when the user does not exist', async () => {
+      mockUserRepository.findById.mockResolvedValue(null);
+
+      await expect(useCase.execute(userId, { language: PreferredLanguageEnum.ES })).rejects.toThrow(
+        NotFoundError,
+      );
+      await expect(new GetUserPreferences(mockUserRepository).execute(userId)).rejects.toThrow(
+        NotFoundError,
+      );
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+
+    // Debería lanzar ValidationError y no guardar si alguna preferencia no es válida
+    it('should throw ValidationError and not persist invalid preferences', async () => {
+      await expect(
+        useCase.execute(userId, { quietHours: { start: '22:00', end: '22:00' } }),
+      ).rejects.toThrow(ValidationError);
+      expect(mockUserRepository.update).not.toHaveBeenCalled();
+    });
+  });
+});
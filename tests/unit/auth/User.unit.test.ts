@@ -1,4 +1,5 @@
 import { User } from '../../../src/modules/auth/domain/entities/User';
+import { PreferredLanguageEnum } from '../../../src/modules/auth/domain/entities/UserPreferences';
 import { generateUuid } from '../../../src/shared/utils/uuid';
 describe('User Entity', () => {
   const validUserData = {
@@ -106,10 +107,14 @@ describe('User Entity', () => {
       }, 10);
     });
 
-    // Debería no exponer un método updatePreferences (AUTH-31, código muerto eliminado)
-    // (updatePreferences() no tenía caso de uso/endpoint asociado)
-    it('should not expose an updatePreferences method (AUTH-31, removed dead code)', () => {
-      expect((user as any).updatePreferences).toBeUndefined();
+    // Debería guardar las preferencias tipadas serializadas como JSON
+    it('should store typed preferences serialized as JSON', () => {
+      const preferences = user.getPreferences().merge({ language: PreferredLanguageEnum.ES });
+
+      user.updatePreferences(preferences);
+
+      expect(JSON.parse(user.preferences!).language).toBe('es');
+      expect(user.getPreferences().language).toBe(PreferredLanguageEnum.ES);
     });
 
   });
@@ -0,0 +1,171 @@
+import {
+  PreferredLanguageEnum,
+  UserPreferences,
+} from '../../../src/modules/auth/domain/entities/UserPreferences';
+import {
+  NotificationChannelEnum,
+  NotificationTypeEnum,
+} from '../../../src/modules/notifications/domain/entities/Notification';
+import { ValidationError } from '../../../src/shared/exceptions/ValidationError';
+import { logger } from '../../../src/shared/logger/logger';
+
+describe('UserPreferences Value Object', () => {
+  describe('Defaults and Persistence', () => {
+    // Debería habilitar todos los tipos y canales, sin franja de silencio y en inglés
+    it('should enable every type and channel with no quiet hours in English by default', () => {
+      const preferences = UserPreferences.fromJson(null).toJSON();
+
+      expect(Object.values(preferences.notificationTypes).every(Boolean)).toBe(true);
+      expect(Object.keys(preferences.notificationTypes)).toHaveLength(
+        Object.values(NotificationTypeEnum).length,
+      );
+      expect(preferences.notificationChannels).toEqual({ [NotificationChannelEnum.EMAIL]: true });
+      expect(preferences.quietHours).toBeNull();
+      expect(preferences.language).toBe(PreferredLanguageEnum.EN);
+      expect(preferences.notes).toBeNull();
+    });
+
+    // Debería conservar como notas un valor guardado que no es JSON
+    it('should keep a legacy free-text value as notes', () => {
+      const preferences = UserPreferences.fromJson('Prefers afternoon appointments');
+
+      expect(preferences.toJSON().notes).toBe('Prefers afternoon appointments');
+      expect(preferences.allowsType(NotificationTypeEnum.PROMOTIONAL)).toBe(true);
+    });
+
+    // Debería volver a los valores por defecto si el JSON guardado no es un objeto o no tiene
+    // valores válidos para el modelo
+    it('should fall back to defaults when the stored JSON is not valid for the model', () => {
+      expect(UserPreferences.fromJson('[1, 2]').toJSON()).toEqual(
+        UserPreferences.defaults().toJSON(),
+      );
+      expect(UserPreferences.fromJson('{"language":"fr"}').language).toBe(PreferredLanguageEnum.EN);
+    });
+
+    // Un valor guardado inválido solo descarta ese valor y conserva el resto de las preferencias
+    it('should drop only the invalid stored values and keep the valid ones', () => {
+      const warn = jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+
+      const preferences = UserPreferences.fromJson(
+        JSON.stringify({
+          language: 'fr',
+          quietHours: { start: '22:00', end: '07:00' },
+          notificationTypes: { PROMOTIONAL: false, BIRTHDAY: true },
+          notificationChannels: { EMAIL: false },
+        }),
+      );
+
+      expect(preferences.language).toBe(PreferredLanguageEnum.EN);
+      expect(preferences.toJSON().quietHours).toEqual({ start: '22:00', end: '07:00' });
+      expect(preferences.allowsType(NotificationTypeEnum.PROMOTIONAL)).toBe(false);
+      expect(preferences.allowsChannel(NotificationChannelEnum.EMAIL)).toBe(false);
+      expect(warn).toHaveBeenCalledWith('Invalid stored user preferences dropped', {
+        fields: [
+          'notificationTypes.BIRTHDAY (Unknown notification type: BIRTHDAY)',
+          'language (Invalid language. Must be one of: en, es)',
+        ],
+      });
+      warn.mockRestore();
+    });
+
+    // Debería reconstruir las mismas preferencias desde su serialización
+    it('should round-trip through serialize and fromJson', () => {
+      const preferences = UserPreferences.defaults().merge({
+        notificationTypes: { [NotificationTypeEnum.PROMOTIONAL]: false },
+        quietHours: { start: '22:00', end: '07:00' },
+        language: PreferredLanguageEnum.ES,
+      });
+
+      expect(UserPreferences.fromJson(preferences.serialize()).toJSON()).toEqual(
+        preferences.toJSON(),
+      );
+    });
+  });
+
+  describe('Merge', () => {
+    // Debería aplicar cambios parciales y conservar el resto
+    it('should apply partial changes and keep the rest', () => {
+      const preferences = UserPreferences.defaults()
+        .merge({ notificationTypes: { [NotificationTypeEnum.PROMOTIONAL]: false } })
+        .merge({ notificationChannels: { [NotificationChannelEnum.EMAIL]: false } });
+
+      expect(preferences.allowsType(NotificationTypeEnum.PROMOTIONAL)).toBe(false);
+      expect(preferences.allowsType(NotificationTypeEnum.APPOINTMENT_REMINDER)).toBe(true);
+      expect(preferences.allowsChannel(NotificationChannelEnum.EMAIL)).toBe(false);
+    });
+
+    // Debería quitar la franja de silencio cuando se indica null
+    it('should clear quiet hours when null is given', () => {
+      const preferences = UserPreferences.defaults()
+        .merge({ quietHours: { start: '22:00', end: '07:00' } })
+        .merge({ quietHours: null });
+
+      expect(preferences.toJSON().quietHours).toBeNull();
+    });
+
+    // Debería rechazar tipos de notificación desconocidos o valores no booleanos
+    it('should reject unknown notification types and non-boolean values', () => {
+      expect(() =>
+        UserPreferences.defaults().merge({
+          notificationTypes: { NEWSLETTER: false } as never,
+        }),
+      ).toThrow(ValidationError);
+      expect(() =>
+        UserPreferences.defaults().merge({
+          notificationTypes: { [NotificationTypeEnum.PROMOTIONAL]: 'no' } as never,
+        }),
+      ).toThrow(ValidationError);
+    });
+
+    // Debería rechazar una franja de silencio con formato inválido o vacía
+    it('should reject malformed or empty quiet hours', () => {
+      expect(() =>
+        UserPreferences.defaults().merge({ quietHours: { start: '25:00', end: '07:00' } }),
+      ).toThrow(ValidationError);
+      expect(() =>
+        UserPreferences.defaults().merge({ quietHours: { start: '22:00', end: '22:00' } }),
+      ).toThrow(ValidationError);
+    });
+
+    // Debería rechazar idiomas no soportados y notas demasiado largas
+    it('should reject unsupported languages and notes that are too long', () => {
+      expect(() =>
+        UserPreferences.defaults().merge({ language: 'fr' as PreferredLanguageEnum }),
+      ).toThrow(ValidationError);
+      expect(() =>
+        UserPreferences.defaults().merge({
+          notes: 'a'.repeat(UserPreferences.MAX_NOTES_LENGTH + 1),
+        }),
+      ).toThrow(ValidationError);
+    });
+  });
+
+  describe('Quiet Hours', () => {
+    const overnight = UserPreferences.defaults().merge({
+      quietHours: { start: '22:00', end: '07:00' },
+    });
+
+    // Debería devolver el fin de la franja del día siguiente si cruza la medianoche
+    it('should return the next day end for an overnight range entered before midnight', () => {
+      expect(overnight.quietHoursEndAfter(new Date('2026-10-19T23:30:00.000Z'))).toEqual(
+        new Date('2026-10-20T07:00:00.000Z'),
+      );
+    });
+
+    // Debería devolver el fin de la franja del mismo día después de la medianoche
+    it('should return the same day end for an overnight range after midnight', () => {
+      expect(overnight.quietHoursEndAfter(new Date('2026-10-20T03:00:00.000Z'))).toEqual(
+        new Date('2026-10-20T07:00:00.000Z'),
+      );
+    });
+
+    // Debería devolver null fuera de la franja o si no hay franja
+    it('should return null outside quiet hours or when there are none', () => {
+      expect(overnight.quietHoursEndAfter(new Date('2026-10-19T07:00:00.000Z'))).toBeNull();
+      expect(overnight.quietHoursEndAfter(new Date('2026-10-19T12:00:00.000Z'))).toBeNull();
+      expect(
+        UserPreferences.defaults().quietHoursEndAfter(new Date('2026-10-19T23:30:00.000Z')),
+      ).toBeNull();
+    });
+  });
+});
@@ -3,9 +3,11 @@ import { IHolidayRepository } from '../../../../../src/modules/holidays/domain/r
 import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
 import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
 import { Holiday } from '../../../../../src/modules/holidays/domain/entities/Holiday';
+import { AppointmentHistoryService } from '../../../../../src/modules/appointments/domain/services/AppointmentHistoryService';
 
 describe('CreateHoliday Use Case', () => {
   let createHoliday: CreateHoliday;
+  let mockAppointmentHistoryService: jest.Mocked<AppointmentHistoryService>;
   let mockHolidayRepository: jest.Mocked<IHolidayRepository>;
   let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
   let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
@@ -32,9 +34,13 @@ describe('CreateHoliday Use Case', () => {
       findByStylistId: jest.fn(), findByUserId: jest.fn(), findByStatusId: jest.fn(),
       findByClientIdPaginated: jest.fn(), countByClientId: jest.fn(),
       findByStylistIdPaginated: jest.fn(), countByStylistId: jest.fn(),
+      findWithFilters: jest.fn(), countWithFilters: jest.fn(),
       findByClientAndDateRange: jest.fn(), findByStylistAndDateRange: jest.fn(),
-      findConflictingAppointments: jest.fn(), findByScheduleId: jest.fn(),
-      findByDate: jest.fn(), countByStatus: jest.fn(), countByDateRange: jest.fn(),
+      findConflictingAppointments: jest.fn(), saveIfNoConflicts: jest.fn(),
+      updateIfNoConflicts: jest.fn(), findByScheduleId: jest.fn(),
+      findByDate: jest.fn(), findBlockingByDateRange: jest.fn(), findBySeriesId: jest.fn(),
+      countByStatus: jest.fn(),
+      countByDateRange: jest.fn(),
       findUpcomingAppointments: jest.fn(), findPendingConfirmation: jest.fn(),
       existsByServiceId: jest.fn(),
     } as jest.Mocked<IAppointmentRepository>;
@@ -46,10 +52,16 @@ describe('CreateHoliday Use Case', () => {
       findTerminalStatuses: jest.fn(), findActiveStatuses: jest.fn(),
     } as jest.Mocked<IAppointmentStatusRepository>;
 
+    mockAppointmentHistoryService = {
+      recordCreated: jest.fn().mockResolvedValue(undefined),
+      recordChanges: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<AppointmentHistoryService>;
+
     createHoliday = new CreateHoliday(
       mockHolidayRepository,
       mockAppointmentRepository,
       mockAppointmentStatusRepository,
+      mockAppointmentHistoryService,
     );
   });
 
@@ -0,0 +1,245 @@
+import { NotificationEventSubscriber } from '../../../../../src/modules/notifications/application/subscribers/NotificationEventSubscriber';
+import { CreateNotification } from '../../../../../src/modules/notifications/application/use-cases/CreateNotification';
+import { NotificationTypeEnum } from '../../../../../src/modules/notifications/domain/entities/Notification';
+import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { User } from '../../../../../src/modules/auth/domain/entities/User';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentCancelledEvent,
+  AppointmentConfirmedEvent,
+  AppointmentRescheduledEvent,
+} from '../../../../../src/modules/appointments/domain/events/AppointmentDomainEvents';
+import { PaymentRefundedEvent } from '../../../../../src/modules/payments/domain/events/PaymentRefundedEvent';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('NotificationEventSubscriber', () => {
+  let subscriber: NotificationEventSubscriber;
+  let mockCreateNotification: jest.Mocked<CreateNotification>;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+
+  const clientId = generateUuid();
+  const stylistId = generateUuid();
+  const otherStylistId = generateUuid();
+  const adminId = generateUuid();
+  const dateTime = new Date('2026-11-02T14:00:00.000Z');
+
+  const admin = { id: adminId, role: 'ADMIN' as const };
+
+  const createUser = (id: string, isActive = true, preferences?: string): User =>
+    new User(
+      id,
+      generateUuid(),
+      'Test User',
+      `${id}@example.com`,
+      '+5491155551234',
+      'hash',
+      isActive,
+      undefined,
+      preferences,
+    );
+
+  const createAppointment = (overrides: Partial<{ stylistId: string; dateTime: Date }> = {}) =>
+    new Appointment(
+      generateUuid(),
+      overrides.dateTime ?? dateTime,
+      60,
+      clientId,
+      clientId,
+      generateUuid(),
+      generateUuid(),
+      overrides.stylistId ?? stylistId,
+      undefined,
+      [generateUuid()],
+    );
+
+  const recipients = () => mockCreateNotification.execute.mock.calls.map(([dto]) => dto.userId);
+
+  beforeEach(() => {
+    mockCreateNotification = {
+      execute: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<CreateNotification>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockImplementation(async (id: string) => createUser(id)),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    mockAppointmentRepository = {
+      findById: jest.fn(),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    subscriber = new NotificationEventSubscriber(
+      mockCreateNotification,
+      mockUserRepository,
+      mockAppointmentRepository,
+    );
+  });
+
+  describe('register', () => {
+    // Debería crear las notificaciones al publicarse los eventos en el bus
+    it('should subscribe the handlers to the event bus', async () => {
+      const eventBus = new EventBus();
+      subscriber.register(eventBus);
+
+      await eventBus.publish(new AppointmentConfirmedEvent(createAppointment(), admin));
+
+      expect(recipients()).toEqual([clientId, stylistId]);
+    });
+  });
+
+  describe('Appointment events', () => {
+    // Debería notificar la confirmación al cliente y al estilista
+    it('should notify client and stylist when an appointment is confirmed', async () => {
+      await subscriber.onAppointmentConfirmed(
+        new AppointmentConfirmedEvent(createAppointment(), admin),
+      );
+
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_CONFIRMATION,
+        message: 'Your appointment on 2026-11-02 at 14:00 has been confirmed.',
+        userId: clientId,
+      });
+      expect(recipients()).toEqual([clientId, stylistId]);
+    });
+
+    // No debería notificar a quien ejecutó la acción
+    it('should not notify the actor of the change', async () => {
+      await subscriber.onAppointmentCancelled(
+        new AppointmentCancelledEvent(
+          createAppointment(),
+          { id: clientId, role: 'CLIENT' },
+          'Schedule conflict',
+        ),
+      );
+
+      expect(mockCreateNotification.execute).toHaveBeenCalledTimes(1);
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_CANCELLATION,
+        message:
+          'The appointment on 2026-11-02 at 14:00 assigned to you has been cancelled. Reason: Schedule conflict',
+        userId: stylistId,
+      });
+    });
+
+    // No debería notificar a usuarios desactivados
+    it('should skip inactive recipients', async () => {
+      mockUserRepository.findById.mockImplementation(async (id: string) =>
+        createUser(id, id !== stylistId),
+      );
+
+      await subscriber.onAppointmentCancelled(
+        new AppointmentCancelledEvent(createAppointment(), admin),
+      );
+
+      expect(recipients()).toEqual([clientId]);
+    });
+
+    // No debería notificar a quienes desactivaron ese tipo de notificación
+    it('should skip recipients who opted out of the notification type', async () => {
+      mockUserRepository.findById.mockImplementation(async (id: string) =>
+        createUser(
+          id,
+          true,
+          id === clientId
+            ? JSON.stringify({ notificationTypes: { APPOINTMENT_CANCELLATION: false } })
+            : undefined,
+        ),
+      );
+
+      await subscriber.onAppointmentCancelled(
+        new AppointmentCancelledEvent(createAppointment(), admin),
+      );
+
+      expect(recipients()).toEqual([stylistId]);
+    });
+
+    // Debería generar el mensaje en el idioma preferido del destinatario
+    it('should write the message in the preferred language of the recipient', async () => {
+      mockUserRepository.findById.mockImplementation(async (id: string) =>
+        createUser(id, true, JSON.stringify({ language: 'es' })),
+      );
+
+      await subscriber.onAppointmentCancelled(
+        new AppointmentCancelledEvent(createAppointment(), admin, 'Schedule conflict'),
+      );
+
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_CANCELLATION,
+        message: 'Tu cita del 2026-11-02 a las 14:00 fue cancelada. Motivo: Schedule conflict',
+        userId: clientId,
+      });
+    });
+
+    // Debería avisar al estilista anterior y al nuevo cuando cambia el estilista
+    it('should notify previous and new stylist when the stylist changes', async () => {
+      const event = new AppointmentRescheduledEvent(
+        createAppointment({ dateTime: new Date('2026-11-03T15:30:00.000Z') }),
+        admin,
+        dateTime,
+        otherStylistId,
+      );
+
+      await subscriber.onAppointmentRescheduled(event);
+
+      expect(recipients()).toEqual([clientId, otherStylistId, stylistId]);
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_RESCHEDULED,
+        message:
+          'Your appointment on 2026-11-02 at 14:00 was moved to 2026-11-03 at 15:30 with a different stylist.',
+        userId: clientId,
+      });
+    });
+
+    // Debería avisar al mismo estilista del cambio de horario
+    it('should notify the same stylist about the new time', async () => {
+      const event = new AppointmentRescheduledEvent(
+        createAppointment({ dateTime: new Date('2026-11-03T15:30:00.000Z') }),
+        admin,
+        dateTime,
+        stylistId,
+      );
+
+      await subscriber.onAppointmentRescheduled(event);
+
+      expect(recipients()).toEqual([clientId, stylistId]);
+      expect(mockCreateNotification.execute).toHaveBeenLastCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_RESCHEDULED,
+        message:
+          'The appointment on 2026-11-02 at 14:00 assigned to you was moved to 2026-11-03 at 15:30.',
+        userId: stylistId,
+      });
+    });
+  });
+
+  describe('Payment events', () => {
+    // Debería notificar el reembolso al cliente de la cita
+    it('should notify the client of the appointment about the refund', async () => {
+      const appointment = createAppointment();
+      mockAppointmentRepository.findById.mockResolvedValue(appointment);
+
+      await subscriber.onPaymentRefunded(
+        new PaymentRefundedEvent(generateUuid(), appointment.id, 150, 'Service not provided'),
+      );
+
+      expect(mockAppointmentRepository.findById).toHaveBeenCalledWith(appointment.id);
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.SYSTEM,
+        message: 'Your payment of 150.00 has been refunded. Reason: Service not provided',
+        userId: clientId,
+      });
+    });
+
+    // Sin cita asociada no hay a quién notificar
+    it('should not notify when the appointment no longer exists', async () => {
+      mockAppointmentRepository.findById.mockResolvedValue(null);
+
+      await subscriber.onPaymentRefunded(
+        new PaymentRefundedEvent(generateUuid(), generateUuid(), 150),
+      );
+
+      expect(mockCreateNotification.execute).not.toHaveBeenCalled();
+    });
+  });
+});
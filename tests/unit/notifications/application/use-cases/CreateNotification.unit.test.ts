@@ -5,8 +5,10 @@ import { Notification, NotificationTypeEnum } from '../../../../../src/modules/n
 import { NotificationStatus, NotificationStatusEnum } from '../../../../../src/modules/notifications/domain/entities/NotificationStatus';
 import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
 import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
 import { generateUuid } from '../../../../../src/shared/utils/uuid';
 import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { User } from '../../../../../src/modules/auth/domain/entities/User';
 
 describe('CreateNotification Use Case', () => {
   let useCase: CreateNotification;
@@ -23,6 +25,19 @@ describe('CreateNotification Use Case', () => {
     userId: validUserId,
   };
 
+  const createUser = (preferences?: string): User =>
+    new User(
+      validUserId,
+      generateUuid(),
+      'Test User',
+      'test@example.com',
+      '+5491155551234',
+      'hash',
+      true,
+      undefined,
+      preferences,
+    );
+
   const mockPendingStatus = NotificationStatus.fromPersistence(
     validStatusId,
     NotificationStatusEnum.PENDING,
@@ -38,11 +53,13 @@ describe('CreateNotification Use Case', () => {
       findByUserIdAndStatus: jest.fn(),
       findByUserIdAndType: jest.fn(),
       countUnreadByUserId: jest.fn(),
+      findByStatusId: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
       saveMany: jest.fn(),
       update: jest.fn(),
       updateManyStatus: jest.fn(),
+      resetDeliveryAttempts: jest.fn(),
       delete: jest.fn(),
       deleteByUserId: jest.fn(),
       existsById: jest.fn(),
@@ -65,7 +82,7 @@ describe('CreateNotification Use Case', () => {
     };
 
     mockUserRepository = {
-      findById: jest.fn().mockResolvedValue({ id: validUserId, name: 'Test User' }),
+      findById: jest.fn().mockResolvedValue(createUser()),
     };
 
     useCase = new CreateNotification(
@@ -301,6 +318,20 @@ describe('CreateNotification Use Case', () => {
       await expect(useCase.execute(validCreateDto)).rejects.toThrow(NotFoundError);
       expect(mockNotificationRepository.save).not.toHaveBeenCalled();
     });
+
+    // Debería lanzar BusinessRuleError si el destinatario desactivó ese tipo de notificación
+    it('should throw BusinessRuleError if the user opted out of the notification type', async () => {
+      // Arrange
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(JSON.stringify({ notificationTypes: { PROMOTIONAL: false } })),
+      );
+
+      // Act & Assert
+      await expect(
+        useCase.execute({ ...validCreateDto, type: NotificationTypeEnum.PROMOTIONAL }),
+      ).rejects.toThrow(BusinessRuleError);
+      expect(mockNotificationRepository.save).not.toHaveBeenCalled();
+    });
   });
 
   describe('Error Handling', () => {
@@ -0,0 +1,331 @@
+import { DispatchPendingNotifications } from '../../../../../src/modules/notifications/application/use-cases/DispatchPendingNotifications';
+import { NotificationChannel } from '../../../../../src/modules/notifications/application/services/NotificationChannel';
+import {
+  Notification,
+  NotificationChannelEnum,
+  NotificationTypeEnum,
+} from '../../../../../src/modules/notifications/domain/entities/Notification';
+import {
+  NotificationStatus,
+  NotificationStatusEnum,
+} from '../../../../../src/modules/notifications/domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationStatusRepository';
+import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { User } from '../../../../../src/modules/auth/domain/entities/User';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('DispatchPendingNotifications Use Case', () => {
+  let useCase: DispatchPendingNotifications;
+  let mockNotificationRepository: jest.Mocked<INotificationRepository>;
+  let mockNotificationStatusRepository: jest.Mocked<INotificationStatusRepository>;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockEmailChannel: jest.Mocked<NotificationChannel>;
+
+  const statuses = Object.values(NotificationStatusEnum).map(
+    (name) => new NotificationStatus(generateUuid(), name),
+  );
+  const statusId = (name: NotificationStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const userId = generateUuid();
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const minutesFromNow = (minutes: number): Date => new Date(now.getTime() + minutes * 60000);
+
+  const createPendingNotification = (): Notification =>
+    Notification.create(
+      NotificationTypeEnum.APPOINTMENT_CONFIRMATION,
+      'Your appointment on 2026-11-02 at 14:00 has been confirmed.',
+      userId,
+      statusId(NotificationStatusEnum.PENDING),
+    );
+
+  const createUser = (isActive = true, preferences?: string): User =>
+    new User(
+      userId,
+      generateUuid(),
+      'Ana Client',
+      'ana@example.com',
+      '+5491155551234',
+      'hash',
+      isActive,
+      undefined,
+      preferences,
+    );
+
+  beforeEach(() => {
+    mockNotificationRepository = {
+      findByStatusId: jest.fn().mockResolvedValue([]),
+      update: jest.fn().mockImplementation(async (notification: Notification) => notification),
+    } as unknown as jest.Mocked<INotificationRepository>;
+
+    mockNotificationStatusRepository = {
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<INotificationStatusRepository>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockResolvedValue(createUser()),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    mockEmailChannel = {
+      channel: NotificationChannelEnum.EMAIL,
+      send: jest.fn().mockResolvedValue(undefined),
+    };
+
+    useCase = new DispatchPendingNotifications(
+      mockNotificationRepository,
+      mockNotificationStatusRepository,
+      mockUserRepository,
+      [mockEmailChannel],
+      3,
+      5,
+      10,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería entregar las pendientes más antiguas y pasarlas a SENT con fecha de envío
+    it('should deliver pending notifications and mark them as sent', async () => {
+      const notification = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+
+      const result = await useCase.execute(now);
+
+      expect(mockNotificationRepository.findByStatusId).toHaveBeenCalledWith(
+        statusId(NotificationStatusEnum.PENDING),
+        10,
+        now,
+      );
+      expect(mockEmailChannel.send).toHaveBeenCalledWith({
+        notificationId: notification.id,
+        type: NotificationTypeEnum.APPOINTMENT_CONFIRMATION,
+        subject: 'Your appointment is confirmed',
+        body: notification.message,
+        recipient: { userId, name: 'Ana Client', email: 'ana@example.com' },
+      });
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+      expect(notification.isSent()).toBe(true);
+      expect(mockNotificationRepository.update).toHaveBeenCalledWith(notification);
+      expect(result.sentCount).toBe(1);
+      expect(result.failedCount).toBe(0);
+    });
+
+    // Si ningún canal la entregó, debería quedar PENDING con el error y un reintento programado
+    it('should keep pending and schedule a retry a notification no channel could deliver', async () => {
+      const failing = createPendingNotification();
+      const delivered = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([failing, delivered]);
+      mockEmailChannel.send.mockRejectedValueOnce(new Error('SMTP connection refused'));
+
+      const result = await useCase.execute(now);
+
+      expect(failing.statusId).toBe(statusId(NotificationStatusEnum.PENDING));
+      expect(failing.isSent()).toBe(false);
+      expect(failing.attempts).toBe(1);
+      expect(failing.lastError).toBe('EMAIL: SMTP connection refused');
+      expect(failing.nextAttemptAt).toEqual(minutesFromNow(5));
+      expect(delivered.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+      expect(result.sentCount).toBe(1);
+      expect(result.retriedCount).toBe(1);
+      expect(result.failedCount).toBe(0);
+    });
+
+    // Cada reintento debería esperar el doble que el anterior
+    it('should double the wait before each further retry', async () => {
+      const notification = Notification.fromPersistence({
+        ...createPendingNotification().toPersistence(),
+        attempts: 1,
+        lastError: 'EMAIL: SMTP connection refused',
+      });
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockEmailChannel.send.mockRejectedValueOnce(new Error('Mailbox unavailable'));
+
+      await useCase.execute(now);
+
+      expect(notification.attempts).toBe(2);
+      expect(notification.lastError).toBe('EMAIL: Mailbox unavailable');
+      expect(notification.nextAttemptAt).toEqual(minutesFromNow(10));
+    });
+
+    // Al agotar los intentos debería pasar a FAILED conservando el último error
+    it('should mark as failed with the last error once attempts are exhausted', async () => {
+      const notification = Notification.fromPersistence({
+        ...createPendingNotification().toPersistence(),
+        attempts: 2,
+      });
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockEmailChannel.send.mockRejectedValueOnce(new Error('SMTP connection refused'));
+
+      const result = await useCase.execute(now);
+
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.FAILED));
+      expect(notification.attempts).toBe(3);
+      expect(notification.lastError).toBe('EMAIL: SMTP connection refused');
+      expect(notification.nextAttemptAt).toBeUndefined();
+      expect(mockNotificationRepository.update).toHaveBeenCalledWith(notification);
+      expect(result.failedCount).toBe(1);
+      expect(result.retriedCount).toBe(0);
+    });
+
+    // Basta con que un canal la entregue para pasarla a SENT
+    it('should mark as sent when at least one channel delivered it', async () => {
+      const fallbackChannel: jest.Mocked<NotificationChannel> = {
+        channel: NotificationChannelEnum.EMAIL,
+        send: jest.fn().mockResolvedValue(undefined),
+      };
+      useCase = new DispatchPendingNotifications(
+        mockNotificationRepository,
+        mockNotificationStatusRepository,
+        mockUserRepository,
+        [mockEmailChannel, fallbackChannel],
+      );
+      const notification = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockEmailChannel.send.mockRejectedValueOnce(new Error('SMTP connection refused'));
+
+      await useCase.execute(now);
+
+      expect(fallbackChannel.send).toHaveBeenCalledTimes(1);
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+    });
+
+    // No debería entregar a destinatarios desactivados ni reintentarlo
+    it('should mark as failed without retrying when the recipient is inactive', async () => {
+      const notification = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockUserRepository.findById.mockResolvedValue(createUser(false));
+
+      const result = await useCase.execute(now);
+
+      expect(mockEmailChannel.send).not.toHaveBeenCalled();
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.FAILED));
+      expect(notification.attempts).toBe(1);
+      expect(notification.lastError).toBe('Recipient not found or inactive');
+      expect(result.failedCount).toBe(1);
+    });
+  });
+
+  describe('Error Handling', () => {
+    // Un error al leer el destinatario no debería detener el resto de la ejecución
+    it('should keep dispatching the batch when the recipient lookup fails', async () => {
+      const broken = createPendingNotification();
+      const healthy = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([broken, healthy]);
+      mockUserRepository.findById.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const result = await useCase.execute(now);
+
+      expect(broken.statusId).toBe(statusId(NotificationStatusEnum.PENDING));
+      expect(mockNotificationRepository.update).not.toHaveBeenCalledWith(broken);
+      expect(healthy.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+      expect(mockNotificationRepository.update).toHaveBeenCalledWith(healthy);
+      expect(result.sentCount).toBe(1);
+    });
+
+    // Un error al guardar una notificación tampoco debería detener la ejecución
+    it('should keep dispatching the batch when a notification cannot be saved', async () => {
+      const first = createPendingNotification();
+      const second = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([first, second]);
+      mockNotificationRepository.update.mockRejectedValueOnce(new Error('Deadlock detected'));
+
+      const result = await useCase.execute(now);
+
+      expect(mockEmailChannel.send).toHaveBeenCalledTimes(2);
+      expect(mockNotificationRepository.update).toHaveBeenCalledWith(second);
+      expect(result.sentCount).toBe(1);
+    });
+  });
+
+  describe('Recipient Preferences', () => {
+    // Debería omitirla (SENT sin fecha de envío) si el destinatario no quiere ese tipo
+    it('should skip it without a send date when the recipient opted out of the type', async () => {
+      const notification = Notification.create(
+        NotificationTypeEnum.PROMOTIONAL,
+        'Two-for-one haircuts this weekend.',
+        userId,
+        statusId(NotificationStatusEnum.PENDING),
+      );
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(true, JSON.stringify({ notificationTypes: { PROMOTIONAL: false } })),
+      );
+
+      const result = await useCase.execute(now);
+
+      expect(mockEmailChannel.send).not.toHaveBeenCalled();
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+      expect(notification.isSent()).toBe(false);
+      expect(notification.attempts).toBe(0);
+      expect(result.skippedCount).toBe(1);
+      expect(result.sentCount).toBe(0);
+    });
+
+    // Tampoco debería entregarla si el destinatario desactivó todos los canales
+    it('should not deliver through channels the recipient disabled', async () => {
+      const notification = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(true, JSON.stringify({ notificationChannels: { EMAIL: false } })),
+      );
+
+      const result = await useCase.execute(now);
+
+      expect(mockEmailChannel.send).not.toHaveBeenCalled();
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+      expect(notification.isSent()).toBe(false);
+      expect(result.skippedCount).toBe(1);
+    });
+
+    // Debería postergarla hasta el fin de la franja de silencio sin contar un intento
+    it('should defer delivery until quiet hours end without counting an attempt', async () => {
+      const notification = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(true, JSON.stringify({ quietHours: { start: '11:00', end: '13:30' } })),
+      );
+
+      const result = await useCase.execute(now);
+
+      expect(mockEmailChannel.send).not.toHaveBeenCalled();
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.PENDING));
+      expect(notification.attempts).toBe(0);
+      expect(notification.nextAttemptAt).toEqual(minutesFromNow(90));
+      expect(mockNotificationRepository.update).toHaveBeenCalledWith(notification);
+      expect(result.deferredCount).toBe(1);
+    });
+
+    // Debería usar el asunto en el idioma preferido del destinatario
+    it('should use the subject in the preferred language of the recipient', async () => {
+      const notification = createPendingNotification();
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(true, JSON.stringify({ language: 'es' })),
+      );
+
+      await useCase.execute(now);
+
+      expect(mockEmailChannel.send).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Tu cita está confirmada' }),
+      );
+      expect(notification.statusId).toBe(statusId(NotificationStatusEnum.SENT));
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería lanzar NotFoundError si falta el estado SENT
+    it('should throw NotFoundError when a notification status is missing', async () => {
+      mockNotificationStatusRepository.findByName.mockImplementation(async (name: string) =>
+        name === NotificationStatusEnum.SENT
+          ? null
+          : (statuses.find((s) => s.name === name) ?? null),
+      );
+
+      await expect(useCase.execute(now)).rejects.toThrow(NotFoundError);
+      expect(mockEmailChannel.send).not.toHaveBeenCalled();
+    });
+  });
+});
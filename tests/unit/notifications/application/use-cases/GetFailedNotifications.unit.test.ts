@@ -0,0 +1,113 @@
+import { GetFailedNotifications } from '../../../../../src/modules/notifications/application/use-cases/GetFailedNotifications';
+import {
+  Notification,
+  NotificationTypeEnum,
+} from '../../../../../src/modules/notifications/domain/entities/Notification';
+import {
+  NotificationStatus,
+  NotificationStatusEnum,
+} from '../../../../../src/modules/notifications/domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationStatusRepository';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('GetFailedNotifications Use Case', () => {
+  let useCase: GetFailedNotifications;
+  let mockNotificationRepository: jest.Mocked<INotificationRepository>;
+  let mockNotificationStatusRepository: jest.Mocked<INotificationStatusRepository>;
+
+  const failedStatus = new NotificationStatus(generateUuid(), NotificationStatusEnum.FAILED);
+  const userId = generateUuid();
+
+  const createFailedNotification = (createdAt: Date): Notification =>
+    Notification.fromPersistence({
+      id: generateUuid(),
+      type: NotificationTypeEnum.APPOINTMENT_REMINDER,
+      message: 'Reminder: you have an appointment on 2026-10-20 at 11:00.',
+      userId,
+      statusId: failedStatus.id,
+      sentAt: null,
+      createdAt,
+      attempts: 5,
+      lastError: 'EMAIL: SMTP connection refused',
+      nextAttemptAt: null,
+    });
+
+  beforeEach(() => {
+    mockNotificationRepository = {
+      findByStatusId: jest.fn().mockResolvedValue([]),
+      findByUserIdAndStatus: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<INotificationRepository>;
+
+    mockNotificationStatusRepository = {
+      findByName: jest.fn().mockResolvedValue(failedStatus),
+    } as unknown as jest.Mocked<INotificationStatusRepository>;
+
+    useCase = new GetFailedNotifications(
+      mockNotificationRepository,
+      mockNotificationStatusRepository,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería listar las FAILED de todos los usuarios con sus intentos y el último error
+    it('should list failed notifications with attempts and last error', async () => {
+      const notification = createFailedNotification(new Date('2026-10-19T10:00:00.000Z'));
+      mockNotificationRepository.findByStatusId.mockResolvedValue([notification]);
+
+      const result = await useCase.execute();
+
+      expect(mockNotificationStatusRepository.findByName).toHaveBeenCalledWith(
+        NotificationStatusEnum.FAILED,
+      );
+      expect(mockNotificationRepository.findByStatusId).toHaveBeenCalledWith(failedStatus.id, 50);
+      expect(result).toEqual([
+        expect.objectContaining({
+          id: notification.id,
+          userId,
+          attempts: 5,
+          lastError: 'EMAIL: SMTP connection refused',
+        }),
+      ]);
+    });
+
+    // Con userId debería listar solo las de ese usuario, de la más antigua a la más nueva
+    it('should list the failed notifications of a user oldest first up to the limit', async () => {
+      const newest = createFailedNotification(new Date('2026-10-19T11:00:00.000Z'));
+      const oldest = createFailedNotification(new Date('2026-10-19T09:00:00.000Z'));
+      const middle = createFailedNotification(new Date('2026-10-19T10:00:00.000Z'));
+      mockNotificationRepository.findByUserIdAndStatus.mockResolvedValue([newest, middle, oldest]);
+
+      const result = await useCase.execute({ userId, limit: 2 });
+
+      expect(mockNotificationRepository.findByUserIdAndStatus).toHaveBeenCalledWith(
+        userId,
+        failedStatus.id,
+      );
+      expect(mockNotificationRepository.findByStatusId).not.toHaveBeenCalled();
+      expect(result.map((n) => n.id)).toEqual([oldest.id, middle.id]);
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería rechazar un userId inválido
+    it('should throw ValidationError for an invalid user ID', async () => {
+      await expect(useCase.execute({ userId: 'invalid-uuid' })).rejects.toThrow(ValidationError);
+    });
+
+    // Debería rechazar un límite fuera de rango
+    it('should throw ValidationError for a limit out of range', async () => {
+      await expect(useCase.execute({ limit: 0 })).rejects.toThrow(ValidationError);
+      await expect(useCase.execute({ limit: 101 })).rejects.toThrow(ValidationError);
+    });
+
+    // Debería lanzar NotFoundError si no existe el estado FAILED
+    it('should throw NotFoundError when the FAILED status does not exist', async () => {
+      mockNotificationStatusRepository.findByName.mockResolvedValue(null);
+
+      await expect(useCase.execute()).rejects.toThrow(NotFoundError);
+    });
+  });
+});
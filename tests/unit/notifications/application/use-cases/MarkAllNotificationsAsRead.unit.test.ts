@@ -28,11 +28,13 @@ describe('MarkAllNotificationsAsRead Use Case (F10)', () => {
       findByUserIdAndStatus: jest.fn(),
       findByUserIdAndType: jest.fn(),
       countUnreadByUserId: jest.fn(),
+      findByStatusId: jest.fn(),
       findAll: jest.fn(),
       save: jest.fn(),
       saveMany: jest.fn(),
       update: jest.fn(),
       updateManyStatus: jest.fn(),
+      resetDeliveryAttempts: jest.fn(),
       delete: jest.fn(),
       deleteByUserId: jest.fn(),
       existsById: jest.fn(),
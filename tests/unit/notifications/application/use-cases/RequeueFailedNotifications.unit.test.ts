@@ -0,0 +1,153 @@
+import { RequeueFailedNotifications } from '../../../../../src/modules/notifications/application/use-cases/RequeueFailedNotifications';
+import {
+  Notification,
+  NotificationTypeEnum,
+} from '../../../../../src/modules/notifications/domain/entities/Notification';
+import {
+  NotificationStatus,
+  NotificationStatusEnum,
+} from '../../../../../src/modules/notifications/domain/entities/NotificationStatus';
+import { INotificationRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationRepository';
+import { INotificationStatusRepository } from '../../../../../src/modules/notifications/domain/repositories/INotificationStatusRepository';
+import { ValidationError } from '../../../../../src/shared/exceptions/ValidationError';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('RequeueFailedNotifications Use Case', () => {
+  let useCase: RequeueFailedNotifications;
+  let mockNotificationRepository: jest.Mocked<INotificationRepository>;
+  let mockNotificationStatusRepository: jest.Mocked<INotificationStatusRepository>;
+
+  const statuses = Object.values(NotificationStatusEnum).map(
+    (name) => new NotificationStatus(generateUuid(), name),
+  );
+  const statusId = (name: NotificationStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const userId = generateUuid();
+
+  const createNotification = (
+    status: NotificationStatusEnum = NotificationStatusEnum.FAILED,
+  ): Notification =>
+    Notification.fromPersistence({
+      id: generateUuid(),
+      type: NotificationTypeEnum.APPOINTMENT_CONFIRMATION,
+      message: 'Your appointment on 2026-11-02 at 14:00 has been confirmed.',
+      userId,
+      statusId: statusId(status),
+      sentAt: null,
+      createdAt: new Date('2026-10-19T10:00:00.000Z'),
+      attempts: 5,
+      lastError: 'EMAIL: SMTP connection refused',
+      nextAttemptAt: null,
+    });
+
+  beforeEach(() => {
+    mockNotificationRepository = {
+      findById: jest.fn().mockResolvedValue(null),
+      findByUserIdAndStatus: jest.fn().mockResolvedValue([]),
+      resetDeliveryAttempts: jest.fn().mockImplementation(async (ids: string[]) => ids.length),
+      updateManyStatus: jest.fn().mockImplementation(async (ids: string[]) => ids.length),
+    } as unknown as jest.Mocked<INotificationRepository>;
+
+    mockNotificationStatusRepository = {
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<INotificationStatusRepository>;
+
+    useCase = new RequeueFailedNotifications(
+      mockNotificationRepository,
+      mockNotificationStatusRepository,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería reiniciar los intentos y devolver a PENDING las notificaciones indicadas
+    it('should reset attempts and move the given notifications back to pending', async () => {
+      const first = createNotification();
+      const second = createNotification();
+      mockNotificationRepository.findById.mockImplementation(
+        async (id: string) => [first, second].find((n) => n.id === id) ?? null,
+      );
+
+      const result = await useCase.execute({ notificationIds: [first.id, second.id] });
+
+      expect(mockNotificationRepository.resetDeliveryAttempts).toHaveBeenCalledWith([
+        first.id,
+        second.id,
+      ]);
+      expect(mockNotificationRepository.updateManyStatus).toHaveBeenCalledWith(
+        [first.id, second.id],
+        statusId(NotificationStatusEnum.PENDING),
+      );
+      expect(
+        mockNotificationRepository.resetDeliveryAttempts.mock.invocationCallOrder[0],
+      ).toBeLessThan(mockNotificationRepository.updateManyStatus.mock.invocationCallOrder[0]);
+      expect(result).toEqual({ requeuedCount: 2 });
+    });
+
+    // Con userId debería reencolar todas las FAILED de ese usuario, sin repetir las indicadas
+    it('should requeue every failed notification of a user without duplicates', async () => {
+      const given = createNotification();
+      const other = createNotification();
+      mockNotificationRepository.findById.mockResolvedValue(given);
+      mockNotificationRepository.findByUserIdAndStatus.mockResolvedValue([given, other]);
+
+      const result = await useCase.execute({ notificationIds: [given.id], userId });
+
+      expect(mockNotificationRepository.findByUserIdAndStatus).toHaveBeenCalledWith(
+        userId,
+        statusId(NotificationStatusEnum.FAILED),
+      );
+      expect(mockNotificationRepository.updateManyStatus).toHaveBeenCalledWith(
+        [given.id, other.id],
+        statusId(NotificationStatusEnum.PENDING),
+      );
+      expect(result).toEqual({ requeuedCount: 2 });
+    });
+
+    // Si el usuario no tiene notificaciones FAILED no debería actualizar nada
+    it('should return zero when the user has no failed notifications', async () => {
+      const result = await useCase.execute({ userId });
+
+      expect(mockNotificationRepository.resetDeliveryAttempts).not.toHaveBeenCalled();
+      expect(mockNotificationRepository.updateManyStatus).not.toHaveBeenCalled();
+      expect(result).toEqual({ requeuedCount: 0 });
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería exigir notificationIds o userId
+    it('should throw ValidationError when neither notification IDs nor user ID are given', async () => {
+      await expect(useCase.execute({ notificationIds: [] })).rejects.toThrow(ValidationError);
+    });
+
+    // Debería rechazar IDs inválidos
+    it('should throw ValidationError for an invalid notification ID', async () => {
+      await expect(useCase.execute({ notificationIds: ['invalid-uuid'] })).rejects.toThrow(
+        ValidationError,
+      );
+    });
+
+    // Debería lanzar NotFoundError si alguna notificación no existe
+    it('should throw NotFoundError when a notification does not exist', async () => {
+      await expect(useCase.execute({ notificationIds: [generateUuid()] })).rejects.toThrow(
+        NotFoundError,
+      );
+      expect(mockNotificationRepository.updateManyStatus).not.toHaveBeenCalled();
+    });
+
+    // No debería reencolar una notificación que no está FAILED
+    it('should throw BusinessRuleError when a notification is not failed', async () => {
+      const sent = createNotification(NotificationStatusEnum.SENT);
+      mockNotificationRepository.findById.mockResolvedValue(sent);
+
+      await expect(useCase.execute({ notificationIds: [sent.id] })).rejects.toThrow(
+        BusinessRuleError,
+      );
+      expect(mockNotificationRepository.resetDeliveryAttempts).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,292 @@
+import { SendAppointmentReminders } from '../../../../../src/modules/notifications/application/use-cases/SendAppointmentReminders';
+import { CreateNotification } from '../../../../../src/modules/notifications/application/use-cases/CreateNotification';
+import { AppointmentReminder } from '../../../../../src/modules/notifications/domain/entities/AppointmentReminder';
+import { NotificationTypeEnum } from '../../../../../src/modules/notifications/domain/entities/Notification';
+import { IAppointmentReminderRepository } from '../../../../../src/modules/notifications/domain/repositories/IAppointmentReminderRepository';
+import { IAppointmentRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentRepository';
+import { IAppointmentStatusRepository } from '../../../../../src/modules/appointments/domain/repositories/IAppointmentStatusRepository';
+import { Appointment } from '../../../../../src/modules/appointments/domain/entities/Appointment';
+import {
+  AppointmentStatus,
+  AppointmentStatusEnum,
+} from '../../../../../src/modules/appointments/domain/entities/AppointmentStatus';
+import { IUserRepository } from '../../../../../src/modules/auth/domain/repositories/IUserRepository';
+import { User } from '../../../../../src/modules/auth/domain/entities/User';
+import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
+import { generateUuid } from '../../../../../src/shared/utils/uuid';
+
+describe('SendAppointmentReminders Use Case', () => {
+  let useCase: SendAppointmentReminders;
+  let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
+  let mockAppointmentStatusRepository: jest.Mocked<IAppointmentStatusRepository>;
+  let mockAppointmentReminderRepository: jest.Mocked<IAppointmentReminderRepository>;
+  let mockUserRepository: jest.Mocked<IUserRepository>;
+  let mockCreateNotification: jest.Mocked<CreateNotification>;
+
+  const now = new Date('2026-10-19T12:00:00.000Z');
+  const offsets = [1440, 120];
+  const clientId = generateUuid();
+
+  const statuses = Object.values(AppointmentStatusEnum).map(
+    (name) => new AppointmentStatus(generateUuid(), name),
+  );
+  const statusId = (name: AppointmentStatusEnum): string =>
+    statuses.find((status) => status.name === name)!.id;
+
+  const minutesFromNow = (minutes: number): Date => new Date(now.getTime() + minutes * 60000);
+
+  const createMockAppointment = (
+    dateTime: Date,
+    status: AppointmentStatusEnum = AppointmentStatusEnum.CONFIRMED,
+    createdAt: Date = minutesFromNow(-7 * 24 * 60),
+  ): Appointment =>
+    new Appointment(
+      generateUuid(),
+      dateTime,
+      60,
+      clientId,
+      clientId,
+      generateUuid(),
+      statusId(status),
+      generateUuid(),
+      undefined,
+      [generateUuid()],
+      createdAt,
+    );
+
+  const createUser = (id: string, isActive = true, preferences?: string): User =>
+    new User(
+      id,
+      generateUuid(),
+      'Client',
+      'client@example.com',
+      '+5491155551234',
+      'hash',
+      isActive,
+      undefined,
+      preferences,
+    );
+
+  const claimedOffsets = (): number[] =>
+    mockAppointmentReminderRepository.claim.mock.calls.map(([reminder]) => reminder.offsetMinutes);
+
+  beforeEach(() => {
+    mockAppointmentRepository = {
+      findByDateRange: jest.fn().mockResolvedValue([]),
+    } as unknown as jest.Mocked<IAppointmentRepository>;
+
+    mockAppointmentStatusRepository = {
+      findByName: jest
+        .fn()
+        .mockImplementation(async (name: string) => statuses.find((s) => s.name === name) ?? null),
+    } as unknown as jest.Mocked<IAppointmentStatusRepository>;
+
+    mockAppointmentReminderRepository = {
+      findByAppointmentIds: jest.fn().mockResolvedValue([]),
+      claim: jest.fn().mockResolvedValue(true),
+      delete: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<IAppointmentReminderRepository>;
+
+    mockUserRepository = {
+      findById: jest.fn().mockImplementation(async (id: string) => createUser(id)),
+    } as unknown as jest.Mocked<IUserRepository>;
+
+    mockCreateNotification = {
+      execute: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<CreateNotification>;
+
+    useCase = new SendAppointmentReminders(
+      mockAppointmentRepository,
+      mockAppointmentStatusRepository,
+      mockAppointmentReminderRepository,
+      mockUserRepository,
+      mockCreateNotification,
+      offsets,
+    );
+  });
+
+  describe('Successful Execution', () => {
+    // Debería buscar las citas dentro de la mayor anticipación y recordar la que cumplió 24h
+    it('should send the 24h reminder of an upcoming appointment', async () => {
+      const appointment = createMockAppointment(new Date('2026-10-20T11:00:00.000Z'));
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([appointment]);
+
+      const result = await useCase.execute(now);
+
+      expect(mockAppointmentRepository.findByDateRange).toHaveBeenCalledWith(
+        now,
+        minutesFromNow(1440),
+      );
+      expect(claimedOffsets()).toEqual([1440]);
+      expect(mockAppointmentReminderRepository.claim).toHaveBeenCalledWith(
+        expect.objectContaining({ appointmentId: appointment.id, dateTime: appointment.dateTime }),
+      );
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_REMINDER,
+        message: 'Reminder: you have an appointment on 2026-10-20 at 11:00.',
+        userId: clientId,
+      });
+      expect(result.sentCount).toBe(1);
+      expect(result.failedCount).toBe(0);
+    });
+
+    // No debería repetir un recordatorio ya enviado para el mismo horario
+    it('should not send a reminder that was already sent', async () => {
+      const appointment = createMockAppointment(minutesFromNow(600));
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([appointment]);
+      mockAppointmentReminderRepository.findByAppointmentIds.mockResolvedValue([
+        AppointmentReminder.create(appointment.id, appointment.dateTime, 1440),
+      ]);
+
+      const result = await useCase.execute(now);
+
+      expect(mockAppointmentReminderRepository.findByAppointmentIds).toHaveBeenCalledWith([
+        appointment.id,
+      ]);
+      expect(mockAppointmentReminderRepository.claim).not.toHaveBeenCalled();
+      expect(mockCreateNotification.execute).not.toHaveBeenCalled();
+      expect(result.sentCount).toBe(0);
+    });
+
+    // Si la cita se reprogramó, el recordatorio del horario anterior no cuenta
+    it('should remind again when the appointment was rescheduled', async () => {
+      const appointment = createMockAppointment(minutesFromNow(600));
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([appointment]);
+      mockAppointmentReminderRepository.findByAppointmentIds.mockResolvedValue([
+        AppointmentReminder.create(appointment.id, minutesFromNow(-600), 1440),
+      ]);
+
+      await useCase.execute(now);
+
+      expect(claimedOffsets()).toEqual([1440]);
+      expect(mockCreateNotification.execute).toHaveBeenCalledTimes(1);
+    });
+
+    // Con varios recordatorios cumplidos a la vez, debería enviar uno solo y registrarlos todos
+    it('should send a single notification when several offsets are due', async () => {
+      const appointment = createMockAppointment(minutesFromNow(60));
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([appointment]);
+
+      const result = await useCase.execute(now);
+
+      expect(claimedOffsets()).toEqual([120, 1440]);
+      expect(mockCreateNotification.execute).toHaveBeenCalledTimes(1);
+      expect(result.sentCount).toBe(1);
+    });
+
+    // No debería recordar con una anticipación mayor a la que había al reservar
+    it('should skip offsets that had already passed when the appointment was booked', async () => {
+      const appointment = createMockAppointment(
+        minutesFromNow(600),
+        AppointmentStatusEnum.PENDING,
+        minutesFromNow(-60),
+      );
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([appointment]);
+
+      const result = await useCase.execute(now);
+
+      expect(mockAppointmentReminderRepository.claim).not.toHaveBeenCalled();
+      expect(result.sentCount).toBe(0);
+    });
+
+    // Debería ignorar las citas canceladas y las que no son de un cliente activo
+    it('should skip cancelled appointments and inactive clients', async () => {
+      const cancelled = createMockAppointment(minutesFromNow(60), AppointmentStatusEnum.CANCELLED);
+      const inactiveClient = createMockAppointment(minutesFromNow(90));
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([cancelled, inactiveClient]);
+      mockUserRepository.findById.mockResolvedValue(createUser(clientId, false));
+
+      const result = await useCase.execute(now);
+
+      expect(mockUserRepository.findById).toHaveBeenCalledTimes(1);
+      expect(mockAppointmentReminderRepository.claim).not.toHaveBeenCalled();
+      expect(mockCreateNotification.execute).not.toHaveBeenCalled();
+      expect(result.sentCount).toBe(0);
+    });
+
+    // No debería recordar a clientes que desactivaron los recordatorios
+    it('should skip clients who opted out of appointment reminders', async () => {
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(minutesFromNow(90)),
+      ]);
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(
+          clientId,
+          true,
+          JSON.stringify({ notificationTypes: { APPOINTMENT_REMINDER: false } }),
+        ),
+      );
+
+      const result = await useCase.execute(now);
+
+      expect(mockAppointmentReminderRepository.claim).not.toHaveBeenCalled();
+      expect(mockCreateNotification.execute).not.toHaveBeenCalled();
+      expect(result.sentCount).toBe(0);
+    });
+
+    // Debería enviar el recordatorio en el idioma preferido del cliente
+    it('should write the reminder in the preferred language of the client', async () => {
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(new Date('2026-10-20T11:00:00.000Z')),
+      ]);
+      mockUserRepository.findById.mockResolvedValue(
+        createUser(clientId, true, JSON.stringify({ language: 'es' })),
+      );
+
+      await useCase.execute(now);
+
+      expect(mockCreateNotification.execute).toHaveBeenCalledWith({
+        type: NotificationTypeEnum.APPOINTMENT_REMINDER,
+        message: 'Recordatorio: tienes una cita el 2026-10-20 a las 11:00.',
+        userId: clientId,
+      });
+    });
+
+    // Si otra ejecución ya registró el recordatorio, no debería enviarlo de nuevo
+    it('should not notify when another run already claimed the reminder', async () => {
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([
+        createMockAppointment(minutesFromNow(60)),
+      ]);
+      mockAppointmentReminderRepository.claim.mockResolvedValueOnce(false);
+
+      const result = await useCase.execute(now);
+
+      expect(mockAppointmentReminderRepository.claim).toHaveBeenCalledTimes(1);
+      expect(mockCreateNotification.execute).not.toHaveBeenCalled();
+      expect(result.sentCount).toBe(0);
+    });
+
+    // Si falla el envío, debería liberar los registros para reintentarlo y seguir con las demás
+    it('should release the claims of a failed reminder and keep going', async () => {
+      const failing = createMockAppointment(minutesFromNow(60));
+      const other = createMockAppointment(minutesFromNow(90));
+      mockAppointmentRepository.findByDateRange.mockResolvedValue([failing, other]);
+      mockCreateNotification.execute.mockRejectedValueOnce(new Error('Database unavailable'));
+
+      const result = await useCase.execute(now);
+
+      const failedClaims = mockAppointmentReminderRepository.claim.mock.calls
+        .map(([reminder]) => reminder)
+        .filter((reminder) => reminder.appointmentId === failing.id);
+      expect(mockAppointmentReminderRepository.delete).toHaveBeenCalledTimes(2);
+      expect(mockAppointmentReminderRepository.delete).toHaveBeenCalledWith(failedClaims[0].id);
+      expect(mockAppointmentReminderRepository.delete).toHaveBeenCalledWith(failedClaims[1].id);
+      expect(result.sentCount).toBe(1);
+      expect(result.failedCount).toBe(1);
+    });
+  });
+
+  describe('Validation', () => {
+    // Debería lanzar NotFoundError si falta el estado CONFIRMED
+    it('should throw NotFoundError when an appointment status is missing', async () => {
+      mockAppointmentStatusRepository.findByName.mockImplementation(async (name: string) =>
+        name === AppointmentStatusEnum.CONFIRMED
+          ? null
+          : (statuses.find((s) => s.name === name) ?? null),
+      );
+
+      await expect(useCase.execute(now)).rejects.toThrow(NotFoundError);
+      expect(mockCreateNotification.execute).not.toHaveBeenCalled();
+    });
+  });
+});
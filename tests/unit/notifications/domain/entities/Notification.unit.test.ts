@@ -255,6 +255,49 @@ describe('Notification Entity', () => {
       });
     });
 
+    describe('Mark as Skipped', () => {
+      // Debería descartar el reintento programado sin establecer la fecha de envío
+      it('should clear the scheduled retry without setting sentAt', () => {
+        notification.deferUntil(new Date(Date.now() + 60000));
+
+        notification.markAsSkipped();
+
+        expect(notification.nextAttemptAt).toBeUndefined();
+        expect(notification.isSent()).toBe(false);
+      });
+    });
+
+    describe('Record Failed Attempt', () => {
+      // Debería sumar el intento y guardar el error y el próximo reintento
+      it('should count the attempt and keep the error and next attempt', () => {
+        const nextAttemptAt = new Date(Date.now() + 60000);
+
+        notification.recordFailedAttempt('EMAIL: SMTP connection refused', nextAttemptAt);
+
+        expect(notification.attempts).toBe(1);
+        expect(notification.lastError).toBe('EMAIL: SMTP connection refused');
+        expect(notification.nextAttemptAt).toBe(nextAttemptAt);
+      });
+
+      // Debería recortar errores demasiado largos
+      it('should truncate errors that are too long', () => {
+        notification.recordFailedAttempt('x'.repeat(1500));
+
+        expect(notification.lastError).toHaveLength(Notification.MAX_ERROR_LENGTH);
+        expect(notification.nextAttemptAt).toBeUndefined();
+      });
+
+      // Al entregarse debería descartar el reintento programado
+      it('should clear the scheduled retry once sent', () => {
+        notification.recordFailedAttempt('EMAIL: timeout', new Date(Date.now() + 60000));
+
+        notification.markAsSent();
+
+        expect(notification.nextAttemptAt).toBeUndefined();
+        expect(notification.attempts).toBe(1);
+      });
+    });
+
     describe('Update Status', () => {
       // Debería actualizar el estado de la notificación
       it('should update notification status', () => {
@@ -331,6 +374,30 @@ describe('Notification Entity', () => {
         expect(notification.isAppointmentRelated()).toBe(true);
       });
 
+      // Debería identificar APPOINTMENT_RESCHEDULED como relacionada con cita
+      it('should identify APPOINTMENT_RESCHEDULED as appointment related', () => {
+        notification = new Notification({
+          type: NotificationTypeEnum.APPOINTMENT_RESCHEDULED,
+          message: 'Test',
+          userId: validNotificationData.userId,
+          statusId: validNotificationData.statusId,
+        });
+
+        expect(notification.isAppointmentRelated()).toBe(true);
+      });
+
+      // Debería identificar WAITLIST_SLOT_AVAILABLE como relacionada con cita
+      it('should identify WAITLIST_SLOT_AVAILABLE as appointment related', () => {
+        notification = new Notification({
+          type: NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE,
+          message: 'Test',
+          userId: validNotificationData.userId,
+          statusId: validNotificationData.statusId,
+        });
+
+        expect(notification.isAppointmentRelated()).toBe(true);
+      });
+
       // No debería identificar PROMOTIONAL como relacionada con cita
       it('should not identify PROMOTIONAL as appointment related', () => {
         notification = new Notification({
@@ -369,6 +436,9 @@ describe('Notification Entity', () => {
           statusId: notification.statusId,
           sentAt: null,
           createdAt: notification.createdAt,
+          attempts: 0,
+          lastError: null,
+          nextAttemptAt: null,
         });
       });
 
@@ -390,14 +460,16 @@ describe('Notification Entity', () => {
       expect(NotificationTypeEnum.APPOINTMENT_CONFIRMATION).toBe('APPOINTMENT_CONFIRMATION');
       expect(NotificationTypeEnum.APPOINTMENT_REMINDER).toBe('APPOINTMENT_REMINDER');
       expect(NotificationTypeEnum.APPOINTMENT_CANCELLATION).toBe('APPOINTMENT_CANCELLATION');
+      expect(NotificationTypeEnum.APPOINTMENT_RESCHEDULED).toBe('APPOINTMENT_RESCHEDULED');
+      expect(NotificationTypeEnum.WAITLIST_SLOT_AVAILABLE).toBe('WAITLIST_SLOT_AVAILABLE');
       expect(NotificationTypeEnum.PROMOTIONAL).toBe('PROMOTIONAL');
       expect(NotificationTypeEnum.SYSTEM).toBe('SYSTEM');
     });
 
-    // Debería tener exactamente 5 valores de tipo
-    it('should have exactly 5 type values', () => {
+    // Debería tener exactamente 7 valores de tipo
+    it('should have exactly 7 type values', () => {
       const typeValues = Object.values(NotificationTypeEnum);
-      expect(typeValues).toHaveLength(5);
+      expect(typeValues).toHaveLength(7);
     });
   });
 });
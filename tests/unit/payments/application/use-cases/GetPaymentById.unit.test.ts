@@ -93,6 +93,7 @@ describe('GetPaymentById Use Case', () => {
       method: mockPayment.method,
       paymentDate: mockPayment.paymentDate,
       appointmentId: mockPayment.appointmentId,
+      type: mockPayment.type,
       createdAt: mockPayment.createdAt,
       updatedAt: mockPayment.updatedAt,
     });
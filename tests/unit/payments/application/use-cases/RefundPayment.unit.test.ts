@@ -5,8 +5,11 @@ import { Payment, PaymentStatusEnum, PaymentMethodEnum } from '../../../../../sr
 import { NotFoundError } from '../../../../../src/shared/exceptions/NotFoundError';
 import { BusinessRuleError } from '../../../../../src/shared/exceptions/BusinessRuleError';
 import { ForbiddenError } from '../../../../../src/shared/exceptions/ForbiddenError';
+import { PaymentRefundedEvent } from '../../../../../src/modules/payments/domain/events/PaymentRefundedEvent';
+import { EventBus } from '../../../../../src/shared/events/EventBus';
 
 describe('RefundPayment Use Case', () => {
+  let mockEventBus: jest.Mocked<EventBus>;
   let refundPayment: RefundPayment;
   let mockPaymentRepository: jest.Mocked<IPaymentRepository>;
   let mockAppointmentRepository: jest.Mocked<IAppointmentRepository>;
@@ -41,7 +44,15 @@ describe('RefundPayment Use Case', () => {
       findById: jest.fn(),
     } as unknown as jest.Mocked<IAppointmentRepository>;
 
-    refundPayment = new RefundPayment(mockPaymentRepository, mockAppointmentRepository);
+    mockEventBus = {
+      publish: jest.fn().mockResolvedValue(undefined),
+    } as unknown as jest.Mocked<EventBus>;
+
+    refundPayment = new RefundPayment(
+      mockPaymentRepository,
+      mockAppointmentRepository,
+      mockEventBus,
+    );
   });
 
   // Debería reembolsar un pago completado exitosamente
@@ -71,6 +82,13 @@ describe('RefundPayment Use Case', () => {
 
     expect(result.status).toBe(PaymentStatusEnum.REFUNDED);
     expect(mockPaymentRepository.update).toHaveBeenCalledTimes(1);
+    expect(mockEventBus.publish).toHaveBeenCalledWith(expect.any(PaymentRefundedEvent));
+    expect(mockEventBus.publish.mock.calls[0][0]).toMatchObject({
+      paymentId: completedPayment.id,
+      appointmentId: validAppointmentId,
+      amount: 100,
+      reason: 'Cliente canceló la cita',
+    });
   });
 
   // Debería reembolsar sin razón (razón opcional)
@@ -292,6 +310,7 @@ describe('RefundPayment Use Case', () => {
       ).rejects.toThrow(ForbiddenError);
 
       expect(mockPaymentRepository.update).not.toHaveBeenCalled();
+      expect(mockEventBus.publish).not.toHaveBeenCalled();
     });
 
     // CLIENT no tiene acceso a esta operación bajo ninguna circunstancia
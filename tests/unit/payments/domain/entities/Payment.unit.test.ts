@@ -3,6 +3,7 @@ import {
   PaymentProps,
   PaymentStatusEnum,
   PaymentMethodEnum,
+  PaymentTypeEnum,
 } from '../../../../../src/modules/payments/domain/entities/Payment';
 
 describe('Payment Entity', () => {
@@ -255,6 +256,7 @@ describe('Payment Entity', () => {
         method: null,
         paymentDate: null,
         appointmentId: validPaymentProps.appointmentId,
+        type: PaymentTypeEnum.SERVICE,
         createdAt: validPaymentProps.createdAt,
         updatedAt: validPaymentProps.updatedAt,
       });
@@ -276,10 +278,24 @@ describe('Payment Entity', () => {
       expect(payment.method).toBeNull();
       expect(payment.paymentDate).toBeNull();
       expect(payment.appointmentId).toBe('123e4567-e89b-12d3-a456-426614174001');
+      expect(payment.type).toBe(PaymentTypeEnum.SERVICE);
       expect(payment.createdAt).toBeInstanceOf(Date);
       expect(payment.updatedAt).toBeInstanceOf(Date);
     });
 
+    // Debería crear un cargo de cancelación tardía pendiente
+    it('should create a pending late-cancellation fee', () => {
+      const payment = Payment.create(
+        '123e4567-e89b-12d3-a456-426614174000',
+        20,
+        '123e4567-e89b-12d3-a456-426614174001',
+        PaymentTypeEnum.LATE_CANCELLATION_FEE,
+      );
+
+      expect(payment.type).toBe(PaymentTypeEnum.LATE_CANCELLATION_FEE);
+      expect(payment.isPending).toBe(true);
+    });
+
     // Debería lanzar error si el monto es 0
     it('should throw error if amount is 0', () => {
       expect(() =>
@@ -204,4 +204,69 @@ describe('Service Entity', () => {
       expect(service.isActive).toBe(false);
     });
   });
+
+  describe('Buffer management', () => {
+    // Por defecto un servicio no reserva buffers
+    it('should default to no buffers', () => {
+      const service = Service.create(
+        validServiceData.categoryId,
+        validServiceData.name,
+        validServiceData.description,
+        validServiceData.duration,
+        validServiceData.durationVariation,
+        validServiceData.price,
+      );
+
+      expect(service.bufferBefore).toBe(0);
+      expect(service.bufferAfter).toBe(0);
+    });
+
+    // Debería crear y actualizar buffers
+    it('should create and update buffers', () => {
+      const service = Service.create(
+        validServiceData.categoryId,
+        validServiceData.name,
+        validServiceData.description,
+        validServiceData.duration,
+        validServiceData.durationVariation,
+        validServiceData.price,
+        5,
+        10,
+      );
+      expect(service.bufferBefore).toBe(5);
+      expect(service.bufferAfter).toBe(10);
+
+      service.updateBuffers(0, 20);
+      expect(service.bufferBefore).toBe(0);
+      expect(service.bufferAfter).toBe(20);
+    });
+
+    // Debería rechazar buffers fuera de rango
+    it('should throw error if a buffer is out of range', () => {
+      expect(() =>
+        Service.create(
+          validServiceData.categoryId,
+          validServiceData.name,
+          validServiceData.description,
+          validServiceData.duration,
+          validServiceData.durationVariation,
+          validServiceData.price,
+          -1,
+          0,
+        ),
+      ).toThrow(ValidationError);
+      expect(() =>
+        Service.create(
+          validServiceData.categoryId,
+          validServiceData.name,
+          validServiceData.description,
+          validServiceData.duration,
+          validServiceData.durationVariation,
+          validServiceData.price,
+          0,
+          121,
+        ),
+      ).toThrow('Buffer time must be between 0 and 120 minutes');
+    });
+  });
 });
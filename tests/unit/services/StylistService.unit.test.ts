@@ -1,4 +1,5 @@
 import { StylistService } from '../../../src/modules/services/domain/entities/StylistService';
+import { Service } from '../../../src/modules/services/domain/entities/Service';
 import { ValidationError } from '../../../src/shared/exceptions/ValidationError';
 
 describe('StylistService Entity', () => {
@@ -166,4 +167,53 @@ describe('StylistService Entity', () => {
       expect(stylistService.isOffering).toBe(false);
     });
   });
+
+  describe('Buffer management', () => {
+    const service = Service.create('category-id', 'Color', 'Coloración', 60, 0, 5000, 10, 15);
+
+    // Sin buffers propios debería usar los del servicio
+    it('should use the service buffers without custom buffers', () => {
+      const stylistService = StylistService.create(validData.stylistId, validData.serviceId);
+
+      expect(stylistService.getEffectiveBufferBefore(service)).toBe(10);
+      expect(stylistService.getEffectiveBufferAfter(service)).toBe(15);
+    });
+
+    // Los buffers propios (incluido 0) reemplazan a los del servicio
+    it('should prefer custom buffers, including 0', () => {
+      const stylistService = StylistService.create(
+        validData.stylistId,
+        validData.serviceId,
+        null,
+        0,
+        30,
+      );
+
+      expect(stylistService.getEffectiveBufferBefore(service)).toBe(0);
+      expect(stylistService.getEffectiveBufferAfter(service)).toBe(30);
+    });
+
+    // Debería limpiar los buffers propios al actualizarlos con null
+    it('should clear custom buffers when updating with null', () => {
+      const stylistService = StylistService.create(
+        validData.stylistId,
+        validData.serviceId,
+        null,
+        5,
+        5,
+      );
+
+      stylistService.updateBuffers(null, null);
+
+      expect(stylistService.customBufferBefore).toBeNull();
+      expect(stylistService.getEffectiveBufferAfter(service)).toBe(15);
+    });
+
+    // Debería rechazar buffers propios fuera de rango
+    it('should throw error if a custom buffer is out of range', () => {
+      expect(() =>
+        StylistService.create(validData.stylistId, validData.serviceId, null, 121, null),
+      ).toThrow(ValidationError);
+    });
+  });
 });
@@ -0,0 +1,72 @@
+import { EventBus } from '../../../src/shared/events/EventBus';
+import { DomainEvent } from '../../../src/shared/events/DomainEvent';
+import { logger } from '../../../src/shared/logger/logger';
+
+describe('EventBus Unit Tests', () => {
+  let eventBus: EventBus;
+
+  const createEvent = (eventName: string): DomainEvent => ({ eventName, occurredAt: new Date() });
+
+  beforeEach(() => {
+    eventBus = new EventBus();
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  // Debería ejecutar los suscriptores del evento en orden de suscripción
+  it('should run the handlers of the event in subscription order', async () => {
+    const calls: string[] = [];
+    eventBus.subscribe('test.happened', async () => {
+      calls.push('first');
+    });
+    eventBus.subscribe('test.happened', async () => {
+      calls.push('second');
+    });
+    const event = createEvent('test.happened');
+
+    await eventBus.publish(event);
+
+    expect(calls).toEqual(['first', 'second']);
+  });
+
+  // Debería ignorar los suscriptores de otros eventos
+  it('should only run the handlers subscribed to the published event', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    eventBus.subscribe('test.other', handler);
+
+    await eventBus.publish(createEvent('test.happened'));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+
+  // Un suscriptor que falla no debería afectar al publicador ni a los demás suscriptores
+  it('should log a failing handler and keep running the rest', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    eventBus.subscribe('test.happened', async () => {
+      throw new Error('boom');
+    });
+    eventBus.subscribe('test.happened', handler);
+
+    await expect(eventBus.publish(createEvent('test.happened'))).resolves.toBeUndefined();
+
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(logger.error).toHaveBeenCalledWith('Domain event handler failed', {
+      eventName: 'test.happened',
+      error: 'boom',
+    });
+  });
+
+  // Debería eliminar todas las suscripciones
+  it('should remove every subscription on clear', async () => {
+    const handler = jest.fn().mockResolvedValue(undefined);
+    eventBus.subscribe('test.happened', handler);
+
+    eventBus.clear();
+    await eventBus.publish(createEvent('test.happened'));
+
+    expect(handler).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,73 @@
+import { IntervalJob } from '../../../src/shared/jobs/IntervalJob';
+import { logger } from '../../../src/shared/logger/logger';
+
+describe('IntervalJob Unit Tests', () => {
+  let task: jest.Mock<Promise<void>, []>;
+
+  beforeEach(() => {
+    jest.useFakeTimers();
+    task = jest.fn().mockResolvedValue(undefined);
+    jest.spyOn(logger, 'info').mockImplementation(() => logger);
+    jest.spyOn(logger, 'warn').mockImplementation(() => logger);
+    jest.spyOn(logger, 'error').mockImplementation(() => logger);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  // Debería ejecutar la tarea en cada intervalo hasta que se detenga
+  it('should run the task every interval until stopped', async () => {
+    const job = new IntervalJob('Test job', 5, task);
+
+    job.start();
+    await jest.advanceTimersByTimeAsync(10 * 60000);
+    job.stop();
+    await jest.advanceTimersByTimeAsync(10 * 60000);
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(logger.info).toHaveBeenCalledWith('Test job scheduled every 5 minutes');
+  });
+
+  // Con intervalo 0 el job queda deshabilitado
+  it('should not schedule the task when the interval is 0', async () => {
+    const job = new IntervalJob('Test job', 0, task);
+
+    job.start();
+    await jest.advanceTimersByTimeAsync(60 * 60000);
+
+    expect(task).not.toHaveBeenCalled();
+    expect(logger.info).toHaveBeenCalledWith('Test job disabled');
+  });
+
+  // Debería omitir la ejecución si la anterior sigue en curso
+  it('should skip a run while the previous one is still in progress', async () => {
+    let finish: () => void = () => undefined;
+    task.mockImplementationOnce(() => new Promise<void>((resolve) => (finish = resolve)));
+    const job = new IntervalJob('Test job', 5, task);
+
+    const firstRun = job.run();
+    await job.run();
+    finish();
+    await firstRun;
+
+    expect(task).toHaveBeenCalledTimes(1);
+    expect(logger.warn).toHaveBeenCalledWith('Test job skipped: previous run still in progress');
+  });
+
+  // Una ejecución fallida se registra en el log y no impide las siguientes
+  it('should log a failed run and keep running afterwards', async () => {
+    task.mockRejectedValueOnce(new Error('Database unavailable'));
+    const job = new IntervalJob('Test job', 5, task);
+
+    await job.run();
+    await job.run();
+
+    expect(task).toHaveBeenCalledTimes(2);
+    expect(logger.error).toHaveBeenCalledWith(
+      'Test job failed',
+      expect.objectContaining({ error: 'Database unavailable' }),
+    );
+  });
+});
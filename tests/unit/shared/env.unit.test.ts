@@ -41,6 +41,32 @@ describe('validateEnv', () => {
       expect(result.JWT_ACCESS_EXPIRY).toBe('15m');
       expect(result.JWT_REFRESH_EXPIRY).toBe('7d');
       expect(result.FRONTEND_URL).toBe('http://localhost:3000');
+      expect(result.SALON_TIMEZONE).toBe('UTC');
+      expect(result.APPOINTMENT_SWEEP_INTERVAL_MINUTES).toBe(15);
+      expect(result.NO_SHOW_GRACE_MINUTES).toBe(30);
+      expect(result.WAITLIST_HOLD_MINUTES).toBe(15);
+      expect(result.CHECKOUT_HOLD_MINUTES).toBe(5);
+      expect(result.APPOINTMENT_REMINDER_INTERVAL_MINUTES).toBe(5);
+      expect(result.APPOINTMENT_REMINDER_OFFSETS_MINUTES).toEqual([1440, 120]);
+      expect(result.NOTIFICATION_DISPATCH_INTERVAL_MINUTES).toBe(1);
+      expect(result.NOTIFICATION_MAX_ATTEMPTS).toBe(5);
+      expect(result.NOTIFICATION_RETRY_BASE_MINUTES).toBe(1);
+      expect(result.MAIL_TRANSPORT).toBe('console');
+      expect(result.MAIL_PORT).toBe(587);
+    });
+
+    // Debería aceptar el transporte SMTP cuando se indica el servidor
+    it('should accept the SMTP mail transport when MAIL_HOST is set', () => {
+      const result = validateEnv({
+        ...validEnv,
+        MAIL_TRANSPORT: 'smtp',
+        MAIL_HOST: 'smtp.example.com',
+        MAIL_PORT: '465',
+      });
+
+      expect(exitSpy).not.toHaveBeenCalled();
+      expect(result.MAIL_HOST).toBe('smtp.example.com');
+      expect(result.MAIL_PORT).toBe(465);
     });
 
     // Debería respetar los valores explícitos de las variables opcionales en vez del default
@@ -52,6 +78,8 @@ describe('validateEnv', () => {
         LOG_LEVEL: 'debug',
         JWT_ACCESS_EXPIRY: '1h',
         FRONTEND_URL: 'https://turnity.com',
+        SALON_TIMEZONE: 'America/Argentina/Buenos_Aires',
+        APPOINTMENT_REMINDER_OFFSETS_MINUTES: ' 2880, 60 ,60',
       });
 
       expect(result.NODE_ENV).toBe('production');
@@ -59,6 +87,8 @@ describe('validateEnv', () => {
       expect(result.LOG_LEVEL).toBe('debug');
       expect(result.JWT_ACCESS_EXPIRY).toBe('1h');
       expect(result.FRONTEND_URL).toBe('https://turnity.com');
+      expect(result.SALON_TIMEZONE).toBe('America/Argentina/Buenos_Aires');
+      expect(result.APPOINTMENT_REMINDER_OFFSETS_MINUTES).toEqual([2880, 60]);
     });
   });
 
@@ -113,6 +143,13 @@ describe('validateEnv', () => {
       expect(exitSpy).toHaveBeenCalledWith(1);
     });
 
+    // Debería llamar a process.exit(1) si SALON_TIMEZONE no es una zona horaria IANA
+    it('should call process.exit(1) if SALON_TIMEZONE is not an IANA time zone', () => {
+      validateEnv({ ...validEnv, SALON_TIMEZONE: 'Mars/Olympus_Mons' });
+
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
     // Debería llamar a process.exit(1) si JWT_ACCESS_EXPIRY no matchea el formato esperado
     it('should call process.exit(1) if JWT_ACCESS_EXPIRY does not match the expected format', () => {
       validateEnv({ ...validEnv, JWT_ACCESS_EXPIRY: '2 days' });
@@ -120,6 +157,30 @@ describe('validateEnv', () => {
       expect(exitSpy).toHaveBeenCalledWith(1);
     });
 
+    // Debería llamar a process.exit(1) si las anticipaciones de los recordatorios no son válidas
+    it('should call process.exit(1) if APPOINTMENT_REMINDER_OFFSETS_MINUTES is not a list of valid offsets', () => {
+      validateEnv({ ...validEnv, APPOINTMENT_REMINDER_OFFSETS_MINUTES: '24h,2h' });
+      validateEnv({ ...validEnv, APPOINTMENT_REMINDER_OFFSETS_MINUTES: '0' });
+
+      expect(exitSpy).toHaveBeenCalledTimes(2);
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
+    // Debería llamar a process.exit(1) si no se permite al menos un intento de entrega
+    it('should call process.exit(1) if NOTIFICATION_MAX_ATTEMPTS is below 1', () => {
+      validateEnv({ ...validEnv, NOTIFICATION_MAX_ATTEMPTS: '0' });
+
+      expect(exitSpy).toHaveBeenCalledWith(1);
+    });
+
+    // Debería llamar a process.exit(1) si se elige SMTP sin indicar el servidor
+    it('should call process.exit(1) if MAIL_TRANSPORT is smtp and MAIL_HOST is missing', () => {
+      validateEnv({ ...validEnv, MAIL_TRANSPORT: 'smtp' });
+
+      expect(exitSpy).toHaveBeenCalledWith(1);
+      expect(consoleErrorSpy).toHaveBeenCalledWith(expect.stringContaining('MAIL_HOST'));
+    });
+
     // Debería imprimir un mensaje legible por cada variable inválida
     it('should print a readable message for each invalid variable', () => {
       validateEnv({});
@@ -0,0 +1,131 @@
+import {
+  addSalonDays,
+  getSalonMinutesOfDay,
+  getSalonTimeZone,
+  salonDateTimeToUtc,
+  salonDayRange,
+  toSalonDate,
+  toSalonDateString,
+  toSalonTimeString,
+} from '../../../src/shared/utils/salonTime';
+
+describe('salonTime Utils Unit Tests', () => {
+  const BUENOS_AIRES = 'America/Argentina/Buenos_Aires';
+  const NEW_YORK = 'America/New_York';
+  const MADRID = 'Europe/Madrid';
+
+  describe('getSalonTimeZone', () => {
+    // Sin SALON_TIMEZONE configurada debería usar UTC
+    it('should default to UTC', () => {
+      expect(getSalonTimeZone()).toBe('UTC');
+      expect(toSalonDateString(new Date('2026-06-01T23:30:00.000Z'))).toBe('2026-06-01');
+    });
+  });
+
+  describe('toSalonDate', () => {
+    // Debería devolver el día local aunque en UTC ya sea el día siguiente
+    it('should return the local calendar day as a date-only value', () => {
+      const date = toSalonDate(new Date('2026-06-02T02:00:00.000Z'), BUENOS_AIRES);
+
+      expect(date.toISOString()).toBe('2026-06-01T00:00:00.000Z');
+      expect(date.getUTCDay()).toBe(1); // lunes en Buenos Aires
+    });
+  });
+
+  describe('getSalonMinutesOfDay / toSalonTimeString', () => {
+    // Debería expresar el instante en hora local del salón
+    it('should express the instant in salon-local time', () => {
+      const instant = new Date('2026-06-01T13:15:00.000Z');
+
+      expect(getSalonMinutesOfDay(instant, BUENOS_AIRES)).toBe(10 * 60 + 15);
+      expect(toSalonTimeString(instant, BUENOS_AIRES)).toBe('10:15');
+    });
+
+    // Debería seguir el horario de verano
+    it('should follow daylight saving time', () => {
+      expect(toSalonTimeString(new Date('2026-03-28T09:00:00.000Z'), MADRID)).toBe('10:00');
+      expect(toSalonTimeString(new Date('2026-03-29T09:00:00.000Z'), MADRID)).toBe('11:00');
+    });
+  });
+
+  describe('salonDateTimeToUtc', () => {
+    // Debería convertir una hora local al instante UTC
+    it('should convert a local time to its UTC instant', () => {
+      const result = salonDateTimeToUtc(
+        new Date('2026-06-01T00:00:00.000Z'),
+        '10:00',
+        BUENOS_AIRES,
+      );
+
+      expect(result.toISOString()).toBe('2026-06-01T13:00:00.000Z');
+    });
+
+    // Debería usar el desfase vigente a cada lado del cambio de horario
+    it('should use the offset in force on each side of a DST change', () => {
+      const before = salonDateTimeToUtc(new Date('2026-03-28T00:00:00.000Z'), '10:00', MADRID);
+      const after = salonDateTimeToUtc(new Date('2026-03-29T00:00:00.000Z'), '10:00', MADRID);
+
+      expect(before.toISOString()).toBe('2026-03-28T09:00:00.000Z');
+      expect(after.toISOString()).toBe('2026-03-29T08:00:00.000Z');
+    });
+
+    // Una hora inexistente (inicio del horario de verano) se desplaza hacia adelante
+    it('should shift a non-existent local time forward', () => {
+      const result = salonDateTimeToUtc(new Date('2026-03-08T00:00:00.000Z'), '02:30', NEW_YORK);
+
+      expect(result.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+      expect(toSalonTimeString(result, NEW_YORK)).toBe('03:30');
+    });
+
+    // Una hora repetida (fin del horario de verano) toma la primera ocurrencia
+    it('should pick the first occurrence of a repeated local time', () => {
+      const newYork = salonDateTimeToUtc(new Date('2026-11-01T00:00:00.000Z'), '01:30', NEW_YORK);
+      const madrid = salonDateTimeToUtc(new Date('2026-10-25T00:00:00.000Z'), '02:30', MADRID);
+
+      expect(newYork.toISOString()).toBe('2026-11-01T05:30:00.000Z');
+      expect(madrid.toISOString()).toBe('2026-10-25T00:30:00.000Z');
+    });
+  });
+
+  describe('salonDayRange', () => {
+    // Debería cubrir el día local completo
+    it('should cover the whole local day', () => {
+      const range = salonDayRange(new Date('2026-06-01T00:00:00.000Z'), BUENOS_AIRES);
+
+      expect(range.gte.toISOString()).toBe('2026-06-01T03:00:00.000Z');
+      expect(range.lte.toISOString()).toBe('2026-06-02T02:59:59.999Z');
+    });
+
+    // Los días de cambio de horario duran 23 o 25 horas
+    it('should span 23 or 25 hours on DST change days', () => {
+      const spring = salonDayRange(new Date('2026-03-08T00:00:00.000Z'), NEW_YORK);
+      const autumn = salonDayRange(new Date('2026-11-01T00:00:00.000Z'), NEW_YORK);
+      const hours = (range: { gte: Date; lte: Date }) =>
+        (range.lte.getTime() + 1 - range.gte.getTime()) / 3600000;
+
+      expect(spring.gte.toISOString()).toBe('2026-03-08T05:00:00.000Z');
+      expect(hours(spring)).toBe(23);
+      expect(autumn.gte.toISOString()).toBe('2026-11-01T04:00:00.000Z');
+      expect(hours(autumn)).toBe(25);
+    });
+  });
+
+  describe('addSalonDays', () => {
+    // Debería conservar la hora local aunque el día dure 23 horas
+    it('should keep the local time across a DST change', () => {
+      const appointment = new Date('2026-03-08T14:00:00.000Z'); // 10:00 EDT
+
+      const dayBefore = addSalonDays(appointment, -1, NEW_YORK);
+
+      expect(dayBefore.toISOString()).toBe('2026-03-07T15:00:00.000Z'); // 10:00 EST
+      expect((appointment.getTime() - dayBefore.getTime()) / 3600000).toBe(23);
+    });
+
+    // Sin cambio de horario equivale a desplazar múltiplos de 24 horas
+    it('should shift by whole days when there is no DST change', () => {
+      const instant = new Date('2026-06-10T13:45:30.000Z');
+
+      expect(addSalonDays(instant, 2, BUENOS_AIRES).toISOString()).toBe('2026-06-12T13:45:30.000Z');
+    });
+  });
+});